@@ -23,6 +23,7 @@ import { projectsRouter } from './src/routes/projects.ts';
 import { debugRouter, logDebugEvent } from './src/routes/debug.ts';
 import { identityRouter } from './src/routes/identity.ts';
 import { juiceRouter } from './src/routes/juice.ts';
+import { recurringRouter } from './src/routes/recurring.ts';
 import { adminRouter } from './src/routes/admin.ts';
 import { hooksRouter } from './src/routes/hooks.ts';
 import projectConversationsRouter from './src/routes/projectConversations.ts';
@@ -40,8 +41,13 @@ import {
   processSpends as processJuiceSpends,
   processCashOuts as processJuiceCashOuts,
 } from './src/services/juice.ts';
+import { processTransfers as processJuiceTransfers } from './src/services/juiceTransfers.ts';
+import { processRecurringPayments } from './src/services/recurringPayments.ts';
 import { expireSessions as expireTerminalSessions } from './src/services/terminal.ts';
+import { processWebhookDeliveries } from './src/services/webhooks.ts';
 import { cleanupExpiredCache as cleanupRulesetCache } from './src/services/rulesetCache.ts';
+import { embedPendingMessages } from './src/services/chatSearch.ts';
+import { processChatWatchers } from './src/services/chatWatchers.ts';
 import { runMigrations } from './src/db/migrate.ts';
 import { recoverOrphanedJobs } from './src/services/forge.ts';
 
@@ -157,6 +163,7 @@ app.route('/projects', projectsRouter);
 app.route('/debug', debugRouter);
 app.route('/identity', identityRouter);
 app.route('/juice', juiceRouter);
+app.route('/recurring', recurringRouter);
 app.route('/admin', adminRouter);
 app.route('/hooks', hooksRouter);
 app.route('/project-conversations', projectConversationsRouter);
@@ -308,6 +315,30 @@ if (config.env === 'development') {
     }
   }, 5 * 60 * 1000);
 
+  // Complete held Juice transfers every 5 minutes
+  setInterval(async () => {
+    try {
+      const result = await processJuiceTransfers();
+      if (result.completed > 0 || result.expiredGiftCodes > 0) {
+        console.log(`[Dev] Completed ${result.completed} Juice transfers, expired ${result.expiredGiftCodes} gift codes`);
+      }
+    } catch (error) {
+      console.error('[Dev] Failed to process Juice transfers:', error);
+    }
+  }, 5 * 60 * 1000);
+
+  // Queue due recurring payments every 5 minutes
+  setInterval(async () => {
+    try {
+      const result = await processRecurringPayments();
+      if (result.queued > 0 || result.failed > 0) {
+        console.log(`[Dev] Queued ${result.queued} recurring payments (${result.failed} failed)`);
+      }
+    } catch (error) {
+      console.error('[Dev] Failed to process recurring payments:', error);
+    }
+  }, 5 * 60 * 1000);
+
   // Expire old terminal payment sessions every minute
   setInterval(async () => {
     try {
@@ -320,6 +351,18 @@ if (config.env === 'development') {
     }
   }, 60 * 1000);
 
+  // Retry merchant webhook deliveries every minute
+  setInterval(async () => {
+    try {
+      const result = await processWebhookDeliveries();
+      if (result.delivered > 0 || result.failed > 0) {
+        console.log(`[Dev] Delivered ${result.delivered} webhooks (${result.failed} failed permanently)`);
+      }
+    } catch (error) {
+      console.error('[Dev] Failed to process webhook deliveries:', error);
+    }
+  }, 60 * 1000);
+
   // Cleanup expired ruleset cache every 5 minutes
   setInterval(async () => {
     try {
@@ -331,6 +374,30 @@ if (config.env === 'development') {
       console.error('[Dev] Failed to cleanup ruleset cache:', error);
     }
   }, 5 * 60 * 1000);
+
+  // Embed new chat messages for semantic search every 5 minutes
+  setInterval(async () => {
+    try {
+      const result = await embedPendingMessages();
+      if (result.embedded > 0) {
+        console.log(`[Dev] Embedded ${result.embedded} chat messages for search`);
+      }
+    } catch (error) {
+      console.error('[Dev] Failed to embed chat messages:', error);
+    }
+  }, 5 * 60 * 1000);
+
+  // Post due chat watcher reports every 5 minutes
+  setInterval(async () => {
+    try {
+      const result = await processChatWatchers();
+      if (result.posted > 0 || result.failed > 0) {
+        console.log(`[Dev] Posted ${result.posted} chat watcher reports (${result.failed} failed)`);
+      }
+    } catch (error) {
+      console.error('[Dev] Failed to process chat watchers:', error);
+    }
+  }, 5 * 60 * 1000);
 } else {
   console.log('Production mode: Use GCP Cloud Scheduler for cron jobs');
 }
@@ -362,6 +429,7 @@ console.log(`
 ║  Chat:                                                    ║
 ║    POST /chat             - Create chat               ║
 ║    GET  /chat             - List user's chats         ║
+║    GET  /chat/search      - Search messages           ║
 ║    GET  /chat/:id         - Get chat details          ║
 ║    POST /chat/:id/messages - Send message             ║
 ║    GET  /chat/:id/ws      - WebSocket connection      ║
@@ -377,6 +445,8 @@ console.log(`
 ║    POST /juice/purchase   - Buy Juice with fiat       ║
 ║    POST /juice/spend      - Pay a project with Juice  ║
 ║    POST /juice/cash-out   - Convert Juice to crypto   ║
+║    POST /juice/transfer   - Send Juice to a user      ║
+║    POST /recurring        - Weekly/monthly support    ║
 ║    GET  /juice/transactions - Transaction history     ║
 ║                                                           ║
 ║  Proxy Endpoints:                                         ║
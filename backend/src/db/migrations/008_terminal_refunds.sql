@@ -0,0 +1,62 @@
+-- Terminal Payment Refunds
+-- Partial and full refunds of completed PayTerm payment sessions
+
+-- ============================================================================
+-- Payment Session Refund Tracking
+-- ============================================================================
+
+ALTER TABLE payment_sessions DROP CONSTRAINT IF EXISTS payment_sessions_status_check;
+ALTER TABLE payment_sessions ADD CONSTRAINT payment_sessions_status_check
+  CHECK (status IN (
+    'pending', 'paying', 'completed', 'failed', 'expired', 'cancelled',
+    'partially_refunded', 'refunded'
+  ));
+
+-- Payer wallet (recorded when a wallet payment starts, used as the refund destination)
+ALTER TABLE payment_sessions ADD COLUMN IF NOT EXISTS payer_address VARCHAR(42);
+
+-- Running total of completed refunds
+ALTER TABLE payment_sessions ADD COLUMN IF NOT EXISTS refunded_amount_usd DECIMAL(20, 2) NOT NULL DEFAULT 0
+  CHECK (refunded_amount_usd >= 0);
+
+COMMENT ON COLUMN payment_sessions.payer_address IS 'Wallet that paid the session, refund destination for wallet payments';
+COMMENT ON COLUMN payment_sessions.refunded_amount_usd IS 'Sum of completed refunds against this session';
+
+-- ============================================================================
+-- Payment Session Refunds
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS payment_session_refunds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES payment_sessions(id) ON DELETE CASCADE,
+  merchant_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  amount_usd DECIMAL(20, 2) NOT NULL CHECK (amount_usd > 0),
+  reason TEXT,
+
+  -- 'juice' refunds are credited back to the consumer's balance immediately,
+  -- 'wallet' refunds are sent on-chain by the merchant and confirmed with a tx hash
+  method VARCHAR(20) NOT NULL CHECK (method IN ('juice', 'wallet')),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'completed', 'failed')),
+
+  refund_address VARCHAR(42),
+  tx_hash VARCHAR(66),
+  error_message TEXT,
+
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_payment_session_refunds_session ON payment_session_refunds(session_id);
+CREATE INDEX idx_payment_session_refunds_merchant ON payment_session_refunds(merchant_id, created_at DESC);
+CREATE INDEX idx_payment_session_refunds_pending ON payment_session_refunds(status) WHERE status = 'pending';
+
+CREATE TRIGGER update_payment_session_refunds_updated_at
+  BEFORE UPDATE ON payment_session_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE payment_session_refunds IS 'Merchant-issued refunds against completed payment sessions';
+COMMENT ON COLUMN payment_session_refunds.refund_address IS 'Destination wallet for wallet refunds';
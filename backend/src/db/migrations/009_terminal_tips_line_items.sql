@@ -0,0 +1,24 @@
+-- Terminal Tips & Line Items
+-- Itemized sessions from the terminal keypad and consumer-entered tips
+
+-- ============================================================================
+-- Terminal Devices
+-- ============================================================================
+
+ALTER TABLE terminal_devices ADD COLUMN IF NOT EXISTS tips_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN terminal_devices.tips_enabled IS 'Whether consumers are offered a tip step before paying';
+
+-- ============================================================================
+-- Payment Sessions
+-- ============================================================================
+
+-- Array of { name, quantity, unitPriceUsd }; amount_usd is their sum when present
+ALTER TABLE payment_sessions ADD COLUMN IF NOT EXISTS line_items JSONB;
+
+-- Tip chosen by the consumer, paid on top of amount_usd in the same project payment
+ALTER TABLE payment_sessions ADD COLUMN IF NOT EXISTS tip_usd DECIMAL(20, 2) NOT NULL DEFAULT 0
+  CHECK (tip_usd >= 0);
+
+COMMENT ON COLUMN payment_sessions.line_items IS 'Itemized breakdown of amount_usd entered on the terminal';
+COMMENT ON COLUMN payment_sessions.tip_usd IS 'Consumer tip, recorded separately from amount_usd';
@@ -0,0 +1,24 @@
+-- Terminal Offline Sessions
+-- Sessions created on the terminal while it had no connection, signed with
+-- a per-session device nonce and reconciled once connectivity returns
+
+-- ============================================================================
+-- Payment Sessions
+-- ============================================================================
+
+-- Random nonce chosen by the terminal; unique per device so replays are detected
+ALTER TABLE payment_sessions ADD COLUMN IF NOT EXISTS offline_nonce VARCHAR(64);
+
+ALTER TABLE payment_sessions ADD COLUMN IF NOT EXISTS created_offline BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- When the terminal reported the session during reconciliation
+-- (NULL if only the consumer has claimed it so far)
+ALTER TABLE payment_sessions ADD COLUMN IF NOT EXISTS synced_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_sessions_offline_nonce
+  ON payment_sessions(device_id, offline_nonce)
+  WHERE offline_nonce IS NOT NULL;
+
+COMMENT ON COLUMN payment_sessions.offline_nonce IS 'Device nonce of a session created while the terminal was offline';
+COMMENT ON COLUMN payment_sessions.created_offline IS 'Session was created locally on the terminal and claimed or synced later';
+COMMENT ON COLUMN payment_sessions.synced_at IS 'When the terminal reconciled this offline session';
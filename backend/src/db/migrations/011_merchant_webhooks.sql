@@ -0,0 +1,75 @@
+-- Merchant Webhooks
+-- Outbound, HMAC-signed notifications of payment session events for merchant POS/ERP systems
+
+-- ============================================================================
+-- Webhook Endpoints
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS merchant_webhooks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  merchant_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  url TEXT NOT NULL,
+  description VARCHAR(255),
+
+  -- Shared secret used to sign payloads (shown to the merchant once, kept to sign)
+  secret VARCHAR(100) NOT NULL,
+
+  -- Subscribed event types, e.g. 'session.completed', 'refund.completed'
+  events TEXT[] NOT NULL,
+
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_merchant_webhooks_merchant ON merchant_webhooks(merchant_id);
+
+CREATE TRIGGER update_merchant_webhooks_updated_at
+  BEFORE UPDATE ON merchant_webhooks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE merchant_webhooks IS 'Merchant-registered endpoints for payment session events';
+
+-- ============================================================================
+-- Delivery Log
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS merchant_webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  webhook_id UUID NOT NULL REFERENCES merchant_webhooks(id) ON DELETE CASCADE,
+
+  -- Same event id across all endpoints, so receivers can deduplicate
+  event_id UUID NOT NULL,
+  event_type VARCHAR(50) NOT NULL,
+  payload JSONB NOT NULL,
+
+  -- 'pending' is retried by the cron until delivered or out of attempts ('failed')
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_attempt_at TIMESTAMPTZ,
+
+  response_status INTEGER,
+  response_body TEXT,
+  error_message TEXT,
+
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_merchant_webhook_deliveries_webhook ON merchant_webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX idx_merchant_webhook_deliveries_due ON merchant_webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE TRIGGER update_merchant_webhook_deliveries_updated_at
+  BEFORE UPDATE ON merchant_webhook_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE merchant_webhook_deliveries IS 'Delivery log and retry queue for merchant webhooks';
+COMMENT ON COLUMN merchant_webhook_deliveries.response_body IS 'First 1KB of the endpoint response, for debugging';
@@ -0,0 +1,25 @@
+-- Settlement Risk Scoring
+-- Per-payment risk model for fiat settlement delays, with admin overrides
+
+-- ============================================================================
+-- Risk Breakdown
+-- ============================================================================
+
+ALTER TABLE pending_fiat_payments
+  ADD COLUMN IF NOT EXISTS model_risk_score INTEGER
+    CHECK (model_risk_score IS NULL OR (model_risk_score >= 0 AND model_risk_score <= 100)),
+  ADD COLUMN IF NOT EXISTS radar_risk_score INTEGER,
+  ADD COLUMN IF NOT EXISTS risk_factors JSONB NOT NULL DEFAULT '[]';
+
+COMMENT ON COLUMN pending_fiat_payments.risk_score IS 'Effective risk score (model score, or admin override when set)';
+COMMENT ON COLUMN pending_fiat_payments.model_risk_score IS 'Score computed by the risk model when the payment was received';
+COMMENT ON COLUMN pending_fiat_payments.risk_factors IS 'Array of {factor, label, points} explaining the model score';
+
+-- ============================================================================
+-- Admin Overrides
+-- ============================================================================
+
+ALTER TABLE pending_fiat_payments
+  ADD COLUMN IF NOT EXISTS risk_overridden_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS risk_overridden_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS risk_override_reason TEXT;
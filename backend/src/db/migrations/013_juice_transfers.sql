@@ -0,0 +1,164 @@
+-- Juice Transfers and Gift Codes
+-- User-to-user Juice transfers (held for fraud protection) and redeemable gift codes
+
+-- ============================================================================
+-- Direct Transfers
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS juice_transfers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sender_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  juice_amount DECIMAL(20, 2) NOT NULL CHECK (juice_amount > 0),
+  note TEXT,
+
+  -- How the sender addressed the recipient (email, Juicy ID or address)
+  recipient_label VARCHAR(255) NOT NULL,
+
+  -- Debited from the sender immediately, credited to the recipient at available_at
+  status VARCHAR(20) NOT NULL DEFAULT 'held'
+    CHECK (status IN ('held', 'completed', 'cancelled')),
+  available_at TIMESTAMPTZ NOT NULL,
+  completed_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT juice_transfer_not_self CHECK (sender_id <> recipient_id)
+);
+
+CREATE INDEX idx_juice_transfers_sender ON juice_transfers(sender_id, created_at DESC);
+CREATE INDEX idx_juice_transfers_recipient ON juice_transfers(recipient_id, created_at DESC);
+CREATE INDEX idx_juice_transfers_available ON juice_transfers(available_at) WHERE status = 'held';
+
+CREATE TRIGGER update_juice_transfers_updated_at
+  BEFORE UPDATE ON juice_transfers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE juice_transfers IS 'User-to-user Juice transfers, held before crediting the recipient';
+
+-- ============================================================================
+-- Gift Codes
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS juice_gift_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  creator_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- Codes are shown once at creation; only the hash is kept
+  code_hash VARCHAR(64) UNIQUE NOT NULL,
+  code_suffix VARCHAR(4) NOT NULL,
+
+  -- Codes created together (e.g. for an event) share a batch
+  batch_id UUID NOT NULL,
+  juice_amount DECIMAL(20, 2) NOT NULL CHECK (juice_amount > 0),
+  note TEXT,
+
+  -- Escrowed from the creator at creation, returned on cancel or expiry
+  status VARCHAR(20) NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'redeemed', 'cancelled', 'expired')),
+  redeemable_at TIMESTAMPTZ NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  redeemed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  redeemed_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_juice_gift_codes_creator ON juice_gift_codes(creator_id, created_at DESC);
+CREATE INDEX idx_juice_gift_codes_batch ON juice_gift_codes(batch_id);
+CREATE INDEX idx_juice_gift_codes_redeemed_by ON juice_gift_codes(redeemed_by) WHERE redeemed_by IS NOT NULL;
+CREATE INDEX idx_juice_gift_codes_expires ON juice_gift_codes(expires_at) WHERE status = 'active';
+
+CREATE TRIGGER update_juice_gift_codes_updated_at
+  BEFORE UPDATE ON juice_gift_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE juice_gift_codes IS 'Prepaid Juice codes, funded from the creator balance';
+
+-- ============================================================================
+-- Transaction History
+-- ============================================================================
+
+CREATE OR REPLACE VIEW juice_transactions AS
+SELECT
+  id,
+  user_id,
+  'purchase' as type,
+  juice_amount as amount,
+  status,
+  created_at,
+  null::integer as project_id,
+  null::integer as chain_id
+FROM juice_purchases
+UNION ALL
+SELECT
+  id,
+  user_id,
+  'spend' as type,
+  -juice_amount as amount,
+  status,
+  created_at,
+  project_id,
+  chain_id
+FROM juice_spends
+UNION ALL
+SELECT
+  id,
+  user_id,
+  'cash_out' as type,
+  -juice_amount as amount,
+  status,
+  created_at,
+  null as project_id,
+  chain_id
+FROM juice_cash_outs
+UNION ALL
+SELECT
+  id,
+  sender_id as user_id,
+  'transfer_out' as type,
+  -juice_amount as amount,
+  status,
+  created_at,
+  null as project_id,
+  null as chain_id
+FROM juice_transfers
+UNION ALL
+SELECT
+  id,
+  recipient_id as user_id,
+  'transfer_in' as type,
+  juice_amount as amount,
+  status,
+  created_at,
+  null as project_id,
+  null as chain_id
+FROM juice_transfers
+WHERE status <> 'cancelled'
+UNION ALL
+SELECT
+  id,
+  creator_id as user_id,
+  'gift_code' as type,
+  -juice_amount as amount,
+  status,
+  created_at,
+  null as project_id,
+  null as chain_id
+FROM juice_gift_codes
+UNION ALL
+SELECT
+  id,
+  redeemed_by as user_id,
+  'gift_redeemed' as type,
+  juice_amount as amount,
+  status,
+  redeemed_at as created_at,
+  null as project_id,
+  null as chain_id
+FROM juice_gift_codes
+WHERE status = 'redeemed';
@@ -0,0 +1,74 @@
+-- Recurring Payments
+-- Weekly/monthly contributions to projects, funded from Juice or a Stripe subscription
+
+-- ============================================================================
+-- Schedules
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS recurring_payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- Target project
+  project_id INTEGER NOT NULL,
+  chain_id INTEGER NOT NULL DEFAULT 42161,
+  beneficiary_address VARCHAR(42) NOT NULL,
+  memo TEXT,
+
+  -- USD per period (Juice for juice-funded schedules)
+  amount DECIMAL(20, 2) NOT NULL CHECK (amount > 0),
+  interval VARCHAR(10) NOT NULL CHECK (interval IN ('weekly', 'monthly')),
+
+  -- juice: cron spends from the Juice balance
+  -- stripe: Stripe bills the card; each paid invoice goes through settlement
+  funding_source VARCHAR(10) NOT NULL CHECK (funding_source IN ('juice', 'stripe')),
+  stripe_subscription_id VARCHAR(255) UNIQUE,
+  stripe_checkout_session_id VARCHAR(255),
+
+  -- incomplete: waiting for Stripe checkout to finish
+  status VARCHAR(20) NOT NULL DEFAULT 'active'
+    CHECK (status IN ('incomplete', 'active', 'paused', 'cancelled')),
+  pause_reason TEXT,
+  next_run_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  cancelled_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_recurring_payments_user ON recurring_payments(user_id, created_at DESC);
+CREATE INDEX idx_recurring_payments_due ON recurring_payments(next_run_at)
+  WHERE status = 'active' AND funding_source = 'juice';
+
+CREATE TRIGGER update_recurring_payments_updated_at
+  BEFORE UPDATE ON recurring_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE recurring_payments IS 'Recurring project contributions (Patreon-style support)';
+
+-- ============================================================================
+-- Runs
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS recurring_payment_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  recurring_payment_id UUID NOT NULL REFERENCES recurring_payments(id) ON DELETE CASCADE,
+  amount DECIMAL(20, 2) NOT NULL,
+
+  -- Exactly one of these is set on success, depending on funding source
+  juice_spend_id UUID REFERENCES juice_spends(id) ON DELETE SET NULL,
+  pending_fiat_payment_id UUID REFERENCES pending_fiat_payments(id) ON DELETE SET NULL,
+  stripe_invoice_id VARCHAR(255) UNIQUE,
+
+  status VARCHAR(20) NOT NULL CHECK (status IN ('queued', 'failed')),
+  error_message TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_recurring_payment_runs_schedule ON recurring_payment_runs(recurring_payment_id, created_at DESC);
+
+COMMENT ON TABLE recurring_payment_runs IS 'One row per attempted period; execution status lives on the linked spend or fiat payment';
@@ -0,0 +1,18 @@
+-- Juice Purchase Currencies
+-- Pay Credits can be bought in local currencies; record the rate used to price them
+
+-- ============================================================================
+-- FX Columns
+-- ============================================================================
+
+ALTER TABLE juice_purchases
+  ADD COLUMN IF NOT EXISTS fx_rate DECIMAL(18, 8) NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS usd_amount DECIMAL(20, 2);
+
+-- Existing purchases were all charged in USD
+UPDATE juice_purchases SET usd_amount = fiat_amount WHERE usd_amount IS NULL;
+
+COMMENT ON COLUMN juice_purchases.fiat_amount IS 'Amount charged, in the presentment currency';
+COMMENT ON COLUMN juice_purchases.currency IS 'ISO 4217 presentment currency the buyer paid in';
+COMMENT ON COLUMN juice_purchases.fx_rate IS 'Units of currency per 1 USD when the purchase was priced (1 for USD)';
+COMMENT ON COLUMN juice_purchases.usd_amount IS 'USD value of the purchase at fx_rate';
@@ -0,0 +1,68 @@
+-- Smart Account Session Permissions
+-- User-defined scopes that limit what the backend may execute from a managed smart account
+
+-- ============================================================================
+-- Permissions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS smart_account_session_permissions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  label VARCHAR(100) NOT NULL,
+
+  -- NULL = every chain the user has a smart account on
+  chain_ids INTEGER[],
+
+  -- [{ "target": "0x...", "selector": "0x12345678" | null }], selector NULL = any function on target
+  allowed_calls JSONB NOT NULL,
+
+  -- Native value (wei) the permission may send in a rolling 24 hours
+  daily_value_limit_wei NUMERIC(78, 0) NOT NULL DEFAULT 0 CHECK (daily_value_limit_wei >= 0),
+
+  -- Scheduled window; revoked_at ends it early
+  starts_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT session_permission_window CHECK (expires_at > starts_at)
+);
+
+CREATE INDEX idx_session_permissions_user ON smart_account_session_permissions(user_id, created_at DESC);
+CREATE INDEX idx_session_permissions_active ON smart_account_session_permissions(user_id, expires_at)
+  WHERE revoked_at IS NULL;
+
+CREATE TRIGGER update_session_permissions_updated_at
+  BEFORE UPDATE ON smart_account_session_permissions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE smart_account_session_permissions IS 'Scoped grants for server-side smart account execution; once a user has any, all executions must match one';
+
+-- ============================================================================
+-- Executions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS smart_account_session_executions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  permission_id UUID NOT NULL REFERENCES smart_account_session_permissions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  chain_id INTEGER NOT NULL,
+  target_address VARCHAR(42) NOT NULL,
+  selector VARCHAR(10),
+  value_wei NUMERIC(78, 0) NOT NULL DEFAULT 0,
+
+  -- Pending rows count toward the daily limit so concurrent calls can't overspend
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'executed', 'failed')),
+  tx_hash VARCHAR(66),
+  error_message TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_session_executions_permission ON smart_account_session_executions(permission_id, created_at DESC);
+
+COMMENT ON TABLE smart_account_session_executions IS 'Smart account executions authorized by a session permission';
@@ -0,0 +1,58 @@
+-- Chat Message Search
+-- Full-text index over chat messages plus optional pgvector embeddings for semantic search
+--
+-- NOTE: Like 005_intent_embeddings, the embeddings table is skipped when pgvector
+-- is not available. Search then falls back to full-text only.
+
+-- ============================================================================
+-- Full-Text Index
+-- ============================================================================
+
+-- 'simple' config (no stemming) so every UI language matches the same way.
+-- Encrypted messages hold ciphertext and are searched client-side instead.
+CREATE INDEX IF NOT EXISTS idx_multi_chat_messages_fts
+  ON multi_chat_messages USING GIN (to_tsvector('simple', content))
+  WHERE is_encrypted = FALSE AND deleted_at IS NULL;
+
+-- ============================================================================
+-- Message Embeddings
+-- ============================================================================
+
+DO $$
+BEGIN
+  CREATE EXTENSION IF NOT EXISTS vector;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'pgvector extension not available - skipping chat_message_embeddings table creation';
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'vector') THEN
+    RAISE NOTICE 'Skipping chat_message_embeddings - pgvector not available';
+    RETURN;
+  END IF;
+
+  EXECUTE '
+    CREATE TABLE IF NOT EXISTS chat_message_embeddings (
+      message_id UUID PRIMARY KEY REFERENCES multi_chat_messages(id) ON DELETE CASCADE,
+      chat_id UUID NOT NULL REFERENCES multi_chats(id) ON DELETE CASCADE,
+      embedding vector(1024) NOT NULL,
+      model VARCHAR(50) NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  ';
+
+  EXECUTE '
+    CREATE INDEX IF NOT EXISTS idx_chat_message_embeddings_vector
+      ON chat_message_embeddings USING ivfflat (embedding vector_cosine_ops)
+      WITH (lists = 100)
+  ';
+
+  CREATE INDEX IF NOT EXISTS idx_chat_message_embeddings_chat
+    ON chat_message_embeddings (chat_id);
+
+  COMMENT ON TABLE chat_message_embeddings IS 'Voyage embeddings of unencrypted chat messages for semantic search (private chats are never embedded)';
+
+  RAISE NOTICE 'chat_message_embeddings table created successfully';
+END $$;
@@ -0,0 +1,66 @@
+-- Chat Message Edits and Conversation Branches
+-- Edit history for messages, plus alternate branches created by editing a prompt or regenerating a response
+
+-- ============================================================================
+-- Edit History
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS multi_chat_message_edits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  message_id UUID NOT NULL REFERENCES multi_chat_messages(id) ON DELETE CASCADE,
+  previous_content TEXT NOT NULL,
+  edited_by_address VARCHAR(42) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_message_edits_message ON multi_chat_message_edits(message_id, created_at DESC);
+
+COMMENT ON TABLE multi_chat_message_edits IS 'Previous versions of edited messages, newest first per message';
+
+-- ============================================================================
+-- Branches
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS chat_branches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  chat_id UUID NOT NULL REFERENCES multi_chats(id) ON DELETE CASCADE,
+
+  -- Last message shared with the active conversation; NULL = branched before the first message
+  fork_message_id UUID REFERENCES multi_chat_messages(id) ON DELETE CASCADE,
+
+  reason VARCHAR(20) NOT NULL CHECK (reason IN ('edit', 'regenerate', 'switch')),
+
+  -- Transaction state at the tip of the branch, restored when it is switched back in
+  transaction_state JSONB,
+
+  created_by_address VARCHAR(42) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_chat_branches_chat ON chat_branches(chat_id, created_at DESC);
+CREATE INDEX idx_chat_branches_fork ON chat_branches(fork_message_id);
+
+-- NULL = message is on the active conversation; set = parked on an inactive branch
+ALTER TABLE multi_chat_messages ADD COLUMN IF NOT EXISTS branch_id UUID REFERENCES chat_branches(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_multi_chat_messages_branch ON multi_chat_messages(branch_id) WHERE branch_id IS NOT NULL;
+
+COMMENT ON TABLE chat_branches IS 'Inactive alternatives of a conversation, parked after a fork point until switched back in';
+
+-- ============================================================================
+-- Transaction State Checkpoints
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS chat_transaction_state_checkpoints (
+  message_id UUID PRIMARY KEY REFERENCES multi_chat_messages(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES multi_chats(id) ON DELETE CASCADE,
+
+  -- State as it was before this assistant message was generated
+  state JSONB NOT NULL,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_state_checkpoints_chat ON chat_transaction_state_checkpoints(chat_id);
+
+COMMENT ON TABLE chat_transaction_state_checkpoints IS 'Transaction state before each AI response, used to roll back when branching';
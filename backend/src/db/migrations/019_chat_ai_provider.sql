@@ -0,0 +1,7 @@
+-- Per-Chat AI Provider
+-- Lets a chat use a different AI provider than the deployment default (AI_PROVIDER)
+
+ALTER TABLE multi_chats ADD COLUMN IF NOT EXISTS ai_provider VARCHAR(32)
+  CHECK (ai_provider IN ('anthropic', 'moonshot', 'openai-compatible'));
+
+COMMENT ON COLUMN multi_chats.ai_provider IS 'AI provider override for this chat; NULL = deployment default';
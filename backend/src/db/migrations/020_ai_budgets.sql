@@ -0,0 +1,45 @@
+-- AI Spending Budgets
+-- Daily/monthly AI spend caps per chat and per member, plus per-request detail on ai_billing for the usage view
+
+-- ============================================================================
+-- Usage Detail
+-- ============================================================================
+
+ALTER TABLE ai_billing ADD COLUMN IF NOT EXISTS member_address VARCHAR(42);
+ALTER TABLE ai_billing ADD COLUMN IF NOT EXISTS input_tokens INTEGER;
+ALTER TABLE ai_billing ADD COLUMN IF NOT EXISTS output_tokens INTEGER;
+
+-- Self-hosted model names (e.g. org/Model-70B-Instruct-AWQ) can exceed 50 chars
+ALTER TABLE ai_billing ALTER COLUMN model TYPE VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_ai_billing_chat_usage ON ai_billing(chat_id, created_at DESC) WHERE type = 'usage';
+
+COMMENT ON COLUMN ai_billing.member_address IS 'Member who invoked the AI (usage rows only)';
+
+-- ============================================================================
+-- Budgets
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_budgets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  chat_id UUID NOT NULL REFERENCES multi_chats(id) ON DELETE CASCADE,
+
+  -- 'chat' caps the whole chat; 'member' caps each member individually
+  scope VARCHAR(10) NOT NULL CHECK (scope IN ('chat', 'member')),
+  -- For 'member' scope: NULL = default for every member, set = that member only (overrides the default)
+  member_address VARCHAR(42),
+
+  period VARCHAR(10) NOT NULL CHECK (period IN ('daily', 'monthly')),
+  limit_wei VARCHAR(78) NOT NULL,
+  warn_at_percent INTEGER NOT NULL DEFAULT 80 CHECK (warn_at_percent BETWEEN 1 AND 100),
+
+  created_by_address VARCHAR(42) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CHECK (scope = 'member' OR member_address IS NULL)
+);
+
+CREATE UNIQUE INDEX idx_ai_budgets_unique ON ai_budgets(chat_id, scope, COALESCE(member_address, ''), period);
+
+COMMENT ON TABLE ai_budgets IS 'AI spend caps per chat/member and period; usage past warn_at_percent warns, past the limit blocks';
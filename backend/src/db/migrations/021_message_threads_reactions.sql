@@ -0,0 +1,30 @@
+-- Message Threads and Reactions
+-- Replies grouped under a root message (reply_to_id) and per-member emoji reactions
+
+-- ============================================================================
+-- Threads
+-- ============================================================================
+
+-- Replies always point at the thread root, so one lookup returns the whole thread
+CREATE INDEX IF NOT EXISTS idx_multi_chat_messages_reply_to
+  ON multi_chat_messages(reply_to_id, created_at)
+  WHERE reply_to_id IS NOT NULL;
+
+-- ============================================================================
+-- Reactions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS multi_chat_message_reactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  message_id UUID NOT NULL REFERENCES multi_chat_messages(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES multi_chats(id) ON DELETE CASCADE,
+  member_address VARCHAR(42) NOT NULL,
+  emoji VARCHAR(32) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (message_id, member_address, emoji)
+);
+
+CREATE INDEX idx_message_reactions_message ON multi_chat_message_reactions(message_id, created_at);
+
+COMMENT ON TABLE multi_chat_message_reactions IS 'Emoji reactions, one row per member per emoji per message';
@@ -0,0 +1,65 @@
+-- Chat Watchers
+-- Scheduled AI reports on a project, posted into a chat and billed to its AI balance
+
+-- ============================================================================
+-- Watchers
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS chat_watchers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  chat_id UUID NOT NULL REFERENCES multi_chats(id) ON DELETE CASCADE,
+
+  -- Watched project
+  project_id INTEGER NOT NULL,
+  chain_id INTEGER NOT NULL,
+
+  interval VARCHAR(10) NOT NULL CHECK (interval IN ('weekly', 'monthly')),
+  -- Component appended to each report
+  component VARCHAR(20) NOT NULL DEFAULT 'project-card'
+    CHECK (component IN ('project-card', 'volume-chart')),
+  -- Optional focus for the summary ("call out new payers")
+  instructions TEXT,
+
+  -- Member who set it up; reports count against their AI budgets
+  created_by_address VARCHAR(42) NOT NULL,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused')),
+  pause_reason TEXT,
+  next_run_at TIMESTAMPTZ NOT NULL,
+  last_run_at TIMESTAMPTZ,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_chat_watchers_chat ON chat_watchers(chat_id, created_at);
+CREATE INDEX idx_chat_watchers_due ON chat_watchers(next_run_at) WHERE status = 'active';
+
+CREATE TRIGGER update_chat_watchers_updated_at
+  BEFORE UPDATE ON chat_watchers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE chat_watchers IS 'Recurring AI project reports posted into a chat';
+
+-- ============================================================================
+-- Runs
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS chat_watcher_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  watcher_id UUID NOT NULL REFERENCES chat_watchers(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES multi_chat_messages(id) ON DELETE SET NULL,
+
+  status VARCHAR(20) NOT NULL CHECK (status IN ('posted', 'failed')),
+  error_message TEXT,
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_chat_watcher_runs_watcher ON chat_watcher_runs(watcher_id, created_at DESC);
+
+COMMENT ON TABLE chat_watcher_runs IS 'One row per attempted report; cost is recorded in ai_billing against the message';
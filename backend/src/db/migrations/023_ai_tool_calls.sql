@@ -0,0 +1,48 @@
+-- AI Tool Calls
+-- Each tool the AI invokes while answering, shown to members as a step, with approval for side-effecting tools
+
+-- ============================================================================
+-- Per-chat approval policy
+-- ============================================================================
+
+-- Map of tool name -> 'none' | 'requester' | 'admin'. Tools not listed use the default
+-- (side-effecting tools need the requester's approval, read-only tools run directly)
+ALTER TABLE multi_chats ADD COLUMN IF NOT EXISTS tool_approval_policy JSONB NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN multi_chats.tool_approval_policy IS 'Which AI tools need approval before running, and from whom';
+
+-- ============================================================================
+-- Tool calls
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ai_tool_calls (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  chat_id UUID NOT NULL REFERENCES multi_chats(id) ON DELETE CASCADE,
+
+  -- Id the response streamed under; message_id is set once the response is saved
+  stream_id UUID NOT NULL,
+  message_id UUID REFERENCES multi_chat_messages(id) ON DELETE CASCADE,
+
+  tool_use_id VARCHAR(100) NOT NULL,
+  tool_name VARCHAR(100) NOT NULL,
+  input JSONB NOT NULL DEFAULT '{}',
+
+  approval VARCHAR(20) NOT NULL CHECK (approval IN ('none', 'requester', 'admin')),
+  status VARCHAR(20) NOT NULL
+    CHECK (status IN ('pending', 'running', 'completed', 'failed', 'declined', 'expired')),
+  output TEXT,
+  error TEXT,
+
+  -- Member whose prompt triggered the call, and who approved or declined it
+  requested_by_address VARCHAR(42) NOT NULL,
+  decided_by_address VARCHAR(42),
+  decided_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_ai_tool_calls_message ON ai_tool_calls(message_id, created_at) WHERE message_id IS NOT NULL;
+CREATE INDEX idx_ai_tool_calls_stream ON ai_tool_calls(chat_id, stream_id);
+
+COMMENT ON TABLE ai_tool_calls IS 'Tool invocations made by the AI while answering in a chat';
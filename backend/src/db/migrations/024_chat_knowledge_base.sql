@@ -0,0 +1,75 @@
+-- Chat Knowledge Base
+-- Uploaded documents split into embedded chunks, retrieved per prompt and cited in AI replies
+--
+-- NOTE: Like 017_chat_message_search, both tables are skipped when pgvector is not
+-- available. The AI then only sees the one-paragraph attachment summaries.
+
+DO $$
+BEGIN
+  CREATE EXTENSION IF NOT EXISTS vector;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'pgvector extension not available - skipping chat knowledge base tables';
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'vector') THEN
+    RAISE NOTICE 'Skipping chat_knowledge_chunks - pgvector not available';
+    RETURN;
+  END IF;
+
+  -- ==========================================================================
+  -- Chunks
+  -- ==========================================================================
+
+  EXECUTE '
+    CREATE TABLE IF NOT EXISTS chat_knowledge_chunks (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      chat_id UUID NOT NULL REFERENCES multi_chats(id) ON DELETE CASCADE,
+
+      -- Message and attachment the document was uploaded with
+      message_id UUID NOT NULL REFERENCES multi_chat_messages(id) ON DELETE CASCADE,
+      attachment_index INTEGER NOT NULL,
+      source_name VARCHAR(255) NOT NULL,
+
+      chunk_index INTEGER NOT NULL,
+      heading TEXT,
+      content TEXT NOT NULL,
+      token_count INTEGER NOT NULL,
+
+      embedding vector(1024) NOT NULL,
+      model VARCHAR(50) NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+      UNIQUE (message_id, attachment_index, chunk_index)
+    )
+  ';
+
+  EXECUTE '
+    CREATE INDEX IF NOT EXISTS idx_chat_knowledge_chunks_vector
+      ON chat_knowledge_chunks USING ivfflat (embedding vector_cosine_ops)
+      WITH (lists = 100)
+  ';
+
+  CREATE INDEX IF NOT EXISTS idx_chat_knowledge_chunks_chat
+    ON chat_knowledge_chunks (chat_id);
+
+  COMMENT ON TABLE chat_knowledge_chunks IS 'Embedded passages of documents uploaded to a chat, retrieved into AI context per prompt';
+
+  -- ==========================================================================
+  -- Citations
+  -- ==========================================================================
+
+  CREATE TABLE IF NOT EXISTS chat_message_citations (
+    message_id UUID NOT NULL REFERENCES multi_chat_messages(id) ON DELETE CASCADE,
+    chunk_id UUID NOT NULL REFERENCES chat_knowledge_chunks(id) ON DELETE CASCADE,
+    -- The [n] the reply used for this chunk
+    marker INTEGER NOT NULL,
+    PRIMARY KEY (message_id, marker)
+  );
+
+  COMMENT ON TABLE chat_message_citations IS 'Document chunks an AI reply cited, by their [n] marker in the reply';
+
+  RAISE NOTICE 'chat knowledge base tables created successfully';
+END $$;
@@ -0,0 +1,67 @@
+-- Prompt Experiments
+-- Named A/B trials of system prompt modules, with chats assigned to variants and outcomes
+-- (feedback, escalations, completed transactions) reported per variant
+
+-- ============================================================================
+-- Experiments
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS prompt_experiments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) NOT NULL UNIQUE,
+  description TEXT,
+
+  -- [{ id, description, weight, modules: { BASE_PROMPT?: text, ... }, appendix? }]
+  variants JSONB NOT NULL,
+
+  -- Variants can only be edited in draft; a stopped experiment keeps its results
+  status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'stopped')),
+  created_by VARCHAR(100),
+  started_at TIMESTAMPTZ,
+  stopped_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_prompt_experiments_running ON prompt_experiments(started_at) WHERE status = 'running';
+
+CREATE TRIGGER update_prompt_experiments_updated_at
+  BEFORE UPDATE ON prompt_experiments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE prompt_experiments IS 'Named prompt variants trialled against each other on live chats';
+
+-- ============================================================================
+-- Assignments
+-- ============================================================================
+-- A chat joins an experiment on its first AI invocation while it runs and keeps
+-- its variant. Outcomes are counted from assigned_at onwards.
+
+CREATE TABLE IF NOT EXISTS prompt_experiment_assignments (
+  experiment_id UUID NOT NULL REFERENCES prompt_experiments(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES multi_chats(id) ON DELETE CASCADE,
+  variant_id VARCHAR(50) NOT NULL,
+  assigned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (experiment_id, chat_id)
+);
+
+CREATE INDEX idx_prompt_experiment_assignments_chat ON prompt_experiment_assignments(chat_id);
+
+COMMENT ON TABLE prompt_experiment_assignments IS 'Which variant of each experiment a chat was given';
+
+-- ============================================================================
+-- Outcome links
+-- ============================================================================
+
+-- Variant per experiment for each AI response: { "<experiment id>": "<variant id>" }
+ALTER TABLE context_usage_log ADD COLUMN IF NOT EXISTS prompt_variants JSONB NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_context_usage_log_prompt_variants
+  ON context_usage_log USING GIN (prompt_variants);
+
+-- Chat the payment was started from, so completions can be credited to its variant
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS chat_id UUID REFERENCES multi_chats(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_chat ON transactions(chat_id) WHERE chat_id IS NOT NULL;
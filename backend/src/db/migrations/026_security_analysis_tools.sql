@@ -0,0 +1,6 @@
+-- Security Analysis Tools
+-- Per-tool status for combined analyses (custom rules, Semgrep, Slither, Aderyn merged into one result)
+
+ALTER TABLE security_analyses ADD COLUMN IF NOT EXISTS tool_runs JSONB;
+
+COMMENT ON COLUMN security_analyses.tool_runs IS 'For tool = combined: [{ tool, status (completed/skipped/failed), findingCount, durationMs, error }]';
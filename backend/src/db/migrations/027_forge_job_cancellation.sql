@@ -0,0 +1,7 @@
+-- Forge Job Cancellation
+-- Users can stop a queued or running job from the test runner
+
+ALTER TABLE forge_jobs DROP CONSTRAINT IF EXISTS valid_status;
+
+ALTER TABLE forge_jobs ADD CONSTRAINT valid_status
+  CHECK (status IN ('queued', 'running', 'completed', 'failed', 'timeout', 'cancelled'));
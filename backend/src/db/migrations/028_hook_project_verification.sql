@@ -0,0 +1,6 @@
+-- Hook Contract Verification
+-- Source verification status of each deployed hook, per chain and verifier
+
+ALTER TABLE hook_projects ADD COLUMN IF NOT EXISTS verification JSONB DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN hook_projects.verification IS 'Keyed by chain ID: { contract, constructorArgs, sourcify: { status, message, updatedAt }, etherscan: { ... } }. Status is pending/verified/partial/failed/skipped';
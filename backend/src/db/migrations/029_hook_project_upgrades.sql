@@ -0,0 +1,33 @@
+-- Hook Project Upgrades
+-- File-set snapshots, so a redeploy can be diffed against what is live, and the
+-- Juicebox project a hook is attached to
+
+-- ============================================================================
+-- File Snapshots
+-- ============================================================================
+
+-- One row per distinct file set (by computeFilesHash), written by bulk edits and deploys
+CREATE TABLE IF NOT EXISTS hook_project_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES hook_projects(id) ON DELETE CASCADE,
+  files_hash VARCHAR(64) NOT NULL,
+  files JSONB NOT NULL, -- [{ path, content }]
+  reason VARCHAR(20) NOT NULL CHECK (reason IN ('bulk_update', 'deploy')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (project_id, files_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_hook_project_snapshots_project
+  ON hook_project_snapshots(project_id, created_at DESC);
+
+-- ============================================================================
+-- Deployed Version and Linked Project
+-- ============================================================================
+
+ALTER TABLE hook_projects ADD COLUMN IF NOT EXISTS deployed_files_hash VARCHAR(64);
+ALTER TABLE hook_projects ADD COLUMN IF NOT EXISTS linked_project_id INTEGER;
+ALTER TABLE hook_projects ADD COLUMN IF NOT EXISTS linked_chain_id INTEGER;
+
+COMMENT ON COLUMN hook_projects.deployed_files_hash IS 'computeFilesHash of the files last deployed; the matching hook_project_snapshots row holds them';
+COMMENT ON COLUMN hook_projects.linked_project_id IS 'Juicebox project whose rulesets use this hook (with linked_chain_id)';
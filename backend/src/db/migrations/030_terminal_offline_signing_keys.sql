@@ -0,0 +1,8 @@
+-- Terminal Offline Signing Keys
+-- Offline sessions are signed with a per-device ECDSA P-256 key generated on
+-- the terminal. Only the public key is stored, so reading the database is not
+-- enough to forge a session.
+
+ALTER TABLE terminal_devices ADD COLUMN IF NOT EXISTS offline_public_key VARCHAR(130);
+
+COMMENT ON COLUMN terminal_devices.offline_public_key IS 'Uncompressed P-256 public key (hex) that verifies offline session signatures; cleared when the API key is regenerated';
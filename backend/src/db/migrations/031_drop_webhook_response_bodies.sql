@@ -0,0 +1,5 @@
+-- Drop Webhook Response Bodies
+-- Whatever a merchant endpoint (or a host it redirected to) answered is no
+-- longer stored or shown; the delivery log keeps the status code only
+
+ALTER TABLE merchant_webhook_deliveries DROP COLUMN IF EXISTS response_body;
@@ -0,0 +1,11 @@
+-- Fiat Payment Card Fingerprints
+-- Guest payment history is matched on the card's Stripe fingerprint instead of
+-- the beneficiary address, which the payer picks freely
+
+ALTER TABLE pending_fiat_payments ADD COLUMN IF NOT EXISTS card_fingerprint VARCHAR(64);
+
+CREATE INDEX IF NOT EXISTS idx_pending_fiat_card_fingerprint
+  ON pending_fiat_payments(card_fingerprint)
+  WHERE card_fingerprint IS NOT NULL;
+
+COMMENT ON COLUMN pending_fiat_payments.card_fingerprint IS 'Stripe card fingerprint (same card, same value across payments); keys guest risk history';
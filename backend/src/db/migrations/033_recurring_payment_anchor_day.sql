@@ -0,0 +1,12 @@
+-- Recurring Payment Anchor Day
+-- Monthly schedules run on the day of month they started, so a clamped short
+-- month (Jan 31 → Feb 28) doesn't carry over into the months after it
+
+ALTER TABLE recurring_payments ADD COLUMN IF NOT EXISTS anchor_day SMALLINT
+  CHECK (anchor_day IS NULL OR (anchor_day BETWEEN 1 AND 31));
+
+UPDATE recurring_payments
+SET anchor_day = EXTRACT(DAY FROM created_at AT TIME ZONE 'UTC')
+WHERE anchor_day IS NULL;
+
+COMMENT ON COLUMN recurring_payments.anchor_day IS 'UTC day of month monthly runs fall on (clamped to the last day of shorter months)';
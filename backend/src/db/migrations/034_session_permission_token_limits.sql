@@ -0,0 +1,18 @@
+-- Session Permission Token Limits
+-- Daily ceilings for ERC-20 amounts moved by transfer/approve and terminal payments.
+-- Calls that move a token without a limit for it are refused.
+
+ALTER TABLE smart_account_session_permissions
+  ADD COLUMN IF NOT EXISTS daily_token_limits JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE smart_account_session_executions
+  ADD COLUMN IF NOT EXISTS token_address VARCHAR(42),
+  ADD COLUMN IF NOT EXISTS token_amount NUMERIC(78, 0);
+
+CREATE INDEX IF NOT EXISTS idx_session_executions_token
+  ON smart_account_session_executions(permission_id, token_address, created_at DESC)
+  WHERE token_address IS NOT NULL;
+
+COMMENT ON COLUMN smart_account_session_permissions.daily_token_limits IS '[{ "token": "0x...", "dailyLimit": "<base units>" }], amount each token may move in a rolling 24 hours';
+COMMENT ON COLUMN smart_account_session_executions.token_address IS 'ERC-20 moved by the call (transfer, approve, transferFrom, terminal pay/addToBalanceOf)';
+COMMENT ON COLUMN smart_account_session_executions.token_amount IS 'Base units of token_address moved by the call';
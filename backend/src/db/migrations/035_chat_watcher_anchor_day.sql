@@ -0,0 +1,13 @@
+-- Chat Watcher Anchor Day
+-- Monthly reports run on the day of month they started, like recurring payments
+-- (see 033_recurring_payment_anchor_day.sql). Existing watchers take the day of
+-- their next report, which is their start day unless a short month already clamped it.
+
+ALTER TABLE chat_watchers ADD COLUMN IF NOT EXISTS anchor_day SMALLINT
+  CHECK (anchor_day IS NULL OR (anchor_day BETWEEN 1 AND 31));
+
+UPDATE chat_watchers
+SET anchor_day = EXTRACT(DAY FROM next_run_at AT TIME ZONE 'UTC')
+WHERE anchor_day IS NULL;
+
+COMMENT ON COLUMN chat_watchers.anchor_day IS 'UTC day of month monthly reports fall on (clamped to the last day of shorter months)';
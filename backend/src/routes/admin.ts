@@ -4,12 +4,24 @@ import { z } from 'zod';
 import { requireAuth, requireAdmin } from '../middleware/auth.ts';
 import { query, queryOne } from '../db/index.ts';
 import { processSingleSpend } from '../services/juice.ts';
+import { overridePaymentRiskScore } from '../services/settlement.ts';
 import {
   getEscalationQueue,
   getEscalation,
   resolveEscalation,
   getEscalationStats,
 } from '../services/escalation.ts';
+import {
+  PROMPT_MODULES,
+  listExperiments,
+  createExperiment,
+  updateExperimentVariants,
+  startExperiment,
+  stopExperiment,
+  deleteExperiment,
+  getExperimentReport,
+  type PromptModuleName,
+} from '../services/promptExperiments.ts';
 
 const adminRouter = new Hono();
 
@@ -580,6 +592,153 @@ adminRouter.get('/juice/stats', async (c) => {
   }
 });
 
+// ============================================================================
+// GET /admin/fiat/pending-payments - Paginated fiat payments awaiting settlement
+// ============================================================================
+
+const FiatPaymentsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  status: z.enum(['pending_settlement', 'settling', 'settled', 'disputed', 'refunded', 'failed']).optional(),
+});
+
+interface FiatPaymentRow {
+  id: string;
+  user_id: string | null;
+  user_email: string | null;
+  project_id: number;
+  chain_id: number;
+  beneficiary_address: string;
+  amount_usd: string;
+  status: string;
+  paid_at: Date;
+  settles_at: Date;
+  settlement_delay_days: number;
+  risk_score: number | null;
+  model_risk_score: number | null;
+  radar_risk_score: number | null;
+  risk_factors: { factor: string; label: string; points: number }[];
+  risk_overridden_by_email: string | null;
+  risk_overridden_at: Date | null;
+  risk_override_reason: string | null;
+  settlement_tx_hash: string | null;
+  error_message: string | null;
+}
+
+adminRouter.get('/fiat/pending-payments', zValidator('query', FiatPaymentsQuerySchema), async (c) => {
+  const { page, limit, status } = c.req.valid('query');
+  const offset = (page - 1) * limit;
+
+  try {
+    const statusFilter = status || 'pending_settlement';
+
+    const countResult = await queryOne<SpendCountRow>(`
+      SELECT COUNT(*)::int as count
+      FROM pending_fiat_payments
+      WHERE status = $1
+    `, [statusFilter]);
+    const total = countResult?.count || 0;
+
+    const rows = await query<FiatPaymentRow>(`
+      SELECT
+        p.id, p.user_id, u.email as user_email,
+        p.project_id, p.chain_id, p.beneficiary_address, p.amount_usd,
+        p.status, p.paid_at, p.settles_at, p.settlement_delay_days,
+        p.risk_score, p.model_risk_score, p.radar_risk_score, p.risk_factors,
+        o.email as risk_overridden_by_email, p.risk_overridden_at, p.risk_override_reason,
+        p.settlement_tx_hash, p.error_message
+      FROM pending_fiat_payments p
+      LEFT JOIN users u ON u.id = p.user_id
+      LEFT JOIN users o ON o.id = p.risk_overridden_by
+      WHERE p.status = $1
+      ORDER BY p.settles_at ASC
+      LIMIT $2 OFFSET $3
+    `, [statusFilter, limit, offset]);
+
+    const payments = rows.map(row => ({
+      id: row.id,
+      userId: row.user_id,
+      userEmail: row.user_email,
+      projectId: row.project_id,
+      chainId: row.chain_id,
+      beneficiaryAddress: row.beneficiary_address,
+      amountUsd: parseFloat(row.amount_usd),
+      status: row.status,
+      paidAt: row.paid_at instanceof Date ? row.paid_at.toISOString() : row.paid_at,
+      settlesAt: row.settles_at instanceof Date ? row.settles_at.toISOString() : row.settles_at,
+      settlementDelayDays: row.settlement_delay_days,
+      riskScore: row.risk_score,
+      modelRiskScore: row.model_risk_score,
+      radarRiskScore: row.radar_risk_score,
+      riskFactors: row.risk_factors ?? [],
+      riskOverride: row.risk_overridden_at
+        ? {
+            by: row.risk_overridden_by_email,
+            at: row.risk_overridden_at instanceof Date ? row.risk_overridden_at.toISOString() : row.risk_overridden_at,
+            reason: row.risk_override_reason,
+          }
+        : null,
+      txHash: row.settlement_tx_hash,
+      errorMessage: row.error_message,
+    }));
+
+    return c.json({
+      success: true,
+      data: {
+        payments,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('[Admin] Fiat payments query error:', error);
+    return c.json({ success: false, error: 'Failed to fetch fiat payments' }, 500);
+  }
+});
+
+// ============================================================================
+// POST /admin/fiat/payments/:id/risk-override - Override a payment's risk score
+// ============================================================================
+
+const RiskOverrideSchema = z.object({
+  riskScore: z.number().int().min(0).max(100),
+  reason: z.string().min(1).max(500),
+});
+
+adminRouter.post('/fiat/payments/:id/risk-override', zValidator('json', RiskOverrideSchema), async (c) => {
+  const paymentId = c.req.param('id');
+  const { riskScore, reason } = c.req.valid('json');
+  const user = c.get('user');
+
+  try {
+    const result = await overridePaymentRiskScore({
+      paymentId,
+      riskScore,
+      reason,
+      adminUserId: user.id,
+    });
+
+    if (!result) {
+      return c.json({ success: false, error: 'Payment is not awaiting settlement' }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        ...result,
+        settlesAt: result.settlesAt.toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('[Admin] Risk override error:', error);
+    return c.json({ success: false, error: 'Failed to override risk score' }, 500);
+  }
+});
+
 // ============================================================================
 // AI Escalations
 // ============================================================================
@@ -676,4 +835,145 @@ adminRouter.post('/escalations/:id/resolve', zValidator('json', ResolveEscalatio
   }
 });
 
+// ============================================================================
+// Prompt Experiments
+// ============================================================================
+// These change the system prompt of live chats, so they stay admin-only even
+// while the router-wide admin check is off.
+
+const PromptVariantSchema = z.object({
+  id: z.string().min(1).max(50),
+  description: z.string().max(500).optional(),
+  weight: z.number().int().min(1).max(100),
+  modules: z.record(
+    z.enum(Object.keys(PROMPT_MODULES) as [PromptModuleName, ...PromptModuleName[]]),
+    z.string().min(1).max(100000)
+  ).optional(),
+  appendix: z.string().max(20000).optional(),
+});
+
+const CreateExperimentSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(1000).optional(),
+  variants: z.array(PromptVariantSchema),
+});
+
+const UpdateExperimentSchema = z.object({
+  variants: z.array(PromptVariantSchema),
+});
+
+const ExperimentStatusSchema = z.object({
+  status: z.enum(['running', 'stopped']),
+});
+
+adminRouter.get('/experiments', requireAdmin, async (c) => {
+  try {
+    const experiments = await listExperiments();
+
+    return c.json({
+      success: true,
+      data: experiments,
+    });
+  } catch (error) {
+    console.error('[Admin] Experiments query error:', error);
+    return c.json({ success: false, error: 'Failed to fetch experiments' }, 500);
+  }
+});
+
+adminRouter.post('/experiments', requireAdmin, zValidator('json', CreateExperimentSchema), async (c) => {
+  try {
+    const body = c.req.valid('json');
+    const user = c.get('user');
+
+    const experiment = await createExperiment({
+      name: body.name,
+      description: body.description,
+      variants: body.variants,
+      createdBy: user.email,
+    });
+
+    return c.json({
+      success: true,
+      data: experiment,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create experiment';
+    return c.json({ success: false, error: message }, 400);
+  }
+});
+
+adminRouter.put('/experiments/:id', requireAdmin, zValidator('json', UpdateExperimentSchema), async (c) => {
+  try {
+    const experiment = await updateExperimentVariants(c.req.param('id'), c.req.valid('json').variants);
+
+    if (!experiment) {
+      return c.json({ success: false, error: 'Experiment not found' }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: experiment,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to update experiment';
+    return c.json({ success: false, error: message }, 400);
+  }
+});
+
+adminRouter.post('/experiments/:id/status', requireAdmin, zValidator('json', ExperimentStatusSchema), async (c) => {
+  try {
+    const id = c.req.param('id');
+    const { status } = c.req.valid('json');
+
+    const experiment = status === 'running'
+      ? await startExperiment(id)
+      : await stopExperiment(id);
+
+    if (!experiment) {
+      return c.json({ success: false, error: 'Experiment not found' }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: experiment,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to change experiment status';
+    return c.json({ success: false, error: message }, 400);
+  }
+});
+
+adminRouter.delete('/experiments/:id', requireAdmin, async (c) => {
+  try {
+    const deleted = await deleteExperiment(c.req.param('id'));
+
+    if (!deleted) {
+      return c.json({ success: false, error: 'Experiment not found' }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to delete experiment';
+    return c.json({ success: false, error: message }, 400);
+  }
+});
+
+adminRouter.get('/experiments/:id/report', requireAdmin, async (c) => {
+  try {
+    const report = await getExperimentReport(c.req.param('id'));
+
+    if (!report) {
+      return c.json({ success: false, error: 'Experiment not found' }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    console.error('[Admin] Experiment report error:', error);
+    return c.json({ success: false, error: 'Failed to build experiment report' }, 500);
+  }
+});
+
 export { adminRouter };
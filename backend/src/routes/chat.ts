@@ -25,6 +25,8 @@ import {
   updateUserEmoji,
   sendMessage,
   getChatMessages,
+  getBranchMessages,
+  getMessageById,
   deleteMessage,
   checkPermission,
   submitFeedback,
@@ -36,6 +38,7 @@ import {
   deleteChat,
   reportChat,
   toggleChatAiEnabled,
+  setChatAiProvider,
   type ChatFolder,
   createFolder,
   getFolder,
@@ -55,18 +58,68 @@ import {
   encodePayCalldata,
   confirmPayment,
   getBillingHistory,
+  deductAiCost,
   getSqueezePromptMessage,
   AI_PRICING,
   SUPPORTED_CHAINS,
 } from '../services/aiBilling.ts';
+import {
+  getChatBudgets,
+  setBudget,
+  deleteBudget,
+  getUsageBreakdown,
+  type AiBudget,
+  type BudgetStatus,
+} from '../services/aiBudgets.ts';
+import {
+  createWatcher,
+  getWatcher,
+  getChatWatchers,
+  getWatcherRuns,
+  canManageWatcher,
+  pauseWatcher,
+  resumeWatcher,
+  deleteWatcher,
+} from '../services/chatWatchers.ts';
+import {
+  listToolsWithPolicy,
+  setToolApproval,
+  getToolPolicy,
+  createToolGate,
+  recordToolResult,
+  attachToolCalls,
+  getToolCall,
+  canDecideToolCall,
+  decideToolCall,
+  withToolCalls,
+} from '../services/aiToolCalls.ts';
+import { withCitations, saveMessageCitations, queueAttachmentIndexing } from '../services/chatKnowledge.ts';
 import {
   archiveChat,
   fetchArchivedChat,
   getLatestArchiveCid,
 } from '../services/ipfs.ts';
 import { getOrCreateSmartAccount } from '../services/smartAccounts.ts';
+import { searchChats, MAX_SEARCH_RESULTS } from '../services/chatSearch.ts';
+import {
+  buildChatExport,
+  importChatExport,
+  CHAT_EXPORT_FORMAT,
+  MAX_EXPORT_MESSAGES,
+} from '../services/chatExport.ts';
+import { withThreadInfo, getThread, addReaction, removeReaction } from '../services/chatThreads.ts';
+import {
+  editMessage,
+  getMessageEdits,
+  branchWithEdit,
+  forkConversation,
+  getChatBranches,
+  switchBranch,
+  discardBranch,
+} from '../services/chatBranches.ts';
 import {
   getOnlineMembers,
+  broadcastBranchChanged,
 } from '../services/websocket.ts';
 import { query, queryOne, execute } from '../db/index.ts';
 import { getConfig } from '../utils/config.ts';
@@ -336,6 +389,56 @@ chatRouter.get('/public', async (c) => {
   return c.json({ success: true, data: chats.map(serializeChat) });
 });
 
+// GET /chat/search - Search messages across the user's chats
+// Encrypted chats are excluded server-side; clients search them after decryption
+const SearchChatsSchema = z.object({
+  q: z.string().trim().min(2).max(200),
+  chatId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_SEARCH_RESULTS).default(20),
+});
+
+chatRouter.get(
+  '/search',
+  optionalAuth,
+  requireWalletOrAuth,
+  zValidator('query', SearchChatsSchema),
+  async (c) => {
+    const walletSession = c.get('walletSession')!;
+    const sessionId = c.req.header('X-Session-ID');
+    const { q, chatId, limit } = c.req.valid('query');
+
+    // Include chats joined via invite with the anonymous session as well
+    const addresses = [walletSession.address];
+    if (sessionId && sessionId.startsWith('ses_')) {
+      const pseudoAddress = await getPseudoAddress(sessionId);
+      if (pseudoAddress !== walletSession.address) {
+        addresses.push(pseudoAddress);
+      }
+    }
+
+    try {
+      if (chatId) {
+        let canRead = false;
+        for (const address of addresses) {
+          if (await checkPermission(chatId, address, 'read')) {
+            canRead = true;
+            break;
+          }
+        }
+        if (!canRead) {
+          return c.json({ success: false, error: 'Access denied' }, 403);
+        }
+      }
+
+      const results = await searchChats({ query: q, addresses, chatId, limit });
+      return c.json({ success: true, data: results });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Search failed';
+      return c.json({ success: false, error: message }, 500);
+    }
+  }
+);
+
 // ============================================================================
 // Folder Routes (must come before /:chatId to avoid matching "folders" as chatId)
 // ============================================================================
@@ -941,7 +1044,7 @@ chatRouter.get('/:chatId/messages', optionalAuth, optionalWalletSession, async (
     return c.json({ success: false, error: 'Access denied' }, 403);
   }
 
-  const messages = await getChatMessages(chatId, limit, beforeId);
+  const messages = await withCitations(await withToolCalls(await withThreadInfo(await getChatMessages(chatId, limit, beforeId))));
   return c.json({ success: true, data: messages.map(serializeMessage) });
 });
 
@@ -964,6 +1067,256 @@ chatRouter.delete(
   }
 );
 
+// ============================================================================
+// Edit & Branch Routes
+// ============================================================================
+
+const EditMessageSchema = z.object({
+  content: z.string().min(1).max(10000),
+});
+
+// PATCH /chat/:chatId/messages/:messageId - Edit a prompt in place (keeps history)
+chatRouter.patch(
+  '/:chatId/messages/:messageId',
+  optionalAuth,
+  requireWalletOrAuth,
+  zValidator('json', EditMessageSchema),
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const messageId = c.req.param('messageId');
+    const walletSession = c.get('walletSession')!;
+    const { content } = c.req.valid('json');
+
+    try {
+      const message = await editMessage(chatId, messageId, walletSession.address, content);
+      return c.json({ success: true, data: serializeMessage(message) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to edit message';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// GET /chat/:chatId/messages/:messageId/edits - Previous versions of a message
+chatRouter.get(
+  '/:chatId/messages/:messageId/edits',
+  optionalAuth,
+  requireWalletOrAuth,
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const messageId = c.req.param('messageId');
+    const walletSession = c.get('walletSession')!;
+
+    const canRead = await checkPermission(chatId, walletSession.address, 'read');
+    if (!canRead) {
+      return c.json({ success: false, error: 'Access denied' }, 403);
+    }
+
+    const message = await getMessageById(messageId);
+    if (!message || message.chatId !== chatId) {
+      return c.json({ success: false, error: 'Message not found' }, 404);
+    }
+
+    const edits = await getMessageEdits(messageId);
+    return c.json({ success: true, data: edits });
+  }
+);
+
+// GET /chat/:chatId/messages/:messageId/thread - A thread's root message and all replies
+chatRouter.get(
+  '/:chatId/messages/:messageId/thread',
+  optionalAuth,
+  requireWalletOrAuth,
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const messageId = c.req.param('messageId');
+    const walletSession = c.get('walletSession')!;
+
+    const canRead = await checkPermission(chatId, walletSession.address, 'read');
+    if (!canRead) {
+      return c.json({ success: false, error: 'Access denied' }, 403);
+    }
+
+    try {
+      const thread = await getThread(chatId, messageId);
+      return c.json({
+        success: true,
+        data: {
+          root: serializeMessage(thread.root),
+          replies: thread.replies.map(serializeMessage),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load thread';
+      return c.json({ success: false, error: message }, 404);
+    }
+  }
+);
+
+// POST /chat/:chatId/messages/:messageId/reactions - React to a message
+const ReactionSchema = z.object({
+  emoji: z.string().min(1).max(32),
+});
+
+chatRouter.post(
+  '/:chatId/messages/:messageId/reactions',
+  optionalAuth,
+  requireWalletOrAuth,
+  zValidator('json', ReactionSchema),
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const messageId = c.req.param('messageId');
+    const walletSession = c.get('walletSession')!;
+    const { emoji } = c.req.valid('json');
+
+    try {
+      const reactions = await addReaction(chatId, messageId, walletSession.address, emoji);
+      return c.json({ success: true, data: reactions });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to add reaction';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// DELETE /chat/:chatId/messages/:messageId/reactions/:emoji - Remove own reaction
+chatRouter.delete(
+  '/:chatId/messages/:messageId/reactions/:emoji',
+  optionalAuth,
+  requireWalletOrAuth,
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const messageId = c.req.param('messageId');
+    const emoji = c.req.param('emoji');
+    const walletSession = c.get('walletSession')!;
+
+    try {
+      const reactions = await removeReaction(chatId, messageId, walletSession.address, emoji);
+      return c.json({ success: true, data: reactions });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to remove reaction';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// POST /chat/:chatId/messages/:messageId/branch - Edit a prompt and continue from it
+// The original prompt and everything after it move to a branch; the client then invokes the AI
+chatRouter.post(
+  '/:chatId/messages/:messageId/branch',
+  optionalAuth,
+  requireWalletOrAuth,
+  zValidator('json', EditMessageSchema),
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const messageId = c.req.param('messageId');
+    const walletSession = c.get('walletSession')!;
+    const { content } = c.req.valid('json');
+
+    try {
+      const { branchId, message } = await branchWithEdit({
+        chatId,
+        messageId,
+        address: walletSession.address,
+        userId: walletSession.userId,
+        content,
+      });
+      return c.json({ success: true, data: { branchId, message: serializeMessage(message) } });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to branch conversation';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// GET /chat/:chatId/branches - List inactive branches
+chatRouter.get(
+  '/:chatId/branches',
+  optionalAuth,
+  requireWalletOrAuth,
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const walletSession = c.get('walletSession')!;
+
+    const canRead = await checkPermission(chatId, walletSession.address, 'read');
+    if (!canRead) {
+      return c.json({ success: false, error: 'Access denied' }, 403);
+    }
+
+    const branches = await getChatBranches(chatId);
+    return c.json({ success: true, data: branches });
+  }
+);
+
+// GET /chat/:chatId/branches/:branchId/messages - Messages on an inactive branch (for comparison)
+chatRouter.get(
+  '/:chatId/branches/:branchId/messages',
+  optionalAuth,
+  requireWalletOrAuth,
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const branchId = c.req.param('branchId');
+    const walletSession = c.get('walletSession')!;
+
+    const canRead = await checkPermission(chatId, walletSession.address, 'read');
+    if (!canRead) {
+      return c.json({ success: false, error: 'Access denied' }, 403);
+    }
+
+    const messages = await getBranchMessages(branchId);
+    if (messages.some(m => m.chatId !== chatId)) {
+      return c.json({ success: false, error: 'Branch not found' }, 404);
+    }
+
+    return c.json({ success: true, data: messages.map(serializeMessage) });
+  }
+);
+
+// POST /chat/:chatId/branches/:branchId/switch - Keep a branch as the active conversation
+chatRouter.post(
+  '/:chatId/branches/:branchId/switch',
+  optionalAuth,
+  requireWalletOrAuth,
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const branchId = c.req.param('branchId');
+    const walletSession = c.get('walletSession')!;
+
+    const canWrite = await checkPermission(chatId, walletSession.address, 'write');
+    if (!canWrite) {
+      return c.json({ success: false, error: 'Access denied' }, 403);
+    }
+
+    try {
+      const result = await switchBranch({ chatId, branchId, address: walletSession.address });
+      return c.json({ success: true, data: result });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to switch branch';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// DELETE /chat/:chatId/branches/:branchId - Discard an inactive branch
+chatRouter.delete(
+  '/:chatId/branches/:branchId',
+  optionalAuth,
+  requireWalletOrAuth,
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const branchId = c.req.param('branchId');
+    const walletSession = c.get('walletSession')!;
+
+    try {
+      await discardBranch({ chatId, branchId, address: walletSession.address });
+      return c.json({ success: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to discard branch';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
 // ============================================================================
 // AI Billing Routes
 // ============================================================================
@@ -1010,8 +1363,8 @@ chatRouter.get(
       });
     }
 
-    // Check balance
-    const result = await canInvokeAi(chatId);
+    // Check budgets and balance
+    const result = await canInvokeAi(chatId, walletSession.address);
     return c.json({
       success: true,
       data: {
@@ -1021,6 +1374,7 @@ chatRouter.get(
           balanceWei: result.balance.balanceWei.toString(),
           totalSpentWei: result.balance.totalSpentWei.toString(),
         } : undefined,
+        budgets: result.budgets?.map(serializeBudgetStatus),
       },
     });
   }
@@ -1144,63 +1498,458 @@ chatRouter.get(
   }
 );
 
-// PATCH /chat/:chatId/ai/toggle - Toggle AI enabled state for the chat
-const ToggleAiSchema = z.object({
-  enabled: z.boolean(),
-});
-
-chatRouter.patch(
-  '/:chatId/ai/toggle',
+// GET /chat/:chatId/ai/budgets - List AI spending budgets (founders/admins)
+chatRouter.get(
+  '/:chatId/ai/budgets',
   optionalAuth,
   requireWalletOrAuth,
-  zValidator('json', ToggleAiSchema),
   async (c) => {
     const chatId = c.req.param('chatId');
     const walletSession = c.get('walletSession')!;
-    const body = c.req.valid('json');
-
-    try {
-      const updatedChat = await toggleChatAiEnabled(chatId, walletSession.address, body.enabled);
-      if (!updatedChat) {
-        return c.json({ success: false, error: 'Chat not found' }, 404);
-      }
-
-      // Broadcast the change to all connected clients
-      const { broadcastChatUpdate } = await import('../services/websocket.ts');
-      broadcastChatUpdate(chatId, { aiEnabled: body.enabled });
 
-      return c.json({ success: true, data: serializeChat(updatedChat) });
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to toggle AI';
-      const status = message.includes('permission') ? 403 : 400;
-      return c.json({ success: false, error: message }, status);
+    const canManage = await checkPermission(chatId, walletSession.address, 'manage_members');
+    if (!canManage) {
+      return c.json({ success: false, error: 'Access denied' }, 403);
     }
+
+    const budgets = await getChatBudgets(chatId);
+    return c.json({ success: true, data: budgets.map(serializeBudget) });
   }
 );
 
-// POST /chat/:chatId/ai/invoke - Invoke AI to respond to the chat (streaming)
-const InvokeAiSchema = z.object({
-  prompt: z.string().max(10000),
-  attachments: z.array(AttachmentSchema).max(5).optional(),
-  apiKey: z.string().optional(), // User-provided Claude API key (BYOK)
-  savePrompt: z.boolean().optional(), // Save prompt to DB for future AI context (hidden messages)
-}).refine(
-  (data) => data.prompt.length > 0 || (data.attachments && data.attachments.length > 0),
-  { message: 'Message must have prompt or attachments' }
-);
+// PUT /chat/:chatId/ai/budgets - Create or replace a budget
+const SetBudgetSchema = z.object({
+  scope: z.enum(['chat', 'member']),
+  memberAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/).nullable().optional(), // member scope: omit for the per-member default
+  period: z.enum(['daily', 'monthly']),
+  limitWei: z.string().regex(/^\d+$/),
+  warnAtPercent: z.number().int().min(1).max(100).optional(),
+});
 
-chatRouter.post(
-  '/:chatId/ai/invoke',
+chatRouter.put(
+  '/:chatId/ai/budgets',
   optionalAuth,
   requireWalletOrAuth,
-  zValidator('json', InvokeAiSchema),
+  zValidator('json', SetBudgetSchema),
   async (c) => {
     const chatId = c.req.param('chatId');
     const walletSession = c.get('walletSession')!;
     const body = c.req.valid('json');
 
+    const canManage = await checkPermission(chatId, walletSession.address, 'manage_members');
+    if (!canManage) {
+      return c.json({ success: false, error: 'Access denied' }, 403);
+    }
+
     try {
-      // Check if AI is enabled for this chat (global toggle)
+      const budget = await setBudget({
+        chatId,
+        scope: body.scope,
+        memberAddress: body.memberAddress,
+        period: body.period,
+        limitWei: BigInt(body.limitWei),
+        warnAtPercent: body.warnAtPercent,
+        createdByAddress: walletSession.address,
+      });
+      return c.json({ success: true, data: serializeBudget(budget) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to set budget';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// DELETE /chat/:chatId/ai/budgets/:budgetId - Remove a budget
+chatRouter.delete(
+  '/:chatId/ai/budgets/:budgetId',
+  optionalAuth,
+  requireWalletOrAuth,
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const budgetId = c.req.param('budgetId');
+    const walletSession = c.get('walletSession')!;
+
+    const canManage = await checkPermission(chatId, walletSession.address, 'manage_members');
+    if (!canManage) {
+      return c.json({ success: false, error: 'Access denied' }, 403);
+    }
+
+    const deleted = await deleteBudget(chatId, budgetId);
+    if (!deleted) {
+      return c.json({ success: false, error: 'Budget not found' }, 404);
+    }
+    return c.json({ success: true });
+  }
+);
+
+// GET /chat/:chatId/ai/usage - AI spend by model, member and tool, with budget status
+const UsageQuerySchema = z.object({
+  period: z.enum(['daily', 'monthly', 'all']).default('monthly'),
+});
+
+chatRouter.get(
+  '/:chatId/ai/usage',
+  optionalAuth,
+  requireWalletOrAuth,
+  zValidator('query', UsageQuerySchema),
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const walletSession = c.get('walletSession')!;
+    const { period } = c.req.valid('query');
+
+    const canManage = await checkPermission(chatId, walletSession.address, 'manage_members');
+    if (!canManage) {
+      return c.json({ success: false, error: 'Access denied' }, 403);
+    }
+
+    try {
+      const usage = await getUsageBreakdown(chatId, period);
+      return c.json({
+        success: true,
+        data: {
+          since: usage.since,
+          totals: serializeUsageTotals(usage.totals),
+          byModel: usage.byModel.map(serializeUsageTotals),
+          byMember: usage.byMember.map(serializeUsageTotals),
+          byTool: usage.byTool,
+          budgets: usage.budgets.map(serializeBudgetStatus),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load AI usage';
+      return c.json({ success: false, error: message }, 500);
+    }
+  }
+);
+
+// GET /chat/:chatId/ai/watchers - List scheduled project reports
+chatRouter.get(
+  '/:chatId/ai/watchers',
+  optionalAuth,
+  requireWalletOrAuth,
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const walletSession = c.get('walletSession')!;
+
+    const canRead = await checkPermission(chatId, walletSession.address, 'read');
+    if (!canRead) {
+      return c.json({ success: false, error: 'Access denied' }, 403);
+    }
+
+    const watchers = await getChatWatchers(chatId);
+    return c.json({ success: true, data: watchers });
+  }
+);
+
+// POST /chat/:chatId/ai/watchers - Schedule a weekly/monthly project report
+const CreateWatcherSchema = z.object({
+  projectId: z.number().int().positive(),
+  chainId: z.number().int().positive(),
+  interval: z.enum(['weekly', 'monthly']),
+  component: z.enum(['project-card', 'volume-chart']).optional(),
+  instructions: z.string().max(500).optional(),
+  startAt: z.string().datetime().optional(), // First report (default: next cron pass)
+});
+
+chatRouter.post(
+  '/:chatId/ai/watchers',
+  optionalAuth,
+  requireWalletOrAuth,
+  zValidator('json', CreateWatcherSchema),
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const walletSession = c.get('walletSession')!;
+    const body = c.req.valid('json');
+
+    // Reports are AI responses billed to the chat, so creating one needs AI permission
+    const canInvoke = await checkPermission(chatId, walletSession.address, 'invoke_ai');
+    if (!canInvoke) {
+      return c.json({ success: false, error: 'Access denied' }, 403);
+    }
+
+    try {
+      const watcher = await createWatcher({
+        chatId,
+        createdByAddress: walletSession.address,
+        projectId: body.projectId,
+        chainId: body.chainId,
+        interval: body.interval,
+        component: body.component,
+        instructions: body.instructions,
+        startAt: body.startAt ? new Date(body.startAt) : undefined,
+      });
+      return c.json({ success: true, data: watcher });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create watcher';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// GET /chat/:chatId/ai/watchers/:watcherId/runs - Report history
+chatRouter.get(
+  '/:chatId/ai/watchers/:watcherId/runs',
+  optionalAuth,
+  requireWalletOrAuth,
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const watcherId = c.req.param('watcherId');
+    const walletSession = c.get('walletSession')!;
+
+    const canRead = await checkPermission(chatId, walletSession.address, 'read');
+    if (!canRead) {
+      return c.json({ success: false, error: 'Access denied' }, 403);
+    }
+
+    const runs = await getWatcherRuns(chatId, watcherId);
+    return c.json({ success: true, data: runs });
+  }
+);
+
+// PATCH /chat/:chatId/ai/watchers/:watcherId - Pause or resume (creator or member managers)
+const UpdateWatcherSchema = z.object({
+  status: z.enum(['active', 'paused']),
+});
+
+chatRouter.patch(
+  '/:chatId/ai/watchers/:watcherId',
+  optionalAuth,
+  requireWalletOrAuth,
+  zValidator('json', UpdateWatcherSchema),
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const watcherId = c.req.param('watcherId');
+    const walletSession = c.get('walletSession')!;
+    const { status } = c.req.valid('json');
+
+    const watcher = await getWatcher(chatId, watcherId);
+    if (!watcher) {
+      return c.json({ success: false, error: 'Watcher not found' }, 404);
+    }
+    if (!(await canManageWatcher(watcher, walletSession.address))) {
+      return c.json({ success: false, error: 'Access denied' }, 403);
+    }
+
+    try {
+      if (status === 'paused') {
+        await pauseWatcher(chatId, watcherId);
+      } else {
+        await resumeWatcher(chatId, watcherId);
+      }
+      return c.json({ success: true, data: await getWatcher(chatId, watcherId) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update watcher';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// DELETE /chat/:chatId/ai/watchers/:watcherId - Stop and remove a watcher
+chatRouter.delete(
+  '/:chatId/ai/watchers/:watcherId',
+  optionalAuth,
+  requireWalletOrAuth,
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const watcherId = c.req.param('watcherId');
+    const walletSession = c.get('walletSession')!;
+
+    const watcher = await getWatcher(chatId, watcherId);
+    if (!watcher) {
+      return c.json({ success: false, error: 'Watcher not found' }, 404);
+    }
+    if (!(await canManageWatcher(watcher, walletSession.address))) {
+      return c.json({ success: false, error: 'Access denied' }, 403);
+    }
+
+    await deleteWatcher(chatId, watcherId);
+    return c.json({ success: true });
+  }
+);
+
+// GET /chat/:chatId/ai/tools - AI tools and who must approve each in this chat
+chatRouter.get(
+  '/:chatId/ai/tools',
+  optionalAuth,
+  requireWalletOrAuth,
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const walletSession = c.get('walletSession')!;
+
+    const canRead = await checkPermission(chatId, walletSession.address, 'read');
+    if (!canRead) {
+      return c.json({ success: false, error: 'Access denied' }, 403);
+    }
+
+    const tools = await listToolsWithPolicy(chatId);
+    return c.json({ success: true, data: tools });
+  }
+);
+
+// PUT /chat/:chatId/ai/tools/policy - Set who must approve a tool (founder/admins)
+const SetToolApprovalSchema = z.object({
+  toolName: z.string().min(1).max(100),
+  approval: z.enum(['none', 'requester', 'admin']),
+});
+
+chatRouter.put(
+  '/:chatId/ai/tools/policy',
+  optionalAuth,
+  requireWalletOrAuth,
+  zValidator('json', SetToolApprovalSchema),
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const walletSession = c.get('walletSession')!;
+    const body = c.req.valid('json');
+
+    const canManage = await checkPermission(chatId, walletSession.address, 'manage_members');
+    if (!canManage) {
+      return c.json({ success: false, error: 'Access denied' }, 403);
+    }
+
+    try {
+      await setToolApproval(chatId, body.toolName, body.approval);
+      return c.json({ success: true, data: await listToolsWithPolicy(chatId) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update tool policy';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// POST /chat/:chatId/ai/tool-calls/:callId/decision - Approve or decline a pending tool call
+const ToolCallDecisionSchema = z.object({
+  approve: z.boolean(),
+});
+
+chatRouter.post(
+  '/:chatId/ai/tool-calls/:callId/decision',
+  optionalAuth,
+  requireWalletOrAuth,
+  zValidator('json', ToolCallDecisionSchema),
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const callId = c.req.param('callId');
+    const walletSession = c.get('walletSession')!;
+    const { approve } = c.req.valid('json');
+
+    const call = await getToolCall(callId);
+    if (!call || call.chatId !== chatId) {
+      return c.json({ success: false, error: 'Tool call not found' }, 404);
+    }
+    if (!(await canDecideToolCall(call, walletSession.address))) {
+      return c.json({ success: false, error: 'Access denied' }, 403);
+    }
+
+    try {
+      const decided = await decideToolCall(callId, walletSession.address, approve);
+      return c.json({ success: true, data: decided });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to decide tool call';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// PATCH /chat/:chatId/ai/toggle - Toggle AI enabled state for the chat
+const ToggleAiSchema = z.object({
+  enabled: z.boolean(),
+});
+
+chatRouter.patch(
+  '/:chatId/ai/toggle',
+  optionalAuth,
+  requireWalletOrAuth,
+  zValidator('json', ToggleAiSchema),
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const walletSession = c.get('walletSession')!;
+    const body = c.req.valid('json');
+
+    try {
+      const updatedChat = await toggleChatAiEnabled(chatId, walletSession.address, body.enabled);
+      if (!updatedChat) {
+        return c.json({ success: false, error: 'Chat not found' }, 404);
+      }
+
+      // Broadcast the change to all connected clients
+      const { broadcastChatUpdate } = await import('../services/websocket.ts');
+      broadcastChatUpdate(chatId, { aiEnabled: body.enabled });
+
+      return c.json({ success: true, data: serializeChat(updatedChat) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to toggle AI';
+      const status = message.includes('permission') ? 403 : 400;
+      return c.json({ success: false, error: message }, status);
+    }
+  }
+);
+
+// PATCH /chat/:chatId/ai/provider - Override the AI provider for this chat (null = deployment default)
+const SetAiProviderSchema = z.object({
+  provider: z.enum(['anthropic', 'moonshot', 'openai-compatible']).nullable(),
+});
+
+chatRouter.patch(
+  '/:chatId/ai/provider',
+  optionalAuth,
+  requireWalletOrAuth,
+  zValidator('json', SetAiProviderSchema),
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const walletSession = c.get('walletSession')!;
+    const body = c.req.valid('json');
+
+    try {
+      const { isProviderConfigured, getAvailableProviders } = await import('../services/aiProvider.ts');
+      if (body.provider && !isProviderConfigured(body.provider)) {
+        return c.json({
+          success: false,
+          error: `AI provider '${body.provider}' is not configured. Available: ${getAvailableProviders().join(', ')}`,
+        }, 400);
+      }
+
+      const updatedChat = await setChatAiProvider(chatId, walletSession.address, body.provider);
+      if (!updatedChat) {
+        return c.json({ success: false, error: 'Chat not found' }, 404);
+      }
+
+      const { broadcastChatUpdate } = await import('../services/websocket.ts');
+      broadcastChatUpdate(chatId, { aiProvider: body.provider });
+
+      return c.json({ success: true, data: serializeChat(updatedChat) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to set AI provider';
+      const status = message.includes('permission') ? 403 : 400;
+      return c.json({ success: false, error: message }, status);
+    }
+  }
+);
+
+// POST /chat/:chatId/ai/invoke - Invoke AI to respond to the chat (streaming)
+const InvokeAiSchema = z.object({
+  prompt: z.string().max(10000),
+  attachments: z.array(AttachmentSchema).max(5).optional(),
+  apiKey: z.string().optional(), // User-provided Claude API key (BYOK)
+  savePrompt: z.boolean().optional(), // Save prompt to DB for future AI context (hidden messages)
+  regenerateMessageId: z.string().uuid().optional(), // AI response to replace; it and later messages move to a branch
+}).refine(
+  (data) => data.prompt.length > 0 || (data.attachments && data.attachments.length > 0),
+  { message: 'Message must have prompt or attachments' }
+);
+
+chatRouter.post(
+  '/:chatId/ai/invoke',
+  optionalAuth,
+  requireWalletOrAuth,
+  zValidator('json', InvokeAiSchema),
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const walletSession = c.get('walletSession')!;
+    const body = c.req.valid('json');
+
+    try {
+      // Check if AI is enabled for this chat (global toggle)
       const chat = await getChatById(chatId);
       if (!chat) {
         return c.json({ success: false, error: 'Chat not found' }, 404);
@@ -1215,7 +1964,33 @@ chatRouter.post(
         return c.json({ success: false, error: 'You do not have permission to invoke AI in this chat' }, 403);
       }
 
-      // AI is free for everyone - no rate limiting
+      // Budgets (and the balance, outside AI_FREE_MODE)
+      const invokeCheck = await canInvokeAi(chatId, walletSession.address);
+      if (!invokeCheck.allowed) {
+        const exceeded = invokeCheck.budgets?.find(b => b.state === 'exceeded');
+        if (exceeded) {
+          const { broadcastAiBudget } = await import('../services/websocket.ts');
+          broadcastAiBudget(chatId, { state: 'exceeded', message: invokeCheck.reason!, memberAddress: exceeded.memberAddress });
+        }
+        return c.json({ success: false, error: invokeCheck.reason ?? 'AI is unavailable for this chat' }, 403);
+      }
+
+      // Regenerate: park the old response (and anything after it) before building context,
+      // which also rolls transaction state back to before that response
+      if (body.regenerateMessageId) {
+        try {
+          await forkConversation({
+            chatId,
+            messageId: body.regenerateMessageId,
+            address: walletSession.address,
+            reason: 'regenerate',
+          });
+          broadcastBranchChanged(chatId, walletSession.address);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Failed to regenerate response';
+          return c.json({ success: false, error: message }, 400);
+        }
+      }
 
       // Build optimized context with summaries, state, and token budgeting
       const { buildOptimizedContext, formatContextForClaude, logContextUsage } = await import('../services/contextManager.ts');
@@ -1228,12 +2003,13 @@ chatRouter.post(
       // Build enhanced system prompt with transaction state and user context
       // Phase 1: Enable sub-modules for token efficiency
       // Phase 2: Enable semantic detection when embeddings are available
-      const { systemPrompt: enhancedSystem, intents, semanticResult } = await buildEnhancedPrompt({
+      const { systemPrompt: enhancedSystem, context: promptContext, intents, semanticResult } = await buildEnhancedPrompt({
         chatId,
         userId: walletSession.userId,
         includeOmnichain: true,
         useSubModules: true,  // Phase 1: Granular sub-module loading
         useSemanticDetection: false,  // Phase 2: Enable when embeddings are seeded
+        retrievalQuery: body.prompt,  // Pull matching passages from the chat's documents
       });
 
       // Log intent detection metrics for optimization
@@ -1330,7 +2106,7 @@ chatRouter.post(
       }
 
       // Import services
-      const { streamMessageWithTools } = await import('../services/aiProvider.ts');
+      const { streamMessageWithTools, isProviderConfigured, getCurrentProvider } = await import('../services/aiProvider.ts');
       const { importMessage } = await import('../services/chat.ts');
       const { streamAiToken, broadcastChatMessage } = await import('../services/websocket.ts');
 
@@ -1354,18 +2130,29 @@ chatRouter.post(
       // Extract user's API key if provided (BYOK)
       const userApiKey = body.apiKey;
 
+      // Per-chat provider override, ignored if the deployment no longer configures it
+      const providerOverride = chat.aiProvider && isProviderConfigured(chat.aiProvider) ? chat.aiProvider : null;
+
       // Stream Claude response with automatic tool execution
       let fullContent = '';
       let streamingStarted = false;
       let transactionPreviewCount = 0;
       let duplicatePreviewDetected = false;
       let firstPreviewComplete = false; // Track when first preview is complete
+      let usage: { inputTokens: number; outputTokens: number; model?: string } | null = null;
 
       console.log(`[AI] ${chatId}: Starting AI stream with ${chatHistory.length} messages (userApiKey: ${userApiKey ? 'yes' : 'no'})`);
       console.log(`[AI] ${chatId}: System prompt length: ${enhancedSystem.length} chars`);
       console.log(`[AI] ${chatId}: Last user message: "${(chatHistory[chatHistory.length-1]?.content as string)?.substring(0, 100)}..."`);
       try {
-        for await (const event of streamMessageWithTools(chatId, { messages: chatHistory, system: enhancedSystem }, userApiKey)) {
+        // Tool calls show as steps on the streaming message; side-effecting ones wait for approval
+        const approveToolCall = createToolGate({
+          chatId,
+          streamId: messageId,
+          requestedByAddress: walletSession.address,
+          policy: await getToolPolicy(chatId),
+        });
+        for await (const event of streamMessageWithTools(chatId, { messages: chatHistory, system: enhancedSystem, approveToolCall }, userApiKey, undefined, providerOverride)) {
           if (!streamingStarted) {
             console.log(`[AI] ${chatId}: First event received, type: ${event.type}, data preview: ${JSON.stringify(event.data)?.substring(0, 100)}`);
           }
@@ -1424,17 +2211,18 @@ chatRouter.post(
 
             // Broadcast each token to connected clients
             streamAiToken(chatId, messageId, token, false);
+          } else if (event.type === 'usage') {
+            // Totals for the whole tool loop (the last usage event wins)
+            usage = event.data as { inputTokens: number; outputTokens: number; model?: string };
           } else if (event.type === 'thinking') {
             // Log tool usage for debugging (not shown to user)
             console.log(`[AI] ${chatId}: ${event.data}`);
           } else if (event.type === 'tool_result') {
-            // Optionally show tool results (could be verbose, so we keep it subtle)
+            // Outputs and errors show on the message's tool steps rather than in its text
             const result = event.data as { id: string; name: string; result?: string; error?: string };
-            if (result.error) {
-              const errorText = `\n\n> ⚠️ Tool error: ${result.error}\n\n`;
-              fullContent += errorText;
-              streamAiToken(chatId, messageId, errorText, false);
-            }
+            await recordToolResult(chatId, messageId, result).catch(err => {
+              console.error('Failed to record tool result:', err);
+            });
           }
         }
 
@@ -1524,6 +2312,57 @@ chatRouter.post(
         content: cleanedContent,
       });
 
+      await attachToolCalls(chatId, messageId, aiMessage.id).catch(err => {
+        console.error('Failed to attach tool calls:', err);
+      });
+
+      // Record which document passages the reply cited, and show them on the streamed message
+      const retrievedChunks = promptContext?.retrievedChunks ?? [];
+      if (retrievedChunks.length > 0) {
+        try {
+          const citations = await saveMessageCitations(aiMessage.id, cleanedContent, retrievedChunks);
+          if (citations.length > 0) {
+            const { broadcastCitations } = await import('../services/websocket.ts');
+            broadcastCitations(chatId, messageId, citations);
+          }
+        } catch (err) {
+          console.error('Failed to save citations:', err);
+        }
+      }
+
+      // Checkpoint the state this response was generated from, so a later
+      // regenerate or edit can roll back to it
+      if (optimizedContext.transactionState) {
+        const { saveStateCheckpoint } = await import('../services/transactionState.ts');
+        await saveStateCheckpoint(chatId, aiMessage.id, optimizedContext.transactionState).catch(err => {
+          console.error('Failed to save transaction state checkpoint:', err);
+        });
+      }
+
+      // Bill token usage (no-op in AI_FREE_MODE). BYOK requests are paid by the user's key,
+      // except on the self-hosted provider, which never uses it
+      const paidByUserKey = !!userApiKey && (providerOverride ?? getCurrentProvider()) !== 'openai-compatible';
+      if (usage && !paidByUserKey) {
+        deductAiCost(chatId, aiMessage.id, usage.model ?? 'unknown', usage.inputTokens, usage.outputTokens, walletSession.address)
+          .then(async () => {
+            // Announce budgets this request pushed into warning or exceeded
+            if (!invokeCheck.budgets?.length) return;
+            const { checkBudgets, getNewlyCrossed, describeBudgetStatus } = await import('../services/aiBudgets.ts');
+            const { broadcastAiBudget } = await import('../services/websocket.ts');
+            const after = await checkBudgets(chatId, walletSession.address);
+            for (const status of getNewlyCrossed(invokeCheck.budgets, after)) {
+              broadcastAiBudget(chatId, {
+                state: status.state as 'warning' | 'exceeded',
+                message: describeBudgetStatus(status),
+                memberAddress: status.memberAddress,
+              });
+            }
+          })
+          .catch(err => {
+            console.error('Failed to record AI usage cost:', err);
+          });
+      }
+
       // Store confidence metadata and create escalation if low confidence
       if (confidence) {
         updateMessageConfidence({
@@ -1577,7 +2416,7 @@ chatRouter.post(
       });
 
       // Log context usage for analytics
-      logContextUsage(chatId, aiMessage.id, optimizedContext).catch(err => {
+      logContextUsage(chatId, aiMessage.id, optimizedContext, promptContext?.metadata.promptVariants).catch(err => {
         console.error('Failed to log context usage:', err);
       });
 
@@ -1595,6 +2434,13 @@ chatRouter.post(
               data: att.data,
               filename: att.name,
             });
+            // Documents are also chunked into the chat's knowledge base for later prompts
+            queueAttachmentIndexing(userMessage.id, chatId, i, {
+              type: att.type,
+              mimeType: att.mimeType,
+              data: att.data,
+              filename: att.name,
+            });
           }
         }
       }
@@ -1628,6 +2474,105 @@ chatRouter.post(
   }
 );
 
+// ============================================================================
+// Export / Import Routes
+// ============================================================================
+
+// GET /chat/:chatId/export - Download the chat as a JSON transcript (with component states)
+chatRouter.get(
+  '/:chatId/export',
+  optionalAuth,
+  requireWalletOrAuth,
+  async (c) => {
+    const chatId = c.req.param('chatId');
+    const walletSession = c.get('walletSession')!;
+
+    const chat = await getChatById(chatId);
+    if (!chat) {
+      return c.json({ success: false, error: 'Chat not found' }, 404);
+    }
+
+    if (!chat.isPublic) {
+      const canRead = await checkPermission(chatId, walletSession.address, 'read');
+      if (!canRead) {
+        return c.json({ success: false, error: 'Access denied' }, 403);
+      }
+    }
+
+    try {
+      const data = await buildChatExport(chatId);
+      return c.json({ success: true, data });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to export chat';
+      return c.json({ success: false, error: message }, 500);
+    }
+  }
+);
+
+// POST /chat/import - Recreate an exported chat as a new private chat
+const ImportChatSchema = z.object({
+  format: z.literal(CHAT_EXPORT_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  chat: z.object({
+    id: z.string(),
+    name: z.string().max(255).optional(),
+    description: z.string().max(2000).optional(),
+    founderAddress: z.string(),
+    encrypted: z.boolean(),
+    createdAt: z.string(),
+  }),
+  members: z.array(z.object({
+    address: z.string(),
+    role: z.string(),
+    displayName: z.string().optional(),
+  })),
+  messages: z.array(z.object({
+    id: z.string(),
+    role: z.enum(['user', 'assistant', 'system']),
+    senderAddress: z.string().max(100),
+    content: z.string().max(200000),
+    isEncrypted: z.boolean(),
+    createdAt: z.string().datetime(),
+    editedAt: z.string().optional(),
+    componentStates: z.record(
+      z.object({ status: z.enum(['pending', 'in_progress', 'completed', 'failed']) }).passthrough()
+    ),
+  })).max(MAX_EXPORT_MESSAGES),
+});
+
+chatRouter.post(
+  '/import',
+  optionalAuth,
+  requireWalletOrAuth,
+  rateLimitByWallet('chatCreate'),
+  zValidator('json', ImportChatSchema),
+  async (c) => {
+    const walletSession = c.get('walletSession')!;
+    const body = c.req.valid('json');
+
+    try {
+      const result = await importChatExport({
+        data: body,
+        founderAddress: walletSession.address,
+        founderUserId: walletSession.userId,
+      });
+
+      return c.json({
+        success: true,
+        data: {
+          chat: serializeChat(result.chat),
+          importedCount: result.importedCount,
+          skippedCount: result.skippedCount,
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to import chat';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
 // ============================================================================
 // IPFS Archival Routes
 // ============================================================================
@@ -2166,6 +3111,28 @@ function serializeMember(member: any) {
   };
 }
 
+function serializeBudget(budget: AiBudget) {
+  return {
+    ...budget,
+    limitWei: budget.limitWei.toString(),
+  };
+}
+
+function serializeBudgetStatus(status: BudgetStatus) {
+  return {
+    ...status,
+    budget: serializeBudget(status.budget),
+    spentWei: status.spentWei.toString(),
+  };
+}
+
+function serializeUsageTotals<T extends { costWei: bigint }>(totals: T) {
+  return {
+    ...totals,
+    costWei: totals.costWei.toString(),
+  };
+}
+
 function serializeMessage(message: any) {
   return {
     ...message,
@@ -10,9 +10,14 @@ import {
   processSpends as processJuiceSpends,
   processCashOuts as processJuiceCashOuts,
 } from '../services/juice.ts';
+import { processTransfers as processJuiceTransfers } from '../services/juiceTransfers.ts';
+import { processRecurringPayments } from '../services/recurringPayments.ts';
 import { cleanupExpiredJobs, cancelStaleJobs } from '../services/forge.ts';
 import { cleanupExpiredCache } from '../services/rulesetCache.ts';
 import { refreshTrendingContext } from '../services/trendingContext.ts';
+import { processWebhookDeliveries } from '../services/webhooks.ts';
+import { embedPendingMessages } from '../services/chatSearch.ts';
+import { processChatWatchers } from '../services/chatWatchers.ts';
 
 export const cronRouter = new Hono();
 
@@ -263,6 +268,22 @@ cronRouter.post('/maintenance', async (c) => {
     };
   }
 
+  // Queue due Juice-funded recurring payments (executed by the spend run below)
+  try {
+    const recurringResult = await processRecurringPayments();
+    results.recurringPayments = {
+      success: true,
+      count: recurringResult.queued,
+      failed: recurringResult.failed,
+    };
+  } catch (error) {
+    console.error('Recurring payment processing failed:', error);
+    results.recurringPayments = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+
   // Process Juice spends (project payments)
   try {
     const spendResult = await processJuiceSpends();
@@ -297,6 +318,22 @@ cronRouter.post('/maintenance', async (c) => {
     };
   }
 
+  // Complete held Juice transfers and return expired gift codes
+  try {
+    const transferResult = await processJuiceTransfers();
+    results.juiceTransfers = {
+      success: true,
+      count: transferResult.completed + transferResult.expiredGiftCodes,
+      failed: transferResult.failed,
+    };
+  } catch (error) {
+    console.error('Juice transfer processing failed:', error);
+    results.juiceTransfers = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+
   // Cleanup expired forge jobs
   try {
     const expiredCount = await cleanupExpiredJobs();
@@ -313,6 +350,23 @@ cronRouter.post('/maintenance', async (c) => {
     };
   }
 
+  // Send due merchant webhook deliveries
+  try {
+    const webhookResult = await processWebhookDeliveries();
+    results.webhooks = {
+      success: true,
+      count: webhookResult.delivered,
+      failed: webhookResult.failed,
+      pending: webhookResult.retrying,
+    };
+  } catch (error) {
+    console.error('Webhook delivery failed:', error);
+    results.webhooks = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+
   // Cleanup expired ruleset cache entries
   try {
     const cacheResult = await cleanupExpiredCache();
@@ -433,6 +487,98 @@ cronRouter.post('/juice/cash-outs', async (c) => {
   }
 });
 
+// Complete held Juice transfers and return expired gift codes to creators
+cronRouter.post('/juice/transfers', async (c) => {
+  const startTime = Date.now();
+
+  try {
+    const result = await processJuiceTransfers();
+
+    return c.json({
+      success: true,
+      data: {
+        completed: result.completed,
+        expiredGiftCodes: result.expiredGiftCodes,
+        failed: result.failed,
+        durationMs: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    console.error('Cron Juice transfer processing failed:', error);
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        durationMs: Date.now() - startTime,
+      },
+      500
+    );
+  }
+});
+
+// Queue Juice spends for recurring payments that are due
+// (processSpends executes them on-chain)
+cronRouter.post('/juice/recurring', async (c) => {
+  const startTime = Date.now();
+
+  try {
+    const result = await processRecurringPayments();
+
+    return c.json({
+      success: true,
+      data: {
+        queued: result.queued,
+        failed: result.failed,
+        paused: result.paused,
+        durationMs: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    console.error('Cron recurring payment processing failed:', error);
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        durationMs: Date.now() - startTime,
+      },
+      500
+    );
+  }
+});
+
+// ============================================================================
+// Merchant Webhook Cron Endpoints
+// ============================================================================
+
+// Send due webhook deliveries (first attempts that didn't run, and retries)
+cronRouter.post('/webhooks', async (c) => {
+  const startTime = Date.now();
+
+  try {
+    const result = await processWebhookDeliveries();
+
+    return c.json({
+      success: true,
+      data: {
+        delivered: result.delivered,
+        retrying: result.retrying,
+        failed: result.failed,
+        durationMs: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    console.error('Cron webhook delivery failed:', error);
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        durationMs: Date.now() - startTime,
+      },
+      500
+    );
+  }
+});
+
 // ============================================================================
 // Forge System Cron Endpoints
 // ============================================================================
@@ -528,6 +674,66 @@ cronRouter.post('/trending', async (c) => {
   }
 });
 
+// ============================================================================
+// Chat Search & Watcher Cron Endpoints
+// ============================================================================
+
+// Embed new chat messages for semantic search (no-op without pgvector/Voyage)
+cronRouter.post('/chat/embeddings', async (c) => {
+  const startTime = Date.now();
+
+  try {
+    const result = await embedPendingMessages();
+
+    return c.json({
+      success: true,
+      data: {
+        embedded: result.embedded,
+        durationMs: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    console.error('Cron chat embeddings failed:', error);
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        durationMs: Date.now() - startTime,
+      },
+      500
+    );
+  }
+});
+
+// Post scheduled project reports for chat watchers that are due
+cronRouter.post('/chat/watchers', async (c) => {
+  const startTime = Date.now();
+
+  try {
+    const result = await processChatWatchers();
+
+    return c.json({
+      success: true,
+      data: {
+        posted: result.posted,
+        failed: result.failed,
+        paused: result.paused,
+        durationMs: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    console.error('Cron chat watchers failed:', error);
+    return c.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        durationMs: Date.now() - startTime,
+      },
+      500
+    );
+  }
+});
+
 // ============================================================================
 // Intent Detection Metrics Cron Endpoints
 // ============================================================================
@@ -21,14 +21,30 @@ import {
   submitJob,
   getJob,
   getJobOutput,
+  cancelJob,
+  subscribeToJob,
   validateJobInput,
+  FINAL_JOB_STATUSES,
+  type ForgeJobEvent,
   type ForgeJobInput,
 } from '../services/forge.ts';
 import {
-  analyzeProject,
+  runSecurityAnalysis,
   checkDeploymentSecurity,
   getLatestAnalysis,
 } from '../services/securityAnalysis.ts';
+import {
+  findMainContract,
+  getPendingVerification,
+  resetFailedVerification,
+  verifyDeployments,
+} from '../services/contractVerification.ts';
+import {
+  checkUpgradeSecurity,
+  formatRulesetFormComponent,
+  getRulesetAttachment,
+  getUpgradeDiff,
+} from '../services/hookUpgrades.ts';
 
 export const hooksRouter = new Hono();
 
@@ -51,6 +67,11 @@ const CreateProjectSchema = z.object({
 const UpdateProjectSchema = z.object({
   name: z.string().min(1).max(255).optional(),
   description: z.string().max(2000).optional(),
+  // Juicebox project whose rulesets use this hook; null unlinks
+  linkedProject: z.object({
+    projectId: z.number().int().positive(),
+    chainId: z.number().int().positive(),
+  }).nullable().optional(),
 });
 
 const FileSchema = z.object({
@@ -438,6 +459,67 @@ hooksRouter.get(
     }
 
     return streamSSE(c, async (stream) => {
+      // Job running on this instance: forward output, per-test progress and
+      // status changes as they happen
+      const events: ForgeJobEvent[] = [];
+      let wake: (() => void) | null = null;
+      const subscription = subscribeToJob(jobId, (event) => {
+        events.push(event);
+        wake?.();
+      });
+
+      if (subscription) {
+        stream.onAbort(() => wake?.());
+
+        try {
+          if (subscription.output) {
+            await stream.writeSSE({ event: 'output', data: subscription.output });
+          }
+
+          while (!stream.aborted) {
+            if (events.length === 0) {
+              // Keep-alive while forge is quiet (compiling), so proxies hold the connection
+              const woken = await new Promise<boolean>((resolve) => {
+                const timer = setTimeout(() => resolve(false), 15_000);
+                wake = () => {
+                  clearTimeout(timer);
+                  resolve(true);
+                };
+              });
+              wake = null;
+              if (!woken) {
+                await stream.writeSSE({ event: 'ping', data: '' });
+              }
+              continue;
+            }
+
+            const event = events.shift()!;
+            if (event.type === 'output') {
+              await stream.writeSSE({ event: 'output', data: event.chunk });
+            } else if (event.type === 'test') {
+              await stream.writeSSE({ event: 'test', data: JSON.stringify(event.progress) });
+            } else {
+              await stream.writeSSE({
+                event: 'status',
+                data: JSON.stringify({ status: event.status, resultData: event.resultData }),
+              });
+
+              if (FINAL_JOB_STATUSES.includes(event.status)) {
+                await stream.writeSSE({
+                  event: 'done',
+                  data: JSON.stringify(await getJob(jobId)),
+                });
+                break;
+              }
+            }
+          }
+        } finally {
+          subscription.unsubscribe();
+        }
+        return;
+      }
+
+      // Running on another instance, or already finished: poll the job row
       let lastLength = 0;
       let attempts = 0;
       const maxAttempts = 120; // 2 minutes with 1s interval
@@ -467,7 +549,7 @@ hooksRouter.get(
         });
 
         // Stop if job is complete
-        if (['completed', 'failed', 'timeout'].includes(currentJob.status)) {
+        if (FINAL_JOB_STATUSES.includes(currentJob.status)) {
           await stream.writeSSE({
             event: 'done',
             data: JSON.stringify(currentJob),
@@ -482,11 +564,37 @@ hooksRouter.get(
   }
 );
 
+// POST /hooks/forge/cancel/:id - Cancel a queued or running job
+hooksRouter.post(
+  '/forge/cancel/:id',
+  requireAuth,
+  async (c) => {
+    const userAddress = getUserAddress(c);
+    if (!userAddress) {
+      return c.json({ success: false, error: 'User address required' }, 400);
+    }
+
+    const jobId = c.req.param('id');
+
+    try {
+      const cancelled = await cancelJob(jobId, userAddress);
+      if (!cancelled) {
+        return c.json({ success: false, error: 'Job not found' }, 404);
+      }
+
+      return c.json({ success: true, data: { cancelled: true } });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to cancel job';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
 // ============================================================================
 // Security Analysis Routes
 // ============================================================================
 
-// POST /hooks/projects/:id/analyze - Run security analysis
+// POST /hooks/projects/:id/analyze - Run security analysis (all enabled tools, merged)
 hooksRouter.post(
   '/projects/:id/analyze',
   requireAuth,
@@ -505,7 +613,7 @@ hooksRouter.post(
       }
 
       const files = project.files.map((f) => ({ path: f.path, content: f.content }));
-      const analysis = await analyzeProject(projectId, files);
+      const analysis = await runSecurityAnalysis(projectId, files);
 
       return c.json({ success: true, data: analysis });
     } catch (error) {
@@ -576,12 +684,15 @@ hooksRouter.post(
   }
 );
 
-// POST /hooks/projects/:id/deploy - Mark project as deployed
+// POST /hooks/projects/:id/deploy - Mark project as deployed and start source verification
 hooksRouter.post(
   '/projects/:id/deploy',
   requireAuth,
   zValidator('json', z.object({
     deployedAddresses: z.record(z.string().regex(/^\d+$/), z.string().regex(/^0x[a-fA-F0-9]{40}$/)),
+    // Deployed contract, e.g. src/MyHook.sol:MyHook (found from the sources if omitted)
+    contract: z.string().regex(/^[\w./-]+\.sol:[A-Za-z_$][\w$]*$/).optional(),
+    constructorArgs: z.string().regex(/^(0x)?([a-fA-F0-9]{2})*$/).optional(), // ABI-encoded
   })),
   async (c) => {
     const userAddress = getUserAddress(c);
@@ -590,20 +701,37 @@ hooksRouter.post(
     }
 
     const projectId = c.req.param('id');
-    const { deployedAddresses } = c.req.valid('json');
+    const { deployedAddresses, contract, constructorArgs } = c.req.valid('json');
 
     try {
+      const existing = await getProjectWithFiles(projectId, userAddress);
+      if (!existing) {
+        return c.json({ success: false, error: 'Project not found' }, 404);
+      }
+
+      const verifiedContract = contract ?? findMainContract(existing.files);
+      if (!verifiedContract) {
+        return c.json({ success: false, error: 'No contract found in src/ to verify' }, 400);
+      }
+
       // Convert string keys to numbers
       const addresses: Record<number, string> = {};
       for (const [key, value] of Object.entries(deployedAddresses)) {
         addresses[parseInt(key, 10)] = value;
       }
 
-      const project = await markAsDeployed(projectId, userAddress, addresses);
+      const chainIds = Object.keys(addresses).map(Number);
+      const verification = getPendingVerification(chainIds, verifiedContract, constructorArgs?.replace(/^0x/, ''));
+      const project = await markAsDeployed(projectId, userAddress, addresses, verification);
       if (!project) {
         return c.json({ success: false, error: 'Project not found' }, 404);
       }
 
+      // Verify in the background; progress shows up in project.verification
+      verifyDeployments(projectId, userAddress, chainIds).catch((error) => {
+        console.error(`[Verification] Failed for project ${projectId}:`, error);
+      });
+
       return c.json({ success: true, data: project });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to mark as deployed';
@@ -611,3 +739,148 @@ hooksRouter.post(
     }
   }
 );
+
+// GET /hooks/projects/:id/verification - Source verification status per chain
+hooksRouter.get(
+  '/projects/:id/verification',
+  requireAuth,
+  async (c) => {
+    const userAddress = getUserAddress(c);
+    if (!userAddress) {
+      return c.json({ success: false, error: 'User address required' }, 400);
+    }
+
+    const projectId = c.req.param('id');
+
+    try {
+      const project = await getProject(projectId, userAddress);
+      if (!project) {
+        return c.json({ success: false, error: 'Project not found' }, 404);
+      }
+
+      return c.json({ success: true, data: project.verification });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to get verification status';
+      return c.json({ success: false, error: message }, 500);
+    }
+  }
+);
+
+// POST /hooks/projects/:id/verify - Retry failed source verification
+hooksRouter.post(
+  '/projects/:id/verify',
+  requireAuth,
+  zValidator('json', z.object({
+    chainId: z.number().int().positive().optional(),
+  })),
+  async (c) => {
+    const userAddress = getUserAddress(c);
+    if (!userAddress) {
+      return c.json({ success: false, error: 'User address required' }, 400);
+    }
+
+    const projectId = c.req.param('id');
+    const { chainId } = c.req.valid('json');
+
+    try {
+      const chainIds = await resetFailedVerification(projectId, userAddress, chainId);
+      if (!chainIds) {
+        return c.json({ success: false, error: 'Project not found' }, 404);
+      }
+
+      if (chainIds.length > 0) {
+        verifyDeployments(projectId, userAddress, chainIds).catch((error) => {
+          console.error(`[Verification] Retry failed for project ${projectId}:`, error);
+        });
+      }
+
+      return c.json({ success: true, data: { chainIds } });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to retry verification';
+      return c.json({ success: false, error: message }, 500);
+    }
+  }
+);
+
+// ============================================================================
+// Upgrade Routes
+// ============================================================================
+
+// GET /hooks/projects/:id/upgrade/diff - Changes since the deployed version
+hooksRouter.get(
+  '/projects/:id/upgrade/diff',
+  requireAuth,
+  async (c) => {
+    const userAddress = getUserAddress(c);
+    if (!userAddress) {
+      return c.json({ success: false, error: 'User address required' }, 400);
+    }
+
+    const projectId = c.req.param('id');
+
+    try {
+      const diff = await getUpgradeDiff(projectId, userAddress);
+      if (!diff) {
+        return c.json({ success: false, error: 'Project not found' }, 404);
+      }
+
+      return c.json({ success: true, data: diff });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to diff project';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// POST /hooks/projects/:id/upgrade/check - Security issues introduced since deployment
+hooksRouter.post(
+  '/projects/:id/upgrade/check',
+  requireAuth,
+  async (c) => {
+    const userAddress = getUserAddress(c);
+    if (!userAddress) {
+      return c.json({ success: false, error: 'User address required' }, 400);
+    }
+
+    const projectId = c.req.param('id');
+
+    try {
+      const check = await checkUpgradeSecurity(projectId, userAddress);
+      if (!check) {
+        return c.json({ success: false, error: 'Project not found' }, 404);
+      }
+
+      return c.json({ success: true, data: check });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to check upgrade security';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// GET /hooks/projects/:id/upgrade/ruleset-form - Queue-ruleset form attaching the hook to the linked project
+hooksRouter.get(
+  '/projects/:id/upgrade/ruleset-form',
+  requireAuth,
+  async (c) => {
+    const userAddress = getUserAddress(c);
+    if (!userAddress) {
+      return c.json({ success: false, error: 'User address required' }, 400);
+    }
+
+    const projectId = c.req.param('id');
+
+    try {
+      const project = await getProject(projectId, userAddress);
+      if (!project) {
+        return c.json({ success: false, error: 'Project not found' }, 404);
+      }
+
+      const props = getRulesetAttachment(project);
+      return c.json({ success: true, data: { props, component: formatRulesetFormComponent(props) } });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to prepare ruleset form';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
@@ -21,9 +21,24 @@ import {
   getUserSpends,
   getUserCashOuts,
 } from '../services/juice.ts';
+import {
+  createTransfer,
+  cancelTransfer,
+  getUserTransfers,
+  createGiftCodes,
+  cancelGiftCode,
+  getUserGiftCodes,
+  redeemGiftCode,
+} from '../services/juiceTransfers.ts';
+import {
+  PURCHASE_CURRENCIES,
+  isPurchaseCurrency,
+  getUsdExchangeRate,
+  toMinorUnits,
+} from '../services/fx.ts';
 import { rateLimitByUser } from '../services/rateLimit.ts';
 
-// Flat rate for Pay Credits: $1.05 per credit
+// Flat rate for Pay Credits: $1.05 per credit (USD, converted at checkout for other currencies)
 const PAY_CREDITS_RATE = 1.05;
 
 export const juiceRouter = new Hono();
@@ -52,15 +67,32 @@ juiceRouter.get('/stripe-config', async (c) => {
 // Credit Rate
 // ============================================================================
 
-// GET /api/juice/rate - Get flat Pay Credits rate ($1.01)
+// GET /api/juice/rate?currency=EUR - Get Pay Credits rate, priced in the requested currency
 juiceRouter.get('/rate', requireAuth, async (c) => {
-  return c.json({
-    success: true,
-    data: {
-      rate: PAY_CREDITS_RATE,
-      description: `1 Pay Credit = $${PAY_CREDITS_RATE.toFixed(2)}`,
-    },
-  });
+  const currency = (c.req.query('currency') || 'USD').toUpperCase();
+
+  if (!isPurchaseCurrency(currency)) {
+    return c.json({ success: false, error: `Unsupported currency. Supported: ${PURCHASE_CURRENCIES.join(', ')}` }, 400);
+  }
+
+  try {
+    const fxRate = await getUsdExchangeRate(currency);
+
+    return c.json({
+      success: true,
+      data: {
+        rate: PAY_CREDITS_RATE,
+        currency,
+        fxRate,
+        localRate: toMinorUnits(PAY_CREDITS_RATE, fxRate) / 100,
+        supportedCurrencies: PURCHASE_CURRENCIES,
+        description: `1 Pay Credit = $${PAY_CREDITS_RATE.toFixed(2)}`,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get rate';
+    return c.json({ success: false, error: message }, 503);
+  }
 });
 
 // ============================================================================
@@ -96,7 +128,8 @@ juiceRouter.get('/balance', requireAuth, async (c) => {
 
 // POST /api/juice/purchase - Create Stripe PaymentIntent for Juice purchase
 const PurchaseSchema = z.object({
-  amount: z.number().min(1).max(10000), // $1 - $10,000
+  amount: z.number().min(1).max(10000), // 1 - 10,000 credits
+  currency: z.enum(PURCHASE_CURRENCIES).optional(), // Presentment currency, defaults to USD
 });
 
 juiceRouter.post(
@@ -106,7 +139,7 @@ juiceRouter.post(
   zValidator('json', PurchaseSchema),
   async (c) => {
     const user = c.get('user');
-    const { amount } = c.req.valid('json');
+    const { amount, currency = 'USD' } = c.req.valid('json');
     const config = getConfig();
 
     try {
@@ -118,8 +151,10 @@ juiceRouter.post(
     try {
       const stripe = new Stripe(config.stripeSecretKey);
 
-      // Flat rate: $1.01 per Pay Credit
-      const fiatAmountCents = Math.round(amount * PAY_CREDITS_RATE * 100);
+      // Flat USD rate per Pay Credit, converted to the buyer's currency
+      const usdAmount = amount * PAY_CREDITS_RATE;
+      const fxRate = await getUsdExchangeRate(currency);
+      const fiatAmountMinor = toMinorUnits(usdAmount, fxRate);
 
       // Use Checkout Sessions API (Stripe's recommended approach)
       // This provides a hosted/embeddable checkout with automatic payment method handling
@@ -129,12 +164,12 @@ juiceRouter.post(
         line_items: [
           {
             price_data: {
-              currency: 'usd',
+              currency: currency.toLowerCase(),
               product_data: {
                 name: 'Pay Credits',
                 description: `${amount} Pay Credits for Juicebox payments`,
               },
-              unit_amount: fiatAmountCents,
+              unit_amount: fiatAmountMinor,
             },
             quantity: 1,
           },
@@ -143,7 +178,10 @@ juiceRouter.post(
           type: 'pay_credits_purchase',
           userId: user.id,
           creditsAmount: amount.toString(),
-          fiatAmount: (fiatAmountCents / 100).toFixed(2),
+          fiatAmount: (fiatAmountMinor / 100).toFixed(2),
+          currency,
+          fxRate: fxRate.toString(),
+          usdAmount: usdAmount.toFixed(2),
           creditRate: PAY_CREDITS_RATE.toString(),
         },
         // Enable dynamic payment methods (Stripe best practice)
@@ -158,7 +196,9 @@ juiceRouter.post(
           clientSecret: session.client_secret,
           sessionId: session.id,
           creditsAmount: amount,
-          fiatAmount: fiatAmountCents / 100,
+          fiatAmount: fiatAmountMinor / 100,
+          currency,
+          fxRate,
           creditRate: PAY_CREDITS_RATE,
         },
       });
@@ -182,6 +222,8 @@ juiceRouter.get('/purchases', requireAuth, async (c) => {
       data: purchases.map(p => ({
         id: p.id,
         amount: p.juiceAmount,
+        fiatAmount: p.fiatAmount,
+        currency: p.currency,
         status: p.status,
         clearsAt: p.clearsAt?.toISOString() || null,
         createdAt: p.createdAt.toISOString(),
@@ -369,6 +411,211 @@ juiceRouter.get('/cash-outs', requireAuth, async (c) => {
   }
 });
 
+// ============================================================================
+// Transfers
+// ============================================================================
+
+// POST /api/juice/transfer - Send Juice to another user
+const TransferSchema = z.object({
+  recipient: z.string().min(1).max(255), // Email, Juicy ID or address
+  amount: z.number().min(1).max(500),
+  note: z.string().max(280).optional(),
+});
+
+juiceRouter.post(
+  '/transfer',
+  requireAuth,
+  rateLimitByUser('juiceTransfer'),
+  zValidator('json', TransferSchema),
+  async (c) => {
+    const user = c.get('user');
+    const body = c.req.valid('json');
+
+    try {
+      const transfer = await createTransfer({
+        senderId: user.id,
+        recipient: body.recipient,
+        amount: body.amount,
+        note: body.note,
+      });
+
+      return c.json({
+        success: true,
+        data: {
+          transferId: transfer.id,
+          amount: body.amount,
+          status: 'held',
+          availableAt: transfer.availableAt.toISOString(),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Transfer failed';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// DELETE /api/juice/transfer/:id - Cancel a held transfer
+juiceRouter.delete('/transfer/:id', requireAuth, async (c) => {
+  const user = c.get('user');
+  const transferId = c.req.param('id');
+
+  try {
+    await cancelTransfer(transferId, user.id);
+    return c.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Cancel failed';
+    return c.json({ success: false, error: message }, 400);
+  }
+});
+
+// GET /api/juice/transfers - Get user's sent and received transfers
+juiceRouter.get('/transfers', requireAuth, async (c) => {
+  const user = c.get('user');
+
+  try {
+    const transfers = await getUserTransfers(user.id);
+
+    return c.json({
+      success: true,
+      data: transfers.map(t => ({
+        id: t.id,
+        direction: t.direction,
+        counterparty: t.counterpartyLabel,
+        amount: t.amount,
+        note: t.note,
+        status: t.status,
+        availableAt: t.availableAt.toISOString(),
+        completedAt: t.completedAt?.toISOString() ?? null,
+        createdAt: t.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get transfers';
+    return c.json({ success: false, error: message }, 500);
+  }
+});
+
+// ============================================================================
+// Gift Codes
+// ============================================================================
+
+// POST /api/juice/gift-codes - Create a batch of gift codes
+const GiftCodesSchema = z.object({
+  amount: z.number().min(1).max(500), // Juice per code
+  quantity: z.number().int().min(1).max(100),
+  note: z.string().max(280).optional(),
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+});
+
+juiceRouter.post(
+  '/gift-codes',
+  requireAuth,
+  rateLimitByUser('juiceTransfer'),
+  zValidator('json', GiftCodesSchema),
+  async (c) => {
+    const user = c.get('user');
+    const body = c.req.valid('json');
+
+    try {
+      const batch = await createGiftCodes({
+        creatorId: user.id,
+        amount: body.amount,
+        quantity: body.quantity,
+        note: body.note,
+        expiresInDays: body.expiresInDays,
+      });
+
+      return c.json({
+        success: true,
+        data: {
+          batchId: batch.batchId,
+          amount: body.amount,
+          // Plaintext codes are only returned here
+          codes: batch.codes,
+          redeemableAt: batch.redeemableAt.toISOString(),
+          expiresAt: batch.expiresAt.toISOString(),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create gift codes';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// GET /api/juice/gift-codes - Get gift codes the user created
+juiceRouter.get('/gift-codes', requireAuth, async (c) => {
+  const user = c.get('user');
+
+  try {
+    const giftCodes = await getUserGiftCodes(user.id);
+
+    return c.json({
+      success: true,
+      data: giftCodes.map(g => ({
+        id: g.id,
+        batchId: g.batchId,
+        codeSuffix: g.codeSuffix,
+        amount: g.amount,
+        note: g.note,
+        status: g.status,
+        redeemableAt: g.redeemableAt.toISOString(),
+        expiresAt: g.expiresAt.toISOString(),
+        redeemedAt: g.redeemedAt?.toISOString() ?? null,
+        createdAt: g.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get gift codes';
+    return c.json({ success: false, error: message }, 500);
+  }
+});
+
+// DELETE /api/juice/gift-codes/:id - Cancel an unredeemed gift code
+juiceRouter.delete('/gift-codes/:id', requireAuth, async (c) => {
+  const user = c.get('user');
+  const giftCodeId = c.req.param('id');
+
+  try {
+    await cancelGiftCode(giftCodeId, user.id);
+    return c.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Cancel failed';
+    return c.json({ success: false, error: message }, 400);
+  }
+});
+
+// POST /api/juice/gift-codes/redeem - Redeem a gift code
+const RedeemGiftCodeSchema = z.object({
+  code: z.string().min(12).max(32),
+});
+
+juiceRouter.post(
+  '/gift-codes/redeem',
+  requireAuth,
+  rateLimitByUser('juiceGiftRedeem'),
+  zValidator('json', RedeemGiftCodeSchema),
+  async (c) => {
+    const user = c.get('user');
+    const body = c.req.valid('json');
+
+    try {
+      const result = await redeemGiftCode(user.id, body.code);
+
+      return c.json({
+        success: true,
+        data: {
+          amount: result.amount,
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Redeem failed';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
 // ============================================================================
 // Transactions
 // ============================================================================
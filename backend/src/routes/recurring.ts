@@ -0,0 +1,286 @@
+/**
+ * Recurring Payment Routes
+ *
+ * Weekly/monthly project contributions funded from Juice or a Stripe subscription.
+ * All endpoints require authentication.
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import Stripe from 'npm:stripe';
+import { requireAuth } from '../middleware/auth.ts';
+import { getConfig, validateConfigForStripe } from '../utils/config.ts';
+import {
+  createRecurringPayment,
+  attachStripeCheckoutSession,
+  getRecurringPayment,
+  getUserRecurringPayments,
+  getRecurringPaymentRuns,
+  pauseRecurringPayment,
+  resumeRecurringPayment,
+  cancelRecurringPayment,
+  type RecurringPayment,
+} from '../services/recurringPayments.ts';
+import { rateLimitByUser } from '../services/rateLimit.ts';
+
+export const recurringRouter = new Hono();
+
+// Supported chains for recurring payments (same as Juice spends)
+const SUPPORTED_CHAINS = [1, 10, 42161, 8453] as const;
+
+function toResponse(rp: RecurringPayment) {
+  return {
+    id: rp.id,
+    projectId: rp.projectId,
+    chainId: rp.chainId,
+    beneficiaryAddress: rp.beneficiaryAddress,
+    memo: rp.memo,
+    amount: rp.amount,
+    interval: rp.interval,
+    fundingSource: rp.fundingSource,
+    status: rp.status,
+    pauseReason: rp.pauseReason,
+    nextRunAt: rp.nextRunAt?.toISOString() ?? null,
+    lastRunAt: rp.lastRunAt?.toISOString() ?? null,
+    createdAt: rp.createdAt.toISOString(),
+  };
+}
+
+function getStripe(): Stripe | null {
+  const config = getConfig();
+  try {
+    validateConfigForStripe(config);
+  } catch {
+    return null;
+  }
+  return new Stripe(config.stripeSecretKey);
+}
+
+// ============================================================================
+// Schedules
+// ============================================================================
+
+// POST /api/recurring - Create a recurring payment
+const CreateRecurringSchema = z.object({
+  projectId: z.number().int().positive(),
+  chainId: z.number().int().refine(
+    (val): val is (typeof SUPPORTED_CHAINS)[number] =>
+      SUPPORTED_CHAINS.includes(val as (typeof SUPPORTED_CHAINS)[number]),
+    { message: 'Unsupported chain. Supported: mainnet (1), optimism (10), arbitrum (42161), base (8453)' }
+  ).optional(),
+  beneficiaryAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+  memo: z.string().max(500).optional(),
+  amount: z.number().min(1).max(10000),
+  interval: z.enum(['weekly', 'monthly']),
+  fundingSource: z.enum(['juice', 'stripe']),
+});
+
+recurringRouter.post(
+  '/',
+  requireAuth,
+  rateLimitByUser('recurringPayment'),
+  zValidator('json', CreateRecurringSchema),
+  async (c) => {
+    const user = c.get('user');
+    const body = c.req.valid('json');
+
+    let stripe: Stripe | null = null;
+    if (body.fundingSource === 'stripe') {
+      stripe = getStripe();
+      if (!stripe) {
+        return c.json({ success: false, error: 'Payments not configured' }, 503);
+      }
+    }
+
+    try {
+      const recurring = await createRecurringPayment({
+        userId: user.id,
+        ...body,
+      });
+
+      if (!stripe) {
+        return c.json({ success: true, data: { recurringPayment: toResponse(recurring) } });
+      }
+
+      // Stripe bills the card each period; invoice.paid settles to the project
+      const session = await stripe.checkout.sessions.create({
+        mode: 'subscription',
+        ui_mode: 'embedded',
+        customer_email: user.email,
+        line_items: [
+          {
+            price_data: {
+              currency: 'usd',
+              product_data: {
+                name: `Recurring support for project #${body.projectId}`,
+              },
+              unit_amount: Math.round(body.amount * 100),
+              recurring: { interval: body.interval === 'weekly' ? 'week' : 'month' },
+            },
+            quantity: 1,
+          },
+        ],
+        metadata: {
+          type: 'recurring_payment',
+          recurringPaymentId: recurring.id,
+          userId: user.id,
+        },
+        subscription_data: {
+          metadata: {
+            type: 'recurring_payment',
+            recurringPaymentId: recurring.id,
+          },
+        },
+        return_url: `${c.req.header('origin') || 'https://juicy.vision'}/recurring/complete?session_id={CHECKOUT_SESSION_ID}`,
+      });
+
+      await attachStripeCheckoutSession(recurring.id, session.id);
+
+      return c.json({
+        success: true,
+        data: {
+          recurringPayment: toResponse(recurring),
+          clientSecret: session.client_secret,
+          sessionId: session.id,
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create recurring payment';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// GET /api/recurring - Get user's recurring payments
+recurringRouter.get('/', requireAuth, async (c) => {
+  const user = c.get('user');
+
+  try {
+    const recurring = await getUserRecurringPayments(user.id);
+
+    return c.json({
+      success: true,
+      data: recurring.map(toResponse),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get recurring payments';
+    return c.json({ success: false, error: message }, 500);
+  }
+});
+
+// GET /api/recurring/:id/runs - Get payment history for a schedule
+recurringRouter.get('/:id/runs', requireAuth, async (c) => {
+  const user = c.get('user');
+  const recurringPaymentId = c.req.param('id');
+
+  try {
+    const runs = await getRecurringPaymentRuns(recurringPaymentId, user.id);
+
+    return c.json({
+      success: true,
+      data: runs.map(r => ({
+        id: r.id,
+        amount: r.amount,
+        status: r.status,
+        paymentStatus: r.paymentStatus,
+        txHash: r.txHash,
+        errorMessage: r.errorMessage,
+        createdAt: r.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get payment history';
+    return c.json({ success: false, error: message }, 500);
+  }
+});
+
+// ============================================================================
+// Pause / Resume / Cancel
+// ============================================================================
+
+// POST /api/recurring/:id/pause - Pause a recurring payment
+recurringRouter.post('/:id/pause', requireAuth, async (c) => {
+  const user = c.get('user');
+  const recurringPaymentId = c.req.param('id');
+
+  try {
+    const recurring = await getRecurringPayment(recurringPaymentId, user.id);
+    if (!recurring) {
+      return c.json({ success: false, error: 'Recurring payment not found' }, 404);
+    }
+
+    if (recurring.stripeSubscriptionId) {
+      const stripe = getStripe();
+      if (!stripe) {
+        return c.json({ success: false, error: 'Payments not configured' }, 503);
+      }
+      // Void invoices while paused rather than collecting later
+      await stripe.subscriptions.update(recurring.stripeSubscriptionId, {
+        pause_collection: { behavior: 'void' },
+      });
+    }
+
+    await pauseRecurringPayment(recurringPaymentId, user.id);
+    return c.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Pause failed';
+    return c.json({ success: false, error: message }, 400);
+  }
+});
+
+// POST /api/recurring/:id/resume - Resume a paused recurring payment
+recurringRouter.post('/:id/resume', requireAuth, async (c) => {
+  const user = c.get('user');
+  const recurringPaymentId = c.req.param('id');
+
+  try {
+    const recurring = await getRecurringPayment(recurringPaymentId, user.id);
+    if (!recurring) {
+      return c.json({ success: false, error: 'Recurring payment not found' }, 404);
+    }
+
+    if (recurring.stripeSubscriptionId) {
+      const stripe = getStripe();
+      if (!stripe) {
+        return c.json({ success: false, error: 'Payments not configured' }, 503);
+      }
+      await stripe.subscriptions.update(recurring.stripeSubscriptionId, {
+        pause_collection: '',
+      });
+    }
+
+    await resumeRecurringPayment(recurringPaymentId, user.id);
+    return c.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Resume failed';
+    return c.json({ success: false, error: message }, 400);
+  }
+});
+
+// DELETE /api/recurring/:id - Cancel a recurring payment
+recurringRouter.delete('/:id', requireAuth, async (c) => {
+  const user = c.get('user');
+  const recurringPaymentId = c.req.param('id');
+
+  try {
+    const recurring = await getRecurringPayment(recurringPaymentId, user.id);
+    if (!recurring) {
+      return c.json({ success: false, error: 'Recurring payment not found' }, 404);
+    }
+
+    if (recurring.stripeSubscriptionId && recurring.status !== 'cancelled') {
+      const stripe = getStripe();
+      if (!stripe) {
+        return c.json({ success: false, error: 'Payments not configured' }, 503);
+      }
+      await stripe.subscriptions.cancel(recurring.stripeSubscriptionId);
+    }
+
+    await cancelRecurringPayment(recurringPaymentId, user.id);
+    return c.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Cancel failed';
+    return c.json({ success: false, error: message }, 400);
+  }
+});
@@ -14,52 +14,59 @@ import {
   markPurchaseDisputed as markJuicePurchaseDisputed,
   markPurchaseRefunded as markJuicePurchaseRefunded,
 } from '../services/juice.ts';
+import {
+  assessPaymentRisk,
+  type RadarSignals,
+} from '../services/riskScore.ts';
+import {
+  activateStripeSubscription,
+  getRecurringPaymentBySubscription,
+  markSubscriptionCancelled,
+  recordStripeInvoiceRun,
+  type RecurringPayment,
+} from '../services/recurringPayments.ts';
 
 export const stripeWebhookRouter = new Hono();
 
-// Risk score thresholds for settlement delay
-// Stripe Radar risk_score ranges 0-100 (higher = riskier)
-const RISK_THRESHOLDS = {
-  IMMEDIATE: 20,     // 0-20: settle immediately
-  SHORT_DELAY: 40,   // 21-40: 7 days
-  MEDIUM_DELAY: 60,  // 41-60: 30 days
-  LONG_DELAY: 80,    // 61-80: 60 days
-  MAX_DELAY: 100,    // 81-100: 120 days
-};
-
 /**
- * Calculate settlement delay in days based on Stripe Radar risk score
- * Lower risk = faster settlement, higher risk = longer delay
+ * The payment intent's charge, fetched if it wasn't expanded
  */
-export function calculateSettlementDelayDays(riskScore: number): number {
-  if (riskScore <= RISK_THRESHOLDS.IMMEDIATE) {
-    return 0; // Immediate settlement
-  }
-  if (riskScore <= RISK_THRESHOLDS.SHORT_DELAY) {
-    return 7;
-  }
-  if (riskScore <= RISK_THRESHOLDS.MEDIUM_DELAY) {
-    return 30;
+async function getLatestCharge(
+  stripe: Stripe,
+  paymentIntent: Stripe.PaymentIntent
+): Promise<Stripe.Charge | null> {
+  if (typeof paymentIntent.latest_charge !== 'string') {
+    return paymentIntent.latest_charge ?? null;
   }
-  if (riskScore <= RISK_THRESHOLDS.LONG_DELAY) {
-    return 60;
+
+  try {
+    return await stripe.charges.retrieve(paymentIntent.latest_charge);
+  } catch {
+    logger.warn('Failed to fetch charge for risk score', {
+      chargeId: paymentIntent.latest_charge,
+    });
+    return null;
   }
-  return 120; // Maximum protection
 }
 
 /**
- * Extract Stripe Radar risk score from payment intent or charge
+ * Stripe's fingerprint of the card, the same for every payment with it.
+ * Unlike a beneficiary address, the payer can't pick it.
  */
-function extractRiskScore(paymentIntent: Stripe.PaymentIntent): number {
-  // Radar risk score is on the charge's outcome
-  const charge = paymentIntent.latest_charge;
-
-  if (typeof charge === 'object' && charge?.outcome?.risk_score !== undefined) {
-    return charge.outcome.risk_score;
-  }
+function extractCardFingerprint(charge: Stripe.Charge | null): string | null {
+  return charge?.payment_method_details?.card?.fingerprint ?? null;
+}
 
-  // Default to medium-high risk if score unavailable
-  return 50;
+/**
+ * Extract the Radar outcome and card origin used by the payment risk model
+ */
+function extractRadarSignals(charge: Stripe.Charge | null): RadarSignals {
+  return {
+    riskScore: charge?.outcome?.risk_score ?? null,
+    riskLevel: charge?.outcome?.risk_level ?? null,
+    outcomeType: charge?.outcome?.type ?? null,
+    cardCountry: charge?.payment_method_details?.card?.country ?? null,
+  };
 }
 
 /**
@@ -146,6 +153,25 @@ stripeWebhookRouter.post('/', async (c) => {
         break;
       }
 
+      // Recurring payments (Stripe-funded subscriptions)
+      case 'invoice.paid': {
+        const invoice = event.data.object as Stripe.Invoice;
+        await handleRecurringInvoicePaid(stripe, invoice);
+        break;
+      }
+
+      case 'invoice.payment_failed': {
+        const invoice = event.data.object as Stripe.Invoice;
+        await handleRecurringInvoiceFailed(invoice);
+        break;
+      }
+
+      case 'customer.subscription.deleted': {
+        const subscription = event.data.object as Stripe.Subscription;
+        await markSubscriptionCancelled(subscription.id);
+        break;
+      }
+
       default:
         logger.debug('Unhandled webhook event type', { type: event.type });
     }
@@ -173,6 +199,17 @@ async function handleCheckoutSessionCompleted(
 ): Promise<void> {
   const metadata = session.metadata || {};
 
+  // Recurring payment checkout - the subscription now exists
+  if (metadata.type === 'recurring_payment') {
+    if (metadata.recurringPaymentId && typeof session.subscription === 'string') {
+      await activateStripeSubscription({
+        recurringPaymentId: metadata.recurringPaymentId,
+        stripeSubscriptionId: session.subscription,
+      });
+    }
+    return;
+  }
+
   // Only handle Pay Credits purchases from Checkout Sessions
   // Support both old 'juice_purchase' and new 'pay_credits_purchase' types
   if (metadata.type !== 'juice_purchase' && metadata.type !== 'pay_credits_purchase') {
@@ -205,30 +242,38 @@ async function handleCheckoutSessionCompleted(
     expand: ['latest_charge'],
   });
 
-  // Get risk score from charge
-  let riskScore = 50; // Default medium risk
-  let riskLevel: string | undefined;
-
-  if (typeof paymentIntent.latest_charge === 'object' && paymentIntent.latest_charge) {
-    riskScore = paymentIntent.latest_charge.outcome?.risk_score ?? 50;
-    riskLevel = paymentIntent.latest_charge.outcome?.risk_level;
-  }
-
-  const delayDays = calculateSettlementDelayDays(riskScore);
   const fiatAmount = (session.amount_total || 0) / 100;
 
   // Get credits amount and credit rate from metadata
   const creditsAmount = creditsAmountStr ? parseFloat(creditsAmountStr) : fiatAmount;
   const creditRate = metadata.creditRate ? parseFloat(metadata.creditRate) : undefined;
+  const currency = (session.currency || 'usd').toUpperCase();
+  const fxRate = metadata.fxRate ? parseFloat(metadata.fxRate) : undefined;
+
+  // Same risk model as card payments to projects
+  const charge = await getLatestCharge(stripe, paymentIntent);
+  const risk = await assessPaymentRisk({
+    userId: metadata.userId,
+    beneficiaryAddress: null,
+    cardFingerprint: extractCardFingerprint(charge),
+    amountUsd: Math.round((fiatAmount / (fxRate ?? 1)) * 100) / 100,
+    radar: extractRadarSignals(charge),
+  });
+  const riskScore = risk.score;
+  const riskLevel = charge?.outcome?.risk_level ?? undefined;
+  const delayDays = risk.delayDays;
 
   logger.info('Processing Pay Credits purchase from Checkout Session', {
     sessionId: session.id,
     paymentIntentId,
     userId: metadata.userId,
     fiatAmount,
+    currency,
+    fxRate,
     creditsAmount,
     creditRate,
     riskScore,
+    radarRiskScore: risk.radarScore,
     riskLevel,
     delayDays,
   });
@@ -243,6 +288,8 @@ async function handleCheckoutSessionCompleted(
     stripePaymentIntentId: paymentIntentId,
     stripeChargeId: chargeId,
     fiatAmount,
+    currency,
+    fxRate,
     juiceAmount: creditsAmount,
     creditRate,
     riskScore,
@@ -309,38 +356,37 @@ async function handlePayCreditsPurchaseSucceeded(
     return;
   }
 
-  // Get risk score
-  let riskScore = extractRiskScore(paymentIntent);
-  let riskLevel: string | undefined;
-
-  if (typeof paymentIntent.latest_charge === 'string') {
-    try {
-      const charge = await stripe.charges.retrieve(paymentIntent.latest_charge);
-      riskScore = charge.outcome?.risk_score ?? 50;
-      riskLevel = charge.outcome?.risk_level;
-    } catch {
-      logger.warn('Failed to fetch charge for risk score', {
-        chargeId: paymentIntent.latest_charge,
-      });
-    }
-  } else if (paymentIntent.latest_charge) {
-    riskLevel = paymentIntent.latest_charge.outcome?.risk_level;
-  }
-
-  const delayDays = calculateSettlementDelayDays(riskScore);
   const fiatAmount = paymentIntent.amount / 100;
 
   // Get credits amount and credit rate from metadata
   const creditsAmount = parseFloat(creditsAmountStr);
   const creditRate = metadata.creditRate ? parseFloat(metadata.creditRate) : undefined;
+  const currency = paymentIntent.currency.toUpperCase();
+  const fxRate = metadata.fxRate ? parseFloat(metadata.fxRate) : undefined;
+
+  // Same risk model as card payments to projects
+  const charge = await getLatestCharge(stripe, paymentIntent);
+  const risk = await assessPaymentRisk({
+    userId: metadata.userId,
+    beneficiaryAddress: null,
+    cardFingerprint: extractCardFingerprint(charge),
+    amountUsd: Math.round((fiatAmount / (fxRate ?? 1)) * 100) / 100,
+    radar: extractRadarSignals(charge),
+  });
+  const riskScore = risk.score;
+  const riskLevel = charge?.outcome?.risk_level ?? undefined;
+  const delayDays = risk.delayDays;
 
   logger.info('Processing Pay Credits purchase', {
     paymentIntentId: paymentIntent.id,
     userId: metadata.userId,
     fiatAmount,
+    currency,
+    fxRate,
     creditsAmount,
     creditRate,
     riskScore,
+    radarRiskScore: risk.radarScore,
     riskLevel,
     delayDays,
   });
@@ -353,6 +399,8 @@ async function handlePayCreditsPurchaseSucceeded(
       ? paymentIntent.latest_charge
       : paymentIntent.latest_charge?.id,
     fiatAmount,
+    currency,
+    fxRate,
     juiceAmount: creditsAmount,
     creditRate,
     riskScore,
@@ -399,28 +447,40 @@ async function handleDirectPaymentSucceeded(
     return;
   }
 
-  // Expand charge to get risk score if not already expanded
-  let riskScore = extractRiskScore(paymentIntent);
+  await createRiskAssessedPayment(stripe, paymentIntent, paymentData);
+}
 
-  if (typeof paymentIntent.latest_charge === 'string') {
-    // Charge not expanded, fetch it
-    try {
-      const charge = await stripe.charges.retrieve(paymentIntent.latest_charge);
-      riskScore = charge.outcome?.risk_score ?? 50;
-    } catch {
-      logger.warn('Failed to fetch charge for risk score', {
-        chargeId: paymentIntent.latest_charge,
-      });
-    }
-  }
+/**
+ * Score a successful card payment, record it for settlement to the project,
+ * and settle immediately when low risk. Returns the pending payment ID.
+ */
+async function createRiskAssessedPayment(
+  stripe: Stripe,
+  paymentIntent: Stripe.PaymentIntent,
+  paymentData: NonNullable<ReturnType<typeof extractPaymentMetadata>>
+): Promise<string> {
+  // Expand charge to get Radar outcome if not already expanded
+  const charge = await getLatestCharge(stripe, paymentIntent);
+  const cardFingerprint = extractCardFingerprint(charge);
 
-  const delayDays = calculateSettlementDelayDays(riskScore);
   const amountCents = paymentIntent.amount;
   const amountUsd = amountCents / 100;
 
+  // Combine Radar with account, history, geo and size signals
+  const risk = await assessPaymentRisk({
+    userId: paymentData.userId || null,
+    beneficiaryAddress: paymentData.beneficiaryAddress,
+    cardFingerprint,
+    amountUsd,
+    radar: extractRadarSignals(charge),
+  });
+  const riskScore = risk.score;
+  const delayDays = risk.delayDays;
+
   logger.info('Processing payment with risk-based settlement', {
     paymentIntentId: paymentIntent.id,
     riskScore,
+    radarRiskScore: risk.radarScore,
     delayDays,
     amountUsd,
     projectId: paymentData.projectId,
@@ -440,7 +500,10 @@ async function handleDirectPaymentSucceeded(
     chainId: paymentData.chainId,
     memo: paymentData.memo,
     beneficiaryAddress: paymentData.beneficiaryAddress,
+    cardFingerprint,
     riskScore,
+    radarRiskScore: risk.radarScore,
+    riskFactors: risk.factors,
     settlementDelayDays: delayDays,
   });
 
@@ -464,6 +527,110 @@ async function handleDirectPaymentSucceeded(
       });
     }
   }
+
+  return paymentId;
+}
+
+/**
+ * Subscription ID of an invoice raised by a Stripe subscription
+ */
+function getInvoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+  const subscription = invoice.parent?.subscription_details?.subscription;
+  if (!subscription) return null;
+  return typeof subscription === 'string' ? subscription : subscription.id;
+}
+
+/**
+ * Schedule an invoice's subscription pays for. The first invoice can arrive
+ * before checkout.session.completed has linked the subscription, so fall back
+ * to the schedule id recurring.ts puts in the subscription metadata and
+ * activate the schedule here.
+ */
+async function getInvoiceRecurringPayment(
+  invoice: Stripe.Invoice,
+  subscriptionId: string
+): Promise<RecurringPayment | null> {
+  const recurring = await getRecurringPaymentBySubscription(subscriptionId);
+  if (recurring) return recurring;
+
+  const recurringPaymentId = invoice.parent?.subscription_details?.metadata?.recurringPaymentId;
+  if (!recurringPaymentId) return null;
+
+  await activateStripeSubscription({ recurringPaymentId, stripeSubscriptionId: subscriptionId });
+  return await getRecurringPaymentBySubscription(subscriptionId);
+}
+
+/**
+ * Handle a paid recurring payment invoice - settle the period to the project
+ * through the same risk-scored pipeline as one-off card payments
+ */
+async function handleRecurringInvoicePaid(stripe: Stripe, invoice: Stripe.Invoice): Promise<void> {
+  const subscriptionId = getInvoiceSubscriptionId(invoice);
+  if (!subscriptionId || !invoice.id) return;
+
+  const recurring = await getInvoiceRecurringPayment(invoice, subscriptionId);
+  if (!recurring) {
+    logger.debug('Invoice is not for a recurring payment, skipping', { invoiceId: invoice.id });
+    return;
+  }
+
+  // Find the PaymentIntent that paid this invoice
+  const payments = await stripe.invoicePayments.list({ invoice: invoice.id, limit: 1 });
+  const paymentIntentRef = payments.data[0]?.payment?.payment_intent;
+  if (!paymentIntentRef) {
+    logger.warn('Paid recurring invoice has no payment intent', { invoiceId: invoice.id });
+    return;
+  }
+
+  const paymentIntent = await stripe.paymentIntents.retrieve(
+    typeof paymentIntentRef === 'string' ? paymentIntentRef : paymentIntentRef.id,
+    { expand: ['latest_charge'] }
+  );
+
+  logger.info('Processing recurring payment invoice', {
+    invoiceId: invoice.id,
+    recurringPaymentId: recurring.id,
+    paymentIntentId: paymentIntent.id,
+  });
+
+  const paymentId = await createRiskAssessedPayment(stripe, paymentIntent, {
+    projectId: recurring.projectId,
+    chainId: recurring.chainId,
+    beneficiaryAddress: recurring.beneficiaryAddress,
+    memo: recurring.memo ?? undefined,
+    userId: recurring.userId,
+  });
+
+  await recordStripeInvoiceRun({
+    recurringPaymentId: recurring.id,
+    stripeInvoiceId: invoice.id,
+    amount: invoice.amount_paid / 100,
+    pendingFiatPaymentId: paymentId,
+  });
+}
+
+/**
+ * Record a failed recurring invoice in the schedule's history.
+ * Stripe retries the charge itself and cancels the subscription if retries run out.
+ */
+async function handleRecurringInvoiceFailed(invoice: Stripe.Invoice): Promise<void> {
+  const subscriptionId = getInvoiceSubscriptionId(invoice);
+  if (!subscriptionId || !invoice.id) return;
+
+  const recurring = await getInvoiceRecurringPayment(invoice, subscriptionId);
+  if (!recurring) return;
+
+  await recordStripeInvoiceRun({
+    recurringPaymentId: recurring.id,
+    stripeInvoiceId: invoice.id,
+    amount: invoice.amount_due / 100,
+    errorMessage: invoice.last_finalization_error?.message ?? 'Card payment failed',
+  });
+
+  logger.warn('Recurring payment invoice failed', {
+    invoiceId: invoice.id,
+    recurringPaymentId: recurring.id,
+  });
 }
 
 /**
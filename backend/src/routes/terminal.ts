@@ -26,13 +26,34 @@ import {
   cancelSession,
   payWithJuice,
   getMerchantStats,
+  getSettlementReport,
   getWalletPaymentParams,
   startWalletPayment,
   confirmWalletPayment,
   failWalletPayment,
+  refundSession,
+  confirmWalletRefund,
+  failWalletRefund,
+  claimOfflineSession,
+  reconcileOfflineSessions,
+  setOfflineSigningKey,
   type TerminalDevice,
+  type SessionRefund,
 } from '../services/terminal.ts';
+import {
+  WEBHOOK_EVENTS,
+  createWebhook,
+  getMerchantWebhooks,
+  updateWebhook,
+  rotateWebhookSecret,
+  deleteWebhook,
+  getWebhookDeliveries,
+  retryWebhookDelivery,
+  type MerchantWebhook,
+  type WebhookDelivery,
+} from '../services/webhooks.ts';
 import { getOrCreateSmartAccount } from '../services/smartAccounts.ts';
+import { ValidationError } from '../errors/AppError.ts';
 
 export const terminalRouter = new Hono();
 
@@ -106,6 +127,7 @@ const RegisterDeviceSchema = z.object({
   projectId: z.number().int().positive(),
   chainId: z.number().int().positive().optional(),
   acceptedTokens: z.array(z.string()).optional(),
+  tipsEnabled: z.boolean().optional(),
 });
 
 terminalRouter.post(
@@ -124,6 +146,7 @@ terminalRouter.post(
         projectId: data.projectId,
         chainId: data.chainId,
         acceptedTokens: data.acceptedTokens,
+        tipsEnabled: data.tipsEnabled,
       });
 
       return c.json({
@@ -186,6 +209,7 @@ const UpdateDeviceSchema = z.object({
   chainId: z.number().int().positive().optional(),
   acceptedTokens: z.array(z.string()).optional(),
   isActive: z.boolean().optional(),
+  tipsEnabled: z.boolean().optional(),
 });
 
 terminalRouter.patch(
@@ -270,11 +294,29 @@ terminalRouter.get('/stats', requireAuth, async (c) => {
 // Payment Sessions - Terminal Operations (requires terminal API key)
 // ============================================================================
 
+// GET /api/terminal/device - Get the authenticated terminal's own device
+terminalRouter.get('/device', requireTerminalAuth, (c) => {
+  const device = c.get('terminalDevice')!;
+  return c.json({
+    success: true,
+    data: {
+      device: formatDevice(device),
+    },
+  });
+});
+
 // POST /api/terminal/session - Create a new payment session
+const LineItemSchema = z.object({
+  name: z.string().min(1).max(100),
+  quantity: z.number().int().positive().max(999),
+  unitPriceUsd: z.number().positive().max(10000),
+});
+
 const CreateSessionSchema = z.object({
   amountUsd: z.number().positive().max(10000), // Max $10,000
   token: z.string().optional(), // Token address
   tokenSymbol: z.string().optional(), // e.g., "ETH", "USDC"
+  lineItems: z.array(LineItemSchema).max(100).optional(), // Must sum to amountUsd
 });
 
 terminalRouter.post(
@@ -291,6 +333,7 @@ terminalRouter.post(
         amountUsd: data.amountUsd,
         token: data.token,
         tokenSymbol: data.tokenSymbol,
+        lineItems: data.lineItems,
       });
 
       return c.json({
@@ -364,6 +407,7 @@ terminalRouter.get('/session/:id/status', async (c) => {
         status: session.status,
         txHash: session.txHash,
         tokensIssued: session.tokensIssued,
+        tipUsd: session.tipUsd,
         completedAt: session.completedAt?.toISOString() || null,
       },
     });
@@ -373,13 +417,107 @@ terminalRouter.get('/session/:id/status', async (c) => {
   }
 });
 
+// ============================================================================
+// Offline Sessions (signed by the terminal while it had no connection)
+// ============================================================================
+
+const OfflineSessionSchema = z.object({
+  id: z.string().uuid(),
+  deviceId: z.string().uuid(),
+  amountUsd: z.number().positive().max(10000),
+  lineItems: z.array(LineItemSchema).max(100).nullable(),
+  nonce: z.string().regex(/^[0-9a-f]{32,64}$/),
+  createdAt: z.number().int().positive(),
+  expiresAt: z.number().int().positive(),
+  signature: z.string().regex(/^[0-9a-f]{128}$/), // ECDSA P-256, raw r || s
+});
+
+// PUT /api/terminal/device/offline-key - Pair the key the terminal signs offline sessions with
+const OfflineKeySchema = z.object({
+  publicKey: z.string().regex(/^04[0-9a-fA-F]{128}$/), // Uncompressed P-256 point
+});
+
+terminalRouter.put(
+  '/device/offline-key',
+  requireTerminalAuth,
+  zValidator('json', OfflineKeySchema),
+  async (c) => {
+    const device = c.get('terminalDevice')!;
+    const { publicKey } = c.req.valid('json');
+
+    try {
+      await setOfflineSigningKey(device.id, publicKey);
+      return c.json({ success: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to pair signing key';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// POST /api/terminal/session/offline - Claim an offline session (consumer, from the QR/NFC link)
+terminalRouter.post(
+  '/session/offline',
+  zValidator('json', OfflineSessionSchema),
+  async (c) => {
+    const payload = c.req.valid('json');
+
+    try {
+      const session = await claimOfflineSession(payload);
+      return c.json({
+        success: true,
+        data: {
+          session: formatSession(session),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to claim session';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// POST /api/terminal/session/offline/sync - Reconcile the terminal's offline queue
+const OfflineSyncSchema = z.object({
+  sessions: z.array(z.object({
+    payload: OfflineSessionSchema,
+    cancelled: z.boolean().optional(),
+  })).min(1).max(100),
+});
+
+terminalRouter.post(
+  '/session/offline/sync',
+  requireTerminalAuth,
+  zValidator('json', OfflineSyncSchema),
+  async (c) => {
+    const device = c.get('terminalDevice')!;
+    const { sessions } = c.req.valid('json');
+
+    try {
+      const results = await reconcileOfflineSessions(device.id, sessions);
+      return c.json({
+        success: true,
+        data: {
+          results,
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to sync sessions';
+      return c.json({ success: false, error: message }, 500);
+    }
+  }
+);
+
 // ============================================================================
 // Payment Execution (requires user auth - consumer side)
 // ============================================================================
 
 // POST /api/terminal/session/:id/pay/juice - Pay with Juice credits
+const TipSchema = z.number().min(0).max(1000);
+
 const PayWithJuiceSchema = z.object({
   memo: z.string().max(256).optional(),
+  tipUsd: TipSchema.optional(),
 });
 
 terminalRouter.post(
@@ -390,7 +528,7 @@ terminalRouter.post(
   async (c) => {
     const user = c.get('user');
     const sessionId = c.req.param('id');
-    const { memo } = c.req.valid('json');
+    const { memo, tipUsd } = c.req.valid('json');
 
     try {
       // Get user's smart account address as the beneficiary
@@ -408,6 +546,7 @@ terminalRouter.post(
         consumerId: user.id,
         beneficiaryAddress: smartAccountAddress,
         memo,
+        tipUsd,
       });
 
       return c.json({
@@ -448,6 +587,7 @@ terminalRouter.get('/session/:id/pay/wallet', async (c) => {
 // POST /api/terminal/session/:id/pay/wallet/start - Consumer started wallet payment
 const StartWalletPaymentSchema = z.object({
   payerAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+  tipUsd: TipSchema.optional(),
 });
 
 terminalRouter.post(
@@ -455,10 +595,10 @@ terminalRouter.post(
   zValidator('json', StartWalletPaymentSchema),
   async (c) => {
     const sessionId = c.req.param('id');
-    const { payerAddress } = c.req.valid('json');
+    const { payerAddress, tipUsd } = c.req.valid('json');
 
     try {
-      const session = await startWalletPayment(sessionId, payerAddress);
+      const session = await startWalletPayment(sessionId, payerAddress, tipUsd);
       if (!session) {
         return c.json({ success: false, error: 'Session not available for payment' }, 400);
       }
@@ -533,6 +673,118 @@ terminalRouter.post(
   }
 );
 
+// ============================================================================
+// Refunds (merchant or the session's terminal)
+// ============================================================================
+
+// POST /api/terminal/session/:id/refund - Refund part or all of a completed session
+const RefundSessionSchema = z.object({
+  amountUsd: z.number().positive().max(10000).optional(), // Defaults to full remaining amount
+  reason: z.string().max(256).optional(),
+  refundAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/).optional(),
+});
+
+terminalRouter.post(
+  '/session/:id/refund',
+  requireUserOrTerminalAuth,
+  zValidator('json', RefundSessionSchema),
+  async (c) => {
+    const sessionId = c.req.param('id');
+    const data = c.req.valid('json');
+    const terminalDevice = c.get('terminalDevice');
+    const merchantId = terminalDevice?.merchantId ?? c.get('user').id;
+
+    try {
+      const { session, refund } = await refundSession({
+        sessionId,
+        merchantId,
+        deviceId: terminalDevice?.id,
+        amountUsd: data.amountUsd,
+        reason: data.reason,
+        refundAddress: data.refundAddress,
+      });
+
+      return c.json({
+        success: true,
+        data: {
+          session: formatSession(session),
+          refund: formatRefund(refund),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Refund failed';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// POST /api/terminal/session/:id/refund/:refundId/confirm - Wallet refund sent on-chain
+const ConfirmWalletRefundSchema = z.object({
+  txHash: z.string().regex(/^0x[a-fA-F0-9]{64}$/),
+});
+
+terminalRouter.post(
+  '/session/:id/refund/:refundId/confirm',
+  requireUserOrTerminalAuth,
+  zValidator('json', ConfirmWalletRefundSchema),
+  async (c) => {
+    const sessionId = c.req.param('id');
+    const refundId = c.req.param('refundId');
+    const { txHash } = c.req.valid('json');
+    const merchantId = c.get('terminalDevice')?.merchantId ?? c.get('user').id;
+
+    try {
+      const result = await confirmWalletRefund(refundId, sessionId, merchantId, txHash);
+      if (!result) {
+        return c.json({ success: false, error: 'Refund not found or not pending' }, 404);
+      }
+
+      return c.json({
+        success: true,
+        data: {
+          session: formatSession(result.session),
+          refund: formatRefund(result.refund),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to confirm refund';
+      return c.json({ success: false, error: message }, 500);
+    }
+  }
+);
+
+// POST /api/terminal/session/:id/refund/:refundId/fail - Wallet refund was not sent
+const FailWalletRefundSchema = z.object({
+  errorMessage: z.string().optional(),
+});
+
+terminalRouter.post(
+  '/session/:id/refund/:refundId/fail',
+  requireUserOrTerminalAuth,
+  zValidator('json', FailWalletRefundSchema),
+  async (c) => {
+    const sessionId = c.req.param('id');
+    const refundId = c.req.param('refundId');
+    const { errorMessage } = c.req.valid('json');
+    const merchantId = c.get('terminalDevice')?.merchantId ?? c.get('user').id;
+
+    try {
+      const refund = await failWalletRefund(refundId, sessionId, merchantId, errorMessage);
+      if (!refund) {
+        return c.json({ success: false, error: 'Refund not found or not pending' }, 404);
+      }
+
+      return c.json({
+        success: true,
+        data: { refund: formatRefund(refund) },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update refund';
+      return c.json({ success: false, error: message }, 500);
+    }
+  }
+);
+
 // ============================================================================
 // Merchant Transaction History
 // ============================================================================
@@ -540,7 +792,18 @@ terminalRouter.post(
 // GET /api/terminal/transactions - Get merchant's transaction history
 const TransactionsQuerySchema = z.object({
   limit: z.coerce.number().int().positive().max(100).optional().default(50),
-  status: z.enum(['pending', 'paying', 'completed', 'failed', 'expired', 'cancelled']).optional(),
+  status: z
+    .enum([
+      'pending',
+      'paying',
+      'completed',
+      'failed',
+      'expired',
+      'cancelled',
+      'partially_refunded',
+      'refunded',
+    ])
+    .optional(),
 });
 
 terminalRouter.get(
@@ -566,6 +829,41 @@ terminalRouter.get(
   }
 );
 
+// GET /api/terminal/reports/settlement - Settlement report for a date range
+const SettlementReportQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // YYYY-MM-DD, inclusive
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // YYYY-MM-DD, inclusive
+  timezone: z.string().min(1).max(64).optional().default('UTC'),
+});
+
+terminalRouter.get(
+  '/reports/settlement',
+  requireAuth,
+  zValidator('query', SettlementReportQuerySchema),
+  async (c) => {
+    const user = c.get('user');
+    const params = c.req.valid('query');
+
+    try {
+      const report = await getSettlementReport(user.id, params);
+      return c.json({
+        success: true,
+        data: {
+          ...report,
+          generatedAt: report.generatedAt.toISOString(),
+        },
+      });
+    } catch (error) {
+      // Only a bad range or timezone is the caller's fault; anything else stays in the logs
+      if (error instanceof ValidationError) {
+        return c.json({ success: false, error: error.message }, 400);
+      }
+      console.error('[Terminal] Settlement report failed:', error);
+      return c.json({ success: false, error: 'Failed to build settlement report' }, 500);
+    }
+  }
+);
+
 // GET /api/terminal/devices/:id/sessions - Get device's session history
 const DeviceSessionsQuerySchema = z.object({
   limit: z.coerce.number().int().positive().max(100).optional().default(50),
@@ -611,6 +909,191 @@ terminalRouter.get(
   }
 );
 
+// ============================================================================
+// Webhooks (requires merchant auth)
+// ============================================================================
+
+const WebhookEventsSchema = z.array(z.enum(WEBHOOK_EVENTS)).min(1);
+
+// POST /api/terminal/webhooks - Register a webhook endpoint
+const CreateWebhookSchema = z.object({
+  url: z.string().url().max(2048),
+  events: WebhookEventsSchema.optional(), // Defaults to all events
+  description: z.string().max(255).optional(),
+});
+
+terminalRouter.post(
+  '/webhooks',
+  requireAuth,
+  zValidator('json', CreateWebhookSchema),
+  async (c) => {
+    const user = c.get('user');
+    const data = c.req.valid('json');
+
+    try {
+      const { webhook, secret } = await createWebhook({
+        merchantId: user.id,
+        url: data.url,
+        events: data.events,
+        description: data.description,
+      });
+
+      return c.json({
+        success: true,
+        data: {
+          webhook: formatWebhook(webhook),
+          secret, // Only returned once!
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create webhook';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// GET /api/terminal/webhooks - List merchant's webhook endpoints
+terminalRouter.get('/webhooks', requireAuth, async (c) => {
+  const user = c.get('user');
+
+  try {
+    const webhooks = await getMerchantWebhooks(user.id);
+    return c.json({
+      success: true,
+      data: {
+        webhooks: webhooks.map(formatWebhook),
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to list webhooks';
+    return c.json({ success: false, error: message }, 500);
+  }
+});
+
+// PATCH /api/terminal/webhooks/:id - Update a webhook endpoint
+const UpdateWebhookSchema = z.object({
+  url: z.string().url().max(2048).optional(),
+  events: WebhookEventsSchema.optional(),
+  description: z.string().max(255).optional(),
+  isActive: z.boolean().optional(),
+});
+
+terminalRouter.patch(
+  '/webhooks/:id',
+  requireAuth,
+  zValidator('json', UpdateWebhookSchema),
+  async (c) => {
+    const user = c.get('user');
+    const webhookId = c.req.param('id');
+    const updates = c.req.valid('json');
+
+    try {
+      const webhook = await updateWebhook(webhookId, user.id, updates);
+      if (!webhook) {
+        return c.json({ success: false, error: 'Webhook not found' }, 404);
+      }
+
+      return c.json({
+        success: true,
+        data: {
+          webhook: formatWebhook(webhook),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update webhook';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// POST /api/terminal/webhooks/:id/rotate-secret - Replace the signing secret
+terminalRouter.post('/webhooks/:id/rotate-secret', requireAuth, async (c) => {
+  const user = c.get('user');
+  const webhookId = c.req.param('id');
+
+  try {
+    const secret = await rotateWebhookSecret(webhookId, user.id);
+    if (!secret) {
+      return c.json({ success: false, error: 'Webhook not found' }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        secret, // Only returned once!
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to rotate secret';
+    return c.json({ success: false, error: message }, 500);
+  }
+});
+
+// DELETE /api/terminal/webhooks/:id - Delete a webhook endpoint
+terminalRouter.delete('/webhooks/:id', requireAuth, async (c) => {
+  const user = c.get('user');
+  const webhookId = c.req.param('id');
+
+  try {
+    const deleted = await deleteWebhook(webhookId, user.id);
+    if (!deleted) {
+      return c.json({ success: false, error: 'Webhook not found' }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to delete webhook';
+    return c.json({ success: false, error: message }, 500);
+  }
+});
+
+// GET /api/terminal/webhooks/:id/deliveries - Delivery log for an endpoint
+const WebhookDeliveriesQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(200).optional().default(50),
+});
+
+terminalRouter.get(
+  '/webhooks/:id/deliveries',
+  requireAuth,
+  zValidator('query', WebhookDeliveriesQuerySchema),
+  async (c) => {
+    const user = c.get('user');
+    const webhookId = c.req.param('id');
+    const { limit } = c.req.valid('query');
+
+    try {
+      const deliveries = await getWebhookDeliveries(webhookId, user.id, limit);
+      return c.json({
+        success: true,
+        data: {
+          deliveries: deliveries.map(formatWebhookDelivery),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to list deliveries';
+      return c.json({ success: false, error: message }, 500);
+    }
+  }
+);
+
+// POST /api/terminal/webhooks/deliveries/:id/retry - Retry a failed delivery now
+terminalRouter.post('/webhooks/deliveries/:id/retry', requireAuth, async (c) => {
+  const user = c.get('user');
+  const deliveryId = c.req.param('id');
+
+  try {
+    const retried = await retryWebhookDelivery(deliveryId, user.id);
+    if (!retried) {
+      return c.json({ success: false, error: 'Delivery not found or not failed' }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to retry delivery';
+    return c.json({ success: false, error: message }, 500);
+  }
+});
+
 // ============================================================================
 // Response Formatters
 // ============================================================================
@@ -624,6 +1107,7 @@ function formatDevice(device: TerminalDevice) {
     acceptedTokens: device.acceptedTokens,
     apiKeyPrefix: device.apiKeyPrefix,
     isActive: device.isActive,
+    tipsEnabled: device.tipsEnabled,
     lastSeenAt: device.lastSeenAt?.toISOString() || null,
     createdAt: device.createdAt.toISOString(),
   };
@@ -640,6 +1124,10 @@ function formatSession(session: {
   paymentMethod: string | null;
   txHash: string | null;
   tokensIssued: string | null;
+  lineItems: { name: string; quantity: number; unitPriceUsd: number }[] | null;
+  tipUsd: number;
+  refundedAmountUsd: number;
+  createdOffline: boolean;
   expiresAt: Date;
   completedAt: Date | null;
   createdAt: Date;
@@ -655,6 +1143,10 @@ function formatSession(session: {
     paymentMethod: session.paymentMethod,
     txHash: session.txHash,
     tokensIssued: session.tokensIssued,
+    lineItems: session.lineItems,
+    tipUsd: session.tipUsd,
+    refundedAmountUsd: session.refundedAmountUsd,
+    createdOffline: session.createdOffline,
     expiresAt: session.expiresAt.toISOString(),
     completedAt: session.completedAt?.toISOString() || null,
     createdAt: session.createdAt.toISOString(),
@@ -672,6 +1164,9 @@ function formatSessionWithDetails(session: {
   paymentMethod: string | null;
   txHash: string | null;
   tokensIssued: string | null;
+  lineItems: { name: string; quantity: number; unitPriceUsd: number }[] | null;
+  tipUsd: number;
+  refundedAmountUsd: number;
   expiresAt: Date;
   completedAt: Date | null;
   createdAt: Date;
@@ -679,6 +1174,7 @@ function formatSessionWithDetails(session: {
   merchantName: string;
   projectId: number;
   chainId: number;
+  tipsEnabled: boolean;
 }) {
   return {
     ...formatSession(session),
@@ -686,5 +1182,50 @@ function formatSessionWithDetails(session: {
     merchantName: session.merchantName,
     projectId: session.projectId,
     chainId: session.chainId,
+    tipsEnabled: session.tipsEnabled,
+  };
+}
+
+function formatRefund(refund: SessionRefund) {
+  return {
+    id: refund.id,
+    sessionId: refund.sessionId,
+    amountUsd: refund.amountUsd,
+    reason: refund.reason,
+    method: refund.method,
+    status: refund.status,
+    refundAddress: refund.refundAddress,
+    txHash: refund.txHash,
+    completedAt: refund.completedAt?.toISOString() || null,
+    createdAt: refund.createdAt.toISOString(),
+  };
+}
+
+function formatWebhook(webhook: MerchantWebhook) {
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    description: webhook.description,
+    events: webhook.events,
+    isActive: webhook.isActive,
+    createdAt: webhook.createdAt.toISOString(),
+    updatedAt: webhook.updatedAt.toISOString(),
+  };
+}
+
+function formatWebhookDelivery(delivery: WebhookDelivery) {
+  return {
+    id: delivery.id,
+    webhookId: delivery.webhookId,
+    eventId: delivery.eventId,
+    eventType: delivery.eventType,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.status === 'pending' ? delivery.nextAttemptAt.toISOString() : null,
+    lastAttemptAt: delivery.lastAttemptAt?.toISOString() || null,
+    responseStatus: delivery.responseStatus,
+    errorMessage: delivery.errorMessage,
+    deliveredAt: delivery.deliveredAt?.toISOString() || null,
+    createdAt: delivery.createdAt.toISOString(),
   };
 }
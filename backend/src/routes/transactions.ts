@@ -8,7 +8,10 @@ import {
   getTransactionsBySession,
   getTransactionsByUser,
 } from '../services/transactions.ts';
+import { getMember } from '../services/chat.ts';
+import { getUserSmartAccounts } from '../services/smartAccounts.ts';
 import { optionalAuth, requireAuth } from '../middleware/auth.ts';
+import { getPseudoAddress } from '../utils/crypto.ts';
 
 const transactionsRouter = new Hono();
 
@@ -18,6 +21,8 @@ const transactionsRouter = new Hono();
 
 const CreateTransactionSchema = z.object({
   sessionId: z.string().uuid().optional(),
+  // Chat the payment was started from (credited to its prompt experiment variant)
+  chatId: z.string().uuid().optional(),
   chainId: z.number().int().positive(),
   fromAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address'),
   toAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address'),
@@ -39,6 +44,36 @@ const UpdateTransactionSchema = z.object({
   }).optional(),
 });
 
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Whether the caller is an active member of the chat, by their smart account
+ * addresses or their anonymous session's pseudo-address. Only members may
+ * credit a payment to the chat's prompt experiment variant.
+ */
+async function isChatMember(
+  chatId: string,
+  userId: string | undefined,
+  sessionId: string | undefined
+): Promise<boolean> {
+  const addresses: string[] = [];
+  if (userId) {
+    const accounts = await getUserSmartAccounts(userId);
+    addresses.push(...accounts.map((account) => account.address));
+  }
+  if (sessionId?.startsWith('ses_')) {
+    addresses.push(await getPseudoAddress(sessionId));
+  }
+
+  for (const address of addresses) {
+    const member = await getMember(chatId, address);
+    if (member?.isActive) return true;
+  }
+  return false;
+}
+
 // =============================================================================
 // Routes
 // =============================================================================
@@ -53,9 +88,15 @@ transactionsRouter.post(
     const user = c.get('user');
 
     try {
+      // A chat the caller isn't in is dropped rather than failing the payment record
+      const chatId = data.chatId && await isChatMember(data.chatId, user?.id, c.req.header('X-Session-ID'))
+        ? data.chatId
+        : undefined;
+
       const transaction = await createTransaction({
         userId: user?.id,
         sessionId: data.sessionId,
+        chatId,
         chainId: data.chainId,
         fromAddress: data.fromAddress,
         toAddress: data.toAddress,
@@ -26,6 +26,13 @@ import {
   cancelTransfer,
   getUserPendingTransfers,
 } from '../services/smartAccounts.ts';
+import {
+  createSessionPermission,
+  getUserSessionPermissions,
+  revokeSessionPermission,
+  isPermissionActive,
+  type SessionPermission,
+} from '../services/sessionPermissions.ts';
 import { createRelayrBundle } from '../services/relayrBundle.ts';
 import type { Address } from 'viem';
 import { getConfig } from '../utils/config.ts';
@@ -194,6 +201,117 @@ walletRouter.post(
   }
 );
 
+// ============================================================================
+// Session Permissions (user-defined scopes for /wallet/execute)
+// ============================================================================
+
+function toPermissionResponse(p: SessionPermission) {
+  return {
+    id: p.id,
+    label: p.label,
+    chainIds: p.chainIds,
+    allowedCalls: p.allowedCalls,
+    dailyValueLimitWei: p.dailyValueLimitWei.toString(),
+    spentTodayWei: p.spentTodayWei.toString(),
+    dailyTokenLimits: p.dailyTokenLimits.map(limit => ({
+      token: limit.token,
+      dailyLimit: limit.dailyLimit.toString(),
+      spentToday: limit.spentToday.toString(),
+    })),
+    startsAt: p.startsAt.toISOString(),
+    expiresAt: p.expiresAt.toISOString(),
+    revokedAt: p.revokedAt?.toISOString() ?? null,
+    active: isPermissionActive(p),
+    createdAt: p.createdAt.toISOString(),
+  };
+}
+
+// GET /wallet/permissions - List the user's session permissions
+walletRouter.get('/permissions', requireAuth, async (c) => {
+  const user = c.get('user');
+
+  try {
+    const permissions = await getUserSessionPermissions(user.id);
+
+    return c.json({
+      success: true,
+      data: {
+        // Once any permission exists, /wallet/execute only allows matching calls
+        enforced: permissions.length > 0,
+        permissions: permissions.map(toPermissionResponse),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to get session permissions:', error);
+    const message = error instanceof Error ? error.message : 'Failed to get permissions';
+    return c.json({ success: false, error: message }, 500);
+  }
+});
+
+// POST /wallet/permissions - Grant a scoped session permission
+const SessionPermissionSchema = z.object({
+  label: z.string().min(1).max(100),
+  chainIds: z.array(z.number().int().positive()).max(10).optional(),
+  allowedCalls: z.array(z.object({
+    target: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+    // 4-byte selector or function signature, e.g. "pay(uint256,address,uint256,address,uint256,string,bytes)"
+    selector: z.string().max(500).nullable().optional(),
+  })).min(1),
+  dailyValueLimitWei: z.string().regex(/^\d+$/), // BigInt as string
+  // ERC-20 transfers, approvals and terminal payments need a limit for their token
+  dailyTokenLimits: z.array(z.object({
+    token: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+    dailyLimit: z.string().regex(/^\d+$/), // Base units
+  })).max(10).optional(),
+  startsAt: z.string().datetime().optional(),
+  expiresAt: z.string().datetime(),
+});
+
+walletRouter.post(
+  '/permissions',
+  requireAuth,
+  zValidator('json', SessionPermissionSchema),
+  async (c) => {
+    const user = c.get('user');
+    const body = c.req.valid('json');
+
+    try {
+      const permission = await createSessionPermission({
+        userId: user.id,
+        label: body.label,
+        chainIds: body.chainIds,
+        allowedCalls: body.allowedCalls,
+        dailyValueLimitWei: BigInt(body.dailyValueLimitWei),
+        dailyTokenLimits: body.dailyTokenLimits?.map(limit => ({
+          token: limit.token,
+          dailyLimit: BigInt(limit.dailyLimit),
+        })),
+        startsAt: body.startsAt ? new Date(body.startsAt) : undefined,
+        expiresAt: new Date(body.expiresAt),
+      });
+
+      return c.json({ success: true, data: toPermissionResponse(permission) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create permission';
+      return c.json({ success: false, error: message }, 400);
+    }
+  }
+);
+
+// DELETE /wallet/permissions/:id - Revoke a session permission
+walletRouter.delete('/permissions/:id', requireAuth, async (c) => {
+  const user = c.get('user');
+  const permissionId = c.req.param('id');
+
+  try {
+    await revokeSessionPermission(permissionId, user.id);
+    return c.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to revoke permission';
+    return c.json({ success: false, error: message }, 400);
+  }
+});
+
 // ============================================================================
 // Signing Key Storage (for passkey wallets - gasless signing)
 // ============================================================================
@@ -19,6 +19,7 @@ import { createPublicClient, http, parseUnits, formatUnits, type Address } from
 import { mainnet, optimism, base, arbitrum } from 'viem/chains';
 import { getConfig } from '../utils/config.ts';
 import { MODEL_COSTS, type ClaudeModel } from './claude.ts';
+import { checkBudgets, describeBudgetStatus, type BudgetStatus } from './aiBudgets.ts';
 
 // ============================================================================
 // Constants
@@ -120,20 +121,30 @@ export async function getAiBalanceStatus(chatId: string): Promise<AiBalanceStatu
 }
 
 /**
- * Check if chat has enough balance for an AI request
+ * Check if chat has enough balance and budget for an AI request
  *
- * Controlled by AI_FREE_MODE env var (default: true for beta)
+ * Budgets (see aiBudgets.ts) apply even in AI_FREE_MODE; the balance check
+ * is controlled by AI_FREE_MODE env var (default: true for beta)
  */
-export async function canInvokeAi(chatId: string): Promise<{
+export async function canInvokeAi(chatId: string, memberAddress?: string): Promise<{
   allowed: boolean;
   reason?: string;
   balance?: AiBalanceStatus;
+  budgets?: BudgetStatus[];
+  warnings?: string[];
 }> {
   const config = getConfig();
 
+  const budgets = memberAddress ? await checkBudgets(chatId, memberAddress) : [];
+  const exceeded = budgets.find(b => b.state === 'exceeded');
+  if (exceeded) {
+    return { allowed: false, reason: describeBudgetStatus(exceeded), budgets };
+  }
+  const warnings = budgets.filter(b => b.state === 'warning').map(describeBudgetStatus);
+
   // Beta: AI is free by default
   if (config.aiFreeMode) {
-    return { allowed: true };
+    return { allowed: true, budgets, warnings };
   }
 
   const balance = await getAiBalanceStatus(chatId);
@@ -146,10 +157,11 @@ export async function canInvokeAi(chatId: string): Promise<{
       allowed: false,
       reason: 'Bot ran out of juice! Give it a squeeze to continue.',
       balance,
+      budgets,
     };
   }
 
-  return { allowed: true, balance };
+  return { allowed: true, balance, budgets, warnings };
 }
 
 // ============================================================================
@@ -276,15 +288,35 @@ export async function confirmPayment(confirmation: PaymentConfirmation): Promise
   });
 }
 
+/**
+ * Per-1M-token USD costs for a model: Claude list prices, or the configured
+ * costs for the self-hosted OpenAI-compatible model
+ */
+function getModelCosts(model: string): { inputPer1M: number; outputPer1M: number } | undefined {
+  if (model in MODEL_COSTS) {
+    return MODEL_COSTS[model as ClaudeModel];
+  }
+
+  const config = getConfig();
+  if (config.openaiCompatibleModel && model === config.openaiCompatibleModel) {
+    return {
+      inputPer1M: config.openaiCompatibleInputCostPer1M,
+      outputPer1M: config.openaiCompatibleOutputCostPer1M,
+    };
+  }
+
+  return undefined;
+}
+
 /**
  * Calculate the cost in wei for an AI request based on model and token usage
  */
 export function calculateTokenCost(
-  model: ClaudeModel,
+  model: string,
   inputTokens: number,
   outputTokens: number
 ): bigint {
-  const costs = MODEL_COSTS[model];
+  const costs = getModelCosts(model);
   if (!costs) {
     // Fallback to fixed pricing if model unknown
     return AI_PRICING.costPerRequest;
@@ -306,29 +338,38 @@ export function calculateTokenCost(
 /**
  * Deduct cost for an AI request
  *
- * Controlled by AI_FREE_MODE env var (default: true for beta)
+ * Controlled by AI_FREE_MODE env var (default: true for beta). In free mode
+ * the priced usage is still recorded, for budgets and the usage view, but
+ * nothing is deducted from the balance.
  */
 export async function deductAiCost(
   chatId: string,
   messageId: string,
   model: string,
   inputTokens: number,
-  outputTokens: number
+  outputTokens: number,
+  memberAddress?: string
 ): Promise<{ success: boolean; newBalance: bigint; costWei: bigint }> {
   const config = getConfig();
 
+  // Calculate actual cost based on model and tokens
+  const cost = calculateTokenCost(model, inputTokens, outputTokens);
+
+  const usageSql = `
+    INSERT INTO ai_billing (chat_id, type, amount_wei, message_id, model, tokens_used, input_tokens, output_tokens, member_address)
+    VALUES ($1, 'usage', $2, $3, $4, $5, $6, $7, $8)
+  `;
+  const usageArgs = [
+    chatId, cost.toString(), messageId, model, inputTokens + outputTokens,
+    inputTokens, outputTokens, memberAddress?.toLowerCase() ?? null,
+  ];
+
   // Beta: AI is free by default
   if (config.aiFreeMode) {
+    await execute(usageSql, usageArgs);
     return { success: true, newBalance: 0n, costWei: 0n };
   }
 
-  // Calculate actual cost based on model and tokens
-  const cost = calculateTokenCost(
-    model as ClaudeModel,
-    inputTokens,
-    outputTokens
-  );
-
   // Check balance first
   const balance = await getAiBalanceStatus(chatId);
   if (!balance || balance.balanceWei < cost) {
@@ -345,10 +386,7 @@ export async function deductAiCost(
     `;
 
     // Record usage with token details
-    await client.queryObject`
-      INSERT INTO ai_billing (chat_id, type, amount_wei, message_id, model, tokens_used)
-      VALUES (${chatId}, 'usage', ${cost.toString()}, ${messageId}, ${model}, ${inputTokens + outputTokens})
-    `;
+    await client.queryObject(usageSql, usageArgs);
   });
 
   const newBalance = await getAiBalanceStatus(chatId);
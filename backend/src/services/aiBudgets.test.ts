@@ -0,0 +1,141 @@
+import { assertEquals } from 'std/assert/mod.ts';
+import {
+  getPeriodStart,
+  getPeriodEnd,
+  evaluateBudget,
+  selectApplicableBudgets,
+  getNewlyCrossed,
+  describeBudgetStatus,
+  type AiBudget,
+  type BudgetStatus,
+} from './aiBudgets.ts';
+
+const ALICE = '0x00000000000000000000000000000000000a11ce';
+const BOB = '0x0000000000000000000000000000000000000b0b';
+
+function makeBudget(overrides: Partial<AiBudget>): AiBudget {
+  return {
+    id: crypto.randomUUID(),
+    chatId: 'chat-1',
+    scope: 'chat',
+    memberAddress: null,
+    period: 'daily',
+    limitWei: 1_000n,
+    warnAtPercent: 80,
+    createdByAddress: ALICE,
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    updatedAt: new Date('2026-03-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function makeStatus(budget: AiBudget, state: BudgetStatus['state'], memberAddress: string | null = null): BudgetStatus {
+  return {
+    budget,
+    memberAddress,
+    spentWei: 0n,
+    percentUsed: state === 'ok' ? 10 : state === 'warning' ? 85 : 100,
+    state,
+    resetsAt: new Date('2026-03-02T00:00:00Z'),
+  };
+}
+
+// ============================================================================
+// Period Tests
+// ============================================================================
+
+Deno.test('aiBudgets - periods', async (t) => {
+  const now = new Date('2026-03-31T23:15:00Z');
+
+  await t.step('daily periods run midnight to midnight UTC', () => {
+    assertEquals(getPeriodStart('daily', now).toISOString(), '2026-03-31T00:00:00.000Z');
+    assertEquals(getPeriodEnd('daily', now).toISOString(), '2026-04-01T00:00:00.000Z');
+  });
+
+  await t.step('monthly periods run from the 1st', () => {
+    assertEquals(getPeriodStart('monthly', now).toISOString(), '2026-03-01T00:00:00.000Z');
+    assertEquals(getPeriodEnd('monthly', now).toISOString(), '2026-04-01T00:00:00.000Z');
+  });
+
+  await t.step('monthly end rolls over the year', () => {
+    assertEquals(getPeriodEnd('monthly', new Date('2026-12-15T00:00:00Z')).toISOString(), '2027-01-01T00:00:00.000Z');
+  });
+});
+
+// ============================================================================
+// Evaluation Tests
+// ============================================================================
+
+Deno.test('aiBudgets - evaluateBudget', async (t) => {
+  await t.step('ok below the warning threshold', () => {
+    assertEquals(evaluateBudget(1_000n, 500n, 80), { percentUsed: 50, state: 'ok' });
+  });
+
+  await t.step('warns at the threshold', () => {
+    assertEquals(evaluateBudget(1_000n, 800n, 80), { percentUsed: 80, state: 'warning' });
+  });
+
+  await t.step('exceeded at the limit', () => {
+    assertEquals(evaluateBudget(1_000n, 1_000n, 80).state, 'exceeded');
+    assertEquals(evaluateBudget(1_000n, 2_500n, 80).percentUsed, 250);
+  });
+
+  await t.step('handles wei-scale values without float overflow', () => {
+    const limit = 10n ** 18n;
+    assertEquals(evaluateBudget(limit, limit / 3n, 80).percentUsed, 33.33);
+  });
+
+  await t.step('zero limit blocks everything', () => {
+    assertEquals(evaluateBudget(0n, 0n, 80), { percentUsed: 100, state: 'exceeded' });
+  });
+});
+
+Deno.test('aiBudgets - selectApplicableBudgets', async (t) => {
+  const chatDaily = makeBudget({ scope: 'chat', period: 'daily' });
+  const memberDefault = makeBudget({ scope: 'member', period: 'daily', limitWei: 100n });
+  const aliceOverride = makeBudget({ scope: 'member', period: 'daily', memberAddress: ALICE, limitWei: 500n });
+  const memberMonthly = makeBudget({ scope: 'member', period: 'monthly', limitWei: 2_000n });
+  const budgets = [chatDaily, memberDefault, aliceOverride, memberMonthly];
+
+  await t.step('member override replaces the default for that period', () => {
+    const ids = selectApplicableBudgets(budgets, ALICE.toUpperCase().replace('0X', '0x')).map(b => b.id);
+    assertEquals(ids, [chatDaily.id, aliceOverride.id, memberMonthly.id]);
+  });
+
+  await t.step('other members get the default', () => {
+    const ids = selectApplicableBudgets(budgets, BOB).map(b => b.id);
+    assertEquals(ids, [chatDaily.id, memberDefault.id, memberMonthly.id]);
+  });
+
+  await t.step('no budgets means nothing applies', () => {
+    assertEquals(selectApplicableBudgets([], BOB), []);
+  });
+});
+
+Deno.test('aiBudgets - getNewlyCrossed', async (t) => {
+  const chatBudget = makeBudget({});
+  const memberBudget = makeBudget({ scope: 'member' });
+
+  await t.step('reports ok -> warning and warning -> exceeded once', () => {
+    const before = [makeStatus(chatBudget, 'ok'), makeStatus(memberBudget, 'warning', BOB)];
+    const after = [makeStatus(chatBudget, 'warning'), makeStatus(memberBudget, 'exceeded', BOB)];
+    assertEquals(getNewlyCrossed(before, after).map(s => s.state), ['warning', 'exceeded']);
+  });
+
+  await t.step('ignores budgets that stayed in the same state', () => {
+    const before = [makeStatus(chatBudget, 'warning')];
+    const after = [makeStatus(chatBudget, 'warning')];
+    assertEquals(getNewlyCrossed(before, after), []);
+  });
+});
+
+Deno.test('aiBudgets - describeBudgetStatus', () => {
+  assertEquals(
+    describeBudgetStatus(makeStatus(makeBudget({ period: 'daily' }), 'exceeded')),
+    "This chat's daily AI budget is used up. It resets at midnight UTC."
+  );
+  assertEquals(
+    describeBudgetStatus(makeStatus(makeBudget({ scope: 'member', period: 'monthly' }), 'warning', BOB)),
+    'Your monthly AI budget in this chat is 85% used.'
+  );
+});
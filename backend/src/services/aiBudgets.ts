@@ -0,0 +1,390 @@
+/**
+ * AI Spending Budgets
+ *
+ * Founders and admins cap how much AI a chat may spend per day or month,
+ * either for the whole chat or for each member. Spend is the priced usage
+ * recorded in ai_billing (see calculateTokenCost), counted per UTC day/month.
+ *
+ * Usage past a budget's warn_at_percent produces a soft warning; usage at or
+ * past the limit blocks further AI invocations until the period resets.
+ * A member-scoped budget without an address is the default for every member;
+ * one with an address overrides that default for that member.
+ */
+
+import { query, queryOne, execute } from '../db/index.ts';
+import { getChatToolUsage } from './aiMetrics.ts';
+import { MODEL_COSTS, type ClaudeModel } from './claude.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BudgetScope = 'chat' | 'member';
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetState = 'ok' | 'warning' | 'exceeded';
+
+export interface AiBudget {
+  id: string;
+  chatId: string;
+  scope: BudgetScope;
+  memberAddress: string | null;
+  period: BudgetPeriod;
+  limitWei: bigint;
+  warnAtPercent: number;
+  createdByAddress: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface BudgetStatus {
+  budget: AiBudget;
+  // Member the status was computed for (member scope only)
+  memberAddress: string | null;
+  spentWei: bigint;
+  percentUsed: number;
+  state: BudgetState;
+  resetsAt: Date;
+}
+
+interface DbAiBudget {
+  id: string;
+  chat_id: string;
+  scope: BudgetScope;
+  member_address: string | null;
+  period: BudgetPeriod;
+  limit_wei: string;
+  warn_at_percent: number;
+  created_by_address: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+function dbToBudget(db: DbAiBudget): AiBudget {
+  return {
+    id: db.id,
+    chatId: db.chat_id,
+    scope: db.scope,
+    memberAddress: db.member_address,
+    period: db.period,
+    limitWei: BigInt(db.limit_wei),
+    warnAtPercent: db.warn_at_percent,
+    createdByAddress: db.created_by_address,
+    createdAt: db.created_at,
+    updatedAt: db.updated_at,
+  };
+}
+
+// ============================================================================
+// Periods & Evaluation
+// ============================================================================
+
+/**
+ * Start of the current budget period (UTC)
+ */
+export function getPeriodStart(period: BudgetPeriod, now = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * When the current budget period resets (UTC)
+ */
+export function getPeriodEnd(period: BudgetPeriod, now = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Classify spend against a limit. A zero limit blocks everything.
+ */
+export function evaluateBudget(
+  limitWei: bigint,
+  spentWei: bigint,
+  warnAtPercent: number
+): { percentUsed: number; state: BudgetState } {
+  if (limitWei <= 0n) {
+    return { percentUsed: 100, state: 'exceeded' };
+  }
+
+  // Basis points keep two decimals without converting large wei values to floats
+  const percentUsed = Number((spentWei * 10_000n) / limitWei) / 100;
+
+  if (spentWei >= limitWei) return { percentUsed, state: 'exceeded' };
+  if (percentUsed >= warnAtPercent) return { percentUsed, state: 'warning' };
+  return { percentUsed, state: 'ok' };
+}
+
+/**
+ * Budgets that apply to one member: every chat budget, plus per period the
+ * member's own budget if set, otherwise the default member budget
+ */
+export function selectApplicableBudgets(budgets: AiBudget[], memberAddress: string): AiBudget[] {
+  const address = memberAddress.toLowerCase();
+  const applicable = budgets.filter(b => b.scope === 'chat');
+
+  for (const period of ['daily', 'monthly'] as const) {
+    const memberBudgets = budgets.filter(b => b.scope === 'member' && b.period === period);
+    const own = memberBudgets.find(b => b.memberAddress?.toLowerCase() === address);
+    const fallback = memberBudgets.find(b => b.memberAddress === null);
+    if (own ?? fallback) applicable.push((own ?? fallback)!);
+  }
+
+  return applicable;
+}
+
+/**
+ * Statuses that got worse between two checks (ok -> warning, anything -> exceeded),
+ * so a warning is announced once when crossed rather than on every request
+ */
+export function getNewlyCrossed(before: BudgetStatus[], after: BudgetStatus[]): BudgetStatus[] {
+  const rank: Record<BudgetState, number> = { ok: 0, warning: 1, exceeded: 2 };
+  return after.filter(status => {
+    const previous = before.find(b => b.budget.id === status.budget.id && b.memberAddress === status.memberAddress);
+    return rank[status.state] > rank[previous?.state ?? 'ok'];
+  });
+}
+
+/**
+ * Human-readable message for a budget in warning or exceeded state
+ */
+export function describeBudgetStatus(status: BudgetStatus): string {
+  const period = status.budget.period === 'daily' ? 'daily' : 'monthly';
+  const subject = status.budget.scope === 'chat'
+    ? `This chat's ${period} AI budget`
+    : `Your ${period} AI budget in this chat`;
+  const resets = status.budget.period === 'daily' ? 'at midnight UTC' : 'on the 1st (UTC)';
+
+  if (status.state === 'exceeded') {
+    return `${subject} is used up. It resets ${resets}.`;
+  }
+  return `${subject} is ${Math.floor(status.percentUsed)}% used.`;
+}
+
+// ============================================================================
+// Budget CRUD
+// ============================================================================
+
+export async function getChatBudgets(chatId: string): Promise<AiBudget[]> {
+  const rows = await query<DbAiBudget>(
+    `SELECT * FROM ai_budgets WHERE chat_id = $1 ORDER BY scope, member_address NULLS FIRST, period`,
+    [chatId]
+  );
+  return rows.map(dbToBudget);
+}
+
+/**
+ * Create or replace the budget for a chat/scope/member/period
+ */
+export async function setBudget(params: {
+  chatId: string;
+  scope: BudgetScope;
+  memberAddress?: string | null;
+  period: BudgetPeriod;
+  limitWei: bigint;
+  warnAtPercent?: number;
+  createdByAddress: string;
+}): Promise<AiBudget> {
+  if (params.limitWei < 0n) {
+    throw new Error('Budget limit cannot be negative');
+  }
+  if (params.scope === 'chat' && params.memberAddress) {
+    throw new Error('Chat budgets cannot target a member');
+  }
+
+  const row = await queryOne<DbAiBudget>(
+    `INSERT INTO ai_budgets (chat_id, scope, member_address, period, limit_wei, warn_at_percent, created_by_address)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (chat_id, scope, COALESCE(member_address, ''), period)
+     DO UPDATE SET limit_wei = EXCLUDED.limit_wei,
+                   warn_at_percent = EXCLUDED.warn_at_percent,
+                   updated_at = NOW()
+     RETURNING *`,
+    [
+      params.chatId,
+      params.scope,
+      params.memberAddress?.toLowerCase() ?? null,
+      params.period,
+      params.limitWei.toString(),
+      params.warnAtPercent ?? 80,
+      params.createdByAddress.toLowerCase(),
+    ]
+  );
+
+  return dbToBudget(row!);
+}
+
+export async function deleteBudget(chatId: string, budgetId: string): Promise<boolean> {
+  const count = await execute(
+    'DELETE FROM ai_budgets WHERE id = $1 AND chat_id = $2',
+    [budgetId, chatId]
+  );
+  return count > 0;
+}
+
+// ============================================================================
+// Spend & Status
+// ============================================================================
+
+/**
+ * Priced AI usage since the start of each period, for the chat or one member
+ */
+async function getPeriodSpend(
+  chatId: string,
+  memberAddress?: string
+): Promise<Record<BudgetPeriod, bigint>> {
+  const now = new Date();
+  const row = await queryOne<{ daily: string; monthly: string }>(
+    `SELECT
+       COALESCE(SUM(amount_wei::numeric) FILTER (WHERE created_at >= $2), 0)::text AS daily,
+       COALESCE(SUM(amount_wei::numeric), 0)::text AS monthly
+     FROM ai_billing
+     WHERE chat_id = $1 AND type = 'usage' AND created_at >= $3
+       AND ($4::text IS NULL OR member_address = $4)`,
+    [chatId, getPeriodStart('daily', now), getPeriodStart('monthly', now), memberAddress?.toLowerCase() ?? null]
+  );
+
+  return {
+    daily: BigInt(row?.daily ?? '0'),
+    monthly: BigInt(row?.monthly ?? '0'),
+  };
+}
+
+function toStatus(budget: AiBudget, memberAddress: string | null, spentWei: bigint): BudgetStatus {
+  return {
+    budget,
+    memberAddress,
+    spentWei,
+    ...evaluateBudget(budget.limitWei, spentWei, budget.warnAtPercent),
+    resetsAt: getPeriodEnd(budget.period),
+  };
+}
+
+/**
+ * Status of every budget that applies to a member's next AI invocation
+ */
+export async function checkBudgets(chatId: string, memberAddress: string): Promise<BudgetStatus[]> {
+  const budgets = selectApplicableBudgets(await getChatBudgets(chatId), memberAddress);
+  if (budgets.length === 0) return [];
+
+  const chatSpend = await getPeriodSpend(chatId);
+  const memberSpend = budgets.some(b => b.scope === 'member')
+    ? await getPeriodSpend(chatId, memberAddress)
+    : null;
+
+  return budgets.map(budget =>
+    budget.scope === 'chat'
+      ? toStatus(budget, null, chatSpend[budget.period])
+      : toStatus(budget, memberAddress.toLowerCase(), memberSpend![budget.period])
+  );
+}
+
+// ============================================================================
+// Usage Breakdown
+// ============================================================================
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costWei: bigint;
+}
+
+export interface AiUsageBreakdown {
+  since: Date | null;
+  totals: UsageTotals;
+  byModel: Array<UsageTotals & { model: string; inputPer1M?: number; outputPer1M?: number }>;
+  byMember: Array<UsageTotals & { memberAddress: string | null }>;
+  // From in-memory AI metrics: tool calls since the server started
+  byTool: Array<{ tool: string; count: number }>;
+  budgets: BudgetStatus[];
+}
+
+interface DbUsageRow {
+  key: string | null;
+  requests: string;
+  input_tokens: string;
+  output_tokens: string;
+  cost_wei: string;
+}
+
+function rowToTotals(row: DbUsageRow): UsageTotals {
+  return {
+    requests: Number(row.requests),
+    inputTokens: Number(row.input_tokens),
+    outputTokens: Number(row.output_tokens),
+    costWei: BigInt(row.cost_wei),
+  };
+}
+
+async function groupUsage(chatId: string, column: 'model' | 'member_address', since: Date | null): Promise<DbUsageRow[]> {
+  return query<DbUsageRow>(
+    `SELECT ${column} AS key,
+            COUNT(*)::text AS requests,
+            COALESCE(SUM(COALESCE(input_tokens, tokens_used, 0)), 0)::text AS input_tokens,
+            COALESCE(SUM(COALESCE(output_tokens, 0)), 0)::text AS output_tokens,
+            COALESCE(SUM(amount_wei::numeric), 0)::text AS cost_wei
+     FROM ai_billing
+     WHERE chat_id = $1 AND type = 'usage' AND ($2::timestamptz IS NULL OR created_at >= $2)
+     GROUP BY ${column}
+     ORDER BY SUM(amount_wei::numeric) DESC`,
+    [chatId, since]
+  );
+}
+
+/**
+ * Where a chat's AI spend went: by model, by member and by tool, with the
+ * current state of every budget (member budgets are shown per member who used AI)
+ */
+export async function getUsageBreakdown(chatId: string, period: BudgetPeriod | 'all'): Promise<AiUsageBreakdown> {
+  const since = period === 'all' ? null : getPeriodStart(period);
+
+  const [modelRows, memberRows, budgets] = await Promise.all([
+    groupUsage(chatId, 'model', since),
+    groupUsage(chatId, 'member_address', since),
+    getChatBudgets(chatId),
+  ]);
+
+  const byModel = modelRows.map(row => {
+    const costs = row.key && row.key in MODEL_COSTS ? MODEL_COSTS[row.key as ClaudeModel] : undefined;
+    return { model: row.key ?? 'unknown', ...rowToTotals(row), ...costs };
+  });
+  const byMember = memberRows.map(row => ({ memberAddress: row.key, ...rowToTotals(row) }));
+
+  const totals = byModel.reduce<UsageTotals>((sum, row) => ({
+    requests: sum.requests + row.requests,
+    inputTokens: sum.inputTokens + row.inputTokens,
+    outputTokens: sum.outputTokens + row.outputTokens,
+    costWei: sum.costWei + row.costWei,
+  }), { requests: 0, inputTokens: 0, outputTokens: 0, costWei: 0n });
+
+  const { tools } = getChatToolUsage(chatId);
+  const byTool = Object.entries(tools)
+    .map(([tool, count]) => ({ tool, count }))
+    .sort((a, b) => b.count - a.count);
+
+  // Budget statuses
+  const statuses: BudgetStatus[] = [];
+  if (budgets.length > 0) {
+    const chatSpend = await getPeriodSpend(chatId);
+    for (const budget of budgets.filter(b => b.scope === 'chat')) {
+      statuses.push(toStatus(budget, null, chatSpend[budget.period]));
+    }
+
+    const memberAddresses = new Set<string>([
+      ...byMember.map(m => m.memberAddress).filter((a): a is string => !!a),
+      ...budgets.map(b => b.memberAddress).filter((a): a is string => !!a),
+    ]);
+    for (const address of memberAddresses) {
+      const applicable = selectApplicableBudgets(budgets, address).filter(b => b.scope === 'member');
+      if (applicable.length === 0) continue;
+      const memberSpend = await getPeriodSpend(chatId, address);
+      for (const budget of applicable) {
+        statuses.push(toStatus(budget, address, memberSpend[budget.period]));
+      }
+    }
+  }
+
+  return { since, totals, byModel, byMember, byTool, budgets: statuses };
+}
@@ -1,13 +1,16 @@
 /**
  * AI Provider Abstraction
  *
- * Switches between AI providers (Anthropic Claude, Moonshot Kimi) based on config.
- * Provides a unified interface for all AI operations.
+ * Switches between AI providers (Anthropic Claude, Moonshot Kimi, or a
+ * self-hosted OpenAI-compatible server) based on config, optionally
+ * overridden per chat. Provides a unified interface for all AI operations.
  */
 
 import { getConfig } from '../utils/config.ts';
+import type { AiProviderName } from '../types/index.ts';
 import * as claude from './claude.ts';
 import * as moonshot from './moonshot.ts';
+import * as openaiCompatible from './openaiCompatible.ts';
 
 // Re-export types from claude.ts (they're shared)
 export type {
@@ -16,6 +19,7 @@ export type {
   ClaudeRequest,
   ClaudeResponse,
   ToolCall,
+  ToolCallDecision,
   ToolResult,
   ContentBlock,
   TextBlock,
@@ -23,10 +27,35 @@ export type {
   DocumentBlock,
 } from './claude.ts';
 
-// Get the current provider based on config
-function getProvider() {
+export type { AiProviderName };
+
+// Get the provider module, using the per-chat override when given
+function getProvider(override?: AiProviderName | null) {
+  const name = override ?? getConfig().aiProvider;
+  if (name === 'openai-compatible') return openaiCompatible;
+  return name === 'moonshot' ? moonshot : claude;
+}
+
+/**
+ * Whether a provider has the credentials/endpoint it needs to serve requests
+ */
+export function isProviderConfigured(name: AiProviderName): boolean {
   const config = getConfig();
-  return config.aiProvider === 'moonshot' ? moonshot : claude;
+  switch (name) {
+    case 'anthropic':
+      return !!config.anthropicApiKey;
+    case 'moonshot':
+      return !!config.moonshotApiKey;
+    case 'openai-compatible':
+      return !!config.openaiCompatibleBaseUrl && !!config.openaiCompatibleModel;
+  }
+}
+
+/**
+ * Providers that can be selected as a per-chat override
+ */
+export function getAvailableProviders(): AiProviderName[] {
+  return (['anthropic', 'moonshot', 'openai-compatible'] as const).filter(isProviderConfigured);
 }
 
 /**
@@ -34,9 +63,10 @@ function getProvider() {
  */
 export async function sendMessage(
   userId: string,
-  request: claude.ClaudeRequest
+  request: claude.ClaudeRequest,
+  providerOverride?: AiProviderName | null
 ): Promise<claude.ClaudeResponse> {
-  const provider = getProvider();
+  const provider = getProvider(providerOverride);
   return provider.sendMessage(userId, request);
 }
 
@@ -46,30 +76,35 @@ export async function sendMessage(
 export async function* streamMessage(
   userId: string,
   request: claude.ClaudeRequest,
-  userApiKey?: string
+  userApiKey?: string,
+  providerOverride?: AiProviderName | null
 ): AsyncGenerator<{ type: 'text' | 'tool_use' | 'usage'; data: unknown }> {
-  const provider = getProvider();
+  const provider = getProvider(providerOverride);
   yield* provider.streamMessage(userId, request, userApiKey);
 }
 
 /**
  * Stream a message with automatic tool execution loop
+ *
+ * The final 'usage' event carries the totals for the whole loop, plus the
+ * model that served it, for billing.
  */
 export async function* streamMessageWithTools(
   userId: string,
   request: claude.ClaudeRequest,
   userApiKey?: string,
-  maxIterations = 10
+  maxIterations = 10,
+  providerOverride?: AiProviderName | null
 ): AsyncGenerator<{ type: 'text' | 'tool_use' | 'tool_result' | 'usage' | 'thinking'; data: unknown }> {
-  const provider = getProvider();
+  const provider = getProvider(providerOverride);
   yield* provider.streamMessageWithTools(userId, request, userApiKey, maxIterations);
 }
 
 /**
  * Get usage stats for a user
  */
-export function getUserUsageStats(userId: string) {
-  const provider = getProvider();
+export function getUserUsageStats(userId: string, providerOverride?: AiProviderName | null) {
+  const provider = getProvider(providerOverride);
   return provider.getUserUsageStats(userId);
 }
 
@@ -88,6 +123,7 @@ export async function buildEnhancedPrompt(options: {
   includeOmnichain?: boolean;
   useSemanticDetection?: boolean;  // Enable semantic intent detection (Phase 2)
   useSubModules?: boolean;  // Enable granular sub-module loading (Phase 1)
+  retrievalQuery?: string;  // New prompt, to retrieve matching document chunks
 }): Promise<{
   systemPrompt: string;
   context: import('./contextManager.ts').OptimizedContext | null;
@@ -101,7 +137,7 @@ export async function buildEnhancedPrompt(options: {
 /**
  * Get the current provider name
  */
-export function getCurrentProvider(): 'anthropic' | 'moonshot' {
+export function getCurrentProvider(): AiProviderName {
   const config = getConfig();
   return config.aiProvider;
 }
@@ -0,0 +1,73 @@
+import { assertEquals } from 'std/assert/mod.ts';
+import { getRequiredApproval, canApprove, truncateOutput, runToolCall } from './aiToolCalls.ts';
+
+Deno.test('aiToolCalls - getRequiredApproval', async (t) => {
+  await t.step('side-effecting tools need the requester by default', () => {
+    assertEquals(getRequiredApproval('pin_to_ipfs', {}), 'requester');
+    assertEquals(getRequiredApproval('execute_bridge_transaction', {}), 'requester');
+  });
+
+  await t.step('chats can raise side-effecting tools to admin approval', () => {
+    assertEquals(getRequiredApproval('execute_bridge_transaction', { execute_bridge_transaction: 'admin' }), 'admin');
+  });
+
+  await t.step('a policy cannot let side-effecting tools run unapproved', () => {
+    assertEquals(getRequiredApproval('pin_to_ipfs', { pin_to_ipfs: 'none' }), 'requester');
+  });
+
+  await t.step('read-only tools run directly unless the chat says otherwise', () => {
+    assertEquals(getRequiredApproval('search_docs', {}), 'none');
+    assertEquals(getRequiredApproval('search_docs', { search_docs: 'admin' }), 'admin');
+  });
+});
+
+Deno.test('aiToolCalls - canApprove', async (t) => {
+  await t.step('requester approval allows the requester and admins', () => {
+    assertEquals(canApprove('requester', { isRequester: true, canManageMembers: false }), true);
+    assertEquals(canApprove('requester', { isRequester: false, canManageMembers: true }), true);
+    assertEquals(canApprove('requester', { isRequester: false, canManageMembers: false }), false);
+  });
+
+  await t.step('admin approval ignores the requester', () => {
+    assertEquals(canApprove('admin', { isRequester: true, canManageMembers: false }), false);
+    assertEquals(canApprove('admin', { isRequester: false, canManageMembers: true }), true);
+  });
+
+  await t.step('calls that need no approval cannot be decided', () => {
+    assertEquals(canApprove('none', { isRequester: true, canManageMembers: true }), false);
+  });
+});
+
+Deno.test('aiToolCalls - truncateOutput', async (t) => {
+  await t.step('keeps short outputs as is', () => {
+    assertEquals(truncateOutput('ok', 10), 'ok');
+  });
+
+  await t.step('notes how much was cut', () => {
+    assertEquals(truncateOutput('abcdefghij', 4), 'abcd\n… (6 more characters)');
+  });
+});
+
+Deno.test('aiToolCalls - runToolCall', async (t) => {
+  const toolCall = { id: 'call_1', name: 'not_a_tool', input: {} };
+
+  await t.step('declined calls are reported to the model without running', async () => {
+    let asked = 0;
+    const { result, event } = await runToolCall(toolCall, () => {
+      asked++;
+      return Promise.resolve({ approved: false, reason: 'Declined by a chat member.' });
+    }, 'chat-1');
+
+    assertEquals(asked, 1);
+    assertEquals(result, { tool_use_id: 'call_1', content: 'Error: Declined by a chat member.', is_error: true });
+    assertEquals(event.data, { id: 'call_1', name: 'not_a_tool', error: 'Declined by a chat member.', declined: true });
+  });
+
+  await t.step('approved calls run, and failures are fed back as errors', async () => {
+    const { result, event } = await runToolCall(toolCall, () => Promise.resolve({ approved: true }), 'chat-1');
+
+    assertEquals(result.is_error, true);
+    assertEquals(result.content, 'Error: Unknown omnichain tool: not_a_tool');
+    assertEquals(event.data.declined, undefined);
+  });
+});
@@ -0,0 +1,467 @@
+/**
+ * AI Tool Calls Service
+ *
+ * Every tool the AI invokes while answering in a chat is recorded as a step
+ * members can inspect (inputs, output, errors). Side-effecting tools - IPFS
+ * pins and bridge transactions - wait for a member's approval before they
+ * run; each chat's founder/admins choose per tool whether the member who
+ * asked may approve or only founders/admins can.
+ *
+ * The provider tool loops run each tool through runToolCall, which asks the
+ * gate from createToolGate first (see ClaudeRequest.approveToolCall). Decisions can land on any
+ * instance, so a waiting gate is resolved directly when the decision is
+ * made here and otherwise picks it up by polling the row.
+ */
+
+import { query, queryOne, execute } from '../db/index.ts';
+import { logger } from '../utils/logger.ts';
+import { OMNICHAIN_TOOLS } from '../context/omnichain.ts';
+import { checkPermission } from './chat.ts';
+import { broadcastToolCall } from './websocket.ts';
+import { handleOmnichainTool } from './omnichain.ts';
+import { recordToolUsage } from './aiMetrics.ts';
+import type { ToolCall, ToolCallDecision, ToolResult } from './aiProvider.ts';
+
+// Tools that change state outside the chat; these always need approval
+// (same set as the per-tool rate limits in rateLimit.ts)
+export const SIDE_EFFECT_TOOLS = new Set([
+  'pin_to_ipfs',
+  'prepare_bridge_transaction',
+  'execute_bridge_transaction',
+  'claim_bridge_transaction',
+]);
+
+// How long a tool call waits for approval before the AI is told it timed out
+const APPROVAL_TIMEOUT_MS = 3 * 60 * 1000;
+const APPROVAL_POLL_MS = 2000;
+
+// Tool outputs can be whole documents; keep enough to show what happened
+const MAX_STORED_OUTPUT = 8000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// Who has to approve a tool call before it runs
+export type ToolApproval = 'none' | 'requester' | 'admin';
+
+export type ToolCallStatus = 'pending' | 'running' | 'completed' | 'failed' | 'declined' | 'expired';
+
+// Per-chat overrides, keyed by tool name
+export type ToolApprovalPolicy = Record<string, ToolApproval>;
+
+export interface ToolCallStep {
+  id: string;
+  chatId: string;
+  toolUseId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  approval: ToolApproval;
+  status: ToolCallStatus;
+  output?: string;
+  error?: string;
+  requestedByAddress: string;
+  decidedByAddress?: string;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+export interface ToolPolicyEntry {
+  name: string;
+  description: string;
+  sideEffects: boolean;
+  approval: ToolApproval;
+}
+
+interface DbToolCall {
+  id: string;
+  chat_id: string;
+  stream_id: string;
+  message_id: string | null;
+  tool_use_id: string;
+  tool_name: string;
+  input: Record<string, unknown>;
+  approval: ToolApproval;
+  status: ToolCallStatus;
+  output: string | null;
+  error: string | null;
+  requested_by_address: string;
+  decided_by_address: string | null;
+  decided_at: Date | null;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+function toToolCallStep(db: DbToolCall): ToolCallStep {
+  return {
+    id: db.id,
+    chatId: db.chat_id,
+    toolUseId: db.tool_use_id,
+    toolName: db.tool_name,
+    input: db.input,
+    approval: db.approval,
+    status: db.status,
+    output: db.output ?? undefined,
+    error: db.error ?? undefined,
+    requestedByAddress: db.requested_by_address,
+    decidedByAddress: db.decided_by_address ?? undefined,
+    createdAt: db.created_at,
+    completedAt: db.completed_at ?? undefined,
+  };
+}
+
+// ============================================================================
+// Pure Helpers
+// ============================================================================
+
+/**
+ * Approval a tool needs in a chat. Side-effecting tools never drop below the
+ * requester's approval, whatever the chat's policy says.
+ */
+export function getRequiredApproval(toolName: string, policy: ToolApprovalPolicy): ToolApproval {
+  const configured = policy[toolName];
+  if (SIDE_EFFECT_TOOLS.has(toolName)) {
+    return configured === 'admin' ? 'admin' : 'requester';
+  }
+  return configured ?? 'none';
+}
+
+/**
+ * Whether a member may approve or decline a call needing the given approval.
+ * Founders/admins can always decide; the requester only when the policy allows.
+ */
+export function canApprove(
+  approval: ToolApproval,
+  member: { isRequester: boolean; canManageMembers: boolean }
+): boolean {
+  if (approval === 'none') return false;
+  if (member.canManageMembers) return true;
+  return approval === 'requester' && member.isRequester;
+}
+
+/**
+ * Cap a tool output for storage, noting how much was cut
+ */
+export function truncateOutput(output: string, max = MAX_STORED_OUTPUT): string {
+  if (output.length <= max) return output;
+  return `${output.slice(0, max)}\n… (${output.length - max} more characters)`;
+}
+
+// ============================================================================
+// Policy
+// ============================================================================
+
+export async function getToolPolicy(chatId: string): Promise<ToolApprovalPolicy> {
+  const row = await queryOne<{ tool_approval_policy: ToolApprovalPolicy }>(
+    'SELECT tool_approval_policy FROM multi_chats WHERE id = $1',
+    [chatId]
+  );
+  return row?.tool_approval_policy ?? {};
+}
+
+/**
+ * Set who must approve a tool in this chat
+ */
+export async function setToolApproval(
+  chatId: string,
+  toolName: string,
+  approval: ToolApproval
+): Promise<ToolApprovalPolicy> {
+  if (!OMNICHAIN_TOOLS.some(tool => tool.name === toolName)) {
+    throw new Error(`Unknown tool: ${toolName}`);
+  }
+  if (approval === 'none' && SIDE_EFFECT_TOOLS.has(toolName)) {
+    throw new Error(`${toolName} has side effects and always needs approval`);
+  }
+
+  const row = await queryOne<{ tool_approval_policy: ToolApprovalPolicy }>(
+    `UPDATE multi_chats
+     SET tool_approval_policy = tool_approval_policy || jsonb_build_object($2::text, $3::text),
+         updated_at = NOW()
+     WHERE id = $1
+     RETURNING tool_approval_policy`,
+    [chatId, toolName, approval]
+  );
+  if (!row) throw new Error('Chat not found');
+  return row.tool_approval_policy;
+}
+
+/**
+ * Every AI tool with the approval it currently needs in this chat
+ */
+export async function listToolsWithPolicy(chatId: string): Promise<ToolPolicyEntry[]> {
+  const policy = await getToolPolicy(chatId);
+  return OMNICHAIN_TOOLS.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    sideEffects: SIDE_EFFECT_TOOLS.has(tool.name),
+    approval: getRequiredApproval(tool.name, policy),
+  }));
+}
+
+// ============================================================================
+// Tool Loop
+// ============================================================================
+
+// Gates waiting on a decision made on this instance
+const waiters = new Map<string, (status: ToolCallStatus) => void>();
+
+/**
+ * Wait until a pending call is approved (running), declined, or expires
+ */
+function waitForDecision(chatId: string, streamId: string, callId: string): Promise<ToolCallStatus> {
+  const deadline = Date.now() + APPROVAL_TIMEOUT_MS;
+
+  return new Promise((resolve) => {
+    let timer: number | undefined;
+    const finish = (status: ToolCallStatus) => {
+      clearTimeout(timer);
+      waiters.delete(callId);
+      resolve(status);
+    };
+    waiters.set(callId, finish);
+
+    const poll = async () => {
+      if (!waiters.has(callId)) return;
+      try {
+        if (Date.now() >= deadline) {
+          const expired = await queryOne<DbToolCall>(
+            `UPDATE ai_tool_calls SET status = 'expired', completed_at = NOW()
+             WHERE id = $1 AND status = 'pending'
+             RETURNING *`,
+            [callId]
+          );
+          if (expired) {
+            broadcastToolCall(chatId, streamId, toToolCallStep(expired));
+            finish('expired');
+            return;
+          }
+        }
+
+        const row = await queryOne<{ status: ToolCallStatus }>(
+          'SELECT status FROM ai_tool_calls WHERE id = $1',
+          [callId]
+        );
+        if (!row) {
+          finish('expired');
+          return;
+        }
+        if (row.status !== 'pending') {
+          finish(row.status);
+          return;
+        }
+      } catch (error) {
+        logger.error('Failed to check tool call approval', error as Error, { callId });
+      }
+      timer = setTimeout(poll, APPROVAL_POLL_MS);
+    };
+    timer = setTimeout(poll, APPROVAL_POLL_MS);
+  });
+}
+
+/**
+ * Build the approveToolCall hook for one AI response. Each call is recorded
+ * and broadcast as a step under the response's streaming id; calls needing
+ * approval wait for a member's decision.
+ */
+export function createToolGate(options: {
+  chatId: string;
+  streamId: string;
+  requestedByAddress: string;
+  policy: ToolApprovalPolicy;
+}): (toolCall: ToolCall) => Promise<ToolCallDecision> {
+  const { chatId, streamId, requestedByAddress, policy } = options;
+
+  return async (toolCall) => {
+    const approval = getRequiredApproval(toolCall.name, policy);
+    const row = await queryOne<DbToolCall>(
+      `INSERT INTO ai_tool_calls (chat_id, stream_id, tool_use_id, tool_name, input, approval, status, requested_by_address)
+       VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7, $8)
+       RETURNING *`,
+      [
+        chatId,
+        streamId,
+        toolCall.id,
+        toolCall.name,
+        JSON.stringify(toolCall.input ?? {}),
+        approval,
+        approval === 'none' ? 'running' : 'pending',
+        requestedByAddress.toLowerCase(),
+      ]
+    );
+    if (!row) throw new Error('Failed to record tool call');
+    broadcastToolCall(chatId, streamId, toToolCallStep(row));
+
+    if (approval === 'none') return { approved: true };
+
+    const status = await waitForDecision(chatId, streamId, row.id);
+    if (status === 'running') return { approved: true };
+    return {
+      approved: false,
+      reason: status === 'expired'
+        ? 'Approval timed out. Ask the user whether they still want this done.'
+        : 'Declined by a chat member. Do not retry unless they ask again.',
+    };
+  };
+}
+
+/**
+ * One step of a provider's tool loop: ask the request's gate (if any), then
+ * run the tool and record its metrics. Returns the result to feed back to
+ * the model and the tool_result event to stream. Every provider goes through
+ * here, so approval handling stays the same across them.
+ */
+export async function runToolCall(
+  toolCall: ToolCall,
+  approveToolCall: ((toolCall: ToolCall) => Promise<ToolCallDecision>) | undefined,
+  metricsChatId: string
+): Promise<{
+  result: ToolResult;
+  event: { type: 'tool_result'; data: { id: string; name: string; result?: string; error?: string; declined?: boolean } };
+}> {
+  const decision = approveToolCall ? await approveToolCall(toolCall) : { approved: true };
+  if (!decision.approved) {
+    const reason = decision.reason ?? 'Tool call was not approved';
+    return {
+      result: { tool_use_id: toolCall.id, content: `Error: ${reason}`, is_error: true },
+      event: { type: 'tool_result', data: { id: toolCall.id, name: toolCall.name, error: reason, declined: true } },
+    };
+  }
+
+  const toolStart = Date.now();
+  try {
+    const output = await handleOmnichainTool(toolCall.name, toolCall.input);
+    const resultStr = typeof output === 'string' ? output : JSON.stringify(output, null, 2);
+
+    recordToolUsage({
+      chatId: metricsChatId,
+      toolName: toolCall.name,
+      success: true,
+      durationMs: Date.now() - toolStart,
+    });
+
+    return {
+      result: { tool_use_id: toolCall.id, content: resultStr },
+      event: { type: 'tool_result', data: { id: toolCall.id, name: toolCall.name, result: resultStr } },
+    };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Tool execution failed';
+
+    recordToolUsage({
+      chatId: metricsChatId,
+      toolName: toolCall.name,
+      success: false,
+      durationMs: Date.now() - toolStart,
+      errorMessage: errorMsg,
+    });
+
+    return {
+      result: { tool_use_id: toolCall.id, content: `Error: ${errorMsg}`, is_error: true },
+      event: { type: 'tool_result', data: { id: toolCall.id, name: toolCall.name, error: errorMsg } },
+    };
+  }
+}
+
+/**
+ * Record how a tool that ran turned out. Declined/expired calls were already
+ * settled by the gate.
+ */
+export async function recordToolResult(
+  chatId: string,
+  streamId: string,
+  result: { id: string; result?: string; error?: string }
+): Promise<void> {
+  const row = await queryOne<DbToolCall>(
+    `UPDATE ai_tool_calls
+     SET status = $4, output = $5, error = $6, completed_at = NOW()
+     WHERE chat_id = $1 AND stream_id = $2 AND tool_use_id = $3 AND status = 'running'
+     RETURNING *`,
+    [
+      chatId,
+      streamId,
+      result.id,
+      result.error ? 'failed' : 'completed',
+      result.result !== undefined ? truncateOutput(result.result) : null,
+      result.error ?? null,
+    ]
+  );
+  if (row) broadcastToolCall(chatId, streamId, toToolCallStep(row));
+}
+
+/**
+ * Link a response's tool calls to its saved message
+ */
+export async function attachToolCalls(chatId: string, streamId: string, messageId: string): Promise<void> {
+  await execute(
+    'UPDATE ai_tool_calls SET message_id = $3 WHERE chat_id = $1 AND stream_id = $2',
+    [chatId, streamId, messageId]
+  );
+}
+
+// ============================================================================
+// Decisions
+// ============================================================================
+
+export async function getToolCall(callId: string): Promise<ToolCallStep | null> {
+  const row = await queryOne<DbToolCall>('SELECT * FROM ai_tool_calls WHERE id = $1', [callId]);
+  return row ? toToolCallStep(row) : null;
+}
+
+export async function canDecideToolCall(call: ToolCallStep, address: string): Promise<boolean> {
+  return canApprove(call.approval, {
+    isRequester: call.requestedByAddress.toLowerCase() === address.toLowerCase(),
+    canManageMembers: await checkPermission(call.chatId, address, 'manage_members'),
+  });
+}
+
+/**
+ * Approve or decline a pending call. The first decision wins.
+ */
+export async function decideToolCall(callId: string, address: string, approve: boolean): Promise<ToolCallStep> {
+  const row = await queryOne<DbToolCall>(
+    `UPDATE ai_tool_calls
+     SET status = $2, decided_by_address = $3, decided_at = NOW(),
+         completed_at = CASE WHEN $2 = 'declined' THEN NOW() ELSE NULL END
+     WHERE id = $1 AND status = 'pending'
+     RETURNING *`,
+    [callId, approve ? 'running' : 'declined', address.toLowerCase()]
+  );
+  if (!row) throw new Error('Tool call is no longer awaiting approval');
+
+  waiters.get(callId)?.(row.status);
+  broadcastToolCall(row.chat_id, row.stream_id, toToolCallStep(row));
+  return toToolCallStep(row);
+}
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+/**
+ * Attach saved tool steps to a page of messages
+ */
+export async function withToolCalls<T extends { id: string }>(
+  messages: T[]
+): Promise<(T & { toolCalls?: ToolCallStep[] })[]> {
+  if (messages.length === 0) return [];
+
+  const rows = await query<DbToolCall>(
+    `SELECT * FROM ai_tool_calls
+     WHERE message_id = ANY($1)
+     ORDER BY created_at`,
+    [messages.map(m => m.id)]
+  );
+  if (rows.length === 0) return messages;
+
+  const byMessage = new Map<string, ToolCallStep[]>();
+  for (const row of rows) {
+    const steps = byMessage.get(row.message_id!) ?? [];
+    steps.push(toToolCallStep(row));
+    byMessage.set(row.message_id!, steps);
+  }
+
+  return messages.map(m => {
+    const toolCalls = byMessage.get(m.id);
+    return toolCalls ? { ...m, toolCalls } : m;
+  });
+}
@@ -30,6 +30,21 @@ export interface Project {
   logoUri?: string
 }
 
+export interface ProjectStats extends Project {
+  volume: string
+  volumeUsd: string
+  balance: string
+  paymentsCount: number
+  contributorsCount: number
+}
+
+export interface PayEvent {
+  amount: string
+  amountUsd: string | null
+  from: string
+  timestamp: number
+}
+
 // =============================================================================
 // GraphQL Queries
 // =============================================================================
@@ -71,6 +86,44 @@ const PROJECT_QUERY = `
   }
 `
 
+const PROJECT_STATS_QUERY = `
+  query ProjectStats($projectId: Float!, $chainId: Float!, $version: Float!) {
+    project(projectId: $projectId, chainId: $chainId, version: $version) {
+      id
+      projectId
+      chainId
+      owner
+      name
+      handle
+      logoUri
+      volume
+      volumeUsd
+      balance
+      paymentsCount
+      contributorsCount
+    }
+  }
+`
+
+// Note: payEvents where clause expects Int types
+const PAY_EVENTS_SINCE_QUERY = `
+  query PayEventsSince($projectId: Int!, $chainId: Int!, $version: Int!, $since: Int!, $limit: Int) {
+    payEvents(
+      where: { projectId: $projectId, chainId: $chainId, version: $version, timestamp_gt: $since }
+      limit: $limit
+      orderBy: "timestamp"
+      orderDirection: "desc"
+    ) {
+      items {
+        amount
+        amountUsd
+        from
+        timestamp
+      }
+    }
+  }
+`
+
 // =============================================================================
 // API Client
 // =============================================================================
@@ -185,6 +238,41 @@ export async function getProject(
   return data?.project || null
 }
 
+/**
+ * Get project info with its running totals (volume, balance, payments).
+ */
+export async function getProjectStats(
+  projectId: number,
+  chainId: number,
+  version: number = 5
+): Promise<ProjectStats | null> {
+  const data = await queryBendystraw<{ project: ProjectStats | null }>(
+    PROJECT_STATS_QUERY,
+    { projectId, chainId, version }
+  )
+
+  return data?.project || null
+}
+
+/**
+ * Get payments to a project after a unix timestamp, newest first.
+ * Returns null when Bendystraw is unavailable (not the same as no payments).
+ */
+export async function getPayEventsSince(
+  projectId: number,
+  chainId: number,
+  since: number,
+  limit = 1000,
+  version: number = 5
+): Promise<PayEvent[] | null> {
+  const data = await queryBendystraw<{ payEvents: { items: PayEvent[] } }>(
+    PAY_EVENTS_SINCE_QUERY,
+    { projectId, chainId, version, since, limit }
+  )
+
+  return data ? data.payEvents?.items ?? [] : null
+}
+
 /**
  * Check if an address owns a project.
  */
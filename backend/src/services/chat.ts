@@ -9,7 +9,8 @@
  * - AI invocation with billing
  */
 
-import { query, queryOne, execute, transaction } from '../db/index.ts';
+import { query, queryOne, execute, transaction, type TransactionClient } from '../db/index.ts';
+import type { AiProviderName } from '../types/index.ts';
 import {
   generateGroupKey,
   distributeGroupKeyToMembers,
@@ -70,6 +71,8 @@ export interface Chat {
   encryptionVersion: number;
   // AI toggle - global chat-level setting
   aiEnabled: boolean;
+  // AI provider override; undefined = deployment default
+  aiProvider?: AiProviderName;
   // Organization fields
   isPinned: boolean;
   pinOrder?: number;
@@ -163,6 +166,7 @@ export interface ChatMessage {
   createdAt: Date;
   editedAt?: Date;
   deletedAt?: Date;
+  branchId?: string; // Set while parked on an inactive conversation branch
 }
 
 export interface CreateChatParams {
@@ -192,6 +196,7 @@ export interface ImportMessageParams {
   senderUserId?: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
+  createdAt?: Date; // Original timestamp when replaying an exported chat
 }
 
 // ============================================================================
@@ -219,6 +224,7 @@ interface DbChat {
   encryption_version: number;
   // AI toggle
   ai_enabled: boolean;
+  ai_provider: AiProviderName | null;
   // Organization fields
   is_pinned: boolean;
   pin_order: number | null;
@@ -266,6 +272,7 @@ interface DbChatMessage {
   created_at: Date;
   edited_at: Date | null;
   deleted_at: Date | null;
+  branch_id: string | null;
 }
 
 // ============================================================================
@@ -298,6 +305,7 @@ function dbToChat(db: DbChat): Chat {
     encryptionVersion: db.encryption_version,
     // AI toggle
     aiEnabled: db.ai_enabled ?? true,
+    aiProvider: db.ai_provider ?? undefined,
     // Organization fields
     isPinned: db.is_pinned,
     pinOrder: db.pin_order ?? undefined,
@@ -349,6 +357,7 @@ function dbToMessage(db: DbChatMessage): ChatMessage {
     createdAt: db.created_at,
     editedAt: db.edited_at ?? undefined,
     deletedAt: db.deleted_at ?? undefined,
+    branchId: db.branch_id ?? undefined,
   };
 }
 
@@ -357,9 +366,13 @@ function dbToMessage(db: DbChatMessage): ChatMessage {
 // ============================================================================
 
 /**
- * Create a new multi-person chat
+ * Insert a chat row and its founder membership inside a transaction.
+ * Encrypted chats still need their group key distributed afterwards.
  */
-export async function createChat(params: CreateChatParams): Promise<Chat> {
+export async function insertChat(
+  client: TransactionClient,
+  params: CreateChatParams
+): Promise<string> {
   const {
     founderAddress,
     founderUserId,
@@ -375,40 +388,44 @@ export async function createChat(params: CreateChatParams): Promise<Chat> {
   const founderIdentity = await getIdentityByAddress(founderAddress);
   const founderEmoji = founderIdentity?.emoji ?? null;
 
-  // Create chat in transaction
-  const chatId = await transaction(async (client) => {
-    // Insert chat
-    const result = await client.queryObject<{ id: string }>`
-      INSERT INTO multi_chats (
-        founder_address, founder_user_id, name, description, is_public, is_private, encrypted,
-        token_gate_enabled, token_gate_chain_id, token_gate_token_address,
-        token_gate_project_id, token_gate_min_balance
-      ) VALUES (
-        ${founderAddress}, ${founderUserId ?? null}, ${name ?? null}, ${description ?? null},
-        ${isPublic}, ${isPrivate}, ${encrypted},
-        ${!!tokenGate}, ${tokenGate?.chainId ?? null}, ${tokenGate?.tokenAddress ?? null},
-        ${tokenGate?.projectId ?? null}, ${tokenGate?.minBalance?.toString() ?? null}
-      ) RETURNING id
-    `;
-
-    const chatId = result.rows[0].id;
-
-    // Add founder as member with full permissions (including can_pause_ai)
-    await client.queryObject`
-      INSERT INTO multi_chat_members (
-        chat_id, member_address, member_user_id, role,
-        can_invite, can_invoke_ai, can_manage_members, can_pause_ai, custom_emoji
-      ) VALUES (
-        ${chatId}, ${founderAddress}, ${founderUserId ?? null}, 'founder',
-        TRUE, TRUE, TRUE, TRUE, ${founderEmoji}
-      )
-    `;
+  // Insert chat
+  const result = await client.queryObject<{ id: string }>`
+    INSERT INTO multi_chats (
+      founder_address, founder_user_id, name, description, is_public, is_private, encrypted,
+      token_gate_enabled, token_gate_chain_id, token_gate_token_address,
+      token_gate_project_id, token_gate_min_balance
+    ) VALUES (
+      ${founderAddress}, ${founderUserId ?? null}, ${name ?? null}, ${description ?? null},
+      ${isPublic}, ${isPrivate}, ${encrypted},
+      ${!!tokenGate}, ${tokenGate?.chainId ?? null}, ${tokenGate?.tokenAddress ?? null},
+      ${tokenGate?.projectId ?? null}, ${tokenGate?.minBalance?.toString() ?? null}
+    ) RETURNING id
+  `;
+
+  const chatId = result.rows[0].id;
+
+  // Add founder as member with full permissions (including can_pause_ai)
+  await client.queryObject`
+    INSERT INTO multi_chat_members (
+      chat_id, member_address, member_user_id, role,
+      can_invite, can_invoke_ai, can_manage_members, can_pause_ai, custom_emoji
+    ) VALUES (
+      ${chatId}, ${founderAddress}, ${founderUserId ?? null}, 'founder',
+      TRUE, TRUE, TRUE, TRUE, ${founderEmoji}
+    )
+  `;
+
+  return chatId;
+}
 
-    return chatId;
-  });
+/**
+ * Create a new multi-person chat
+ */
+export async function createChat(params: CreateChatParams): Promise<Chat> {
+  const chatId = await transaction((client) => insertChat(client, params));
 
   // If encrypted, generate and distribute group key
-  if (encrypted) {
+  if (params.encrypted) {
     const groupKey = generateGroupKey();
     await distributeGroupKeyToMembers(chatId, groupKey);
   }
@@ -1020,7 +1037,7 @@ export async function updateUserEmoji(
 /**
  * Estimate token count from text (rough approximation)
  */
-function estimateTokenCount(text: string): number {
+export function estimateTokenCount(text: string): number {
   // Rough estimate: 4 characters per token on average
   return Math.ceil(text.length / 4);
 }
@@ -1040,6 +1057,16 @@ export async function sendMessage(params: SendMessageParams): Promise<ChatMessag
   const chat = await getChatById(chatId);
   if (!chat) throw new Error('Chat not found');
 
+  // Threads are one level deep: a reply to a reply joins the root's thread
+  let threadRootId: string | undefined;
+  if (replyToId) {
+    const parent = await getMessageById(replyToId);
+    if (!parent || parent.chatId !== chatId || parent.deletedAt) {
+      throw new Error('Reply target not found');
+    }
+    threadRootId = parent.replyToId ?? parent.id;
+  }
+
   let finalContent = content;
   let isEncrypted = false;
 
@@ -1073,7 +1100,7 @@ export async function sendMessage(params: SendMessageParams): Promise<ChatMessag
        is_encrypted, signature, reply_to_id, token_count, attachments
      ) VALUES ($1, $2, $3, 'user', $4, $5, $6, $7, $8, $9)
      RETURNING id`,
-    [chatId, senderAddress, senderUserId ?? null, finalContent, isEncrypted, signature ?? null, replyToId ?? null, tokenCount, attachmentsJson]
+    [chatId, senderAddress, senderUserId ?? null, finalContent, isEncrypted, signature ?? null, threadRootId ?? null, tokenCount, attachmentsJson]
   );
 
   const messageId = result[0].id;
@@ -1085,7 +1112,7 @@ export async function sendMessage(params: SendMessageParams): Promise<ChatMessag
   );
 
   // Broadcast to connected clients (user messages)
-  broadcastChatMessage(chatId, messageId, finalContent, senderAddress, isEncrypted, 'user', attachments);
+  broadcastChatMessage(chatId, messageId, finalContent, senderAddress, isEncrypted, 'user', attachments, threadRootId);
 
   return (await getMessageById(messageId))!;
 }
@@ -1095,7 +1122,7 @@ export async function sendMessage(params: SendMessageParams): Promise<ChatMessag
  * Used when migrating local chats to persistent storage
  */
 export async function importMessage(params: ImportMessageParams): Promise<ChatMessage> {
-  const { chatId, senderAddress, senderUserId, role, content } = params;
+  const { chatId, senderAddress, senderUserId, role, content, createdAt } = params;
 
   const chat = await getChatById(chatId);
   if (!chat) throw new Error('Chat not found');
@@ -1107,10 +1134,10 @@ export async function importMessage(params: ImportMessageParams): Promise<ChatMe
   const result = await query<{ id: string }>(
     `INSERT INTO multi_chat_messages (
        chat_id, sender_address, sender_user_id, role, content,
-       is_encrypted, signature, reply_to_id, token_count
-     ) VALUES ($1, $2, $3, $4, $5, FALSE, NULL, NULL, $6)
+       is_encrypted, signature, reply_to_id, token_count, created_at
+     ) VALUES ($1, $2, $3, $4, $5, FALSE, NULL, NULL, $6, COALESCE($7, NOW()))
      RETURNING id`,
-    [chatId, senderAddress, senderUserId ?? null, role, content, tokenCount]
+    [chatId, senderAddress, senderUserId ?? null, role, content, tokenCount, createdAt ?? null]
   );
 
   const messageId = result[0].id;
@@ -1144,7 +1171,7 @@ export async function getChatMessages(
   beforeId?: string
 ): Promise<ChatMessage[]> {
   let sql = `SELECT * FROM multi_chat_messages
-             WHERE chat_id = $1 AND deleted_at IS NULL`;
+             WHERE chat_id = $1 AND deleted_at IS NULL AND branch_id IS NULL`;
   const params: unknown[] = [chatId];
 
   if (beforeId) {
@@ -1159,6 +1186,19 @@ export async function getChatMessages(
   return results.map(dbToMessage).reverse(); // Return in chronological order
 }
 
+/**
+ * Get messages parked on an inactive conversation branch
+ */
+export async function getBranchMessages(branchId: string): Promise<ChatMessage[]> {
+  const results = await query<DbChatMessage>(
+    `SELECT * FROM multi_chat_messages
+     WHERE branch_id = $1 AND deleted_at IS NULL
+     ORDER BY created_at ASC`,
+    [branchId]
+  );
+  return results.map(dbToMessage);
+}
+
 /**
  * Soft delete a message
  */
@@ -1398,6 +1438,28 @@ export async function toggleChatAiEnabled(
   return getChatById(chatId);
 }
 
+/**
+ * Set (or clear, with null) the AI provider used for this chat
+ * Same permission as toggling AI
+ */
+export async function setChatAiProvider(
+  chatId: string,
+  memberAddress: string,
+  provider: AiProviderName | null
+): Promise<Chat | null> {
+  const member = await getMember(chatId, memberAddress);
+  if (!member || !member.canPauseAi) {
+    throw new Error('You do not have permission to change the AI provider for this chat');
+  }
+
+  await execute(
+    'UPDATE multi_chats SET ai_provider = $1, updated_at = NOW() WHERE id = $2',
+    [provider, chatId]
+  );
+
+  return getChatById(chatId);
+}
+
 // ============================================================================
 // Chat Reports
 // ============================================================================
@@ -0,0 +1,257 @@
+/**
+ * Chat Branches Integration Tests
+ *
+ * Tests forking, switching and discarding conversation branches:
+ * - Forking parks the message and everything after it with the tip's state
+ * - Switching swaps the active tail with a parked branch and restores its state
+ * - Discarding is limited to the branch creator and admins
+ * - Editing and re-running is refused before anything is parked when the
+ *   editor can't send messages
+ *
+ * These tests require a running database connection.
+ */
+
+import { assertEquals, assertExists, assertRejects } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { query, queryOne, execute } from '../db/index.ts';
+import { SKIP_DB_TESTS } from '../test/helpers.ts';
+import { getChatMessages, getBranchMessages } from './chat.ts';
+import {
+  forkConversation,
+  branchWithEdit,
+  getChatBranches,
+  switchBranch,
+  discardBranch,
+} from './chatBranches.ts';
+
+// ============================================================================
+// Test Setup
+// ============================================================================
+
+const FOUNDER = '0x00000000000000000000000000000000000b0001';
+const MEMBER = '0x00000000000000000000000000000000000b0002';
+
+async function cleanupTestData(): Promise<void> {
+  // Members, messages, branches and state cascade from the chat
+  await execute(`DELETE FROM multi_chats WHERE founder_address = $1`, [FOUNDER]);
+}
+
+// A chat with a founder (admin rights) and a member who wrote the second prompt:
+// founder prompt, AI reply, member prompt, AI reply - a minute apart
+async function createConversation(): Promise<{ chatId: string; messageIds: string[] }> {
+  const [chat] = await query<{ id: string }>(
+    `INSERT INTO multi_chats (founder_address, name) VALUES ($1, 'Branch test') RETURNING id`,
+    [FOUNDER]
+  );
+
+  await execute(
+    `INSERT INTO multi_chat_members (chat_id, member_address, role, can_invite, can_manage_members)
+     VALUES ($1, $2, 'founder', TRUE, TRUE), ($1, $3, 'member', FALSE, FALSE)`,
+    [chat.id, FOUNDER, MEMBER]
+  );
+
+  const turns: Array<[string, 'user' | 'assistant', string]> = [
+    [FOUNDER, 'user', 'Create a project called Orbit'],
+    ['0x0000000000000000000000000000000000000000', 'assistant', 'Orbit is ready to launch.'],
+    [MEMBER, 'user', 'Set the payout limit to 5 ETH'],
+    ['0x0000000000000000000000000000000000000000', 'assistant', 'Payout limit set to 5 ETH.'],
+  ];
+
+  const messageIds: string[] = [];
+  for (const [i, [sender, role, content]] of turns.entries()) {
+    const [message] = await query<{ id: string }>(
+      `INSERT INTO multi_chat_messages (chat_id, sender_address, role, content, created_at)
+       VALUES ($1, $2, $3, $4, NOW() - make_interval(mins => $5))
+       RETURNING id`,
+      [chat.id, sender, role, content, turns.length - i]
+    );
+    messageIds.push(message.id);
+  }
+
+  return { chatId: chat.id, messageIds };
+}
+
+async function setPhase(chatId: string, phase: string): Promise<void> {
+  await execute(
+    `INSERT INTO chat_transaction_state (chat_id, state) VALUES ($1, $2::jsonb)
+     ON CONFLICT (chat_id) DO UPDATE SET state = $2::jsonb`,
+    [chatId, JSON.stringify({ phase })]
+  );
+}
+
+async function getPhase(chatId: string): Promise<string | undefined> {
+  const row = await queryOne<{ state: { phase?: string } }>(
+    `SELECT state FROM chat_transaction_state WHERE chat_id = $1`,
+    [chatId]
+  );
+  return row?.state.phase;
+}
+
+async function activeIds(chatId: string): Promise<string[]> {
+  return (await getChatMessages(chatId)).map((m) => m.id);
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+Deno.test({
+  ignore: SKIP_DB_TESTS,
+  name: 'Chat Branches Integration - Forking parks the message and everything after it',
+  // First test initializes DB pool, which opens TCP connections
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await cleanupTestData();
+    const { chatId, messageIds: [m1, m2, m3, m4] } = await createConversation();
+
+    await assertRejects(
+      () => forkConversation({ chatId, messageId: m3, address: FOUNDER, reason: 'regenerate' }),
+      Error,
+      'Only AI responses can be regenerated'
+    );
+    // The first prompt is the founder's, and the member can't manage the chat
+    await assertRejects(
+      () => forkConversation({ chatId, messageId: m1, address: MEMBER, reason: 'edit' }),
+      Error,
+      'Not authorized to edit this message'
+    );
+
+    const branchId = await forkConversation({ chatId, messageId: m3, address: MEMBER, reason: 'edit' });
+
+    assertEquals(await activeIds(chatId), [m1, m2]);
+    assertEquals((await getBranchMessages(branchId)).map((m) => m.id), [m3, m4]);
+
+    const branches = await getChatBranches(chatId);
+    assertEquals(branches.length, 1);
+    assertEquals(branches[0].forkMessageId, m2);
+    assertEquals(branches[0].reason, 'edit');
+    assertEquals(branches[0].messageCount, 2);
+    assertEquals(branches[0].preview, 'Set the payout limit to 5 ETH');
+    assertEquals(branches[0].switchable, true);
+
+    // Parked messages can't be forked again until they're switched back in
+    await assertRejects(
+      () => forkConversation({ chatId, messageId: m4, address: MEMBER, reason: 'regenerate' }),
+      Error,
+      'inactive branch'
+    );
+
+    await cleanupTestData();
+  },
+});
+
+Deno.test({
+  ignore: SKIP_DB_TESTS,
+  name: 'Chat Branches Integration - Switching swaps the active tail and restores state',
+  async fn() {
+    await cleanupTestData();
+    const { chatId, messageIds: [m1, m2, m3, m4] } = await createConversation();
+
+    await setPhase(chatId, 'review');
+    const branchId = await forkConversation({ chatId, messageId: m4, address: FOUNDER, reason: 'regenerate' });
+
+    // The regenerated response continues the active line in another phase
+    const [retry] = await query<{ id: string }>(
+      `INSERT INTO multi_chat_messages (chat_id, sender_address, role, content)
+       VALUES ($1, '0x0000000000000000000000000000000000000000', 'assistant', 'Payout limit is now 5 ETH.')
+       RETURNING id`,
+      [chatId]
+    );
+    await setPhase(chatId, 'configuration');
+    assertEquals(await activeIds(chatId), [m1, m2, m3, retry.id]);
+
+    const { parkedBranchId } = await switchBranch({ chatId, branchId, address: FOUNDER });
+
+    assertExists(parkedBranchId);
+    assertEquals(await activeIds(chatId), [m1, m2, m3, m4]);
+    assertEquals((await getBranchMessages(parkedBranchId)).map((m) => m.id), [retry.id]);
+    assertEquals(await getPhase(chatId), 'review');
+
+    // The kept branch is gone; the replaced reply is the only alternative
+    const branches = await getChatBranches(chatId);
+    assertEquals(branches.map((b) => [b.id, b.reason, b.forkMessageId]), [[parkedBranchId, 'switch', m3]]);
+
+    // And switching back restores the regenerated reply's state
+    await switchBranch({ chatId, branchId: parkedBranchId, address: FOUNDER });
+    assertEquals(await activeIds(chatId), [m1, m2, m3, retry.id]);
+    assertEquals(await getPhase(chatId), 'configuration');
+
+    await assertRejects(
+      () => switchBranch({ chatId, branchId: parkedBranchId, address: FOUNDER }),
+      Error,
+      'Branch not found'
+    );
+
+    await cleanupTestData();
+  },
+});
+
+Deno.test({
+  ignore: SKIP_DB_TESTS,
+  name: 'Chat Branches Integration - Discarding is limited to the creator and admins',
+  async fn() {
+    await cleanupTestData();
+    const { chatId, messageIds: [m1, m2, m3, m4] } = await createConversation();
+
+    const founderBranch = await forkConversation({ chatId, messageId: m4, address: FOUNDER, reason: 'regenerate' });
+
+    await assertRejects(
+      () => discardBranch({ chatId, branchId: founderBranch, address: MEMBER }),
+      Error,
+      'Not authorized to discard this branch'
+    );
+
+    await discardBranch({ chatId, branchId: founderBranch, address: FOUNDER });
+    assertEquals(await getChatBranches(chatId), []);
+    const discarded = await queryOne(`SELECT id FROM multi_chat_messages WHERE id = $1`, [m4]);
+    assertEquals(discarded, null);
+
+    // Admins can discard branches other members created
+    const memberBranch = await forkConversation({ chatId, messageId: m3, address: MEMBER, reason: 'edit' });
+    await discardBranch({ chatId, branchId: memberBranch, address: FOUNDER });
+    assertEquals(await activeIds(chatId), [m1, m2]);
+    assertEquals(await getChatBranches(chatId), []);
+
+    await cleanupTestData();
+  },
+});
+
+Deno.test({
+  ignore: SKIP_DB_TESTS,
+  name: 'Chat Branches Integration - Edits are refused before forking when the editor cannot write',
+  async fn() {
+    await cleanupTestData();
+    const { chatId, messageIds: [m1, m2, m3, m4] } = await createConversation();
+
+    await execute(
+      `UPDATE multi_chat_members SET can_send_messages = FALSE WHERE chat_id = $1 AND member_address = $2`,
+      [chatId, MEMBER]
+    );
+
+    await assertRejects(
+      () => branchWithEdit({ chatId, messageId: m3, address: MEMBER, content: 'Set the payout limit to 50 ETH' }),
+      Error,
+      'Not authorized to send messages'
+    );
+    assertEquals(await activeIds(chatId), [m1, m2, m3, m4]);
+    assertEquals(await getChatBranches(chatId), []);
+
+    // With write access restored the edit replaces the original on the active line
+    await execute(
+      `UPDATE multi_chat_members SET can_send_messages = TRUE WHERE chat_id = $1 AND member_address = $2`,
+      [chatId, MEMBER]
+    );
+    const { branchId, message } = await branchWithEdit({
+      chatId,
+      messageId: m3,
+      address: MEMBER,
+      content: 'Set the payout limit to 50 ETH',
+    });
+
+    assertEquals(message.content, 'Set the payout limit to 50 ETH');
+    assertEquals(await activeIds(chatId), [m1, m2, message.id]);
+    assertEquals((await getBranchMessages(branchId)).map((m) => m.id), [m3, m4]);
+
+    await cleanupTestData();
+  },
+});
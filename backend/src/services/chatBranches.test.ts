@@ -0,0 +1,22 @@
+import { assertEquals } from 'std/assert/mod.ts';
+import { buildBranchPreview } from './chatBranches.ts';
+
+// ============================================================================
+// Preview Tests
+// ============================================================================
+
+Deno.test('chatBranches - buildBranchPreview', async (t) => {
+  await t.step('collapses whitespace onto one line', () => {
+    assertEquals(buildBranchPreview('Set the payout\n\n  limit to 5 ETH'), 'Set the payout limit to 5 ETH');
+  });
+
+  await t.step('truncates long content with an ellipsis', () => {
+    const preview = buildBranchPreview('word '.repeat(20), 20);
+    assertEquals(preview.length <= 20, true);
+    assertEquals(preview.endsWith('…'), true);
+  });
+
+  await t.step('handles branches without messages', () => {
+    assertEquals(buildBranchPreview(null), '');
+  });
+});
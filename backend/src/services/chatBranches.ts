@@ -0,0 +1,481 @@
+/**
+ * Chat Branches Service
+ *
+ * Message edits and conversation branches. The active conversation is every
+ * message with branch_id NULL. Editing a prompt for a re-run or regenerating a
+ * response "forks" the chat: the message and everything after it are parked
+ * on a chat_branches row, and the new version continues the active line.
+ * Switching to a parked branch parks the current tail in turn, so alternatives
+ * are never lost until explicitly discarded.
+ *
+ * Each branch keeps the transaction state from its tip, and forking rolls the
+ * live state back to the checkpoint taken before the first parked AI response.
+ */
+
+import { query, queryOne, execute, transaction, type TransactionClient } from '../db/index.ts';
+import {
+  getMessageById,
+  sendMessage,
+  checkPermission,
+  type ChatMessage,
+} from './chat.ts';
+import {
+  rollbackStateToBranchPoint,
+  restoreBranchState,
+  type ChatTransactionState,
+} from './transactionState.ts';
+import { forgetMessageEmbedding } from './chatSearch.ts';
+import { broadcastMessageEdited, broadcastBranchChanged } from './websocket.ts';
+
+const PREVIEW_LENGTH = 140;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BranchReason = 'edit' | 'regenerate' | 'switch';
+
+export interface ChatBranch {
+  id: string;
+  chatId: string;
+  forkMessageId: string | null; // Last message shared with the active conversation
+  reason: BranchReason;
+  createdByAddress: string;
+  createdAt: Date;
+  messageCount: number;
+  preview: string; // Start of the branch's first message
+  switchable: boolean; // False while the fork point is itself parked on another branch
+}
+
+export interface MessageEdit {
+  id: string;
+  messageId: string;
+  previousContent: string;
+  editedByAddress: string;
+  createdAt: Date;
+}
+
+interface DbChatBranch {
+  id: string;
+  chat_id: string;
+  fork_message_id: string | null;
+  reason: BranchReason;
+  created_by_address: string;
+  created_at: Date;
+  message_count: number;
+  first_content: string | null;
+  switchable: boolean;
+}
+
+interface DbMessageEdit {
+  id: string;
+  message_id: string;
+  previous_content: string;
+  edited_by_address: string;
+  created_at: Date;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Single-line preview of a branch's first message
+ */
+export function buildBranchPreview(content: string | null, maxLength = PREVIEW_LENGTH): string {
+  const text = (content ?? '').replace(/\s+/g, ' ').trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
+
+function dbToBranch(db: DbChatBranch): ChatBranch {
+  return {
+    id: db.id,
+    chatId: db.chat_id,
+    forkMessageId: db.fork_message_id,
+    reason: db.reason,
+    createdByAddress: db.created_by_address,
+    createdAt: db.created_at,
+    messageCount: Number(db.message_count),
+    preview: buildBranchPreview(db.first_content),
+    switchable: db.switchable,
+  };
+}
+
+function dbToEdit(db: DbMessageEdit): MessageEdit {
+  return {
+    id: db.id,
+    messageId: db.message_id,
+    previousContent: db.previous_content,
+    editedByAddress: db.edited_by_address,
+    createdAt: db.created_at,
+  };
+}
+
+/**
+ * Load a message on the active conversation of a chat
+ */
+async function getActiveMessage(chatId: string, messageId: string): Promise<ChatMessage> {
+  const message = await getMessageById(messageId);
+  if (!message || message.chatId !== chatId || message.deletedAt) {
+    throw new Error('Message not found');
+  }
+  if (message.branchId) {
+    throw new Error('Message is on an inactive branch');
+  }
+  return message;
+}
+
+/**
+ * Move every active message after `afterCreatedAt` (all of them when NULL)
+ * onto a new branch. Returns the branch ID, or null if there was nothing to park.
+ */
+async function parkActiveTail(
+  client: TransactionClient,
+  params: {
+    chatId: string;
+    afterCreatedAt: Date | null;
+    forkMessageId: string | null;
+    reason: BranchReason;
+    transactionState: ChatTransactionState | null;
+    createdByAddress: string;
+  }
+): Promise<string | null> {
+  const branch = await client.queryObject<{ id: string }>(
+    `INSERT INTO chat_branches (chat_id, fork_message_id, reason, transaction_state, created_by_address)
+     VALUES ($1, $2, $3, $4::jsonb, $5)
+     RETURNING id`,
+    [
+      params.chatId,
+      params.forkMessageId,
+      params.reason,
+      params.transactionState ? JSON.stringify(params.transactionState) : null,
+      params.createdByAddress,
+    ]
+  );
+  const branchId = branch.rows[0].id;
+
+  const parked = await client.queryObject(
+    `UPDATE multi_chat_messages SET branch_id = $1
+     WHERE chat_id = $2
+       AND branch_id IS NULL
+       AND ($3::timestamptz IS NULL OR created_at > $3)`,
+    [branchId, params.chatId, params.afterCreatedAt]
+  );
+
+  if (!parked.rowCount) {
+    await client.queryObject('DELETE FROM chat_branches WHERE id = $1', [branchId]);
+    return null;
+  }
+
+  return branchId;
+}
+
+/**
+ * Drop summaries that cover messages past the fork point; the next
+ * summarization pass rebuilds them from the new active conversation
+ */
+async function invalidateSummariesAfter(
+  client: TransactionClient,
+  chatId: string,
+  afterCreatedAt: Date | null
+): Promise<void> {
+  await client.queryObject(
+    `DELETE FROM chat_summaries
+     WHERE chat_id = $1
+       AND ($2::timestamptz IS NULL OR covers_to_created_at > $2)`,
+    [chatId, afterCreatedAt]
+  );
+  await client.queryObject(
+    `UPDATE multi_chats SET last_summarized_message_id = (
+       SELECT covers_to_message_id FROM chat_summaries
+       WHERE chat_id = $1
+       ORDER BY created_at DESC
+       LIMIT 1
+     )
+     WHERE id = $1`,
+    [chatId]
+  );
+}
+
+// ============================================================================
+// Edits
+// ============================================================================
+
+/**
+ * Edit one of your own prompts in place, keeping the previous version.
+ * Does not re-run the AI - use branchWithEdit for that.
+ */
+export async function editMessage(
+  chatId: string,
+  messageId: string,
+  editorAddress: string,
+  content: string
+): Promise<ChatMessage> {
+  const message = await getActiveMessage(chatId, messageId);
+
+  if (message.role !== 'user' || message.senderAddress !== editorAddress) {
+    throw new Error('You can only edit your own messages');
+  }
+  if (message.isEncrypted) {
+    throw new Error('Encrypted messages cannot be edited');
+  }
+  if (message.content === content) {
+    return message;
+  }
+
+  await transaction(async (client) => {
+    await client.queryObject(
+      `INSERT INTO multi_chat_message_edits (message_id, previous_content, edited_by_address)
+       VALUES ($1, $2, $3)`,
+      [messageId, message.content, editorAddress]
+    );
+    await client.queryObject(
+      `UPDATE multi_chat_messages
+       SET content = $1, token_count = $2, edited_at = NOW()
+       WHERE id = $3`,
+      [content, Math.ceil(content.length / 4), messageId]
+    );
+  });
+
+  await forgetMessageEmbedding(messageId);
+
+  const edited = (await getMessageById(messageId))!;
+  broadcastMessageEdited(chatId, messageId, edited.content, edited.editedAt!, editorAddress);
+
+  return edited;
+}
+
+/**
+ * Previous versions of a message, newest first
+ */
+export async function getMessageEdits(messageId: string): Promise<MessageEdit[]> {
+  const rows = await query<DbMessageEdit>(
+    `SELECT * FROM multi_chat_message_edits
+     WHERE message_id = $1
+     ORDER BY created_at DESC`,
+    [messageId]
+  );
+  return rows.map(dbToEdit);
+}
+
+// ============================================================================
+// Branching
+// ============================================================================
+
+/**
+ * Park a message and everything after it on a new branch, rolling the
+ * transaction state back to before the first parked AI response.
+ * Returns the new branch ID. Callers broadcast the change once the
+ * replacement message exists, so clients reload a complete list.
+ */
+export async function forkConversation(params: {
+  chatId: string;
+  messageId: string;
+  address: string;
+  reason: 'edit' | 'regenerate';
+}): Promise<string> {
+  const { chatId, messageId, address, reason } = params;
+  const message = await getActiveMessage(chatId, messageId);
+
+  if (reason === 'regenerate' && message.role !== 'assistant') {
+    throw new Error('Only AI responses can be regenerated');
+  }
+  if (reason === 'edit') {
+    if (message.role !== 'user') {
+      throw new Error('Only prompts can be edited and re-run');
+    }
+    if (message.senderAddress !== address) {
+      const canManage = await checkPermission(chatId, address, 'manage_members');
+      if (!canManage) {
+        throw new Error('Not authorized to edit this message');
+      }
+    }
+  }
+
+  const forkPoint = await queryOne<{ id: string; created_at: Date }>(
+    `SELECT id, created_at FROM multi_chat_messages
+     WHERE chat_id = $1 AND branch_id IS NULL AND created_at < $2
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [chatId, message.createdAt]
+  );
+
+  const branchId = await transaction(async (client) => {
+    const tipState = await rollbackStateToBranchPoint(client, chatId, message.createdAt);
+
+    const id = await parkActiveTail(client, {
+      chatId,
+      afterCreatedAt: forkPoint?.created_at ?? null,
+      forkMessageId: forkPoint?.id ?? null,
+      reason,
+      transactionState: tipState,
+      createdByAddress: address,
+    });
+    if (!id) throw new Error('Nothing to branch from');
+
+    await invalidateSummariesAfter(client, chatId, forkPoint?.created_at ?? null);
+
+    return id;
+  });
+
+  return branchId;
+}
+
+/**
+ * Edit a prompt and continue from it: the original prompt and everything
+ * after it move to a branch, and the edited prompt is sent in its place.
+ * The caller then invokes the AI for the new prompt.
+ */
+export async function branchWithEdit(params: {
+  chatId: string;
+  messageId: string;
+  address: string;
+  userId?: string;
+  content: string;
+}): Promise<{ branchId: string; message: ChatMessage }> {
+  // sendMessage checks this too, but only after the fork has parked the original
+  const canWrite = await checkPermission(params.chatId, params.address, 'write');
+  if (!canWrite) {
+    throw new Error('Not authorized to send messages');
+  }
+
+  const original = await getActiveMessage(params.chatId, params.messageId);
+
+  const branchId = await forkConversation({
+    chatId: params.chatId,
+    messageId: params.messageId,
+    address: params.address,
+    reason: 'edit',
+  });
+
+  const message = await sendMessage({
+    chatId: params.chatId,
+    senderAddress: params.address,
+    senderUserId: params.userId,
+    content: params.content,
+    replyToId: original.replyToId,
+    attachments: original.attachments,
+  });
+
+  broadcastBranchChanged(params.chatId, params.address);
+
+  return { branchId, message };
+}
+
+/**
+ * List parked branches of a chat, newest first
+ */
+export async function getChatBranches(chatId: string): Promise<ChatBranch[]> {
+  const rows = await query<DbChatBranch>(
+    `SELECT b.id, b.chat_id, b.fork_message_id, b.reason, b.created_by_address, b.created_at,
+            (SELECT COUNT(*) FROM multi_chat_messages m
+             WHERE m.branch_id = b.id AND m.deleted_at IS NULL) AS message_count,
+            (SELECT m.content FROM multi_chat_messages m
+             WHERE m.branch_id = b.id AND m.deleted_at IS NULL
+             ORDER BY m.created_at ASC
+             LIMIT 1) AS first_content,
+            (b.fork_message_id IS NULL OR f.branch_id IS NULL) AS switchable
+     FROM chat_branches b
+     LEFT JOIN multi_chat_messages f ON f.id = b.fork_message_id
+     WHERE b.chat_id = $1
+     ORDER BY b.created_at DESC`,
+    [chatId]
+  );
+  return rows.map(dbToBranch);
+}
+
+/**
+ * Make a parked branch the active conversation ("keep this one"). The
+ * current messages after the fork point are parked on a new branch, and the
+ * transaction state is restored to the kept branch's tip.
+ * Returns the ID of the branch holding the replaced messages, if any.
+ */
+export async function switchBranch(params: {
+  chatId: string;
+  branchId: string;
+  address: string;
+}): Promise<{ parkedBranchId: string | null }> {
+  const { chatId, branchId, address } = params;
+
+  const result = await transaction(async (client) => {
+    const found = await client.queryObject<{
+      fork_message_id: string | null;
+      transaction_state: ChatTransactionState | null;
+      fork_created_at: Date | null;
+      fork_branch_id: string | null;
+    }>(
+      `SELECT b.fork_message_id, b.transaction_state,
+              f.created_at AS fork_created_at, f.branch_id AS fork_branch_id
+       FROM chat_branches b
+       LEFT JOIN multi_chat_messages f ON f.id = b.fork_message_id
+       WHERE b.id = $1 AND b.chat_id = $2
+       FOR UPDATE OF b`,
+      [branchId, chatId]
+    );
+
+    const branch = found.rows[0];
+    if (!branch) throw new Error('Branch not found');
+    if (branch.fork_message_id && branch.fork_branch_id) {
+      throw new Error('Switch to the branch this one was forked from first');
+    }
+
+    const current = await client.queryObject<{ state: ChatTransactionState }>(
+      'SELECT state FROM chat_transaction_state WHERE chat_id = $1 FOR UPDATE',
+      [chatId]
+    );
+
+    const parkedBranchId = await parkActiveTail(client, {
+      chatId,
+      afterCreatedAt: branch.fork_created_at,
+      forkMessageId: branch.fork_message_id,
+      reason: 'switch',
+      transactionState: current.rows[0]?.state ?? null,
+      createdByAddress: address,
+    });
+
+    await client.queryObject(
+      'UPDATE multi_chat_messages SET branch_id = NULL WHERE branch_id = $1',
+      [branchId]
+    );
+
+    if (branch.transaction_state) {
+      await restoreBranchState(client, chatId, branch.transaction_state);
+    }
+
+    await client.queryObject('DELETE FROM chat_branches WHERE id = $1', [branchId]);
+    await invalidateSummariesAfter(client, chatId, branch.fork_created_at);
+
+    return { parkedBranchId };
+  });
+
+  broadcastBranchChanged(chatId, address);
+
+  return result;
+}
+
+/**
+ * Permanently delete a parked branch and its messages (including any
+ * branches forked from inside it). Creator or admins only.
+ */
+export async function discardBranch(params: {
+  chatId: string;
+  branchId: string;
+  address: string;
+}): Promise<void> {
+  const { chatId, branchId, address } = params;
+
+  const branch = await queryOne<{ created_by_address: string }>(
+    'SELECT created_by_address FROM chat_branches WHERE id = $1 AND chat_id = $2',
+    [branchId, chatId]
+  );
+  if (!branch) throw new Error('Branch not found');
+
+  if (branch.created_by_address !== address) {
+    const canManage = await checkPermission(chatId, address, 'manage_members');
+    if (!canManage) {
+      throw new Error('Not authorized to discard this branch');
+    }
+  }
+
+  await execute('DELETE FROM chat_branches WHERE id = $1', [branchId]);
+}
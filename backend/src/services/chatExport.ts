@@ -0,0 +1,264 @@
+/**
+ * Chat Export / Import
+ *
+ * Builds a portable JSON transcript of a chat's active conversation, including
+ * the persisted state of each message's components (see componentState.ts),
+ * and replays such a transcript into a new chat owned by the importer.
+ *
+ * Encrypted chats are exported as stored (ciphertext); the client substitutes
+ * the plaintext it decrypted before offering the file for download. Messages
+ * still marked encrypted are skipped on import, since the new chat has no keys.
+ *
+ * An export file is whatever the importer uploads, so nothing in it is taken
+ * as fact: prompts from other senders come in as quotes posted by the
+ * importer, system messages are dropped, and component states are kept only
+ * as a marked record of how the original chat's components ended up.
+ */
+
+import { transaction } from '../db/index.ts';
+import {
+  estimateTokenCount,
+  getChatById,
+  getChatMembers,
+  getChatMessages,
+  insertChat,
+  type Chat,
+} from './chat.ts';
+import {
+  batchGetComponentStates,
+  type ComponentState,
+} from './componentState.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const CHAT_EXPORT_FORMAT = 'juicy-chat';
+export const CHAT_EXPORT_VERSION = 1;
+export const MAX_EXPORT_MESSAGES = 5000;
+
+// Sender of AI responses in every chat
+const ASSISTANT_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export interface ChatExportMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  senderAddress: string;
+  content: string;
+  isEncrypted: boolean;
+  createdAt: string;
+  editedAt?: string;
+  componentStates: Record<string, ComponentState>;
+}
+
+export interface ChatExport {
+  format: typeof CHAT_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  chat: {
+    id: string;
+    name?: string;
+    description?: string;
+    founderAddress: string;
+    encrypted: boolean;
+    createdAt: string;
+  };
+  members: { address: string; role: string; displayName?: string }[];
+  messages: ChatExportMessage[];
+}
+
+// A message as it will be written to the imported chat
+export interface ReplayMessage {
+  role: 'user' | 'assistant';
+  senderAddress: string;
+  content: string;
+  createdAt: Date;
+  componentStates: Record<string, ComponentState>;
+}
+
+export interface ImportResult {
+  chat: Chat;
+  importedCount: number;
+  skippedCount: number;
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Build the JSON transcript for a chat's active conversation
+ */
+export async function buildChatExport(chatId: string): Promise<ChatExport> {
+  const chat = await getChatById(chatId);
+  if (!chat) throw new Error('Chat not found');
+
+  const [members, messages] = await Promise.all([
+    getChatMembers(chatId),
+    getChatMessages(chatId, MAX_EXPORT_MESSAGES),
+  ]);
+  const states = await batchGetComponentStates(messages.map((m) => m.id));
+
+  return {
+    format: CHAT_EXPORT_FORMAT,
+    version: CHAT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    chat: {
+      id: chat.id,
+      name: chat.name,
+      description: chat.description,
+      founderAddress: chat.founderAddress,
+      encrypted: chat.encrypted,
+      createdAt: chat.createdAt.toISOString(),
+    },
+    members: members.map((m) => ({
+      address: m.memberAddress,
+      role: m.role,
+      displayName: m.displayName,
+    })),
+    messages: messages.map((m) => ({
+      id: m.id,
+      role: m.role,
+      senderAddress: m.senderAddress,
+      content: m.content,
+      isEncrypted: m.isEncrypted,
+      createdAt: m.createdAt.toISOString(),
+      editedAt: m.editedAt?.toISOString(),
+      componentStates: states.get(m.id) ?? {},
+    })),
+  };
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Render a prompt someone else sent as a quote, so the importer can't post
+ * in another address's name
+ */
+export function quoteImportedMessage(senderAddress: string, content: string): string {
+  const quoted = content.split('\n').map((line) => (line ? `> ${line}` : '>')).join('\n');
+  return `Imported from ${senderAddress}:\n\n${quoted}`;
+}
+
+/**
+ * Settled component states from an AI response, marked as imported.
+ * Pending and in-progress states belonged to the original chat's session.
+ */
+function importComponentStates(
+  states: Record<string, ComponentState>
+): Record<string, ComponentState> {
+  const imported: Record<string, ComponentState> = {};
+  for (const [componentKey, state] of Object.entries(states)) {
+    if (state.status === 'completed' || state.status === 'failed') {
+      imported[componentKey] = { ...state, imported: true };
+    }
+  }
+  return imported;
+}
+
+/**
+ * Turn an export's messages into what an import will write, in chronological
+ * order. Encrypted, empty and system messages are skipped. Every user message
+ * is posted by the importer (quoted when someone else sent it) and every AI
+ * response by the assistant address.
+ */
+export function selectReplayableMessages(
+  messages: ChatExportMessage[],
+  importerAddress: string
+): { replayable: ReplayMessage[]; skippedCount: number } {
+  const replayable = messages
+    .filter((m) => m.role !== 'system' && !m.isEncrypted && m.content.trim().length > 0)
+    .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt))
+    .map((m): ReplayMessage => {
+      if (m.role === 'assistant') {
+        return {
+          role: 'assistant',
+          senderAddress: ASSISTANT_ADDRESS,
+          content: m.content,
+          createdAt: new Date(m.createdAt),
+          componentStates: importComponentStates(m.componentStates),
+        };
+      }
+
+      const ownMessage = m.senderAddress.toLowerCase() === importerAddress.toLowerCase();
+      return {
+        role: 'user',
+        senderAddress: importerAddress,
+        content: ownMessage ? m.content : quoteImportedMessage(m.senderAddress, m.content),
+        createdAt: new Date(m.createdAt),
+        componentStates: {},
+      };
+    });
+
+  return { replayable, skippedCount: messages.length - replayable.length };
+}
+
+/**
+ * Recreate an exported chat as a new private chat owned by the importer.
+ * Messages keep their timestamps; settled component states are re-attached to
+ * the new message IDs. The chat is created whole or not at all.
+ */
+export async function importChatExport(params: {
+  data: ChatExport;
+  founderAddress: string;
+  founderUserId?: string;
+}): Promise<ImportResult> {
+  const { data, founderAddress, founderUserId } = params;
+
+  if (data.format !== CHAT_EXPORT_FORMAT) {
+    throw new Error('Not a chat export file');
+  }
+  if (data.version > CHAT_EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${data.version}`);
+  }
+
+  const { replayable, skippedCount } = selectReplayableMessages(data.messages, founderAddress);
+
+  const chatId = await transaction(async (client) => {
+    const chatId = await insertChat(client, {
+      founderAddress,
+      founderUserId,
+      name: data.chat.name,
+      description: data.chat.description,
+      isPublic: false,
+    });
+
+    for (const message of replayable) {
+      const inserted = await client.queryObject<{ id: string }>(
+        `INSERT INTO multi_chat_messages (
+           chat_id, sender_address, sender_user_id, role, content, token_count, created_at
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING id`,
+        [
+          chatId,
+          message.senderAddress,
+          message.role === 'user' ? founderUserId ?? null : null,
+          message.role,
+          message.content,
+          estimateTokenCount(message.content),
+          message.createdAt,
+        ]
+      );
+
+      for (const [componentKey, state] of Object.entries(message.componentStates)) {
+        await client.queryObject(
+          `INSERT INTO message_component_states (message_id, component_key, state)
+           VALUES ($1, $2, $3::jsonb)`,
+          [inserted.rows[0].id, componentKey, JSON.stringify(state)]
+        );
+      }
+    }
+
+    await client.queryObject(
+      'UPDATE multi_chats SET total_message_count = $2 WHERE id = $1',
+      [chatId, replayable.length]
+    );
+
+    return chatId;
+  });
+
+  const chat = (await getChatById(chatId))!;
+  return { chat, importedCount: replayable.length, skippedCount };
+}
@@ -0,0 +1,102 @@
+import { assert, assertEquals, assertStringIncludes } from 'std/assert/mod.ts';
+import {
+  chunkDocument,
+  decodeTextAttachment,
+  extractCitationMarkers,
+  formatRetrievedChunksForPrompt,
+  type RetrievedChunk,
+} from './chatKnowledge.ts';
+
+function makeChunk(overrides: Partial<RetrievedChunk> = {}): RetrievedChunk {
+  return {
+    id: 'chunk-1',
+    messageId: 'message-1',
+    sourceName: 'whitepaper.pdf',
+    chunkIndex: 0,
+    heading: null,
+    content: 'The treasury keeps 20% in reserve.',
+    tokenCount: 9,
+    similarity: 0.8,
+    ...overrides,
+  };
+}
+
+Deno.test('chatKnowledge - chunkDocument', async (t) => {
+  await t.step('keeps a short document in one chunk', () => {
+    const chunks = chunkDocument('First paragraph.\n\nSecond paragraph.');
+    assertEquals(chunks.length, 1);
+    assertEquals(chunks[0].content, 'First paragraph.\n\nSecond paragraph.');
+    assertEquals(chunks[0].heading, null);
+  });
+
+  await t.step('splits at paragraph borders and tags the heading above each chunk', () => {
+    const text = [
+      '# Treasury',
+      'a'.repeat(60),
+      'b'.repeat(60),
+      '## Reserves',
+      'c'.repeat(60),
+    ].join('\n\n');
+
+    const chunks = chunkDocument(text, 100, 0);
+    assertEquals(chunks.map(c => c.heading), ['Treasury', 'Treasury', 'Reserves']);
+    assertEquals(chunks[1].content, 'b'.repeat(60));
+    assertEquals(chunks[2].content, `## Reserves\n\n${'c'.repeat(60)}`);
+  });
+
+  await t.step('does not carry overlap into a new section', () => {
+    const chunks = chunkDocument(`# One\n\n${'word '.repeat(20)}\n\n# Two\n\nShort.`, 200, 30);
+    assertEquals(chunks[1].content, '# Two\n\nShort.');
+  });
+
+  await t.step('repeats the end of a chunk at the start of the next', () => {
+    const first = 'one two three four five six seven eight nine ten';
+    const chunks = chunkDocument(`${first}\n\nnext paragraph here`, 60, 12);
+    assertEquals(chunks.length, 2);
+    assertEquals(chunks[1].content, 'nine ten\n\nnext paragraph here');
+  });
+
+  await t.step('splits paragraphs longer than a chunk at sentence ends', () => {
+    const sentence = 'This sentence is about forty chars long. ';
+    const chunks = chunkDocument(sentence.repeat(5), 100, 0);
+    assert(chunks.length >= 2);
+    for (const chunk of chunks) {
+      assert(chunk.content.length <= 100);
+      assert(chunk.content.endsWith('.'));
+    }
+  });
+});
+
+Deno.test('chatKnowledge - decodeTextAttachment', () => {
+  const base64 = btoa(String.fromCharCode(...new TextEncoder().encode('Reserve: 20% — ok')));
+  assertEquals(decodeTextAttachment(base64), 'Reserve: 20% — ok');
+});
+
+Deno.test('chatKnowledge - formatRetrievedChunksForPrompt', async (t) => {
+  await t.step('numbers chunks in order with source and heading', () => {
+    const prompt = formatRetrievedChunksForPrompt([
+      makeChunk(),
+      makeChunk({ id: 'chunk-2', sourceName: 'policy.md', heading: 'Payouts', content: 'Payouts run monthly.' }),
+    ]);
+    assertStringIncludes(prompt, '[1] whitepaper.pdf\nThe treasury keeps 20% in reserve.');
+    assertStringIncludes(prompt, '[2] policy.md — Payouts\nPayouts run monthly.');
+  });
+
+  await t.step('empty without chunks', () => {
+    assertEquals(formatRetrievedChunksForPrompt([]), '');
+  });
+});
+
+Deno.test('chatKnowledge - extractCitationMarkers', async (t) => {
+  await t.step('returns markers in order of first use', () => {
+    assertEquals(extractCitationMarkers('Reserves are 20% [2]. Payouts are monthly [1][2].', 3), [2, 1]);
+  });
+
+  await t.step('ignores numbers outside the retrieved chunks', () => {
+    assertEquals(extractCitationMarkers('See [0] and [4].', 3), []);
+  });
+
+  await t.step('ignores Markdown links', () => {
+    assertEquals(extractCitationMarkers('Docs: [1](https://docs.juicebox.money)', 3), []);
+  });
+});
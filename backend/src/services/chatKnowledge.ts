@@ -0,0 +1,522 @@
+/**
+ * Chat Knowledge Base Service
+ *
+ * Documents uploaded to a chat (whitepapers, treasury policies) are split
+ * into overlapping chunks, embedded with Voyage and stored in pgvector
+ * (chat_knowledge_chunks). Each AI prompt retrieves the closest chunks into
+ * context (see buildOptimizedContext), numbered so the reply can cite them
+ * as [1], [2]; the markers the reply actually used are saved as citations
+ * and shown under the message.
+ *
+ * Plain text and Markdown are chunked as uploaded. PDFs are first
+ * transcribed by the AI, since there is no PDF parser in this runtime.
+ * Like message search, private chats are never sent out for embedding, and
+ * everything is a no-op without pgvector or a Voyage API key - the AI then
+ * falls back to the attachment summaries.
+ */
+
+import { query, queryOne, execute } from '../db/index.ts';
+import { getConfig } from '../utils/config.ts';
+import { logger } from '../utils/logger.ts';
+import { generateEmbedding, generateBatchEmbeddings, formatEmbeddingForPostgres } from './embeddingService.ts';
+import { estimateTokens } from './summarization.ts';
+
+// ~450 tokens per chunk, with a sentence or two repeated across chunk borders
+const CHUNK_CHARS = 1800;
+const CHUNK_OVERLAP_CHARS = 200;
+
+// Chunks retrieved per prompt, and the similarity below which they're noise
+export const RETRIEVAL_TOP_K = 6;
+const MIN_RETRIEVAL_SIMILARITY = 0.35;
+
+// Cap per document so one upload can't flood the index
+const MAX_DOCUMENT_CHARS = 400_000;
+const MAX_TRANSCRIPT_TOKENS = 8192;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DocumentAttachment {
+  type: 'image' | 'document';
+  mimeType: string;
+  data: string; // base64
+  filename?: string;
+}
+
+export interface DocumentChunk {
+  index: number;
+  heading: string | null; // Nearest Markdown heading above the chunk
+  content: string;
+}
+
+export interface RetrievedChunk {
+  id: string;
+  messageId: string;
+  sourceName: string;
+  chunkIndex: number;
+  heading: string | null;
+  content: string;
+  tokenCount: number;
+  similarity: number;
+}
+
+export interface MessageCitation {
+  marker: number;
+  chunkId: string;
+  sourceMessageId: string;
+  sourceName: string;
+  chunkIndex: number;
+  heading: string | null;
+  content: string;
+}
+
+interface DbChunk {
+  id: string;
+  message_id: string;
+  source_name: string;
+  chunk_index: number;
+  heading: string | null;
+  content: string;
+  token_count: number;
+  similarity: number;
+}
+
+interface DbCitation {
+  message_id: string;
+  marker: number;
+  chunk_id: string;
+  source_message_id: string;
+  source_name: string;
+  chunk_index: number;
+  heading: string | null;
+  content: string;
+}
+
+// ============================================================================
+// Chunking
+// ============================================================================
+
+/**
+ * Split a paragraph longer than maxChars at sentence ends (or mid-text as a
+ * last resort)
+ */
+function splitLongParagraph(paragraph: string, maxChars: number): string[] {
+  const sentences = paragraph.match(/[^.!?]+(?:[.!?]+\s*|$)/g) ?? [paragraph];
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    if (sentence.length > maxChars) {
+      for (let i = 0; i < sentence.length; i += maxChars) {
+        pieces.push(sentence.slice(i, i + maxChars).trim());
+      }
+    } else {
+      current += sentence;
+    }
+  }
+  if (current.trim()) pieces.push(current.trim());
+
+  return pieces.filter(piece => piece.length > 0);
+}
+
+/**
+ * Last ~overlapChars of a chunk, starting at a word boundary
+ */
+function overlapTail(text: string, overlapChars: number): string {
+  const start = text.length - overlapChars;
+  if (overlapChars <= 0 || start <= 0) return '';
+  const space = text.indexOf(' ', start);
+  return space === -1 ? '' : text.slice(space + 1);
+}
+
+/**
+ * Split a document into chunks of whole paragraphs, each tagged with the
+ * Markdown heading it falls under. Headings always start a new chunk; within
+ * a section, consecutive chunks share a short overlap so facts spanning a
+ * border stay retrievable.
+ */
+export function chunkDocument(
+  text: string,
+  maxChars: number = CHUNK_CHARS,
+  overlapChars: number = CHUNK_OVERLAP_CHARS
+): DocumentChunk[] {
+  const paragraphs = text
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0)
+    .flatMap(paragraph => paragraph.length > maxChars ? splitLongParagraph(paragraph, maxChars) : [paragraph]);
+
+  const chunks: DocumentChunk[] = [];
+  let heading: string | null = null;
+  let chunkHeading: string | null = null;
+  let buffer: string[] = [];
+  let carry = '';
+
+  const emit = () => {
+    if (buffer.length === 0) return;
+    const body = buffer.join('\n\n');
+    chunks.push({
+      index: chunks.length,
+      heading: chunkHeading,
+      content: carry ? `${carry}\n\n${body}` : body,
+    });
+    carry = overlapTail(body, overlapChars);
+    buffer = [];
+  };
+
+  for (const paragraph of paragraphs) {
+    const headingMatch = paragraph.match(/^#{1,6}\s+(.+)/);
+    const length = carry.length + buffer.reduce((sum, p) => sum + p.length + 2, 0);
+    if (buffer.length > 0 && (headingMatch || length + paragraph.length > maxChars)) {
+      emit();
+    }
+
+    if (headingMatch) {
+      // A new section starts a new chunk, without the previous section's tail
+      heading = headingMatch[1].trim();
+      carry = '';
+    }
+    if (buffer.length === 0) {
+      chunkHeading = heading;
+    }
+    buffer.push(paragraph);
+  }
+  emit();
+
+  return chunks;
+}
+
+/**
+ * Decode a base64 text attachment (UTF-8)
+ */
+export function decodeTextAttachment(data: string): string {
+  const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+// ============================================================================
+// Prompt & Citations
+// ============================================================================
+
+function describeChunk(chunk: Pick<RetrievedChunk, 'sourceName' | 'heading'>): string {
+  return chunk.heading ? `${chunk.sourceName} — ${chunk.heading}` : chunk.sourceName;
+}
+
+/**
+ * Format retrieved chunks for system prompt injection. Numbers follow the
+ * chunks' order, which is what extractCitationMarkers maps back.
+ */
+export function formatRetrievedChunksForPrompt(chunks: RetrievedChunk[]): string {
+  if (chunks.length === 0) return '';
+
+  const parts: string[] = [];
+  parts.push('# Document Excerpts');
+  parts.push('');
+  parts.push(
+    'Passages from documents uploaded to this chat that match the latest message. ' +
+    'When you use one, cite it with its number in square brackets, e.g. [2]. ' +
+    'Do not cite numbers that are not listed here.'
+  );
+  parts.push('');
+
+  chunks.forEach((chunk, i) => {
+    parts.push(`[${i + 1}] ${describeChunk(chunk)}`);
+    parts.push(chunk.content);
+    parts.push('');
+  });
+
+  return parts.join('\n');
+}
+
+/**
+ * Citation markers ([n], 1 <= n <= chunkCount) used in a reply, in order of
+ * first use. Markdown links ("[1](https://...)") are not citations.
+ */
+export function extractCitationMarkers(content: string, chunkCount: number): number[] {
+  const markers: number[] = [];
+  for (const match of content.matchAll(/\[(\d{1,2})\](?!\()/g)) {
+    const marker = Number(match[1]);
+    if (marker >= 1 && marker <= chunkCount && !markers.includes(marker)) {
+      markers.push(marker);
+    }
+  }
+  return markers;
+}
+
+// ============================================================================
+// Indexing
+// ============================================================================
+
+async function hasKnowledgeTables(): Promise<boolean> {
+  try {
+    const result = await queryOne<{ exists: boolean }>(
+      `SELECT to_regclass('chat_knowledge_chunks') IS NOT NULL AS exists`
+    );
+    return result?.exists ?? false;
+  } catch {
+    return false;
+  }
+}
+
+export async function isKnowledgeBaseAvailable(): Promise<boolean> {
+  return !!getConfig().voyageApiKey && await hasKnowledgeTables();
+}
+
+const TRANSCRIBE_PROMPT = `Transcribe the attached document as Markdown.
+Keep every heading (as #/##/###), paragraph, list and table, and all numbers, addresses and names exactly as written.
+Do not summarize, comment on or skip any part. Output only the transcription.`;
+
+/**
+ * Full text of a document attachment, or null when it can't be read
+ */
+async function extractDocumentText(attachment: DocumentAttachment): Promise<string | null> {
+  if (attachment.type !== 'document') return null;
+
+  if (attachment.mimeType.startsWith('text/')) {
+    return decodeTextAttachment(attachment.data);
+  }
+
+  if (attachment.mimeType === 'application/pdf') {
+    const { sendMessage } = await import('./claude.ts');
+    const response = await sendMessage('system', {
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'document', source: { type: 'base64', media_type: attachment.mimeType, data: attachment.data } },
+          { type: 'text', text: 'Transcribe this document.' },
+        ],
+      }],
+      system: TRANSCRIBE_PROMPT,
+      maxTokens: MAX_TRANSCRIPT_TOKENS,
+      temperature: 0,
+      includeOmnichainContext: false,
+    });
+    return response.content;
+  }
+
+  // Word documents and other formats: the attachment summary is all we get
+  return null;
+}
+
+/**
+ * Chunk, embed and store one document attachment. Safe to call again for an
+ * attachment that is already indexed.
+ */
+export async function indexAttachment(
+  messageId: string,
+  chatId: string,
+  attachmentIndex: number,
+  attachment: DocumentAttachment
+): Promise<{ chunks: number }> {
+  if (attachment.type !== 'document' || !(await isKnowledgeBaseAvailable())) {
+    return { chunks: 0 };
+  }
+
+  const chat = await queryOne<{ is_private: boolean }>('SELECT is_private FROM multi_chats WHERE id = $1', [chatId]);
+  if (!chat || chat.is_private) {
+    return { chunks: 0 };
+  }
+
+  const existing = await queryOne<{ count: number }>(
+    `SELECT COUNT(*)::int AS count FROM chat_knowledge_chunks WHERE message_id = $1 AND attachment_index = $2`,
+    [messageId, attachmentIndex]
+  );
+  if (existing && existing.count > 0) {
+    return { chunks: existing.count };
+  }
+
+  const text = await extractDocumentText(attachment);
+  if (!text?.trim()) {
+    return { chunks: 0 };
+  }
+
+  const chunks = chunkDocument(text.slice(0, MAX_DOCUMENT_CHARS));
+  const sourceName = attachment.filename || `Attachment ${attachmentIndex + 1}`;
+  const { embeddings, totalTokens } = await generateBatchEmbeddings(
+    chunks.map(chunk => chunk.heading ? `${chunk.heading}\n\n${chunk.content}` : chunk.content),
+    { useCache: false }
+  );
+
+  let stored = 0;
+  for (let i = 0; i < chunks.length; i++) {
+    stored += await execute(
+      `INSERT INTO chat_knowledge_chunks (
+         chat_id, message_id, attachment_index, source_name,
+         chunk_index, heading, content, token_count, embedding, model
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9::vector, $10)
+       ON CONFLICT (message_id, attachment_index, chunk_index) DO NOTHING`,
+      [
+        chatId,
+        messageId,
+        attachmentIndex,
+        sourceName,
+        chunks[i].index,
+        chunks[i].heading,
+        chunks[i].content,
+        estimateTokens(chunks[i].content),
+        formatEmbeddingForPostgres(embeddings[i].embedding),
+        embeddings[i].model,
+      ]
+    );
+  }
+
+  logger.info('Indexed chat document', { chatId, messageId, attachmentIndex, chunks: stored, totalTokens });
+
+  return { chunks: stored };
+}
+
+/**
+ * Queue a document for background indexing
+ */
+export function queueAttachmentIndexing(
+  messageId: string,
+  chatId: string,
+  attachmentIndex: number,
+  attachment: DocumentAttachment
+): void {
+  indexAttachment(messageId, chatId, attachmentIndex, attachment).catch(err => {
+    console.error(`Failed to index attachment ${attachmentIndex} for message ${messageId}:`, err);
+  });
+}
+
+// ============================================================================
+// Retrieval
+// ============================================================================
+
+/**
+ * The chat's document chunks closest to a prompt, best first. Documents on
+ * deleted messages or parked branches are left out. Best-effort: returns
+ * nothing if embedding or the query fails.
+ */
+export async function retrieveChunks(
+  chatId: string,
+  prompt: string,
+  limit: number = RETRIEVAL_TOP_K
+): Promise<RetrievedChunk[]> {
+  if (!prompt.trim() || !(await isKnowledgeBaseAvailable())) {
+    return [];
+  }
+
+  try {
+    const { embedding } = await generateEmbedding(prompt);
+    const rows = await query<DbChunk>(
+      `SELECT c.id, c.message_id, c.source_name, c.chunk_index, c.heading, c.content, c.token_count,
+              1 - (c.embedding <=> $1::vector) AS similarity
+       FROM chat_knowledge_chunks c
+       JOIN multi_chat_messages m ON m.id = c.message_id
+       WHERE c.chat_id = $2
+         AND m.deleted_at IS NULL
+         AND m.branch_id IS NULL
+       ORDER BY c.embedding <=> $1::vector
+       LIMIT $3`,
+      [formatEmbeddingForPostgres(embedding), chatId, limit]
+    );
+
+    return rows
+      .filter(row => row.similarity >= MIN_RETRIEVAL_SIMILARITY)
+      .map(row => ({
+        id: row.id,
+        messageId: row.message_id,
+        sourceName: row.source_name,
+        chunkIndex: row.chunk_index,
+        heading: row.heading,
+        content: row.content,
+        tokenCount: row.token_count,
+        similarity: row.similarity,
+      }));
+  } catch (error) {
+    logger.warn('Knowledge base retrieval failed', {
+      chatId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+// ============================================================================
+// Citations
+// ============================================================================
+
+function toCitation(row: DbCitation): MessageCitation {
+  return {
+    marker: row.marker,
+    chunkId: row.chunk_id,
+    sourceMessageId: row.source_message_id,
+    sourceName: row.source_name,
+    chunkIndex: row.chunk_index,
+    heading: row.heading,
+    content: row.content,
+  };
+}
+
+/**
+ * Save the chunks a reply cited, given the chunks its prompt was built with
+ */
+export async function saveMessageCitations(
+  messageId: string,
+  content: string,
+  chunks: RetrievedChunk[]
+): Promise<MessageCitation[]> {
+  const markers = extractCitationMarkers(content, chunks.length);
+  if (markers.length === 0) return [];
+
+  const citations: MessageCitation[] = [];
+  for (const marker of markers) {
+    const chunk = chunks[marker - 1];
+    await execute(
+      `INSERT INTO chat_message_citations (message_id, chunk_id, marker)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (message_id, marker) DO NOTHING`,
+      [messageId, chunk.id, marker]
+    );
+    citations.push({
+      marker,
+      chunkId: chunk.id,
+      sourceMessageId: chunk.messageId,
+      sourceName: chunk.sourceName,
+      chunkIndex: chunk.chunkIndex,
+      heading: chunk.heading,
+      content: chunk.content,
+    });
+  }
+
+  return citations;
+}
+
+/**
+ * Attach saved citations to a page of messages
+ */
+export async function withCitations<T extends { id: string }>(
+  messages: T[]
+): Promise<(T & { citations?: MessageCitation[] })[]> {
+  if (messages.length === 0 || !(await hasKnowledgeTables())) return messages;
+
+  const rows = await query<DbCitation>(
+    `SELECT c.message_id, c.marker, c.chunk_id, k.message_id AS source_message_id,
+            k.source_name, k.chunk_index, k.heading, k.content
+     FROM chat_message_citations c
+     JOIN chat_knowledge_chunks k ON k.id = c.chunk_id
+     WHERE c.message_id = ANY($1)
+     ORDER BY c.marker`,
+    [messages.map(m => m.id)]
+  );
+  if (rows.length === 0) return messages;
+
+  const byMessage = new Map<string, MessageCitation[]>();
+  for (const row of rows) {
+    const citations = byMessage.get(row.message_id) ?? [];
+    citations.push(toCitation(row));
+    byMessage.set(row.message_id, citations);
+  }
+
+  return messages.map(m => {
+    const citations = byMessage.get(m.id);
+    return citations ? { ...m, citations } : m;
+  });
+}
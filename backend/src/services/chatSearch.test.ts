@@ -0,0 +1,83 @@
+import { assertEquals } from 'std/assert/mod.ts';
+import {
+  parseHeadline,
+  extractSearchTerms,
+  buildSnippet,
+  mergeSearchResults,
+} from './chatSearch.ts';
+
+// ============================================================================
+// Snippet Tests
+// ============================================================================
+
+Deno.test('chatSearch - parseHeadline', async (t) => {
+  await t.step('strips markers and records offsets', () => {
+    const result = parseHeadline('deploy the \u0002revnet\u0003 on \u0002base\u0003 today');
+    assertEquals(result.snippet, 'deploy the revnet on base today');
+    assertEquals(result.highlights, [[11, 17], [21, 25]]);
+  });
+
+  await t.step('returns plain text untouched', () => {
+    assertEquals(parseHeadline('no matches here'), { snippet: 'no matches here', highlights: [] });
+  });
+});
+
+Deno.test('chatSearch - extractSearchTerms', async (t) => {
+  await t.step('drops quotes, OR and excluded terms', () => {
+    assertEquals(extractSearchTerms('"cash out" OR redeem -refund'), ['cash', 'out', 'redeem']);
+  });
+});
+
+Deno.test('chatSearch - buildSnippet', async (t) => {
+  await t.step('highlights every occurrence case-insensitively', () => {
+    const result = buildSnippet('Payout splits: set the Payout limit first', ['payout']);
+    assertEquals(result.snippet, 'Payout splits: set the Payout limit first');
+    assertEquals(result.highlights, [[0, 6], [23, 29]]);
+  });
+
+  await t.step('centers long content on the first match', () => {
+    const content = `${'a '.repeat(100)}treasury ${'b '.repeat(100)}`;
+    const result = buildSnippet(content, ['treasury'], 40);
+    assertEquals(result.snippet.startsWith('…'), true);
+    assertEquals(result.snippet.endsWith('…'), true);
+    assertEquals(result.highlights.length, 1);
+    const [start, end] = result.highlights[0];
+    assertEquals(result.snippet.slice(start, end), 'treasury');
+  });
+
+  await t.step('falls back to the start when nothing matches', () => {
+    const result = buildSnippet('semantic match with different wording', ['refund']);
+    assertEquals(result.snippet, 'semantic match with different wording');
+    assertEquals(result.highlights, []);
+  });
+});
+
+// ============================================================================
+// Ranking Tests
+// ============================================================================
+
+Deno.test('chatSearch - mergeSearchResults', async (t) => {
+  await t.step('boosts messages found by both searches', () => {
+    const merged = mergeSearchResults(
+      [{ messageId: 'a' }, { messageId: 'b' }],
+      [{ messageId: 'c' }, { messageId: 'b' }],
+      10
+    );
+    assertEquals(merged.map(r => r.messageId), ['b', 'a', 'c']);
+    assertEquals(merged.map(r => r.matchType), ['both', 'text', 'semantic']);
+  });
+
+  await t.step('keeps the full-text hit when both match', () => {
+    const merged = mergeSearchResults(
+      [{ messageId: 'a', snippet: 'headline' }],
+      [{ messageId: 'a', snippet: 'fallback' }],
+      10
+    );
+    assertEquals(merged[0].snippet, 'headline');
+  });
+
+  await t.step('applies the limit', () => {
+    const hits = ['a', 'b', 'c'].map(messageId => ({ messageId }));
+    assertEquals(mergeSearchResults(hits, [], 2).length, 2);
+  });
+});
@@ -0,0 +1,416 @@
+/**
+ * Chat Search Service
+ *
+ * Searches a user's message history by combining Postgres full-text search
+ * with semantic similarity over Voyage embeddings (chat_message_embeddings).
+ * The two ranked lists are merged with reciprocal rank fusion.
+ *
+ * Only unencrypted messages are indexed - encrypted chats store ciphertext,
+ * so clients search those locally after decryption. Private chats are
+ * full-text searchable but never sent out for embedding.
+ */
+
+import { query, queryOne, execute } from '../db/index.ts';
+import { getConfig } from '../utils/config.ts';
+import { logger } from '../utils/logger.ts';
+import {
+  generateEmbedding,
+  generateBatchEmbeddings,
+  formatEmbeddingForPostgres,
+} from './embeddingService.ts';
+
+export const MAX_SEARCH_RESULTS = 50;
+
+// Semantic hits below this similarity are mostly noise
+const MIN_SEMANTIC_SIMILARITY = 0.5;
+
+// Standard reciprocal rank fusion constant
+const RRF_K = 60;
+
+const SNIPPET_LENGTH = 160;
+
+// Messages shorter than this carry too little meaning to embed
+const MIN_EMBED_CHARS = 20;
+
+// Keep embedding input well under the model's context window
+const MAX_EMBED_CHARS = 8000;
+
+// Markers handed to ts_headline and stripped again by parseHeadline()
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SearchMatchType = 'text' | 'semantic' | 'both';
+
+export type Highlight = [start: number, end: number];
+
+export interface ChatSearchResult {
+  chatId: string;
+  chatName: string | null;
+  messageId: string;
+  role: 'user' | 'assistant' | 'system';
+  senderAddress: string;
+  snippet: string;
+  highlights: Highlight[]; // Offsets into snippet
+  matchType: SearchMatchType;
+  score: number;
+  createdAt: Date;
+}
+
+interface DbSearchHit {
+  message_id: string;
+  chat_id: string;
+  chat_name: string | null;
+  role: 'user' | 'assistant' | 'system';
+  sender_address: string;
+  content: string;
+  headline?: string;
+  similarity?: number;
+  created_at: Date;
+}
+
+type SearchHit = Omit<ChatSearchResult, 'matchType' | 'score'>;
+
+// ============================================================================
+// Snippets
+// ============================================================================
+
+/**
+ * Split a ts_headline result into plain text plus highlight offsets
+ */
+export function parseHeadline(headline: string): { snippet: string; highlights: Highlight[] } {
+  const highlights: Highlight[] = [];
+  let snippet = '';
+  let start = -1;
+
+  for (const char of headline) {
+    if (char === HIGHLIGHT_START) {
+      start = snippet.length;
+    } else if (char === HIGHLIGHT_STOP) {
+      if (start >= 0 && snippet.length > start) {
+        highlights.push([start, snippet.length]);
+      }
+      start = -1;
+    } else {
+      snippet += char;
+    }
+  }
+
+  return { snippet, highlights };
+}
+
+/**
+ * Words from a websearch-style query, minus operators and excluded terms
+ */
+export function extractSearchTerms(searchQuery: string): string[] {
+  return searchQuery
+    .replace(/"/g, ' ')
+    .split(/\s+/)
+    .filter(term => term.length > 0 && !term.startsWith('-') && term.toLowerCase() !== 'or');
+}
+
+/**
+ * Build a snippet around the first matching term.
+ * Used for semantic hits, which have no ts_headline.
+ */
+export function buildSnippet(
+  content: string,
+  terms: string[],
+  maxLength: number = SNIPPET_LENGTH
+): { snippet: string; highlights: Highlight[] } {
+  const text = content.replace(/\s+/g, ' ').trim();
+  const lower = text.toLowerCase();
+  const needles = terms.map(term => term.toLowerCase()).filter(term => term.length > 0);
+
+  const firstMatch = needles
+    .map(needle => lower.indexOf(needle))
+    .filter(index => index >= 0)
+    .sort((a, b) => a - b)[0] ?? 0;
+
+  const end = Math.min(text.length, Math.max(0, firstMatch - Math.floor(maxLength / 4)) + maxLength);
+  const start = Math.max(0, end - maxLength);
+
+  const snippet = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+
+  // Collect non-overlapping matches in order
+  const snippetLower = snippet.toLowerCase();
+  const ranges: Highlight[] = [];
+  for (const needle of needles) {
+    let index = snippetLower.indexOf(needle);
+    while (index >= 0) {
+      ranges.push([index, index + needle.length]);
+      index = snippetLower.indexOf(needle, index + needle.length);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0] || b[1] - a[1]);
+
+  const highlights: Highlight[] = [];
+  for (const range of ranges) {
+    const last = highlights[highlights.length - 1];
+    if (!last || range[0] >= last[1]) {
+      highlights.push(range);
+    }
+  }
+
+  return { snippet, highlights };
+}
+
+// ============================================================================
+// Ranking
+// ============================================================================
+
+/**
+ * Merge full-text and semantic hits with reciprocal rank fusion.
+ * When a message appears in both lists the full-text version is kept,
+ * since its snippet comes from ts_headline.
+ */
+export function mergeSearchResults<T extends { messageId: string }>(
+  textHits: T[],
+  semanticHits: T[],
+  limit: number
+): (T & { matchType: SearchMatchType; score: number })[] {
+  const merged = new Map<string, T & { matchType: SearchMatchType; score: number }>();
+
+  textHits.forEach((hit, rank) => {
+    merged.set(hit.messageId, { ...hit, matchType: 'text', score: 1 / (RRF_K + rank + 1) });
+  });
+
+  semanticHits.forEach((hit, rank) => {
+    const score = 1 / (RRF_K + rank + 1);
+    const existing = merged.get(hit.messageId);
+    if (existing) {
+      existing.matchType = 'both';
+      existing.score += score;
+    } else {
+      merged.set(hit.messageId, { ...hit, matchType: 'semantic', score });
+    }
+  });
+
+  return [...merged.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+function buildScope(
+  params: { addresses: string[]; chatId?: string },
+  paramIndex: number
+): { sql: string; args: unknown[] } {
+  if (params.chatId) {
+    return { sql: `m.chat_id = $${paramIndex}`, args: [params.chatId] };
+  }
+
+  return {
+    sql: `m.chat_id IN (
+      SELECT chat_id FROM multi_chat_members
+      WHERE member_address = ANY($${paramIndex}) AND is_active = TRUE
+    )`,
+    args: [params.addresses],
+  };
+}
+
+async function searchFullText(
+  searchQuery: string,
+  scope: { addresses: string[]; chatId?: string },
+  limit: number
+): Promise<SearchHit[]> {
+  const { sql: scopeSql, args: scopeArgs } = buildScope(scope, 4);
+
+  const rows = await query<DbSearchHit>(
+    `SELECT m.id AS message_id, m.chat_id, COALESCE(mc.auto_generated_title, mc.name) AS chat_name,
+            m.role, m.sender_address, m.content, m.created_at,
+            ts_headline('simple', m.content, q, $2) AS headline
+     FROM multi_chat_messages m
+     JOIN multi_chats mc ON mc.id = m.chat_id
+     CROSS JOIN websearch_to_tsquery('simple', $1) q
+     WHERE ${scopeSql}
+       AND m.is_encrypted = FALSE
+       AND m.deleted_at IS NULL
+       AND m.branch_id IS NULL
+       AND mc.encrypted = FALSE
+       AND to_tsvector('simple', m.content) @@ q
+     ORDER BY ts_rank_cd(to_tsvector('simple', m.content), q) DESC, m.created_at DESC
+     LIMIT $3`,
+    [
+      searchQuery,
+      `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=30, MinWords=12, MaxFragments=1`,
+      limit,
+      ...scopeArgs,
+    ]
+  );
+
+  return rows.map(row => ({
+    ...mapHit(row),
+    ...parseHeadline(row.headline ?? row.content),
+  }));
+}
+
+async function searchSemantic(
+  searchQuery: string,
+  scope: { addresses: string[]; chatId?: string },
+  limit: number
+): Promise<SearchHit[]> {
+  if (!getConfig().voyageApiKey || !(await hasMessageEmbeddings())) {
+    return [];
+  }
+
+  try {
+    const { embedding } = await generateEmbedding(searchQuery);
+    const { sql: scopeSql, args: scopeArgs } = buildScope(scope, 3);
+
+    const rows = await query<DbSearchHit>(
+      `SELECT m.id AS message_id, m.chat_id, COALESCE(mc.auto_generated_title, mc.name) AS chat_name,
+              m.role, m.sender_address, m.content, m.created_at,
+              1 - (e.embedding <=> $1::vector) AS similarity
+       FROM chat_message_embeddings e
+       JOIN multi_chat_messages m ON m.id = e.message_id
+       JOIN multi_chats mc ON mc.id = m.chat_id
+       WHERE ${scopeSql}
+         AND m.deleted_at IS NULL
+         AND m.branch_id IS NULL
+       ORDER BY e.embedding <=> $1::vector
+       LIMIT $2`,
+      [formatEmbeddingForPostgres(embedding), limit, ...scopeArgs]
+    );
+
+    const terms = extractSearchTerms(searchQuery);
+    return rows
+      .filter(row => (row.similarity ?? 0) >= MIN_SEMANTIC_SIMILARITY)
+      .map(row => ({
+        ...mapHit(row),
+        ...buildSnippet(row.content, terms),
+      }));
+  } catch (error) {
+    // Semantic search is best-effort - full-text results still come back
+    logger.warn('Semantic chat search failed, using full-text only', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+function mapHit(row: DbSearchHit): Omit<SearchHit, 'snippet' | 'highlights'> {
+  return {
+    chatId: row.chat_id,
+    chatName: row.chat_name,
+    messageId: row.message_id,
+    role: row.role,
+    senderAddress: row.sender_address,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Search messages across a user's chats.
+ *
+ * Without chatId, results are limited to chats where one of the addresses is
+ * an active member. With chatId the caller must already have checked read
+ * access (this also covers public chats the user hasn't joined).
+ */
+export async function searchChats(params: {
+  query: string;
+  addresses: string[];
+  chatId?: string;
+  limit?: number;
+}): Promise<ChatSearchResult[]> {
+  const searchQuery = params.query.trim();
+  if (!searchQuery) {
+    return [];
+  }
+
+  const limit = Math.min(params.limit ?? 20, MAX_SEARCH_RESULTS);
+  const scope = { addresses: params.addresses, chatId: params.chatId };
+
+  // Fetch extra candidates from each side so fusion has something to rank
+  const [textHits, semanticHits] = await Promise.all([
+    searchFullText(searchQuery, scope, limit * 2),
+    searchSemantic(searchQuery, scope, limit * 2),
+  ]);
+
+  return mergeSearchResults(textHits, semanticHits, limit);
+}
+
+// ============================================================================
+// Embedding Backfill
+// ============================================================================
+
+async function hasMessageEmbeddings(): Promise<boolean> {
+  try {
+    const result = await queryOne<{ exists: boolean }>(
+      `SELECT to_regclass('chat_message_embeddings') IS NOT NULL AS exists`
+    );
+    return result?.exists ?? false;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Embed recent messages that don't have an embedding yet.
+ * No-op when pgvector or the Voyage API key is unavailable.
+ */
+export async function embedPendingMessages(batchSize: number = 128): Promise<{ embedded: number }> {
+  if (!getConfig().voyageApiKey || !(await hasMessageEmbeddings())) {
+    return { embedded: 0 };
+  }
+
+  const pending = await query<{ id: string; chat_id: string; content: string }>(
+    `SELECT m.id, m.chat_id, m.content
+     FROM multi_chat_messages m
+     JOIN multi_chats mc ON mc.id = m.chat_id
+     LEFT JOIN chat_message_embeddings e ON e.message_id = m.id
+     WHERE e.message_id IS NULL
+       AND m.is_encrypted = FALSE
+       AND m.deleted_at IS NULL
+       AND m.role IN ('user', 'assistant')
+       AND mc.encrypted = FALSE
+       AND mc.is_private = FALSE
+       AND LENGTH(m.content) >= $2
+     ORDER BY m.created_at DESC
+     LIMIT $1`,
+    [batchSize, MIN_EMBED_CHARS]
+  );
+
+  if (pending.length === 0) {
+    return { embedded: 0 };
+  }
+
+  const { embeddings, totalTokens } = await generateBatchEmbeddings(
+    pending.map(message => message.content.slice(0, MAX_EMBED_CHARS)),
+    { useCache: false }
+  );
+
+  let embedded = 0;
+  for (let i = 0; i < pending.length; i++) {
+    embedded += await execute(
+      `INSERT INTO chat_message_embeddings (message_id, chat_id, embedding, model)
+       VALUES ($1, $2, $3::vector, $4)
+       ON CONFLICT (message_id) DO NOTHING`,
+      [
+        pending[i].id,
+        pending[i].chat_id,
+        formatEmbeddingForPostgres(embeddings[i].embedding),
+        embeddings[i].model,
+      ]
+    );
+  }
+
+  logger.info('Embedded chat messages for search', { embedded, totalTokens });
+
+  return { embedded };
+}
+
+/**
+ * Drop a message's embedding after its content is edited, so the next
+ * backfill re-embeds the new text
+ */
+export async function forgetMessageEmbedding(messageId: string): Promise<void> {
+  if (!(await hasMessageEmbeddings())) return;
+  await execute('DELETE FROM chat_message_embeddings WHERE message_id = $1', [messageId]);
+}
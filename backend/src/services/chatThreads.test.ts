@@ -0,0 +1,42 @@
+import { assertEquals } from 'std/assert/mod.ts';
+import { isValidReaction, summarizeReactions } from './chatThreads.ts';
+
+const ALICE = '0x00000000000000000000000000000000000a11ce';
+const BOB = '0x0000000000000000000000000000000000000b0b';
+
+Deno.test('chatThreads - isValidReaction', async (t) => {
+  await t.step('accepts single emoji, modifiers, ZWJ sequences and flags', () => {
+    for (const emoji of ['👍', '❤️', '👍🏽', '👨‍👩‍👧', '🇺🇸', '🚀🚀']) {
+      assertEquals(isValidReaction(emoji), true, emoji);
+    }
+  });
+
+  await t.step('rejects text, digits and whitespace', () => {
+    for (const emoji of ['', 'hi', '1', '123👍', '👍 ', ':)']) {
+      assertEquals(isValidReaction(emoji), false, emoji);
+    }
+  });
+
+  await t.step('rejects long runs', () => {
+    assertEquals(isValidReaction('🚀'.repeat(17)), false);
+  });
+});
+
+Deno.test('chatThreads - summarizeReactions', async (t) => {
+  await t.step('groups by emoji in order of first use', () => {
+    const summary = summarizeReactions([
+      { emoji: '🚀', member_address: BOB, created_at: new Date('2026-03-01T12:02:00Z') },
+      { emoji: '👍', member_address: ALICE, created_at: new Date('2026-03-01T12:00:00Z') },
+      { emoji: '👍', member_address: BOB, created_at: new Date('2026-03-01T12:01:00Z') },
+    ]);
+
+    assertEquals(summary, [
+      { emoji: '👍', count: 2, members: [ALICE, BOB] },
+      { emoji: '🚀', count: 1, members: [BOB] },
+    ]);
+  });
+
+  await t.step('no rows means no reactions', () => {
+    assertEquals(summarizeReactions([]), []);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Chat Threads & Reactions Service
+ *
+ * Threads are one level deep: every reply's reply_to_id points at the thread
+ * root (sendMessage resolves replies-to-replies to the root), so a thread is
+ * the root plus all messages replying to it.
+ *
+ * Reactions are stored one row per member per emoji and always broadcast as
+ * the message's full summary, so clients replace rather than patch.
+ */
+
+import { query, execute } from '../db/index.ts';
+import { getMessageById, checkPermission, type ChatMessage } from './chat.ts';
+import { broadcastReactions } from './websocket.ts';
+
+const MAX_REACTION_LENGTH = 32;
+const MAX_DISTINCT_REACTIONS = 20;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  members: string[]; // Addresses, in the order they reacted
+}
+
+export interface ThreadedMessage extends ChatMessage {
+  reactions: ReactionSummary[];
+  replyCount: number;
+}
+
+interface DbReaction {
+  message_id: string;
+  member_address: string;
+  emoji: string;
+  created_at: Date;
+}
+
+// ============================================================================
+// Pure Helpers
+// ============================================================================
+
+/**
+ * A reaction is a short run of emoji (with modifiers/ZWJ sequences) and
+ * never plain text, so reactions can't be used as a side channel for messages.
+ */
+export function isValidReaction(emoji: string): boolean {
+  if (emoji.length === 0 || emoji.length > MAX_REACTION_LENGTH) return false;
+  if (!/[\p{Extended_Pictographic}\p{Regional_Indicator}]/u.test(emoji)) return false;
+  return /^[\p{Extended_Pictographic}\p{Emoji_Modifier}\p{Regional_Indicator}\u200D\uFE0F]+$/u.test(emoji);
+}
+
+/**
+ * Group reaction rows into per-emoji summaries, ordered by first use
+ */
+export function summarizeReactions(rows: Pick<DbReaction, 'emoji' | 'member_address' | 'created_at'>[]): ReactionSummary[] {
+  const byEmoji = new Map<string, ReactionSummary>();
+  const sorted = [...rows].sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+
+  for (const row of sorted) {
+    const summary = byEmoji.get(row.emoji) ?? { emoji: row.emoji, count: 0, members: [] };
+    summary.count++;
+    summary.members.push(row.member_address);
+    byEmoji.set(row.emoji, summary);
+  }
+
+  return [...byEmoji.values()];
+}
+
+// ============================================================================
+// Threads
+// ============================================================================
+
+/**
+ * Attach reaction summaries and reply counts to a page of messages
+ */
+export async function withThreadInfo(messages: ChatMessage[]): Promise<ThreadedMessage[]> {
+  if (messages.length === 0) return [];
+  const ids = messages.map((m) => m.id);
+
+  const [reactionRows, replyRows] = await Promise.all([
+    query<DbReaction>(
+      `SELECT message_id, member_address, emoji, created_at
+       FROM multi_chat_message_reactions
+       WHERE message_id = ANY($1)`,
+      [ids]
+    ),
+    query<{ reply_to_id: string; count: string }>(
+      `SELECT reply_to_id, COUNT(*) AS count
+       FROM multi_chat_messages
+       WHERE reply_to_id = ANY($1) AND deleted_at IS NULL AND branch_id IS NULL
+       GROUP BY reply_to_id`,
+      [ids]
+    ),
+  ]);
+
+  const rowsByMessage = new Map<string, DbReaction[]>();
+  for (const row of reactionRows) {
+    const list = rowsByMessage.get(row.message_id) ?? [];
+    list.push(row);
+    rowsByMessage.set(row.message_id, list);
+  }
+  const replyCounts = new Map(replyRows.map((r) => [r.reply_to_id, Number(r.count)]));
+
+  return messages.map((m) => ({
+    ...m,
+    reactions: summarizeReactions(rowsByMessage.get(m.id) ?? []),
+    replyCount: replyCounts.get(m.id) ?? 0,
+  }));
+}
+
+/**
+ * Get a thread: its root message and every reply, oldest first
+ */
+export async function getThread(
+  chatId: string,
+  rootMessageId: string
+): Promise<{ root: ThreadedMessage; replies: ThreadedMessage[] }> {
+  const root = await getMessageById(rootMessageId);
+  if (!root || root.chatId !== chatId || root.deletedAt) {
+    throw new Error('Message not found');
+  }
+  if (root.replyToId) {
+    // Asked for a reply - return the thread it belongs to
+    return getThread(chatId, root.replyToId);
+  }
+
+  const replies = await query<{ id: string }>(
+    `SELECT id FROM multi_chat_messages
+     WHERE reply_to_id = $1 AND deleted_at IS NULL AND branch_id IS NULL
+     ORDER BY created_at ASC`,
+    [rootMessageId]
+  );
+  const replyMessages = (await Promise.all(replies.map((r) => getMessageById(r.id))))
+    .filter((m): m is ChatMessage => m !== null);
+
+  const [threadedRoot, ...threadedReplies] = await withThreadInfo([root, ...replyMessages]);
+  return { root: threadedRoot, replies: threadedReplies };
+}
+
+// ============================================================================
+// Reactions
+// ============================================================================
+
+async function getMessageReactions(messageId: string): Promise<ReactionSummary[]> {
+  const rows = await query<DbReaction>(
+    `SELECT message_id, member_address, emoji, created_at
+     FROM multi_chat_message_reactions
+     WHERE message_id = $1`,
+    [messageId]
+  );
+  return summarizeReactions(rows);
+}
+
+async function getReactableMessage(chatId: string, messageId: string, memberAddress: string): Promise<ChatMessage> {
+  const message = await getMessageById(messageId);
+  if (!message || message.chatId !== chatId || message.deletedAt) {
+    throw new Error('Message not found');
+  }
+
+  const canWrite = await checkPermission(chatId, memberAddress, 'write');
+  if (!canWrite) {
+    throw new Error('Not authorized to react in this chat');
+  }
+
+  return message;
+}
+
+/**
+ * Add a member's reaction (idempotent) and broadcast the new summary
+ */
+export async function addReaction(
+  chatId: string,
+  messageId: string,
+  memberAddress: string,
+  emoji: string
+): Promise<ReactionSummary[]> {
+  if (!isValidReaction(emoji)) throw new Error('Invalid reaction');
+  await getReactableMessage(chatId, messageId, memberAddress);
+
+  const existing = await getMessageReactions(messageId);
+  if (existing.length >= MAX_DISTINCT_REACTIONS && !existing.some((r) => r.emoji === emoji)) {
+    throw new Error(`A message can have at most ${MAX_DISTINCT_REACTIONS} different reactions`);
+  }
+
+  await execute(
+    `INSERT INTO multi_chat_message_reactions (message_id, chat_id, member_address, emoji)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (message_id, member_address, emoji) DO NOTHING`,
+    [messageId, chatId, memberAddress, emoji]
+  );
+
+  const reactions = await getMessageReactions(messageId);
+  broadcastReactions(chatId, messageId, reactions, memberAddress);
+  return reactions;
+}
+
+/**
+ * Remove a member's reaction and broadcast the new summary
+ */
+export async function removeReaction(
+  chatId: string,
+  messageId: string,
+  memberAddress: string,
+  emoji: string
+): Promise<ReactionSummary[]> {
+  await getReactableMessage(chatId, messageId, memberAddress);
+
+  await execute(
+    `DELETE FROM multi_chat_message_reactions
+     WHERE message_id = $1 AND member_address = $2 AND emoji = $3`,
+    [messageId, memberAddress, emoji]
+  );
+
+  const reactions = await getMessageReactions(messageId);
+  broadcastReactions(chatId, messageId, reactions, memberAddress);
+  return reactions;
+}
@@ -0,0 +1,118 @@
+/**
+ * Chat Watchers Integration Tests
+ *
+ * Tests the cron path for scheduled reports:
+ * - Each due report is claimed once, even by overlapping cron runs
+ * - A resumed, overdue watcher runs on the next pass
+ *
+ * Watchers here live in a chat with AI turned off, so every report fails
+ * before reaching Bendystraw or an AI provider and records a failed run.
+ *
+ * These tests require a running database connection.
+ */
+
+import { assert, assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { query, queryOne, execute } from '../db/index.ts';
+import { SKIP_DB_TESTS } from '../test/helpers.ts';
+import { pauseWatcher, processChatWatchers, resumeWatcher } from './chatWatchers.ts';
+
+// ============================================================================
+// Test Setup
+// ============================================================================
+
+const FOUNDER = '0x00000000000000000000000000000000000c0001';
+
+async function cleanupTestData(): Promise<void> {
+  // Watchers and their runs cascade from the chat
+  await execute(`DELETE FROM multi_chats WHERE founder_address = $1`, [FOUNDER]);
+}
+
+// A monthly watcher, due now, in a chat with AI turned off
+async function createDueWatcher(): Promise<{ chatId: string; watcherId: string }> {
+  const [chat] = await query<{ id: string }>(
+    `INSERT INTO multi_chats (founder_address, name, ai_enabled) VALUES ($1, 'Watcher test', FALSE)
+     RETURNING id`,
+    [FOUNDER]
+  );
+
+  const [watcher] = await query<{ id: string }>(
+    `INSERT INTO chat_watchers (chat_id, project_id, chain_id, interval, created_by_address, next_run_at, anchor_day)
+     VALUES ($1, 1, 1, 'monthly', $2, NOW(), EXTRACT(DAY FROM NOW() AT TIME ZONE 'UTC'))
+     RETURNING id`,
+    [chat.id, FOUNDER]
+  );
+
+  return { chatId: chat.id, watcherId: watcher.id };
+}
+
+async function getRuns(watcherId: string): Promise<{ status: string; error_message: string | null }[]> {
+  return await query(
+    `SELECT status, error_message FROM chat_watcher_runs
+     WHERE watcher_id = $1
+     ORDER BY created_at`,
+    [watcherId]
+  );
+}
+
+async function getWatcherRow(watcherId: string) {
+  return (await queryOne<{ status: string; next_run_at: Date; consecutive_failures: number }>(
+    `SELECT status, next_run_at, consecutive_failures FROM chat_watchers WHERE id = $1`,
+    [watcherId]
+  ))!;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+Deno.test({
+  ignore: SKIP_DB_TESTS,
+  name: 'Chat Watchers Integration - Overlapping cron runs claim a report once',
+  // First test initializes DB pool, which opens TCP connections
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await cleanupTestData();
+    const { watcherId } = await createDueWatcher();
+
+    await Promise.all([processChatWatchers(), processChatWatchers()]);
+    await processChatWatchers();
+
+    const runs = await getRuns(watcherId);
+    assertEquals(runs.map((r) => [r.status, r.error_message]), [['failed', 'AI is turned off in this chat']]);
+
+    // Retried in a few hours, not on the next pass
+    const watcher = await getWatcherRow(watcherId);
+    assertEquals(watcher.consecutive_failures, 1);
+    assertEquals(watcher.status, 'active');
+    assert(new Date(watcher.next_run_at).getTime() > Date.now() + 5 * 60 * 60 * 1000);
+
+    await cleanupTestData();
+  },
+});
+
+Deno.test({
+  ignore: SKIP_DB_TESTS,
+  name: 'Chat Watchers Integration - A resumed overdue watcher runs on the next pass',
+  async fn() {
+    await cleanupTestData();
+    const { chatId, watcherId } = await createDueWatcher();
+
+    await pauseWatcher(chatId, watcherId);
+    await execute(
+      `UPDATE chat_watchers SET next_run_at = NOW() - INTERVAL '3 days' WHERE id = $1`,
+      [watcherId]
+    );
+    await processChatWatchers();
+    assertEquals(await getRuns(watcherId), []);
+
+    // Resuming sets next_run_at to NOW(), with more precision than a JS Date holds
+    await resumeWatcher(chatId, watcherId);
+    await processChatWatchers();
+
+    assertEquals((await getRuns(watcherId)).map((r) => r.status), ['failed']);
+    assertEquals((await getWatcherRow(watcherId)).consecutive_failures, 1);
+
+    await cleanupTestData();
+  },
+});
@@ -0,0 +1,110 @@
+import { assertEquals, assertStringIncludes } from 'std/assert/mod.ts';
+import {
+  getReportWindowStart,
+  summarizePayments,
+  buildReportPrompt,
+  withReportComponent,
+  type ProjectSnapshot,
+} from './chatWatchers.ts';
+
+const ALICE = '0x00000000000000000000000000000000000A11CE';
+const BOB = '0x0000000000000000000000000000000000000b0b';
+const ONE_ETH = '1000000000000000000';
+
+Deno.test('chatWatchers - getReportWindowStart', async (t) => {
+  const now = new Date('2026-03-16T09:00:00Z');
+
+  await t.step('covers the time since the previous report', () => {
+    const lastRunAt = new Date('2026-03-09T09:05:00Z');
+    assertEquals(getReportWindowStart(lastRunAt, 'weekly', now), lastRunAt);
+  });
+
+  await t.step('first report looks back one interval', () => {
+    assertEquals(getReportWindowStart(null, 'weekly', now), new Date('2026-03-09T09:00:00Z'));
+    assertEquals(getReportWindowStart(null, 'monthly', now), new Date('2026-02-16T09:00:00Z'));
+  });
+});
+
+Deno.test('chatWatchers - summarizePayments', async (t) => {
+  await t.step('totals amounts and counts payers case-insensitively', () => {
+    const summary = summarizePayments([
+      { amount: ONE_ETH, amountUsd: '2500', from: ALICE, timestamp: 1 },
+      { amount: '500000000000000000', amountUsd: '1250', from: ALICE.toLowerCase(), timestamp: 2 },
+      { amount: '2000000000000000000', amountUsd: null, from: BOB, timestamp: 3 },
+    ]);
+
+    assertEquals(summary.count, 3);
+    assertEquals(summary.uniquePayers, 2);
+    assertEquals(summary.totalWei, 3_500_000_000_000_000_000n);
+    assertEquals(summary.totalUsd, 3750);
+    assertEquals(summary.largestWei, 2_000_000_000_000_000_000n);
+  });
+
+  await t.step('no payments', () => {
+    assertEquals(summarizePayments([]), {
+      count: 0,
+      uniquePayers: 0,
+      totalWei: 0n,
+      totalUsd: 0,
+      largestWei: 0n,
+    });
+  });
+});
+
+Deno.test('chatWatchers - buildReportPrompt', async (t) => {
+  const snapshot: ProjectSnapshot = {
+    stats: {
+      id: '1-5-123',
+      projectId: 123,
+      chainId: 1,
+      owner: ALICE,
+      name: 'Juicy Garden',
+      volume: '10000000000000000000',
+      volumeUsd: '25000',
+      balance: ONE_ETH,
+      paymentsCount: 42,
+      contributorsCount: 17,
+    },
+    periodStart: new Date('2026-03-09T09:00:00Z'),
+    periodEnd: new Date('2026-03-16T09:00:00Z'),
+    payments: summarizePayments([{ amount: ONE_ETH, amountUsd: '2500', from: BOB, timestamp: 1 }]),
+    ruleset: { cycleNumber: 4, weight: '1000000000000000000000000', reservedPercent: 2500, pausePay: false },
+  };
+
+  await t.step('includes the period, totals and ruleset', () => {
+    const prompt = buildReportPrompt(snapshot, 'weekly');
+    assertStringIncludes(prompt, 'weekly report for Juicy Garden (project 123 on chain 1)');
+    assertStringIncludes(prompt, 'Payments this period: 1 from 1 payer(s), total 1.0000 ETH (~$2500.00)');
+    assertStringIncludes(prompt, 'All-time payments: 42, contributors: 17');
+    assertStringIncludes(prompt, 'cycle 4, issuance weight 1000000 tokens per unit, reserved 25%');
+  });
+
+  await t.step('passes on the member instructions', () => {
+    const prompt = buildReportPrompt(snapshot, 'weekly', 'Call out new payers');
+    assertStringIncludes(prompt, 'asked: Call out new payers');
+  });
+
+  await t.step('notes a missing ruleset instead of inventing one', () => {
+    const prompt = buildReportPrompt({ ...snapshot, ruleset: null }, 'monthly');
+    assertStringIncludes(prompt, 'Current ruleset: unavailable');
+  });
+});
+
+Deno.test('chatWatchers - withReportComponent', async (t) => {
+  await t.step('appends a project card', () => {
+    assertEquals(
+      withReportComponent('Quiet week.\n', { component: 'project-card', projectId: 123, chainId: 1, interval: 'weekly' }),
+      'Quiet week.\n\n<juice-component type="project-card" projectId="123" chainId="1" />'
+    );
+  });
+
+  await t.step('volume charts cover the report interval', () => {
+    const content = withReportComponent('Busy month.', {
+      component: 'volume-chart',
+      projectId: 123,
+      chainId: 8453,
+      interval: 'monthly',
+    });
+    assertStringIncludes(content, '<juice-component type="volume-chart" projectId="123" chainId="8453" range="30d" />');
+  });
+});
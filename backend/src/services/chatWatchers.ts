@@ -0,0 +1,653 @@
+/**
+ * Chat Watchers
+ *
+ * Scheduled AI reports on a project, posted into a chat ("tell me every
+ * Monday how project 123 did"). Each due report pulls the project's totals
+ * and recent payments from Bendystraw plus its current ruleset from chain,
+ * has the chat's AI provider summarize them, and posts the summary as an
+ * assistant message with a project-card or volume-chart component attached.
+ *
+ * Reports are billed like any other AI response: against the chat's AI
+ * balance, and towards the AI budgets of the member who set the watcher up.
+ * Scheduling follows recurring payments (see recurringPayments.ts).
+ */
+
+import { formatEther } from 'viem';
+import { query, queryOne, execute, transaction } from '../db/index.ts';
+import { logger } from '../utils/logger.ts';
+import { getProject, getProjectStats, getPayEventsSince, type PayEvent, type ProjectStats } from './bendystraw.ts';
+import { fetchCurrentRuleset } from './chainReader.ts';
+import { sendMessage } from './aiProvider.ts';
+import { canInvokeAi, deductAiCost } from './aiBilling.ts';
+import { getChatById, checkPermission, importMessage } from './chat.ts';
+import { getNextRunAt, type RecurringInterval } from './recurringPayments.ts';
+import { broadcastChatMessage } from './websocket.ts';
+
+export const MAX_WATCHERS_PER_CHAT = 10;
+
+// Pause a watcher after this many failed reports in a row
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+// Hours to wait before retrying a failed report
+const RETRY_DELAY_HOURS = 6;
+
+// Sender of AI messages (same as responses to /ai/invoke)
+const ASSISTANT_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const REPORT_SYSTEM_PROMPT = `You write short scheduled reports about a Juicebox project for a group chat.
+Use only the data provided; never invent numbers. Lead with the most notable change in the period,
+then cover payments, treasury and the current ruleset in 3-6 sentences or a few bullets.
+No headings and no component tags - a project card or chart is attached automatically.`;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type WatcherInterval = RecurringInterval;
+export type WatcherComponent = 'project-card' | 'volume-chart';
+export type WatcherStatus = 'active' | 'paused';
+
+export interface ChatWatcher {
+  id: string;
+  chatId: string;
+  projectId: number;
+  chainId: number;
+  interval: WatcherInterval;
+  component: WatcherComponent;
+  instructions: string | null;
+  createdByAddress: string;
+  status: WatcherStatus;
+  pauseReason: string | null;
+  nextRunAt: Date;
+  lastRunAt: Date | null;
+  consecutiveFailures: number;
+  createdAt: Date;
+}
+
+export interface ChatWatcherRun {
+  id: string;
+  messageId: string | null;
+  status: 'posted' | 'failed';
+  errorMessage: string | null;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  createdAt: Date;
+}
+
+export interface PaymentSummary {
+  count: number;
+  uniquePayers: number;
+  totalWei: bigint;
+  totalUsd: number;
+  largestWei: bigint;
+}
+
+export interface ProjectSnapshot {
+  stats: ProjectStats;
+  periodStart: Date;
+  periodEnd: Date;
+  payments: PaymentSummary;
+  ruleset: {
+    cycleNumber: number;
+    weight: string;
+    reservedPercent: number;
+    pausePay: boolean;
+  } | null;
+}
+
+interface DbChatWatcher {
+  id: string;
+  chat_id: string;
+  project_id: number;
+  chain_id: number;
+  interval: WatcherInterval;
+  component: WatcherComponent;
+  instructions: string | null;
+  created_by_address: string;
+  status: WatcherStatus;
+  pause_reason: string | null;
+  next_run_at: Date;
+  last_run_at: Date | null;
+  anchor_day: number | null;
+  consecutive_failures: number;
+  created_at: Date;
+}
+
+function dbToWatcher(row: DbChatWatcher): ChatWatcher {
+  return {
+    id: row.id,
+    chatId: row.chat_id,
+    projectId: row.project_id,
+    chainId: row.chain_id,
+    interval: row.interval,
+    component: row.component,
+    instructions: row.instructions,
+    createdByAddress: row.created_by_address,
+    status: row.status,
+    pauseReason: row.pause_reason,
+    nextRunAt: new Date(row.next_run_at),
+    lastRunAt: row.last_run_at ? new Date(row.last_run_at) : null,
+    consecutiveFailures: row.consecutive_failures,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// ============================================================================
+// Report Composition
+// ============================================================================
+
+/**
+ * Start of the window a report covers: the previous report, or one interval
+ * back for the first report
+ */
+export function getReportWindowStart(
+  lastRunAt: Date | null,
+  interval: WatcherInterval,
+  now = new Date()
+): Date {
+  if (lastRunAt) return lastRunAt;
+
+  const start = new Date(now);
+  if (interval === 'weekly') {
+    start.setUTCDate(start.getUTCDate() - 7);
+  } else {
+    start.setUTCMonth(start.getUTCMonth() - 1);
+  }
+  return start;
+}
+
+export function summarizePayments(events: PayEvent[]): PaymentSummary {
+  const payers = new Set<string>();
+  let totalWei = 0n;
+  let totalUsd = 0;
+  let largestWei = 0n;
+
+  for (const event of events) {
+    const amount = BigInt(event.amount || '0');
+    payers.add(event.from.toLowerCase());
+    totalWei += amount;
+    totalUsd += parseFloat(event.amountUsd || '0');
+    if (amount > largestWei) largestWei = amount;
+  }
+
+  return { count: events.length, uniquePayers: payers.size, totalWei, totalUsd, largestWei };
+}
+
+function formatAmount(wei: bigint | string, usd?: number): string {
+  const eth = Number(formatEther(BigInt(wei))).toFixed(4);
+  return usd ? `${eth} ETH (~$${usd.toFixed(2)})` : `${eth} ETH`;
+}
+
+/**
+ * The data block the AI summarizes
+ */
+export function buildReportPrompt(
+  snapshot: ProjectSnapshot,
+  interval: WatcherInterval,
+  instructions?: string | null
+): string {
+  const { stats, payments, ruleset } = snapshot;
+  const name = stats.name || stats.handle || `Project ${stats.projectId}`;
+
+  const lines = [
+    `Write the ${interval} report for ${name} (project ${stats.projectId} on chain ${stats.chainId}).`,
+    '',
+    `Period: ${snapshot.periodStart.toISOString()} to ${snapshot.periodEnd.toISOString()}`,
+    `Payments this period: ${payments.count} from ${payments.uniquePayers} payer(s), ` +
+      `total ${formatAmount(payments.totalWei, payments.totalUsd)}, ` +
+      `largest ${formatAmount(payments.largestWei)}`,
+    `All-time volume: ${formatAmount(stats.volume, parseFloat(stats.volumeUsd || '0'))}`,
+    `Treasury balance: ${formatAmount(stats.balance)}`,
+    `All-time payments: ${stats.paymentsCount}, contributors: ${stats.contributorsCount}`,
+  ];
+
+  if (ruleset) {
+    lines.push(
+      `Current ruleset: cycle ${ruleset.cycleNumber}, ` +
+        `issuance weight ${formatEther(BigInt(ruleset.weight))} tokens per unit, ` +
+        `reserved ${ruleset.reservedPercent / 100}%` +
+        (ruleset.pausePay ? ', payments paused' : '')
+    );
+  } else {
+    lines.push('Current ruleset: unavailable');
+  }
+
+  if (instructions) {
+    lines.push('', `The member who set up this report asked: ${instructions}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Append the watcher's component to the AI summary. Volume charts cover
+ * the report's interval.
+ */
+export function withReportComponent(
+  summary: string,
+  watcher: Pick<ChatWatcher, 'component' | 'projectId' | 'chainId' | 'interval'>
+): string {
+  const range = watcher.interval === 'weekly' ? '7d' : '30d';
+  const tag = watcher.component === 'volume-chart'
+    ? `<juice-component type="volume-chart" projectId="${watcher.projectId}" chainId="${watcher.chainId}" range="${range}" />`
+    : `<juice-component type="project-card" projectId="${watcher.projectId}" chainId="${watcher.chainId}" />`;
+  return `${summary.trim()}\n\n${tag}`;
+}
+
+async function fetchProjectSnapshot(
+  projectId: number,
+  chainId: number,
+  periodStart: Date
+): Promise<ProjectSnapshot> {
+  const since = Math.floor(periodStart.getTime() / 1000);
+  const [stats, events, current] = await Promise.all([
+    getProjectStats(projectId, chainId),
+    getPayEventsSince(projectId, chainId, since),
+    fetchCurrentRuleset(chainId, projectId).catch(() => null),
+  ]);
+
+  if (!stats || !events) {
+    throw new Error('Project data unavailable');
+  }
+
+  return {
+    stats,
+    periodStart,
+    periodEnd: new Date(),
+    payments: summarizePayments(events),
+    ruleset: current
+      ? {
+          cycleNumber: current.ruleset.cycleNumber,
+          weight: current.ruleset.weight,
+          reservedPercent: current.metadata.reservedPercent,
+          pausePay: current.metadata.pausePay,
+        }
+      : null,
+  };
+}
+
+// ============================================================================
+// Watcher Management
+// ============================================================================
+
+/**
+ * Create a watcher. The first report runs at `startAt` (default: the next
+ * cron pass), then every interval after that.
+ */
+export async function createWatcher(params: {
+  chatId: string;
+  createdByAddress: string;
+  projectId: number;
+  chainId: number;
+  interval: WatcherInterval;
+  component?: WatcherComponent;
+  instructions?: string;
+  startAt?: Date;
+}): Promise<ChatWatcher> {
+  const count = await queryOne<{ count: string }>(
+    `SELECT COUNT(*) as count FROM chat_watchers WHERE chat_id = $1`,
+    [params.chatId]
+  );
+  if (parseInt(count?.count ?? '0', 10) >= MAX_WATCHERS_PER_CHAT) {
+    throw new Error(`A chat can have at most ${MAX_WATCHERS_PER_CHAT} watchers`);
+  }
+
+  const project = await getProject(params.projectId, params.chainId);
+  if (!project) {
+    throw new Error('Project not found');
+  }
+
+  const now = new Date();
+  const startAt = params.startAt && params.startAt > now ? params.startAt : now;
+
+  const row = await queryOne<DbChatWatcher>(
+    `INSERT INTO chat_watchers (
+      chat_id, project_id, chain_id, interval, component, instructions,
+      created_by_address, next_run_at, anchor_day
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    RETURNING *`,
+    [
+      params.chatId,
+      params.projectId,
+      params.chainId,
+      params.interval,
+      params.component ?? 'project-card',
+      params.instructions?.trim() || null,
+      params.createdByAddress,
+      startAt,
+      startAt.getUTCDate(),
+    ]
+  );
+
+  logger.info('Chat watcher created', {
+    watcherId: row!.id,
+    chatId: params.chatId,
+    projectId: params.projectId,
+    chainId: params.chainId,
+    interval: params.interval,
+  });
+
+  return dbToWatcher(row!);
+}
+
+export async function getWatcher(chatId: string, watcherId: string): Promise<ChatWatcher | null> {
+  const row = await queryOne<DbChatWatcher>(
+    `SELECT * FROM chat_watchers WHERE id = $1 AND chat_id = $2`,
+    [watcherId, chatId]
+  );
+  return row ? dbToWatcher(row) : null;
+}
+
+/**
+ * Get a chat's watchers, active first
+ */
+export async function getChatWatchers(chatId: string): Promise<ChatWatcher[]> {
+  const rows = await query<DbChatWatcher>(
+    `SELECT * FROM chat_watchers
+     WHERE chat_id = $1
+     ORDER BY (status = 'paused'), created_at ASC`,
+    [chatId]
+  );
+  return rows.map(dbToWatcher);
+}
+
+/**
+ * Get the report history of one watcher
+ */
+export async function getWatcherRuns(
+  chatId: string,
+  watcherId: string,
+  limit = 20
+): Promise<ChatWatcherRun[]> {
+  const rows = await query<{
+    id: string;
+    message_id: string | null;
+    status: 'posted' | 'failed';
+    error_message: string | null;
+    input_tokens: number | null;
+    output_tokens: number | null;
+    created_at: Date;
+  }>(
+    `SELECT r.* FROM chat_watcher_runs r
+     JOIN chat_watchers w ON w.id = r.watcher_id
+     WHERE r.watcher_id = $1 AND w.chat_id = $2
+     ORDER BY r.created_at DESC
+     LIMIT $3`,
+    [watcherId, chatId, limit]
+  );
+
+  return rows.map((r) => ({
+    id: r.id,
+    messageId: r.message_id,
+    status: r.status,
+    errorMessage: r.error_message,
+    inputTokens: r.input_tokens,
+    outputTokens: r.output_tokens,
+    createdAt: new Date(r.created_at),
+  }));
+}
+
+/**
+ * The member who created a watcher, or anyone who manages the chat's
+ * members, can pause, resume or delete it
+ */
+export async function canManageWatcher(watcher: ChatWatcher, address: string): Promise<boolean> {
+  if (watcher.createdByAddress.toLowerCase() === address.toLowerCase()) return true;
+  return checkPermission(watcher.chatId, address, 'manage_members');
+}
+
+export async function pauseWatcher(chatId: string, watcherId: string): Promise<void> {
+  const updated = await execute(
+    `UPDATE chat_watchers
+     SET status = 'paused', pause_reason = 'Paused by member'
+     WHERE id = $1 AND chat_id = $2 AND status = 'active'`,
+    [watcherId, chatId]
+  );
+
+  if (updated === 0) {
+    throw new Error('Watcher not found or not active');
+  }
+
+  logger.info('Chat watcher paused', { watcherId, chatId });
+}
+
+/**
+ * Resume a paused watcher. A report that fell due while paused runs on the
+ * next cron pass rather than being made up.
+ */
+export async function resumeWatcher(chatId: string, watcherId: string): Promise<void> {
+  const updated = await execute(
+    `UPDATE chat_watchers
+     SET status = 'active',
+         pause_reason = NULL,
+         consecutive_failures = 0,
+         next_run_at = GREATEST(next_run_at, NOW())
+     WHERE id = $1 AND chat_id = $2 AND status = 'paused'`,
+    [watcherId, chatId]
+  );
+
+  if (updated === 0) {
+    throw new Error('Watcher not found or not paused');
+  }
+
+  logger.info('Chat watcher resumed', { watcherId, chatId });
+}
+
+/**
+ * Delete a watcher. Reports already posted stay in the chat.
+ */
+export async function deleteWatcher(chatId: string, watcherId: string): Promise<void> {
+  const deleted = await execute(
+    `DELETE FROM chat_watchers WHERE id = $1 AND chat_id = $2`,
+    [watcherId, chatId]
+  );
+
+  if (deleted === 0) {
+    throw new Error('Watcher not found');
+  }
+
+  logger.info('Chat watcher deleted', { watcherId, chatId });
+}
+
+// ============================================================================
+// Cron Processing
+// ============================================================================
+
+/**
+ * Compose and post one report. Throws when the chat can't pay for it or
+ * the project data can't be loaded.
+ */
+async function runWatcher(row: DbChatWatcher): Promise<{
+  messageId: string;
+  inputTokens: number;
+  outputTokens: number;
+}> {
+  const chat = await getChatById(row.chat_id);
+  if (!chat) throw new Error('Chat not found');
+  if (!chat.aiEnabled) throw new Error('AI is turned off in this chat');
+
+  // Permission can be revoked after the watcher was set up
+  const canInvoke = await checkPermission(row.chat_id, row.created_by_address, 'invoke_ai');
+  if (!canInvoke) throw new Error('Creator can no longer invoke AI in this chat');
+
+  const check = await canInvokeAi(row.chat_id, row.created_by_address);
+  if (!check.allowed) throw new Error(check.reason ?? 'AI unavailable');
+
+  const periodStart = getReportWindowStart(
+    row.last_run_at ? new Date(row.last_run_at) : null,
+    row.interval
+  );
+  const snapshot = await fetchProjectSnapshot(row.project_id, row.chain_id, periodStart);
+
+  const response = await sendMessage(
+    row.chat_id,
+    {
+      messages: [{ role: 'user', content: buildReportPrompt(snapshot, row.interval, row.instructions) }],
+      system: REPORT_SYSTEM_PROMPT,
+      maxTokens: 800,
+      temperature: 0.3,
+      includeOmnichainContext: false,
+    },
+    chat.aiProvider
+  );
+
+  if (!response.content.trim()) {
+    throw new Error('AI returned an empty report');
+  }
+
+  const content = withReportComponent(response.content, dbToWatcher(row));
+  const message = await importMessage({
+    chatId: row.chat_id,
+    senderAddress: ASSISTANT_ADDRESS,
+    role: 'assistant',
+    content,
+  });
+  broadcastChatMessage(row.chat_id, message.id, content, ASSISTANT_ADDRESS, false, 'assistant');
+
+  // The report is already posted, so a failed deduction is logged rather than retried
+  const billed = await deductAiCost(
+    row.chat_id,
+    message.id,
+    response.usage.model ?? 'unknown',
+    response.usage.inputTokens,
+    response.usage.outputTokens,
+    row.created_by_address
+  );
+  if (!billed.success) {
+    logger.warn('Chat watcher report not billed: insufficient AI balance', {
+      watcherId: row.id,
+      chatId: row.chat_id,
+      costWei: billed.costWei.toString(),
+    });
+  }
+
+  return {
+    messageId: message.id,
+    inputTokens: response.usage.inputTokens,
+    outputTokens: response.usage.outputTokens,
+  };
+}
+
+/**
+ * Claim a watcher's due report by moving next_run_at on, under a row lock so
+ * overlapping cron runs can't post it twice. Returns the watcher as it was
+ * before the claim with its next regular run, or null if it's no longer due
+ * or another run has it.
+ */
+async function claimDueReport(id: string): Promise<{ row: DbChatWatcher; nextRunAt: Date } | null> {
+  return await transaction(async (client) => {
+    const result = await client.queryObject<DbChatWatcher>(
+      `SELECT * FROM chat_watchers
+       WHERE id = $1 AND status = 'active' AND next_run_at <= NOW()
+       FOR UPDATE SKIP LOCKED`,
+      [id]
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+
+    // Keep the cadence, but skip missed periods after downtime or a resume
+    const anchorDay = row.anchor_day ?? undefined;
+    let nextRunAt = getNextRunAt(new Date(row.next_run_at), row.interval, anchorDay);
+    if (nextRunAt <= new Date()) {
+      nextRunAt = getNextRunAt(new Date(), row.interval, anchorDay);
+    }
+
+    await client.queryObject(
+      `UPDATE chat_watchers SET next_run_at = $1, last_run_at = NOW() WHERE id = $2`,
+      [nextRunAt, id]
+    );
+
+    return { row, nextRunAt };
+  });
+}
+
+/**
+ * Post reports for watchers that are due
+ */
+export async function processChatWatchers(): Promise<{
+  posted: number;
+  failed: number;
+  paused: number;
+}> {
+  const due = await query<{ id: string }>(
+    `SELECT id FROM chat_watchers
+     WHERE status = 'active'
+     AND next_run_at <= NOW()
+     ORDER BY next_run_at ASC
+     LIMIT 50`
+  );
+
+  let posted = 0;
+  let failed = 0;
+  let paused = 0;
+
+  for (const { id } of due) {
+    const claimed = await claimDueReport(id);
+    if (!claimed) continue;
+    const { row, nextRunAt } = claimed;
+
+    try {
+      const result = await runWatcher(row);
+
+      await execute(
+        `INSERT INTO chat_watcher_runs (watcher_id, message_id, status, input_tokens, output_tokens)
+         VALUES ($1, $2, 'posted', $3, $4)`,
+        [row.id, result.messageId, result.inputTokens, result.outputTokens]
+      );
+
+      await execute(
+        `UPDATE chat_watchers SET consecutive_failures = 0 WHERE id = $1`,
+        [row.id]
+      );
+
+      posted++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const failures = row.consecutive_failures + 1;
+      const shouldPause = failures >= MAX_CONSECUTIVE_FAILURES;
+
+      const retryAt = new Date();
+      retryAt.setHours(retryAt.getHours() + RETRY_DELAY_HOURS);
+
+      await execute(
+        `INSERT INTO chat_watcher_runs (watcher_id, status, error_message)
+         VALUES ($1, 'failed', $2)`,
+        [row.id, message]
+      );
+
+      // Retry soon, but never later than the next regular report; keep the
+      // previous last_run_at so the retry covers the same window
+      await execute(
+        `UPDATE chat_watchers
+         SET consecutive_failures = $1,
+             next_run_at = LEAST($2::timestamptz, $3::timestamptz),
+             last_run_at = $4,
+             status = CASE WHEN $5 THEN 'paused' ELSE status END,
+             pause_reason = CASE WHEN $5 THEN $6 ELSE pause_reason END
+         WHERE id = $7`,
+        [
+          failures,
+          retryAt,
+          nextRunAt,
+          row.last_run_at,
+          shouldPause,
+          `Paused after ${failures} failed reports: ${message}`,
+          row.id,
+        ]
+      );
+
+      logger.warn('Chat watcher report failed', {
+        watcherId: row.id,
+        chatId: row.chat_id,
+        failures,
+        paused: shouldPause,
+        error: message,
+      });
+
+      failed++;
+      if (shouldPause) paused++;
+    }
+  }
+
+  return { posted, failed, paused };
+}
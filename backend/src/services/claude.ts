@@ -1,9 +1,9 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { getConfig } from '../utils/config.ts';
 import { OMNICHAIN_CONTEXT, OMNICHAIN_TOOLS } from '../context/omnichain.ts';
-import { handleOmnichainTool } from './omnichain.ts';
 import { SYSTEM_PROMPT } from '@shared/prompts.ts';
-import { recordToolUsage, recordInvocation } from './aiMetrics.ts';
+import { recordInvocation } from './aiMetrics.ts';
+import { runToolCall } from './aiToolCalls.ts';
 
 // ============================================================================
 // Rate Limiting (PostgreSQL-based - see rateLimit.ts)
@@ -205,6 +205,9 @@ export interface ClaudeRequest {
   maxTokens?: number;
   temperature?: number;
   includeOmnichainContext?: boolean; // Default true - adds JB omnichain knowledge
+  // Called before each tool runs in streamMessageWithTools; a declined call is
+  // reported back to the model as a tool error
+  approveToolCall?: (toolCall: ToolCall) => Promise<ToolCallDecision>;
 }
 
 // System prompt imported from @shared/prompts.ts (single source of truth)
@@ -254,6 +257,7 @@ export async function buildEnhancedPrompt(options: {
   includeOmnichain?: boolean;
   useSemanticDetection?: boolean;  // Enable semantic intent detection (Phase 2)
   useSubModules?: boolean;  // Enable granular sub-module loading (Phase 1)
+  retrievalQuery?: string;  // New prompt, to retrieve matching document chunks
 }): Promise<{
   systemPrompt: string;
   context: import('./contextManager.ts').OptimizedContext | null;
@@ -290,6 +294,7 @@ export async function buildEnhancedPrompt(options: {
       includeOmnichain: options.includeOmnichain,
       omnichainContext: OMNICHAIN_CONTEXT,
       useSubModules: options.useSubModules ?? false,
+      retrievalQuery: options.retrievalQuery,
     });
 
     return {
@@ -303,6 +308,7 @@ export async function buildEnhancedPrompt(options: {
     basePrompt: options.customSystem || SYSTEM_PROMPT,
     chatId: options.chatId,
     userId: options.userId,
+    retrievalQuery: options.retrievalQuery,
     includeOmnichain: options.includeOmnichain,
     omnichainContext: OMNICHAIN_CONTEXT,
   });
@@ -331,6 +337,7 @@ export interface ClaudeResponse {
   usage: {
     inputTokens: number;
     outputTokens: number;
+    model?: string; // Model that served the request, for billing
   };
   stopReason: string;
 }
@@ -486,6 +493,7 @@ export async function sendMessage(
     usage: {
       inputTokens: response.usage.input_tokens,
       outputTokens: response.usage.output_tokens,
+      model,
     },
     stopReason: response.stop_reason ?? 'end_turn',
   };
@@ -665,7 +673,7 @@ export async function* streamMessage(
   console.log(`[Claude] Stream complete: ${eventCount} events, ${inputTokens} input tokens, ${outputTokens} output tokens, stopReason: ${stopReason}`);
   yield {
     type: 'usage',
-    data: { inputTokens, outputTokens, stopReason },
+    data: { inputTokens, outputTokens, stopReason, model },
   };
 }
 
@@ -679,6 +687,11 @@ export interface ToolCall {
   input: Record<string, unknown>;
 }
 
+export interface ToolCallDecision {
+  approved: boolean;
+  reason?: string;
+}
+
 export interface ToolResult {
   tool_use_id: string;
   content: string;
@@ -708,6 +721,7 @@ export async function* streamMessageWithTools(
   let iteration = 0;
   let totalInputTokens = 0;
   let totalOutputTokens = 0;
+  let model: string | undefined;
 
   while (iteration < maxIterations) {
     iteration++;
@@ -740,10 +754,11 @@ export async function* streamMessageWithTools(
         // Notify that Claude is using a tool
         yield { type: 'thinking', data: `Using tool: ${toolCall.name}` };
       } else if (event.type === 'usage') {
-        const usage = event.data as { inputTokens: number; outputTokens: number; stopReason: string };
+        const usage = event.data as { inputTokens: number; outputTokens: number; stopReason: string; model: string };
         totalInputTokens += usage.inputTokens;
         totalOutputTokens += usage.outputTokens;
         stopReason = usage.stopReason;
+        model = usage.model;
       }
     }
 
@@ -780,45 +795,9 @@ export async function* streamMessageWithTools(
     for (const toolCall of toolCalls) {
       yield { type: 'tool_use', data: toolCall };
 
-      const toolStart = Date.now();
-      try {
-        // Execute the tool
-        const result = await handleOmnichainTool(toolCall.name, toolCall.input);
-        const resultStr = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
-
-        toolResults.push({
-          tool_use_id: toolCall.id,
-          content: resultStr,
-        });
-
-        // Record successful tool usage
-        recordToolUsage({
-          chatId: userId,
-          toolName: toolCall.name,
-          success: true,
-          durationMs: Date.now() - toolStart,
-        });
-
-        yield { type: 'tool_result', data: { id: toolCall.id, name: toolCall.name, result: resultStr } };
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : 'Tool execution failed';
-        toolResults.push({
-          tool_use_id: toolCall.id,
-          content: `Error: ${errorMsg}`,
-          is_error: true,
-        });
-
-        // Record failed tool usage
-        recordToolUsage({
-          chatId: userId,
-          toolName: toolCall.name,
-          success: false,
-          durationMs: Date.now() - toolStart,
-          errorMessage: errorMsg,
-        });
-
-        yield { type: 'tool_result', data: { id: toolCall.id, name: toolCall.name, error: errorMsg } };
-      }
+      const { result, event } = await runToolCall(toolCall, request.approveToolCall, userId);
+      toolResults.push(result);
+      yield event;
     }
 
     // Add tool results as user message
@@ -854,7 +833,7 @@ export async function* streamMessageWithTools(
   // Yield final usage stats
   yield {
     type: 'usage',
-    data: { inputTokens: totalInputTokens, outputTokens: totalOutputTokens },
+    data: { inputTokens: totalInputTokens, outputTokens: totalOutputTokens, model },
   };
 }
 
@@ -9,6 +9,9 @@
  * 2. Transaction State - Entity memory for project design (persistent)
  * 3. Context Summaries - Compressed history (anchored iterative)
  * 4. Attachment Summaries - Document extracts (preserved independently)
+ * 5. Retrieved Chunks - Document passages matching the prompt (see chatKnowledge.ts)
+ *
+ * Running prompt experiments (promptExperiments.ts) can swap prompt modules per chat.
  */
 
 import { query, queryOne, execute } from '../db/index.ts';
@@ -25,6 +28,12 @@ import {
   ChatSummary,
   AttachmentSummary,
 } from './summarization.ts';
+import {
+  retrieveChunks,
+  formatRetrievedChunksForPrompt,
+  type RetrievedChunk,
+} from './chatKnowledge.ts';
+import { getPromptVariantsForChat, applyPromptVariant, toVariantMap } from './promptExperiments.ts';
 import { getContextForSystemPrompt } from './userContext.ts';
 import { getTrendingContext } from './trendingContext.ts';
 import type { ChatMessage } from './claude.ts';
@@ -70,6 +79,9 @@ export interface OptimizedContext {
   // Layer 4: Attachment summaries
   attachmentSummaries: AttachmentSummary[];
 
+  // Layer 5: Document chunks retrieved for the prompt (numbered for citations in this order)
+  retrievedChunks: RetrievedChunk[];
+
   // User context (jargon level, preferences)
   userContext: string | null;
 
@@ -83,11 +95,13 @@ export interface OptimizedContext {
     transactionStateTokens: number;
     summaryTokens: number;
     attachmentSummaryTokens: number;
+    retrievedChunkTokens: number;
     userContextTokens: number;
     participantContextTokens: number;
     recentMessageCount: number;
     summaryCount: number;
     attachmentCount: number;
+    retrievedChunkCount: number;
     budgetExceeded: boolean;
     triggeredSummarization: boolean;
     // Modular prompt info (when using intent detection)
@@ -98,6 +112,8 @@ export interface OptimizedContext {
       subModulesEnabled?: boolean;
       transactionSubModules?: string[];
     };
+    // Prompt experiment variants this response used, by experiment id
+    promptVariants?: Record<string, string>;
   };
 }
 
@@ -128,10 +144,11 @@ export const TOKEN_BUDGET = {
 
   // Variable allocations (with safety margin for approximation errors)
   attachmentSummaries: Math.floor(3000 * TOKEN_SAFETY_MARGIN), // ~2400
+  retrievedChunks: Math.floor(4000 * TOKEN_SAFETY_MARGIN), // ~3200
   summaries: Math.floor(10000 * TOKEN_SAFETY_MARGIN), // ~8000
 
   // Remainder goes to recent messages
-  // recentMessages = total - fixed - variable = ~35600 (more headroom after safety margin)
+  // recentMessages = total - fixed - variable = ~32400 (more headroom after safety margin)
 };
 
 // ============================================================================
@@ -417,11 +434,13 @@ export function getLoadedModulesWithSubModules(intents: DetectedIntents): string
 // ============================================================================
 
 /**
- * Build optimized context for an AI invocation
+ * Build optimized context for an AI invocation. With a retrievalQuery (the
+ * new prompt), document chunks matching it are retrieved too.
  */
 export async function buildOptimizedContext(
   chatId: string,
-  userId?: string
+  userId?: string,
+  retrievalQuery?: string
 ): Promise<OptimizedContext> {
   // Initialize metadata
   const metadata: OptimizedContext['metadata'] = {
@@ -430,11 +449,13 @@ export async function buildOptimizedContext(
     transactionStateTokens: 0,
     summaryTokens: 0,
     attachmentSummaryTokens: 0,
+    retrievedChunkTokens: 0,
     userContextTokens: 0,
     participantContextTokens: 0,
     recentMessageCount: 0,
     summaryCount: 0,
     attachmentCount: 0,
+    retrievedChunkCount: 0,
     budgetExceeded: false,
     triggeredSummarization: false,
   };
@@ -491,6 +512,20 @@ export async function buildOptimizedContext(
   metadata.attachmentCount = attachmentSummaries.length;
   remainingBudget -= attachmentTokens;
 
+  // 4.5. Retrieved document chunks (Layer 5) - best matches first, up to budget
+  const retrievedChunks: RetrievedChunk[] = [];
+  let retrievedTokens = 0;
+  if (retrievalQuery) {
+    for (const chunk of await retrieveChunks(chatId, retrievalQuery)) {
+      if (retrievedTokens + chunk.tokenCount > TOKEN_BUDGET.retrievedChunks) break;
+      retrievedChunks.push(chunk);
+      retrievedTokens += chunk.tokenCount;
+    }
+  }
+  metadata.retrievedChunkTokens = retrievedTokens;
+  metadata.retrievedChunkCount = retrievedChunks.length;
+  remainingBudget -= retrievedTokens;
+
   // 5. Context summaries (Layer 3)
   const latestSummary = await getLatestSummary(chatId);
   const summaries: ChatSummary[] = [];
@@ -521,6 +556,7 @@ export async function buildOptimizedContext(
     metadata.userContextTokens +
     metadata.participantContextTokens +
     metadata.attachmentSummaryTokens +
+    metadata.retrievedChunkTokens +
     metadata.summaryTokens +
     metadata.recentMessageTokens;
 
@@ -531,6 +567,7 @@ export async function buildOptimizedContext(
     transactionState,
     summaries,
     attachmentSummaries,
+    retrievedChunks,
     userContext,
     participantContext,
     metadata,
@@ -566,6 +603,7 @@ async function getRecentMessagesWithBudget(
      FROM multi_chat_messages
      WHERE chat_id = $1
      AND deleted_at IS NULL
+     AND branch_id IS NULL
      ${whereClause}
      ORDER BY created_at DESC
      LIMIT $${afterTimestamp ? '3' : '2'}`,
@@ -722,7 +760,8 @@ export function formatAttachmentSummariesForPrompt(
 export async function logContextUsage(
   chatId: string,
   messageId: string | null,
-  context: OptimizedContext
+  context: OptimizedContext,
+  promptVariants: Record<string, string> = context.metadata.promptVariants ?? {}
 ): Promise<void> {
   try {
     await execute(
@@ -731,8 +770,8 @@ export async function logContextUsage(
          transaction_state_tokens, user_context_tokens,
          summary_tokens, recent_message_tokens, attachment_summary_tokens,
          recent_message_count, summary_count, attachment_count,
-         budget_exceeded, triggered_summarization
-       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+         budget_exceeded, triggered_summarization, prompt_variants
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
       [
         chatId,
         messageId,
@@ -747,6 +786,7 @@ export async function logContextUsage(
         context.metadata.attachmentCount,
         context.metadata.budgetExceeded,
         context.metadata.triggeredSummarization,
+        JSON.stringify(promptVariants),
       ]
     );
   } catch (error) {
@@ -774,6 +814,7 @@ export async function buildEnhancedSystemPrompt(options: {
   includeOmnichain?: boolean;
   omnichainContext?: string;
   useSubModules?: boolean;  // Enable granular sub-module loading (Phase 1)
+  retrievalQuery?: string;  // New prompt, to retrieve matching document chunks
 }): Promise<{ systemPrompt: string; context: OptimizedContext | null; intents?: DetectedIntents }> {
   const parts: string[] = [];
   let context: OptimizedContext | null = null;
@@ -812,6 +853,12 @@ export async function buildEnhancedSystemPrompt(options: {
     // Legacy mode: use provided prompt or import full SYSTEM_PROMPT
     basePrompt = options.basePrompt || BASE_PROMPT;
   }
+
+  // 1.2. Prompt experiments: swap in this chat's variant of each running trial
+  const promptVariants = options.chatId ? await getPromptVariantsForChat(options.chatId) : [];
+  for (const assigned of promptVariants) {
+    basePrompt = applyPromptVariant(basePrompt, assigned.variant);
+  }
   // Note: We don't do regex replacement of mainnet→testnet in prompts anymore.
   // Instead, we inject an explicit TESTNET MODE section that takes precedence.
   // This is more reliable than trying to rewrite prompt content.
@@ -866,7 +913,7 @@ ${chainTable}
 
   // 3. Build optimized context if we have a chat
   if (options.chatId) {
-    context = await buildOptimizedContext(options.chatId, options.userId);
+    context = await buildOptimizedContext(options.chatId, options.userId, options.retrievalQuery);
 
     // 4. User context
     if (context.userContext) {
@@ -895,6 +942,16 @@ ${chainTable}
       parts.push(formatAttachmentSummariesForPrompt(context.attachmentSummaries));
     }
 
+    // 7.5. Document passages matching the prompt, numbered for citations
+    if (context.retrievedChunks.length > 0) {
+      parts.push('\n\n---\n\n');
+      parts.push(formatRetrievedChunksForPrompt(context.retrievedChunks));
+    }
+
+    if (promptVariants.length > 0) {
+      context.metadata.promptVariants = toVariantMap(promptVariants);
+    }
+
     // 8. Add modular prompt info to context metadata
     if (detectedIntents && context) {
       const useSubModules = options.useSubModules ?? false;
@@ -0,0 +1,350 @@
+import { assertEquals, assert } from 'std/assert/mod.ts';
+import {
+  findMainContract,
+  matchesVerifiedSources,
+  parseEtherscanSources,
+  verifyWithSourcify,
+  verifyWithEtherscan,
+  type VerificationRequest,
+} from './contractVerification.ts';
+import { buildStandardJsonInput } from './forge.ts';
+
+const FAST_POLL = { intervalMs: 1, maxAttempts: 5 };
+
+const HOOK_SOURCE = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+interface IHookHelper {}
+
+abstract contract HookBase {}
+
+contract MyHook is HookBase {}
+`;
+
+const REQUEST: VerificationRequest = {
+  chainId: 8453,
+  address: '0x1234567890123456789012345678901234567890',
+  contract: 'src/MyHook.sol:MyHook',
+  compilerVersion: '0.8.28+commit.7893614a',
+  input: buildStandardJsonInput([{ path: 'src/MyHook.sol', content: HOOK_SOURCE }]),
+  constructorArgs: '00000000000000000000000000000000000000000000000000000000000000ff',
+};
+
+interface MockVerifierOptions {
+  sourcifyMatch?: 'exact_match' | 'match' | null;
+  sourcifyAlreadyVerified?: boolean;
+  etherscanAlreadyVerified?: boolean;
+  verifiedSources?: Record<string, { content: string }>; // What an already verified contract was built from
+  pendingChecks?: number; // Status checks answered "pending" before the result
+  etherscanUnindexedSubmits?: number; // Submissions rejected before the contract is indexed
+  etherscanResult?: string;
+}
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  params: URLSearchParams;
+  body: string;
+}
+
+// Local server standing in for Sourcify (under /sourcify) and an
+// Etherscan-compatible API (at /etherscan)
+function startMockVerifier(
+  options: MockVerifierOptions
+): { url: string; requests: RecordedRequest[]; close: () => Promise<void> } {
+  const requests: RecordedRequest[] = [];
+  let pendingChecks = options.pendingChecks ?? 0;
+  let unindexedSubmits = options.etherscanUnindexedSubmits ?? 0;
+
+  const controller = new AbortController();
+  const server = Deno.serve(
+    { port: 0, hostname: '127.0.0.1', signal: controller.signal, onListen: () => {} },
+    async (req) => {
+      const url = new URL(req.url);
+      const body = await req.text();
+      requests.push({ method: req.method, path: url.pathname, params: url.searchParams, body });
+
+      if (url.pathname.startsWith('/sourcify/v2/contract/')) {
+        return Response.json({
+          match: 'exact_match',
+          sources: options.verifiedSources ?? REQUEST.input.sources,
+          compilation: { fullyQualifiedName: REQUEST.contract },
+        });
+      }
+
+      if (url.pathname.startsWith('/sourcify/v2/verify/')) {
+        if (req.method === 'POST') {
+          if (options.sourcifyAlreadyVerified) {
+            return Response.json({ customCode: 'already_verified', message: 'Already verified' }, { status: 409 });
+          }
+          return Response.json({ verificationId: 'job-1' }, { status: 202 });
+        }
+        if (pendingChecks > 0) {
+          pendingChecks--;
+          return Response.json({ isJobCompleted: false });
+        }
+        return Response.json({
+          isJobCompleted: true,
+          contract: { match: options.sourcifyMatch ?? null },
+          ...(options.sourcifyMatch ? {} : { error: { message: 'The deployed and recompiled bytecode don\'t match.' } }),
+        });
+      }
+
+      if (url.pathname === '/etherscan') {
+        if (url.searchParams.get('action') === 'getsourcecode') {
+          const input = { ...REQUEST.input, sources: options.verifiedSources ?? REQUEST.input.sources };
+          return Response.json({
+            status: '1',
+            result: [{ SourceCode: `{${JSON.stringify(input)}}`, ContractName: 'MyHook' }],
+          });
+        }
+        if (req.method === 'POST') {
+          if (options.etherscanAlreadyVerified) {
+            return Response.json({ status: '0', result: 'Contract source code already verified' });
+          }
+          if (unindexedSubmits > 0) {
+            unindexedSubmits--;
+            return Response.json({ status: '0', result: `Unable to locate ContractCode at ${REQUEST.address}` });
+          }
+          return Response.json({ status: '1', result: 'guid-1' });
+        }
+        if (pendingChecks > 0) {
+          pendingChecks--;
+          return Response.json({ status: '0', result: 'Pending in queue' });
+        }
+        const result = options.etherscanResult ?? 'Pass - Verified';
+        return Response.json({ status: result.startsWith('Pass') ? '1' : '0', result });
+      }
+
+      return new Response('not found', { status: 404 });
+    }
+  );
+
+  return {
+    url: `http://127.0.0.1:${server.addr.port}`,
+    requests,
+    close: async () => {
+      controller.abort();
+      await server.finished;
+    },
+  };
+}
+
+// ============================================================================
+// Contract Selection Tests
+// ============================================================================
+
+Deno.test('contractVerification - findMainContract', async (t) => {
+  await t.step('prefers the contract named after its file', () => {
+    const files = [
+      { path: 'src/Helpers.sol', content: 'contract Helper {}' },
+      { path: 'src/MyHook.sol', content: HOOK_SOURCE },
+    ];
+    assertEquals(findMainContract(files), 'src/MyHook.sol:MyHook');
+  });
+
+  await t.step('skips abstract contracts and interfaces', () => {
+    const files = [{ path: 'src/Hook.sol', content: HOOK_SOURCE }];
+    assertEquals(findMainContract(files), 'src/Hook.sol:MyHook');
+  });
+
+  await t.step('ignores tests and scripts', () => {
+    const files = [
+      { path: 'test/MyHook.t.sol', content: 'contract MyHookTest {}' },
+      { path: 'script/Deploy.s.sol', content: 'contract Deploy {}' },
+    ];
+    assertEquals(findMainContract(files), null);
+  });
+});
+
+// ============================================================================
+// Verified Sources Tests
+// ============================================================================
+
+Deno.test('contractVerification - matchesVerifiedSources', async (t) => {
+  const sources = REQUEST.input.sources;
+
+  await t.step('matches the same files and contract', () => {
+    assert(matchesVerifiedSources(REQUEST, { contract: 'src/MyHook.sol:MyHook', sources }));
+    // Etherscan reports the bare contract name
+    assert(matchesVerifiedSources(REQUEST, { contract: 'MyHook', sources }));
+  });
+
+  await t.step('rejects changed, missing or extra files', () => {
+    const changed = { 'src/MyHook.sol': { content: HOOK_SOURCE.replace('MyHook is', 'MyHook  is') } };
+    const extra = { ...sources, 'src/Extra.sol': { content: 'contract Extra {}' } };
+    assert(!matchesVerifiedSources(REQUEST, { contract: 'MyHook', sources: changed }));
+    assert(!matchesVerifiedSources(REQUEST, { contract: 'MyHook', sources: {} }));
+    assert(!matchesVerifiedSources(REQUEST, { contract: 'MyHook', sources: extra }));
+  });
+
+  await t.step('rejects another contract from the same sources', () => {
+    assert(!matchesVerifiedSources(REQUEST, { contract: 'src/MyHook.sol:HookBase', sources }));
+  });
+});
+
+Deno.test('contractVerification - parseEtherscanSources', async (t) => {
+  await t.step('reads standard JSON input and source maps', () => {
+    assertEquals(parseEtherscanSources(`{${JSON.stringify(REQUEST.input)}}`), REQUEST.input.sources);
+    assertEquals(parseEtherscanSources(JSON.stringify(REQUEST.input.sources)), REQUEST.input.sources);
+  });
+
+  await t.step('returns null for a flattened file', () => {
+    assertEquals(parseEtherscanSources(HOOK_SOURCE), null);
+  });
+});
+
+// ============================================================================
+// Sourcify Tests (mock verifier)
+// ============================================================================
+
+Deno.test('contractVerification - verifyWithSourcify', async (t) => {
+  await t.step('submits the standard JSON input and waits for an exact match', async () => {
+    const verifier = startMockVerifier({ sourcifyMatch: 'exact_match', pendingChecks: 2 });
+    try {
+      const outcome = await verifyWithSourcify(`${verifier.url}/sourcify`, REQUEST, FAST_POLL);
+      assertEquals(outcome, { status: 'verified' });
+
+      const [submit, ...checks] = verifier.requests;
+      assertEquals(submit.path, `/sourcify/v2/verify/8453/${REQUEST.address}`);
+      const body = JSON.parse(submit.body);
+      assertEquals(body.contractIdentifier, 'src/MyHook.sol:MyHook');
+      assertEquals(body.compilerVersion, '0.8.28+commit.7893614a');
+      assertEquals(body.stdJsonInput.settings.optimizer, { enabled: true, runs: 200 });
+      assertEquals(checks.length, 3);
+      assertEquals(checks[0].path, '/sourcify/v2/verify/job-1');
+    } finally {
+      await verifier.close();
+    }
+  });
+
+  await t.step('reports a metadata mismatch as partial', async () => {
+    const verifier = startMockVerifier({ sourcifyMatch: 'match' });
+    try {
+      const outcome = await verifyWithSourcify(`${verifier.url}/sourcify`, REQUEST, FAST_POLL);
+      assertEquals(outcome.status, 'partial');
+    } finally {
+      await verifier.close();
+    }
+  });
+
+  await t.step('fails with the verifier\'s error', async () => {
+    const verifier = startMockVerifier({ sourcifyMatch: null });
+    try {
+      const outcome = await verifyWithSourcify(`${verifier.url}/sourcify`, REQUEST, FAST_POLL);
+      assertEquals(outcome.status, 'failed');
+      assert(outcome.message?.includes('bytecode'));
+    } finally {
+      await verifier.close();
+    }
+  });
+
+  await t.step('accepts an already verified contract built from the same sources', async () => {
+    const verifier = startMockVerifier({ sourcifyAlreadyVerified: true });
+    try {
+      const outcome = await verifyWithSourcify(`${verifier.url}/sourcify`, REQUEST, FAST_POLL);
+      assertEquals(outcome.status, 'verified');
+      assertEquals(verifier.requests.length, 2);
+      assertEquals(verifier.requests[1].path, `/sourcify/v2/contract/8453/${REQUEST.address}`);
+    } finally {
+      await verifier.close();
+    }
+  });
+
+  await t.step('rejects an already verified contract built from other sources', async () => {
+    const verifier = startMockVerifier({
+      sourcifyAlreadyVerified: true,
+      verifiedSources: { 'src/MyHook.sol': { content: 'contract MyHook { function drain() external {} }' } },
+    });
+    try {
+      const outcome = await verifyWithSourcify(`${verifier.url}/sourcify`, REQUEST, FAST_POLL);
+      assertEquals(outcome, { status: 'failed', message: 'Already verified with different sources' });
+    } finally {
+      await verifier.close();
+    }
+  });
+
+  await t.step('gives up after the last poll', async () => {
+    const verifier = startMockVerifier({ sourcifyMatch: 'exact_match', pendingChecks: 10 });
+    try {
+      const outcome = await verifyWithSourcify(`${verifier.url}/sourcify`, REQUEST, FAST_POLL);
+      assertEquals(outcome, { status: 'failed', message: 'Timed out waiting for Sourcify' });
+    } finally {
+      await verifier.close();
+    }
+  });
+});
+
+// ============================================================================
+// Etherscan Tests (mock verifier)
+// ============================================================================
+
+Deno.test('contractVerification - verifyWithEtherscan', async (t) => {
+  await t.step('submits standard JSON input with compiler and constructor args', async () => {
+    const verifier = startMockVerifier({ pendingChecks: 1 });
+    try {
+      const outcome = await verifyWithEtherscan(`${verifier.url}/etherscan`, 'test-key', REQUEST, FAST_POLL);
+      assertEquals(outcome, { status: 'verified' });
+
+      const submit = verifier.requests[0];
+      assertEquals(submit.params.get('chainid'), '8453');
+      const form = new URLSearchParams(submit.body);
+      assertEquals(form.get('apikey'), 'test-key');
+      assertEquals(form.get('action'), 'verifysourcecode');
+      assertEquals(form.get('codeformat'), 'solidity-standard-json-input');
+      assertEquals(form.get('contractname'), 'src/MyHook.sol:MyHook');
+      assertEquals(form.get('compilerversion'), 'v0.8.28+commit.7893614a');
+      assertEquals(form.get('constructorArguements'), REQUEST.constructorArgs);
+      assertEquals(JSON.parse(form.get('sourceCode')!), REQUEST.input);
+
+      const check = verifier.requests[verifier.requests.length - 1];
+      assertEquals(check.params.get('action'), 'checkverifystatus');
+      assertEquals(check.params.get('guid'), 'guid-1');
+    } finally {
+      await verifier.close();
+    }
+  });
+
+  await t.step('resubmits until the contract is indexed', async () => {
+    const verifier = startMockVerifier({ etherscanUnindexedSubmits: 2 });
+    try {
+      const outcome = await verifyWithEtherscan(`${verifier.url}/etherscan`, 'test-key', REQUEST, FAST_POLL);
+      assertEquals(outcome.status, 'verified');
+      assertEquals(verifier.requests.filter((r) => r.method === 'POST').length, 3);
+    } finally {
+      await verifier.close();
+    }
+  });
+
+  await t.step('checks the sources of an already verified contract', async () => {
+    const same = startMockVerifier({ etherscanAlreadyVerified: true });
+    try {
+      const outcome = await verifyWithEtherscan(`${same.url}/etherscan`, 'test-key', REQUEST, FAST_POLL);
+      assertEquals(outcome, { status: 'verified', message: 'Already verified' });
+      assertEquals(same.requests[1].params.get('address'), REQUEST.address);
+    } finally {
+      await same.close();
+    }
+
+    const other = startMockVerifier({
+      etherscanAlreadyVerified: true,
+      verifiedSources: { 'src/Other.sol': { content: HOOK_SOURCE } },
+    });
+    try {
+      const outcome = await verifyWithEtherscan(`${other.url}/etherscan`, 'test-key', REQUEST, FAST_POLL);
+      assertEquals(outcome, { status: 'failed', message: 'Already verified with different sources' });
+    } finally {
+      await other.close();
+    }
+  });
+
+  await t.step('fails with the explorer\'s result', async () => {
+    const verifier = startMockVerifier({ etherscanResult: 'Fail - Unable to verify' });
+    try {
+      const outcome = await verifyWithEtherscan(`${verifier.url}/etherscan`, 'test-key', REQUEST, FAST_POLL);
+      assertEquals(outcome, { status: 'failed', message: 'Fail - Unable to verify' });
+    } finally {
+      await verifier.close();
+    }
+  });
+});
@@ -0,0 +1,480 @@
+/**
+ * Contract Verification Service
+ *
+ * Publishes the source of deployed hooks to Sourcify and to Etherscan (the v2
+ * API covers every chain we deploy to with one key). Both get the standard
+ * JSON input forge compiled from, so they rebuild the same bytecode.
+ * Verification runs in the background after a deployment is recorded; its
+ * progress is kept per chain and verifier on hook_projects.verification.
+ */
+
+import { getConfig } from '../utils/config.ts';
+import { buildStandardJsonInput, getCompilerSettings, type StandardJsonInput } from './forge.ts';
+import {
+  getProjectWithFiles,
+  updateVerifierState,
+  type ChainVerification,
+  type ContractVerifier,
+  type VerifierState,
+} from './hookProjects.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface VerificationRequest {
+  chainId: number;
+  address: string;
+  contract: string; // e.g. src/MyHook.sol:MyHook
+  compilerVersion: string; // e.g. 0.8.28+commit.7893614a
+  input: StandardJsonInput;
+  constructorArgs?: string;
+}
+
+export interface PollOptions {
+  intervalMs: number;
+  maxAttempts: number;
+}
+
+type VerifierOutcome = Omit<VerifierState, 'updatedAt'>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Roughly three minutes; explorers can take a while to index a new contract
+const DEFAULT_POLL: PollOptions = { intervalMs: 5_000, maxAttempts: 36 };
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+// ============================================================================
+// HTTP
+// ============================================================================
+
+async function requestJson<T>(
+  url: string,
+  init: RequestInit = {}
+): Promise<{ status: number; ok: boolean; data: T }> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    const text = await response.text();
+
+    let data: T;
+    try {
+      data = JSON.parse(text) as T;
+    } catch {
+      throw new Error(`Unexpected response from verifier (${response.status})`);
+    }
+
+    return { status: response.status, ok: response.ok, data };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ============================================================================
+// Contract Selection
+// ============================================================================
+
+/**
+ * Pick the contract a project deploys: a concrete contract in src/, preferring
+ * one named after its file (src/MyHook.sol:MyHook).
+ */
+export function findMainContract(files: Array<{ path: string; content: string }>): string | null {
+  const candidates: string[] = [];
+
+  for (const file of files) {
+    if (!file.path.startsWith('src/') || !file.path.endsWith('.sol')) continue;
+
+    const fileName = file.path.split('/').pop()!.replace(/\.sol$/, '');
+    for (const match of file.content.matchAll(/^\s*contract\s+([A-Za-z_$][\w$]*)/gm)) {
+      if (match[1] === fileName) {
+        return `${file.path}:${match[1]}`;
+      }
+      candidates.push(`${file.path}:${match[1]}`);
+    }
+  }
+
+  return candidates[0] ?? null;
+}
+
+// ============================================================================
+// Verified Sources
+// ============================================================================
+
+/**
+ * Whether the sources a verifier already holds for an address are the ones
+ * this project compiles: the same files with the same content, for a contract
+ * of the same name. Addresses come from the client, so an existing
+ * verification says nothing about this project until its sources are checked.
+ */
+export function matchesVerifiedSources(
+  request: VerificationRequest,
+  verified: { contract: string; sources: Record<string, { content: string }> }
+): boolean {
+  const contractName = (identifier: string) => identifier.split(':').pop();
+  if (contractName(verified.contract) !== contractName(request.contract)) return false;
+
+  const paths = Object.keys(request.input.sources);
+  if (paths.length !== Object.keys(verified.sources).length) return false;
+
+  return paths.every((path) => verified.sources[path]?.content === request.input.sources[path].content);
+}
+
+/**
+ * Read the sources out of Etherscan's SourceCode field: standard JSON input
+ * wrapped in an extra pair of braces, or a bare map of sources. A single
+ * flattened file can't be compared and yields null.
+ */
+export function parseEtherscanSources(sourceCode: string): Record<string, { content: string }> | null {
+  try {
+    if (sourceCode.startsWith('{{')) {
+      return (JSON.parse(sourceCode.slice(1, -1)) as { sources?: Record<string, { content: string }> }).sources ?? null;
+    }
+    if (sourceCode.startsWith('{')) {
+      return JSON.parse(sourceCode) as Record<string, { content: string }>;
+    }
+  } catch {
+    // Not JSON, so a flattened source file
+  }
+  return null;
+}
+
+// ============================================================================
+// Sourcify
+// ============================================================================
+
+/**
+ * Fetch what Sourcify already verified at the address and accept it only if
+ * it was built from this project's sources.
+ */
+async function checkSourcifyVerified(apiUrl: string, request: VerificationRequest): Promise<VerifierOutcome> {
+  const { ok, status, data } = await requestJson<{
+    match?: 'exact_match' | 'match' | null;
+    sources?: Record<string, { content: string }>;
+    compilation?: { fullyQualifiedName?: string };
+  }>(`${apiUrl}/v2/contract/${request.chainId}/${request.address}?fields=sources,compilation`);
+
+  if (!ok || !data.sources || !data.compilation?.fullyQualifiedName) {
+    return { status: 'failed', message: `Could not read verified sources from Sourcify (${status})` };
+  }
+  if (!matchesVerifiedSources(request, { contract: data.compilation.fullyQualifiedName, sources: data.sources })) {
+    return { status: 'failed', message: 'Already verified with different sources' };
+  }
+  if (data.match === 'match') {
+    return { status: 'partial', message: 'Already verified; bytecode matches but metadata differs' };
+  }
+  return { status: 'verified', message: 'Already verified' };
+}
+
+/**
+ * Submit to Sourcify's v2 API and wait for the job to finish. An exact match
+ * includes the metadata hash; a plain match only the bytecode.
+ */
+export async function verifyWithSourcify(
+  apiUrl: string,
+  request: VerificationRequest,
+  poll: PollOptions = DEFAULT_POLL
+): Promise<VerifierOutcome> {
+  const submitted = await requestJson<{ verificationId?: string; customCode?: string; message?: string }>(
+    `${apiUrl}/v2/verify/${request.chainId}/${request.address}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        stdJsonInput: request.input,
+        compilerVersion: request.compilerVersion,
+        contractIdentifier: request.contract,
+      }),
+    }
+  );
+
+  if (submitted.status === 409 && submitted.data.customCode === 'already_verified') {
+    return await checkSourcifyVerified(apiUrl, request);
+  }
+  const verificationId = submitted.data.verificationId;
+  if (!submitted.ok || !verificationId) {
+    return { status: 'failed', message: submitted.data.message || `Sourcify returned ${submitted.status}` };
+  }
+
+  for (let attempt = 0; attempt < poll.maxAttempts; attempt++) {
+    await wait(poll.intervalMs);
+
+    const { ok, data: job } = await requestJson<{
+      isJobCompleted: boolean;
+      contract?: { match: 'exact_match' | 'match' | null };
+      error?: { message: string };
+    }>(`${apiUrl}/v2/verify/${verificationId}`);
+    if (!ok || !job.isJobCompleted) continue;
+
+    if (job.contract?.match === 'exact_match') {
+      return { status: 'verified' };
+    }
+    if (job.contract?.match === 'match') {
+      return { status: 'partial', message: 'Bytecode matches but metadata differs' };
+    }
+    return { status: 'failed', message: job.error?.message || 'Bytecode did not match' };
+  }
+
+  return { status: 'failed', message: 'Timed out waiting for Sourcify' };
+}
+
+// ============================================================================
+// Etherscan
+// ============================================================================
+
+/**
+ * Fetch the source Etherscan already verified at the address and accept it
+ * only if it was built from this project's sources.
+ */
+async function checkEtherscanVerified(
+  endpoint: string,
+  apiKey: string,
+  request: VerificationRequest
+): Promise<VerifierOutcome> {
+  const { data } = await requestJson<{
+    status: string;
+    result: Array<{ SourceCode: string; ContractName: string }> | string;
+  }>(`${endpoint}&${new URLSearchParams({
+    apikey: apiKey,
+    module: 'contract',
+    action: 'getsourcecode',
+    address: request.address,
+  })}`);
+
+  const verified = data.status === '1' && Array.isArray(data.result) ? data.result[0] : undefined;
+  if (!verified) {
+    return { status: 'failed', message: 'Could not read verified sources from Etherscan' };
+  }
+
+  const sources = parseEtherscanSources(verified.SourceCode);
+  if (!sources || !matchesVerifiedSources(request, { contract: verified.ContractName, sources })) {
+    return { status: 'failed', message: 'Already verified with different sources' };
+  }
+  return { status: 'verified', message: 'Already verified' };
+}
+
+/**
+ * Submit to an Etherscan-compatible API and wait for the result. Submission
+ * is retried while the explorer hasn't indexed the new contract yet.
+ */
+export async function verifyWithEtherscan(
+  apiUrl: string,
+  apiKey: string,
+  request: VerificationRequest,
+  poll: PollOptions = DEFAULT_POLL
+): Promise<VerifierOutcome> {
+  const endpoint = `${apiUrl}?chainid=${request.chainId}`;
+  let guid: string | null = null;
+  let attempt = 0;
+
+  while (!guid) {
+    const { data: submitted } = await requestJson<{ status: string; result: string }>(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        apikey: apiKey,
+        module: 'contract',
+        action: 'verifysourcecode',
+        contractaddress: request.address,
+        sourceCode: JSON.stringify(request.input),
+        codeformat: 'solidity-standard-json-input',
+        contractname: request.contract,
+        compilerversion: `v${request.compilerVersion}`,
+        constructorArguements: request.constructorArgs ?? '', // sic, the API's spelling
+      }),
+    });
+
+    if (submitted.status === '1') {
+      guid = submitted.result;
+    } else if (/already verified/i.test(submitted.result)) {
+      return await checkEtherscanVerified(endpoint, apiKey, request);
+    } else if (!/unable to locate contractcode/i.test(submitted.result) || ++attempt >= poll.maxAttempts) {
+      return { status: 'failed', message: submitted.result };
+    } else {
+      await wait(poll.intervalMs);
+    }
+  }
+
+  const statusUrl = `${endpoint}&${new URLSearchParams({
+    apikey: apiKey,
+    module: 'contract',
+    action: 'checkverifystatus',
+    guid,
+  })}`;
+
+  for (let check = 0; check < poll.maxAttempts; check++) {
+    await wait(poll.intervalMs);
+
+    const { ok, data: { result } } = await requestJson<{ status: string; result: string }>(statusUrl);
+    if (!ok || /^pending/i.test(result)) continue;
+
+    if (/^pass/i.test(result)) {
+      return { status: 'verified' };
+    }
+    if (/already verified/i.test(result)) {
+      return await checkEtherscanVerified(endpoint, apiKey, request);
+    }
+    return { status: 'failed', message: result };
+  }
+
+  return { status: 'failed', message: 'Timed out waiting for Etherscan' };
+}
+
+// ============================================================================
+// Project Verification
+// ============================================================================
+
+/**
+ * Initial verification state for newly deployed chains, stored by
+ * markAsDeployed. Etherscan is skipped without an API key.
+ */
+export function getPendingVerification(
+  chainIds: number[],
+  contract: string,
+  constructorArgs?: string
+): Record<number, ChainVerification> {
+  const config = getConfig();
+  const updatedAt = new Date().toISOString();
+  const verification: Record<number, ChainVerification> = {};
+
+  for (const chainId of chainIds) {
+    verification[chainId] = {
+      contract,
+      constructorArgs,
+      sourcify: { status: 'pending', updatedAt },
+      etherscan: config.etherscanApiKey
+        ? { status: 'pending', updatedAt }
+        : { status: 'skipped', message: 'ETHERSCAN_API_KEY is not set', updatedAt },
+    };
+  }
+
+  return verification;
+}
+
+async function runVerifier(
+  projectId: string,
+  chainId: number,
+  verifier: ContractVerifier,
+  verify: () => Promise<VerifierOutcome>
+): Promise<void> {
+  let outcome: VerifierOutcome;
+  try {
+    outcome = await verify();
+  } catch (error) {
+    outcome = { status: 'failed', message: error instanceof Error ? error.message : 'Verification failed' };
+  }
+
+  console.log(`[Verification] ${verifier} on chain ${chainId} for project ${projectId}: ${outcome.status}`);
+  await updateVerifierState(projectId, chainId, verifier, { ...outcome, updatedAt: new Date().toISOString() });
+}
+
+/**
+ * Verify a project's deployments on the given chains, for every verifier
+ * still pending there. Resolves once all of them have finished.
+ */
+export async function verifyDeployments(
+  projectId: string,
+  userAddress: string,
+  chainIds: number[]
+): Promise<void> {
+  const project = await getProjectWithFiles(projectId, userAddress);
+  if (!project) return;
+
+  const config = getConfig();
+  const pending = chainIds.flatMap((chainId) => {
+    const address = project.deployedAddresses[chainId];
+    const verification = project.verification[chainId];
+    return address && verification ? [{ chainId, address, verification }] : [];
+  });
+
+  let compiler: { version: string; input: StandardJsonInput };
+  try {
+    const settings = getCompilerSettings(project.files);
+    compiler = { version: settings.solcVersion, input: buildStandardJsonInput(project.files, settings) };
+  } catch (error) {
+    // Nothing can be submitted; fail every pending verifier with the reason
+    const message = error instanceof Error ? error.message : 'Failed to read compiler settings';
+    const updatedAt = new Date().toISOString();
+    for (const { chainId, verification } of pending) {
+      for (const verifier of ['sourcify', 'etherscan'] as const) {
+        if (verification[verifier]?.status === 'pending') {
+          await updateVerifierState(projectId, chainId, verifier, { status: 'failed', message, updatedAt });
+        }
+      }
+    }
+    return;
+  }
+
+  const runs: Promise<void>[] = [];
+  for (const { chainId, address, verification } of pending) {
+    const request: VerificationRequest = {
+      chainId,
+      address,
+      contract: verification.contract,
+      compilerVersion: compiler.version,
+      input: compiler.input,
+      constructorArgs: verification.constructorArgs,
+    };
+
+    if (verification.sourcify?.status === 'pending') {
+      runs.push(runVerifier(projectId, chainId, 'sourcify', () =>
+        verifyWithSourcify(config.sourcifyApiUrl, request)
+      ));
+    }
+    if (verification.etherscan?.status === 'pending') {
+      runs.push(runVerifier(projectId, chainId, 'etherscan', () =>
+        verifyWithEtherscan(config.etherscanApiUrl, config.etherscanApiKey, request)
+      ));
+    }
+  }
+
+  await Promise.all(runs);
+}
+
+/**
+ * Queue failed verifiers again (and Etherscan, if it was skipped but a key has
+ * been configured since). Returns the chains with something to retry; the
+ * caller runs verifyDeployments for them. Sources are read again, so edits
+ * made since deploying will make verification fail.
+ */
+export async function resetFailedVerification(
+  projectId: string,
+  userAddress: string,
+  chainId?: number
+): Promise<number[] | null> {
+  const project = await getProjectWithFiles(projectId, userAddress);
+  if (!project) return null;
+
+  const config = getConfig();
+  const updatedAt = new Date().toISOString();
+  const chainIds: number[] = [];
+
+  for (const [key, verification] of Object.entries(project.verification)) {
+    const id = Number(key);
+    if (chainId !== undefined && id !== chainId) continue;
+
+    const retry: ContractVerifier[] = [];
+    if (verification.sourcify?.status === 'failed') retry.push('sourcify');
+    if (
+      verification.etherscan?.status === 'failed' ||
+      (verification.etherscan?.status === 'skipped' && config.etherscanApiKey)
+    ) {
+      retry.push('etherscan');
+    }
+
+    for (const verifier of retry) {
+      await updateVerifierState(projectId, id, verifier, { status: 'pending', updatedAt });
+    }
+    if (retry.length > 0) chainIds.push(id);
+  }
+
+  return chainIds;
+}
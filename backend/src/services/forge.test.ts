@@ -3,6 +3,12 @@ import {
   validateJobInput,
   isAllowedRpcMethod,
   getRpcUrl,
+  parseSourceAsts,
+  parseTestProgressLine,
+  buildStandardJsonInput,
+  generateFoundryConfig,
+  getCompilerSettings,
+  FINAL_JOB_STATUSES,
   type ForgeJobInput,
 } from './forge.ts';
 
@@ -243,7 +249,7 @@ Deno.test('forge - Job Types', async (t) => {
 // ============================================================================
 
 Deno.test('forge - Job Status', async (t) => {
-  const validStatuses = ['queued', 'running', 'completed', 'failed', 'timeout'];
+  const validStatuses = ['queued', 'running', 'completed', 'failed', 'timeout', 'cancelled'];
 
   await t.step('has all expected statuses', () => {
     assert(validStatuses.includes('queued'));
@@ -251,11 +257,19 @@ Deno.test('forge - Job Status', async (t) => {
     assert(validStatuses.includes('completed'));
     assert(validStatuses.includes('failed'));
     assert(validStatuses.includes('timeout'));
+    assert(validStatuses.includes('cancelled'));
   });
 
   await t.step('initial status is queued', () => {
     assertEquals(validStatuses[0], 'queued');
   });
+
+  await t.step('only queued and running jobs are unfinished', () => {
+    assertEquals(
+      validStatuses.filter((status) => !FINAL_JOB_STATUSES.includes(status as never)),
+      ['queued', 'running']
+    );
+  });
 });
 
 // ============================================================================
@@ -330,3 +344,214 @@ function assertExists<T>(value: T | null | undefined): asserts value is T {
     throw new Error('Expected value to exist');
   }
 }
+
+// ============================================================================
+// AST Output Tests
+// ============================================================================
+
+Deno.test('forge - parseSourceAsts', async (t) => {
+  const ast = { id: 1, nodeType: 'SourceUnit', src: '0:20:0', nodes: [] };
+
+  await t.step('reads standard JSON sources', () => {
+    const output = JSON.stringify({ sources: { 'src/MyHook.sol': { id: 0, ast } } });
+    assertEquals(parseSourceAsts(output), { 'src/MyHook.sol': ast });
+  });
+
+  await t.step('reads per-version source entries', () => {
+    const output = `Compiling 1 files with Solc 0.8.28\n${JSON.stringify({
+      sources: { 'src/MyHook.sol': [{ source_file: { id: 0, ast }, version: '0.8.28' }] },
+    })}`;
+    assertEquals(parseSourceAsts(output), { 'src/MyHook.sol': ast });
+  });
+
+  await t.step('throws on compile errors', () => {
+    const output = JSON.stringify({
+      errors: [
+        { severity: 'warning', message: 'Unused variable' },
+        { severity: 'error', message: 'Undeclared identifier' },
+      ],
+      sources: {},
+    });
+    let message = '';
+    try {
+      parseSourceAsts(output);
+    } catch (error) {
+      message = (error as Error).message;
+    }
+    assertEquals(message, 'Compilation failed: Undeclared identifier');
+  });
+
+  await t.step('throws when no AST was emitted', () => {
+    let threw = false;
+    try {
+      parseSourceAsts(JSON.stringify({ sources: { 'src/MyHook.sol': { id: 0 } } }));
+    } catch {
+      threw = true;
+    }
+    assert(threw);
+  });
+});
+
+// ============================================================================
+// Test Progress Parsing Tests
+// ============================================================================
+
+Deno.test('forge - parseTestProgressLine', async (t) => {
+  await t.step('parses a suite start', () => {
+    assertEquals(parseTestProgressLine('Ran 3 tests for test/MyHook.t.sol:MyHookTest'), {
+      kind: 'suite_started',
+      suite: 'test/MyHook.t.sol:MyHookTest',
+      testCount: 3,
+    });
+  });
+
+  await t.step('parses a passing test with gas', () => {
+    assertEquals(parseTestProgressLine('[PASS] test_PayHook() (gas: 45123)'), {
+      kind: 'test_finished',
+      name: 'test_PayHook()',
+      passed: true,
+      gasUsed: 45123,
+      error: undefined,
+    });
+  });
+
+  await t.step('uses the mean gas of fuzz tests', () => {
+    const progress = parseTestProgressLine('[PASS] testFuzz_Amount(uint256) (runs: 256, μ: 31042, ~: 30911)');
+    assertEquals(progress?.kind === 'test_finished' && progress.gasUsed, 31042);
+  });
+
+  await t.step('parses a failure reason', () => {
+    assertEquals(
+      parseTestProgressLine('[FAIL: revert: Unauthorized] test_RejectsUnknownTerminal() (gas: 8351)'),
+      {
+        kind: 'test_finished',
+        name: 'test_RejectsUnknownTerminal()',
+        passed: false,
+        gasUsed: 8351,
+        error: 'revert: Unauthorized',
+      }
+    );
+  });
+
+  await t.step('keeps brackets inside a fuzz counterexample', () => {
+    const progress = parseTestProgressLine(
+      '[FAIL: panic: arithmetic underflow or overflow (0x11); counterexample: calldata=0x01 args=[1]] testFuzz_Cashout(uint256) (runs: 4, μ: 5000, ~: 5000)'
+    );
+    assert(progress?.kind === 'test_finished');
+    assertEquals(progress.name, 'testFuzz_Cashout(uint256)');
+    assertEquals(
+      progress.error,
+      'panic: arithmetic underflow or overflow (0x11); counterexample: calldata=0x01 args=[1]'
+    );
+  });
+
+  await t.step('parses the older "FAIL. Reason:" format', () => {
+    const progress = parseTestProgressLine('[FAIL. Reason: Not terminal] test_Terminal() (gas: 9000)');
+    assert(progress?.kind === 'test_finished');
+    assertEquals(progress.error, 'Not terminal');
+  });
+
+  await t.step('parses a suite result', () => {
+    assertEquals(
+      parseTestProgressLine('Suite result: FAILED. 2 passed; 1 failed; 0 skipped; finished in 1.20ms (3.1ms CPU time)'),
+      { kind: 'suite_finished', passed: 2, failed: 1, skipped: 0 }
+    );
+  });
+
+  await t.step('strips terminal colours', () => {
+    const progress = parseTestProgressLine('\x1b[32m[PASS]\x1b[0m test_PayHook() (gas: 100)');
+    assertEquals(progress?.kind === 'test_finished' && progress.passed, true);
+  });
+
+  await t.step('ignores other output', () => {
+    assertEquals(parseTestProgressLine('Compiling 12 files with Solc 0.8.23'), null);
+    assertEquals(parseTestProgressLine('  [45123] MyHookTest::test_PayHook()'), null);
+    assertEquals(parseTestProgressLine(''), null);
+  });
+});
+
+// ============================================================================
+// Verification Input Tests
+// ============================================================================
+
+Deno.test('forge - getCompilerSettings', async (t) => {
+  const source = { path: 'src/MyHook.sol', content: 'contract MyHook {}' };
+
+  await t.step('matches the generated foundry.toml', () => {
+    const settings = getCompilerSettings([source]);
+    const foundryConfig = generateFoundryConfig({ files: [source] });
+
+    assertEquals(settings.solcVersion, '0.8.28+commit.7893614a');
+    assert(foundryConfig.includes(`solc = "${settings.solcVersion.split('+')[0]}"`));
+    assert(foundryConfig.includes(`optimizer_runs = ${settings.optimizer.runs}`));
+    assert(foundryConfig.includes(`evm_version = "${settings.evmVersion}"`));
+    for (const remapping of settings.remappings) {
+      assert(foundryConfig.includes(`"${remapping}"`));
+    }
+  });
+
+  await t.step('reads the project\'s own foundry.toml', () => {
+    const foundryToml = {
+      path: 'foundry.toml',
+      content: `[profile.default]
+src = "src"
+solc = "0.8.26"
+optimizer = true
+optimizer_runs = 1000
+via_ir = true
+
+remappings = [
+  "@jb/=lib/juice-contracts-v5/src/",
+  "forge-std/=lib/forge-std/src/"
+]
+
+[fuzz]
+runs = 256
+`,
+    };
+
+    assertEquals(getCompilerSettings([source, foundryToml]), {
+      solcVersion: '0.8.26+commit.8a97fa7a',
+      optimizer: { enabled: true, runs: 1000 },
+      evmVersion: undefined,
+      viaIR: true,
+      remappings: ['@jb/=lib/juice-contracts-v5/src/', 'forge-std/=lib/forge-std/src/'],
+    });
+  });
+
+  await t.step('needs a known, pinned solc version', () => {
+    const messages = ['', 'solc = "0.7.6"'].map((line) => {
+      try {
+        getCompilerSettings([{ path: 'foundry.toml', content: `[profile.default]\n${line}\n` }]);
+        return '';
+      } catch (error) {
+        return (error as Error).message;
+      }
+    });
+    assertEquals(messages, [
+      'foundry.toml must pin a solc version for verification',
+      'Unsupported solc version for verification: 0.7.6',
+    ]);
+  });
+});
+
+Deno.test('forge - buildStandardJsonInput', async (t) => {
+  const files = [
+    { path: 'src/MyHook.sol', content: 'contract MyHook {}' },
+    { path: 'src/interfaces/IMyHook.sol', content: 'interface IMyHook {}' },
+    { path: 'test/MyHook.t.sol', content: 'contract MyHookTest {}' },
+    { path: 'script/Deploy.s.sol', content: 'contract Deploy {}' },
+    { path: 'README.md', content: '# MyHook' },
+  ];
+
+  await t.step('includes contract sources only', () => {
+    assertEquals(Object.keys(buildStandardJsonInput(files).sources), ['src/MyHook.sol', 'src/interfaces/IMyHook.sol']);
+  });
+
+  await t.step('passes compiler settings through, without the version', () => {
+    const { settings } = buildStandardJsonInput(files);
+    assertEquals(settings.optimizer, { enabled: true, runs: 200 });
+    assertEquals(settings.evmVersion, 'cancun');
+    assertEquals('solcVersion' in settings, false);
+  });
+});
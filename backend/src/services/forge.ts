@@ -1,14 +1,16 @@
+import { parse as parseToml } from 'std/toml/mod.ts';
 import { query, queryOne, execute } from '../db/index.ts';
 import { createHash } from 'node:crypto';
 import { getConfig } from '../utils/config.ts';
 import { computeFilesHash } from './hookProjects.ts';
+import type { AstNode } from './hookAstRules.ts';
 
 // ============================================================================
 // Types
 // ============================================================================
 
 export type ForgeJobType = 'compile' | 'test' | 'script';
-export type ForgeJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'timeout';
+export type ForgeJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'timeout' | 'cancelled';
 
 interface DbForgeJob {
   id: string;
@@ -64,6 +66,35 @@ export interface ForgeJobResult {
   gasReport?: Record<string, Record<string, number>>;
 }
 
+// Progress parsed from `forge test` output while it runs
+export type ForgeTestProgress =
+  | { kind: 'suite_started'; suite: string; testCount: number }
+  | { kind: 'test_finished'; suite?: string; name: string; passed: boolean; gasUsed?: number; error?: string }
+  | { kind: 'suite_finished'; suite?: string; passed: number; failed: number; skipped: number };
+
+// Pushed to live listeners of a running job (see subscribeToJob)
+export type ForgeJobEvent =
+  | { type: 'output'; chunk: string }
+  | { type: 'test'; progress: ForgeTestProgress }
+  | { type: 'status'; status: ForgeJobStatus; resultData?: ForgeJobResult };
+
+export interface CompilerSettings {
+  solcVersion: string; // Full build, e.g. 0.8.28+commit.7893614a
+  optimizer: { enabled: boolean; runs: number };
+  evmVersion?: string; // solc's default when unset
+  viaIR?: boolean;
+  remappings: string[];
+}
+
+// solc standard JSON input, as submitted to source verifiers
+export interface StandardJsonInput {
+  language: 'Solidity';
+  sources: Record<string, { content: string }>;
+  settings: Omit<CompilerSettings, 'solcVersion'> & {
+    outputSelection: Record<string, Record<string, string[]>>;
+  };
+}
+
 export interface ForgeJob {
   id: string;
   projectId: string | null;
@@ -90,6 +121,41 @@ const JOB_EXPIRY_MINUTES = 30;
 const MAX_FILE_SIZE = 500 * 1024; // 500KB per file
 const MAX_TOTAL_SIZE = 5 * 1024 * 1024; // 5MB total
 const MAX_FILES = 50;
+const OUTPUT_FLUSH_INTERVAL_MS = 1_000; // Batch output_log writes; live listeners get every chunk
+
+export const FINAL_JOB_STATUSES: ForgeJobStatus[] = ['completed', 'failed', 'timeout', 'cancelled'];
+
+const CANCELLED_RESULT: ForgeJobResult = {
+  success: false,
+  errors: [{ file: '', line: 0, column: 0, message: 'Cancelled by user', severity: 'error' }],
+};
+
+// Settings of the generated foundry.toml, used by projects without their own
+const DEFAULT_COMPILER = {
+  solcVersion: '0.8.28',
+  evmVersion: 'cancun',
+  optimizerRuns: 200,
+  remappings: [
+    '@openzeppelin/=lib/openzeppelin-contracts/',
+    '@jb/=lib/juice-contracts-v5/',
+    'forge-std/=lib/forge-std/src/',
+  ],
+} as const;
+
+// Verifiers want the exact compiler build, which foundry.toml doesn't name
+const SOLC_BUILDS: Record<string, string> = {
+  '0.8.20': 'a1b79de6',
+  '0.8.21': 'd9974bed',
+  '0.8.22': '4fc1097e',
+  '0.8.23': 'f704f362',
+  '0.8.24': 'e11b9ed9',
+  '0.8.25': 'b61c2a91',
+  '0.8.26': '8a97fa7a',
+  '0.8.27': '40a35a09',
+  '0.8.28': '7893614a',
+  '0.8.29': 'ab55807c',
+  '0.8.30': '73712a01',
+};
 
 // RPC methods allowed for fork testing
 const ALLOWED_RPC_METHODS = new Set([
@@ -274,7 +340,7 @@ async function updateJobStatus(
     updates.push(`started_at = NOW()`);
   }
 
-  if (status === 'completed' || status === 'failed' || status === 'timeout') {
+  if (FINAL_JOB_STATUSES.includes(status)) {
     updates.push(`completed_at = NOW()`);
   }
 
@@ -290,10 +356,15 @@ async function updateJobStatus(
 
   values.push(jobId);
 
-  await execute(
-    `UPDATE forge_jobs SET ${updates.join(', ')} WHERE id = $${paramIndex}`,
+  // A cancelled job stays cancelled, even if its container finishes afterwards
+  const updated = await execute(
+    `UPDATE forge_jobs SET ${updates.join(', ')} WHERE id = $${paramIndex} AND status <> 'cancelled'`,
     values
   );
+
+  if (updated > 0) {
+    emitJobEvent(jobId, { type: 'status', status, resultData });
+  }
 }
 
 async function appendJobOutput(jobId: string, output: string): Promise<void> {
@@ -305,6 +376,202 @@ async function appendJobOutput(jobId: string, output: string): Promise<void> {
   );
 }
 
+// ============================================================================
+// Live Job Events
+// ============================================================================
+// Jobs run in the process that accepted them, so listeners here see every
+// event of a job executing on this instance. Streams for jobs elsewhere fall
+// back to polling forge_jobs.
+
+interface LiveJob {
+  output: string; // Everything written so far; output_log lags by up to a flush
+  listeners: Set<(event: ForgeJobEvent) => void>;
+  abort: AbortController;
+}
+
+const liveJobs = new Map<string, LiveJob>();
+
+/**
+ * Listen to a job running on this instance. Returns the output written so
+ * far (subscribing and reading it happen together, so nothing is missed or
+ * repeated), or null when the job is not running here.
+ */
+export function subscribeToJob(
+  jobId: string,
+  listener: (event: ForgeJobEvent) => void
+): { output: string; unsubscribe: () => void } | null {
+  const live = liveJobs.get(jobId);
+  if (!live) return null;
+
+  live.listeners.add(listener);
+  return { output: live.output, unsubscribe: () => live.listeners.delete(listener) };
+}
+
+function emitJobEvent(jobId: string, event: ForgeJobEvent): void {
+  const live = liveJobs.get(jobId);
+  if (!live) return;
+
+  if (event.type === 'output') {
+    live.output += event.chunk;
+  }
+
+  for (const listener of live.listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error(`[Forge] Job ${jobId} listener failed:`, error);
+    }
+  }
+}
+
+/**
+ * Stop a queued or running job. A job running here has its container removed
+ * and is recorded as cancelled when it exits; one running on another instance
+ * is marked cancelled right away and its eventual result is discarded.
+ */
+export async function cancelJob(jobId: string, userAddress: string): Promise<boolean> {
+  const job = await getJob(jobId, userAddress);
+  if (!job) {
+    return false;
+  }
+
+  if (FINAL_JOB_STATUSES.includes(job.status)) {
+    throw new Error(`Job already ${job.status}`);
+  }
+
+  const live = liveJobs.get(jobId);
+  if (live) {
+    live.abort.abort();
+  } else {
+    await updateJobStatus(jobId, 'cancelled', CANCELLED_RESULT);
+  }
+
+  return true;
+}
+
+/**
+ * Collects a job's output: every chunk goes to live listeners at once, lines
+ * are parsed for test progress, and output_log is appended in batches.
+ */
+function createJobOutput(jobId: string) {
+  let pending = '';
+  let partialLine = '';
+  let suite: string | undefined;
+  let flushTimer: ReturnType<typeof setTimeout> | undefined;
+  let flushing: Promise<void> = Promise.resolve();
+
+  const flush = (): Promise<void> => {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+    if (pending) {
+      const chunk = pending;
+      pending = '';
+      flushing = flushing
+        .then(() => appendJobOutput(jobId, chunk))
+        .catch((error) => console.error(`[Forge] Failed to save output for job ${jobId}:`, error));
+    }
+    return flushing;
+  };
+
+  const parseLine = (line: string) => {
+    const progress = parseTestProgressLine(line);
+    if (!progress) return;
+
+    if (progress.kind === 'suite_started') {
+      suite = progress.suite;
+    } else {
+      progress.suite ??= suite;
+    }
+    emitJobEvent(jobId, { type: 'test', progress });
+  };
+
+  return {
+    write(chunk: string): void {
+      emitJobEvent(jobId, { type: 'output', chunk });
+      pending += chunk;
+      flushTimer ??= setTimeout(flush, OUTPUT_FLUSH_INTERVAL_MS);
+
+      const lines = (partialLine + chunk).split('\n');
+      partialLine = lines.pop() ?? '';
+      lines.forEach(parseLine);
+    },
+    async close(): Promise<void> {
+      if (partialLine) {
+        parseLine(partialLine);
+        partialLine = '';
+      }
+      await flush();
+    },
+  };
+}
+
+// ============================================================================
+// Test Progress Parsing
+// ============================================================================
+
+const ANSI_ESCAPE_PATTERN = /\x1b\[[0-9;]*m/g;
+
+/**
+ * Parse one line of `forge test` output, e.g.
+ *   Ran 2 tests for test/MyHook.t.sol:MyHookTest
+ *   [PASS] test_PayHook() (gas: 45000)
+ *   [FAIL: revert: Unauthorized] test_RejectsUnknownTerminal() (gas: 8351)
+ *   Suite result: FAILED. 1 passed; 1 failed; 0 skipped; finished in 1.20ms
+ */
+export function parseTestProgressLine(rawLine: string): ForgeTestProgress | null {
+  const line = rawLine.replace(ANSI_ESCAPE_PATTERN, '').trim();
+
+  const suiteStart = line.match(/^Ran (\d+) tests? for (.+)$/);
+  if (suiteStart) {
+    return { kind: 'suite_started', suite: suiteStart[2], testCount: Number(suiteStart[1]) };
+  }
+
+  const suiteResult = line.match(/^Suite result: \w+\. (\d+) passed; (\d+) failed; (\d+) skipped/);
+  if (suiteResult) {
+    return {
+      kind: 'suite_finished',
+      passed: Number(suiteResult[1]),
+      failed: Number(suiteResult[2]),
+      skipped: Number(suiteResult[3]),
+    };
+  }
+
+  const outcome = line.match(/^\[(PASS|FAIL)/);
+  if (!outcome) {
+    return null;
+  }
+
+  // The test signature and stats close the line; a failure reason can itself
+  // contain brackets (fuzz counterexamples), so match from the end
+  const test = line.match(/\]\s+([A-Za-z_$][\w$]*\([^)]*\))(?:\s+\(([^)]*)\))?$/);
+  if (!test) {
+    return null;
+  }
+
+  const reason = line
+    .slice(outcome[0].length, test.index)
+    .replace(/^[:.]\s*(Reason:\s*)?/, '')
+    .trim();
+  // Plain tests report gas, fuzz tests the mean (μ) over their runs
+  const gas = test[2]?.match(/(?:gas|μ):\s*(\d+)/);
+
+  return {
+    kind: 'test_finished',
+    name: test[1],
+    passed: outcome[1] === 'PASS',
+    gasUsed: gas ? Number(gas[1]) : undefined,
+    error: reason || undefined,
+  };
+}
+
+function collectTestResults(output: string): NonNullable<ForgeJobResult['testResults']> {
+  return output
+    .split('\n')
+    .map(parseTestProgressLine)
+    .filter((p): p is Extract<ForgeTestProgress, { kind: 'test_finished' }> => p?.kind === 'test_finished')
+    .map((p) => ({ name: p.name, passed: p.passed, gasUsed: p.gasUsed, error: p.error }));
+}
+
 // ============================================================================
 // Job Execution (Docker-based)
 // ============================================================================
@@ -322,24 +589,32 @@ async function executeJob(jobId: string): Promise<void> {
 
   const config = getConfig();
   const timeout = job.job_type === 'compile' ? COMPILE_TIMEOUT_MS : TEST_TIMEOUT_MS;
+  const live: LiveJob = { output: '', listeners: new Set(), abort: new AbortController() };
+  liveJobs.set(jobId, live);
 
   try {
-    await updateJobStatus(jobId, 'running');
+    await updateJobStatus(jobId, 'running', undefined, getContainerName(jobId));
 
     // In development without Docker, simulate the execution
     if (config.env === 'development' && !config.forgeDockerEnabled) {
-      await simulateForgeExecution(job);
+      await simulateForgeExecution(job, live.abort.signal);
       return;
     }
 
     // Run in Docker container
-    const result = await runInDocker(job, timeout);
+    const result = await runInDocker(job, timeout, live.abort.signal);
     await updateJobStatus(
       jobId,
       result.success ? 'completed' : 'failed',
       result
     );
   } catch (error) {
+    if (live.abort.signal.aborted) {
+      console.log(`[Forge] Job ${jobId} cancelled`);
+      await updateJobStatus(jobId, 'cancelled', CANCELLED_RESULT);
+      return;
+    }
+
     console.error(`[Forge] Job ${jobId} failed:`, error);
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -355,10 +630,28 @@ async function executeJob(jobId: string): Promise<void> {
         errors: [{ file: '', line: 0, column: 0, message: errorMessage, severity: 'error' }],
       });
     }
+  } finally {
+    liveJobs.delete(jobId);
   }
 }
 
-async function runInDocker(job: DbForgeJob, timeout: number): Promise<ForgeJobResult> {
+function getContainerName(jobId: string): string {
+  return `forge_${jobId}`;
+}
+
+function removeContainer(containerName: string): Promise<unknown> {
+  return new Deno.Command('docker', {
+    args: ['rm', '-f', containerName],
+    stdout: 'null',
+    stderr: 'null',
+  }).output().catch(() => {});
+}
+
+async function runInDocker(
+  job: DbForgeJob,
+  timeout: number,
+  signal: AbortSignal
+): Promise<ForgeJobResult> {
   const config = getConfig();
   const input = job.input_data;
 
@@ -366,47 +659,58 @@ async function runInDocker(job: DbForgeJob, timeout: number): Promise<ForgeJobRe
   const tmpDir = await Deno.makeTempDir({ prefix: 'forge_' });
 
   try {
-    // Write project files
-    for (const file of input.files) {
-      const filePath = `${tmpDir}/${file.path}`;
-      const dirPath = filePath.substring(0, filePath.lastIndexOf('/'));
-      await Deno.mkdir(dirPath, { recursive: true });
-      await Deno.writeTextFile(filePath, file.content);
-    }
+    await writeProjectFiles(tmpDir, input);
 
-    // Write foundry.toml if not provided
-    const hasFoundryConfig = input.files.some((f) => f.path === 'foundry.toml');
-    if (!hasFoundryConfig) {
-      await Deno.writeTextFile(`${tmpDir}/foundry.toml`, generateFoundryConfig(input));
-    }
-
-    // Build Docker command
-    const dockerArgs = buildDockerCommand(job, tmpDir, input, timeout, config);
+    // Build Docker command. The container is named so a timeout or cancel can
+    // remove it: killing the docker CLI alone leaves the container running.
+    const containerName = getContainerName(job.id);
+    const dockerArgs = buildDockerCommand(job.job_type, tmpDir, input, timeout, config, containerName);
 
-    // Execute Docker command
+    // Execute Docker command, streaming its output as it arrives
     const process = new Deno.Command('docker', {
       args: dockerArgs,
       stdout: 'piped',
       stderr: 'piped',
-    });
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    }).spawn();
+
+    const jobOutput = createJobOutput(job.id);
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      removeContainer(containerName);
+    }, timeout);
+    const onAbort = () => removeContainer(containerName);
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    const read = async (stream: ReadableStream<Uint8Array>) => {
+      let text = '';
+      for await (const chunk of stream.pipeThrough(new TextDecoderStream())) {
+        text += chunk;
+        jobOutput.write(chunk);
+      }
+      return text;
+    };
 
     try {
-      const output = await process.output();
-      clearTimeout(timeoutId);
+      const [status, stdout, stderr] = await Promise.all([
+        process.status,
+        read(process.stdout),
+        read(process.stderr),
+      ]);
+
+      if (signal.aborted) {
+        throw new Error('Job cancelled');
+      }
+      if (timedOut) {
+        throw new Error('Execution timeout');
+      }
 
-      const stdout = new TextDecoder().decode(output.stdout);
-      const stderr = new TextDecoder().decode(output.stderr);
       const fullOutput = stdout + (stderr ? `\n${stderr}` : '');
-
-      await appendJobOutput(job.id, fullOutput);
-
-      return parseForgeOutput(job.job_type, fullOutput, output.success);
-    } catch (error) {
+      return parseForgeOutput(job.job_type, fullOutput, status.success);
+    } finally {
       clearTimeout(timeoutId);
-      throw error;
+      signal.removeEventListener('abort', onAbort);
+      await jobOutput.close();
     }
   } finally {
     // Cleanup temporary directory
@@ -418,16 +722,33 @@ async function runInDocker(job: DbForgeJob, timeout: number): Promise<ForgeJobRe
   }
 }
 
+async function writeProjectFiles(tmpDir: string, input: ForgeJobInput): Promise<void> {
+  for (const file of input.files) {
+    const filePath = `${tmpDir}/${file.path}`;
+    const dirPath = filePath.substring(0, filePath.lastIndexOf('/'));
+    await Deno.mkdir(dirPath, { recursive: true });
+    await Deno.writeTextFile(filePath, file.content);
+  }
+
+  // Write foundry.toml if not provided
+  const hasFoundryConfig = input.files.some((f) => f.path === 'foundry.toml');
+  if (!hasFoundryConfig) {
+    await Deno.writeTextFile(`${tmpDir}/foundry.toml`, generateFoundryConfig(input));
+  }
+}
+
 function buildDockerCommand(
-  job: DbForgeJob,
+  jobType: ForgeJobType,
   tmpDir: string,
   input: ForgeJobInput,
   timeout: number,
-  config: ReturnType<typeof getConfig>
+  config: ReturnType<typeof getConfig>,
+  containerName?: string
 ): string[] {
   const args = [
     'run',
     '--rm',
+    ...(containerName ? ['--name', containerName] : []),
     '--network', 'none', // No network access by default
     '--memory', '2g',
     '--cpus', '2',
@@ -452,10 +773,12 @@ function buildDockerCommand(
   args.push('ghcr.io/foundry-rs/foundry:latest');
 
   // Add forge command
-  if (job.job_type === 'compile') {
+  if (jobType === 'compile') {
     args.push('forge', 'build', '--json');
-  } else if (job.job_type === 'test') {
-    args.push('forge', 'test', '-vvv', '--json');
+  } else if (jobType === 'test') {
+    // Plain output rather than --json, which prints nothing until every suite
+    // has run; results are read from the text (see parseTestProgressLine)
+    args.push('forge', 'test', '-vvv');
     if (input.testMatch) {
       args.push('--match-test', input.testMatch);
     }
@@ -468,29 +791,28 @@ function buildDockerCommand(
         }
       }
     }
-  } else if (job.job_type === 'script') {
+  } else if (jobType === 'script') {
     args.push('forge', 'script', input.scriptPath || 'script/Deploy.s.sol', '--json');
   }
 
   return args;
 }
 
-function generateFoundryConfig(input: ForgeJobInput): string {
+export function generateFoundryConfig(input: ForgeJobInput): string {
   return `[profile.default]
 src = "src"
 out = "out"
 libs = ["lib"]
-solc = "0.8.28"
+solc = "${DEFAULT_COMPILER.solcVersion}"
+evm_version = "${DEFAULT_COMPILER.evmVersion}"
 
 # Optimizations
 optimizer = true
-optimizer_runs = 200
+optimizer_runs = ${DEFAULT_COMPILER.optimizerRuns}
 
 # Remappings for common dependencies
 remappings = [
-  "@openzeppelin/=lib/openzeppelin-contracts/",
-  "@jb/=lib/juice-contracts-v5/",
-  "forge-std/=lib/forge-std/src/"
+${DEFAULT_COMPILER.remappings.map((r) => `  "${r}"`).join(',\n')}
 ]
 
 [fuzz]
@@ -574,6 +896,14 @@ function parseForgeOutput(
     }
   }
 
+  if (jobType === 'test' && !result.testResults) {
+    const testResults = collectTestResults(output);
+    if (testResults.length > 0) {
+      result.testResults = testResults;
+      result.success = success && testResults.every((t) => t.passed);
+    }
+  }
+
   // Extract warnings
   const warningMatches = output.matchAll(/Warning[:\s]+(.+?)(?:\n|$)/gi);
   result.warnings = Array.from(warningMatches).map((m) => m[1]);
@@ -581,17 +911,179 @@ function parseForgeOutput(
   return result;
 }
 
+// ============================================================================
+// Verification Input
+// ============================================================================
+
+/**
+ * The settings forge compiles a project with: the default profile of its own
+ * foundry.toml, or the generated config's when it has none. Unset keys take
+ * forge's defaults (optimizer off, 200 runs).
+ */
+export function getCompilerSettings(files: Array<{ path: string; content: string }>): CompilerSettings {
+  const foundryToml = files.find((f) => f.path === 'foundry.toml');
+  if (!foundryToml) {
+    return {
+      solcVersion: `${DEFAULT_COMPILER.solcVersion}+commit.${SOLC_BUILDS[DEFAULT_COMPILER.solcVersion]}`,
+      optimizer: { enabled: true, runs: DEFAULT_COMPILER.optimizerRuns },
+      evmVersion: DEFAULT_COMPILER.evmVersion,
+      remappings: [...DEFAULT_COMPILER.remappings],
+    };
+  }
+
+  const parsed = parseToml(foundryToml.content) as { profile?: { default?: Record<string, unknown> } };
+  const profile = parsed.profile?.default ?? {};
+
+  // Without a pinned version forge picks one from the pragmas, which we can't reproduce
+  const solc = profile.solc ?? profile.solc_version;
+  if (typeof solc !== 'string') {
+    throw new Error('foundry.toml must pin a solc version for verification');
+  }
+  const commit = SOLC_BUILDS[solc];
+  if (!commit) {
+    throw new Error(`Unsupported solc version for verification: ${solc}`);
+  }
+
+  return {
+    solcVersion: `${solc}+commit.${commit}`,
+    optimizer: {
+      enabled: profile.optimizer === true,
+      runs: typeof profile.optimizer_runs === 'number' ? profile.optimizer_runs : 200,
+    },
+    evmVersion: typeof profile.evm_version === 'string' ? profile.evm_version : undefined,
+    viaIR: profile.via_ir === true ? true : undefined,
+    remappings: Array.isArray(profile.remappings) ? profile.remappings.map(String) : [],
+  };
+}
+
+/**
+ * The standard JSON input forge compiles a project's contracts from. Tests
+ * and scripts are left out: they aren't part of a deployed contract and
+ * import forge-std, which verifiers would have to resolve.
+ */
+export function buildStandardJsonInput(
+  files: Array<{ path: string; content: string }>,
+  settings: CompilerSettings = getCompilerSettings(files)
+): StandardJsonInput {
+  const sources: StandardJsonInput['sources'] = {};
+  for (const file of files) {
+    if (file.path.endsWith('.sol') && !/^(test|script)\//.test(file.path)) {
+      sources[file.path] = { content: file.content };
+    }
+  }
+
+  const { solcVersion: _solcVersion, ...compilerSettings } = settings;
+  return {
+    language: 'Solidity',
+    sources,
+    settings: {
+      ...compilerSettings,
+      outputSelection: {
+        '*': { '*': ['abi', 'evm.bytecode', 'evm.deployedBytecode', 'evm.methodIdentifiers', 'metadata'] },
+      },
+    },
+  };
+}
+
+// ============================================================================
+// AST Compilation (for security analysis)
+// ============================================================================
+// Runs outside the job queue: analysis needs the ASTs right away and they are
+// too large to keep in result_data.
+
+export async function compileSourceAsts(
+  files: Array<{ path: string; content: string }>
+): Promise<Record<string, AstNode>> {
+  const config = getConfig();
+  const input: ForgeJobInput = { files };
+  const tmpDir = await Deno.makeTempDir({ prefix: 'forge_ast_' });
+
+  try {
+    await writeProjectFiles(tmpDir, input);
+
+    // Named so the timeout can remove it, as in runInDocker
+    const containerName = `forge_ast_${crypto.randomUUID()}`;
+    const args = buildDockerCommand('compile', tmpDir, input, COMPILE_TIMEOUT_MS, config, containerName);
+    args.push('--ast');
+
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      removeContainer(containerName);
+    }, COMPILE_TIMEOUT_MS);
+
+    try {
+      const output = await new Deno.Command('docker', {
+        args,
+        stdout: 'piped',
+        stderr: 'piped',
+      }).output();
+
+      if (timedOut) {
+        throw new Error(`Compilation timed out after ${COMPILE_TIMEOUT_MS / 1000}s`);
+      }
+
+      return parseSourceAsts(new TextDecoder().decode(output.stdout));
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  } finally {
+    try {
+      await Deno.remove(tmpDir, { recursive: true });
+    } catch {
+      console.warn(`[Forge] Failed to cleanup ${tmpDir}`);
+    }
+  }
+}
+
+/**
+ * Pull each source's AST out of `forge build --json --ast` output. Newer forge
+ * versions list every source as an array of per-compiler-version entries.
+ */
+export function parseSourceAsts(output: string): Record<string, AstNode> {
+  const jsonMatch = output.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('Compiler produced no JSON output');
+  }
+
+  const parsed = JSON.parse(jsonMatch[0]) as {
+    errors?: Array<{ severity: string; message: string }>;
+    sources?: Record<string, unknown>;
+  };
+
+  const compileError = parsed.errors?.find((e) => e.severity === 'error');
+  if (compileError) {
+    throw new Error(`Compilation failed: ${compileError.message}`);
+  }
+
+  const asts: Record<string, AstNode> = {};
+  for (const [path, entry] of Object.entries(parsed.sources ?? {})) {
+    const source = (Array.isArray(entry) ? entry[0]?.source_file ?? entry[0] : entry) as { ast?: AstNode } | undefined;
+    if (source?.ast) {
+      asts[path] = source.ast;
+    }
+  }
+
+  if (Object.keys(asts).length === 0) {
+    throw new Error('Compiler output contained no ASTs');
+  }
+
+  return asts;
+}
+
 // ============================================================================
 // Development Simulation (when Docker not available)
 // ============================================================================
 
-async function simulateForgeExecution(job: DbForgeJob): Promise<void> {
+async function simulateForgeExecution(job: DbForgeJob, signal: AbortSignal): Promise<void> {
   console.log(`[Forge] Simulating job ${job.id} (Docker disabled)`);
 
-  await appendJobOutput(job.id, 'Compiling contracts...\n');
+  const jobOutput = createJobOutput(job.id);
+  jobOutput.write('Compiling contracts...\n');
 
   // Simulate some processing time
   await new Promise((resolve) => setTimeout(resolve, 1000));
+  signal.throwIfAborted();
 
   // Parse the input files to check for obvious errors
   const hasMainContract = job.input_data.files.some(
@@ -611,19 +1103,23 @@ async function simulateForgeExecution(job: DbForgeJob): Promise<void> {
         },
       ],
     };
-    await appendJobOutput(job.id, 'Error: No Solidity files found in src/ directory\n');
+    jobOutput.write('Error: No Solidity files found in src/ directory\n');
+    await jobOutput.close();
     await updateJobStatus(job.id, 'failed', result);
     return;
   }
 
   // Simulate successful compilation
-  await appendJobOutput(job.id, 'Compilation successful!\n');
+  jobOutput.write('Compilation successful!\n');
 
   if (job.job_type === 'test') {
-    await appendJobOutput(job.id, '\nRunning tests...\n');
+    jobOutput.write('\nRan 1 test for test/MyHook.t.sol:MyHookTest\n');
     await new Promise((resolve) => setTimeout(resolve, 500));
-    await appendJobOutput(job.id, 'Tests passed!\n');
+    signal.throwIfAborted();
+    jobOutput.write('[PASS] test_PayHook() (gas: 45000)\n');
+    jobOutput.write('Suite result: ok. 1 passed; 0 failed; 0 skipped; finished in 100.00ms\n');
   }
+  await jobOutput.close();
 
   const result: ForgeJobResult = {
     success: true,
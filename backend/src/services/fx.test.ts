@@ -0,0 +1,37 @@
+import { assertEquals } from 'std/assert/mod.ts';
+import { isPurchaseCurrency, toMinorUnits, getUsdExchangeRate } from './fx.ts';
+
+// ============================================================================
+// Currency Tests
+// ============================================================================
+
+Deno.test('fx - isPurchaseCurrency', async (t) => {
+  await t.step('accepts supported currencies', () => {
+    assertEquals(isPurchaseCurrency('USD'), true);
+    assertEquals(isPurchaseCurrency('BRL'), true);
+    assertEquals(isPurchaseCurrency('EUR'), true);
+  });
+
+  await t.step('rejects unsupported or lowercase codes', () => {
+    assertEquals(isPurchaseCurrency('JPY'), false);
+    assertEquals(isPurchaseCurrency('eur'), false);
+    assertEquals(isPurchaseCurrency(''), false);
+  });
+});
+
+Deno.test('fx - toMinorUnits', async (t) => {
+  await t.step('USD is a straight cents conversion', () => {
+    assertEquals(toMinorUnits(10.5, 1), 1050);
+  });
+
+  await t.step('applies the exchange rate and rounds to the nearest unit', () => {
+    // 105 USD at 5.4321 BRL/USD = 570.3705 BRL
+    assertEquals(toMinorUnits(105, 5.4321), 57037);
+  });
+});
+
+Deno.test('fx - getUsdExchangeRate', async (t) => {
+  await t.step('USD never hits the network', async () => {
+    assertEquals(await getUsdExchangeRate('USD'), 1);
+  });
+});
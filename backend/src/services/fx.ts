@@ -0,0 +1,76 @@
+/**
+ * FX Rate Service
+ *
+ * USD exchange rates for pricing Pay Credits in the buyer's local currency.
+ * Rates come from the ECB reference feed (frankfurter.app, no API key) and
+ * are cached in memory. Stripe charges in the presentment currency and
+ * settles to our USD balance, so the rate here only sets the local price.
+ */
+
+import { logger } from '../utils/logger.ts';
+
+// Currencies offered at checkout (all two-decimal in Stripe)
+export const PURCHASE_CURRENCIES = ['USD', 'EUR', 'GBP', 'BRL', 'MXN', 'CNY', 'CAD', 'AUD'] as const;
+export type PurchaseCurrency = (typeof PURCHASE_CURRENCIES)[number];
+
+const FX_API_URL = 'https://api.frankfurter.app/latest';
+const CACHE_TTL_MS = 60 * 60 * 1000; // Refresh hourly
+const MAX_STALE_MS = 24 * 60 * 60 * 1000; // Serve cached rates up to a day old if the feed is down
+
+let cache: { rates: Record<string, number>; fetchedAt: number } | null = null;
+
+export function isPurchaseCurrency(value: string): value is PurchaseCurrency {
+  return (PURCHASE_CURRENCIES as readonly string[]).includes(value);
+}
+
+async function fetchRates(): Promise<Record<string, number>> {
+  const symbols = PURCHASE_CURRENCIES.filter(c => c !== 'USD').join(',');
+  const response = await fetch(`${FX_API_URL}?from=USD&to=${symbols}`);
+
+  if (!response.ok) {
+    throw new Error(`FX rate request failed: ${response.status}`);
+  }
+
+  const data = await response.json() as { rates?: Record<string, number> };
+  if (!data.rates) {
+    throw new Error('FX rate response missing rates');
+  }
+
+  return data.rates;
+}
+
+/**
+ * Get units of `currency` per 1 USD
+ */
+export async function getUsdExchangeRate(currency: PurchaseCurrency): Promise<number> {
+  if (currency === 'USD') return 1;
+
+  const now = Date.now();
+
+  if (!cache || now - cache.fetchedAt > CACHE_TTL_MS) {
+    try {
+      cache = { rates: await fetchRates(), fetchedAt: now };
+    } catch (error) {
+      logger.error('Failed to refresh FX rates', error as Error, {
+        cachedAgeMs: cache ? now - cache.fetchedAt : null,
+      });
+      if (!cache || now - cache.fetchedAt > MAX_STALE_MS) {
+        throw new Error('Exchange rates unavailable, please pay in USD');
+      }
+    }
+  }
+
+  const rate = cache.rates[currency];
+  if (!rate || rate <= 0) {
+    throw new Error(`No exchange rate for ${currency}`);
+  }
+
+  return rate;
+}
+
+/**
+ * Convert a USD amount to the smallest unit of the presentment currency
+ */
+export function toMinorUnits(usdAmount: number, fxRate: number): number {
+  return Math.round(usdAmount * fxRate * 100);
+}
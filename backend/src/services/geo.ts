@@ -109,6 +109,21 @@ export async function recordUserRegion(
   }
 }
 
+/**
+ * Get the country a user was most recently seen in (for payment risk checks)
+ */
+export async function getLatestUserCountry(userId: string): Promise<string | null> {
+  const rows = await query<{ country_code: string }>(
+    `SELECT country_code FROM user_regions
+     WHERE user_id = $1
+     ORDER BY visited_at DESC
+     LIMIT 1`,
+    [userId]
+  );
+
+  return rows[0]?.country_code ?? null;
+}
+
 /**
  * Get region stats for analytics
  */
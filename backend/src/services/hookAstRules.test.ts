@@ -0,0 +1,479 @@
+import { assert, assertEquals } from 'std/assert/mod.ts';
+import { scanHookAsts, type AstNode } from './hookAstRules.ts';
+
+// ============================================================================
+// AST Fixture Builders
+// ============================================================================
+// Minimal solc compact-AST nodes: only the fields the rules read. Positions
+// default to the start of the file unless a test cares about them.
+
+let nextId = 1;
+const NO_SRC = '0:0:0';
+
+function node(nodeType: string, props: Record<string, unknown> = {}, src = NO_SRC): AstNode {
+  return { id: nextId++, nodeType, src, ...props };
+}
+
+/** src for the first occurrence of snippet in source. */
+function locate(source: string, snippet: string): string {
+  const start = source.indexOf(snippet);
+  if (start < 0) throw new Error(`"${snippet}" is not in the fixture source`);
+  return `${start}:${snippet.length}:0`;
+}
+
+const ident = (name: string, declaration?: AstNode, typeString = '', src = NO_SRC) =>
+  node('Identifier', {
+    name,
+    referencedDeclaration: declaration?.id ?? -1,
+    typeDescriptions: { typeString },
+  }, src);
+
+const member = (expression: AstNode, memberName: string, typeString = '', src = NO_SRC) =>
+  node('MemberAccess', { expression, memberName, typeDescriptions: { typeString } }, src);
+
+const call = (expression: AstNode, args: AstNode[] = [], src = NO_SRC, kind = 'functionCall') =>
+  node('FunctionCall', { expression, arguments: args, kind }, src);
+
+const index = (baseExpression: AstNode, indexExpression: AstNode) =>
+  node('IndexAccess', { baseExpression, indexExpression });
+
+const assign = (leftHandSide: AstNode, rightHandSide: AstNode, operator = '=', src = NO_SRC) =>
+  node('ExpressionStatement', {
+    expression: node('Assignment', { operator, leftHandSide, rightHandSide }, src),
+  });
+
+const binary = (operator: string, leftExpression: AstNode, rightExpression: AstNode) =>
+  node('BinaryOperation', { operator, leftExpression, rightExpression });
+
+const literal = (value: string, src = NO_SRC) => node('Literal', { kind: 'number', value }, src);
+
+const stmt = (expression: AstNode) => node('ExpressionStatement', { expression });
+
+const revertIf = (condition: AstNode) =>
+  node('IfStatement', { condition, trueBody: node('RevertStatement', { errorCall: call(ident('Unauthorized')) }) });
+
+const requireThat = (condition: AstNode) => stmt(call(ident('require'), [condition]));
+
+const block = (statements: AstNode[]) => node('Block', { statements });
+
+const variable = (name: string, stateVariable = false) =>
+  node('VariableDeclaration', { name, stateVariable });
+
+const msgSender = () => member(ident('msg'), 'sender', 'address');
+
+function fn(
+  name: string,
+  statements: AstNode[] | null,
+  options: { parameters?: AstNode[]; modifiers?: AstNode[]; stateMutability?: string; src?: string } = {}
+): AstNode {
+  return node('FunctionDefinition', {
+    name,
+    kind: 'function',
+    body: statements ? block(statements) : null,
+    parameters: node('ParameterList', { parameters: options.parameters ?? [] }),
+    modifiers: options.modifiers ?? [],
+    stateMutability: options.stateMutability ?? 'nonpayable',
+  }, options.src);
+}
+
+const modifierCall = (modifier: AstNode | string) =>
+  node('ModifierInvocation', {
+    modifierName: typeof modifier === 'string'
+      ? node('IdentifierPath', { name: modifier })
+      : node('IdentifierPath', { name: modifier.name, referencedDeclaration: modifier.id }),
+  });
+
+function contract(
+  name: string,
+  nodes: AstNode[],
+  bases: AstNode[] = [],
+  options: { contractKind?: string; abstract?: boolean; src?: string } = {}
+): AstNode {
+  const definition = node('ContractDefinition', {
+    name,
+    contractKind: options.contractKind ?? 'contract',
+    abstract: options.abstract ?? false,
+    baseContracts: bases.map((base) =>
+      node('InheritanceSpecifier', {
+        baseName: node('IdentifierPath', { name: base.name, referencedDeclaration: base.id }),
+      })
+    ),
+    nodes,
+  }, options.src);
+  const inherited = bases.flatMap((base) => base.linearizedBaseContracts as number[]);
+  definition.linearizedBaseContracts = [definition.id, ...new Set(inherited)];
+  return definition;
+}
+
+const sourceUnit = (nodes: AstNode[]) => node('SourceUnit', { nodes });
+
+// Interfaces compiled from lib/, as a real project would pull them in
+const IJB_PAY_HOOK = contract('IJBPayHook', [
+  fn('afterPayRecordedWith', null, { stateMutability: 'payable' }),
+], [], { contractKind: 'interface' });
+const IJB_SPLIT_HOOK = contract('IJBSplitHook', [
+  fn('processSplitWith', null, { stateMutability: 'payable' }),
+], [], { contractKind: 'interface' });
+const ERC165 = contract('ERC165', [
+  fn('supportsInterface', [node('Return')], { stateMutability: 'view' }),
+], [], { abstract: true });
+const LIB_UNIT = sourceUnit([IJB_PAY_HOOK, IJB_SPLIT_HOOK, ERC165]);
+
+interface HookParts {
+  directory: AstNode;
+  projectId: AstNode;
+  credits: AstNode;
+  context: AstNode;
+}
+
+/**
+ * A pay hook contract whose afterPayRecordedWith runs the statements built by
+ * body. Inherits IJBPayHook and implements supportsInterface unless told not to.
+ */
+function payHook(
+  body: (hook: HookParts) => AstNode[],
+  options: { bases?: AstNode[]; supportsInterface?: boolean; extraNodes?: (hook: HookParts) => AstNode[]; modifiers?: (hook: HookParts) => AstNode[] } = {}
+): AstNode {
+  const hook: HookParts = {
+    directory: variable('DIRECTORY', true),
+    projectId: variable('PROJECT_ID', true),
+    credits: variable('credits', true),
+    context: variable('context'),
+  };
+
+  const nodes = [
+    hook.directory,
+    hook.projectId,
+    hook.credits,
+    ...(options.extraNodes?.(hook) ?? []),
+    fn('afterPayRecordedWith', body(hook), {
+      parameters: [hook.context],
+      modifiers: options.modifiers?.(hook),
+      stateMutability: 'payable',
+    }),
+  ];
+  if (options.supportsInterface !== false) {
+    nodes.push(fn('supportsInterface', [node('Return')], { stateMutability: 'pure' }));
+  }
+
+  return sourceUnit([contract('PayHook', nodes, options.bases ?? [IJB_PAY_HOOK])]);
+}
+
+const contextProjectId = (hook: HookParts) => member(ident('context', hook.context), 'projectId', 'uint256');
+
+const isTerminalOf = (hook: HookParts, caller: AstNode = msgSender()) =>
+  call(
+    member(ident('DIRECTORY', hook.directory), 'isTerminalOf', 'function (uint256,contract IJBTerminal) view external returns (bool)'),
+    [contextProjectId(hook), call(ident('IJBTerminal'), [caller], NO_SRC, 'typeConversion')]
+  );
+
+const terminalCheck = (hook: HookParts, caller?: AstNode) =>
+  revertIf(node('UnaryOperation', { operator: '!', subExpression: isTerminalOf(hook, caller) }));
+
+const projectCheck = (hook: HookParts) =>
+  revertIf(binary('!=', contextProjectId(hook), ident('PROJECT_ID', hook.projectId)));
+
+const creditPayer = (hook: HookParts, key: AstNode = member(ident('context', hook.context), 'payer')) =>
+  assign(index(ident('credits', hook.credits), key), member(ident('context', hook.context), 'amount'), '+=');
+
+function scan(unit: AstNode, content = ''): ReturnType<typeof scanHookAsts> {
+  return scanHookAsts(
+    { 'lib/juice-contracts-v5/src/interfaces.sol': LIB_UNIT, 'src/PayHook.sol': unit },
+    [{ path: 'src/PayHook.sol', content }]
+  );
+}
+
+function ruleIds(unit: AstNode): string[] {
+  return scan(unit).map((f) => f.ruleId);
+}
+
+// ============================================================================
+// Terminal Validation
+// ============================================================================
+
+Deno.test('hookAstRules - jb-terminal-validation', async (t) => {
+  await t.step('flags a hook that never checks its caller', () => {
+    assert(ruleIds(payHook((h) => [projectCheck(h), creditPayer(h)])).includes('jb-terminal-validation'));
+  });
+
+  await t.step('passes a hook that reverts unless msg.sender is a terminal', () => {
+    const unit = payHook((h) => [terminalCheck(h), projectCheck(h), creditPayer(h)]);
+    assertEquals(ruleIds(unit).includes('jb-terminal-validation'), false);
+  });
+
+  await t.step('accepts the check inside require()', () => {
+    const unit = payHook((h) => [requireThat(isTerminalOf(h)), projectCheck(h), creditPayer(h)]);
+    assertEquals(ruleIds(unit).includes('jb-terminal-validation'), false);
+  });
+
+  await t.step('accepts the check in a modifier', () => {
+    let onlyTerminal: AstNode;
+    const unit = payHook((h) => [projectCheck(h), creditPayer(h)], {
+      extraNodes: (h) => {
+        onlyTerminal = node('ModifierDefinition', {
+          name: 'onlyTerminal',
+          body: block([terminalCheck(h), node('PlaceholderStatement')]),
+        });
+        return [onlyTerminal];
+      },
+      modifiers: () => [modifierCall(onlyTerminal)],
+    });
+    assertEquals(ruleIds(unit).includes('jb-terminal-validation'), false);
+  });
+
+  await t.step('flags isTerminalOf whose result is ignored', () => {
+    const unit = payHook((h) => [stmt(isTerminalOf(h)), projectCheck(h), creditPayer(h)]);
+    assert(ruleIds(unit).includes('jb-terminal-validation'));
+  });
+
+  await t.step('flags isTerminalOf checked for an address other than msg.sender', () => {
+    const unit = payHook((h) => [
+      terminalCheck(h, member(ident('context', h.context), 'payer', 'address')),
+      projectCheck(h),
+      creditPayer(h),
+    ]);
+    assert(ruleIds(unit).includes('jb-terminal-validation'));
+  });
+
+  await t.step('ignores interface declarations', () => {
+    assertEquals(scanHookAsts({ 'src/I.sol': LIB_UNIT }, [{ path: 'src/I.sol', content: '' }]), []);
+  });
+});
+
+// ============================================================================
+// Reentrancy
+// ============================================================================
+
+const REFUND_SOURCE = `contract Refunds {
+    mapping(address => uint256) public credits;
+
+    function refund(address beneficiary) external {
+        uint256 amount = credits[beneficiary];
+        (bool ok,) = beneficiary.call{value: amount}("");
+        require(ok);
+        credits[beneficiary] = 0;
+    }
+}`;
+
+const SAFE_REFUND_SOURCE = `contract Refunds {
+    mapping(address => uint256) public credits;
+
+    function refund(address beneficiary) external {
+        uint256 amount = credits[beneficiary];
+        credits[beneficiary] = 0;
+        (bool ok,) = beneficiary.call{value: amount}("");
+        require(ok);
+    }
+}`;
+
+function refunds(source: string, options: { modifiers?: AstNode[]; writeLocal?: boolean } = {}): AstNode {
+  const credits = variable('credits', true);
+  const amount = variable('amount');
+  const beneficiary = variable('beneficiary');
+
+  const lowLevelCall = call(
+    node('FunctionCallOptions', {
+      expression: member(ident('beneficiary', beneficiary, 'address'), 'call', 'function (bytes memory) payable returns (bool,bytes memory)'),
+      names: ['value'],
+      options: [ident('amount', amount)],
+    }),
+    [literal('')],
+    locate(source, 'beneficiary.call{value: amount}("")')
+  );
+  const write = options.writeLocal
+    ? assign(ident('amount', amount), literal('0'), '=', locate(source, 'credits[beneficiary] = 0'))
+    : assign(index(ident('credits', credits), ident('beneficiary', beneficiary)), literal('0'), '=', locate(source, 'credits[beneficiary] = 0'));
+
+  const statements = source.indexOf('credits[beneficiary] = 0') > source.indexOf('.call{')
+    ? [stmt(lowLevelCall), write]
+    : [write, stmt(lowLevelCall)];
+
+  return sourceUnit([
+    contract('Refunds', [
+      credits,
+      fn('refund', statements, { parameters: [beneficiary], modifiers: options.modifiers }),
+    ]),
+  ]);
+}
+
+Deno.test('hookAstRules - jb-reentrancy-hook', async (t) => {
+  await t.step('flags a state write after a low-level call', () => {
+    const findings = scanHookAsts(
+      { 'src/Refunds.sol': refunds(REFUND_SOURCE) },
+      [{ path: 'src/Refunds.sol', content: REFUND_SOURCE }]
+    );
+    assertEquals(findings.length, 1);
+    assertEquals(findings[0].ruleId, 'jb-reentrancy-hook');
+    assertEquals(findings[0].line, 6);
+    assert(findings[0].message.includes('`credits`'));
+  });
+
+  await t.step('passes checks-effects-interactions', () => {
+    assertEquals(ruleIds(refunds(SAFE_REFUND_SOURCE)), []);
+  });
+
+  await t.step('passes functions guarded by nonReentrant', () => {
+    assertEquals(ruleIds(refunds(REFUND_SOURCE, { modifiers: [modifierCall('nonReentrant')] })), []);
+  });
+
+  await t.step('ignores writes to local variables', () => {
+    assertEquals(ruleIds(refunds(REFUND_SOURCE, { writeLocal: true })), []);
+  });
+
+  await t.step('flags state writes after external contract calls, not view calls', () => {
+    const source = 'token.transfer(to, amount); total = amount; token.balanceOf(to); seen = true;';
+    const total = variable('total', true);
+    const seen = variable('seen', true);
+    const token = ident('token', undefined, 'contract IERC20');
+    const unit = (callee: string, signature: string, written: AstNode) => sourceUnit([
+      contract('Payouts', [total, seen, fn('pay', [
+        stmt(call(member(token, callee, signature), [], locate(source, `token.${callee}(to`))),
+        assign(ident(written.name as string, written), literal('1'), '=', locate(source, `${written.name} = `)),
+      ])]),
+    ]);
+
+    assertEquals(ruleIds(unit('transfer', 'function (address,uint256) external returns (bool)', total)), ['jb-reentrancy-hook']);
+    assertEquals(ruleIds(unit('balanceOf', 'function (address) view external returns (uint256)', seen)), []);
+  });
+});
+
+// ============================================================================
+// Project ID
+// ============================================================================
+
+Deno.test('hookAstRules - jb-unchecked-project-id', async (t) => {
+  await t.step('flags a hook that ignores the project id', () => {
+    assert(ruleIds(payHook((h) => [terminalCheck(h), creditPayer(h)])).includes('jb-unchecked-project-id'));
+  });
+
+  await t.step('passes a hook pinned to its project', () => {
+    const unit = payHook((h) => [terminalCheck(h), projectCheck(h), creditPayer(h)]);
+    assertEquals(ruleIds(unit).includes('jb-unchecked-project-id'), false);
+  });
+
+  await t.step('passes a hook keeping per-project state', () => {
+    const unit = payHook((h) => [terminalCheck(h), creditPayer(h, contextProjectId(h))]);
+    assertEquals(ruleIds(unit).includes('jb-unchecked-project-id'), false);
+  });
+
+  await t.step('follows the id through a local and an internal function', () => {
+    let validate: AstNode;
+    const unit = payHook((h) => {
+      const projectId = variable('projectId');
+      return [
+        terminalCheck(h),
+        node('VariableDeclarationStatement', { declarations: [projectId], initialValue: contextProjectId(h) }),
+        stmt(call(ident('_validate', validate), [ident('projectId', projectId)])),
+        creditPayer(h),
+      ];
+    }, {
+      extraNodes: (h) => {
+        const id = variable('id');
+        validate = fn('_validate', [revertIf(binary('!=', ident('id', id), ident('PROJECT_ID', h.projectId)))], {
+          parameters: [id],
+          stateMutability: 'view',
+        });
+        return [validate];
+      },
+    });
+    assertEquals(ruleIds(unit).includes('jb-unchecked-project-id'), false);
+  });
+});
+
+// ============================================================================
+// Interfaces
+// ============================================================================
+
+Deno.test('hookAstRules - jb-missing-interface', async (t) => {
+  await t.step('flags hook functions without the hook interface', () => {
+    const findings = scan(payHook((h) => [terminalCheck(h), projectCheck(h), creditPayer(h)], { bases: [] }));
+    const finding = findings.find((f) => f.ruleId === 'jb-missing-interface');
+    assert(finding?.message.includes('IJBPayHook'));
+  });
+
+  await t.step('accepts the interface inherited through a base contract', () => {
+    const base = contract('PayHookBase', [], [IJB_PAY_HOOK], { abstract: true });
+    const unit = payHook((h) => [terminalCheck(h), projectCheck(h), creditPayer(h)], { bases: [base] });
+    unit.nodes = [base, ...(unit.nodes as AstNode[])];
+    assertEquals(ruleIds(unit), []);
+  });
+
+  await t.step('ignores contracts that are not hooks', () => {
+    assertEquals(ruleIds(sourceUnit([contract('Math', [fn('add', [], { stateMutability: 'pure' })])])), []);
+  });
+});
+
+Deno.test('hookAstRules - jb-missing-supportsInterface', async (t) => {
+  await t.step('flags a hook without supportsInterface', () => {
+    const unit = payHook((h) => [terminalCheck(h), projectCheck(h), creditPayer(h)], { supportsInterface: false });
+    assertEquals(ruleIds(unit), ['jb-missing-supportsInterface']);
+  });
+
+  await t.step('accepts supportsInterface inherited from ERC165', () => {
+    const unit = payHook((h) => [terminalCheck(h), projectCheck(h), creditPayer(h)], {
+      bases: [ERC165, IJB_PAY_HOOK],
+      supportsInterface: false,
+    });
+    assertEquals(ruleIds(unit), []);
+  });
+});
+
+// ============================================================================
+// Literals & Arithmetic
+// ============================================================================
+
+Deno.test('hookAstRules - jb-hardcoded-address', async (t) => {
+  await t.step('flags address literals', () => {
+    const unit = sourceUnit([literal('0x1234567890123456789012345678901234567890')]);
+    assertEquals(ruleIds(unit), ['jb-hardcoded-address']);
+  });
+
+  await t.step('ignores other numbers', () => {
+    assertEquals(ruleIds(sourceUnit([literal('0x01'), literal('1000000')])), []);
+  });
+});
+
+Deno.test('hookAstRules - jb-unsafe-math', async (t) => {
+  const total = variable('total', true);
+
+  await t.step('flags arithmetic in unchecked blocks', () => {
+    const unit = sourceUnit([node('UncheckedBlock', {
+      statements: [assign(ident('total', total), ident('amount'), '+=')],
+    })]);
+    assertEquals(ruleIds(unit), ['jb-unsafe-math']);
+  });
+
+  await t.step('ignores unchecked loop increments', () => {
+    const unit = sourceUnit([node('UncheckedBlock', {
+      statements: [stmt(node('UnaryOperation', { operator: '++', prefix: true, subExpression: ident('i') }))],
+    })]);
+    assertEquals(ruleIds(unit), []);
+  });
+});
+
+// ============================================================================
+// Scanning
+// ============================================================================
+
+Deno.test('hookAstRules - scanHookAsts', async (t) => {
+  await t.step('reports only the files it is given', () => {
+    const findings = scanHookAsts(
+      { 'lib/Dep.sol': sourceUnit([literal('0x1234567890123456789012345678901234567890')]) },
+      [{ path: 'src/PayHook.sol', content: '' }]
+    );
+    assertEquals(findings, []);
+  });
+
+  await t.step('maps UTF-8 byte offsets to lines and code', () => {
+    const content = '// Café hook\nuint256 constant X = 1;\naddress constant OWNER = 0x1234567890123456789012345678901234567890;\n';
+    const address = '0x1234567890123456789012345678901234567890';
+    // "é" is two bytes in UTF-8, so the byte offset is one past the string index
+    const start = content.indexOf(address) + 1;
+    const unit = sourceUnit([literal(address, `${start}:${address.length}:0`)]);
+
+    const [finding] = scanHookAsts({ 'src/Hook.sol': unit }, [{ path: 'src/Hook.sol', content }]);
+    assertEquals(finding.tool, 'juicebox');
+    assertEquals(finding.line, 3);
+    assertEquals(finding.code, address);
+  });
+});
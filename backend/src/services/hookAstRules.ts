@@ -0,0 +1,542 @@
+import type { SecurityFinding, Severity } from './securityAnalysis.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+// Rules run on the compact JSON AST solc emits (`forge build --ast`). Only the
+// fields the rules read are relied on; everything else passes through.
+
+export interface AstNode {
+  id?: number;
+  nodeType: string;
+  src: string;
+  [key: string]: unknown;
+}
+
+interface AstIndex {
+  byId: Map<number, AstNode>;
+  stateVariableIds: Set<number>;
+}
+
+interface RuleMatch {
+  node: AstNode;
+  detail?: string;
+}
+
+interface AstRule {
+  id: string;
+  severity: Severity;
+  title: string;
+  message: string;
+  fix?: string;
+  check: (sourceUnit: AstNode, index: AstIndex) => RuleMatch[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// State-changing hook callbacks and the interface each belongs to
+const HOOK_FUNCTIONS: Record<string, string> = {
+  afterPayRecordedWith: 'IJBPayHook',
+  afterCashOutRecordedWith: 'IJBCashOutHook',
+  processSplitWith: 'IJBSplitHook',
+};
+
+const HOOK_INTERFACES = new Set(Object.values(HOOK_FUNCTIONS));
+
+// Directory lookups that prove msg.sender is allowed to call a hook. Split
+// hooks are also called by the controller when reserved tokens are sent out.
+const CALLER_CHECKS: Record<string, string[]> = {
+  afterPayRecordedWith: ['isTerminalOf'],
+  afterCashOutRecordedWith: ['isTerminalOf'],
+  processSplitWith: ['isTerminalOf', 'controllerOf'],
+};
+
+const LOW_LEVEL_CALLS = new Set(['call', 'delegatecall', 'send', 'transfer']);
+const ARITHMETIC_OPERATORS = new Set(['+', '-', '*', '**', '+=', '-=', '*=']);
+
+// ============================================================================
+// AST Helpers
+// ============================================================================
+
+function isNode(value: unknown): value is AstNode {
+  return typeof value === 'object' && value !== null && typeof (value as AstNode).nodeType === 'string';
+}
+
+function child(node: AstNode, key: string): AstNode | null {
+  const value = node[key];
+  return isNode(value) ? value : null;
+}
+
+function children(node: AstNode, key: string): AstNode[] {
+  const value = node[key];
+  return Array.isArray(value) ? value.filter(isNode) : [];
+}
+
+function typeString(node: AstNode | null): string {
+  return (node?.typeDescriptions as { typeString?: string } | undefined)?.typeString ?? '';
+}
+
+/**
+ * All nodes below (and including) root in source order.
+ */
+function collectNodes(root: AstNode | null, predicate: (node: AstNode) => boolean): AstNode[] {
+  const found: AstNode[] = [];
+  const visit = (node: AstNode) => {
+    if (predicate(node)) found.push(node);
+    for (const value of Object.values(node)) {
+      if (isNode(value)) {
+        visit(value);
+      } else if (Array.isArray(value)) {
+        value.filter(isNode).forEach(visit);
+      }
+    }
+  };
+  if (root) visit(root);
+  return found;
+}
+
+function parseSrc(src: string): { start: number; end: number } {
+  const [start, length] = src.split(':').map(Number);
+  return { start, end: start + length };
+}
+
+function buildIndex(asts: Record<string, AstNode>): AstIndex {
+  const byId = new Map<number, AstNode>();
+  const stateVariableIds = new Set<number>();
+
+  for (const ast of Object.values(asts)) {
+    for (const node of collectNodes(ast, (n) => typeof n.id === 'number')) {
+      byId.set(node.id!, node);
+      if (node.nodeType === 'VariableDeclaration' && node.stateVariable === true) {
+        stateVariableIds.add(node.id!);
+      }
+    }
+  }
+
+  return { byId, stateVariableIds };
+}
+
+function referencedNode(node: AstNode | null, index: AstIndex): AstNode | null {
+  const id = node?.referencedDeclaration;
+  return typeof id === 'number' ? index.byId.get(id) ?? null : null;
+}
+
+function getContracts(sourceUnit: AstNode): AstNode[] {
+  return children(sourceUnit, 'nodes').filter((n) => n.nodeType === 'ContractDefinition');
+}
+
+function getFunctions(contract: AstNode): AstNode[] {
+  return children(contract, 'nodes').filter((n) => n.nodeType === 'FunctionDefinition');
+}
+
+function isConcreteContract(contract: AstNode): boolean {
+  return contract.contractKind === 'contract' && contract.abstract !== true;
+}
+
+function isStateChanging(fn: AstNode): boolean {
+  return fn.stateMutability !== 'view' && fn.stateMutability !== 'pure';
+}
+
+/**
+ * Hook callbacks with a body in a contract (not an interface declaration).
+ */
+function getHookFunctions(contract: AstNode): AstNode[] {
+  return getFunctions(contract).filter((fn) =>
+    Object.hasOwn(HOOK_FUNCTIONS, fn.name as string) && child(fn, 'body') !== null && isStateChanging(fn)
+  );
+}
+
+/**
+ * The contract itself and everything it inherits from, as far as the
+ * compiled sources contain them.
+ */
+function getLinearizedContracts(contract: AstNode, index: AstIndex): AstNode[] {
+  const ids = Array.isArray(contract.linearizedBaseContracts)
+    ? contract.linearizedBaseContracts as number[]
+    : [];
+  const bases = ids.map((id) => index.byId.get(id)).filter((n): n is AstNode => !!n);
+  return bases.length > 0 ? bases : [contract];
+}
+
+function getBaseNames(contract: AstNode, index: AstIndex): Set<string> {
+  const names = new Set(getLinearizedContracts(contract, index).map((c) => c.name as string));
+  for (const base of children(contract, 'baseContracts')) {
+    const baseName = child(base, 'baseName');
+    if (baseName) names.add((baseName.name ?? baseName.namePath) as string);
+  }
+  return names;
+}
+
+/**
+ * Code that runs when fn is called: its body, the bodies of its modifiers and
+ * of internal functions it calls directly.
+ */
+function getExecutedBodies(fn: AstNode, index: AstIndex): AstNode[] {
+  const body = child(fn, 'body');
+  const bodies: AstNode[] = body ? [body] : [];
+
+  for (const invocation of children(fn, 'modifiers')) {
+    const modifier = referencedNode(child(invocation, 'modifierName'), index);
+    const modifierBody = modifier && child(modifier, 'body');
+    if (modifierBody) bodies.push(modifierBody);
+  }
+
+  for (const call of collectNodes(body, (n) => n.nodeType === 'FunctionCall')) {
+    const callee = referencedNode(child(call, 'expression'), index);
+    const calleeBody = callee?.nodeType === 'FunctionDefinition' ? child(callee, 'body') : null;
+    if (calleeBody && !bodies.includes(calleeBody)) bodies.push(calleeBody);
+  }
+
+  return bodies;
+}
+
+/**
+ * Expressions whose truth decides whether execution continues: require() and
+ * assert() arguments and if conditions.
+ */
+function getConditions(body: AstNode): AstNode[] {
+  const conditions: AstNode[] = [];
+  for (const node of collectNodes(body, (n) => n.nodeType === 'FunctionCall' || n.nodeType === 'IfStatement')) {
+    if (node.nodeType === 'IfStatement') {
+      const condition = child(node, 'condition');
+      if (condition) conditions.push(condition);
+      continue;
+    }
+    const callee = child(node, 'expression');
+    if (callee?.nodeType === 'Identifier' && (callee.name === 'require' || callee.name === 'assert')) {
+      conditions.push(...children(node, 'arguments'));
+    }
+  }
+  return conditions;
+}
+
+function isMsgSender(node: AstNode): boolean {
+  const base = child(node, 'expression');
+  return node.nodeType === 'MemberAccess' && node.memberName === 'sender' &&
+    base?.nodeType === 'Identifier' && base.name === 'msg';
+}
+
+/**
+ * Calls that hand control to another contract: low-level calls and ETH
+ * transfers on addresses, and non-view external function calls.
+ */
+function isExternalCall(node: AstNode): boolean {
+  if (node.nodeType !== 'FunctionCall' || node.kind !== 'functionCall') return false;
+
+  let callee = child(node, 'expression');
+  if (callee?.nodeType === 'FunctionCallOptions') callee = child(callee, 'expression');
+  if (callee?.nodeType !== 'MemberAccess') return false;
+
+  if (LOW_LEVEL_CALLS.has(callee.memberName as string) && typeString(child(callee, 'expression')).startsWith('address')) {
+    return true;
+  }
+
+  const signature = typeString(callee);
+  return signature.startsWith('function ') && / external\b/.test(signature) && !/\b(view|pure)\b/.test(signature);
+}
+
+/**
+ * The declaration a written expression ultimately stores into, e.g. the
+ * mapping `balances` for `balances[a].amount`.
+ */
+function getWrittenDeclarations(target: AstNode | null, index: AstIndex): AstNode[] {
+  if (!target) return [];
+  if (target.nodeType === 'TupleExpression') {
+    return children(target, 'components').flatMap((c) => getWrittenDeclarations(c, index));
+  }
+
+  let node: AstNode | null = target;
+  while (node && (node.nodeType === 'IndexAccess' || node.nodeType === 'MemberAccess')) {
+    node = child(node, node.nodeType === 'IndexAccess' ? 'baseExpression' : 'expression');
+  }
+  const declaration = node?.nodeType === 'Identifier' ? referencedNode(node, index) : null;
+  return declaration ? [declaration] : [];
+}
+
+/**
+ * State variable writes in body, with the node performing each write.
+ */
+function getStateWrites(body: AstNode, index: AstIndex): Array<{ node: AstNode; variable: AstNode }> {
+  const writes: Array<{ node: AstNode; variable: AstNode }> = [];
+
+  for (const node of collectNodes(body, () => true)) {
+    let target: AstNode | null = null;
+    if (node.nodeType === 'Assignment') {
+      target = child(node, 'leftHandSide');
+    } else if (node.nodeType === 'UnaryOperation' && ['++', '--', 'delete'].includes(node.operator as string)) {
+      target = child(node, 'subExpression');
+    } else if (node.nodeType === 'FunctionCall') {
+      const callee = child(node, 'expression');
+      if (callee?.nodeType === 'MemberAccess' && (callee.memberName === 'push' || callee.memberName === 'pop')) {
+        target = child(callee, 'expression');
+      }
+    }
+
+    for (const variable of getWrittenDeclarations(target, index)) {
+      if (index.stateVariableIds.has(variable.id!)) writes.push({ node, variable });
+    }
+  }
+
+  return writes;
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+function checkTerminalValidation(sourceUnit: AstNode, index: AstIndex): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+
+  for (const contract of getContracts(sourceUnit).filter(isConcreteContract)) {
+    for (const fn of getHookFunctions(contract)) {
+      const lookups = CALLER_CHECKS[fn.name as string];
+      const validated = getExecutedBodies(fn, index)
+        .flatMap(getConditions)
+        .some((condition) =>
+          collectNodes(condition, (n) => n.nodeType === 'FunctionCall').some((call) => {
+            const callee = child(call, 'expression');
+            return callee?.nodeType === 'MemberAccess' &&
+              lookups.includes(callee.memberName as string) &&
+              collectNodes(call, isMsgSender).length > 0;
+          })
+        );
+
+      if (!validated) {
+        matches.push({ node: fn, detail: `${fn.name} should check ${lookups.join(' or ')} for msg.sender.` });
+      }
+    }
+  }
+
+  return matches;
+}
+
+function checkReentrancy(sourceUnit: AstNode, index: AstIndex): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+
+  for (const contract of getContracts(sourceUnit).filter((c) => c.contractKind === 'contract')) {
+    for (const fn of getFunctions(contract)) {
+      const body = child(fn, 'body');
+      if (!body || !isStateChanging(fn)) continue;
+
+      const guarded = children(fn, 'modifiers').some((m) =>
+        /nonReentrant/i.test((child(m, 'modifierName')?.name as string) ?? '')
+      );
+      if (guarded) continue;
+
+      const writes = getStateWrites(body, index);
+      for (const call of collectNodes(body, isExternalCall)) {
+        // A write that completes after the call returns, including storing the
+        // call's own result
+        const callEnd = parseSrc(call.src).end;
+        const write = writes.find((w) => parseSrc(w.node.src).end > callEnd);
+        if (write) {
+          matches.push({ node: call, detail: `\`${write.variable.name}\` is written after this call in ${fn.name || fn.kind}.` });
+          break;
+        }
+      }
+    }
+  }
+
+  return matches;
+}
+
+function checkProjectId(sourceUnit: AstNode, index: AstIndex): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+
+  for (const contract of getContracts(sourceUnit).filter(isConcreteContract)) {
+    for (const fn of getHookFunctions(contract)) {
+      const bodies = getExecutedBodies(fn, index);
+
+      // Declarations holding the project id: locals copied from the context
+      // and parameters of internal functions it is passed to
+      const holders = new Set<number>();
+      const isProjectId = (node: AstNode | null): boolean =>
+        !!node && (
+          (node.nodeType === 'MemberAccess' && node.memberName === 'projectId') ||
+          (node.nodeType === 'Identifier' && holders.has(node.referencedDeclaration as number))
+        );
+
+      for (const node of collectNodes(child(fn, 'body'), () => true)) {
+        if (node.nodeType === 'VariableDeclarationStatement' && isProjectId(child(node, 'initialValue'))) {
+          for (const declaration of children(node, 'declarations')) holders.add(declaration.id!);
+        } else if (node.nodeType === 'FunctionCall') {
+          const callee = referencedNode(child(node, 'expression'), index);
+          if (callee?.nodeType !== 'FunctionDefinition') continue;
+          const parameterList = child(callee, 'parameters');
+          const parameters = parameterList ? children(parameterList, 'parameters') : [];
+          children(node, 'arguments').forEach((argument, i) => {
+            if (isProjectId(argument) && parameters[i]) holders.add(parameters[i].id!);
+          });
+        }
+      }
+
+      // Checked: compared against an expected id, or used to key per-project state
+      const scoped = bodies.some((body) =>
+        collectNodes(body, (n) =>
+          (n.nodeType === 'BinaryOperation' && (n.operator === '==' || n.operator === '!=') &&
+            (isProjectId(child(n, 'leftExpression')) || isProjectId(child(n, 'rightExpression')))) ||
+          (n.nodeType === 'IndexAccess' && isProjectId(child(n, 'indexExpression')))
+        ).length > 0
+      );
+
+      if (!scoped) matches.push({ node: fn });
+    }
+  }
+
+  return matches;
+}
+
+function checkHookInterface(sourceUnit: AstNode, index: AstIndex): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+
+  for (const contract of getContracts(sourceUnit).filter(isConcreteContract)) {
+    const bases = getBaseNames(contract, index);
+    const missing = [...new Set(getHookFunctions(contract).map((fn) => HOOK_FUNCTIONS[fn.name as string]))]
+      .filter((name) => !bases.has(name));
+
+    if (missing.length > 0) {
+      matches.push({ node: contract, detail: `${contract.name} should inherit ${missing.join(', ')}.` });
+    }
+  }
+
+  return matches;
+}
+
+function checkSupportsInterface(sourceUnit: AstNode, index: AstIndex): RuleMatch[] {
+  return getContracts(sourceUnit)
+    .filter(isConcreteContract)
+    .filter((contract) => [...getBaseNames(contract, index)].some((name) => HOOK_INTERFACES.has(name)))
+    .filter((contract) =>
+      !getLinearizedContracts(contract, index).some((c) =>
+        getFunctions(c).some((fn) => fn.name === 'supportsInterface' && child(fn, 'body') !== null)
+      )
+    )
+    .map((contract) => ({ node: contract }));
+}
+
+function checkHardcodedAddress(sourceUnit: AstNode): RuleMatch[] {
+  return collectNodes(sourceUnit, (n) =>
+    n.nodeType === 'Literal' && /^0x[0-9a-fA-F]{40}$/.test((n.value as string) ?? '')
+  ).map((node) => ({ node }));
+}
+
+function checkUncheckedMath(sourceUnit: AstNode): RuleMatch[] {
+  // Bare ++/-- (loop counters) are the idiomatic use of unchecked; only
+  // arithmetic on values is reported
+  return collectNodes(sourceUnit, (n) => n.nodeType === 'UncheckedBlock')
+    .filter((block) =>
+      collectNodes(block, (n) =>
+        (n.nodeType === 'BinaryOperation' || n.nodeType === 'Assignment') &&
+        ARITHMETIC_OPERATORS.has(n.operator as string)
+      ).length > 0
+    )
+    .map((node) => ({ node }));
+}
+
+const JUICEBOX_RULES: AstRule[] = [
+  {
+    id: 'jb-terminal-validation',
+    severity: 'critical',
+    title: 'Missing Terminal Validation',
+    message: 'Hook function does not validate that msg.sender is a trusted terminal. This could allow unauthorized calls.',
+    fix: 'Add validation: if (!DIRECTORY.isTerminalOf(context.projectId, IJBTerminal(msg.sender))) revert Unauthorized();',
+    check: checkTerminalValidation,
+  },
+  {
+    id: 'jb-reentrancy-hook',
+    severity: 'high',
+    title: 'Potential Reentrancy in Hook',
+    message: 'External call is followed by a state write. Juicebox hooks are called during state transitions.',
+    fix: 'Follow checks-effects-interactions: make state changes before external calls, or use ReentrancyGuard.',
+    check: checkReentrancy,
+  },
+  {
+    id: 'jb-unchecked-project-id',
+    severity: 'high',
+    title: 'Unchecked Project ID',
+    message: 'Hook neither checks the projectId from its context nor keys its state by it, so any project using it can trigger it.',
+    fix: 'Validate projectId: if (context.projectId != PROJECT_ID) revert WrongProject(); or key storage by context.projectId.',
+    check: checkProjectId,
+  },
+  {
+    id: 'jb-missing-interface',
+    severity: 'medium',
+    title: 'Missing Hook Interface Implementation',
+    message: 'Contract implements hook functions without inheriting the hook interface. This may cause compatibility issues.',
+    fix: 'Implement the appropriate interface: IJBPayHook, IJBCashOutHook, or IJBSplitHook',
+    check: checkHookInterface,
+  },
+  {
+    id: 'jb-hardcoded-address',
+    severity: 'medium',
+    title: 'Hardcoded Address',
+    message: 'Hardcoded address detected. Consider using constructor parameters or immutable variables for chain-agnostic deployment.',
+    fix: 'Use constructor parameters: constructor(address _terminal) { terminal = _terminal; }',
+    check: checkHardcodedAddress,
+  },
+  {
+    id: 'jb-missing-supportsInterface',
+    severity: 'low',
+    title: 'Missing supportsInterface',
+    message: 'Hook contract does not implement supportsInterface. Terminals may not recognize this as a valid hook.',
+    fix: 'Implement ERC-165: function supportsInterface(bytes4 interfaceId) public view returns (bool)',
+    check: checkSupportsInterface,
+  },
+  {
+    id: 'jb-unsafe-math',
+    severity: 'medium',
+    title: 'Potential Integer Overflow/Underflow',
+    message: 'Unchecked arithmetic operation. Ensure this is intentional and safe.',
+    fix: 'Remove unchecked block unless you are certain overflow/underflow is impossible.',
+    check: checkUncheckedMath,
+  },
+];
+
+// ============================================================================
+// Scanning
+// ============================================================================
+
+/**
+ * Run the Juicebox hook rules over compiled ASTs. Only files listed in
+ * `files` are reported on; asts may hold more (e.g. lib/ dependencies, used
+ * to resolve inherited contracts). src offsets are UTF-8 byte offsets.
+ */
+export function scanHookAsts(
+  asts: Record<string, AstNode>,
+  files: Array<{ path: string; content: string }>
+): SecurityFinding[] {
+  const index = buildIndex(asts);
+  const findings: SecurityFinding[] = [];
+
+  for (const file of files) {
+    const sourceUnit = asts[file.path];
+    if (!sourceUnit) continue;
+
+    const bytes = new TextEncoder().encode(file.content);
+    const decoder = new TextDecoder();
+    const lineAt = (offset: number) => decoder.decode(bytes.subarray(0, offset)).split('\n').length;
+
+    for (const rule of JUICEBOX_RULES) {
+      for (const match of rule.check(sourceUnit, index)) {
+        const { start, end } = parseSrc(match.node.src);
+        findings.push({
+          id: `juicebox-${findings.length + 1}`,
+          tool: 'juicebox',
+          ruleId: rule.id,
+          severity: rule.severity,
+          title: rule.title,
+          message: match.detail ? `${rule.message} ${match.detail}` : rule.message,
+          file: file.path,
+          line: lineAt(start),
+          endLine: lineAt(end),
+          code: decoder.decode(bytes.subarray(start, Math.min(end, start + 100))),
+          fix: rule.fix,
+        });
+      }
+    }
+  }
+
+  return findings;
+}
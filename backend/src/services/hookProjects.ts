@@ -1,4 +1,4 @@
-import { query, queryOne, execute, transaction } from '../db/index.ts';
+import { query, queryOne, execute, transaction, type TransactionClient } from '../db/index.ts';
 import { createHash } from 'node:crypto';
 import { getHookTemplate, customizeTemplate, type HookType } from '../templates/hooks/index.ts';
 
@@ -8,6 +8,24 @@ import { getHookTemplate, customizeTemplate, type HookType } from '../templates/
 
 export type HookProjectType = 'pay-hook' | 'cash-out-hook' | 'split-hook';
 
+export type ContractVerifier = 'sourcify' | 'etherscan';
+
+// partial: Sourcify matched the bytecode but not the metadata hash
+export type VerificationStatus = 'pending' | 'verified' | 'partial' | 'failed' | 'skipped';
+
+export interface VerifierState {
+  status: VerificationStatus;
+  message?: string;
+  updatedAt: string;
+}
+
+export interface ChainVerification {
+  contract: string; // e.g. src/MyHook.sol:MyHook
+  constructorArgs?: string; // ABI-encoded, without 0x
+  sourcify?: VerifierState;
+  etherscan?: VerifierState;
+}
+
 interface DbHookProject {
   id: string;
   user_address: string;
@@ -18,6 +36,10 @@ interface DbHookProject {
   updated_at: Date;
   is_deployed: boolean;
   deployed_addresses: Record<number, string>;
+  verification: Record<number, ChainVerification> | null;
+  deployed_files_hash: string | null;
+  linked_project_id: number | null;
+  linked_chain_id: number | null;
 }
 
 interface DbHookProjectFile {
@@ -39,6 +61,22 @@ export interface HookProject {
   updatedAt: Date;
   isDeployed: boolean;
   deployedAddresses: Record<number, string>;
+  verification: Record<number, ChainVerification>;
+  deployedFilesHash: string | null;
+  linkedProject: LinkedJuiceboxProject | null;
+}
+
+// The Juicebox project whose rulesets use this hook
+export interface LinkedJuiceboxProject {
+  projectId: number;
+  chainId: number;
+}
+
+export interface HookProjectSnapshot {
+  filesHash: string;
+  files: Array<{ path: string; content: string }>;
+  reason: 'bulk_update' | 'deploy';
+  createdAt: Date;
 }
 
 export interface HookProjectFile {
@@ -63,6 +101,7 @@ export interface CreateProjectInput {
 export interface UpdateProjectInput {
   name?: string;
   description?: string;
+  linkedProject?: LinkedJuiceboxProject | null; // null unlinks
 }
 
 // ============================================================================
@@ -80,6 +119,11 @@ function transformProject(db: DbHookProject): HookProject {
     updatedAt: db.updated_at,
     isDeployed: db.is_deployed,
     deployedAddresses: db.deployed_addresses || {},
+    verification: db.verification || {},
+    deployedFilesHash: db.deployed_files_hash,
+    linkedProject: db.linked_project_id !== null && db.linked_chain_id !== null
+      ? { projectId: db.linked_project_id, chainId: db.linked_chain_id }
+      : null,
   };
 }
 
@@ -199,6 +243,11 @@ export async function updateProject(
     values.push(input.description);
   }
 
+  if (input.linkedProject !== undefined) {
+    updates.push(`linked_project_id = $${paramIndex++}`, `linked_chain_id = $${paramIndex++}`);
+    values.push(input.linkedProject?.projectId ?? null, input.linkedProject?.chainId ?? null);
+  }
+
   if (updates.length === 0) {
     return getProject(projectId, userAddress);
   }
@@ -229,21 +278,59 @@ export async function deleteProject(
   return rowsAffected > 0;
 }
 
+/**
+ * Record deployments. Redeploying to a chain replaces its address and its
+ * verification state, which starts over from `verification`.
+ */
 export async function markAsDeployed(
   projectId: string,
   userAddress: string,
-  deployedAddresses: Record<number, string>
+  deployedAddresses: Record<number, string>,
+  verification: Record<number, ChainVerification> = {}
 ): Promise<HookProject | null> {
-  const project = await queryOne<DbHookProject>(
+  return await transaction(async (client) => {
+    const owned = await client.queryObject(
+      `SELECT id FROM hook_projects WHERE id = $1 AND user_address = $2 FOR UPDATE`,
+      [projectId, userAddress]
+    );
+    if (owned.rows.length === 0) return null;
+
+    // Keep the deployed sources so later edits can be diffed against them
+    const filesHash = await snapshotFiles(client, projectId, 'deploy');
+
+    const result = await client.queryObject<DbHookProject>(
+      `UPDATE hook_projects
+       SET is_deployed = TRUE,
+           deployed_addresses = deployed_addresses || $1::jsonb,
+           verification = (COALESCE(verification, '{}'::jsonb) - $2::text[]) || $3::jsonb,
+           deployed_files_hash = $4
+       WHERE id = $5
+       RETURNING *`,
+      [
+        JSON.stringify(deployedAddresses),
+        Object.keys(deployedAddresses),
+        JSON.stringify(verification),
+        filesHash,
+        projectId,
+      ]
+    );
+
+    return transformProject(result.rows[0]);
+  });
+}
+
+export async function updateVerifierState(
+  projectId: string,
+  chainId: number,
+  verifier: ContractVerifier,
+  state: VerifierState
+): Promise<void> {
+  await execute(
     `UPDATE hook_projects
-     SET is_deployed = TRUE,
-         deployed_addresses = deployed_addresses || $1::jsonb
-     WHERE id = $2 AND user_address = $3
-     RETURNING *`,
-    [JSON.stringify(deployedAddresses), projectId, userAddress]
+     SET verification = jsonb_set(verification, ARRAY[$1, $2], $3::jsonb)
+     WHERE id = $4 AND verification ? $1`,
+    [String(chainId), verifier, JSON.stringify(state), projectId]
   );
-
-  return project ? transformProject(project) : null;
 }
 
 // ============================================================================
@@ -357,9 +444,64 @@ export async function bulkUpdateFiles(
         [projectId, file.path, file.content]
       );
     }
+
+    await snapshotFiles(client, projectId, 'bulk_update');
   });
 }
 
+// ============================================================================
+// File Snapshots
+// ============================================================================
+
+/**
+ * Save the project's current file set, unless an identical one (same
+ * computeFilesHash) is already saved; a deploy restamps it. Returns the hash.
+ */
+async function snapshotFiles(
+  client: TransactionClient,
+  projectId: string,
+  reason: HookProjectSnapshot['reason']
+): Promise<string> {
+  const result = await client.queryObject<{ path: string; content: string }>(
+    `SELECT path, content FROM hook_project_files WHERE project_id = $1 ORDER BY path`,
+    [projectId]
+  );
+  const files = result.rows.map((f) => ({ path: f.path, content: f.content }));
+  const filesHash = computeFilesHash(files);
+
+  await client.queryObject(
+    `INSERT INTO hook_project_snapshots (project_id, files_hash, files, reason)
+     VALUES ($1, $2, $3::jsonb, $4)
+     ON CONFLICT (project_id, files_hash) DO UPDATE
+       SET reason = EXCLUDED.reason, created_at = NOW()
+       WHERE EXCLUDED.reason = 'deploy'`,
+    [projectId, filesHash, JSON.stringify(files), reason]
+  );
+
+  return filesHash;
+}
+
+export async function getSnapshot(
+  projectId: string,
+  filesHash: string
+): Promise<HookProjectSnapshot | null> {
+  const snapshot = await queryOne<{
+    files_hash: string;
+    files: Array<{ path: string; content: string }>;
+    reason: HookProjectSnapshot['reason'];
+    created_at: Date;
+  }>(
+    `SELECT files_hash, files, reason, created_at
+     FROM hook_project_snapshots
+     WHERE project_id = $1 AND files_hash = $2`,
+    [projectId, filesHash]
+  );
+
+  return snapshot
+    ? { filesHash: snapshot.files_hash, files: snapshot.files, reason: snapshot.reason, createdAt: snapshot.created_at }
+    : null;
+}
+
 // ============================================================================
 // Project with Files (combined fetch)
 // ============================================================================
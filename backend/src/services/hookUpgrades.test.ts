@@ -0,0 +1,231 @@
+import { assertEquals, assertThrows } from 'std/assert/mod.ts';
+import {
+  diffFileSets,
+  findingsNotInDeployed,
+  getRulesetAttachment,
+  formatRulesetFormComponent,
+} from './hookUpgrades.ts';
+import type { HookProject } from './hookProjects.ts';
+import type { SecurityFinding } from './securityAnalysis.ts';
+
+const HOOK_V1 = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+contract MyHook {
+    uint256 public fee = 100;
+
+    function beforePayRecordedWith() external view {
+        require(msg.sender == terminal);
+    }
+}
+`;
+
+const HOOK_V2 = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+contract MyHook {
+    uint256 public fee = 250;
+
+    function beforePayRecordedWith() external view {
+        require(msg.sender == terminal);
+    }
+
+    function withdraw() external {
+        payable(msg.sender).transfer(address(this).balance);
+    }
+}
+`;
+
+const HOOK_ADDRESS = '0x1234567890123456789012345678901234567890';
+
+function makeFinding(overrides: Partial<SecurityFinding>): SecurityFinding {
+  return {
+    id: 'finding-1',
+    tool: 'custom',
+    ruleId: 'test-rule',
+    severity: 'high',
+    title: 'Test finding',
+    message: 'Test message',
+    file: 'src/MyHook.sol',
+    line: 1,
+    ...overrides,
+  };
+}
+
+function makeProject(overrides: Partial<HookProject>): HookProject {
+  return {
+    id: 'project-1',
+    userAddress: '0xabc',
+    name: 'My Hook',
+    projectType: 'pay-hook',
+    description: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    isDeployed: true,
+    deployedAddresses: { 1: HOOK_ADDRESS, 10: HOOK_ADDRESS, 8453: '0x9999999999999999999999999999999999999999' },
+    verification: {},
+    deployedFilesHash: 'abc',
+    linkedProject: { projectId: 42, chainId: 1 },
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// Diff Tests
+// ============================================================================
+
+Deno.test('hookUpgrades - diffFileSets', async (t) => {
+  await t.step('leaves out unchanged files', () => {
+    const files = [{ path: 'src/MyHook.sol', content: HOOK_V1 }];
+    assertEquals(diffFileSets(files, files), []);
+  });
+
+  await t.step('reports added and removed files as whole-file hunks', () => {
+    const diff = diffFileSets(
+      [{ path: 'test/Old.t.sol', content: 'a\nb\n' }],
+      [{ path: 'src/New.sol', content: 'x\n' }]
+    );
+    assertEquals(diff.map((f) => [f.path, f.status, f.additions, f.deletions]), [
+      ['src/New.sol', 'added', 1, 0],
+      ['test/Old.t.sol', 'removed', 0, 2],
+    ]);
+    assertEquals(diff[0].hunks[0].lines, [{ type: 'added', content: 'x', newLine: 1 }]);
+  });
+
+  await t.step('numbers changed lines against both versions', () => {
+    const [file] = diffFileSets(
+      [{ path: 'src/MyHook.sol', content: HOOK_V1 }],
+      [{ path: 'src/MyHook.sol', content: HOOK_V2 }]
+    );
+    assertEquals(file.status, 'modified');
+    assertEquals(file.additions, 5);
+    assertEquals(file.deletions, 1);
+
+    const changes = file.hunks.flatMap((h) => h.lines).filter((l) => l.type !== 'context');
+    assertEquals(changes[0], { type: 'removed', content: '    uint256 public fee = 100;', oldLine: 5 });
+    assertEquals(changes[1], { type: 'added', content: '    uint256 public fee = 250;', newLine: 5 });
+    assertEquals(
+      changes.find((l) => l.content.includes('function withdraw')),
+      { type: 'added', content: '    function withdraw() external {', newLine: 11 }
+    );
+  });
+
+  await t.step('splits distant changes into separate hunks with context', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+    const after = before.replace('line 2\n', 'line two\n').replace('line 18\n', 'line eighteen\n');
+    const [file] = diffFileSets(
+      [{ path: 'src/A.sol', content: before }],
+      [{ path: 'src/A.sol', content: after }],
+      2
+    );
+
+    assertEquals(file.hunks.length, 2);
+    assertEquals(
+      file.hunks.map((h) => [h.oldStart, h.oldLines, h.newStart, h.newLines]),
+      [[1, 4, 1, 4], [16, 5, 16, 5]]
+    );
+  });
+
+  await t.step('merges changes whose context overlaps', () => {
+    const before = 'a\nb\nc\nd\ne\nf\n';
+    const after = 'a\nB\nc\nd\nE\nf\n';
+    const [file] = diffFileSets(
+      [{ path: 'src/A.sol', content: before }],
+      [{ path: 'src/A.sol', content: after }],
+      1
+    );
+    assertEquals(file.hunks.length, 1);
+    assertEquals(file.hunks[0].lines.length, 8);
+  });
+});
+
+// ============================================================================
+// Finding Comparison Tests
+// ============================================================================
+
+Deno.test('hookUpgrades - findingsNotInDeployed', async (t) => {
+  await t.step('keeps findings the deployed version did not have', () => {
+    const finding = makeFinding({ ruleId: 'missing-terminal-check', line: 7 });
+    assertEquals(findingsNotInDeployed([finding], []), [finding]);
+  });
+
+  await t.step('drops findings the deployed version had, wherever they moved', () => {
+    const deployed = makeFinding({ line: 8, code: 'payable(msg.sender).transfer(fee);' });
+    const moved = makeFinding({ id: 'finding-2', line: 30, code: 'payable(msg.sender).transfer(fee);' });
+    assertEquals(findingsNotInDeployed([moved], [deployed]), []);
+  });
+
+  await t.step('tells findings apart by tool, rule and file', () => {
+    const deployed = makeFinding({});
+    const findings = [
+      makeFinding({ tool: 'slither' }),
+      makeFinding({ ruleId: 'other-rule' }),
+      makeFinding({ file: 'src/Other.sol' }),
+    ];
+    assertEquals(findingsNotInDeployed(findings, [deployed]), findings);
+  });
+
+  await t.step('reports the extra occurrences when a rule fires more often', () => {
+    const deployed = [makeFinding({ line: 8, code: 'a.call(data);' })];
+    const copied = makeFinding({ id: 'finding-2', line: 3, code: 'b.call(data);' });
+    const original = makeFinding({ id: 'finding-3', line: 12, code: 'a.call(data);' });
+    assertEquals(findingsNotInDeployed([copied, original], deployed), [copied]);
+  });
+
+  await t.step('pairs an issue merged under a different tool than before', () => {
+    const deployed = makeFinding({
+      tool: 'slither',
+      ruleId: 'reentrancy-eth',
+      severity: 'high',
+      alsoReportedBy: ['aderyn'],
+    });
+    const current = makeFinding({
+      id: 'finding-2',
+      tool: 'aderyn',
+      ruleId: 'state-change-after-external-call-reentrancy',
+      severity: 'critical',
+      alsoReportedBy: ['slither'],
+    });
+    assertEquals(findingsNotInDeployed([current], [deployed]), []);
+  });
+});
+
+// ============================================================================
+// Ruleset Attachment Tests
+// ============================================================================
+
+Deno.test('hookUpgrades - getRulesetAttachment', async (t) => {
+  await t.step('uses the address on the linked chain and every chain sharing it', () => {
+    assertEquals(getRulesetAttachment(makeProject({})), {
+      projectId: 42,
+      chainId: 1,
+      dataHook: HOOK_ADDRESS,
+      dataHookChainIds: [1, 10],
+      useDataHookForPay: true,
+      useDataHookForCashOut: false,
+    });
+  });
+
+  await t.step('enables the data hook for cash outs on cash out hooks', () => {
+    const attachment = getRulesetAttachment(makeProject({ projectType: 'cash-out-hook' }));
+    assertEquals(attachment.useDataHookForPay, false);
+    assertEquals(attachment.useDataHookForCashOut, true);
+  });
+
+  await t.step('rejects unlinked projects, split hooks and undeployed chains', () => {
+    assertThrows(() => getRulesetAttachment(makeProject({ linkedProject: null })), Error, 'Link a Juicebox project');
+    assertThrows(() => getRulesetAttachment(makeProject({ projectType: 'split-hook' })), Error, 'splits');
+    assertThrows(
+      () => getRulesetAttachment(makeProject({ linkedProject: { projectId: 42, chainId: 42161 } })),
+      Error,
+      'not deployed on chain 42161'
+    );
+  });
+
+  await t.step('formats a queue-ruleset-form component', () => {
+    assertEquals(
+      formatRulesetFormComponent(getRulesetAttachment(makeProject({}))),
+      `<juice-component type="queue-ruleset-form" projectId="42" chainId="1" dataHook="${HOOK_ADDRESS}" dataHookChainIds="[1,10]" useDataHookForPay="true" useDataHookForCashOut="false" />`
+    );
+  });
+});
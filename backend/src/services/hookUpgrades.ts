@@ -0,0 +1,394 @@
+/**
+ * Hook Upgrade Service
+ *
+ * Compares a hook project's current files with the version it was deployed
+ * from (the snapshot markAsDeployed stored under deployed_files_hash), checks
+ * both versions for security issues to find the ones the changes introduced,
+ * and prepares a queue-ruleset-form that
+ * attaches the newly deployed hook to the linked Juicebox project.
+ */
+
+import {
+  computeFilesHash,
+  getProjectWithFiles,
+  getSnapshot,
+  type HookProject,
+  type HookProjectSnapshot,
+  type HookProjectWithFiles,
+} from './hookProjects.ts';
+import {
+  analysisCompleted,
+  checkDeploymentSecurity,
+  getFindingCategory,
+  runSecurityTools,
+  type SecurityFinding,
+  type ToolRun,
+} from './securityAnalysis.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FileChangeStatus = 'added' | 'removed' | 'modified';
+
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  path: string;
+  status: FileChangeStatus;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+export interface UpgradeDiff {
+  deployedFilesHash: string;
+  currentFilesHash: string;
+  deployedAt: Date;
+  files: FileDiff[]; // Changed files only
+}
+
+export interface UpgradeSecurityCheck {
+  canUpgrade: boolean;
+  criticalFindings: SecurityFinding[];
+  highFindings: SecurityFinding[];
+  otherFindings: SecurityFinding[];
+  existingFindingCount: number; // Findings the deployed version already had
+  warnings: string[];
+  toolRuns: ToolRun[];
+}
+
+// Props for the queue-ruleset-form component
+export interface RulesetAttachment {
+  projectId: number;
+  chainId: number;
+  dataHook: string;
+  dataHookChainIds: number[];
+  useDataHookForPay: boolean;
+  useDataHookForCashOut: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CONTEXT_LINES = 3;
+
+// Above this many line comparisons a modified file is shown as fully replaced
+const MAX_DIFF_CELLS = 4_000_000;
+
+// ============================================================================
+// Line Diff
+// ============================================================================
+
+function splitLines(content: string): string[] {
+  if (content === '') return [];
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Line-level edit script between two texts: longest common subsequence over
+ * the lines left after trimming the shared prefix and suffix.
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const result: DiffLine[] = [];
+
+  for (let i = 0; i < prefix; i++) {
+    result.push({ type: 'context', content: oldLines[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  let oldLine = prefix + 1;
+  let newLine = prefix + 1;
+  const removed = (content: string) => result.push({ type: 'removed', content, oldLine: oldLine++ });
+  const added = (content: string) => result.push({ type: 'added', content, newLine: newLine++ });
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    a.forEach(removed);
+    b.forEach(added);
+  } else {
+    // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+    const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        result.push({ type: 'context', content: a[i], oldLine: oldLine++, newLine: newLine++ });
+        i++;
+        j++;
+      } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        removed(a[i++]); // Removals first, as in unified diffs
+      } else {
+        added(b[j++]);
+      }
+    }
+  }
+
+  for (let i = oldLines.length - suffix; i < oldLines.length; i++) {
+    result.push({ type: 'context', content: oldLines[i], oldLine: oldLine++, newLine: newLine++ });
+  }
+
+  return result;
+}
+
+/**
+ * Group an edit script into hunks of changes with up to `context` unchanged
+ * lines around them, merging hunks whose context overlaps.
+ */
+function toHunks(lines: DiffLine[], context: number): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffLine[] = [];
+  let trailingContext = 0;
+
+  const flush = () => {
+    // Drop context beyond what follows the last change
+    const lines = current.slice(0, current.length - Math.max(0, trailingContext - context));
+    const first = lines[0];
+    hunks.push({
+      oldStart: first.oldLine ?? (lines.find((l) => l.oldLine !== undefined)?.oldLine ?? 1),
+      oldLines: lines.filter((l) => l.type !== 'added').length,
+      newStart: first.newLine ?? (lines.find((l) => l.newLine !== undefined)?.newLine ?? 1),
+      newLines: lines.filter((l) => l.type !== 'removed').length,
+      lines,
+    });
+    current = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.type === 'context') {
+      if (current.length > 0) {
+        current.push(line);
+        trailingContext++;
+        if (trailingContext > context * 2) flush();
+      }
+      continue;
+    }
+
+    if (current.length === 0) {
+      current = lines.slice(Math.max(0, i - context), i);
+    }
+    current.push(line);
+    trailingContext = 0;
+  }
+  if (current.length > 0) flush();
+
+  return hunks;
+}
+
+/**
+ * Compare two file sets by path. Unchanged files are left out.
+ */
+export function diffFileSets(
+  before: Array<{ path: string; content: string }>,
+  after: Array<{ path: string; content: string }>,
+  context: number = CONTEXT_LINES
+): FileDiff[] {
+  const beforeByPath = new Map(before.map((f) => [f.path, f.content]));
+  const afterByPath = new Map(after.map((f) => [f.path, f.content]));
+  const paths = [...new Set([...beforeByPath.keys(), ...afterByPath.keys()])].sort();
+
+  const diffs: FileDiff[] = [];
+  for (const path of paths) {
+    const oldContent = beforeByPath.get(path);
+    const newContent = afterByPath.get(path);
+    if (oldContent === newContent) continue;
+
+    const lines = diffLines(splitLines(oldContent ?? ''), splitLines(newContent ?? ''));
+    diffs.push({
+      path,
+      status: oldContent === undefined ? 'added' : newContent === undefined ? 'removed' : 'modified',
+      additions: lines.filter((l) => l.type === 'added').length,
+      deletions: lines.filter((l) => l.type === 'removed').length,
+      hunks: toHunks(lines, context),
+    });
+  }
+
+  return diffs;
+}
+
+/**
+ * Findings in the current version that the deployed version didn't have.
+ * Findings are paired by tool, rule and file rather than by line, so removed
+ * code (a deleted terminal check, say) counts as well as added code, and
+ * unrelated edits moving old findings around don't. An issue several tools
+ * reported can be merged under a different tool in each version, so any
+ * shared reporter with a rule of the same issue class pairs them.
+ */
+export function findingsNotInDeployed(
+  findings: SecurityFinding[],
+  deployedFindings: SecurityFinding[]
+): SecurityFinding[] {
+  const unmatched = [...deployedFindings];
+  const reporters = (finding: SecurityFinding) => [finding.tool, ...(finding.alsoReportedBy ?? [])];
+  const sameIssue = (a: SecurityFinding, b: SecurityFinding): boolean => {
+    if (a.file !== b.file || !reporters(a).some((tool) => reporters(b).includes(tool))) return false;
+    if (a.ruleId === b.ruleId) return true;
+    const category = getFindingCategory(a.ruleId);
+    return category !== null && category === getFindingCategory(b.ruleId);
+  };
+  const claim = (finding: SecurityFinding, sameCode: boolean): boolean => {
+    const index = unmatched.findIndex((deployed) =>
+      sameIssue(deployed, finding) &&
+      (!sameCode || (deployed.code !== undefined && deployed.code.trim() === finding.code?.trim()))
+    );
+    if (index === -1) return false;
+    unmatched.splice(index, 1);
+    return true;
+  };
+
+  // Pair findings on identical code first, so that when a rule fires more
+  // often than before, the new occurrences are the ones reported
+  const unpaired = findings.filter((finding) => !claim(finding, true));
+  const introduced = new Set(unpaired.filter((finding) => !claim(finding, false)));
+  return findings.filter((finding) => introduced.has(finding));
+}
+
+// ============================================================================
+// Project Upgrades
+// ============================================================================
+
+async function getDeployedSnapshot(project: HookProjectWithFiles): Promise<HookProjectSnapshot> {
+  if (!project.deployedFilesHash) {
+    throw new Error('Project has no recorded deployment to compare against');
+  }
+  const snapshot = await getSnapshot(project.id, project.deployedFilesHash);
+  if (!snapshot) {
+    throw new Error('Deployed sources were not found');
+  }
+  return snapshot;
+}
+
+function diffAgainstSnapshot(project: HookProjectWithFiles, snapshot: HookProjectSnapshot): UpgradeDiff {
+  return {
+    deployedFilesHash: snapshot.filesHash,
+    currentFilesHash: computeFilesHash(project.files),
+    deployedAt: snapshot.createdAt,
+    files: diffFileSets(snapshot.files, project.files),
+  };
+}
+
+/**
+ * Diff the project's current files against the deployed version. Returns
+ * null if the project doesn't exist; throws if it has no deployed snapshot.
+ */
+export async function getUpgradeDiff(
+  projectId: string,
+  userAddress: string
+): Promise<UpgradeDiff | null> {
+  const project = await getProjectWithFiles(projectId, userAddress);
+  return project ? diffAgainstSnapshot(project, await getDeployedSnapshot(project)) : null;
+}
+
+/**
+ * Run the full security analysis on the current files and on the deployed
+ * snapshot, and report the findings the deployed version didn't have. New
+ * critical findings block the upgrade, as does the hook rules not running;
+ * anything older was accepted at deployment.
+ */
+export async function checkUpgradeSecurity(
+  projectId: string,
+  userAddress: string
+): Promise<UpgradeSecurityCheck | null> {
+  const project = await getProjectWithFiles(projectId, userAddress);
+  if (!project) return null;
+
+  const snapshot = await getDeployedSnapshot(project);
+  const diff = diffAgainstSnapshot(project, snapshot);
+  const files = project.files.map((f) => ({ path: f.path, content: f.content }));
+  // Both versions go through the same Docker tools, so analyse them side by side
+  const [check, deployed] = await Promise.all([
+    checkDeploymentSecurity(projectId, files),
+    runSecurityTools(snapshot.files),
+  ]);
+  const introduced = findingsNotInDeployed(check.findings, deployed.findings);
+
+  return {
+    canUpgrade: !introduced.some((f) => f.severity === 'critical') && analysisCompleted(check.toolRuns),
+    criticalFindings: introduced.filter((f) => f.severity === 'critical'),
+    highFindings: introduced.filter((f) => f.severity === 'high'),
+    otherFindings: introduced.filter((f) => f.severity !== 'critical' && f.severity !== 'high'),
+    existingFindingCount: check.findings.length - introduced.length,
+    warnings: diff.files.length === 0
+      ? ['No changes since deployment.', ...check.warnings]
+      : check.warnings,
+    toolRuns: check.toolRuns,
+  };
+}
+
+// ============================================================================
+// Ruleset Attachment
+// ============================================================================
+
+/**
+ * Props for a queue-ruleset-form that sets the hook as the linked project's
+ * data hook. The hook must be deployed on the linked chain; every chain it
+ * was deployed to at the same address is preselected.
+ */
+export function getRulesetAttachment(project: HookProject): RulesetAttachment {
+  if (!project.linkedProject) {
+    throw new Error('Link a Juicebox project before attaching the hook');
+  }
+  if (project.projectType === 'split-hook') {
+    throw new Error('Split hooks are attached through a ruleset\'s splits, not as its data hook');
+  }
+
+  const { projectId, chainId } = project.linkedProject;
+  const dataHook = project.deployedAddresses[chainId];
+  if (!dataHook) {
+    throw new Error(`Hook is not deployed on chain ${chainId}`);
+  }
+
+  const dataHookChainIds = Object.entries(project.deployedAddresses)
+    .filter(([, address]) => address.toLowerCase() === dataHook.toLowerCase())
+    .map(([id]) => Number(id))
+    .sort((a, b) => a - b);
+
+  return {
+    projectId,
+    chainId,
+    dataHook,
+    dataHookChainIds,
+    useDataHookForPay: project.projectType === 'pay-hook',
+    useDataHookForCashOut: project.projectType === 'cash-out-hook',
+  };
+}
+
+export function formatRulesetFormComponent(attachment: RulesetAttachment): string {
+  return `<juice-component type="queue-ruleset-form" projectId="${attachment.projectId}" chainId="${attachment.chainId}" dataHook="${attachment.dataHook}" dataHookChainIds="${JSON.stringify(attachment.dataHookChainIds)}" useDataHookForPay="${attachment.useDataHookForPay}" useDataHookForCashOut="${attachment.useDataHookForCashOut}" />`;
+}
@@ -272,7 +272,7 @@ export async function archiveChat(chatId: string): Promise<string> {
   }>(
     `SELECT id, sender_address, role, content, is_encrypted, reply_to_id, created_at
      FROM multi_chat_messages
-     WHERE chat_id = $1 AND deleted_at IS NULL
+     WHERE chat_id = $1 AND deleted_at IS NULL AND branch_id IS NULL
      ORDER BY created_at ASC`,
     [chatId]
   );
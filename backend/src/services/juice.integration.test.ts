@@ -8,6 +8,7 @@
  * - Cash out delay enforcement
  * - Cash out cancellation and balance restoration
  * - Transaction isolation and concurrency safety
+ * - Merchant refund reversals
  *
  * These tests require a running database connection.
  */
@@ -15,6 +16,7 @@
 import { assertEquals, assertExists, assertRejects } from 'https://deno.land/std@0.224.0/assert/mod.ts';
 import { query, queryOne, execute, transaction } from '../db/index.ts';
 import { SKIP_DB_TESTS } from '../test/helpers.ts';
+import { reverseJuiceSpend } from './juice.ts';
 
 // ============================================================================
 // Test User Setup
@@ -896,3 +898,107 @@ Deno.test({
     await cleanupTestData();
   },
 });
+
+// ============================================================================
+// Test: Merchant Refund Reversal
+// ============================================================================
+
+async function createCompletedSpend(userId: string, amount: number): Promise<string> {
+  const [spend] = await query<{ id: string }>(
+    `INSERT INTO juice_spends (user_id, project_id, chain_id, beneficiary_address, juice_amount, status)
+     VALUES ($1, $2, $3, $4, $5, 'completed')
+     RETURNING id`,
+    [userId, 1, 42161, '0xbeneficiary', amount]
+  );
+  return spend.id;
+}
+
+async function getBalanceRow(userId: string): Promise<{ balance: number; lifetimeSpent: number }> {
+  const row = await queryOne<{ balance: string; lifetime_spent: string }>(
+    `SELECT balance, lifetime_spent FROM juice_balances WHERE user_id = $1`,
+    [userId]
+  );
+  return { balance: parseFloat(row!.balance), lifetimeSpent: parseFloat(row!.lifetime_spent) };
+}
+
+Deno.test({
+  ignore: SKIP_DB_TESTS,
+  name: 'Juice Integration - Refund reversal moves Juice from merchant to payer',
+  async fn() {
+    await ensureTestUsersExist();
+    await cleanupTestData();
+
+    // Payer spent 50 earlier; merchant holds 100
+    await createBalance(TEST_USER_ID_1, 0);
+    await execute(`UPDATE juice_balances SET lifetime_spent = 50 WHERE user_id = $1`, [TEST_USER_ID_1]);
+    await createBalance(TEST_USER_ID_2, 100);
+    const spendId = await createCompletedSpend(TEST_USER_ID_1, 50);
+
+    await transaction((client) =>
+      reverseJuiceSpend(client, { spendId, merchantId: TEST_USER_ID_2, amount: 20 })
+    );
+
+    assertEquals(await getBalanceRow(TEST_USER_ID_1), { balance: 20, lifetimeSpent: 30 });
+    // The merchant's lifetime figures are untouched by refunds
+    assertEquals(await getBalanceRow(TEST_USER_ID_2), { balance: 80, lifetimeSpent: 0 });
+
+    await cleanupTestData();
+  },
+});
+
+Deno.test({
+  ignore: SKIP_DB_TESTS,
+  name: 'Juice Integration - Refund reversal rejects underfunded merchants and oversized amounts',
+  async fn() {
+    await ensureTestUsersExist();
+    await cleanupTestData();
+
+    await createBalance(TEST_USER_ID_1, 0);
+    await createBalance(TEST_USER_ID_2, 10);
+    const spendId = await createCompletedSpend(TEST_USER_ID_1, 50);
+
+    await assertRejects(
+      () => transaction((client) => reverseJuiceSpend(client, { spendId, merchantId: TEST_USER_ID_2, amount: 20 })),
+      Error,
+      'Insufficient Juice balance'
+    );
+    await assertRejects(
+      () => transaction((client) => reverseJuiceSpend(client, { spendId, merchantId: TEST_USER_ID_2, amount: 60 })),
+      Error,
+      'exceeds original spend'
+    );
+
+    assertEquals((await getBalanceRow(TEST_USER_ID_1)).balance, 0);
+    assertEquals((await getBalanceRow(TEST_USER_ID_2)).balance, 10);
+
+    await cleanupTestData();
+  },
+});
+
+Deno.test({
+  ignore: SKIP_DB_TESTS,
+  name: 'Juice Integration - Refund reversal rolls back with the enclosing transaction',
+  async fn() {
+    await ensureTestUsersExist();
+    await cleanupTestData();
+
+    await createBalance(TEST_USER_ID_1, 0);
+    await createBalance(TEST_USER_ID_2, 100);
+    const spendId = await createCompletedSpend(TEST_USER_ID_1, 50);
+
+    // A refund that fails after reversing must not leave the reversal behind
+    await assertRejects(
+      () => transaction(async (client) => {
+        await reverseJuiceSpend(client, { spendId, merchantId: TEST_USER_ID_2, amount: 20 });
+        throw new Error('refund record failed');
+      }),
+      Error,
+      'refund record failed'
+    );
+
+    assertEquals((await getBalanceRow(TEST_USER_ID_1)).balance, 0);
+    assertEquals((await getBalanceRow(TEST_USER_ID_2)).balance, 100);
+
+    await cleanupTestData();
+  },
+});
@@ -106,7 +106,7 @@ Deno.test('Juice Service - Purchase 1:1 USD Ratio', async (t) => {
 // ============================================================================
 
 Deno.test('Juice Service - Risk Score Settlement Delay', async (t) => {
-  // Match the calculateSettlementDelayDays function from stripe-webhook.ts
+  // Match the calculateSettlementDelayDays function from riskScore.ts
   function calculateSettlementDelayDays(riskScore: number): number {
     if (riskScore <= 20) return 0; // Immediate
     if (riskScore <= 40) return 7;
@@ -2,12 +2,13 @@
  * Juice Service - Stored Value System
  *
  * Enables non-crypto users to pay Juicebox projects with fiat.
- * 1 Juice = $1 USD. Non-refundable, non-transferable.
+ * 1 Juice = $1 USD of value; purchasable in local currencies (see fx.ts).
+ * Non-refundable. Transferable between users (see juiceTransfers.ts).
  *
- * Flow: Purchase (Stripe) → Balance → Spend (Project) or Cash Out (Crypto)
+ * Flow: Purchase (Stripe) → Balance → Spend (Project), Cash Out (Crypto) or Transfer (User)
  */
 
-import { query, queryOne, execute, transaction } from '../db/index.ts';
+import { query, queryOne, execute, transaction, type TransactionClient } from '../db/index.ts';
 import { logger } from '../utils/logger.ts';
 import { getConfig } from '../utils/config.ts';
 import {
@@ -97,6 +98,8 @@ export interface JuicePurchase {
   userId: string;
   stripePaymentIntentId: string;
   juiceAmount: number;
+  fiatAmount: number;
+  currency: string;
   status: string;
   clearsAt: Date | null;
   createdAt: Date;
@@ -126,10 +129,19 @@ export interface JuiceCashOut {
   createdAt: Date;
 }
 
+export type JuiceTransactionType =
+  | 'purchase'
+  | 'spend'
+  | 'cash_out'
+  | 'transfer_out'
+  | 'transfer_in'
+  | 'gift_code'
+  | 'gift_redeemed';
+
 export interface JuiceTransaction {
   id: string;
   userId: string;
-  type: 'purchase' | 'spend' | 'cash_out';
+  type: JuiceTransactionType;
   amount: number;
   status: string;
   createdAt: Date;
@@ -303,7 +315,9 @@ export async function createPurchase(params: {
   userId: string;
   stripePaymentIntentId: string;
   stripeChargeId?: string;
-  fiatAmount: number;
+  fiatAmount: number; // In the presentment currency
+  currency?: string; // ISO 4217, defaults to USD
+  fxRate?: number; // Units of currency per 1 USD at time of purchase
   juiceAmount?: number; // If provided, use this; otherwise calculate from fiatAmount
   creditRate?: number; // Credit rate at time of purchase
   riskScore?: number;
@@ -315,13 +329,17 @@ export async function createPurchase(params: {
 
   // Use provided juiceAmount or fall back to fiatAmount (1:1 for legacy)
   const juiceAmount = params.juiceAmount ?? params.fiatAmount;
+  const currency = (params.currency || 'USD').toUpperCase();
+  const fxRate = params.fxRate ?? 1;
+  const usdAmount = Math.round((params.fiatAmount / fxRate) * 100) / 100;
 
   const [row] = await query<{ id: string }>(
     `INSERT INTO juice_purchases (
       user_id, stripe_payment_intent_id, stripe_charge_id,
       radar_risk_score, radar_risk_level,
-      fiat_amount, juice_amount, credit_rate, status, settlement_delay_days, clears_at
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      fiat_amount, currency, fx_rate, usd_amount,
+      juice_amount, credit_rate, status, settlement_delay_days, clears_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
     RETURNING id`,
     [
       params.userId,
@@ -330,6 +348,9 @@ export async function createPurchase(params: {
       params.riskScore ?? null,
       params.riskLevel || null,
       params.fiatAmount,
+      currency,
+      fxRate,
+      usdAmount,
       juiceAmount,
       params.creditRate ?? null,
       params.settlementDelayDays === 0 ? 'clearing' : 'clearing',
@@ -342,6 +363,8 @@ export async function createPurchase(params: {
     purchaseId: row.id,
     userId: params.userId,
     fiatAmount: params.fiatAmount,
+    currency,
+    fxRate,
     juiceAmount,
     creditRate: params.creditRate,
     settlementDelayDays: params.settlementDelayDays,
@@ -402,12 +425,14 @@ export async function getUserPurchases(userId: string): Promise<JuicePurchase[]>
     user_id: string;
     stripe_payment_intent_id: string;
     juice_amount: string;
+    fiat_amount: string;
+    currency: string;
     status: string;
     clears_at: string | null;
     created_at: string;
   }>(
     `SELECT id, user_id, stripe_payment_intent_id, juice_amount,
-            status, clears_at, created_at
+            fiat_amount, currency, status, clears_at, created_at
      FROM juice_purchases
      WHERE user_id = $1
      ORDER BY created_at DESC`,
@@ -419,6 +444,8 @@ export async function getUserPurchases(userId: string): Promise<JuicePurchase[]>
     userId: r.user_id,
     stripePaymentIntentId: r.stripe_payment_intent_id,
     juiceAmount: parseFloat(r.juice_amount),
+    fiatAmount: parseFloat(r.fiat_amount),
+    currency: r.currency,
     status: r.status,
     clearsAt: r.clears_at ? new Date(r.clears_at) : null,
     createdAt: new Date(r.created_at),
@@ -524,6 +551,86 @@ export async function getUserSpends(userId: string): Promise<JuiceSpend[]> {
   }));
 }
 
+/**
+ * Reverse part or all of a completed spend (merchant refund)
+ * The refund is funded from the merchant's Juice balance, since the original
+ * spend has already been paid out on-chain to their project. Runs on the
+ * caller's transaction so it commits or rolls back with the refund record.
+ */
+export async function reverseJuiceSpend(
+  client: TransactionClient,
+  params: {
+    spendId: string;
+    merchantId: string;
+    amount: number;
+  }
+): Promise<void> {
+  const { rows: spends } = await client.queryObject<{
+    user_id: string;
+    juice_amount: string;
+    status: string;
+  }>(
+    `SELECT user_id, juice_amount, status FROM juice_spends
+     WHERE id = $1
+     FOR UPDATE`,
+    [params.spendId]
+  );
+
+  const spend = spends[0];
+  if (!spend) {
+    throw new Error('Spend not found');
+  }
+
+  if (spend.status !== 'completed') {
+    throw new Error(`Cannot reverse spend with status: ${spend.status}`);
+  }
+
+  if (params.amount > parseFloat(spend.juice_amount)) {
+    throw new Error('Reversal exceeds original spend amount');
+  }
+
+  // Debit the merchant first so an underfunded refund leaves nothing behind.
+  // Lifetime figures are left alone: a refund is neither a purchase nor a spend.
+  const debitResult = await client.queryObject(
+    `UPDATE juice_balances
+     SET balance = balance - $1,
+         last_activity_at = NOW(),
+         updated_at = NOW()
+     WHERE user_id = $2
+     AND balance >= $1`,
+    [params.amount, params.merchantId]
+  );
+
+  if ((debitResult.rowCount ?? 0) === 0) {
+    throw new Error('Insufficient Juice balance to fund refund');
+  }
+
+  // Ensure balance record exists for the original spender
+  await client.queryObject(
+    `INSERT INTO juice_balances (user_id)
+     VALUES ($1)
+     ON CONFLICT (user_id) DO NOTHING`,
+    [spend.user_id]
+  );
+
+  await client.queryObject(
+    `UPDATE juice_balances
+     SET balance = balance + $1,
+         lifetime_spent = GREATEST(lifetime_spent - $1, 0),
+         last_activity_at = NOW(),
+         updated_at = NOW()
+     WHERE user_id = $2`,
+    [params.amount, spend.user_id]
+  );
+
+  logger.info('Juice spend reversed', {
+    spendId: params.spendId,
+    merchantId: params.merchantId,
+    userId: spend.user_id,
+    amount: params.amount,
+  });
+}
+
 // ============================================================================
 // Cash Out Operations
 // ============================================================================
@@ -702,7 +809,7 @@ export async function getTransactions(
   return rows.map(r => ({
     id: r.id,
     userId: r.user_id,
-    type: r.type as 'purchase' | 'spend' | 'cash_out',
+    type: r.type as JuiceTransactionType,
     amount: parseFloat(r.amount),
     status: r.status,
     createdAt: new Date(r.created_at),
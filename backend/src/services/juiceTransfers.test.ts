@@ -0,0 +1,43 @@
+import { assertEquals, assertNotEquals, assertMatch } from 'std/assert/mod.ts';
+import { generateGiftCode, normalizeGiftCode, hashGiftCode } from './juiceTransfers.ts';
+
+// ============================================================================
+// Gift Code Format Tests
+// ============================================================================
+
+Deno.test('juiceTransfers - generateGiftCode', async (t) => {
+  await t.step('formats as three groups of four', () => {
+    assertMatch(generateGiftCode(), /^[A-Z2-9]{4}-[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+  });
+
+  await t.step('never uses ambiguous characters', () => {
+    for (let i = 0; i < 200; i++) {
+      assertMatch(generateGiftCode(), /^[^01ILO]+$/);
+    }
+  });
+
+  await t.step('produces distinct codes', () => {
+    const codes = new Set(Array.from({ length: 500 }, () => generateGiftCode()));
+    assertEquals(codes.size, 500);
+  });
+});
+
+// ============================================================================
+// Normalization Tests
+// ============================================================================
+
+Deno.test('juiceTransfers - normalizeGiftCode', async (t) => {
+  await t.step('ignores case, dashes and spaces', () => {
+    assertEquals(normalizeGiftCode('abcd-efgh-jk23'), 'ABCDEFGHJK23');
+    assertEquals(normalizeGiftCode(' ABCD EFGH JK23 '), 'ABCDEFGHJK23');
+  });
+
+  await t.step('hashes equivalent spellings the same', () => {
+    assertEquals(hashGiftCode('abcd-efgh-jk23'), hashGiftCode('ABCDEFGHJK23'));
+    assertNotEquals(hashGiftCode('ABCD-EFGH-JK23'), hashGiftCode('ABCD-EFGH-JK24'));
+  });
+
+  await t.step('stores a sha256 hex digest', () => {
+    assertMatch(hashGiftCode('ABCD-EFGH-JK23'), /^[a-f0-9]{64}$/);
+  });
+});
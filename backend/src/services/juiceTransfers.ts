@@ -0,0 +1,657 @@
+/**
+ * Juice Transfers Service
+ *
+ * Moves Juice between users, either directly (by email, Juicy ID or linked
+ * address) or through prepaid gift codes that can be handed out at events.
+ *
+ * Fraud protection mirrors cash outs: the sender is debited immediately but
+ * the recipient is only credited after TRANSFER_HOLD_HOURS, during which the
+ * sender can cancel. Gift codes become redeemable after the same hold.
+ * Outgoing Juice (transfers + gift codes) is capped per user per day.
+ */
+
+import { createHash } from 'node:crypto';
+import { query, queryOne, transaction, type TransactionClient } from '../db/index.ts';
+import { logger } from '../utils/logger.ts';
+import { findUserByEmail } from './auth.ts';
+import { parseIdentityString, resolveIdentity } from './identity.ts';
+import { getPrimaryAddress } from './linkedAddresses.ts';
+
+// Hours before transferred Juice reaches the recipient (fraud protection)
+const TRANSFER_HOLD_HOURS = 24;
+
+// Maximum Juice a user can send (transfers + gift codes) in a rolling 24 hours
+export const DAILY_OUTGOING_LIMIT = 500;
+
+// Maximum gift codes a user can redeem in a rolling 24 hours
+export const DAILY_REDEMPTION_LIMIT = 5;
+
+// Gift code defaults
+const GIFT_CODE_DEFAULT_EXPIRY_DAYS = 90;
+const GIFT_CODE_LENGTH = 12;
+
+// Unambiguous characters (no 0/O, 1/I/L)
+const GIFT_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface JuiceTransfer {
+  id: string;
+  direction: 'sent' | 'received';
+  counterpartyLabel: string;
+  amount: number;
+  note: string | null;
+  status: 'held' | 'completed' | 'cancelled';
+  availableAt: Date;
+  completedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface JuiceGiftCode {
+  id: string;
+  batchId: string;
+  codeSuffix: string;
+  amount: number;
+  note: string | null;
+  status: 'active' | 'redeemed' | 'cancelled' | 'expired';
+  redeemableAt: Date;
+  expiresAt: Date;
+  redeemedAt: Date | null;
+  createdAt: Date;
+}
+
+interface TransferRow {
+  id: string;
+  sender_id: string;
+  recipient_id: string;
+  sender_email: string;
+  recipient_label: string;
+  juice_amount: string;
+  note: string | null;
+  status: 'held' | 'completed' | 'cancelled';
+  available_at: Date;
+  completed_at: Date | null;
+  created_at: Date;
+}
+
+interface GiftCodeRow {
+  id: string;
+  batch_id: string;
+  code_suffix: string;
+  juice_amount: string;
+  note: string | null;
+  status: 'active' | 'redeemed' | 'cancelled' | 'expired';
+  redeemable_at: Date;
+  expires_at: Date;
+  redeemed_at: Date | null;
+  created_at: Date;
+}
+
+function mapGiftCodeRow(row: GiftCodeRow): JuiceGiftCode {
+  return {
+    id: row.id,
+    batchId: row.batch_id,
+    codeSuffix: row.code_suffix,
+    amount: parseFloat(row.juice_amount),
+    note: row.note,
+    status: row.status,
+    redeemableAt: new Date(row.redeemable_at),
+    expiresAt: new Date(row.expires_at),
+    redeemedAt: row.redeemed_at ? new Date(row.redeemed_at) : null,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// ============================================================================
+// Recipient Resolution
+// ============================================================================
+
+/**
+ * Find the user behind an email, Juicy ID ("🍉 jango") or address.
+ * Addresses resolve through managed smart accounts and linked addresses.
+ */
+export async function resolveRecipient(recipient: string): Promise<string | null> {
+  const input = recipient.trim();
+
+  if (input.includes('@') && !input.startsWith('@')) {
+    const user = await findUserByEmail(input);
+    return user?.id ?? null;
+  }
+
+  let address: string | null = null;
+  if (/^0x[a-fA-F0-9]{40}$/.test(input)) {
+    address = input;
+  } else {
+    const parsed = parseIdentityString(input);
+    if (parsed) {
+      address = await resolveIdentity(parsed.emoji, parsed.username);
+    }
+  }
+
+  if (!address) return null;
+
+  const primaryAddress = (await getPrimaryAddress(address)) ?? address;
+
+  const row = await queryOne<{ user_id: string }>(
+    `SELECT user_id FROM user_smart_accounts
+     WHERE LOWER(address) = LOWER($1) OR LOWER(address) = LOWER($2)
+     UNION ALL
+     SELECT user_id FROM linked_addresses
+     WHERE user_id IS NOT NULL
+     AND (LOWER(primary_address) = LOWER($2) OR LOWER(linked_address) = LOWER($1))
+     LIMIT 1`,
+    [address, primaryAddress]
+  );
+
+  return row?.user_id ?? null;
+}
+
+// ============================================================================
+// Direct Transfers
+// ============================================================================
+
+/**
+ * Send Juice to another user. The sender is debited now; the recipient is
+ * credited once the hold passes (see processTransfers).
+ */
+export async function createTransfer(params: {
+  senderId: string;
+  recipient: string;
+  amount: number;
+  note?: string;
+}): Promise<{ id: string; availableAt: Date }> {
+  const recipientId = await resolveRecipient(params.recipient);
+
+  if (!recipientId) {
+    throw new Error('No Juicy account found for that recipient');
+  }
+  if (recipientId === params.senderId) {
+    throw new Error('Cannot send Juice to yourself');
+  }
+
+  const availableAt = new Date();
+  availableAt.setHours(availableAt.getHours() + TRANSFER_HOLD_HOURS);
+
+  return await transaction(async (client) => {
+    // Lock the sender's balance so concurrent requests can't exceed the daily cap
+    const { rows: balances } = await client.queryObject<{ balance: string }>(
+      `SELECT balance FROM juice_balances WHERE user_id = $1 FOR UPDATE`,
+      [params.senderId]
+    );
+
+    if (!balances[0] || parseFloat(balances[0].balance) < params.amount) {
+      throw new Error('Insufficient Juice balance');
+    }
+
+    await assertWithinDailyLimit(client, params.senderId, params.amount);
+
+    await client.queryObject(
+      `UPDATE juice_balances
+       SET balance = balance - $1,
+           last_activity_at = NOW(),
+           updated_at = NOW()
+       WHERE user_id = $2`,
+      [params.amount, params.senderId]
+    );
+
+    const { rows } = await client.queryObject<{ id: string }>(
+      `INSERT INTO juice_transfers (
+        sender_id, recipient_id, juice_amount, note, recipient_label, available_at
+      ) VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id`,
+      [
+        params.senderId,
+        recipientId,
+        params.amount,
+        params.note || null,
+        params.recipient.trim(),
+        availableAt,
+      ]
+    );
+
+    logger.info('Juice transfer created', {
+      transferId: rows[0].id,
+      senderId: params.senderId,
+      recipientId,
+      amount: params.amount,
+      availableAt: availableAt.toISOString(),
+    });
+
+    return { id: rows[0].id, availableAt };
+  });
+}
+
+/**
+ * Cancel a held transfer and return the Juice to the sender
+ */
+export async function cancelTransfer(transferId: string, senderId: string): Promise<void> {
+  await transaction(async (client) => {
+    const { rows } = await client.queryObject<{ juice_amount: string; status: string }>(
+      `SELECT juice_amount, status FROM juice_transfers
+       WHERE id = $1 AND sender_id = $2
+       FOR UPDATE`,
+      [transferId, senderId]
+    );
+
+    if (!rows[0]) {
+      throw new Error('Transfer not found');
+    }
+
+    if (rows[0].status !== 'held') {
+      throw new Error(`Cannot cancel transfer with status: ${rows[0].status}`);
+    }
+
+    const amount = parseFloat(rows[0].juice_amount);
+
+    await client.queryObject(
+      `UPDATE juice_balances
+       SET balance = balance + $1,
+           updated_at = NOW()
+       WHERE user_id = $2`,
+      [amount, senderId]
+    );
+
+    await client.queryObject(
+      `UPDATE juice_transfers
+       SET status = 'cancelled', updated_at = NOW()
+       WHERE id = $1`,
+      [transferId]
+    );
+
+    logger.info('Juice transfer cancelled', { transferId, senderId, amount });
+  });
+}
+
+/**
+ * Get transfers a user has sent or received
+ */
+export async function getUserTransfers(userId: string): Promise<JuiceTransfer[]> {
+  const rows = await query<TransferRow>(
+    `SELECT t.id, t.sender_id, t.recipient_id, s.email as sender_email,
+            t.recipient_label, t.juice_amount, t.note, t.status,
+            t.available_at, t.completed_at, t.created_at
+     FROM juice_transfers t
+     JOIN users s ON s.id = t.sender_id
+     WHERE t.sender_id = $1
+     OR (t.recipient_id = $1 AND t.status <> 'cancelled')
+     ORDER BY t.created_at DESC
+     LIMIT 100`,
+    [userId]
+  );
+
+  return rows.map((r) => {
+    const sent = r.sender_id === userId;
+    return {
+      id: r.id,
+      direction: sent ? 'sent' : 'received',
+      counterpartyLabel: sent ? r.recipient_label : r.sender_email,
+      amount: parseFloat(r.juice_amount),
+      note: r.note,
+      status: r.status,
+      availableAt: new Date(r.available_at),
+      completedAt: r.completed_at ? new Date(r.completed_at) : null,
+      createdAt: new Date(r.created_at),
+    };
+  });
+}
+
+// ============================================================================
+// Gift Codes
+// ============================================================================
+
+/**
+ * Generate a human-friendly gift code, formatted XXXX-XXXX-XXXX
+ */
+export function generateGiftCode(): string {
+  const chars: string[] = [];
+  // Rejection sampling keeps every character equally likely
+  const limit = 256 - (256 % GIFT_CODE_ALPHABET.length);
+
+  while (chars.length < GIFT_CODE_LENGTH) {
+    const bytes = crypto.getRandomValues(new Uint8Array(GIFT_CODE_LENGTH * 2));
+    for (const byte of bytes) {
+      if (byte < limit && chars.length < GIFT_CODE_LENGTH) {
+        chars.push(GIFT_CODE_ALPHABET[byte % GIFT_CODE_ALPHABET.length]);
+      }
+    }
+  }
+
+  return chars.join('').match(/.{4}/g)!.join('-');
+}
+
+/**
+ * Canonical form of a code as typed by a user (case, dashes and spaces ignored)
+ */
+export function normalizeGiftCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function hashGiftCode(code: string): string {
+  return createHash('sha256').update(normalizeGiftCode(code)).digest('hex');
+}
+
+/**
+ * Create gift codes funded from the creator's balance.
+ * Returns the plaintext codes; they can't be retrieved again.
+ */
+export async function createGiftCodes(params: {
+  creatorId: string;
+  amount: number;
+  quantity: number;
+  note?: string;
+  expiresInDays?: number;
+}): Promise<{ batchId: string; codes: { id: string; code: string }[]; redeemableAt: Date; expiresAt: Date }> {
+  const total = params.amount * params.quantity;
+
+  const redeemableAt = new Date();
+  redeemableAt.setHours(redeemableAt.getHours() + TRANSFER_HOLD_HOURS);
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + (params.expiresInDays ?? GIFT_CODE_DEFAULT_EXPIRY_DAYS));
+
+  return await transaction(async (client) => {
+    const { rows: balances } = await client.queryObject<{ balance: string }>(
+      `SELECT balance FROM juice_balances WHERE user_id = $1 FOR UPDATE`,
+      [params.creatorId]
+    );
+
+    if (!balances[0] || parseFloat(balances[0].balance) < total) {
+      throw new Error('Insufficient Juice balance');
+    }
+
+    await assertWithinDailyLimit(client, params.creatorId, total);
+
+    await client.queryObject(
+      `UPDATE juice_balances
+       SET balance = balance - $1,
+           last_activity_at = NOW(),
+           updated_at = NOW()
+       WHERE user_id = $2`,
+      [total, params.creatorId]
+    );
+
+    const batchId = crypto.randomUUID();
+    const codes: { id: string; code: string }[] = [];
+
+    for (let i = 0; i < params.quantity; i++) {
+      const code = generateGiftCode();
+      const { rows } = await client.queryObject<{ id: string }>(
+        `INSERT INTO juice_gift_codes (
+          creator_id, code_hash, code_suffix, batch_id, juice_amount, note,
+          redeemable_at, expires_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING id`,
+        [
+          params.creatorId,
+          hashGiftCode(code),
+          code.slice(-4),
+          batchId,
+          params.amount,
+          params.note || null,
+          redeemableAt,
+          expiresAt,
+        ]
+      );
+      codes.push({ id: rows[0].id, code });
+    }
+
+    logger.info('Juice gift codes created', {
+      batchId,
+      creatorId: params.creatorId,
+      amount: params.amount,
+      quantity: params.quantity,
+    });
+
+    return { batchId, codes, redeemableAt, expiresAt };
+  });
+}
+
+/**
+ * Redeem a gift code into the user's balance
+ */
+export async function redeemGiftCode(userId: string, code: string): Promise<{ amount: number }> {
+  return await transaction(async (client) => {
+    const { rows } = await client.queryObject<{
+      id: string;
+      creator_id: string;
+      juice_amount: string;
+      status: string;
+      redeemable_at: Date;
+      expires_at: Date;
+    }>(
+      `SELECT id, creator_id, juice_amount, status, redeemable_at, expires_at
+       FROM juice_gift_codes
+       WHERE code_hash = $1
+       FOR UPDATE`,
+      [hashGiftCode(code)]
+    );
+
+    const gift = rows[0];
+    if (!gift) {
+      throw new Error('Invalid gift code');
+    }
+    if (gift.status !== 'active') {
+      throw new Error(`This gift code has been ${gift.status}`);
+    }
+    if (new Date(gift.expires_at) <= new Date()) {
+      throw new Error('This gift code has expired');
+    }
+    if (new Date(gift.redeemable_at) > new Date()) {
+      throw new Error(`This gift code can be redeemed from ${new Date(gift.redeemable_at).toISOString()}`);
+    }
+    if (gift.creator_id === userId) {
+      throw new Error('Cannot redeem your own gift code');
+    }
+
+    const { rows: recent } = await client.queryObject<{ count: number }>(
+      `SELECT COUNT(*)::int as count FROM juice_gift_codes
+       WHERE redeemed_by = $1 AND redeemed_at > NOW() - INTERVAL '24 hours'`,
+      [userId]
+    );
+
+    if ((recent[0]?.count ?? 0) >= DAILY_REDEMPTION_LIMIT) {
+      throw new Error(`You can redeem up to ${DAILY_REDEMPTION_LIMIT} gift codes per day`);
+    }
+
+    const amount = parseFloat(gift.juice_amount);
+
+    await client.queryObject(
+      `UPDATE juice_gift_codes
+       SET status = 'redeemed', redeemed_by = $1, redeemed_at = NOW(), updated_at = NOW()
+       WHERE id = $2`,
+      [userId, gift.id]
+    );
+
+    await creditBalance(client, userId, amount);
+
+    logger.info('Juice gift code redeemed', { giftCodeId: gift.id, userId, amount });
+
+    return { amount };
+  });
+}
+
+/**
+ * Cancel an unredeemed gift code and return its Juice to the creator
+ */
+export async function cancelGiftCode(giftCodeId: string, creatorId: string): Promise<void> {
+  await transaction(async (client) => {
+    const { rows } = await client.queryObject<{ juice_amount: string; status: string }>(
+      `SELECT juice_amount, status FROM juice_gift_codes
+       WHERE id = $1 AND creator_id = $2
+       FOR UPDATE`,
+      [giftCodeId, creatorId]
+    );
+
+    if (!rows[0]) {
+      throw new Error('Gift code not found');
+    }
+
+    if (rows[0].status !== 'active') {
+      throw new Error(`Cannot cancel gift code with status: ${rows[0].status}`);
+    }
+
+    const amount = parseFloat(rows[0].juice_amount);
+
+    await client.queryObject(
+      `UPDATE juice_gift_codes
+       SET status = 'cancelled', updated_at = NOW()
+       WHERE id = $1`,
+      [giftCodeId]
+    );
+
+    await creditBalance(client, creatorId, amount);
+
+    logger.info('Juice gift code cancelled', { giftCodeId, creatorId, amount });
+  });
+}
+
+/**
+ * Get gift codes a user has created
+ */
+export async function getUserGiftCodes(userId: string): Promise<JuiceGiftCode[]> {
+  const rows = await query<GiftCodeRow>(
+    `SELECT id, batch_id, code_suffix, juice_amount, note, status,
+            redeemable_at, expires_at, redeemed_at, created_at
+     FROM juice_gift_codes
+     WHERE creator_id = $1
+     ORDER BY created_at DESC
+     LIMIT 500`,
+    [userId]
+  );
+
+  return rows.map(mapGiftCodeRow);
+}
+
+// ============================================================================
+// Cron Processing
+// ============================================================================
+
+/**
+ * Credit transfers whose hold has passed and return expired gift codes
+ */
+export async function processTransfers(): Promise<{
+  completed: number;
+  expiredGiftCodes: number;
+  failed: number;
+}> {
+  const dueTransfers = await query<{ id: string }>(
+    `SELECT id FROM juice_transfers
+     WHERE status = 'held' AND available_at <= NOW()
+     ORDER BY available_at ASC
+     LIMIT 100`
+  );
+
+  let completed = 0;
+  let failed = 0;
+
+  for (const { id } of dueTransfers) {
+    try {
+      const done = await transaction(async (client) => {
+        const { rows } = await client.queryObject<{ recipient_id: string; juice_amount: string }>(
+          `UPDATE juice_transfers
+           SET status = 'completed', completed_at = NOW(), updated_at = NOW()
+           WHERE id = $1 AND status = 'held'
+           RETURNING recipient_id, juice_amount`,
+          [id]
+        );
+
+        // Cancelled or completed by another run in the meantime
+        if (!rows[0]) return false;
+
+        await creditBalance(client, rows[0].recipient_id, parseFloat(rows[0].juice_amount));
+        return true;
+      });
+
+      if (done) completed++;
+    } catch (error) {
+      logger.error('Failed to complete Juice transfer', error as Error, { transferId: id });
+      failed++;
+    }
+  }
+
+  const expiredCodes = await query<{ id: string }>(
+    `SELECT id FROM juice_gift_codes
+     WHERE status = 'active' AND expires_at <= NOW()
+     LIMIT 100`
+  );
+
+  let expiredGiftCodes = 0;
+
+  for (const { id } of expiredCodes) {
+    try {
+      const done = await transaction(async (client) => {
+        const { rows } = await client.queryObject<{ creator_id: string; juice_amount: string }>(
+          `UPDATE juice_gift_codes
+           SET status = 'expired', updated_at = NOW()
+           WHERE id = $1 AND status = 'active'
+           RETURNING creator_id, juice_amount`,
+          [id]
+        );
+
+        if (!rows[0]) return false;
+
+        await creditBalance(client, rows[0].creator_id, parseFloat(rows[0].juice_amount));
+        return true;
+      });
+
+      if (done) expiredGiftCodes++;
+    } catch (error) {
+      logger.error('Failed to expire Juice gift code', error as Error, { giftCodeId: id });
+      failed++;
+    }
+  }
+
+  return { completed, expiredGiftCodes, failed };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Throw if sending `amount` more would exceed the rolling daily cap.
+ * Call with the sender's balance row locked.
+ */
+async function assertWithinDailyLimit(
+  client: TransactionClient,
+  userId: string,
+  amount: number
+): Promise<void> {
+  const { rows } = await client.queryObject<{ sent: string }>(
+    `SELECT
+       COALESCE((SELECT SUM(juice_amount) FROM juice_transfers
+                 WHERE sender_id = $1 AND status <> 'cancelled'
+                 AND created_at > NOW() - INTERVAL '24 hours'), 0)
+       + COALESCE((SELECT SUM(juice_amount) FROM juice_gift_codes
+                   WHERE creator_id = $1 AND status <> 'cancelled'
+                   AND created_at > NOW() - INTERVAL '24 hours'), 0) as sent`,
+    [userId]
+  );
+
+  const sent = parseFloat(rows[0]?.sent ?? '0');
+  if (sent + amount > DAILY_OUTGOING_LIMIT) {
+    const remaining = Math.max(0, DAILY_OUTGOING_LIMIT - sent);
+    throw new Error(
+      `Daily sending limit is ${DAILY_OUTGOING_LIMIT} Juice (${remaining.toFixed(2)} remaining today)`
+    );
+  }
+}
+
+async function creditBalance(client: TransactionClient, userId: string, amount: number): Promise<void> {
+  await client.queryObject(
+    `INSERT INTO juice_balances (user_id)
+     VALUES ($1)
+     ON CONFLICT (user_id) DO NOTHING`,
+    [userId]
+  );
+
+  await client.queryObject(
+    `UPDATE juice_balances
+     SET balance = balance + $1,
+         last_activity_at = NOW(),
+         updated_at = NOW()
+     WHERE user_id = $2`,
+    [amount, userId]
+  );
+}
@@ -0,0 +1,258 @@
+import { assertEquals, assert } from 'std/assert/mod.ts';
+import {
+  convertMessages,
+  convertTools,
+  estimateTokens,
+  getUserUsageStats,
+  streamMessageWithTools,
+  type OpenAICompatibleEndpoint,
+} from './openaiCompatible.ts';
+import type { ChatMessage, ToolDefinition } from './claude.ts';
+
+const LOOKUP_TOOL: ToolDefinition = {
+  name: 'lookup_rulesets',
+  description: 'Look up a project ruleset',
+  input_schema: {
+    type: 'object',
+    properties: { projectId: { type: 'number' } },
+    required: ['projectId'],
+  },
+};
+
+function sse(chunks: unknown[]): Response {
+  const body = chunks.map(c => `data: ${JSON.stringify(c)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+// Local chat-completions server standing in for vLLM / llama.cpp / Ollama
+function startStubServer(
+  responses: Response[]
+): { endpoint: OpenAICompatibleEndpoint; requests: { headers: Headers; body: Record<string, unknown> }[]; close: () => Promise<void> } {
+  const requests: { headers: Headers; body: Record<string, unknown> }[] = [];
+  const controller = new AbortController();
+  const server = Deno.serve(
+    { port: 0, hostname: '127.0.0.1', signal: controller.signal, onListen: () => {} },
+    async (req) => {
+      requests.push({ headers: req.headers, body: await req.json() });
+      return responses.shift() ?? new Response('no more responses', { status: 500 });
+    }
+  );
+
+  return {
+    endpoint: { baseUrl: `http://127.0.0.1:${server.addr.port}/v1/`, apiKey: 'local-key', model: 'qwen2.5-7b-instruct' },
+    requests,
+    close: async () => {
+      controller.abort();
+      await server.finished;
+    },
+  };
+}
+
+async function collect(gen: AsyncGenerator<{ type: string; data: unknown }>) {
+  const events: { type: string; data: unknown }[] = [];
+  for await (const event of gen) events.push(event);
+  return events;
+}
+
+// ============================================================================
+// Conversion Tests
+// ============================================================================
+
+Deno.test('openaiCompatible - convertMessages', async (t) => {
+  await t.step('sends images as data URL content parts', () => {
+    const messages: ChatMessage[] = [{
+      role: 'user',
+      content: [
+        { type: 'text', text: 'What is in this logo?' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+      ],
+    }];
+
+    const [system, user] = convertMessages(messages, 'be brief');
+    assertEquals(system, { role: 'system', content: 'be brief' });
+    assertEquals(user.content, [
+      { type: 'text', text: 'What is in this logo?' },
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+    ]);
+  });
+
+  await t.step('maps tool use and tool results to tool_calls and tool messages', () => {
+    const messages: ChatMessage[] = [
+      { role: 'user', content: 'Check project 1' },
+      {
+        role: 'assistant',
+        content: [{ type: 'tool_use', id: 'call_1', name: 'lookup_rulesets', input: { projectId: 1 } }],
+      },
+      {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'call_1', content: '{"weight":"1000000"}' }],
+      },
+    ];
+
+    const converted = convertMessages(messages, 'sys');
+    assertEquals(converted[2], {
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup_rulesets', arguments: '{"projectId":1}' } }],
+    });
+    assertEquals(converted[3], { role: 'tool', content: '{"weight":"1000000"}', tool_call_id: 'call_1' });
+  });
+
+  await t.step('keeps text-only content as a plain string', () => {
+    const converted = convertMessages([{ role: 'user', content: [{ type: 'text', text: 'hi' }] }], 'sys');
+    assertEquals(converted[1], { role: 'user', content: 'hi' });
+  });
+
+  await t.step('notes images instead of sending them to text-only models', () => {
+    const converted = convertMessages([{
+      role: 'user',
+      content: [
+        { type: 'text', text: 'What is in this logo?' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+      ],
+    }], 'sys', false);
+    assertEquals(converted[1], {
+      role: 'user',
+      content: 'What is in this logo?\n[Attached image (image/png) not supported by this model]',
+    });
+  });
+});
+
+Deno.test('openaiCompatible - convertTools', () => {
+  assertEquals(convertTools([LOOKUP_TOOL]), [{
+    type: 'function',
+    function: {
+      name: 'lookup_rulesets',
+      description: 'Look up a project ruleset',
+      parameters: { type: 'object', properties: { projectId: { type: 'number' } }, required: ['projectId'] },
+    },
+  }]);
+});
+
+// ============================================================================
+// Streaming Tests
+// ============================================================================
+
+Deno.test('openaiCompatible - streamMessageWithTools', async (t) => {
+  await t.step('runs the tool loop and reports total usage', async () => {
+    const stub = startStubServer([
+      // Turn 1: tool call with arguments split across chunks
+      sse([
+        { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_abc', function: { name: 'lookup_rulesets', arguments: '{"project' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'Id":1}' } }] }, finish_reason: 'tool_calls' }] },
+        { choices: [], usage: { prompt_tokens: 120, completion_tokens: 15 } },
+      ]),
+      // Turn 2: final answer
+      sse([
+        { choices: [{ delta: { content: 'Project 1 ' } }] },
+        { choices: [{ delta: { content: 'has no ruleset.' }, finish_reason: 'stop' }] },
+        { choices: [], usage: { prompt_tokens: 160, completion_tokens: 8 } },
+      ]),
+    ]);
+
+    try {
+      const events = await collect(streamMessageWithTools(
+        'chat-1',
+        { messages: [{ role: 'user', content: 'Rulesets for project 1?' }], tools: [LOOKUP_TOOL], includeOmnichainContext: false },
+        undefined,
+        5,
+        stub.endpoint
+      ));
+
+      const text = events.filter(e => e.type === 'text').map(e => e.data).join('');
+      assertEquals(text, 'Project 1 has no ruleset.');
+
+      // Not an omnichain tool, so the result is an error fed back to the model
+      const toolResult = events.find(e => e.type === 'tool_result')?.data as { id: string; error?: string };
+      assertEquals(toolResult.id, 'call_abc');
+      assert(toolResult.error?.includes('Unknown omnichain tool'));
+
+      assertEquals(events[events.length - 1], {
+        type: 'usage',
+        data: { inputTokens: 280, outputTokens: 23, estimated: false, model: 'qwen2.5-7b-instruct' },
+      });
+
+      assertEquals(stub.requests.length, 2);
+      const [first, second] = stub.requests;
+      assertEquals(first.headers.get('authorization'), 'Bearer local-key');
+      assertEquals(first.body.model, 'qwen2.5-7b-instruct');
+      assertEquals(first.body.stream_options, { include_usage: true });
+      assertEquals((first.body.tools as { function: { name: string } }[]).map(tool => tool.function.name), ['lookup_rulesets']);
+
+      const followUp = second.body.messages as { role: string; tool_call_id?: string; tool_calls?: unknown[] }[];
+      assertEquals(followUp[followUp.length - 2].tool_calls?.length, 1);
+      assertEquals(followUp[followUp.length - 1].role, 'tool');
+      assertEquals(followUp[followUp.length - 1].tool_call_id, 'call_abc');
+    } finally {
+      await stub.close();
+    }
+  });
+
+  await t.step('estimates usage when the server does not report it', async () => {
+    const stub = startStubServer([
+      sse([{ choices: [{ delta: { content: 'Hello there' }, finish_reason: 'stop' }] }]),
+    ]);
+
+    try {
+      const events = await collect(streamMessageWithTools(
+        'chat-2',
+        { messages: [{ role: 'user', content: 'Hi' }], includeOmnichainContext: false },
+        undefined,
+        5,
+        { ...stub.endpoint, apiKey: undefined }
+      ));
+
+      assertEquals(stub.requests[0].headers.get('authorization'), null);
+      assertEquals(stub.requests[0].body.tools, undefined);
+
+      const usage = events[events.length - 1].data as { inputTokens: number; outputTokens: number; estimated: boolean };
+      assertEquals(usage.estimated, true);
+      assertEquals(usage.outputTokens, estimateTokens('Hello there'));
+      assert(usage.inputTokens > 0);
+    } finally {
+      await stub.close();
+    }
+  });
+
+  await t.step('keeps a separate rate limit window per named endpoint', async () => {
+    const stub = startStubServer([
+      sse([{ choices: [{ delta: { content: 'Hi' }, finish_reason: 'stop' }] }, { choices: [], usage: { prompt_tokens: 10, completion_tokens: 2 } }]),
+      sse([{ choices: [{ delta: { content: 'Hi' }, finish_reason: 'stop' }] }, { choices: [], usage: { prompt_tokens: 10, completion_tokens: 2 } }]),
+    ]);
+    const request = { messages: [{ role: 'user' as const, content: 'Hi' }], includeOmnichainContext: false };
+
+    try {
+      await collect(streamMessageWithTools('chat-4', request, undefined, 5, { ...stub.endpoint, name: 'Moonshot' }));
+      // A user's own key isn't counted at all
+      await collect(streamMessageWithTools('chat-4', request, undefined, 5, { ...stub.endpoint, name: 'Moonshot', rateLimited: false }));
+
+      assertEquals(getUserUsageStats('chat-4', 'Moonshot').tokens, 12);
+      assertEquals(getUserUsageStats('chat-4', 'Moonshot').requests, 1);
+      assertEquals(getUserUsageStats('chat-4').requests, 0);
+    } finally {
+      await stub.close();
+    }
+  });
+
+  await t.step('surfaces server errors', async () => {
+    const stub = startStubServer([new Response('model not loaded', { status: 503 })]);
+
+    try {
+      let message = '';
+      try {
+        await collect(streamMessageWithTools(
+          'chat-3',
+          { messages: [{ role: 'user', content: 'Hi' }], includeOmnichainContext: false },
+          undefined,
+          5,
+          stub.endpoint
+        ));
+      } catch (error) {
+        message = error instanceof Error ? error.message : '';
+      }
+      assertEquals(message, 'OpenAI-compatible API error: 503 model not loaded');
+    } finally {
+      await stub.close();
+    }
+  });
+});
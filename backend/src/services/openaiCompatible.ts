@@ -0,0 +1,651 @@
+/**
+ * OpenAI-Compatible AI Service
+ *
+ * Targets any server exposing the OpenAI chat-completions API (vLLM,
+ * llama.cpp server, Ollama) for self-hosted deployments. Same interface as
+ * claude.ts, including the tool execution loop. moonshot.ts runs through
+ * here too, with Moonshot's endpoint.
+ */
+
+import { getConfig } from '../utils/config.ts';
+import { OMNICHAIN_CONTEXT, OMNICHAIN_TOOLS } from '../context/omnichain.ts';
+import { SYSTEM_PROMPT } from '@shared/prompts.ts';
+import { recordInvocation } from './aiMetrics.ts';
+import { runToolCall } from './aiToolCalls.ts';
+import type { ChatMessage, ToolDefinition, ClaudeRequest, ClaudeResponse, ToolCall, ToolResult } from './claude.ts';
+
+export interface OpenAICompatibleEndpoint {
+  name?: string; // In errors, logs and rate limit keys; defaults to OpenAI-compatible
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  toolsEnabled?: boolean;
+  imagesEnabled?: boolean; // Send images as content parts (default true)
+  rateLimited?: boolean; // Count requests against the per-user limit (default true)
+}
+
+const DEFAULT_ENDPOINT_NAME = 'OpenAI-compatible';
+
+function getDefaultEndpoint(): OpenAICompatibleEndpoint {
+  const config = getConfig();
+  if (!config.openaiCompatibleBaseUrl) {
+    throw new Error('OPENAI_COMPATIBLE_BASE_URL not configured');
+  }
+  if (!config.openaiCompatibleModel) {
+    throw new Error('OPENAI_COMPATIBLE_MODEL not configured');
+  }
+  return {
+    baseUrl: config.openaiCompatibleBaseUrl,
+    apiKey: config.openaiCompatibleApiKey || undefined,
+    model: config.openaiCompatibleModel,
+    toolsEnabled: config.openaiCompatibleToolsEnabled,
+  };
+}
+
+function completionsUrl(endpoint: OpenAICompatibleEndpoint): string {
+  return `${endpoint.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+}
+
+function buildHeaders(endpoint: OpenAICompatibleEndpoint): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (endpoint.apiKey) {
+    headers['Authorization'] = `Bearer ${endpoint.apiKey}`;
+  }
+  return headers;
+}
+
+// Rough estimate for servers that don't report usage (~4 chars per token)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// ============================================================================
+// Rate Limiting (Simple in-memory implementation)
+// ============================================================================
+
+interface RateLimitEntry {
+  tokens: number;
+  requests: number;
+  windowStart: number;
+}
+
+const rateLimits = new Map<string, RateLimitEntry>();
+
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+const MAX_REQUESTS_PER_WINDOW = 100;
+const MAX_TOKENS_PER_WINDOW = 500_000;
+
+// One window per provider, so Moonshot and a self-hosted server are limited separately
+function getRateLimitKey(userId: string, endpointName = DEFAULT_ENDPOINT_NAME): string {
+  return `${endpointName.toLowerCase()}:rate:${userId}`;
+}
+
+function checkRateLimit(
+  userId: string,
+  endpointName?: string
+): { allowed: boolean; remaining: { requests: number; tokens: number } } {
+  const key = getRateLimitKey(userId, endpointName);
+  const now = Date.now();
+
+  let entry = rateLimits.get(key);
+
+  if (!entry || now - entry.windowStart > RATE_LIMIT_WINDOW_MS) {
+    entry = { tokens: 0, requests: 0, windowStart: now };
+    rateLimits.set(key, entry);
+  }
+
+  const remainingRequests = MAX_REQUESTS_PER_WINDOW - entry.requests;
+  const remainingTokens = MAX_TOKENS_PER_WINDOW - entry.tokens;
+
+  return {
+    allowed: remainingRequests > 0 && remainingTokens > 0,
+    remaining: {
+      requests: Math.max(0, remainingRequests),
+      tokens: Math.max(0, remainingTokens),
+    },
+  };
+}
+
+function recordUsage(userId: string, endpointName: string | undefined, tokensUsed: number): void {
+  const key = getRateLimitKey(userId, endpointName);
+  const entry = rateLimits.get(key);
+
+  if (entry) {
+    entry.requests++;
+    entry.tokens += tokensUsed;
+  }
+}
+
+// ============================================================================
+// Message Format Conversion
+// ============================================================================
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | OpenAIContentPart[] | null;
+  tool_calls?: Array<{
+    id: string;
+    type: 'function';
+    function: {
+      name: string;
+      arguments: string;
+    };
+  }>;
+  tool_call_id?: string;
+}
+
+export interface OpenAITool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: {
+      type: 'object';
+      properties: Record<string, unknown>;
+      required?: string[];
+    };
+  };
+}
+
+export function convertTools(tools: ToolDefinition[]): OpenAITool[] {
+  return tools.map(t => ({
+    type: 'function',
+    function: {
+      name: t.name,
+      description: t.description,
+      parameters: {
+        type: 'object',
+        properties: t.input_schema.properties,
+        required: t.input_schema.required,
+      },
+    },
+  }));
+}
+
+export function convertMessages(
+  messages: ChatMessage[],
+  systemPrompt: string,
+  imagesEnabled = true
+): OpenAIMessage[] {
+  const result: OpenAIMessage[] = [
+    { role: 'system', content: systemPrompt },
+  ];
+
+  for (const msg of messages) {
+    if (typeof msg.content === 'string') {
+      result.push({ role: msg.role, content: msg.content });
+      continue;
+    }
+
+    // Tool results become one 'tool' message each
+    const toolResults = msg.content.filter(
+      (block): block is { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean } =>
+        block.type === 'tool_result'
+    );
+    if (toolResults.length > 0) {
+      for (const tr of toolResults) {
+        result.push({ role: 'tool', content: tr.content, tool_call_id: tr.tool_use_id });
+      }
+      continue;
+    }
+
+    if (msg.role === 'assistant') {
+      const text = msg.content
+        .filter((block): block is { type: 'text'; text: string } => block.type === 'text')
+        .map(block => block.text)
+        .join('\n');
+      const toolUses = msg.content.filter(
+        (block): block is { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> } =>
+          block.type === 'tool_use'
+      );
+
+      result.push({
+        role: 'assistant',
+        content: text || null,
+        ...(toolUses.length > 0 && {
+          tool_calls: toolUses.map(tu => ({
+            id: tu.id,
+            type: 'function' as const,
+            function: { name: tu.name, arguments: JSON.stringify(tu.input) },
+          })),
+        }),
+      });
+      continue;
+    }
+
+    // User content: text and images as content parts (vision models accept
+    // data URLs). Documents have no chat-completions equivalent and are noted
+    // instead, as are images for text-only models.
+    const parts: OpenAIContentPart[] = [];
+    for (const block of msg.content) {
+      if (block.type === 'text') {
+        parts.push({ type: 'text', text: block.text });
+      } else if (block.type === 'image' && !imagesEnabled) {
+        parts.push({ type: 'text', text: `[Attached image (${block.source.media_type}) not supported by this model]` });
+      } else if (block.type === 'image') {
+        parts.push({
+          type: 'image_url',
+          image_url: { url: `data:${block.source.media_type};base64,${block.source.data}` },
+        });
+      } else if (block.type === 'document') {
+        parts.push({ type: 'text', text: `[Attached document (${block.source.media_type}) not supported by this model]` });
+      }
+    }
+
+    if (parts.length > 0) {
+      // Plain string when there are no images - some servers only accept strings
+      const textOnly = parts.every(p => p.type === 'text');
+      result.push({
+        role: 'user',
+        content: textOnly ? parts.map(p => (p as { text: string }).text).join('\n') : parts,
+      });
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Build System Prompt
+// ============================================================================
+
+function buildSystemPrompt(customSystem?: string, includeOmnichain = true): string {
+  const parts: string[] = [];
+
+  parts.push(customSystem || SYSTEM_PROMPT);
+
+  if (includeOmnichain) {
+    parts.push('\n\n---\n\n# Knowledge Base\n');
+    parts.push(OMNICHAIN_CONTEXT);
+  }
+
+  return parts.join('');
+}
+
+function buildRequestBody(
+  request: ClaudeRequest,
+  endpoint: OpenAICompatibleEndpoint,
+  stream: boolean
+): Record<string, unknown> {
+  const includeOmnichain = request.includeOmnichainContext !== false;
+  const systemPrompt = buildSystemPrompt(request.system, includeOmnichain);
+  const allTools = includeOmnichain
+    ? [...(OMNICHAIN_TOOLS as ToolDefinition[]), ...(request.tools ?? [])]
+    : request.tools ?? [];
+
+  const body: Record<string, unknown> = {
+    model: endpoint.model,
+    messages: convertMessages(request.messages, systemPrompt, endpoint.imagesEnabled !== false),
+    max_tokens: request.maxTokens ?? 4096,
+  };
+
+  if (stream) {
+    body.stream = true;
+    // vLLM and Ollama only send usage on the final chunk when asked
+    body.stream_options = { include_usage: true };
+  }
+
+  if (allTools.length > 0 && endpoint.toolsEnabled !== false) {
+    body.tools = convertTools(allTools);
+    body.tool_choice = 'auto';
+  }
+
+  if (request.temperature !== undefined) {
+    body.temperature = request.temperature;
+  }
+
+  return body;
+}
+
+// ============================================================================
+// API Methods
+// ============================================================================
+
+function assertWithinRateLimit(userId: string, endpoint: OpenAICompatibleEndpoint): void {
+  if (endpoint.rateLimited === false) return;
+
+  const rateLimit = checkRateLimit(userId, endpoint.name);
+  if (!rateLimit.allowed) {
+    throw new Error(
+      `Rate limit exceeded. Remaining: ${rateLimit.remaining.requests} requests, ${rateLimit.remaining.tokens} tokens`
+    );
+  }
+}
+
+export async function sendMessage(
+  userId: string,
+  request: ClaudeRequest,
+  endpoint: OpenAICompatibleEndpoint = getDefaultEndpoint()
+): Promise<ClaudeResponse> {
+  assertWithinRateLimit(userId, endpoint);
+
+  const response = await fetch(completionsUrl(endpoint), {
+    method: 'POST',
+    headers: buildHeaders(endpoint),
+    body: JSON.stringify(buildRequestBody(request, endpoint, false)),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`${endpoint.name ?? DEFAULT_ENDPOINT_NAME} API error: ${response.status} ${error}`);
+  }
+
+  const data = await response.json();
+  const choice = data.choices?.[0];
+  const message = choice?.message;
+
+  const inputTokens = data.usage?.prompt_tokens ?? estimateTokens(JSON.stringify(request.messages));
+  const outputTokens = data.usage?.completion_tokens ?? estimateTokens(message?.content ?? '');
+  if (endpoint.rateLimited !== false) {
+    recordUsage(userId, endpoint.name, inputTokens + outputTokens);
+  }
+
+  const toolCalls: ClaudeResponse['toolCalls'] = [];
+  if (message?.tool_calls) {
+    for (const tc of message.tool_calls) {
+      try {
+        toolCalls.push({
+          id: tc.id || `call_${crypto.randomUUID()}`,
+          name: tc.function.name,
+          input: JSON.parse(tc.function.arguments || '{}'),
+        });
+      } catch {
+        // Invalid JSON in tool arguments
+      }
+    }
+  }
+
+  return {
+    content: message?.content ?? '',
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    usage: { inputTokens, outputTokens, model: endpoint.model },
+    stopReason: toolCalls.length > 0 ? 'tool_use' : 'end_turn',
+  };
+}
+
+// Streaming version. The user's BYOK key is never forwarded here; a provider
+// that takes its own users' keys (moonshot.ts) puts it in the endpoint.
+export async function* streamMessage(
+  userId: string,
+  request: ClaudeRequest,
+  _userApiKey?: string,
+  endpoint: OpenAICompatibleEndpoint = getDefaultEndpoint()
+): AsyncGenerator<{ type: 'text' | 'tool_use' | 'usage'; data: unknown }> {
+  assertWithinRateLimit(userId, endpoint);
+
+  const body = buildRequestBody(request, endpoint, true);
+
+  const response = await fetch(completionsUrl(endpoint), {
+    method: 'POST',
+    headers: buildHeaders(endpoint),
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    console.error(`[${endpoint.name ?? DEFAULT_ENDPOINT_NAME}] Error response:`, error);
+    throw new Error(`${endpoint.name ?? DEFAULT_ENDPOINT_NAME} API error: ${response.status} ${error}`);
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response body');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let usageReported = false;
+  let totalTextReceived = '';
+
+  // Track tool calls being built, keyed by index
+  const toolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (!data || data === '[DONE]') continue;
+
+      try {
+        const parsed = JSON.parse(data);
+        const delta = parsed.choices?.[0]?.delta;
+
+        if (delta?.content) {
+          totalTextReceived += delta.content;
+          yield { type: 'text', data: delta.content };
+        }
+
+        if (delta?.tool_calls) {
+          for (const tc of delta.tool_calls) {
+            // Ollama sends each call whole, without an index
+            const idx = tc.index ?? toolCalls.size;
+            if (!toolCalls.has(idx)) {
+              toolCalls.set(idx, { id: '', name: '', arguments: '' });
+            }
+            const current = toolCalls.get(idx)!;
+            if (tc.id) current.id = tc.id;
+            if (tc.function?.name) current.name = tc.function.name;
+            if (tc.function?.arguments) {
+              current.arguments += typeof tc.function.arguments === 'string'
+                ? tc.function.arguments
+                : JSON.stringify(tc.function.arguments);
+            }
+          }
+        }
+
+        if (parsed.usage) {
+          inputTokens = parsed.usage.prompt_tokens ?? 0;
+          outputTokens = parsed.usage.completion_tokens ?? 0;
+          usageReported = true;
+        }
+      } catch (e) {
+        console.error(`[${endpoint.name ?? DEFAULT_ENDPOINT_NAME}] Failed to parse chunk:`, data.slice(0, 200), 'Error:', e);
+      }
+    }
+  }
+
+  let toolCallCount = 0;
+  for (const [, tc] of toolCalls) {
+    if (!tc.name) continue;
+    try {
+      yield {
+        type: 'tool_use',
+        data: { id: tc.id || `call_${crypto.randomUUID()}`, name: tc.name, input: JSON.parse(tc.arguments || '{}') },
+      };
+      toolCallCount++;
+    } catch {
+      // Invalid JSON arguments
+    }
+  }
+
+  if (!usageReported) {
+    inputTokens = estimateTokens(JSON.stringify(body.messages));
+    outputTokens = estimateTokens(totalTextReceived + [...toolCalls.values()].map(tc => tc.arguments).join(''));
+  }
+
+  if (endpoint.rateLimited !== false) {
+    recordUsage(userId, endpoint.name, inputTokens + outputTokens);
+  }
+
+  yield {
+    type: 'usage',
+    data: {
+      inputTokens,
+      outputTokens,
+      estimated: !usageReported,
+      model: endpoint.model,
+      stopReason: toolCallCount > 0 ? 'tool_use' : 'end_turn',
+    },
+  };
+}
+
+// Agentic streaming with tool execution
+export async function* streamMessageWithTools(
+  userId: string,
+  request: ClaudeRequest,
+  userApiKey?: string,
+  maxIterations = 10,
+  endpoint: OpenAICompatibleEndpoint = getDefaultEndpoint()
+): AsyncGenerator<{ type: 'text' | 'tool_use' | 'tool_result' | 'usage' | 'thinking'; data: unknown }> {
+  const messages: ChatMessage[] = [...request.messages];
+
+  const invocationStart = Date.now();
+  const toolsUsed: string[] = [];
+  let fullResponseContent = '';
+
+  let iteration = 0;
+  let totalInputTokens = 0;
+  let totalOutputTokens = 0;
+  let estimated = false;
+
+  while (iteration < maxIterations) {
+    iteration++;
+
+    let textContent = '';
+    const toolCalls: ToolCall[] = [];
+    let stopReason = 'end_turn';
+    let isFirstTextChunkThisTurn = true;
+
+    for await (const event of streamMessage(userId, { ...request, messages }, userApiKey, endpoint)) {
+      if (event.type === 'text') {
+        const textChunk = event.data as string;
+        textContent += textChunk;
+        if (isFirstTextChunkThisTurn && fullResponseContent &&
+            !fullResponseContent.match(/[\s\n]$/) && !textChunk.match(/^[\s\n]/)) {
+          fullResponseContent += ' ';
+          yield { type: 'text', data: ' ' };
+        }
+        isFirstTextChunkThisTurn = false;
+        fullResponseContent += textChunk;
+        yield event;
+      } else if (event.type === 'tool_use') {
+        const toolCall = event.data as ToolCall;
+        toolCalls.push(toolCall);
+        toolsUsed.push(toolCall.name);
+        yield { type: 'thinking', data: `Using tool: ${toolCall.name}` };
+      } else if (event.type === 'usage') {
+        const usage = event.data as { inputTokens: number; outputTokens: number; estimated: boolean; stopReason: string };
+        totalInputTokens += usage.inputTokens;
+        totalOutputTokens += usage.outputTokens;
+        estimated = estimated || usage.estimated;
+        stopReason = usage.stopReason;
+      }
+    }
+
+    if (toolCalls.length === 0 || stopReason !== 'tool_use') {
+      break;
+    }
+
+    // Build assistant message with tool calls
+    const assistantContent: Array<{ type: 'text'; text: string } | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }> = [];
+
+    if (textContent) {
+      assistantContent.push({ type: 'text', text: textContent });
+    }
+
+    for (const tc of toolCalls) {
+      assistantContent.push({
+        type: 'tool_use',
+        id: tc.id,
+        name: tc.name,
+        input: tc.input,
+      });
+    }
+
+    messages.push({
+      role: 'assistant',
+      content: assistantContent as unknown as string,
+    });
+
+    // Execute tools
+    const toolResults: ToolResult[] = [];
+
+    for (const toolCall of toolCalls) {
+      yield { type: 'tool_use', data: toolCall };
+
+      const { result, event } = await runToolCall(toolCall, request.approveToolCall, userId);
+      toolResults.push(result);
+      yield event;
+    }
+
+    // Add tool results
+    messages.push({
+      role: 'user',
+      content: toolResults.map(tr => ({
+        type: 'tool_result',
+        tool_use_id: tr.tool_use_id,
+        content: tr.content,
+        is_error: tr.is_error,
+      })) as unknown as string,
+    });
+  }
+
+  // Record metrics
+  const promptLength = request.messages.reduce((sum, m) => {
+    if (typeof m.content === 'string') return sum + m.content.length;
+    return sum + JSON.stringify(m.content).length;
+  }, 0);
+
+  recordInvocation({
+    chatId: userId,
+    promptLength,
+    responseLength: fullResponseContent.length,
+    totalDurationMs: Date.now() - invocationStart,
+    toolsUsed: [...new Set(toolsUsed)],
+    iterations: iteration,
+    inputTokens: totalInputTokens,
+    outputTokens: totalOutputTokens,
+    success: true,
+  });
+
+  yield {
+    type: 'usage',
+    data: { inputTokens: totalInputTokens, outputTokens: totalOutputTokens, estimated, model: endpoint.model },
+  };
+}
+
+// Usage stats
+export function getUserUsageStats(userId: string, endpointName?: string): {
+  windowStart: Date;
+  requests: number;
+  tokens: number;
+  remaining: { requests: number; tokens: number };
+} {
+  const key = getRateLimitKey(userId, endpointName);
+  const entry = rateLimits.get(key);
+
+  if (!entry) {
+    return {
+      windowStart: new Date(),
+      requests: 0,
+      tokens: 0,
+      remaining: {
+        requests: MAX_REQUESTS_PER_WINDOW,
+        tokens: MAX_TOKENS_PER_WINDOW,
+      },
+    };
+  }
+
+  return {
+    windowStart: new Date(entry.windowStart),
+    requests: entry.requests,
+    tokens: entry.tokens,
+    remaining: {
+      requests: Math.max(0, MAX_REQUESTS_PER_WINDOW - entry.requests),
+      tokens: Math.max(0, MAX_TOKENS_PER_WINDOW - entry.tokens),
+    },
+  };
+}
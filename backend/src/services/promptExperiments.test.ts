@@ -0,0 +1,133 @@
+import { assert, assertEquals } from 'std/assert/mod.ts';
+import {
+  applyPromptVariant,
+  buildVariantReports,
+  getOverriddenModules,
+  pickVariant,
+  validateVariants,
+  PROMPT_MODULES,
+  type PromptVariant,
+  type VariantOutcomes,
+} from './promptExperiments.ts';
+
+const control: PromptVariant = { id: 'control', weight: 1 };
+const shorter: PromptVariant = {
+  id: 'shorter-examples',
+  weight: 1,
+  modules: { EXAMPLE_INTERACTIONS: 'Keep examples short.' },
+};
+
+function makeOutcomes(overrides: Partial<VariantOutcomes> = {}): VariantOutcomes {
+  return {
+    chats: 0,
+    responses: 0,
+    avgContextTokens: null,
+    feedback: {},
+    escalations: 0,
+    escalatedChats: 0,
+    transactionsStarted: 0,
+    transactionsConfirmed: 0,
+    convertedChats: 0,
+    ...overrides,
+  };
+}
+
+Deno.test('promptExperiments - validateVariants', async (t) => {
+  await t.step('accepts a control and a treatment', () => {
+    assertEquals(validateVariants([control, shorter]), null);
+  });
+
+  await t.step('needs at least two variants', () => {
+    assert(validateVariants([control])?.includes('variants'));
+  });
+
+  await t.step('rejects duplicate ids', () => {
+    assertEquals(validateVariants([control, { ...control }]), 'Duplicate variant id "control"');
+  });
+
+  await t.step('rejects ids that are not slugs', () => {
+    assert(validateVariants([control, { ...shorter, id: 'Shorter Examples' }])?.includes('lowercase'));
+  });
+
+  await t.step('rejects non-positive weights', () => {
+    assert(validateVariants([control, { ...shorter, weight: 0 }])?.includes('weight'));
+  });
+
+  await t.step('rejects unknown modules', () => {
+    const variant = { id: 'b', weight: 1, modules: { NOT_A_MODULE: 'x' } } as unknown as PromptVariant;
+    assertEquals(validateVariants([control, variant]), 'Unknown prompt module "NOT_A_MODULE"');
+  });
+});
+
+Deno.test('promptExperiments - getOverriddenModules', () => {
+  assertEquals(getOverriddenModules([control, shorter, { ...shorter, id: 'c' }]), ['EXAMPLE_INTERACTIONS']);
+});
+
+Deno.test('promptExperiments - pickVariant', async (t) => {
+  await t.step('gives a chat the same variant every time', () => {
+    const first = pickVariant([control, shorter], 'exp-1', 'chat-1');
+    for (let i = 0; i < 5; i++) {
+      assertEquals(pickVariant([control, shorter], 'exp-1', 'chat-1'), first);
+    }
+  });
+
+  await t.step('splits chats roughly by weight', () => {
+    const variants = [{ ...control, weight: 3 }, shorter];
+    let controlCount = 0;
+    for (let i = 0; i < 2000; i++) {
+      if (pickVariant(variants, 'exp-1', `chat-${i}`).id === 'control') controlCount++;
+    }
+    assert(controlCount > 1350 && controlCount < 1650, `control got ${controlCount} of 2000`);
+  });
+});
+
+Deno.test('promptExperiments - applyPromptVariant', async (t) => {
+  const prompt = `${PROMPT_MODULES.BASE_PROMPT}\n\n${PROMPT_MODULES.EXAMPLE_INTERACTIONS}`;
+
+  await t.step('leaves the prompt alone for a control variant', () => {
+    assertEquals(applyPromptVariant(prompt, control), prompt);
+  });
+
+  await t.step('swaps a replaced module', () => {
+    assertEquals(
+      applyPromptVariant(prompt, shorter),
+      `${PROMPT_MODULES.BASE_PROMPT}\n\nKeep examples short.`
+    );
+  });
+
+  await t.step('keeps $ patterns in replacement text literal', () => {
+    const variant = { ...shorter, modules: { EXAMPLE_INTERACTIONS: 'Costs $& and $1' } };
+    assert(applyPromptVariant(prompt, variant).endsWith('Costs $& and $1'));
+  });
+
+  await t.step('ignores modules the prompt does not contain', () => {
+    const variant = { ...shorter, modules: { HOOK_DEVELOPER_CONTEXT: 'unused' } };
+    assertEquals(applyPromptVariant(prompt, variant), prompt);
+  });
+
+  await t.step('appends the appendix', () => {
+    assertEquals(applyPromptVariant('Base.', { ...control, appendix: '  Be brief.  ' }), 'Base.\n\nBe brief.');
+  });
+});
+
+Deno.test('promptExperiments - buildVariantReports', async (t) => {
+  await t.step('computes rates in variant order', () => {
+    const outcomes = new Map([
+      ['shorter-examples', makeOutcomes({
+        chats: 10,
+        responses: 40,
+        feedback: { wow: 2, great: 1, bad: 1 },
+        escalations: 4,
+        convertedChats: 3,
+      })],
+    ]);
+
+    const [controlReport, shorterReport] = buildVariantReports([control, shorter], outcomes);
+    assertEquals(controlReport.variantId, 'control');
+    assertEquals(controlReport.chats, 0);
+    assertEquals(controlReport.conversionRate, null);
+    assertEquals(shorterReport.positiveFeedbackRate, 0.75);
+    assertEquals(shorterReport.escalationRate, 0.1);
+    assertEquals(shorterReport.conversionRate, 0.3);
+  });
+});
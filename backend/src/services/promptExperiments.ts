@@ -0,0 +1,586 @@
+/**
+ * Prompt Experiments
+ *
+ * Named A/B trials of system prompt changes. An experiment has two or more
+ * weighted variants; each variant can replace whole prompt modules from
+ * shared/prompts.ts (BASE_PROMPT, TRANSACTION_CONTEXT, ...) and/or append
+ * extra instructions. While an experiment runs, every chat that invokes the
+ * AI is assigned a variant (deterministically from the chat id) and keeps it,
+ * so a conversation never flips between prompts.
+ *
+ * The variant ids used for a response are recorded in context_usage_log, and
+ * the admin report compares variants on what happened in their chats after
+ * assignment: Juicy feedback, AI escalations and completed transactions.
+ *
+ * Lookups never block an AI response - if the experiment tables can't be read
+ * the chat simply gets the unmodified prompt.
+ */
+
+import { query, queryOne, execute } from '../db/index.ts';
+import { logger } from '../utils/logger.ts';
+import {
+  BASE_PROMPT,
+  DATA_QUERY_CONTEXT,
+  HOOK_DEVELOPER_CONTEXT,
+  TRANSACTION_CONTEXT,
+  EXAMPLE_INTERACTIONS,
+} from '@shared/prompts.ts';
+
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 5;
+
+// Prompt modules a variant may replace, by the name used in shared/prompts.ts
+export const PROMPT_MODULES = {
+  BASE_PROMPT,
+  DATA_QUERY_CONTEXT,
+  HOOK_DEVELOPER_CONTEXT,
+  TRANSACTION_CONTEXT,
+  EXAMPLE_INTERACTIONS,
+} as const;
+
+// Feedback ratings counted as positive in the report
+const POSITIVE_RATINGS = new Set(['wow', 'great']);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PromptModuleName = keyof typeof PROMPT_MODULES;
+export type ExperimentStatus = 'draft' | 'running' | 'stopped';
+
+export interface PromptVariant {
+  id: string;
+  description?: string;
+  weight: number;
+  // Replacement text per module; modules not listed stay as shipped
+  modules?: Partial<Record<PromptModuleName, string>>;
+  // Extra instructions added after the base prompt
+  appendix?: string;
+}
+
+export interface PromptExperiment {
+  id: string;
+  name: string;
+  description: string | null;
+  variants: PromptVariant[];
+  status: ExperimentStatus;
+  createdBy: string | null;
+  startedAt: Date | null;
+  stoppedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface ExperimentSummary extends PromptExperiment {
+  assignedChats: number;
+}
+
+// A chat's variant of one running experiment
+export interface AssignedVariant {
+  experimentId: string;
+  experimentName: string;
+  variant: PromptVariant;
+}
+
+export interface VariantOutcomes {
+  chats: number;
+  responses: number;
+  avgContextTokens: number | null;
+  feedback: Record<string, number>;
+  escalations: number;
+  escalatedChats: number;
+  transactionsStarted: number;
+  transactionsConfirmed: number;
+  convertedChats: number;
+}
+
+export interface VariantReport extends VariantOutcomes {
+  variantId: string;
+  description: string | null;
+  weight: number;
+  // Share of rated chats with wow/great
+  positiveFeedbackRate: number | null;
+  // Escalations per AI response
+  escalationRate: number | null;
+  // Share of chats with at least one confirmed transaction
+  conversionRate: number | null;
+}
+
+export interface ExperimentReport {
+  experiment: PromptExperiment;
+  variants: VariantReport[];
+}
+
+interface DbPromptExperiment {
+  id: string;
+  name: string;
+  description: string | null;
+  variants: PromptVariant[];
+  status: ExperimentStatus;
+  created_by: string | null;
+  started_at: Date | null;
+  stopped_at: Date | null;
+  created_at: Date;
+}
+
+function dbToExperiment(row: DbPromptExperiment): PromptExperiment {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    variants: row.variants,
+    status: row.status,
+    createdBy: row.created_by,
+    startedAt: row.started_at,
+    stoppedAt: row.stopped_at,
+    createdAt: row.created_at,
+  };
+}
+
+// ============================================================================
+// Variants (pure)
+// ============================================================================
+
+/**
+ * Check a variant list before it is saved. Returns the problem, or null.
+ */
+export function validateVariants(variants: PromptVariant[]): string | null {
+  if (variants.length < MIN_VARIANTS || variants.length > MAX_VARIANTS) {
+    return `An experiment needs ${MIN_VARIANTS}-${MAX_VARIANTS} variants`;
+  }
+
+  const ids = new Set<string>();
+  for (const variant of variants) {
+    if (!/^[a-z0-9][a-z0-9_-]*$/.test(variant.id)) {
+      return `Variant id "${variant.id}" must be lowercase letters, digits, - or _`;
+    }
+    if (ids.has(variant.id)) {
+      return `Duplicate variant id "${variant.id}"`;
+    }
+    ids.add(variant.id);
+
+    if (!Number.isInteger(variant.weight) || variant.weight <= 0) {
+      return `Variant "${variant.id}" needs a positive whole-number weight`;
+    }
+    for (const name of Object.keys(variant.modules ?? {})) {
+      if (!(name in PROMPT_MODULES)) {
+        return `Unknown prompt module "${name}"`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Modules replaced by any variant of an experiment.
+ */
+export function getOverriddenModules(variants: PromptVariant[]): PromptModuleName[] {
+  const names = new Set<PromptModuleName>();
+  for (const variant of variants) {
+    for (const name of Object.keys(variant.modules ?? {}) as PromptModuleName[]) {
+      names.add(name);
+    }
+  }
+  return [...names];
+}
+
+/**
+ * 32-bit FNV-1a hash, so assignment is stable across instances and restarts.
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Pick a chat's variant by weight. The same chat always gets the same variant
+ * of an experiment; different experiments split chats independently.
+ */
+export function pickVariant(variants: PromptVariant[], experimentId: string, chatId: string): PromptVariant {
+  const totalWeight = variants.reduce((sum, v) => sum + v.weight, 0);
+  let bucket = hashString(`${experimentId}:${chatId}`) % totalWeight;
+
+  for (const variant of variants) {
+    if (bucket < variant.weight) return variant;
+    bucket -= variant.weight;
+  }
+  return variants[variants.length - 1];
+}
+
+/**
+ * Apply a variant to an assembled prompt: each replaced module is swapped
+ * wherever its shipped text appears, then the appendix is added. Modules the
+ * prompt doesn't contain (e.g. TRANSACTION_CONTEXT when sub-modules are
+ * loaded instead) are left alone.
+ */
+export function applyPromptVariant(prompt: string, variant: PromptVariant): string {
+  let result = prompt;
+
+  for (const [name, replacement] of Object.entries(variant.modules ?? {})) {
+    const original = PROMPT_MODULES[name as PromptModuleName];
+    if (original && replacement !== undefined) {
+      result = result.split(original).join(replacement);
+    }
+  }
+
+  if (variant.appendix?.trim()) {
+    result += `\n\n${variant.appendix.trim()}`;
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Assignment
+// ============================================================================
+
+async function getRunningExperiments(): Promise<PromptExperiment[]> {
+  const rows = await query<DbPromptExperiment>(
+    `SELECT * FROM prompt_experiments WHERE status = 'running' ORDER BY started_at`
+  );
+  return rows.map(dbToExperiment);
+}
+
+/**
+ * Variants of every running experiment for a chat, assigning the chat on
+ * first use. Empty (the shipped prompt) if experiments can't be loaded.
+ */
+export async function getPromptVariantsForChat(chatId: string): Promise<AssignedVariant[]> {
+  try {
+    const experiments = await getRunningExperiments();
+    if (experiments.length === 0) return [];
+
+    const existing = await query<{ experiment_id: string; variant_id: string }>(
+      `SELECT experiment_id, variant_id FROM prompt_experiment_assignments
+       WHERE chat_id = $1 AND experiment_id = ANY($2)`,
+      [chatId, experiments.map(e => e.id)]
+    );
+    const assigned = new Map(existing.map(row => [row.experiment_id, row.variant_id]));
+
+    const result: AssignedVariant[] = [];
+    for (const experiment of experiments) {
+      let variant = experiment.variants.find(v => v.id === assigned.get(experiment.id));
+
+      if (!variant) {
+        variant = pickVariant(experiment.variants, experiment.id, chatId);
+        await execute(
+          `INSERT INTO prompt_experiment_assignments (experiment_id, chat_id, variant_id)
+           VALUES ($1, $2, $3)
+           ON CONFLICT (experiment_id, chat_id) DO NOTHING`,
+          [experiment.id, chatId, variant.id]
+        );
+      }
+
+      result.push({ experimentId: experiment.id, experimentName: experiment.name, variant });
+    }
+
+    return result;
+  } catch (error) {
+    logger.warn('Prompt experiments unavailable, using shipped prompt', {
+      chatId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+/**
+ * Variant ids keyed by experiment id, as stored in context_usage_log.
+ */
+export function toVariantMap(assigned: AssignedVariant[]): Record<string, string> {
+  return Object.fromEntries(assigned.map(a => [a.experimentId, a.variant.id]));
+}
+
+// ============================================================================
+// Management
+// ============================================================================
+
+export async function listExperiments(): Promise<ExperimentSummary[]> {
+  const rows = await query<DbPromptExperiment & { assigned_chats: string }>(
+    `SELECT e.*,
+       (SELECT COUNT(*) FROM prompt_experiment_assignments a WHERE a.experiment_id = e.id) AS assigned_chats
+     FROM prompt_experiments e
+     ORDER BY e.created_at DESC`
+  );
+
+  return rows.map(row => ({
+    ...dbToExperiment(row),
+    assignedChats: parseInt(row.assigned_chats, 10),
+  }));
+}
+
+export async function getExperiment(id: string): Promise<PromptExperiment | null> {
+  const row = await queryOne<DbPromptExperiment>(
+    'SELECT * FROM prompt_experiments WHERE id = $1',
+    [id]
+  );
+  return row ? dbToExperiment(row) : null;
+}
+
+export async function createExperiment(params: {
+  name: string;
+  description?: string;
+  variants: PromptVariant[];
+  createdBy?: string;
+}): Promise<PromptExperiment> {
+  const problem = validateVariants(params.variants);
+  if (problem) throw new Error(problem);
+
+  const existing = await queryOne<{ id: string }>(
+    'SELECT id FROM prompt_experiments WHERE name = $1',
+    [params.name]
+  );
+  if (existing) {
+    throw new Error(`An experiment named "${params.name}" already exists`);
+  }
+
+  const row = await queryOne<DbPromptExperiment>(
+    `INSERT INTO prompt_experiments (name, description, variants, created_by)
+     VALUES ($1, $2, $3, $4)
+     RETURNING *`,
+    [params.name, params.description ?? null, JSON.stringify(params.variants), params.createdBy ?? null]
+  );
+
+  if (!row) {
+    throw new Error('Failed to create experiment');
+  }
+
+  return dbToExperiment(row);
+}
+
+/**
+ * Replace a draft experiment's variants. Running and stopped experiments are
+ * frozen so their results stay comparable.
+ */
+export async function updateExperimentVariants(id: string, variants: PromptVariant[]): Promise<PromptExperiment | null> {
+  const experiment = await getExperiment(id);
+  if (!experiment) return null;
+  if (experiment.status !== 'draft') {
+    throw new Error('Only draft experiments can be edited');
+  }
+
+  const problem = validateVariants(variants);
+  if (problem) throw new Error(problem);
+
+  const row = await queryOne<DbPromptExperiment>(
+    'UPDATE prompt_experiments SET variants = $1 WHERE id = $2 RETURNING *',
+    [JSON.stringify(variants), id]
+  );
+  return row ? dbToExperiment(row) : null;
+}
+
+/**
+ * Start a draft experiment. Refuses when a running experiment already
+ * replaces one of the same modules - two trials of one module would make
+ * neither readable.
+ */
+export async function startExperiment(id: string): Promise<PromptExperiment | null> {
+  const experiment = await getExperiment(id);
+  if (!experiment) return null;
+  if (experiment.status !== 'draft') {
+    throw new Error(`Experiment is already ${experiment.status}`);
+  }
+
+  const modules = getOverriddenModules(experiment.variants);
+  for (const running of await getRunningExperiments()) {
+    const overlap = getOverriddenModules(running.variants).filter(name => modules.includes(name));
+    if (overlap.length > 0) {
+      throw new Error(`"${running.name}" is already testing ${overlap.join(', ')}`);
+    }
+  }
+
+  const row = await queryOne<DbPromptExperiment>(
+    `UPDATE prompt_experiments SET status = 'running', started_at = NOW()
+     WHERE id = $1 AND status = 'draft'
+     RETURNING *`,
+    [id]
+  );
+  return row ? dbToExperiment(row) : null;
+}
+
+/**
+ * Stop a running experiment. Its chats go back to the shipped prompt on
+ * their next message; assignments are kept for the report.
+ */
+export async function stopExperiment(id: string): Promise<PromptExperiment | null> {
+  const experiment = await getExperiment(id);
+  if (!experiment) return null;
+  if (experiment.status !== 'running') {
+    throw new Error('Only running experiments can be stopped');
+  }
+
+  const row = await queryOne<DbPromptExperiment>(
+    `UPDATE prompt_experiments SET status = 'stopped', stopped_at = NOW()
+     WHERE id = $1 AND status = 'running'
+     RETURNING *`,
+    [id]
+  );
+  return row ? dbToExperiment(row) : null;
+}
+
+export async function deleteExperiment(id: string): Promise<boolean> {
+  const experiment = await getExperiment(id);
+  if (!experiment) return false;
+  if (experiment.status === 'running') {
+    throw new Error('Stop the experiment before deleting it');
+  }
+
+  const deleted = await execute('DELETE FROM prompt_experiments WHERE id = $1', [id]);
+  return deleted > 0;
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+/**
+ * Combine per-variant outcome counts into the report rows, in the
+ * experiment's variant order.
+ */
+export function buildVariantReports(
+  variants: PromptVariant[],
+  outcomes: Map<string, VariantOutcomes>
+): VariantReport[] {
+  return variants.map(variant => {
+    const o = outcomes.get(variant.id) ?? emptyOutcomes();
+    const rated = Object.values(o.feedback).reduce((sum, n) => sum + n, 0);
+    const positive = Object.entries(o.feedback)
+      .filter(([rating]) => POSITIVE_RATINGS.has(rating))
+      .reduce((sum, [, n]) => sum + n, 0);
+
+    return {
+      variantId: variant.id,
+      description: variant.description ?? null,
+      weight: variant.weight,
+      ...o,
+      positiveFeedbackRate: ratio(positive, rated),
+      escalationRate: ratio(o.escalations, o.responses),
+      conversionRate: ratio(o.convertedChats, o.chats),
+    };
+  });
+}
+
+function emptyOutcomes(): VariantOutcomes {
+  return {
+    chats: 0,
+    responses: 0,
+    avgContextTokens: null,
+    feedback: {},
+    escalations: 0,
+    escalatedChats: 0,
+    transactionsStarted: 0,
+    transactionsConfirmed: 0,
+    convertedChats: 0,
+  };
+}
+
+/**
+ * Outcomes per variant, counting only what happened in a chat after it was
+ * assigned. Response counts come from context_usage_log, which keeps the
+ * last 100 responses per chat, so very long chats are undercounted.
+ */
+export async function getExperimentReport(id: string): Promise<ExperimentReport | null> {
+  const experiment = await getExperiment(id);
+  if (!experiment) return null;
+
+  const outcomes = new Map<string, VariantOutcomes>();
+  const outcomesFor = (variantId: string) => {
+    let o = outcomes.get(variantId);
+    if (!o) {
+      o = emptyOutcomes();
+      outcomes.set(variantId, o);
+    }
+    return o;
+  };
+
+  const chats = await query<{ variant_id: string; chats: string }>(
+    `SELECT variant_id, COUNT(*) AS chats
+     FROM prompt_experiment_assignments
+     WHERE experiment_id = $1
+     GROUP BY variant_id`,
+    [id]
+  );
+  for (const row of chats) {
+    outcomesFor(row.variant_id).chats = parseInt(row.chats, 10);
+  }
+
+  // Each response logs the variants it was actually built with, so responses
+  // after the experiment stopped don't name it and need no time bound
+  const responses = await query<{ variant_id: string; responses: string; avg_tokens: string | null }>(
+    `SELECT prompt_variants->>$1 AS variant_id, COUNT(*) AS responses, AVG(total_tokens) AS avg_tokens
+     FROM context_usage_log
+     WHERE prompt_variants ? $1
+     GROUP BY 1`,
+    [id]
+  );
+  for (const row of responses) {
+    const o = outcomesFor(row.variant_id);
+    o.responses = parseInt(row.responses, 10);
+    o.avgContextTokens = row.avg_tokens ? Math.round(parseFloat(row.avg_tokens)) : null;
+  }
+
+  // Outcomes count from assignment until the experiment stopped; after that
+  // chats are back on the shipped prompt
+  const feedback = await query<{ variant_id: string; rating: string; count: string }>(
+    `SELECT a.variant_id, f.rating, COUNT(*) AS count
+     FROM prompt_experiment_assignments a
+     JOIN prompt_experiments x ON x.id = a.experiment_id
+     JOIN juicy_feedback f ON f.chat_id = a.chat_id AND f.created_at >= a.assigned_at
+       AND (x.stopped_at IS NULL OR f.created_at < x.stopped_at)
+     WHERE a.experiment_id = $1
+     GROUP BY a.variant_id, f.rating`,
+    [id]
+  );
+  for (const row of feedback) {
+    outcomesFor(row.variant_id).feedback[row.rating] = parseInt(row.count, 10);
+  }
+
+  const escalations = await query<{ variant_id: string; escalations: string; chats: string }>(
+    `SELECT a.variant_id, COUNT(*) AS escalations, COUNT(DISTINCT e.chat_id) AS chats
+     FROM prompt_experiment_assignments a
+     JOIN prompt_experiments x ON x.id = a.experiment_id
+     JOIN ai_escalations e ON e.chat_id = a.chat_id AND e.created_at >= a.assigned_at
+       AND (x.stopped_at IS NULL OR e.created_at < x.stopped_at)
+     WHERE a.experiment_id = $1
+     GROUP BY a.variant_id`,
+    [id]
+  );
+  for (const row of escalations) {
+    const o = outcomesFor(row.variant_id);
+    o.escalations = parseInt(row.escalations, 10);
+    o.escalatedChats = parseInt(row.chats, 10);
+  }
+
+  const transactions = await query<{ variant_id: string; started: string; confirmed: string; chats: string }>(
+    `SELECT a.variant_id,
+       COUNT(*) AS started,
+       COUNT(*) FILTER (WHERE t.status = 'confirmed') AS confirmed,
+       COUNT(DISTINCT t.chat_id) FILTER (WHERE t.status = 'confirmed') AS chats
+     FROM prompt_experiment_assignments a
+     JOIN prompt_experiments x ON x.id = a.experiment_id
+     JOIN transactions t ON t.chat_id = a.chat_id AND t.created_at >= a.assigned_at
+       AND (x.stopped_at IS NULL OR t.created_at < x.stopped_at)
+     WHERE a.experiment_id = $1
+     GROUP BY a.variant_id`,
+    [id]
+  );
+  for (const row of transactions) {
+    const o = outcomesFor(row.variant_id);
+    o.transactionsStarted = parseInt(row.started, 10);
+    o.transactionsConfirmed = parseInt(row.confirmed, 10);
+    o.convertedChats = parseInt(row.chats, 10);
+  }
+
+  return {
+    experiment,
+    variants: buildVariantReports(experiment.variants, outcomes),
+  };
+}
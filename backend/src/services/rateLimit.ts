@@ -39,6 +39,9 @@ export const RATE_LIMITS = {
   juicePurchase: { limit: 10, windowSeconds: 3600 }, // 10 purchases/hour
   juiceSpend: { limit: 20, windowSeconds: 3600 }, // 20 spends/hour
   juiceCashOut: { limit: 5, windowSeconds: 3600 }, // 5 cash outs/hour
+  juiceTransfer: { limit: 10, windowSeconds: 3600 }, // 10 transfers or gift code batches/hour
+  juiceGiftRedeem: { limit: 10, windowSeconds: 3600 }, // 10 redeem attempts/hour (slows code guessing)
+  recurringPayment: { limit: 10, windowSeconds: 3600 }, // 10 new recurring payments/hour
 
   // Auth endpoints
   authOtpRequest: { limit: 5, windowSeconds: 300 }, // 5 OTP requests/5 min
@@ -0,0 +1,193 @@
+/**
+ * Recurring Payments Integration Tests
+ *
+ * Tests the cron path for Juice-funded schedules:
+ * - Each due period is claimed once, even by overlapping cron runs
+ * - Failed periods are retried and pause the schedule after repeated failures
+ * - A resumed, overdue schedule runs on the next pass
+ *
+ * These tests require a running database connection.
+ */
+
+import { assert, assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { query, queryOne, execute } from '../db/index.ts';
+import { SKIP_DB_TESTS } from '../test/helpers.ts';
+import {
+  createRecurringPayment,
+  getNextRunAt,
+  pauseRecurringPayment,
+  processRecurringPayments,
+  resumeRecurringPayment,
+} from './recurringPayments.ts';
+
+// ============================================================================
+// Test Setup
+// ============================================================================
+
+const USER_ID = '00000000-0000-0000-0000-000000000031';
+
+async function ensureTestUserExists(): Promise<void> {
+  await execute(
+    `INSERT INTO users (id, email, email_verified, privacy_mode)
+     VALUES ($1, $2, true, 'open_book')
+     ON CONFLICT (id) DO NOTHING`,
+    [USER_ID, `test-${USER_ID.slice(-4)}@juice.test`]
+  );
+}
+
+async function cleanupTestData(): Promise<void> {
+  // Schedules cascade to their runs
+  await execute(`DELETE FROM recurring_payments WHERE user_id = $1`, [USER_ID]);
+  await execute(`DELETE FROM juice_spends WHERE user_id = $1`, [USER_ID]);
+  await execute(`DELETE FROM juice_balances WHERE user_id = $1`, [USER_ID]);
+}
+
+async function setBalance(balance: number): Promise<void> {
+  await execute(
+    `INSERT INTO juice_balances (user_id, balance) VALUES ($1, $2)
+     ON CONFLICT (user_id) DO UPDATE SET balance = $2`,
+    [USER_ID, balance]
+  );
+}
+
+// A monthly $10 schedule, due now
+async function createSchedule(): Promise<string> {
+  const recurring = await createRecurringPayment({
+    userId: USER_ID,
+    projectId: 1,
+    chainId: 42161,
+    beneficiaryAddress: '0x000000000000000000000000000000000000dEaD',
+    amount: 10,
+    interval: 'monthly',
+    fundingSource: 'juice',
+  });
+  return recurring.id;
+}
+
+async function getRuns(recurringPaymentId: string): Promise<{ status: string; error_message: string | null }[]> {
+  return await query(
+    `SELECT status, error_message FROM recurring_payment_runs
+     WHERE recurring_payment_id = $1
+     ORDER BY created_at`,
+    [recurringPaymentId]
+  );
+}
+
+async function getSchedule(recurringPaymentId: string) {
+  return (await queryOne<{
+    status: string;
+    pause_reason: string | null;
+    next_run_at: Date;
+    anchor_day: number;
+    consecutive_failures: number;
+  }>(
+    `SELECT status, pause_reason, next_run_at, anchor_day, consecutive_failures
+     FROM recurring_payments WHERE id = $1`,
+    [recurringPaymentId]
+  ))!;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+Deno.test({
+  ignore: SKIP_DB_TESTS,
+  name: 'Recurring Payments Integration - Overlapping cron runs charge a period once',
+  // First test initializes DB pool, which opens TCP connections
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await ensureTestUserExists();
+    await cleanupTestData();
+    await setBalance(100);
+    const id = await createSchedule();
+    const { next_run_at: scheduledAt, anchor_day: anchorDay } = await getSchedule(id);
+
+    await Promise.all([processRecurringPayments(), processRecurringPayments()]);
+    await processRecurringPayments();
+
+    assertEquals((await getRuns(id)).map((r) => r.status), ['queued']);
+
+    const balance = await queryOne<{ balance: string }>(
+      `SELECT balance FROM juice_balances WHERE user_id = $1`,
+      [USER_ID]
+    );
+    assertEquals(parseFloat(balance!.balance), 90);
+
+    const schedule = await getSchedule(id);
+    assertEquals(
+      new Date(schedule.next_run_at).toISOString(),
+      getNextRunAt(new Date(scheduledAt), 'monthly', anchorDay).toISOString()
+    );
+
+    await cleanupTestData();
+  },
+});
+
+Deno.test({
+  ignore: SKIP_DB_TESTS,
+  name: 'Recurring Payments Integration - Failed periods retry later and pause after three',
+  async fn() {
+    await ensureTestUserExists();
+    await cleanupTestData();
+    await setBalance(10);
+    const id = await createSchedule();
+    await setBalance(0);
+
+    await processRecurringPayments();
+
+    let schedule = await getSchedule(id);
+    assertEquals(schedule.status, 'active');
+    assertEquals(schedule.consecutive_failures, 1);
+    // Retried in a day, not on the next pass
+    assert(new Date(schedule.next_run_at).getTime() > Date.now() + 23 * 60 * 60 * 1000);
+
+    for (let i = 0; i < 2; i++) {
+      await execute(`UPDATE recurring_payments SET next_run_at = NOW() WHERE id = $1`, [id]);
+      await processRecurringPayments();
+    }
+
+    schedule = await getSchedule(id);
+    assertEquals(schedule.status, 'paused');
+    assert(schedule.pause_reason?.startsWith('Paused after 3 failed payments'));
+
+    const runs = await getRuns(id);
+    assertEquals(runs.map((r) => r.status), ['failed', 'failed', 'failed']);
+    assertEquals(runs[0].error_message, 'Insufficient Juice balance');
+
+    await cleanupTestData();
+  },
+});
+
+Deno.test({
+  ignore: SKIP_DB_TESTS,
+  name: 'Recurring Payments Integration - A resumed overdue schedule runs on the next pass',
+  async fn() {
+    await ensureTestUserExists();
+    await cleanupTestData();
+    await setBalance(100);
+    const id = await createSchedule();
+
+    await pauseRecurringPayment(id, USER_ID);
+    await execute(
+      `UPDATE recurring_payments SET next_run_at = NOW() - INTERVAL '3 days' WHERE id = $1`,
+      [id]
+    );
+
+    // Paused schedules are skipped
+    await processRecurringPayments();
+    assertEquals((await getRuns(id)).length, 0);
+
+    // Resuming moves the overdue run to now (with sub-millisecond precision)
+    await resumeRecurringPayment(id, USER_ID);
+    await processRecurringPayments();
+
+    assertEquals((await getRuns(id)).map((r) => r.status), ['queued']);
+    const schedule = await getSchedule(id);
+    assertEquals(schedule.status, 'active');
+    assert(new Date(schedule.next_run_at).getTime() > Date.now());
+
+    await cleanupTestData();
+  },
+});
@@ -0,0 +1,50 @@
+import { assertEquals } from 'std/assert/mod.ts';
+import { getNextRunAt } from './recurringPayments.ts';
+
+const iso = (date: Date) => date.toISOString();
+
+// ============================================================================
+// Scheduling Tests
+// ============================================================================
+
+Deno.test('recurringPayments - getNextRunAt', async (t) => {
+  await t.step('weekly adds seven days', () => {
+    const next = getNextRunAt(new Date('2026-03-02T15:30:00Z'), 'weekly');
+    assertEquals(iso(next), '2026-03-09T15:30:00.000Z');
+  });
+
+  await t.step('weekly crosses month and year boundaries', () => {
+    const next = getNextRunAt(new Date('2026-12-29T00:00:00Z'), 'weekly');
+    assertEquals(iso(next), '2027-01-05T00:00:00.000Z');
+  });
+
+  await t.step('monthly keeps the day of month', () => {
+    const next = getNextRunAt(new Date('2026-03-15T09:00:00Z'), 'monthly');
+    assertEquals(iso(next), '2026-04-15T09:00:00.000Z');
+  });
+
+  await t.step('monthly clamps to the end of shorter months', () => {
+    assertEquals(iso(getNextRunAt(new Date('2026-01-31T12:00:00Z'), 'monthly')), '2026-02-28T12:00:00.000Z');
+    assertEquals(iso(getNextRunAt(new Date('2028-01-31T12:00:00Z'), 'monthly')), '2028-02-29T12:00:00.000Z');
+    assertEquals(iso(getNextRunAt(new Date('2026-03-31T12:00:00Z'), 'monthly')), '2026-04-30T12:00:00.000Z');
+  });
+
+  await t.step('monthly returns to the anchor day after a short month', () => {
+    const feb = getNextRunAt(new Date('2026-01-31T12:00:00Z'), 'monthly', 31);
+    assertEquals(iso(feb), '2026-02-28T12:00:00.000Z');
+    const mar = getNextRunAt(feb, 'monthly', 31);
+    assertEquals(iso(mar), '2026-03-31T12:00:00.000Z');
+    assertEquals(iso(getNextRunAt(mar, 'monthly', 31)), '2026-04-30T12:00:00.000Z');
+  });
+
+  await t.step('monthly uses the anchor day, not the day it ran', () => {
+    // A retried period that ran a day late stays on the anchor day
+    const next = getNextRunAt(new Date('2026-05-16T12:00:00Z'), 'monthly', 15);
+    assertEquals(iso(next), '2026-06-15T12:00:00.000Z');
+  });
+
+  await t.step('monthly rolls over the year', () => {
+    const next = getNextRunAt(new Date('2026-12-10T00:00:00Z'), 'monthly');
+    assertEquals(iso(next), '2027-01-10T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,561 @@
+/**
+ * Recurring Payments Service
+ *
+ * Weekly or monthly contributions to a project, funded either from the
+ * supporter's Juice balance or a Stripe subscription.
+ *
+ * Juice-funded schedules are run by cron: each due period becomes a normal
+ * Juice spend, which processSpends then executes on-chain. Stripe-funded
+ * schedules are billed by Stripe; each paid invoice becomes a pending fiat
+ * payment and goes through the settlement pipeline.
+ */
+
+import { query, queryOne, execute, transaction } from '../db/index.ts';
+import { logger } from '../utils/logger.ts';
+import { spendJuice, getBalance, DEFAULT_OPERATING_CHAIN } from './juice.ts';
+
+// Pause a Juice-funded schedule after this many failed periods in a row
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+// Hours to wait before retrying a failed Juice-funded period
+const RETRY_DELAY_HOURS = 24;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RecurringInterval = 'weekly' | 'monthly';
+export type FundingSource = 'juice' | 'stripe';
+export type RecurringStatus = 'incomplete' | 'active' | 'paused' | 'cancelled';
+
+export interface RecurringPayment {
+  id: string;
+  userId: string;
+  projectId: number;
+  chainId: number;
+  beneficiaryAddress: string;
+  memo: string | null;
+  amount: number;
+  interval: RecurringInterval;
+  fundingSource: FundingSource;
+  stripeSubscriptionId: string | null;
+  status: RecurringStatus;
+  pauseReason: string | null;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  createdAt: Date;
+}
+
+export interface RecurringPaymentRun {
+  id: string;
+  amount: number;
+  status: 'queued' | 'failed';
+  // Execution status of the linked Juice spend or fiat payment
+  paymentStatus: string | null;
+  txHash: string | null;
+  errorMessage: string | null;
+  createdAt: Date;
+}
+
+interface DbRecurringPayment {
+  id: string;
+  user_id: string;
+  project_id: number;
+  chain_id: number;
+  beneficiary_address: string;
+  memo: string | null;
+  amount: string;
+  interval: RecurringInterval;
+  funding_source: FundingSource;
+  stripe_subscription_id: string | null;
+  status: RecurringStatus;
+  pause_reason: string | null;
+  next_run_at: Date | null;
+  last_run_at: Date | null;
+  anchor_day: number | null;
+  consecutive_failures: number;
+  created_at: Date;
+}
+
+function dbToRecurringPayment(row: DbRecurringPayment): RecurringPayment {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    projectId: row.project_id,
+    chainId: row.chain_id,
+    beneficiaryAddress: row.beneficiary_address,
+    memo: row.memo,
+    amount: parseFloat(row.amount),
+    interval: row.interval,
+    fundingSource: row.funding_source,
+    stripeSubscriptionId: row.stripe_subscription_id,
+    status: row.status,
+    pauseReason: row.pause_reason,
+    nextRunAt: row.next_run_at ? new Date(row.next_run_at) : null,
+    lastRunAt: row.last_run_at ? new Date(row.last_run_at) : null,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+/**
+ * Next run after `from`. Monthly schedules run on their anchor day (the day
+ * of month they started, defaulting to `from`'s) and fall back to the last
+ * day of shorter months: Jan 31 → Feb 28 → Mar 31.
+ */
+export function getNextRunAt(
+  from: Date,
+  interval: RecurringInterval,
+  anchorDay: number = from.getUTCDate()
+): Date {
+  const next = new Date(from);
+
+  if (interval === 'weekly') {
+    next.setUTCDate(next.getUTCDate() + 7);
+    return next;
+  }
+
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + 1);
+  const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(anchorDay, lastDay));
+  return next;
+}
+
+// ============================================================================
+// Schedule Management
+// ============================================================================
+
+/**
+ * Create a recurring payment. Juice-funded schedules start active and run
+ * their first period on the next cron pass; Stripe-funded schedules stay
+ * incomplete until the subscription checkout completes.
+ */
+export async function createRecurringPayment(params: {
+  userId: string;
+  projectId: number;
+  chainId?: number;
+  beneficiaryAddress: string;
+  memo?: string;
+  amount: number;
+  interval: RecurringInterval;
+  fundingSource: FundingSource;
+}): Promise<RecurringPayment> {
+  if (params.fundingSource === 'juice') {
+    const balance = await getBalance(params.userId);
+    if (balance.balance < params.amount) {
+      throw new Error('Insufficient Juice balance for the first payment');
+    }
+  }
+
+  const isJuice = params.fundingSource === 'juice';
+  const now = new Date();
+
+  const row = await queryOne<DbRecurringPayment>(
+    `INSERT INTO recurring_payments (
+      user_id, project_id, chain_id, beneficiary_address, memo,
+      amount, interval, funding_source, status, next_run_at, anchor_day
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    RETURNING *`,
+    [
+      params.userId,
+      params.projectId,
+      params.chainId || DEFAULT_OPERATING_CHAIN,
+      params.beneficiaryAddress,
+      params.memo || null,
+      params.amount,
+      params.interval,
+      params.fundingSource,
+      isJuice ? 'active' : 'incomplete',
+      isJuice ? now : null,
+      now.getUTCDate(),
+    ]
+  );
+
+  logger.info('Recurring payment created', {
+    recurringPaymentId: row!.id,
+    userId: params.userId,
+    projectId: params.projectId,
+    amount: params.amount,
+    interval: params.interval,
+    fundingSource: params.fundingSource,
+  });
+
+  return dbToRecurringPayment(row!);
+}
+
+/**
+ * Remember the Checkout Session that will start a Stripe-funded schedule
+ */
+export async function attachStripeCheckoutSession(
+  recurringPaymentId: string,
+  checkoutSessionId: string
+): Promise<void> {
+  await execute(
+    `UPDATE recurring_payments
+     SET stripe_checkout_session_id = $1
+     WHERE id = $2`,
+    [checkoutSessionId, recurringPaymentId]
+  );
+}
+
+/**
+ * Activate a Stripe-funded schedule once its subscription exists
+ */
+export async function activateStripeSubscription(params: {
+  recurringPaymentId: string;
+  stripeSubscriptionId: string;
+}): Promise<void> {
+  const updated = await execute(
+    `UPDATE recurring_payments
+     SET stripe_subscription_id = $1, status = 'active'
+     WHERE id = $2 AND status = 'incomplete'`,
+    [params.stripeSubscriptionId, params.recurringPaymentId]
+  );
+
+  if (updated === 0) {
+    logger.warn('Recurring payment not awaiting subscription', params);
+    return;
+  }
+
+  logger.info('Recurring payment subscription activated', params);
+}
+
+export async function getRecurringPayment(
+  recurringPaymentId: string,
+  userId: string
+): Promise<RecurringPayment | null> {
+  const row = await queryOne<DbRecurringPayment>(
+    `SELECT * FROM recurring_payments WHERE id = $1 AND user_id = $2`,
+    [recurringPaymentId, userId]
+  );
+  return row ? dbToRecurringPayment(row) : null;
+}
+
+export async function getRecurringPaymentBySubscription(
+  stripeSubscriptionId: string
+): Promise<RecurringPayment | null> {
+  const row = await queryOne<DbRecurringPayment>(
+    `SELECT * FROM recurring_payments WHERE stripe_subscription_id = $1`,
+    [stripeSubscriptionId]
+  );
+  return row ? dbToRecurringPayment(row) : null;
+}
+
+/**
+ * Get a user's recurring payments (abandoned Stripe checkouts are hidden)
+ */
+export async function getUserRecurringPayments(userId: string): Promise<RecurringPayment[]> {
+  const rows = await query<DbRecurringPayment>(
+    `SELECT * FROM recurring_payments
+     WHERE user_id = $1 AND status <> 'incomplete'
+     ORDER BY (status = 'cancelled'), created_at DESC`,
+    [userId]
+  );
+  return rows.map(dbToRecurringPayment);
+}
+
+/**
+ * Get the payment history of one schedule
+ */
+export async function getRecurringPaymentRuns(
+  recurringPaymentId: string,
+  userId: string,
+  limit = 50
+): Promise<RecurringPaymentRun[]> {
+  const rows = await query<{
+    id: string;
+    amount: string;
+    status: 'queued' | 'failed';
+    spend_status: string | null;
+    spend_tx_hash: string | null;
+    fiat_status: string | null;
+    fiat_tx_hash: string | null;
+    error_message: string | null;
+    created_at: Date;
+  }>(
+    `SELECT r.id, r.amount, r.status, r.error_message, r.created_at,
+            s.status as spend_status, s.tx_hash as spend_tx_hash,
+            p.status as fiat_status, p.settlement_tx_hash as fiat_tx_hash
+     FROM recurring_payment_runs r
+     JOIN recurring_payments rp ON rp.id = r.recurring_payment_id
+     LEFT JOIN juice_spends s ON s.id = r.juice_spend_id
+     LEFT JOIN pending_fiat_payments p ON p.id = r.pending_fiat_payment_id
+     WHERE r.recurring_payment_id = $1 AND rp.user_id = $2
+     ORDER BY r.created_at DESC
+     LIMIT $3`,
+    [recurringPaymentId, userId, limit]
+  );
+
+  return rows.map((r) => ({
+    id: r.id,
+    amount: parseFloat(r.amount),
+    status: r.status,
+    paymentStatus: r.spend_status ?? r.fiat_status,
+    txHash: r.spend_tx_hash ?? r.fiat_tx_hash,
+    errorMessage: r.error_message,
+    createdAt: new Date(r.created_at),
+  }));
+}
+
+/**
+ * Pause an active schedule
+ */
+export async function pauseRecurringPayment(
+  recurringPaymentId: string,
+  userId: string
+): Promise<void> {
+  const updated = await execute(
+    `UPDATE recurring_payments
+     SET status = 'paused', pause_reason = 'Paused by supporter'
+     WHERE id = $1 AND user_id = $2 AND status = 'active'`,
+    [recurringPaymentId, userId]
+  );
+
+  if (updated === 0) {
+    throw new Error('Recurring payment not found or not active');
+  }
+
+  logger.info('Recurring payment paused', { recurringPaymentId, userId });
+}
+
+/**
+ * Resume a paused schedule. A Juice-funded period that fell due while
+ * paused runs on the next cron pass rather than being made up.
+ */
+export async function resumeRecurringPayment(
+  recurringPaymentId: string,
+  userId: string
+): Promise<void> {
+  const updated = await execute(
+    `UPDATE recurring_payments
+     SET status = 'active',
+         pause_reason = NULL,
+         consecutive_failures = 0,
+         next_run_at = CASE
+           WHEN funding_source = 'juice' THEN GREATEST(COALESCE(next_run_at, NOW()), NOW())
+           ELSE next_run_at
+         END
+     WHERE id = $1 AND user_id = $2 AND status = 'paused'`,
+    [recurringPaymentId, userId]
+  );
+
+  if (updated === 0) {
+    throw new Error('Recurring payment not found or not paused');
+  }
+
+  logger.info('Recurring payment resumed', { recurringPaymentId, userId });
+}
+
+/**
+ * Cancel a schedule. Past runs are kept for history.
+ */
+export async function cancelRecurringPayment(
+  recurringPaymentId: string,
+  userId: string
+): Promise<void> {
+  const updated = await execute(
+    `UPDATE recurring_payments
+     SET status = 'cancelled', cancelled_at = NOW(), next_run_at = NULL
+     WHERE id = $1 AND user_id = $2 AND status <> 'cancelled'`,
+    [recurringPaymentId, userId]
+  );
+
+  if (updated === 0) {
+    throw new Error('Recurring payment not found or already cancelled');
+  }
+
+  logger.info('Recurring payment cancelled', { recurringPaymentId, userId });
+}
+
+// ============================================================================
+// Stripe Subscription Events
+// ============================================================================
+
+/**
+ * Record one Stripe invoice against its schedule. Idempotent per invoice, so
+ * a failed attempt is overwritten when Stripe's retry succeeds.
+ */
+export async function recordStripeInvoiceRun(params: {
+  recurringPaymentId: string;
+  stripeInvoiceId: string;
+  amount: number;
+  pendingFiatPaymentId?: string;
+  errorMessage?: string;
+}): Promise<void> {
+  const status = params.pendingFiatPaymentId ? 'queued' : 'failed';
+
+  await execute(
+    `INSERT INTO recurring_payment_runs (
+      recurring_payment_id, amount, pending_fiat_payment_id, stripe_invoice_id, status, error_message
+    ) VALUES ($1, $2, $3, $4, $5, $6)
+    ON CONFLICT (stripe_invoice_id) DO UPDATE
+    SET pending_fiat_payment_id = EXCLUDED.pending_fiat_payment_id,
+        status = EXCLUDED.status,
+        error_message = EXCLUDED.error_message`,
+    [
+      params.recurringPaymentId,
+      params.amount,
+      params.pendingFiatPaymentId || null,
+      params.stripeInvoiceId,
+      status,
+      params.errorMessage || null,
+    ]
+  );
+
+  if (status === 'queued') {
+    await execute(
+      `UPDATE recurring_payments SET last_run_at = NOW() WHERE id = $1`,
+      [params.recurringPaymentId]
+    );
+  }
+}
+
+/**
+ * Mark a Stripe-funded schedule cancelled after Stripe ends the subscription
+ * (cancelled from our side, by Stripe after failed retries, or in the dashboard)
+ */
+export async function markSubscriptionCancelled(stripeSubscriptionId: string): Promise<void> {
+  await execute(
+    `UPDATE recurring_payments
+     SET status = 'cancelled', cancelled_at = COALESCE(cancelled_at, NOW())
+     WHERE stripe_subscription_id = $1 AND status <> 'cancelled'`,
+    [stripeSubscriptionId]
+  );
+}
+
+// ============================================================================
+// Cron Processing
+// ============================================================================
+
+/**
+ * Claim a schedule's due period by moving next_run_at on, under a row lock
+ * so overlapping cron runs can't double-charge. Returns the schedule as it
+ * was before the claim, or null if it's no longer due or another run has it.
+ */
+async function claimDuePeriod(id: string): Promise<DbRecurringPayment | null> {
+  return await transaction(async (client) => {
+    const result = await client.queryObject<DbRecurringPayment>(
+      `SELECT * FROM recurring_payments
+       WHERE id = $1 AND status = 'active' AND funding_source = 'juice' AND next_run_at <= NOW()
+       FOR UPDATE SKIP LOCKED`,
+      [id]
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+
+    // Advance from the scheduled time to keep the cadence, but never into the
+    // past (e.g. after downtime or a resume) so missed periods aren't charged in a burst
+    const anchorDay = row.anchor_day ?? undefined;
+    let nextRunAt = getNextRunAt(new Date(row.next_run_at!), row.interval, anchorDay);
+    if (nextRunAt <= new Date()) {
+      nextRunAt = getNextRunAt(new Date(), row.interval, anchorDay);
+    }
+
+    await client.queryObject(
+      `UPDATE recurring_payments SET next_run_at = $1, last_run_at = NOW() WHERE id = $2`,
+      [nextRunAt, id]
+    );
+
+    return row;
+  });
+}
+
+/**
+ * Queue Juice spends for schedules that are due. The spends are executed
+ * on-chain by processSpends like any other Juice payment.
+ */
+export async function processRecurringPayments(): Promise<{
+  queued: number;
+  failed: number;
+  paused: number;
+}> {
+  const due = await query<{ id: string }>(
+    `SELECT id FROM recurring_payments
+     WHERE status = 'active'
+     AND funding_source = 'juice'
+     AND next_run_at <= NOW()
+     ORDER BY next_run_at ASC
+     LIMIT 100`
+  );
+
+  let queued = 0;
+  let failed = 0;
+  let paused = 0;
+
+  for (const { id } of due) {
+    const row = await claimDuePeriod(id);
+    if (!row) continue;
+
+    const amount = parseFloat(row.amount);
+
+    try {
+      const spendId = await spendJuice({
+        userId: row.user_id,
+        amount,
+        projectId: row.project_id,
+        chainId: row.chain_id,
+        beneficiaryAddress: row.beneficiary_address,
+        memo: row.memo || undefined,
+      });
+
+      await execute(
+        `INSERT INTO recurring_payment_runs (recurring_payment_id, amount, juice_spend_id, status)
+         VALUES ($1, $2, $3, 'queued')`,
+        [row.id, amount, spendId]
+      );
+
+      await execute(
+        `UPDATE recurring_payments SET consecutive_failures = 0 WHERE id = $1`,
+        [row.id]
+      );
+
+      queued++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const failures = row.consecutive_failures + 1;
+      const shouldPause = failures >= MAX_CONSECUTIVE_FAILURES;
+
+      const retryAt = new Date();
+      retryAt.setHours(retryAt.getHours() + RETRY_DELAY_HOURS);
+
+      await execute(
+        `INSERT INTO recurring_payment_runs (recurring_payment_id, amount, status, error_message)
+         VALUES ($1, $2, 'failed', $3)`,
+        [row.id, amount, message]
+      );
+
+      await execute(
+        `UPDATE recurring_payments
+         SET consecutive_failures = $1,
+             next_run_at = $2,
+             status = CASE WHEN $3 THEN 'paused' ELSE status END,
+             pause_reason = CASE WHEN $3 THEN $4 ELSE pause_reason END
+         WHERE id = $5`,
+        [
+          failures,
+          retryAt,
+          shouldPause,
+          `Paused after ${failures} failed payments: ${message}`,
+          row.id,
+        ]
+      );
+
+      logger.warn('Recurring payment period failed', {
+        recurringPaymentId: row.id,
+        userId: row.user_id,
+        failures,
+        paused: shouldPause,
+        error: message,
+      });
+
+      failed++;
+      if (shouldPause) paused++;
+    }
+  }
+
+  return { queued, failed, paused };
+}
@@ -0,0 +1,181 @@
+import { assertEquals, assert } from 'std/assert/mod.ts';
+import {
+  scorePaymentRisk,
+  calculateSettlementDelayDays,
+  type RiskSignals,
+} from './riskScore.ts';
+
+const makeSignals = (overrides: Partial<RiskSignals> = {}): RiskSignals => ({
+  radar: { riskScore: 30, riskLevel: 'normal', outcomeType: 'authorized', cardCountry: 'US' },
+  amountUsd: 50,
+  accountAgeDays: 60,
+  passkeyVerified: false,
+  siweVerified: false,
+  priorDisputes: 0,
+  settledPayments: 0,
+  largestSettledUsd: 0,
+  usualCountry: 'US',
+  ...overrides,
+});
+
+const factorKeys = (signals: RiskSignals) => scorePaymentRisk(signals).factors.map((f) => f.factor);
+
+// ============================================================================
+// Delay Tier Tests
+// ============================================================================
+
+Deno.test('riskScore - calculateSettlementDelayDays', async (t) => {
+  await t.step('maps score bands to delay tiers', () => {
+    assertEquals(calculateSettlementDelayDays(0), 0);
+    assertEquals(calculateSettlementDelayDays(20), 0);
+    assertEquals(calculateSettlementDelayDays(21), 7);
+    assertEquals(calculateSettlementDelayDays(40), 7);
+    assertEquals(calculateSettlementDelayDays(60), 30);
+    assertEquals(calculateSettlementDelayDays(80), 60);
+    assertEquals(calculateSettlementDelayDays(100), 120);
+  });
+});
+
+// ============================================================================
+// Scoring Tests
+// ============================================================================
+
+Deno.test('riskScore - scorePaymentRisk', async (t) => {
+  await t.step('uses Radar score as the baseline', () => {
+    const result = scorePaymentRisk(makeSignals());
+
+    assertEquals(result.score, 30);
+    assertEquals(result.delayDays, 7);
+    assertEquals(result.radarScore, 30);
+  });
+
+  await t.step('assumes medium risk when Radar has no score', () => {
+    const result = scorePaymentRisk(makeSignals({
+      radar: { riskScore: null, riskLevel: null, outcomeType: null, cardCountry: null },
+    }));
+
+    assertEquals(result.score, 50);
+    assertEquals(result.radarScore, null);
+  });
+
+  await t.step('penalizes new and guest accounts', () => {
+    assertEquals(scorePaymentRisk(makeSignals({ accountAgeDays: 0.5 })).score, 45);
+    assertEquals(scorePaymentRisk(makeSignals({ accountAgeDays: 3 })).score, 40);
+    assertEquals(scorePaymentRisk(makeSignals({ accountAgeDays: null })).score, 40);
+  });
+
+  await t.step('rewards passkey and SIWE verification', () => {
+    const result = scorePaymentRisk(makeSignals({ passkeyVerified: true, siweVerified: true }));
+
+    assertEquals(result.score, 15);
+    assertEquals(result.delayDays, 0);
+  });
+
+  await t.step('prior disputes add up to 60 points', () => {
+    assertEquals(scorePaymentRisk(makeSignals({ priorDisputes: 1 })).score, 60);
+    assertEquals(scorePaymentRisk(makeSignals({ priorDisputes: 5 })).score, 90);
+  });
+
+  await t.step('flags card country mismatches', () => {
+    const signals = makeSignals({
+      radar: { riskScore: 30, riskLevel: 'normal', outcomeType: 'authorized', cardCountry: 'NG' },
+    });
+
+    assertEquals(scorePaymentRisk(signals).score, 40);
+    assert(factorKeys(signals).includes('geo'));
+  });
+
+  await t.step('ignores geo when either country is unknown', () => {
+    assert(!factorKeys(makeSignals({ usualCountry: null })).includes('geo'));
+  });
+
+  await t.step('scales with payment size', () => {
+    assertEquals(scorePaymentRisk(makeSignals({ amountUsd: 10 })).score, 25);
+    assertEquals(scorePaymentRisk(makeSignals({ amountUsd: 150 })).score, 35);
+    assertEquals(scorePaymentRisk(makeSignals({ amountUsd: 600 })).score, 40);
+    assertEquals(scorePaymentRisk(makeSignals({ amountUsd: 5000 })).score, 45);
+  });
+
+  await t.step('adds Radar level and review penalties', () => {
+    const result = scorePaymentRisk(makeSignals({
+      radar: { riskScore: 60, riskLevel: 'elevated', outcomeType: 'manual_review', cardCountry: 'US' },
+    }));
+
+    assertEquals(result.score, 85);
+    assertEquals(result.delayDays, 120);
+  });
+
+  await t.step('clamps to 0-100', () => {
+    const high = scorePaymentRisk(makeSignals({
+      radar: { riskScore: 95, riskLevel: 'highest', outcomeType: 'manual_review', cardCountry: 'US' },
+      priorDisputes: 3,
+    }));
+    const low = scorePaymentRisk(makeSignals({
+      radar: { riskScore: 0, riskLevel: 'normal', outcomeType: 'authorized', cardCountry: 'US' },
+      passkeyVerified: true,
+      siweVerified: true,
+      accountAgeDays: 400,
+      amountUsd: 5,
+    }));
+
+    assertEquals(high.score, 100);
+    assertEquals(low.score, 0);
+  });
+
+  await t.step('records every adjustment as a factor', () => {
+    const result = scorePaymentRisk(makeSignals({ accountAgeDays: 3, passkeyVerified: true }));
+    const total = result.factors.reduce((sum, f) => sum + f.points, 0);
+
+    assertEquals(total, result.score);
+    assertEquals(result.factors.map((f) => f.factor), ['radar_score', 'account_age', 'passkey']);
+  });
+});
+
+// ============================================================================
+// Trusted Supporter Tests
+// ============================================================================
+
+Deno.test('riskScore - trusted repeat supporters', async (t) => {
+  const repeat = {
+    settledPayments: 5,
+    largestSettledUsd: 200,
+    radar: { riskScore: 45, riskLevel: 'normal', outcomeType: 'authorized', cardCountry: 'US' },
+  };
+
+  await t.step('settle immediately', () => {
+    const result = scorePaymentRisk(makeSignals(repeat));
+
+    assertEquals(result.score, 20);
+    assertEquals(result.delayDays, 0);
+    assert(result.factors.some((f) => f.factor === 'trusted'));
+  });
+
+  await t.step('not for payments well above their history', () => {
+    const result = scorePaymentRisk(makeSignals({ ...repeat, amountUsd: 900 }));
+
+    assert(result.delayDays > 0);
+    assert(!result.factors.some((f) => f.factor === 'trusted'));
+  });
+
+  await t.step('not after a dispute', () => {
+    const result = scorePaymentRisk(makeSignals({ ...repeat, priorDisputes: 1 }));
+
+    assert(result.delayDays > 0);
+  });
+
+  await t.step('not when Radar is elevated', () => {
+    const result = scorePaymentRisk(makeSignals({
+      ...repeat,
+      radar: { riskScore: 45, riskLevel: 'elevated', outcomeType: 'authorized', cardCountry: 'US' },
+    }));
+
+    assert(result.delayDays > 0);
+  });
+
+  await t.step('need at least three settled payments', () => {
+    const result = scorePaymentRisk(makeSignals({ ...repeat, settledPayments: 2 }));
+
+    assertEquals(result.score, 40);
+    assertEquals(result.delayDays, 7);
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Payment Risk Scoring Service
+ *
+ * Scores fiat payments 0-100 (higher = riskier) to pick a per-payment
+ * settlement delay. Stripe Radar's score is the baseline, adjusted by what we
+ * know about the payer: account age, passkey/SIWE verification, prior
+ * disputes, settlement history, geo consistency and payment size.
+ *
+ * Every adjustment is recorded as a factor so admins can see why a payment
+ * landed in its tier before overriding it.
+ */
+
+import { queryOne } from '../db/index.ts';
+import { logger } from '../utils/logger.ts';
+import { getLatestUserCountry } from './geo.ts';
+
+// ============================================================================
+// Settlement Tiers
+// ============================================================================
+
+// Risk score thresholds for settlement delay
+const RISK_THRESHOLDS = {
+  IMMEDIATE: 20,     // 0-20: settle immediately
+  SHORT_DELAY: 40,   // 21-40: 7 days
+  MEDIUM_DELAY: 60,  // 41-60: 30 days
+  LONG_DELAY: 80,    // 61-80: 60 days
+  MAX_DELAY: 100,    // 81-100: 120 days
+};
+
+// Radar score assumed when the charge has no outcome
+const DEFAULT_RADAR_SCORE = 50;
+
+// Settled payments needed before a payer counts as a repeat supporter
+const TRUSTED_MIN_SETTLED = 3;
+
+// Trusted payers settle immediately up to this multiple of their largest settled payment
+const TRUSTED_AMOUNT_MULTIPLIER = 2;
+const TRUSTED_MIN_AMOUNT_USD = 100;
+
+/**
+ * Calculate settlement delay in days based on risk score
+ * Lower risk = faster settlement, higher risk = longer delay
+ */
+export function calculateSettlementDelayDays(riskScore: number): number {
+  if (riskScore <= RISK_THRESHOLDS.IMMEDIATE) {
+    return 0; // Immediate settlement
+  }
+  if (riskScore <= RISK_THRESHOLDS.SHORT_DELAY) {
+    return 7;
+  }
+  if (riskScore <= RISK_THRESHOLDS.MEDIUM_DELAY) {
+    return 30;
+  }
+  if (riskScore <= RISK_THRESHOLDS.LONG_DELAY) {
+    return 60;
+  }
+  return 120; // Maximum protection
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RadarSignals {
+  riskScore: number | null;
+  riskLevel: string | null;     // 'normal' | 'elevated' | 'highest'
+  outcomeType: string | null;   // 'authorized' | 'manual_review' | ...
+  cardCountry: string | null;   // ISO country of the card issuer
+}
+
+export interface RiskSignals {
+  radar: RadarSignals;
+  amountUsd: number;
+  accountAgeDays: number | null; // null for guest checkout
+  passkeyVerified: boolean;
+  siweVerified: boolean;
+  priorDisputes: number;
+  settledPayments: number;
+  largestSettledUsd: number;
+  usualCountry: string | null;
+}
+
+export interface RiskFactor {
+  factor: string;
+  label: string;
+  points: number;
+}
+
+export interface RiskAssessment {
+  score: number;
+  delayDays: number;
+  radarScore: number | null;
+  factors: RiskFactor[];
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Score a payment from its collected signals
+ */
+export function scorePaymentRisk(signals: RiskSignals): RiskAssessment {
+  const factors: RiskFactor[] = [];
+  const add = (factor: string, label: string, points: number) => {
+    if (points !== 0) factors.push({ factor, label, points });
+  };
+
+  // Stripe Radar baseline
+  const { radar } = signals;
+  if (radar.riskScore !== null) {
+    add('radar_score', `Stripe Radar score ${radar.riskScore}`, radar.riskScore);
+  } else {
+    add('radar_score', 'No Stripe Radar score', DEFAULT_RADAR_SCORE);
+  }
+  if (radar.riskLevel === 'elevated') {
+    add('radar_level', 'Radar risk level elevated', 10);
+  } else if (radar.riskLevel === 'highest') {
+    add('radar_level', 'Radar risk level highest', 25);
+  }
+  if (radar.outcomeType === 'manual_review') {
+    add('radar_review', 'Radar flagged for manual review', 15);
+  }
+
+  // Account age
+  const age = signals.accountAgeDays;
+  if (age === null) {
+    add('account_age', 'Guest checkout', 10);
+  } else if (age < 1) {
+    add('account_age', 'Account created today', 15);
+  } else if (age < 7) {
+    add('account_age', `Account ${Math.floor(age)} days old`, 10);
+  } else if (age < 30) {
+    add('account_age', `Account ${Math.floor(age)} days old`, 5);
+  } else if (age >= 180) {
+    add('account_age', 'Account older than 6 months', -5);
+  }
+
+  // Verification
+  if (signals.passkeyVerified) {
+    add('passkey', 'Passkey registered', -10);
+  }
+  if (signals.siweVerified) {
+    add('siwe', 'Wallet verified with Sign-In with Ethereum', -5);
+  }
+
+  // Payment history
+  if (signals.priorDisputes > 0) {
+    add(
+      'disputes',
+      `${signals.priorDisputes} prior dispute${signals.priorDisputes === 1 ? '' : 's'}`,
+      Math.min(signals.priorDisputes * 30, 60)
+    );
+  }
+  if (signals.settledPayments >= TRUSTED_MIN_SETTLED) {
+    add('history', `${signals.settledPayments} settled payments`, -15);
+  } else if (signals.settledPayments > 0) {
+    add('history', `${signals.settledPayments} settled payment${signals.settledPayments === 1 ? '' : 's'}`, -5);
+  }
+
+  // Geo consistency
+  if (
+    radar.cardCountry &&
+    signals.usualCountry &&
+    radar.cardCountry.toUpperCase() !== signals.usualCountry.toUpperCase()
+  ) {
+    add('geo', `Card issued in ${radar.cardCountry}, usually seen in ${signals.usualCountry}`, 10);
+  }
+
+  // Payment size
+  if (signals.amountUsd >= 1000) {
+    add('amount', `Large payment ($${signals.amountUsd.toFixed(2)})`, 15);
+  } else if (signals.amountUsd >= 500) {
+    add('amount', `Large payment ($${signals.amountUsd.toFixed(2)})`, 10);
+  } else if (signals.amountUsd >= 100) {
+    add('amount', `Payment over $100`, 5);
+  } else if (signals.amountUsd < 25) {
+    add('amount', `Small payment ($${signals.amountUsd.toFixed(2)})`, -5);
+  }
+
+  let score = clampScore(factors.reduce((sum, f) => sum + f.points, 0));
+
+  // Repeat supporters with a clean record don't wait, as long as the payment
+  // is in line with what they've paid before and Radar isn't worried
+  const trustedLimit = Math.max(
+    signals.largestSettledUsd * TRUSTED_AMOUNT_MULTIPLIER,
+    TRUSTED_MIN_AMOUNT_USD
+  );
+  const isTrusted =
+    signals.settledPayments >= TRUSTED_MIN_SETTLED &&
+    signals.priorDisputes === 0 &&
+    (radar.riskLevel === null || radar.riskLevel === 'normal') &&
+    radar.outcomeType !== 'manual_review' &&
+    signals.amountUsd <= trustedLimit;
+
+  if (isTrusted && score > RISK_THRESHOLDS.IMMEDIATE) {
+    add('trusted', 'Trusted repeat supporter', RISK_THRESHOLDS.IMMEDIATE - score);
+    score = RISK_THRESHOLDS.IMMEDIATE;
+  }
+
+  return {
+    score,
+    delayDays: calculateSettlementDelayDays(score),
+    radarScore: radar.riskScore,
+    factors,
+  };
+}
+
+function clampScore(score: number): number {
+  return Math.min(RISK_THRESHOLDS.MAX_DELAY, Math.max(0, Math.round(score)));
+}
+
+// ============================================================================
+// Signal Collection
+// ============================================================================
+
+/**
+ * Collect account, verification and history signals for a payer.
+ * Guest payments (no userId) are matched on the card's Stripe fingerprint.
+ * The beneficiary address is chosen by the payer, so it can add risk (its
+ * disputes) but never earns trust.
+ */
+export async function gatherRiskSignals(params: {
+  userId: string | null;
+  beneficiaryAddress: string | null;
+  cardFingerprint: string | null;
+  amountUsd: number;
+  radar: RadarSignals;
+}): Promise<RiskSignals> {
+  const { userId, beneficiaryAddress, cardFingerprint } = params;
+
+  const [account, history, siwe, usualCountry] = await Promise.all([
+    userId
+      ? queryOne<{ age_days: number; passkey_enabled: boolean; passkey_count: number }>(
+          `SELECT
+             EXTRACT(EPOCH FROM (NOW() - u.created_at)) / 86400 as age_days,
+             u.passkey_enabled,
+             (SELECT COUNT(*)::int FROM passkey_credentials pc WHERE pc.user_id = u.id) as passkey_count
+           FROM users u
+           WHERE u.id = $1`,
+          [userId]
+        )
+      : Promise.resolve(null),
+    queryOne<{ disputes: number; settled: number; largest_settled_usd: string | null }>(
+      `SELECT
+         (SELECT COUNT(*)::int
+          FROM fiat_payment_disputes d
+          JOIN pending_fiat_payments p ON p.id = d.pending_payment_id
+          WHERE ($1::uuid IS NOT NULL AND p.user_id = $1)
+             OR p.card_fingerprint = $3
+             OR LOWER(p.beneficiary_address) = LOWER($2)) as disputes,
+         COUNT(*) FILTER (WHERE status = 'settled')::int as settled,
+         MAX(amount_usd) FILTER (WHERE status = 'settled') as largest_settled_usd
+       FROM pending_fiat_payments
+       WHERE ($1::uuid IS NOT NULL AND user_id = $1)
+          OR card_fingerprint = $3`,
+      [userId, beneficiaryAddress, cardFingerprint]
+    ),
+    userId
+      ? queryOne<{ verified: boolean }>(
+          `SELECT EXISTS (
+             SELECT 1 FROM wallet_sessions ws
+             WHERE ws.siwe_signature IS NOT NULL
+             AND LOWER(ws.wallet_address) IN (
+               SELECT LOWER(la.primary_address) FROM linked_addresses la WHERE la.user_id = $1
+             )
+           ) as verified`,
+          [userId]
+        )
+      : Promise.resolve(null),
+    userId ? getLatestUserCountry(userId) : Promise.resolve(null),
+  ]);
+
+  return {
+    radar: params.radar,
+    amountUsd: params.amountUsd,
+    accountAgeDays: account ? Number(account.age_days) : null,
+    passkeyVerified: !!account && (account.passkey_enabled || account.passkey_count > 0),
+    siweVerified: siwe?.verified ?? false,
+    priorDisputes: history?.disputes ?? 0,
+    settledPayments: history?.settled ?? 0,
+    largestSettledUsd: history?.largest_settled_usd ? parseFloat(history.largest_settled_usd) : 0,
+    usualCountry,
+  };
+}
+
+/**
+ * Score a new fiat payment. Falls back to Radar alone if signal collection
+ * fails, so a database hiccup never blocks recording the payment.
+ */
+export async function assessPaymentRisk(params: {
+  userId: string | null;
+  beneficiaryAddress: string | null;
+  cardFingerprint: string | null;
+  amountUsd: number;
+  radar: RadarSignals;
+}): Promise<RiskAssessment> {
+  try {
+    const signals = await gatherRiskSignals(params);
+    return scorePaymentRisk(signals);
+  } catch (error) {
+    logger.error('Failed to gather risk signals, using Radar score only', error as Error, {
+      userId: params.userId,
+    });
+
+    const score = clampScore(params.radar.riskScore ?? DEFAULT_RADAR_SCORE);
+    return {
+      score,
+      delayDays: calculateSettlementDelayDays(score),
+      radarScore: params.radar.riskScore,
+      factors: [{ factor: 'radar_score', label: 'Stripe Radar score only (signals unavailable)', points: score }],
+    };
+  }
+}
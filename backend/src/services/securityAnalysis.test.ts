@@ -1,4 +1,14 @@
 import { assertEquals, assert, assertExists } from 'std/assert/mod.ts';
+import {
+  analysisCompleted,
+  buildAnalyzerDockerArgs,
+  getFindingCategory,
+  hookRulesCompleted,
+  mergeFindings,
+  parseAderynReport,
+  parseSlitherOutput,
+  type SecurityFinding,
+} from './securityAnalysis.ts';
 
 // ============================================================================
 // Severity Tests
@@ -247,6 +257,33 @@ Deno.test('securityAnalysis - Deployment Checks', async (t) => {
     assertEquals(canDeploy as boolean, true);
   });
 
+  await t.step('requires the Juicebox hook rules to have completed', () => {
+    assertEquals(hookRulesCompleted([
+      { tool: 'custom', status: 'completed', findingCount: 0 },
+      { tool: 'juicebox', status: 'completed', findingCount: 0 },
+    ]), true);
+    assertEquals(hookRulesCompleted([
+      { tool: 'custom', status: 'completed', findingCount: 0 },
+      { tool: 'juicebox', status: 'skipped', findingCount: 0 },
+    ]), false);
+    assertEquals(hookRulesCompleted([
+      { tool: 'juicebox', status: 'failed', findingCount: 0, error: 'Compilation failed' },
+    ]), false);
+    assertEquals(hookRulesCompleted([]), false);
+  });
+
+  await t.step('blocks deployment when an enabled tool failed', () => {
+    assertEquals(analysisCompleted([
+      { tool: 'juicebox', status: 'completed', findingCount: 0 },
+      { tool: 'slither', status: 'failed', findingCount: 0, error: 'Timed out after 180s' },
+    ]), false);
+    assertEquals(analysisCompleted([
+      { tool: 'juicebox', status: 'completed', findingCount: 0 },
+      { tool: 'slither', status: 'skipped', findingCount: 0 },
+      { tool: 'aderyn', status: 'completed', findingCount: 2 },
+    ]), true);
+  });
+
   await t.step('warns about missing tests', () => {
     const files = [
       { path: 'src/MyHook.sol', content: 'contract MyHook {}' },
@@ -344,3 +381,187 @@ Deno.test('securityAnalysis - Analysis Tools', async (t) => {
     assert(tools.includes('custom'));
   });
 });
+
+// ============================================================================
+// Slither & Aderyn Output Tests
+// ============================================================================
+
+Deno.test('securityAnalysis - parseSlitherOutput', async (t) => {
+  const output = JSON.stringify({
+    success: true,
+    error: null,
+    results: {
+      detectors: [
+        {
+          check: 'reentrancy-eth',
+          impact: 'High',
+          confidence: 'High',
+          description: 'Reentrancy in PayHook.afterPayRecordedWith(JBAfterPayRecordedContext)\n',
+          elements: [
+            {
+              type: 'function',
+              name: 'afterPayRecordedWith',
+              source_mapping: { filename_relative: 'src/PayHook.sol', lines: [20, 21, 22], starting_column: 5 },
+            },
+          ],
+        },
+        {
+          check: 'timestamp',
+          impact: 'Low',
+          confidence: 'Medium',
+          description: 'Uses timestamp for comparisons',
+          elements: [],
+        },
+      ],
+    },
+  });
+
+  await t.step('maps detectors to findings at their first element', () => {
+    const [reentrancy] = parseSlitherOutput(output);
+    assertEquals(reentrancy.tool, 'slither');
+    assertEquals(reentrancy.ruleId, 'reentrancy-eth');
+    assertEquals(reentrancy.title, 'Reentrancy Eth');
+    assertEquals(reentrancy.file, 'src/PayHook.sol');
+    assertEquals(reentrancy.line, 20);
+    assertEquals(reentrancy.endLine, 22);
+    assertEquals(reentrancy.message, 'Reentrancy in PayHook.afterPayRecordedWith(JBAfterPayRecordedContext)');
+  });
+
+  await t.step('grades confident high-impact results critical', () => {
+    const [reentrancy, timestamp] = parseSlitherOutput(output);
+    assertEquals(reentrancy.severity, 'critical');
+    assertEquals(timestamp.severity, 'low');
+  });
+
+  await t.step('throws the Slither error when it failed', () => {
+    let message = '';
+    try {
+      parseSlitherOutput(JSON.stringify({ success: false, error: 'Compilation failed', results: {} }));
+    } catch (error) {
+      message = (error as Error).message;
+    }
+    assertEquals(message, 'Compilation failed');
+  });
+});
+
+Deno.test('securityAnalysis - parseAderynReport', () => {
+  const findings = parseAderynReport(JSON.stringify({
+    high_issues: {
+      issues: [{
+        title: 'Unprotected initializer',
+        description: 'Anyone can call initialize.',
+        detector_name: 'unprotected-initializer',
+        instances: [
+          { contract_path: 'src/PayHook.sol', line_no: 12, hint: 'function initialize()' },
+          { contract_path: 'src/CashOutHook.sol', line_no: 9 },
+        ],
+      }],
+    },
+    low_issues: {
+      issues: [{
+        title: 'Solidity pragma should be specific',
+        description: 'Lock the pragma.',
+        detector_name: 'unspecific-solidity-pragma',
+        instances: [{ contract_path: 'src/PayHook.sol', line_no: 2 }],
+      }],
+    },
+  }));
+
+  assertEquals(findings.length, 3);
+  assertEquals(findings.map((f) => f.severity), ['high', 'high', 'low']);
+  assertEquals(findings[0].code, 'function initialize()');
+  assertEquals(findings[1].file, 'src/CashOutHook.sol');
+  assert(findings.every((f) => f.tool === 'aderyn'));
+});
+
+Deno.test('securityAnalysis - buildAnalyzerDockerArgs', async (t) => {
+  await t.step('sandboxes the container like forge jobs', () => {
+    const args = buildAnalyzerDockerArgs('slither', '/tmp/slither_1', 'slither_1');
+    assertEquals(args[args.indexOf('--network') + 1], 'none');
+    assert(args.includes('--read-only'));
+    assert(args.includes('/tmp/slither_1:/app'));
+  });
+
+  await t.step('asks Slither for JSON on stdout', () => {
+    const args = buildAnalyzerDockerArgs('slither', '/tmp/slither_1', 'slither_1');
+    assertEquals(args[args.indexOf('--json') + 1], '-');
+  });
+
+  await t.step('has Aderyn write a JSON report', () => {
+    const args = buildAnalyzerDockerArgs('aderyn', '/tmp/aderyn_1', 'aderyn_1');
+    assert(args[args.indexOf('--output') + 1].endsWith('.json'));
+  });
+});
+
+// ============================================================================
+// Merging Tests
+// ============================================================================
+
+function makeFinding(overrides: Partial<SecurityFinding>): SecurityFinding {
+  return {
+    id: 'f',
+    tool: 'juicebox',
+    ruleId: 'jb-reentrancy-hook',
+    severity: 'high',
+    title: 'Potential Reentrancy in Hook',
+    message: 'External call in hook function.',
+    file: 'src/PayHook.sol',
+    line: 22,
+    ...overrides,
+  };
+}
+
+Deno.test('securityAnalysis - getFindingCategory', async (t) => {
+  await t.step('groups rule ids of different tools', () => {
+    assertEquals(getFindingCategory('jb-reentrancy-hook'), 'reentrancy');
+    assertEquals(getFindingCategory('reentrancy-no-eth'), 'reentrancy');
+    assertEquals(getFindingCategory('sol-selfdestruct'), 'selfdestruct');
+    assertEquals(getFindingCategory('suicidal'), 'selfdestruct');
+  });
+
+  await t.step('returns null for tool-specific rules', () => {
+    assertEquals(getFindingCategory('jb-missing-interface'), null);
+  });
+});
+
+Deno.test('securityAnalysis - mergeFindings', async (t) => {
+  await t.step('merges the same issue from several tools into the most severe', () => {
+    const merged = mergeFindings([
+      makeFinding({ id: 'juicebox-1', fix: 'Use ReentrancyGuard.' }),
+      makeFinding({ id: 'slither-1', tool: 'slither', ruleId: 'reentrancy-eth', severity: 'critical', line: 20 }),
+      makeFinding({ id: 'aderyn-1', tool: 'aderyn', ruleId: 'reentrancy-state-change', line: 21 }),
+    ]);
+
+    assertEquals(merged.length, 1);
+    assertEquals(merged[0].id, 'slither-1');
+    assertEquals(merged[0].severity, 'critical');
+    assertEquals(merged[0].alsoReportedBy, ['aderyn', 'juicebox']);
+    assertEquals(merged[0].fix, 'Use ReentrancyGuard.');
+  });
+
+  await t.step('keeps the same issue class far apart or in other files', () => {
+    const merged = mergeFindings([
+      makeFinding({ id: 'a' }),
+      makeFinding({ id: 'b', tool: 'slither', ruleId: 'reentrancy-eth', line: 80 }),
+      makeFinding({ id: 'c', tool: 'slither', ruleId: 'reentrancy-eth', file: 'src/Other.sol' }),
+    ]);
+    assertEquals(merged.length, 3);
+  });
+
+  await t.step('drops exact duplicates from one tool', () => {
+    const merged = mergeFindings([
+      makeFinding({ id: 'a', tool: 'semgrep', ruleId: 'solidity.unique-rule' }),
+      makeFinding({ id: 'b', tool: 'semgrep', ruleId: 'solidity.unique-rule' }),
+    ]);
+    assertEquals(merged.length, 1);
+    assertEquals(merged[0].alsoReportedBy, undefined);
+  });
+
+  await t.step('sorts by severity', () => {
+    const merged = mergeFindings([
+      makeFinding({ id: 'low', ruleId: 'jb-missing-interface', severity: 'low', line: 1 }),
+      makeFinding({ id: 'critical', ruleId: 'jb-terminal-validation', severity: 'critical', line: 40 }),
+    ]);
+    assertEquals(merged.map((f) => f.id), ['critical', 'low']);
+  });
+});
@@ -1,12 +1,18 @@
 import { query, queryOne, execute } from '../db/index.ts';
 import { getConfig } from '../utils/config.ts';
+import { compileSourceAsts, generateFoundryConfig } from './forge.ts';
+import { scanHookAsts } from './hookAstRules.ts';
 
 // ============================================================================
 // Types
 // ============================================================================
 
 export type Severity = 'critical' | 'high' | 'medium' | 'low' | 'info';
-export type AnalysisTool = 'semgrep' | 'slither' | 'custom';
+// 'juicebox' = Juicebox hook rules on the solc AST, 'custom' = general Solidity pattern rules
+export type AnalysisTool = 'semgrep' | 'slither' | 'aderyn' | 'juicebox' | 'custom';
+
+// Tool recorded on a stored analysis; 'combined' rows hold the merged result of every tool
+export type StoredAnalysisTool = AnalysisTool | 'combined';
 
 export interface SecurityFinding {
   id: string;
@@ -22,6 +28,16 @@ export interface SecurityFinding {
   code?: string;
   fix?: string;
   references?: string[];
+  // Other tools that reported the same issue (set when findings are merged)
+  alsoReportedBy?: AnalysisTool[];
+}
+
+export interface ToolRun {
+  tool: AnalysisTool;
+  status: 'completed' | 'skipped' | 'failed';
+  findingCount: number;
+  durationMs?: number;
+  error?: string;
 }
 
 export interface AnalysisSummary {
@@ -35,91 +51,24 @@ export interface AnalysisSummary {
 export interface SecurityAnalysisResult {
   id: string;
   projectId: string;
-  tool: AnalysisTool;
+  tool: StoredAnalysisTool;
   findings: SecurityFinding[];
   summary: AnalysisSummary;
+  // Per-tool status, for combined analyses
+  toolRuns: ToolRun[];
   createdAt: Date;
 }
 
 interface DbSecurityAnalysis {
   id: string;
   project_id: string;
-  tool: AnalysisTool;
+  tool: StoredAnalysisTool;
   findings: SecurityFinding[];
   summary: AnalysisSummary;
+  tool_runs: ToolRun[] | null;
   created_at: Date;
 }
 
-// ============================================================================
-// Juicebox-Specific Security Rules
-// ============================================================================
-
-const JUICEBOX_RULES: Array<{
-  id: string;
-  severity: Severity;
-  title: string;
-  pattern: RegExp;
-  message: string;
-  fix?: string;
-}> = [
-  {
-    id: 'jb-terminal-validation',
-    severity: 'critical',
-    title: 'Missing Terminal Validation',
-    pattern: /function\s+(afterPayRecordedWith|beforeCashOutRecordedWith|beforePayRecordedWith)\s*\([^)]*\)\s*[^{]*\{(?:(?!require|revert|if\s*\(\s*msg\.sender\s*==)[\s\S])*?}/g,
-    message: 'Hook function does not validate that msg.sender is a trusted terminal. This could allow unauthorized calls.',
-    fix: 'Add validation: require(directory.isTerminalOf(projectId, IJBTerminal(msg.sender)), "Unauthorized terminal");',
-  },
-  {
-    id: 'jb-reentrancy-hook',
-    severity: 'high',
-    title: 'Potential Reentrancy in Hook',
-    pattern: /(\.(call|transfer|send)\s*\{|\.call\s*\()/g,
-    message: 'External call in hook function may be vulnerable to reentrancy. Juicebox hooks are called during state transitions.',
-    fix: 'Use ReentrancyGuard or follow checks-effects-interactions pattern. Consider making state changes before external calls.',
-  },
-  {
-    id: 'jb-unchecked-project-id',
-    severity: 'high',
-    title: 'Unchecked Project ID',
-    pattern: /function\s+(afterPayRecordedWith|beforeCashOutRecordedWith)\s*\([^)]*JB(Pay|CashOut)HookPayload[^)]*\)\s*[^{]*\{(?:(?!projectId|_projectId)[\s\S])*?}/g,
-    message: 'Hook does not check projectId from payload. This may allow hooks to be triggered for unintended projects.',
-    fix: 'Validate projectId: require(payload.projectId == expectedProjectId, "Wrong project");',
-  },
-  {
-    id: 'jb-missing-interface',
-    severity: 'medium',
-    title: 'Missing Hook Interface Implementation',
-    pattern: /contract\s+\w+\s*(?:is\s+[^{]+)?{(?:(?!IJBPayHook|IJBCashOutHook|IJBSplitHook)[\s\S])*?}/g,
-    message: 'Contract does not explicitly implement a Juicebox hook interface. This may cause compatibility issues.',
-    fix: 'Implement the appropriate interface: IJBPayHook, IJBCashOutHook, or IJBSplitHook',
-  },
-  {
-    id: 'jb-hardcoded-address',
-    severity: 'medium',
-    title: 'Hardcoded Address',
-    pattern: /0x[a-fA-F0-9]{40}/g,
-    message: 'Hardcoded address detected. Consider using constructor parameters or immutable variables for chain-agnostic deployment.',
-    fix: 'Use constructor parameters: constructor(address _terminal) { terminal = _terminal; }',
-  },
-  {
-    id: 'jb-missing-supportsInterface',
-    severity: 'low',
-    title: 'Missing supportsInterface',
-    pattern: /contract\s+\w+\s*is\s+[^{]*IJB(Pay|CashOut|Split)Hook[^{]*{(?:(?!supportsInterface)[\s\S])*?}/g,
-    message: 'Hook contract does not implement supportsInterface. Terminals may not recognize this as a valid hook.',
-    fix: 'Implement ERC-165: function supportsInterface(bytes4 interfaceId) public view returns (bool)',
-  },
-  {
-    id: 'jb-unsafe-math',
-    severity: 'medium',
-    title: 'Potential Integer Overflow/Underflow',
-    pattern: /unchecked\s*{[^}]*(\+\+|--|\*|\+|-)[^}]*}/g,
-    message: 'Unchecked arithmetic operation. Ensure this is intentional and safe.',
-    fix: 'Remove unchecked block unless you are certain overflow/underflow is impossible.',
-  },
-];
-
 // ============================================================================
 // Common Solidity Security Patterns
 // ============================================================================
@@ -198,6 +147,7 @@ function transformAnalysis(db: DbSecurityAnalysis): SecurityAnalysisResult {
     tool: db.tool,
     findings: db.findings,
     summary: db.summary,
+    toolRuns: db.tool_runs ?? [],
     createdAt: db.created_at,
   };
 }
@@ -206,6 +156,31 @@ export async function analyzeProject(
   projectId: string,
   files: Array<{ path: string; content: string }>
 ): Promise<SecurityAnalysisResult> {
+  const findings = scanWithRules(files);
+
+  // Calculate summary
+  const summary = calculateSummary(findings);
+
+  // Store analysis result
+  const result = await queryOne<DbSecurityAnalysis>(
+    `INSERT INTO security_analyses (project_id, tool, findings, summary)
+     VALUES ($1, 'custom', $2, $3)
+     RETURNING *`,
+    [projectId, JSON.stringify(findings), JSON.stringify(summary)]
+  );
+
+  if (!result) {
+    throw new Error('Failed to store security analysis');
+  }
+
+  return transformAnalysis(result);
+}
+
+/**
+ * Run the general Solidity pattern rules over a project's sources. The
+ * Juicebox hook rules need the compiled AST (see collectJuiceboxFindings).
+ */
+export function scanWithRules(files: Array<{ path: string; content: string }>): SecurityFinding[] {
   const findings: SecurityFinding[] = [];
   let findingId = 0;
 
@@ -218,26 +193,6 @@ export async function analyzeProject(
       continue;
     }
 
-    // Run Juicebox-specific rules
-    for (const rule of JUICEBOX_RULES) {
-      const matches = file.content.matchAll(rule.pattern);
-      for (const match of matches) {
-        const lineNumber = getLineNumber(file.content, match.index || 0);
-        findings.push({
-          id: `finding-${++findingId}`,
-          tool: 'custom',
-          ruleId: rule.id,
-          severity: rule.severity,
-          title: rule.title,
-          message: rule.message,
-          file: file.path,
-          line: lineNumber,
-          code: match[0].substring(0, 100),
-          fix: rule.fix,
-        });
-      }
-    }
-
     // Run general Solidity rules
     for (const rule of SOLIDITY_RULES) {
       const matches = file.content.matchAll(rule.pattern);
@@ -259,22 +214,7 @@ export async function analyzeProject(
     }
   }
 
-  // Calculate summary
-  const summary = calculateSummary(findings);
-
-  // Store analysis result
-  const result = await queryOne<DbSecurityAnalysis>(
-    `INSERT INTO security_analyses (project_id, tool, findings, summary)
-     VALUES ($1, 'custom', $2, $3)
-     RETURNING *`,
-    [projectId, JSON.stringify(findings), JSON.stringify(summary)]
-  );
-
-  if (!result) {
-    throw new Error('Failed to store security analysis');
-  }
-
-  return transformAnalysis(result);
+  return findings;
 }
 
 function getLineNumber(content: string, index: number): number {
@@ -301,6 +241,83 @@ function calculateSummary(findings: SecurityFinding[]): AnalysisSummary {
 // Semgrep Integration (optional external tool)
 // ============================================================================
 
+/**
+ * Write project files into a temporary directory, run `fn` on it, then clean
+ * up. With withFoundryConfig, a default foundry.toml is added when the project
+ * has none (Slither and Aderyn read it to find sources and remappings).
+ */
+async function withProjectDir<T>(
+  prefix: string,
+  files: Array<{ path: string; content: string }>,
+  fn: (dir: string) => Promise<T>,
+  withFoundryConfig = false
+): Promise<T> {
+  const tmpDir = await Deno.makeTempDir({ prefix });
+
+  try {
+    for (const file of files) {
+      const filePath = `${tmpDir}/${file.path}`;
+      const dirPath = filePath.substring(0, filePath.lastIndexOf('/'));
+      await Deno.mkdir(dirPath, { recursive: true });
+      await Deno.writeTextFile(filePath, file.content);
+    }
+
+    if (withFoundryConfig && !files.some((f) => f.path === 'foundry.toml')) {
+      await Deno.writeTextFile(`${tmpDir}/foundry.toml`, generateFoundryConfig({ files }));
+    }
+
+    return await fn(tmpDir);
+  } finally {
+    await Deno.remove(tmpDir, { recursive: true }).catch(() => {});
+  }
+}
+
+async function collectSemgrepFindings(
+  files: Array<{ path: string; content: string }>
+): Promise<SecurityFinding[]> {
+  return await withProjectDir('semgrep_', files, async (tmpDir) => {
+    // Run Semgrep with Solidity rules
+    const process = new Deno.Command('semgrep', {
+      args: [
+        '--config', 'p/solidity',
+        '--config', 'p/smart-contracts',
+        '--json',
+        tmpDir,
+      ],
+      stdout: 'piped',
+      stderr: 'piped',
+    });
+
+    const output = await process.output();
+    const stdout = new TextDecoder().decode(output.stdout);
+
+    // Parse Semgrep output
+    const semgrepResult = JSON.parse(stdout);
+    return semgrepResult.results?.map(
+      (r: {
+        check_id: string;
+        extra: { severity: string; message: string };
+        path: string;
+        start: { line: number; col: number };
+        end: { line: number };
+        extra_lines?: string;
+      }, i: number) => ({
+        id: `semgrep-${i}`,
+        tool: 'semgrep' as AnalysisTool,
+        ruleId: r.check_id,
+        severity: mapSemgrepSeverity(r.extra.severity),
+        title: r.check_id.split('.').pop() || r.check_id,
+        message: r.extra.message,
+        file: r.path.replace(tmpDir + '/', ''),
+        line: r.start.line,
+        endLine: r.end.line,
+        column: r.start.col,
+        code: r.extra_lines,
+      })
+    ) || [];
+  });
+}
+
 export async function runSemgrep(
   projectId: string,
   files: Array<{ path: string; content: string }>
@@ -313,77 +330,22 @@ export async function runSemgrep(
   }
 
   try {
-    // Create temporary directory with files
-    const tmpDir = await Deno.makeTempDir({ prefix: 'semgrep_' });
-
-    try {
-      // Write files
-      for (const file of files) {
-        const filePath = `${tmpDir}/${file.path}`;
-        const dirPath = filePath.substring(0, filePath.lastIndexOf('/'));
-        await Deno.mkdir(dirPath, { recursive: true });
-        await Deno.writeTextFile(filePath, file.content);
-      }
-
-      // Run Semgrep with Solidity rules
-      const process = new Deno.Command('semgrep', {
-        args: [
-          '--config', 'p/solidity',
-          '--config', 'p/smart-contracts',
-          '--json',
-          tmpDir,
-        ],
-        stdout: 'piped',
-        stderr: 'piped',
-      });
-
-      const output = await process.output();
-      const stdout = new TextDecoder().decode(output.stdout);
-
-      // Parse Semgrep output
-      const semgrepResult = JSON.parse(stdout);
-      const findings: SecurityFinding[] = semgrepResult.results?.map(
-        (r: {
-          check_id: string;
-          extra: { severity: string; message: string };
-          path: string;
-          start: { line: number; col: number };
-          end: { line: number };
-          extra_lines?: string;
-        }, i: number) => ({
-          id: `semgrep-${i}`,
-          tool: 'semgrep' as AnalysisTool,
-          ruleId: r.check_id,
-          severity: mapSemgrepSeverity(r.extra.severity),
-          title: r.check_id.split('.').pop() || r.check_id,
-          message: r.extra.message,
-          file: r.path.replace(tmpDir + '/', ''),
-          line: r.start.line,
-          endLine: r.end.line,
-          column: r.start.col,
-          code: r.extra_lines,
-        })
-      ) || [];
-
-      const summary = calculateSummary(findings);
-
-      // Store result
-      const result = await queryOne<DbSecurityAnalysis>(
-        `INSERT INTO security_analyses (project_id, tool, findings, summary)
-         VALUES ($1, 'semgrep', $2, $3)
-         RETURNING *`,
-        [projectId, JSON.stringify(findings), JSON.stringify(summary)]
-      );
-
-      if (!result) {
-        throw new Error('Failed to store Semgrep analysis');
-      }
-
-      return transformAnalysis(result);
-    } finally {
-      // Cleanup
-      await Deno.remove(tmpDir, { recursive: true }).catch(() => {});
+    const findings = await collectSemgrepFindings(files);
+    const summary = calculateSummary(findings);
+
+    // Store result
+    const result = await queryOne<DbSecurityAnalysis>(
+      `INSERT INTO security_analyses (project_id, tool, findings, summary)
+       VALUES ($1, 'semgrep', $2, $3)
+       RETURNING *`,
+      [projectId, JSON.stringify(findings), JSON.stringify(summary)]
+    );
+
+    if (!result) {
+      throw new Error('Failed to store Semgrep analysis');
     }
+
+    return transformAnalysis(result);
   } catch (error) {
     console.error('[Security] Semgrep analysis failed:', error);
     return null;
@@ -403,6 +365,430 @@ function mapSemgrepSeverity(severity: string): Severity {
   }
 }
 
+// ============================================================================
+// Slither & Aderyn (Docker, sandboxed like forge jobs)
+// ============================================================================
+// Both compile the project, so their images must ship solc 0.8.28: the
+// containers run without network access.
+
+const SLITHER_IMAGE = 'trailofbits/eth-security-toolbox:latest';
+const ADERYN_IMAGE = 'cyfrin/aderyn:latest';
+const ANALYZER_TIMEOUT_MS = 180_000; // 3 minutes
+const ADERYN_REPORT_FILE = 'aderyn-report.json';
+
+// Dependencies, tests and scripts are not part of what gets deployed
+const ANALYZER_EXCLUDED_PATHS = ['lib/', 'test/', 'script/'];
+
+export function buildAnalyzerDockerArgs(
+  tool: 'slither' | 'aderyn',
+  dir: string,
+  containerName: string
+): string[] {
+  const args = [
+    'run',
+    '--rm',
+    '--name', containerName,
+    '--network', 'none',
+    '--memory', '2g',
+    '--cpus', '2',
+    '--pids-limit', '256',
+    '--read-only',
+    '--tmpfs', '/tmp:rw,noexec,nosuid,size=512m',
+    // Writable: both tools compile into the project directory
+    '-v', `${dir}:/app`,
+    '-w', '/app',
+  ];
+
+  if (tool === 'slither') {
+    args.push(
+      SLITHER_IMAGE,
+      'slither', '.',
+      '--json', '-',
+      '--exclude-optimization',
+      '--filter-paths', ANALYZER_EXCLUDED_PATHS.join('|'),
+    );
+  } else {
+    args.push(
+      ADERYN_IMAGE,
+      'aderyn', '.',
+      '--output', ADERYN_REPORT_FILE,
+      '--path-excludes', ANALYZER_EXCLUDED_PATHS.join(','),
+    );
+  }
+
+  return args;
+}
+
+async function runAnalyzerContainer(
+  tool: 'slither' | 'aderyn',
+  dir: string
+): Promise<{ stdout: string; stderr: string }> {
+  const containerName = `${tool}_${crypto.randomUUID()}`;
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, ANALYZER_TIMEOUT_MS);
+
+  try {
+    const output = await new Deno.Command('docker', {
+      args: buildAnalyzerDockerArgs(tool, dir, containerName),
+      stdout: 'piped',
+      stderr: 'piped',
+      signal: controller.signal,
+    }).output();
+
+    if (timedOut) {
+      throw new Error(`${tool} timed out after ${ANALYZER_TIMEOUT_MS / 1000}s`);
+    }
+
+    return {
+      stdout: new TextDecoder().decode(output.stdout),
+      stderr: new TextDecoder().decode(output.stderr),
+    };
+  } finally {
+    clearTimeout(timeoutId);
+    if (timedOut) {
+      // Killing the docker client leaves the container running
+      await new Deno.Command('docker', { args: ['rm', '-f', containerName] }).output().catch(() => {});
+    }
+  }
+}
+
+interface SlitherElement {
+  type: string;
+  name: string;
+  source_mapping?: {
+    filename_relative?: string;
+    lines?: number[];
+    starting_column?: number;
+  };
+}
+
+interface SlitherDetectorResult {
+  check: string;
+  impact: string;
+  confidence: string;
+  description: string;
+  elements: SlitherElement[];
+}
+
+function mapSlitherSeverity(impact: string, confidence: string): Severity {
+  switch (impact) {
+    case 'High':
+      // A confident high-impact result (e.g. reentrancy-eth) blocks deployment
+      return confidence === 'High' ? 'critical' : 'high';
+    case 'Medium':
+      return 'medium';
+    case 'Low':
+      return 'low';
+    default:
+      return 'info';
+  }
+}
+
+function formatDetectorTitle(check: string): string {
+  return check
+    .split('-')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Normalize `slither --json -` output. Each detector result is located at its
+ * first source element (the function or statement it is about).
+ */
+export function parseSlitherOutput(stdout: string): SecurityFinding[] {
+  const parsed = JSON.parse(stdout) as {
+    success: boolean;
+    error: string | null;
+    results?: { detectors?: SlitherDetectorResult[] };
+  };
+
+  if (!parsed.success) {
+    throw new Error(parsed.error || 'Slither failed');
+  }
+
+  return (parsed.results?.detectors ?? []).map((detector, i) => {
+    const location = detector.elements.find((e) => e.source_mapping?.lines?.length)?.source_mapping;
+    const lines = location?.lines ?? [];
+
+    return {
+      id: `slither-${i}`,
+      tool: 'slither' as AnalysisTool,
+      ruleId: detector.check,
+      severity: mapSlitherSeverity(detector.impact, detector.confidence),
+      title: formatDetectorTitle(detector.check),
+      message: detector.description.trim(),
+      file: location?.filename_relative ?? '',
+      line: lines[0] ?? 0,
+      endLine: lines.length > 1 ? lines[lines.length - 1] : undefined,
+      column: location?.starting_column,
+      references: ['https://github.com/crytic/slither/wiki/Detector-Documentation'],
+    };
+  });
+}
+
+interface AderynIssue {
+  title: string;
+  description: string;
+  detector_name: string;
+  instances: Array<{ contract_path: string; line_no: number; hint?: string }>;
+}
+
+/**
+ * Normalize an Aderyn JSON report. Aderyn only grades issues high or low, and
+ * lists every instance of an issue separately.
+ */
+export function parseAderynReport(report: string): SecurityFinding[] {
+  const parsed = JSON.parse(report) as {
+    high_issues?: { issues: AderynIssue[] };
+    low_issues?: { issues: AderynIssue[] };
+  };
+
+  const findings: SecurityFinding[] = [];
+  const groups: Array<[Severity, AderynIssue[]]> = [
+    ['high', parsed.high_issues?.issues ?? []],
+    ['low', parsed.low_issues?.issues ?? []],
+  ];
+
+  for (const [severity, issues] of groups) {
+    for (const issue of issues) {
+      for (const instance of issue.instances) {
+        findings.push({
+          id: `aderyn-${findings.length}`,
+          tool: 'aderyn',
+          ruleId: issue.detector_name,
+          severity,
+          title: issue.title,
+          message: issue.description.trim(),
+          file: instance.contract_path,
+          line: instance.line_no,
+          code: instance.hint,
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+async function collectSlitherFindings(
+  files: Array<{ path: string; content: string }>
+): Promise<SecurityFinding[]> {
+  return await withProjectDir('slither_', files, async (dir) => {
+    const { stdout, stderr } = await runAnalyzerContainer('slither', dir);
+    if (!stdout.trim()) {
+      throw new Error(stderr.trim().split('\n').pop() || 'Slither produced no output');
+    }
+    return parseSlitherOutput(stdout);
+  }, true);
+}
+
+async function collectAderynFindings(
+  files: Array<{ path: string; content: string }>
+): Promise<SecurityFinding[]> {
+  return await withProjectDir('aderyn_', files, async (dir) => {
+    const { stderr } = await runAnalyzerContainer('aderyn', dir);
+
+    let report: string;
+    try {
+      report = await Deno.readTextFile(`${dir}/${ADERYN_REPORT_FILE}`);
+    } catch {
+      throw new Error(stderr.trim().split('\n').pop() || 'Aderyn wrote no report');
+    }
+    return parseAderynReport(report);
+  }, true);
+}
+
+// ============================================================================
+// Juicebox Hook Rules (solc AST)
+// ============================================================================
+
+async function collectJuiceboxFindings(
+  files: Array<{ path: string; content: string }>
+): Promise<SecurityFinding[]> {
+  const asts = await compileSourceAsts(files);
+  const projectFiles = files.filter((f) =>
+    f.path.endsWith('.sol') && !ANALYZER_EXCLUDED_PATHS.some((path) => f.path.startsWith(path))
+  );
+  return scanHookAsts(asts, projectFiles);
+}
+
+// ============================================================================
+// Merging Findings Across Tools
+// ============================================================================
+
+// Issue classes several tools detect under different rule ids
+const FINDING_CATEGORIES: Array<[string, RegExp]> = [
+  ['reentrancy', /reentran/],
+  ['tx-origin', /tx[-_.]?origin/],
+  ['delegatecall', /delegatecall/],
+  ['selfdestruct', /selfdestruct|suicidal/],
+  ['arbitrary-send', /arbitrary[-_.]?(send|transfer)/],
+  ['unchecked-call', /unchecked[-_.]?(low[-_.]?level|call|send|transfer|return)|unused[-_.]?return/],
+  ['uninitialized-storage', /uninitiali[sz]ed[-_.]?(storage|local)|storage[-_.]?pointer/],
+  ['timestamp', /timestamp/],
+  ['weak-randomness', /weak[-_.]?(prng|random)/],
+  ['assembly', /assembly/],
+  ['zero-address', /zero[-_.]?(address|check)/],
+];
+
+// How far apart two tools' line numbers for the same issue may be: Slither
+// points at the statement or function, the regex rules at the matched text
+const MERGE_LINE_TOLERANCE = 3;
+
+const SEVERITY_RANK: Record<Severity, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+  info: 4,
+};
+
+// Preferred finding to keep when tools agree on severity
+const TOOL_RANK: Record<AnalysisTool, number> = {
+  slither: 0,
+  aderyn: 1,
+  semgrep: 2,
+  juicebox: 3,
+  custom: 4,
+};
+
+export function getFindingCategory(ruleId: string): string | null {
+  const id = ruleId.toLowerCase();
+  for (const [category, pattern] of FINDING_CATEGORIES) {
+    if (pattern.test(id)) return category;
+  }
+  return null;
+}
+
+function isSameIssue(a: SecurityFinding, b: SecurityFinding): boolean {
+  if (a.file !== b.file) return false;
+
+  if (a.tool === b.tool && a.ruleId === b.ruleId) {
+    return a.line === b.line;
+  }
+
+  const category = getFindingCategory(a.ruleId);
+  return category !== null &&
+    category === getFindingCategory(b.ruleId) &&
+    Math.abs(a.line - b.line) <= MERGE_LINE_TOLERANCE;
+}
+
+/**
+ * Deduplicate findings from all tools. Findings of the same issue class at
+ * (nearly) the same place are merged into the most severe one, which lists
+ * the other tools in alsoReportedBy. Results are sorted by severity.
+ */
+export function mergeFindings(findings: SecurityFinding[]): SecurityFinding[] {
+  const sorted = [...findings].sort((a, b) =>
+    SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+    TOOL_RANK[a.tool] - TOOL_RANK[b.tool]
+  );
+
+  const merged: SecurityFinding[] = [];
+  for (const finding of sorted) {
+    const existing = merged.find((m) => isSameIssue(m, finding));
+    if (!existing) {
+      merged.push({ ...finding });
+      continue;
+    }
+
+    if (finding.tool !== existing.tool && !existing.alsoReportedBy?.includes(finding.tool)) {
+      existing.alsoReportedBy = [...(existing.alsoReportedBy ?? []), finding.tool];
+    }
+    existing.fix ??= finding.fix;
+    existing.code ??= finding.code;
+  }
+
+  return merged.sort((a, b) =>
+    SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+    a.file.localeCompare(b.file) ||
+    a.line - b.line
+  );
+}
+
+async function runTool(
+  tool: AnalysisTool,
+  enabled: boolean | undefined,
+  collect: () => Promise<SecurityFinding[]>
+): Promise<{ run: ToolRun; findings: SecurityFinding[] }> {
+  if (!enabled) {
+    return { run: { tool, status: 'skipped', findingCount: 0 }, findings: [] };
+  }
+
+  const started = Date.now();
+  try {
+    const findings = await collect();
+    return {
+      run: { tool, status: 'completed', findingCount: findings.length, durationMs: Date.now() - started },
+      findings,
+    };
+  } catch (error) {
+    console.error(`[Security] ${tool} analysis failed:`, error);
+    return {
+      run: {
+        tool,
+        status: 'failed',
+        findingCount: 0,
+        durationMs: Date.now() - started,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      findings: [],
+    };
+  }
+}
+
+/**
+ * Run every enabled tool (custom rules always; Juicebox hook rules when forge
+ * can compile in Docker; Semgrep, Slither and Aderyn when configured) and
+ * merge their findings, without storing anything.
+ */
+export async function runSecurityTools(
+  files: Array<{ path: string; content: string }>
+): Promise<{ findings: SecurityFinding[]; toolRuns: ToolRun[] }> {
+  const config = getConfig();
+
+  const results = await Promise.all([
+    runTool('custom', true, () => Promise.resolve(scanWithRules(files))),
+    runTool('juicebox', config.forgeDockerEnabled, () => collectJuiceboxFindings(files)),
+    runTool('semgrep', config.semgrepEnabled, () => collectSemgrepFindings(files)),
+    runTool('slither', config.slitherEnabled, () => collectSlitherFindings(files)),
+    runTool('aderyn', config.aderynEnabled, () => collectAderynFindings(files)),
+  ]);
+
+  return {
+    findings: mergeFindings(results.flatMap((r) => r.findings)),
+    toolRuns: results.map((r) => r.run),
+  };
+}
+
+/**
+ * Run every enabled tool over a project's files and store the combined result.
+ */
+export async function runSecurityAnalysis(
+  projectId: string,
+  files: Array<{ path: string; content: string }>
+): Promise<SecurityAnalysisResult> {
+  const { findings, toolRuns } = await runSecurityTools(files);
+  const summary = calculateSummary(findings);
+
+  const result = await queryOne<DbSecurityAnalysis>(
+    `INSERT INTO security_analyses (project_id, tool, findings, summary, tool_runs)
+     VALUES ($1, 'combined', $2, $3, $4)
+     RETURNING *`,
+    [projectId, JSON.stringify(findings), JSON.stringify(summary), JSON.stringify(toolRuns)]
+  );
+
+  if (!result) {
+    throw new Error('Failed to store security analysis');
+  }
+
+  return transformAnalysis(result);
+}
+
 // ============================================================================
 // Analysis Retrieval
 // ============================================================================
@@ -444,28 +830,54 @@ export interface DeploymentSecurityCheck {
   canDeploy: boolean;
   criticalFindings: SecurityFinding[];
   highFindings: SecurityFinding[];
+  findings: SecurityFinding[]; // Every severity, merged across tools
   warnings: string[];
+  toolRuns: ToolRun[];
+}
+
+/**
+ * Whether the Juicebox hook rules ran to completion. The regex rules don't
+ * cover terminal validation or hook reentrancy, so without them a clean
+ * result says nothing about the checks that matter most for hooks.
+ */
+export function hookRulesCompleted(toolRuns: ToolRun[]): boolean {
+  return toolRuns.some((run) => run.tool === 'juicebox' && run.status === 'completed');
+}
+
+/**
+ * Whether the analysis can be trusted to have found what there is to find:
+ * the hook rules completed and no enabled tool failed. Disabled tools are
+ * skipped, not failed, so they don't count against it.
+ */
+export function analysisCompleted(toolRuns: ToolRun[]): boolean {
+  return hookRulesCompleted(toolRuns) && !toolRuns.some((run) => run.status === 'failed');
 }
 
 export async function checkDeploymentSecurity(
   projectId: string,
   files: Array<{ path: string; content: string }>
 ): Promise<DeploymentSecurityCheck> {
-  // Run fresh analysis
-  const analysis = await analyzeProject(projectId, files);
+  // Run fresh analysis with every enabled tool, merged
+  const analysis = await runSecurityAnalysis(projectId, files);
 
-  // Also run Semgrep if available
-  const semgrepAnalysis = await runSemgrep(projectId, files);
+  const criticalFindings = analysis.findings.filter((f) => f.severity === 'critical');
+  const highFindings = analysis.findings.filter((f) => f.severity === 'high');
+  const warnings: string[] = [];
 
-  // Combine findings
-  const allFindings = [
-    ...analysis.findings,
-    ...(semgrepAnalysis?.findings || []),
-  ];
+  // Missing hook rules block deployment, so explain that first
+  if (!hookRulesCompleted(analysis.toolRuns)) {
+    const juicebox = analysis.toolRuns.find((run) => run.tool === 'juicebox');
+    warnings.push(juicebox?.status === 'failed'
+      ? `Juicebox hook rules (terminal validation, reentrancy, project ID checks) could not run (${juicebox.error}). Fix the compile errors before deploying.`
+      : 'Juicebox hook rules (terminal validation, reentrancy, project ID checks) need FORGE_DOCKER_ENABLED and did not run, so deployment is blocked.');
+  }
 
-  const criticalFindings = allFindings.filter((f) => f.severity === 'critical');
-  const highFindings = allFindings.filter((f) => f.severity === 'high');
-  const warnings: string[] = [];
+  // A tool that crashed checked nothing, so its findings are unknown too
+  for (const run of analysis.toolRuns) {
+    if (run.status === 'failed' && run.tool !== 'juicebox') {
+      warnings.push(`${formatDetectorTitle(run.tool)} analysis failed (${run.error}), so deployment is blocked until it completes.`);
+    }
+  }
 
   // Check for common issues
   const hasTests = files.some((f) => f.path.includes('/test/') && f.path.endsWith('.t.sol'));
@@ -480,13 +892,15 @@ export async function checkDeploymentSecurity(
     warnings.push('SPDX license identifier not found in some files.');
   }
 
-  // Critical findings block deployment
-  const canDeploy = criticalFindings.length === 0;
+  // Critical findings block deployment, as does not knowing whether there are any
+  const canDeploy = criticalFindings.length === 0 && analysisCompleted(analysis.toolRuns);
 
   return {
     canDeploy,
     criticalFindings,
     highFindings,
+    findings: analysis.findings,
     warnings,
+    toolRuns: analysis.toolRuns,
   };
 }
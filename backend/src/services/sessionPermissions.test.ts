@@ -0,0 +1,147 @@
+import { assertEquals, assertThrows } from 'std/assert/mod.ts';
+import { encodeFunctionData, parseAbi } from 'viem';
+import {
+  normalizeSelector,
+  decodeTokenMovement,
+  getCallSelector,
+  matchesAllowedCall,
+  isPermissionActive,
+  type AllowedCall,
+} from './sessionPermissions.ts';
+
+const JB_MULTI_TERMINAL = '0x52869db3d61dde1e391967f2ce5039ad0ecd371c';
+const PAY_SELECTOR = '0xfef43257';
+const OTHER_CONTRACT = '0x000000000000000000000000000000000000dead';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+
+const ABI = parseAbi([
+  'function transfer(address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+  'function pay(uint256 projectId, address token, uint256 amount, address beneficiary, uint256 minReturnedTokens, string memo, bytes metadata)',
+]);
+
+function payCalldata(token: `0x${string}`, amount: bigint): `0x${string}` {
+  return encodeFunctionData({
+    abi: ABI,
+    functionName: 'pay',
+    args: [1n, token, amount, RECIPIENT, 0n, '', '0x'],
+  });
+}
+
+// ============================================================================
+// Selector Tests
+// ============================================================================
+
+Deno.test('sessionPermissions - normalizeSelector', async (t) => {
+  await t.step('lowercases raw selectors', () => {
+    assertEquals(normalizeSelector('0xFEF43257'), PAY_SELECTOR);
+  });
+
+  await t.step('hashes function signatures', () => {
+    assertEquals(normalizeSelector('pay(uint256,address,uint256,address,uint256,string,bytes)'), PAY_SELECTOR);
+  });
+
+  await t.step('rejects anything else', () => {
+    assertThrows(() => normalizeSelector('pay'), Error, 'Invalid function selector');
+    assertThrows(() => normalizeSelector('0x1234'), Error, 'Invalid function selector');
+  });
+});
+
+Deno.test('sessionPermissions - getCallSelector', async (t) => {
+  await t.step('takes the first four bytes', () => {
+    assertEquals(getCallSelector(`${PAY_SELECTOR}00000000000000000000000000000001`), PAY_SELECTOR);
+  });
+
+  await t.step('returns null for plain value transfers', () => {
+    assertEquals(getCallSelector('0x'), null);
+  });
+});
+
+// ============================================================================
+// Matching Tests
+// ============================================================================
+
+Deno.test('sessionPermissions - matchesAllowedCall', async (t) => {
+  const payOnly: AllowedCall[] = [{ target: JB_MULTI_TERMINAL, selector: PAY_SELECTOR }];
+  const anyFunction: AllowedCall[] = [{ target: JB_MULTI_TERMINAL, selector: null }];
+
+  await t.step('allows the listed function on the listed target', () => {
+    assertEquals(matchesAllowedCall(payOnly, '0x52869DB3D61DDE1E391967F2CE5039AD0ECD371C', `${PAY_SELECTOR}00`), true);
+  });
+
+  await t.step('blocks other functions on the same target', () => {
+    assertEquals(matchesAllowedCall(payOnly, JB_MULTI_TERMINAL, '0x095ea7b300'), false);
+  });
+
+  await t.step('blocks other targets', () => {
+    assertEquals(matchesAllowedCall(payOnly, OTHER_CONTRACT, `${PAY_SELECTOR}00`), false);
+  });
+
+  await t.step('null selector allows any call to the target', () => {
+    assertEquals(matchesAllowedCall(anyFunction, JB_MULTI_TERMINAL, '0x095ea7b300'), true);
+    assertEquals(matchesAllowedCall(anyFunction, JB_MULTI_TERMINAL, '0x'), true);
+  });
+});
+
+Deno.test('sessionPermissions - isPermissionActive', async (t) => {
+  const now = new Date('2026-06-01T12:00:00Z');
+  const window = {
+    startsAt: new Date('2026-06-01T00:00:00Z'),
+    expiresAt: new Date('2026-06-02T00:00:00Z'),
+    revokedAt: null,
+  };
+
+  await t.step('active inside the window', () => {
+    assertEquals(isPermissionActive(window, now), true);
+  });
+
+  await t.step('scheduled permissions are inactive before they start', () => {
+    assertEquals(isPermissionActive({ ...window, startsAt: new Date('2026-06-01T18:00:00Z') }, now), false);
+  });
+
+  await t.step('inactive once expired', () => {
+    assertEquals(isPermissionActive(window, new Date('2026-06-02T00:00:00Z')), false);
+  });
+
+  await t.step('inactive once revoked', () => {
+    assertEquals(isPermissionActive({ ...window, revokedAt: new Date('2026-06-01T06:00:00Z') }, now), false);
+  });
+});
+
+// ============================================================================
+// Token Movement Tests
+// ============================================================================
+
+Deno.test('sessionPermissions - decodeTokenMovement', async (t) => {
+  await t.step('reads ERC-20 transfer and approve amounts from the token contract', () => {
+    const transfer = encodeFunctionData({ abi: ABI, functionName: 'transfer', args: [RECIPIENT, 5_000_000n] });
+    const approve = encodeFunctionData({ abi: ABI, functionName: 'approve', args: [JB_MULTI_TERMINAL, 2n ** 256n - 1n] });
+
+    assertEquals(decodeTokenMovement('0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', transfer), { token: USDC, amount: 5_000_000n });
+    assertEquals(decodeTokenMovement(USDC, approve), { token: USDC, amount: 2n ** 256n - 1n });
+  });
+
+  await t.step('reads the token and amount of terminal payments', () => {
+    assertEquals(
+      decodeTokenMovement(JB_MULTI_TERMINAL, payCalldata(USDC, 25_000_000n)),
+      { token: USDC, amount: 25_000_000n }
+    );
+  });
+
+  await t.step('leaves native payments to the value limit', () => {
+    assertEquals(
+      decodeTokenMovement(JB_MULTI_TERMINAL, payCalldata('0x000000000000000000000000000000000000EEEe', 10n ** 18n)),
+      null
+    );
+  });
+
+  await t.step('ignores calls that move no tokens', () => {
+    assertEquals(decodeTokenMovement(OTHER_CONTRACT, '0x'), null);
+    assertEquals(decodeTokenMovement(OTHER_CONTRACT, '0x12345678'), null);
+  });
+
+  await t.step('rejects token-moving selectors with malformed arguments', () => {
+    assertThrows(() => decodeTokenMovement(USDC, '0xa9059cbb00'), Error, 'Could not decode token amount');
+  });
+});
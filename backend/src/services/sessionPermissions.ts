@@ -0,0 +1,477 @@
+/**
+ * Smart Account Session Permissions
+ *
+ * Lets users scope what the backend may execute from their managed smart
+ * account. A permission lists allowed target contracts (optionally narrowed
+ * to one function selector), the chains it applies to, how much native value
+ * and how much of each ERC-20 it may move in a rolling 24 hours, and when it
+ * starts and expires. Calls that move a token the permission has no limit for
+ * (transfer, approve, transferFrom, terminal pay/addToBalanceOf) are refused.
+ *
+ * Accounts without any permissions keep the original unrestricted behavior.
+ * Once a user creates their first permission, every executeTransaction call
+ * must match an active one - revoking them all blocks execution entirely.
+ */
+
+import { decodeFunctionData, parseAbi, toFunctionSelector, type Address } from 'viem';
+import { query, queryOne, execute, transaction } from '../db/index.ts';
+import { logger } from '../utils/logger.ts';
+
+// Longest a single permission may stay valid
+export const MAX_PERMISSION_DAYS = 90;
+
+// Keep permissions reviewable at a glance
+export const MAX_ALLOWED_CALLS = 20;
+export const MAX_TOKEN_LIMITS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Juicebox's stand-in address for the native token; those payments move msg.value
+const JB_NATIVE_TOKEN = '0x000000000000000000000000000000000000eeee';
+
+// Calls whose arguments move ERC-20s out of (or make them spendable from) the account
+const TOKEN_MOVING_ABI = parseAbi([
+  'function transfer(address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)',
+  'function pay(uint256 projectId, address token, uint256 amount, address beneficiary, uint256 minReturnedTokens, string memo, bytes metadata)',
+  'function addToBalanceOf(uint256 projectId, address token, uint256 amount, bool shouldReturnHeldFees, string memo, bytes metadata)',
+]);
+
+const TOKEN_MOVING_SELECTORS = new Set<string>(TOKEN_MOVING_ABI.map(item => toFunctionSelector(item)));
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AllowedCall {
+  target: Address;
+  selector: `0x${string}` | null; // null = any function on target
+}
+
+export interface TokenLimit {
+  token: Address;
+  dailyLimit: bigint; // Base units
+  spentToday: bigint;
+}
+
+export interface TokenMovement {
+  token: Address;
+  amount: bigint;
+}
+
+export interface SessionPermission {
+  id: string;
+  userId: string;
+  label: string;
+  chainIds: number[] | null;
+  allowedCalls: AllowedCall[];
+  dailyValueLimitWei: bigint;
+  spentTodayWei: bigint;
+  dailyTokenLimits: TokenLimit[];
+  startsAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+interface DbSessionPermission {
+  id: string;
+  user_id: string;
+  label: string;
+  chain_ids: number[] | null;
+  allowed_calls: AllowedCall[];
+  daily_value_limit_wei: string;
+  spent_today_wei: string | null;
+  daily_token_limits: { token: string; dailyLimit: string }[];
+  spent_today_tokens: Record<string, string> | null;
+  starts_at: Date;
+  expires_at: Date;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+function mapPermission(row: DbSessionPermission): SessionPermission {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    label: row.label,
+    chainIds: row.chain_ids,
+    allowedCalls: row.allowed_calls,
+    dailyValueLimitWei: BigInt(row.daily_value_limit_wei),
+    spentTodayWei: BigInt(row.spent_today_wei ?? '0'),
+    dailyTokenLimits: row.daily_token_limits.map(limit => ({
+      token: limit.token as Address,
+      dailyLimit: BigInt(limit.dailyLimit),
+      spentToday: BigInt(row.spent_today_tokens?.[limit.token] ?? '0'),
+    })),
+    startsAt: new Date(row.starts_at),
+    expiresAt: new Date(row.expires_at),
+    revokedAt: row.revoked_at ? new Date(row.revoked_at) : null,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Normalize a selector or a function signature (e.g. "pay(uint256,address,...)")
+ */
+export function normalizeSelector(selectorOrSignature: string): `0x${string}` {
+  const value = selectorOrSignature.trim();
+  if (/^0x[0-9a-fA-F]{8}$/.test(value)) {
+    return value.toLowerCase() as `0x${string}`;
+  }
+  if (value.includes('(')) {
+    return toFunctionSelector(value.startsWith('function ') ? value : `function ${value}`);
+  }
+  throw new Error(`Invalid function selector: ${selectorOrSignature}`);
+}
+
+export function getCallSelector(data: string): `0x${string}` | null {
+  return data.length >= 10 ? (data.slice(0, 10).toLowerCase() as `0x${string}`) : null;
+}
+
+export function matchesAllowedCall(
+  calls: AllowedCall[],
+  to: string,
+  data: string
+): boolean {
+  const target = to.toLowerCase();
+  const selector = getCallSelector(data);
+
+  return calls.some(call =>
+    call.target.toLowerCase() === target &&
+    (call.selector === null || call.selector === selector)
+  );
+}
+
+/**
+ * The ERC-20 amount a call moves, or null if it moves none. Throws when the
+ * selector is a token-moving one but its arguments don't decode, so malformed
+ * calldata can't slip past the token limits.
+ */
+export function decodeTokenMovement(to: string, data: `0x${string}`): TokenMovement | null {
+  const selector = getCallSelector(data);
+  if (!selector || !TOKEN_MOVING_SELECTORS.has(selector)) {
+    return null;
+  }
+
+  let decoded;
+  try {
+    decoded = decodeFunctionData({ abi: TOKEN_MOVING_ABI, data });
+  } catch {
+    throw new Error(`Could not decode token amount for selector ${selector}`);
+  }
+
+  switch (decoded.functionName) {
+    case 'transfer':
+    case 'approve':
+      return { token: to.toLowerCase() as Address, amount: decoded.args[1] };
+    case 'transferFrom':
+      return { token: to.toLowerCase() as Address, amount: decoded.args[2] };
+    case 'pay':
+    case 'addToBalanceOf': {
+      const token = decoded.args[1].toLowerCase() as Address;
+      // Native payments are covered by the value limit
+      return token === JB_NATIVE_TOKEN ? null : { token, amount: decoded.args[2] };
+    }
+  }
+}
+
+export function isPermissionActive(
+  permission: Pick<SessionPermission, 'startsAt' | 'expiresAt' | 'revokedAt'>,
+  now: Date = new Date()
+): boolean {
+  return !permission.revokedAt && permission.startsAt <= now && permission.expiresAt > now;
+}
+
+// ============================================================================
+// Management
+// ============================================================================
+
+/**
+ * Create a session permission
+ */
+export async function createSessionPermission(params: {
+  userId: string;
+  label: string;
+  chainIds?: number[];
+  allowedCalls: { target: string; selector?: string | null }[];
+  dailyValueLimitWei: bigint;
+  dailyTokenLimits?: { token: string; dailyLimit: bigint }[];
+  startsAt?: Date;
+  expiresAt: Date;
+}): Promise<SessionPermission> {
+  const startsAt = params.startsAt ?? new Date();
+
+  if (params.expiresAt <= startsAt) {
+    throw new Error('Expiry must be after the start time');
+  }
+
+  if (params.expiresAt.getTime() - startsAt.getTime() > MAX_PERMISSION_DAYS * DAY_MS) {
+    throw new Error(`Permissions can last at most ${MAX_PERMISSION_DAYS} days`);
+  }
+
+  if (params.allowedCalls.length === 0 || params.allowedCalls.length > MAX_ALLOWED_CALLS) {
+    throw new Error(`Allow between 1 and ${MAX_ALLOWED_CALLS} contract calls`);
+  }
+
+  if (params.dailyValueLimitWei < 0n) {
+    throw new Error('Daily limit cannot be negative');
+  }
+
+  const tokenLimits = params.dailyTokenLimits ?? [];
+  if (tokenLimits.length > MAX_TOKEN_LIMITS) {
+    throw new Error(`Set at most ${MAX_TOKEN_LIMITS} token limits`);
+  }
+  if (tokenLimits.some(limit => limit.dailyLimit < 0n)) {
+    throw new Error('Daily limit cannot be negative');
+  }
+  const dailyTokenLimits = tokenLimits.map(limit => ({
+    token: limit.token.toLowerCase(),
+    dailyLimit: limit.dailyLimit.toString(),
+  }));
+  if (new Set(dailyTokenLimits.map(limit => limit.token)).size !== dailyTokenLimits.length) {
+    throw new Error('Each token can only have one limit');
+  }
+
+  const allowedCalls: AllowedCall[] = params.allowedCalls.map(call => ({
+    target: call.target.toLowerCase() as Address,
+    selector: call.selector ? normalizeSelector(call.selector) : null,
+  }));
+
+  const row = await queryOne<DbSessionPermission>(
+    `INSERT INTO smart_account_session_permissions (
+      user_id, label, chain_ids, allowed_calls, daily_value_limit_wei, daily_token_limits,
+      starts_at, expires_at
+    ) VALUES ($1, $2, $3, $4::jsonb, $5, $6::jsonb, $7, $8)
+    RETURNING *, NULL AS spent_today_wei, NULL AS spent_today_tokens`,
+    [
+      params.userId,
+      params.label,
+      params.chainIds && params.chainIds.length > 0 ? params.chainIds : null,
+      JSON.stringify(allowedCalls),
+      params.dailyValueLimitWei.toString(),
+      JSON.stringify(dailyTokenLimits),
+      startsAt,
+      params.expiresAt,
+    ]
+  );
+
+  if (!row) {
+    throw new Error('Failed to create session permission');
+  }
+
+  logger.info('Session permission created', {
+    permissionId: row.id,
+    userId: params.userId,
+    calls: allowedCalls.length,
+    chainIds: params.chainIds,
+    dailyValueLimitWei: params.dailyValueLimitWei.toString(),
+    tokenLimits: dailyTokenLimits.length,
+    expiresAt: params.expiresAt.toISOString(),
+  });
+
+  return mapPermission(row);
+}
+
+/**
+ * Get a user's session permissions with value spent in the last 24 hours
+ */
+export async function getUserSessionPermissions(userId: string): Promise<SessionPermission[]> {
+  const rows = await query<DbSessionPermission>(
+    `SELECT p.*,
+            (SELECT COALESCE(SUM(e.value_wei), 0)::text
+             FROM smart_account_session_executions e
+             WHERE e.permission_id = p.id
+               AND e.status IN ('pending', 'executed')
+               AND e.created_at > NOW() - INTERVAL '24 hours') AS spent_today_wei,
+            (SELECT jsonb_object_agg(t.token_address, t.total)
+             FROM (
+               SELECT e.token_address, SUM(e.token_amount)::text AS total
+               FROM smart_account_session_executions e
+               WHERE e.permission_id = p.id
+                 AND e.token_address IS NOT NULL
+                 AND e.status IN ('pending', 'executed')
+                 AND e.created_at > NOW() - INTERVAL '24 hours'
+               GROUP BY e.token_address
+             ) t) AS spent_today_tokens
+     FROM smart_account_session_permissions p
+     WHERE p.user_id = $1
+     ORDER BY p.created_at DESC`,
+    [userId]
+  );
+
+  return rows.map(mapPermission);
+}
+
+/**
+ * Revoke a session permission (takes effect immediately)
+ */
+export async function revokeSessionPermission(permissionId: string, userId: string): Promise<void> {
+  const row = await queryOne<{ id: string }>(
+    `UPDATE smart_account_session_permissions
+     SET revoked_at = NOW()
+     WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL
+     RETURNING id`,
+    [permissionId, userId]
+  );
+
+  if (!row) {
+    throw new Error('Permission not found or already revoked');
+  }
+
+  logger.info('Session permission revoked', { permissionId, userId });
+}
+
+// ============================================================================
+// Enforcement
+// ============================================================================
+
+/**
+ * Check a pending smart account call against the user's permissions.
+ *
+ * Returns null when the user has never created a permission (unrestricted),
+ * otherwise reserves the value (and any ERC-20 amount the call moves) against
+ * the first matching permission and returns the execution id to settle with
+ * completeSessionExecution(). Throws when no active permission allows the
+ * call, or none has room under its limits.
+ */
+export async function authorizeSessionExecution(params: {
+  userId: string;
+  chainId: number;
+  to: Address;
+  data: `0x${string}`;
+  value: bigint;
+}): Promise<string | null> {
+  const movement = decodeTokenMovement(params.to, params.data);
+
+  return await transaction(async (client) => {
+    const { rows } = await client.queryObject<DbSessionPermission>(
+      `SELECT *, NULL AS spent_today_wei, NULL AS spent_today_tokens
+       FROM smart_account_session_permissions
+       WHERE user_id = $1
+       ORDER BY created_at ASC
+       FOR UPDATE`,
+      [params.userId]
+    );
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const now = new Date();
+    const candidates = rows
+      .map(mapPermission)
+      .filter(p =>
+        isPermissionActive(p, now) &&
+        (!p.chainIds || p.chainIds.includes(params.chainId)) &&
+        matchesAllowedCall(p.allowedCalls, params.to, params.data)
+      );
+
+    if (candidates.length === 0) {
+      logger.warn('Smart account call blocked by session permissions', {
+        userId: params.userId,
+        chainId: params.chainId,
+        to: params.to,
+        selector: getCallSelector(params.data),
+      });
+      throw new Error('No active session permission allows this call');
+    }
+
+    for (const permission of candidates) {
+      const { rows: spent } = await client.queryObject<{ total: string }>(
+        `SELECT COALESCE(SUM(value_wei), 0)::text AS total
+         FROM smart_account_session_executions
+         WHERE permission_id = $1
+           AND status IN ('pending', 'executed')
+           AND created_at > NOW() - INTERVAL '24 hours'`,
+        [permission.id]
+      );
+
+      if (BigInt(spent[0].total) + params.value > permission.dailyValueLimitWei) {
+        continue;
+      }
+
+      if (movement) {
+        const limit = permission.dailyTokenLimits.find(l => l.token === movement.token);
+        if (!limit) {
+          continue;
+        }
+
+        const { rows: spentTokens } = await client.queryObject<{ total: string }>(
+          `SELECT COALESCE(SUM(token_amount), 0)::text AS total
+           FROM smart_account_session_executions
+           WHERE permission_id = $1
+             AND token_address = $2
+             AND status IN ('pending', 'executed')
+             AND created_at > NOW() - INTERVAL '24 hours'`,
+          [permission.id, movement.token]
+        );
+
+        if (BigInt(spentTokens[0].total) + movement.amount > limit.dailyLimit) {
+          continue;
+        }
+      }
+
+      const { rows: inserted } = await client.queryObject<{ id: string }>(
+        `INSERT INTO smart_account_session_executions (
+          permission_id, user_id, chain_id, target_address, selector, value_wei,
+          token_address, token_amount
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING id`,
+        [
+          permission.id,
+          params.userId,
+          params.chainId,
+          params.to.toLowerCase(),
+          getCallSelector(params.data),
+          params.value.toString(),
+          movement?.token ?? null,
+          movement?.amount.toString() ?? null,
+        ]
+      );
+
+      return inserted[0].id;
+    }
+
+    if (movement && !candidates.some(p => p.dailyTokenLimits.some(l => l.token === movement.token))) {
+      logger.warn('Token-moving call blocked without a token limit', {
+        userId: params.userId,
+        chainId: params.chainId,
+        token: movement.token,
+      });
+      throw new Error('No matching session permission sets a daily limit for this token');
+    }
+
+    throw new Error('Daily spending limit reached for this session permission');
+  });
+}
+
+/**
+ * Record the outcome of an authorized execution.
+ * Failed executions stop counting toward the daily limit.
+ */
+export async function completeSessionExecution(
+  executionId: string,
+  result: { txHash: string } | { error: string }
+): Promise<void> {
+  if ('txHash' in result) {
+    await execute(
+      `UPDATE smart_account_session_executions
+       SET status = 'executed', tx_hash = $2
+       WHERE id = $1`,
+      [executionId, result.txHash]
+    );
+  } else {
+    await execute(
+      `UPDATE smart_account_session_executions
+       SET status = 'failed', error_message = $2
+       WHERE id = $1`,
+      [executionId, result.error]
+    );
+  }
+}
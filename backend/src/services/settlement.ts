@@ -1,14 +1,15 @@
 /**
  * Fiat Payment Settlement Service
  *
- * Handles the 7-day settlement delay for fiat payments to protect against chargebacks.
- * Payments are held in the database until the settlement period passes, then
- * executed on-chain at the current exchange rate.
+ * Holds fiat payments for a risk-based settlement delay to protect against
+ * chargebacks (see riskScore.ts). Payments are held in the database until the
+ * settlement period passes, then executed on-chain at the current exchange rate.
  */
 
 import { query, queryOne, execute, transaction } from '../db/index.ts';
 import { logger } from '../utils/logger.ts';
 import { getConfig } from '../utils/config.ts';
+import { calculateSettlementDelayDays, type RiskFactor } from './riskScore.ts';
 import {
   createPublicClient,
   createWalletClient,
@@ -95,7 +96,7 @@ interface SettlementResult {
 
 /**
  * Create a pending fiat payment after Stripe payment succeeds
- * Settlement delay is calculated based on Stripe Radar risk score:
+ * Settlement delay is calculated from the payment's risk score:
  * - Low risk (0-20): Immediate settlement (0 days)
  * - Medium risk (21-40): 7 days
  * - Higher risk (41-60): 30 days
@@ -112,7 +113,10 @@ export async function createPendingPayment(params: {
   chainId: number;
   memo?: string;
   beneficiaryAddress: string;
+  cardFingerprint?: string | null;
   riskScore?: number;
+  radarRiskScore?: number | null;
+  riskFactors?: RiskFactor[];
   settlementDelayDays?: number;
 }): Promise<string> {
   // Use provided delay or default
@@ -125,8 +129,9 @@ export async function createPendingPayment(params: {
     `INSERT INTO pending_fiat_payments (
       user_id, stripe_payment_intent_id, stripe_charge_id,
       amount_usd, amount_cents, project_id, chain_id, memo,
-      beneficiary_address, settles_at, risk_score, settlement_delay_days
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      beneficiary_address, settles_at, risk_score, settlement_delay_days,
+      model_risk_score, radar_risk_score, risk_factors, card_fingerprint
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $11, $13, $14, $15)
     RETURNING id`,
     [
       params.userId,
@@ -141,6 +146,9 @@ export async function createPendingPayment(params: {
       settlesAt,
       params.riskScore ?? null,
       delayDays,
+      params.radarRiskScore ?? null,
+      JSON.stringify(params.riskFactors ?? []),
+      params.cardFingerprint ?? null,
     ]
   );
 
@@ -157,6 +165,49 @@ export async function createPendingPayment(params: {
   return row.id;
 }
 
+/**
+ * Override a pending payment's risk score (admin action)
+ * Moves the payment to the delay tier of the new score, counted from when it was paid.
+ * Returns null if the payment is not awaiting settlement.
+ */
+export async function overridePaymentRiskScore(params: {
+  paymentId: string;
+  riskScore: number;
+  reason: string;
+  adminUserId: string;
+}): Promise<{ riskScore: number; settlementDelayDays: number; settlesAt: Date } | null> {
+  const delayDays = calculateSettlementDelayDays(params.riskScore);
+
+  const row = await queryOne<{ settles_at: Date }>(
+    `UPDATE pending_fiat_payments
+     SET risk_score = $2,
+         settlement_delay_days = $3,
+         settles_at = paid_at + make_interval(days => $3),
+         risk_overridden_by = $4,
+         risk_overridden_at = NOW(),
+         risk_override_reason = $5,
+         updated_at = NOW()
+     WHERE id = $1 AND status = 'pending_settlement'
+     RETURNING settles_at`,
+    [params.paymentId, params.riskScore, delayDays, params.adminUserId, params.reason]
+  );
+
+  if (!row) return null;
+
+  logger.info('Payment risk score overridden', {
+    paymentId: params.paymentId,
+    riskScore: params.riskScore,
+    settlementDelayDays: delayDays,
+    adminUserId: params.adminUserId,
+  });
+
+  return {
+    riskScore: params.riskScore,
+    settlementDelayDays: delayDays,
+    settlesAt: new Date(row.settles_at),
+  };
+}
+
 /**
  * Mark payment as disputed (chargeback received)
  * This prevents the payment from ever being settled
@@ -238,7 +289,7 @@ export async function markPaymentRefunded(
 }
 
 /**
- * Get payments ready for settlement (past 7-day hold)
+ * Get payments ready for settlement (past their risk-based hold)
  */
 export async function getPaymentsReadyForSettlement(): Promise<PendingPayment[]> {
   return query<PendingPayment>(
@@ -7,6 +7,7 @@
  * - Lazy deployment (only deploy when user takes action)
  * - Gas sponsorship via paymaster for managed accounts only
  * - One-transaction custody transfer to user's EOA
+ * - Optional user-defined session permissions (see sessionPermissions.ts)
  */
 
 import {
@@ -34,6 +35,7 @@ import {
 import { query, queryOne, execute, transaction } from '../db/index.ts';
 import { logger } from '../utils/logger.ts';
 import { getConfig } from '../utils/config.ts';
+import { authorizeSessionExecution, completeSessionExecution } from './sessionPermissions.ts';
 
 // ============================================================================
 // Chain Configuration
@@ -540,6 +542,7 @@ export function getFactoryDeployData(
  * Execute an arbitrary transaction via the smart account
  * System sponsors gas for managed accounts
  * Used for: paying into projects, approving tokens, etc.
+ * Must match one of the user's session permissions if they have any.
  */
 export async function executeTransaction(params: {
   userId: string;
@@ -557,33 +560,53 @@ export async function executeTransaction(params: {
     throw new Error('Account is not managed - use your own wallet');
   }
 
-  // Ensure deployed
-  const accountAddress = await ensureDeployed(userId, chainId);
+  // Enforce user-defined scopes before touching the chain
+  const sessionExecutionId = await authorizeSessionExecution({ userId, chainId, to, data, value });
 
-  // Check if account has enough ETH for the value (if sending ETH)
-  if (value > 0n) {
-    const publicClient = getPublicClient(chainId);
-    const balance = await publicClient.getBalance({ address: accountAddress });
-    if (balance < value) {
-      throw new Error(`Insufficient ETH balance: have ${balance}, need ${value}`);
+  let txHash: Hash | undefined;
+  let accountAddress: Address;
+
+  try {
+    // Ensure deployed
+    accountAddress = await ensureDeployed(userId, chainId);
+
+    // Check if account has enough ETH for the value (if sending ETH)
+    if (value > 0n) {
+      const publicClient = getPublicClient(chainId);
+      const balance = await publicClient.getBalance({ address: accountAddress });
+      if (balance < value) {
+        throw new Error(`Insufficient ETH balance: have ${balance}, need ${value}`);
+      }
     }
-  }
 
-  // Execute via the smart account
-  const config = getConfig();
-  const systemKey = config.reservesPrivateKey as `0x${string}`;
-  const walletClient = getWalletClient(chainId, systemKey);
-  const publicClient = getPublicClient(chainId);
+    // Execute via the smart account
+    const config = getConfig();
+    const systemKey = config.reservesPrivateKey as `0x${string}`;
+    const walletClient = getWalletClient(chainId, systemKey);
+    const publicClient = getPublicClient(chainId);
 
-  const txHash = await walletClient.writeContract({
-    address: accountAddress,
-    abi: SIMPLE_ACCOUNT_ABI,
-    functionName: 'execute',
-    args: [to, value, data],
-  });
+    txHash = await walletClient.writeContract({
+      address: accountAddress,
+      abi: SIMPLE_ACCOUNT_ABI,
+      functionName: 'execute',
+      args: [to, value, data],
+    });
 
-  // Wait for confirmation
-  await publicClient.waitForTransactionReceipt({ hash: txHash });
+    // Wait for confirmation
+    await publicClient.waitForTransactionReceipt({ hash: txHash });
+  } catch (error) {
+    if (sessionExecutionId) {
+      // Once broadcast the value may still move, so keep it counted
+      await completeSessionExecution(sessionExecutionId, txHash
+        ? { txHash }
+        : { error: error instanceof Error ? error.message : 'Execution failed' });
+    }
+    throw error;
+  }
+
+  if (sessionExecutionId) {
+    await completeSessionExecution(sessionExecutionId, { txHash });
+  }
 
   logger.info('Transaction executed via smart account', {
     userId,
@@ -592,6 +615,7 @@ export async function executeTransaction(params: {
     to,
     value: value.toString(),
     txHash,
+    sessionExecutionId,
   });
 
   return { txHash, accountAddress };
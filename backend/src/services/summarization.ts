@@ -218,11 +218,12 @@ export async function checkAndTriggerSummarization(chatId: string): Promise<bool
     unsummarized_count: number;
   }>(
     `SELECT
-       (SELECT COUNT(*) FROM multi_chat_messages WHERE chat_id = $1 AND deleted_at IS NULL) as total_count,
+       (SELECT COUNT(*) FROM multi_chat_messages WHERE chat_id = $1 AND deleted_at IS NULL AND branch_id IS NULL) as total_count,
        mc.last_summarized_message_id as last_summarized_id,
        (SELECT COUNT(*) FROM multi_chat_messages m
         WHERE m.chat_id = $1
         AND m.deleted_at IS NULL
+        AND m.branch_id IS NULL
         AND (mc.last_summarized_message_id IS NULL OR m.created_at > (
           SELECT created_at FROM multi_chat_messages WHERE id = mc.last_summarized_message_id
         ))
@@ -277,6 +278,7 @@ async function performSummarization(chatId: string): Promise<void> {
        FROM multi_chat_messages
        WHERE chat_id = $1
        AND deleted_at IS NULL
+       AND branch_id IS NULL
        ${latestSummary?.covers_to_created_at
          ? `AND created_at > $2`
          : ''}
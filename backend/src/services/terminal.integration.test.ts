@@ -0,0 +1,296 @@
+/**
+ * Terminal Integration Tests
+ *
+ * Tests the money-moving refund path for Juice-paid sessions:
+ * - Partial and full refunds move Juice from merchant to payer
+ * - Refunds can't exceed what was paid
+ * - An underfunded merchant leaves no refund record behind
+ *
+ * And offline sessions signed with the terminal's paired key:
+ * - Claiming and reconciling create each session once
+ * - Forged, foreign and unpaired-key sessions are rejected
+ *
+ * These tests require a running database connection.
+ */
+
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { query, queryOne, execute } from '../db/index.ts';
+import { SKIP_DB_TESTS, exportOfflinePublicKey, signOfflineSession } from '../test/helpers.ts';
+import {
+  refundSession,
+  claimOfflineSession,
+  reconcileOfflineSessions,
+  regenerateApiKey,
+  setOfflineSigningKey,
+  type OfflineSessionPayload,
+} from './terminal.ts';
+
+// ============================================================================
+// Test Setup
+// ============================================================================
+
+const MERCHANT_ID = '00000000-0000-0000-0000-000000000021';
+const PAYER_ID = '00000000-0000-0000-0000-000000000022';
+
+async function ensureTestUsersExist(): Promise<void> {
+  for (const userId of [MERCHANT_ID, PAYER_ID]) {
+    await execute(
+      `INSERT INTO users (id, email, email_verified, privacy_mode)
+       VALUES ($1, $2, true, 'open_book')
+       ON CONFLICT (id) DO NOTHING`,
+      [userId, `test-${userId.slice(-4)}@juice.test`]
+    );
+  }
+}
+
+async function cleanupTestData(): Promise<void> {
+  // Devices cascade to sessions and their refunds
+  await execute(`DELETE FROM terminal_devices WHERE merchant_id = $1`, [MERCHANT_ID]);
+  await execute(`DELETE FROM juice_spends WHERE user_id = $1`, [PAYER_ID]);
+  await execute(`DELETE FROM juice_balances WHERE user_id = ANY($1)`, [[MERCHANT_ID, PAYER_ID]]);
+}
+
+// A completed $40 + $5 tip session the payer paid with Juice
+async function createJuiceSession(merchantBalance: number): Promise<string> {
+  await execute(
+    `INSERT INTO juice_balances (user_id, balance) VALUES ($1, $2), ($3, 0)`,
+    [MERCHANT_ID, merchantBalance, PAYER_ID]
+  );
+
+  const [device] = await query<{ id: string }>(
+    `INSERT INTO terminal_devices (merchant_id, name, project_id, api_key_hash, api_key_prefix)
+     VALUES ($1, 'Test terminal', 1, $2, 'testkey0')
+     RETURNING id`,
+    [MERCHANT_ID, '0'.repeat(64)]
+  );
+
+  const [spend] = await query<{ id: string }>(
+    `INSERT INTO juice_spends (user_id, project_id, chain_id, beneficiary_address, juice_amount, status)
+     VALUES ($1, 1, 42161, '0xbeneficiary', 45, 'completed')
+     RETURNING id`,
+    [PAYER_ID]
+  );
+
+  const [session] = await query<{ id: string }>(
+    `INSERT INTO payment_sessions (
+      device_id, amount_usd, tip_usd, status, consumer_id, payment_method,
+      juice_spend_id, expires_at, completed_at
+    ) VALUES ($1, 40, 5, 'completed', $2, 'juice', $3, NOW() + INTERVAL '10 minutes', NOW())
+    RETURNING id`,
+    [device.id, PAYER_ID, spend.id]
+  );
+
+  return session.id;
+}
+
+// A terminal with a paired offline signing key
+async function createSigningDevice(): Promise<{ deviceId: string; keyPair: CryptoKeyPair }> {
+  const [device] = await query<{ id: string }>(
+    `INSERT INTO terminal_devices (merchant_id, name, project_id, api_key_hash, api_key_prefix)
+     VALUES ($1, 'Offline terminal', 1, $2, 'testkey1')
+     RETURNING id`,
+    [MERCHANT_ID, crypto.randomUUID().replace(/-/g, '').padEnd(64, '0')]
+  );
+
+  const keyPair = await crypto.subtle.generateKey(
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    true,
+    ['sign', 'verify']
+  );
+  await setOfflineSigningKey(device.id, await exportOfflinePublicKey(keyPair));
+
+  return { deviceId: device.id, keyPair };
+}
+
+function offlineSession(
+  keyPair: CryptoKeyPair,
+  deviceId: string,
+  createdAt = Date.now()
+): Promise<OfflineSessionPayload> {
+  return signOfflineSession(keyPair.privateKey, {
+    id: crypto.randomUUID(),
+    deviceId,
+    amountUsd: 12.5,
+    lineItems: null,
+    nonce: crypto.randomUUID().replace(/-/g, ''),
+    createdAt,
+    expiresAt: createdAt + 10 * 60 * 1000,
+  });
+}
+
+async function getBalance(userId: string): Promise<number> {
+  const row = await queryOne<{ balance: string }>(
+    `SELECT balance FROM juice_balances WHERE user_id = $1`,
+    [userId]
+  );
+  return parseFloat(row!.balance);
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+Deno.test({
+  ignore: SKIP_DB_TESTS,
+  name: 'Terminal Integration - Juice refunds move balance and track the session total',
+  // First test initializes DB pool, which opens TCP connections
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    await ensureTestUsersExist();
+    await cleanupTestData();
+    const sessionId = await createJuiceSession(100);
+
+    const partial = await refundSession({ sessionId, merchantId: MERCHANT_ID, amountUsd: 15 });
+    assertEquals(partial.session.status, 'partially_refunded');
+    assertEquals(partial.refund.status, 'completed');
+    assertEquals(await getBalance(MERCHANT_ID), 85);
+    assertEquals(await getBalance(PAYER_ID), 15);
+
+    // Defaults to the rest, tip included
+    const rest = await refundSession({ sessionId, merchantId: MERCHANT_ID });
+    assertEquals(rest.refund.amountUsd, 30);
+    assertEquals(rest.session.status, 'refunded');
+    assertEquals(await getBalance(MERCHANT_ID), 55);
+    assertEquals(await getBalance(PAYER_ID), 45);
+
+    await assertRejects(
+      () => refundSession({ sessionId, merchantId: MERCHANT_ID, amountUsd: 1 }),
+      Error,
+      'not refundable'
+    );
+
+    await cleanupTestData();
+  },
+});
+
+Deno.test({
+  ignore: SKIP_DB_TESTS,
+  name: 'Terminal Integration - Refunds over the paid amount are rejected',
+  async fn() {
+    await ensureTestUsersExist();
+    await cleanupTestData();
+    const sessionId = await createJuiceSession(100);
+
+    await assertRejects(
+      () => refundSession({ sessionId, merchantId: MERCHANT_ID, amountUsd: 45.01 }),
+      Error,
+      'Refund amount must be between'
+    );
+    assertEquals(await getBalance(MERCHANT_ID), 100);
+
+    await cleanupTestData();
+  },
+});
+
+Deno.test({
+  ignore: SKIP_DB_TESTS,
+  name: 'Terminal Integration - Underfunded merchant leaves no refund record',
+  async fn() {
+    await ensureTestUsersExist();
+    await cleanupTestData();
+    const sessionId = await createJuiceSession(10);
+
+    await assertRejects(
+      () => refundSession({ sessionId, merchantId: MERCHANT_ID, amountUsd: 20 }),
+      Error,
+      'Insufficient Juice balance'
+    );
+
+    const refunds = await query(`SELECT id FROM payment_session_refunds WHERE session_id = $1`, [sessionId]);
+    assertEquals(refunds.length, 0);
+
+    const session = await queryOne<{ status: string; refunded_amount_usd: string }>(
+      `SELECT status, refunded_amount_usd FROM payment_sessions WHERE id = $1`,
+      [sessionId]
+    );
+    assertEquals(session?.status, 'completed');
+    assertEquals(parseFloat(session!.refunded_amount_usd), 0);
+    assertEquals(await getBalance(MERCHANT_ID), 10);
+    assertEquals(await getBalance(PAYER_ID), 0);
+
+    await cleanupTestData();
+  },
+});
+
+Deno.test({
+  ignore: SKIP_DB_TESTS,
+  name: 'Terminal Integration - Offline sessions are recorded once, whoever reports them first',
+  async fn() {
+    await ensureTestUsersExist();
+    await cleanupTestData();
+    const { deviceId, keyPair } = await createSigningDevice();
+
+    // Consumer claims first, terminal syncs later
+    const claimedPayload = await offlineSession(keyPair, deviceId);
+    const claimed = await claimOfflineSession(claimedPayload);
+    assertEquals(claimed.id, claimedPayload.id);
+    assertEquals(claimed.createdOffline, true);
+    assertEquals((await claimOfflineSession(claimedPayload)).id, claimed.id);
+
+    // Never claimed; its window passed while the terminal was offline
+    const expiredPayload = await offlineSession(keyPair, deviceId, Date.now() - 20 * 60 * 1000);
+    // Cancelled on the terminal before anyone paid
+    const cancelledPayload = await offlineSession(keyPair, deviceId);
+
+    const results = await reconcileOfflineSessions(deviceId, [
+      { payload: claimedPayload },
+      { payload: expiredPayload },
+      { payload: cancelledPayload, cancelled: true },
+    ]);
+    assertEquals(results.map((r) => [r.result, r.status]), [
+      ['duplicate', 'pending'],
+      ['created', 'expired'],
+      ['created', 'cancelled'],
+    ]);
+
+    const again = await reconcileOfflineSessions(deviceId, [{ payload: expiredPayload }]);
+    assertEquals(again[0].result, 'duplicate');
+
+    const synced = await query(
+      `SELECT id FROM payment_sessions WHERE device_id = $1 AND synced_at IS NOT NULL`,
+      [deviceId]
+    );
+    assertEquals(synced.length, 3);
+
+    await cleanupTestData();
+  },
+});
+
+Deno.test({
+  ignore: SKIP_DB_TESTS,
+  name: 'Terminal Integration - Offline sessions need a signature from the paired key',
+  async fn() {
+    await ensureTestUsersExist();
+    await cleanupTestData();
+    const { deviceId, keyPair } = await createSigningDevice();
+    const other = await createSigningDevice();
+
+    const payload = await offlineSession(keyPair, deviceId);
+    const tampered = { ...payload, amountUsd: 1.25 };
+    const foreign = await offlineSession(other.keyPair, other.deviceId);
+    // Signed with another terminal's key but claiming to be this one
+    const forged = await signOfflineSession(other.keyPair.privateKey, { ...payload, id: crypto.randomUUID() });
+
+    const results = await reconcileOfflineSessions(deviceId, [
+      { payload: tampered },
+      { payload: foreign },
+      { payload: forged },
+    ]);
+    assertEquals(results.map((r) => [r.result, r.error]), [
+      ['rejected', 'Invalid session signature'],
+      ['rejected', 'Session belongs to another terminal'],
+      ['rejected', 'Invalid session signature'],
+    ]);
+    await assertRejects(() => claimOfflineSession(tampered), Error, 'Invalid session signature');
+
+    // Rotating the API key unpairs the signing key
+    await regenerateApiKey(deviceId, MERCHANT_ID);
+    await assertRejects(() => claimOfflineSession(payload), Error, 'no offline signing key');
+
+    const recorded = await query(`SELECT id FROM payment_sessions WHERE device_id = $1`, [deviceId]);
+    assertEquals(recorded.length, 0);
+
+    await cleanupTestData();
+  },
+});
@@ -0,0 +1,139 @@
+import { assertEquals, assertRejects, assertThrows } from 'std/assert/mod.ts';
+import {
+  getSettlementReport,
+  validateLineItems,
+  validateTip,
+  verifyOfflineSignature,
+} from './terminal.ts';
+import { exportOfflinePublicKey, signOfflineSession } from '../test/helpers.ts';
+import { ValidationError } from '../errors/AppError.ts';
+
+const ECDSA_P256 = { name: 'ECDSA', namedCurve: 'P-256' };
+
+// ============================================================================
+// Line Item Tests
+// ============================================================================
+
+Deno.test('terminal - validateLineItems', async (t) => {
+  await t.step('accepts items that sum to the amount', () => {
+    validateLineItems(12.5, [
+      { name: 'Coffee', quantity: 2, unitPriceUsd: 4.25 },
+      { name: 'Muffin', quantity: 1, unitPriceUsd: 4 },
+    ]);
+  });
+
+  await t.step('compares to the cent, ignoring float noise', () => {
+    validateLineItems(0.3, [
+      { name: 'A', quantity: 1, unitPriceUsd: 0.1 },
+      { name: 'B', quantity: 1, unitPriceUsd: 0.2 },
+    ]);
+  });
+
+  await t.step('skips sessions without line items', () => {
+    validateLineItems(10, undefined);
+    validateLineItems(10, []);
+  });
+
+  await t.step('rejects items that do not sum to the amount', () => {
+    assertThrows(
+      () => validateLineItems(10, [{ name: 'Coffee', quantity: 3, unitPriceUsd: 4.25 }]),
+      Error,
+      'Line items total $12.75 does not match amount'
+    );
+    assertThrows(
+      () => validateLineItems(10, [{ name: 'Coffee', quantity: 1, unitPriceUsd: 9.99 }]),
+      Error,
+      'does not match amount'
+    );
+  });
+});
+
+// ============================================================================
+// Tip Tests
+// ============================================================================
+
+Deno.test('terminal - validateTip', async (t) => {
+  await t.step('rounds tips to cents', () => {
+    assertEquals(validateTip(1.236, true), 1.24);
+    assertEquals(validateTip(2.5, true), 2.5);
+  });
+
+  await t.step('treats a missing tip as zero', () => {
+    assertEquals(validateTip(undefined, false), 0);
+    assertEquals(validateTip(0, false), 0);
+  });
+
+  await t.step('rejects tips on terminals without tipping', () => {
+    assertThrows(() => validateTip(1, false), Error, 'Tips are not enabled');
+  });
+
+  await t.step('rejects negative tips', () => {
+    assertThrows(() => validateTip(-1, true), Error, 'Tip cannot be negative');
+  });
+});
+
+// ============================================================================
+// Offline Signature Tests
+// ============================================================================
+
+Deno.test('terminal - verifyOfflineSignature', async (t) => {
+  const keyPair = await crypto.subtle.generateKey(ECDSA_P256, true, ['sign', 'verify']);
+  const publicKey = await exportOfflinePublicKey(keyPair);
+  const payload = await signOfflineSession(keyPair.privateKey, {
+    id: '7d7f7c4e-2b1a-4a8e-9c1d-0f3e5a6b7c8d',
+    deviceId: '3c2b1a09-8f7e-4d6c-b5a4-938271605f4e',
+    amountUsd: 12.5,
+    lineItems: [{ name: 'Coffee', quantity: 2, unitPriceUsd: 6.25 }],
+    nonce: '0123456789abcdef0123456789abcdef',
+    createdAt: 1_760_000_000_000,
+    expiresAt: 1_760_000_600_000,
+  });
+
+  await t.step('accepts a session signed with the paired key', async () => {
+    assertEquals(await verifyOfflineSignature(payload, publicKey), true);
+  });
+
+  await t.step('rejects a session whose signed fields were changed', async () => {
+    assertEquals(await verifyOfflineSignature({ ...payload, amountUsd: 1.25 }, publicKey), false);
+    assertEquals(await verifyOfflineSignature({ ...payload, lineItems: null }, publicKey), false);
+    assertEquals(await verifyOfflineSignature({ ...payload, expiresAt: payload.expiresAt + 1 }, publicKey), false);
+  });
+
+  await t.step('rejects a session signed with another key', async () => {
+    const other = await crypto.subtle.generateKey(ECDSA_P256, true, ['sign', 'verify']);
+    const forged = await signOfflineSession(other.privateKey, payload);
+    assertEquals(await verifyOfflineSignature(forged, publicKey), false);
+  });
+
+  await t.step('rejects malformed keys and signatures', async () => {
+    assertEquals(await verifyOfflineSignature(payload, '04' + '00'.repeat(64)), false);
+    assertEquals(await verifyOfflineSignature({ ...payload, signature: '00'.repeat(64) }, publicKey), false);
+  });
+});
+
+// ============================================================================
+// Settlement Report Tests
+// ============================================================================
+
+Deno.test('terminal - getSettlementReport', async (t) => {
+  const merchantId = '00000000-0000-0000-0000-000000000021';
+
+  // Rejected before anything is queried
+  await t.step('rejects bad ranges and timezones as validation errors', async () => {
+    await assertRejects(
+      () => getSettlementReport(merchantId, { from: '2026-01-01', to: '2026-01-01', timezone: 'Mars/Olympus' }),
+      ValidationError,
+      'Unknown timezone'
+    );
+    await assertRejects(
+      () => getSettlementReport(merchantId, { from: '2026-02-01', to: '2026-01-01', timezone: 'UTC' }),
+      ValidationError,
+      'Invalid date range'
+    );
+    await assertRejects(
+      () => getSettlementReport(merchantId, { from: '2025-01-01', to: '2026-01-02', timezone: 'UTC' }),
+      ValidationError,
+      'cannot exceed'
+    );
+  });
+});
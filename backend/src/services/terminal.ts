@@ -11,9 +11,12 @@
 
 import { query, queryOne, execute, transaction } from '../db/index.ts';
 import { logger } from '../utils/logger.ts';
-import { spendJuice } from './juice.ts';
+import { ValidationError } from '../errors/AppError.ts';
+import { spendJuice, reverseJuiceSpend } from './juice.ts';
 import { randomBytes, createHash } from 'node:crypto';
+import { Buffer } from 'node:buffer';
 import { broadcastSessionStatus } from './terminalWs.ts';
+import { emitSessionEvent } from './webhooks.ts';
 
 // Session expiry time in minutes
 const SESSION_EXPIRY_MINUTES = 10;
@@ -21,6 +24,17 @@ const SESSION_EXPIRY_MINUTES = 10;
 // API key prefix length for identification
 const API_KEY_PREFIX_LENGTH = 8;
 
+// Offline sessions: allowed terminal clock drift, and how long the terminal
+// may hold a session in its queue before it can no longer be reconciled
+const OFFLINE_CLOCK_SKEW_MS = 5 * 60 * 1000;
+const OFFLINE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Sessions that can still be (further) refunded
+const REFUNDABLE_STATUSES = ['completed', 'partially_refunded'];
+
+// Sessions that represent a completed sale, regardless of later refunds
+const SETTLED_STATUSES_SQL = `('completed', 'partially_refunded', 'refunded')`;
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -34,6 +48,7 @@ export interface TerminalDevice {
   acceptedTokens: string[];
   apiKeyPrefix: string;
   isActive: boolean;
+  tipsEnabled: boolean;
   lastSeenAt: Date | null;
   createdAt: Date;
 }
@@ -44,12 +59,26 @@ export interface PaymentSession {
   amountUsd: number;
   token: string | null;
   tokenSymbol: string;
-  status: 'pending' | 'paying' | 'completed' | 'failed' | 'expired' | 'cancelled';
+  status:
+    | 'pending'
+    | 'paying'
+    | 'completed'
+    | 'failed'
+    | 'expired'
+    | 'cancelled'
+    | 'partially_refunded'
+    | 'refunded';
   consumerId: string | null;
   paymentMethod: 'juice' | 'wallet' | 'apple_pay' | 'google_pay' | null;
+  payerAddress: string | null;
   txHash: string | null;
   tokensIssued: string | null;
   juiceSpendId: string | null;
+  lineItems: SessionLineItem[] | null;
+  tipUsd: number;
+  refundedAmountUsd: number;
+  offlineNonce: string | null;
+  createdOffline: boolean;
   expiresAt: Date;
   completedAt: Date | null;
   createdAt: Date;
@@ -60,6 +89,22 @@ export interface PaymentSessionWithDetails extends PaymentSession {
   merchantName: string;
   projectId: number;
   chainId: number;
+  tipsEnabled: boolean;
+}
+
+export interface SessionRefund {
+  id: string;
+  sessionId: string;
+  merchantId: string;
+  amountUsd: number;
+  reason: string | null;
+  method: 'juice' | 'wallet';
+  status: 'pending' | 'completed' | 'failed';
+  refundAddress: string | null;
+  txHash: string | null;
+  errorMessage: string | null;
+  completedAt: Date | null;
+  createdAt: Date;
 }
 
 export interface CreateDeviceParams {
@@ -68,6 +113,13 @@ export interface CreateDeviceParams {
   projectId: number;
   chainId?: number;
   acceptedTokens?: string[];
+  tipsEnabled?: boolean;
+}
+
+export interface SessionLineItem {
+  name: string;
+  quantity: number;
+  unitPriceUsd: number;
 }
 
 export interface CreateSessionParams {
@@ -75,6 +127,39 @@ export interface CreateSessionParams {
   amountUsd: number;
   token?: string;
   tokenSymbol?: string;
+  lineItems?: SessionLineItem[]; // Must sum to amountUsd
+  // Offline sessions keep the id, nonce and timestamps chosen by the terminal
+  id?: string;
+  offlineNonce?: string;
+  createdAt?: Date;
+  expiresAt?: Date;
+}
+
+/**
+ * Session created locally by a terminal without connectivity.
+ * Signed with HMAC-SHA256 keyed by the SHA-256 of the device API key.
+ */
+export interface OfflineSessionPayload {
+  id: string;
+  deviceId: string;
+  amountUsd: number;
+  lineItems: SessionLineItem[] | null;
+  nonce: string;
+  createdAt: number; // Unix ms, terminal clock
+  expiresAt: number; // Unix ms, terminal clock
+  signature: string; // Hex ECDSA P-256 signature, r || s
+}
+
+export interface OfflineSyncEntry {
+  payload: OfflineSessionPayload;
+  cancelled?: boolean; // Cancelled on the terminal before it came back online
+}
+
+export interface OfflineSyncResult {
+  id: string;
+  result: 'created' | 'duplicate' | 'conflict' | 'rejected';
+  status?: PaymentSession['status'];
+  error?: string;
 }
 
 export interface PayWithJuiceParams {
@@ -82,6 +167,16 @@ export interface PayWithJuiceParams {
   consumerId: string;
   beneficiaryAddress: string;
   memo?: string;
+  tipUsd?: number;
+}
+
+export interface RefundSessionParams {
+  sessionId: string;
+  merchantId: string;
+  deviceId?: string; // Set when a terminal issues the refund; must match the session's device
+  amountUsd?: number; // Defaults to the remaining refundable amount
+  reason?: string;
+  refundAddress?: string; // Wallet refunds only; defaults to the payer address
 }
 
 // ============================================================================
@@ -118,15 +213,16 @@ export async function registerDevice(
     accepted_tokens: string[];
     api_key_prefix: string;
     is_active: boolean;
+    tips_enabled: boolean;
     last_seen_at: string | null;
     created_at: string;
   }>(
     `INSERT INTO terminal_devices (
       merchant_id, name, project_id, chain_id, accepted_tokens,
-      api_key_hash, api_key_prefix
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      api_key_hash, api_key_prefix, tips_enabled
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
     RETURNING id, merchant_id, name, project_id, chain_id, accepted_tokens,
-              api_key_prefix, is_active, last_seen_at, created_at`,
+              api_key_prefix, is_active, tips_enabled, last_seen_at, created_at`,
     [
       params.merchantId,
       params.name,
@@ -135,6 +231,7 @@ export async function registerDevice(
       acceptedTokens,
       hash,
       prefix,
+      params.tipsEnabled ?? false,
     ]
   );
 
@@ -168,11 +265,12 @@ export async function getDevice(deviceId: string): Promise<TerminalDevice | null
     accepted_tokens: string[];
     api_key_prefix: string;
     is_active: boolean;
+    tips_enabled: boolean;
     last_seen_at: string | null;
     created_at: string;
   }>(
     `SELECT id, merchant_id, name, project_id, chain_id, accepted_tokens,
-            api_key_prefix, is_active, last_seen_at, created_at
+            api_key_prefix, is_active, tips_enabled, last_seen_at, created_at
      FROM terminal_devices WHERE id = $1`,
     [deviceId]
   );
@@ -193,11 +291,12 @@ export async function getMerchantDevices(merchantId: string): Promise<TerminalDe
     accepted_tokens: string[];
     api_key_prefix: string;
     is_active: boolean;
+    tips_enabled: boolean;
     last_seen_at: string | null;
     created_at: string;
   }>(
     `SELECT id, merchant_id, name, project_id, chain_id, accepted_tokens,
-            api_key_prefix, is_active, last_seen_at, created_at
+            api_key_prefix, is_active, tips_enabled, last_seen_at, created_at
      FROM terminal_devices
      WHERE merchant_id = $1
      ORDER BY created_at DESC`,
@@ -222,6 +321,7 @@ export async function authenticateDevice(apiKey: string): Promise<TerminalDevice
     accepted_tokens: string[];
     api_key_prefix: string;
     is_active: boolean;
+    tips_enabled: boolean;
     last_seen_at: string | null;
     created_at: string;
   }>(
@@ -229,7 +329,7 @@ export async function authenticateDevice(apiKey: string): Promise<TerminalDevice
      SET last_seen_at = NOW()
      WHERE api_key_hash = $1 AND is_active = TRUE
      RETURNING id, merchant_id, name, project_id, chain_id, accepted_tokens,
-               api_key_prefix, is_active, last_seen_at, created_at`,
+               api_key_prefix, is_active, tips_enabled, last_seen_at, created_at`,
     [hash]
   );
 
@@ -248,6 +348,7 @@ export async function updateDevice(
     chainId?: number;
     acceptedTokens?: string[];
     isActive?: boolean;
+    tipsEnabled?: boolean;
   }
 ): Promise<TerminalDevice | null> {
   const setClauses: string[] = [];
@@ -274,6 +375,10 @@ export async function updateDevice(
     setClauses.push(`is_active = $${paramIndex++}`);
     values.push(updates.isActive);
   }
+  if (updates.tipsEnabled !== undefined) {
+    setClauses.push(`tips_enabled = $${paramIndex++}`);
+    values.push(updates.tipsEnabled);
+  }
 
   if (setClauses.length === 0) {
     return getDevice(deviceId);
@@ -290,6 +395,7 @@ export async function updateDevice(
     accepted_tokens: string[];
     api_key_prefix: string;
     is_active: boolean;
+    tips_enabled: boolean;
     last_seen_at: string | null;
     created_at: string;
   }>(
@@ -297,7 +403,7 @@ export async function updateDevice(
      SET ${setClauses.join(', ')}, updated_at = NOW()
      WHERE id = $${paramIndex++} AND merchant_id = $${paramIndex}
      RETURNING id, merchant_id, name, project_id, chain_id, accepted_tokens,
-               api_key_prefix, is_active, last_seen_at, created_at`,
+               api_key_prefix, is_active, tips_enabled, last_seen_at, created_at`,
     values
   );
 
@@ -313,9 +419,10 @@ export async function regenerateApiKey(
 ): Promise<string | null> {
   const { key, hash, prefix } = generateApiKey();
 
+  // The old key may have leaked, so the terminal must pair a new signing key too
   const count = await execute(
     `UPDATE terminal_devices
-     SET api_key_hash = $1, api_key_prefix = $2, updated_at = NOW()
+     SET api_key_hash = $1, api_key_prefix = $2, offline_public_key = NULL, updated_at = NOW()
      WHERE id = $3 AND merchant_id = $4`,
     [hash, prefix, deviceId, merchantId]
   );
@@ -352,14 +459,46 @@ export async function deleteDevice(
 // Payment Session Management
 // ============================================================================
 
+/**
+ * Throw unless the line items add up to the session amount (to the cent).
+ */
+export function validateLineItems(amountUsd: number, lineItems: SessionLineItem[] | undefined): void {
+  if (!lineItems?.length) return;
+
+  const itemsTotal = roundUsd(
+    lineItems.reduce((sum, item) => sum + item.quantity * item.unitPriceUsd, 0)
+  );
+  if (itemsTotal !== roundUsd(amountUsd)) {
+    throw new Error(`Line items total $${itemsTotal.toFixed(2)} does not match amount`);
+  }
+}
+
+/**
+ * Round a tip to cents, throwing if the terminal doesn't accept tips.
+ */
+export function validateTip(tipUsd: number | undefined, tipsEnabled: boolean): number {
+  const tip = roundUsd(tipUsd ?? 0);
+  if (tip < 0) {
+    throw new Error('Tip cannot be negative');
+  }
+  if (tip > 0 && !tipsEnabled) {
+    throw new Error('Tips are not enabled for this terminal');
+  }
+  return tip;
+}
+
 /**
  * Create a new payment session
  */
 export async function createSession(
   params: CreateSessionParams
 ): Promise<PaymentSession> {
-  const expiresAt = new Date();
-  expiresAt.setMinutes(expiresAt.getMinutes() + SESSION_EXPIRY_MINUTES);
+  validateLineItems(params.amountUsd, params.lineItems);
+
+  const expiresAt = params.expiresAt ?? new Date();
+  if (!params.expiresAt) {
+    expiresAt.setMinutes(expiresAt.getMinutes() + SESSION_EXPIRY_MINUTES);
+  }
 
   const row = await queryOne<{
     id: string;
@@ -378,15 +517,24 @@ export async function createSession(
     created_at: string;
   }>(
     `INSERT INTO payment_sessions (
-      device_id, amount_usd, token, token_symbol, expires_at
-    ) VALUES ($1, $2, $3, $4, $5)
+      id, device_id, amount_usd, token, token_symbol, line_items, expires_at,
+      offline_nonce, created_offline, created_at
+    ) VALUES (
+      COALESCE($1::uuid, uuid_generate_v4()), $2, $3, $4, $5, $6, $7,
+      $8, $9, COALESCE($10::timestamptz, NOW())
+    )
     RETURNING *`,
     [
+      params.id || null,
       params.deviceId,
       params.amountUsd,
       params.token || null,
       params.tokenSymbol || 'ETH',
+      params.lineItems?.length ? JSON.stringify(params.lineItems) : null,
       expiresAt,
+      params.offlineNonce || null,
+      !!params.offlineNonce,
+      params.createdAt || null,
     ]
   );
 
@@ -399,6 +547,7 @@ export async function createSession(
     deviceId: params.deviceId,
     amountUsd: params.amountUsd,
     expiresAt: expiresAt.toISOString(),
+    offline: !!params.offlineNonce,
   });
 
   return mapSessionRow(row);
@@ -453,12 +602,14 @@ export async function getSessionWithDetails(
     merchant_name: string;
     project_id: number;
     chain_id: number;
+    tips_enabled: boolean;
   }>(
     `SELECT ps.*,
             td.merchant_id,
             u.email as merchant_name,
             td.project_id,
-            td.chain_id
+            td.chain_id,
+            td.tips_enabled
      FROM payment_sessions ps
      JOIN terminal_devices td ON td.id = ps.device_id
      JOIN users u ON u.id = td.merchant_id
@@ -474,6 +625,7 @@ export async function getSessionWithDetails(
     merchantName: row.merchant_name,
     projectId: row.project_id,
     chainId: row.chain_id,
+    tipsEnabled: row.tips_enabled,
   };
 }
 
@@ -523,7 +675,8 @@ export async function getMerchantSessions(
            td.merchant_id,
            u.email as merchant_name,
            td.project_id,
-           td.chain_id
+           td.chain_id,
+           td.tips_enabled
     FROM payment_sessions ps
     JOIN terminal_devices td ON td.id = ps.device_id
     JOIN users u ON u.id = td.merchant_id
@@ -558,6 +711,7 @@ export async function getMerchantSessions(
     merchant_name: string;
     project_id: number;
     chain_id: number;
+    tips_enabled: boolean;
   }>(sql, values);
 
   return rows.map((row) => ({
@@ -566,6 +720,7 @@ export async function getMerchantSessions(
     merchantName: row.merchant_name,
     projectId: row.project_id,
     chainId: row.chain_id,
+    tipsEnabled: row.tips_enabled,
   }));
 }
 
@@ -642,6 +797,9 @@ export async function updateSessionStatus(
       txHash: updates?.txHash,
       tokensIssued: updates?.tokensIssued,
     });
+    if (status === 'completed' || status === 'failed' || status === 'expired') {
+      await emitSessionEvent(`session.${status}`, sessionId);
+    }
   }
 
   return row ? mapSessionRow(row) : null;
@@ -674,17 +832,303 @@ export async function cancelSession(
  * Expire old pending sessions
  */
 export async function expireSessions(): Promise<number> {
-  const count = await execute(
+  const rows = await query<{ id: string }>(
     `UPDATE payment_sessions
      SET status = 'expired', updated_at = NOW()
-     WHERE status = 'pending' AND expires_at <= NOW()`
+     WHERE status = 'pending' AND expires_at <= NOW()
+     RETURNING id`
   );
 
-  if (count > 0) {
-    logger.info('Expired payment sessions', { count });
+  if (rows.length > 0) {
+    logger.info('Expired payment sessions', { count: rows.length });
+    for (const row of rows) {
+      await emitSessionEvent('session.expired', row.id);
+    }
   }
 
-  return count;
+  return rows.length;
+}
+
+// ============================================================================
+// Offline Sessions
+// ============================================================================
+
+/**
+ * Canonical message signed by the terminal for an offline session.
+ * Line items are flattened to tuples so key order can't change the signature.
+ */
+function offlineSessionMessage(payload: OfflineSessionPayload): string {
+  return JSON.stringify([
+    payload.id,
+    payload.deviceId,
+    roundUsd(payload.amountUsd).toFixed(2),
+    (payload.lineItems ?? []).map((item) => [item.name, item.quantity, item.unitPriceUsd]),
+    payload.nonce,
+    payload.createdAt,
+    payload.expiresAt,
+  ]);
+}
+
+// Terminal signing keys are P-256 public keys as an uncompressed point, in hex
+function importOfflinePublicKey(publicKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    Buffer.from(publicKey, 'hex'),
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['verify']
+  );
+}
+
+/**
+ * Check an offline session's ECDSA P-256 / SHA-256 signature (raw r || s, hex)
+ * against the device's public key.
+ */
+export async function verifyOfflineSignature(
+  payload: OfflineSessionPayload,
+  publicKey: string
+): Promise<boolean> {
+  try {
+    const key = await importOfflinePublicKey(publicKey);
+    return await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      Buffer.from(payload.signature, 'hex'),
+      new TextEncoder().encode(offlineSessionMessage(payload))
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pair the public half of the key a terminal signs offline sessions with.
+ * Called by the terminal itself; replaces any previously paired key.
+ */
+export async function setOfflineSigningKey(deviceId: string, publicKey: string): Promise<void> {
+  try {
+    await importOfflinePublicKey(publicKey);
+  } catch {
+    throw new Error('Invalid P-256 public key');
+  }
+
+  await execute(
+    `UPDATE terminal_devices SET offline_public_key = $1, updated_at = NOW() WHERE id = $2`,
+    [publicKey.toLowerCase(), deviceId]
+  );
+
+  logger.info('Terminal offline signing key paired', { deviceId });
+}
+
+/**
+ * Check an offline session's signature and time window.
+ * Returns an error message, or null if the payload is valid.
+ */
+async function verifyOfflineSession(payload: OfflineSessionPayload): Promise<string | null> {
+  const device = await queryOne<{ offline_public_key: string | null; is_active: boolean }>(
+    `SELECT offline_public_key, is_active FROM terminal_devices WHERE id = $1`,
+    [payload.deviceId]
+  );
+
+  if (!device) return 'Terminal not found';
+  if (!device.is_active) return 'Terminal is deactivated';
+  if (!device.offline_public_key) return 'Terminal has no offline signing key';
+
+  if (!(await verifyOfflineSignature(payload, device.offline_public_key))) {
+    return 'Invalid session signature';
+  }
+
+  const now = Date.now();
+  if (payload.expiresAt <= payload.createdAt) return 'Invalid session window';
+  if (payload.expiresAt - payload.createdAt > SESSION_EXPIRY_MINUTES * 60 * 1000) {
+    return 'Session window too long';
+  }
+  if (payload.createdAt > now + OFFLINE_CLOCK_SKEW_MS) return 'Session created in the future';
+  if (payload.createdAt < now - OFFLINE_MAX_AGE_MS) return 'Session too old to reconcile';
+
+  return null;
+}
+
+/**
+ * Record an offline session, or find the one already recorded for it.
+ * A different session holding the same id or device nonce is a conflict.
+ */
+async function upsertOfflineSession(
+  payload: OfflineSessionPayload
+): Promise<{ session: PaymentSession; result: 'created' | 'duplicate' | 'conflict' }> {
+  const findExisting = async () => {
+    const rows = await query<{
+      id: string;
+      device_id: string;
+      amount_usd: string;
+      token: string | null;
+      token_symbol: string;
+      status: string;
+      consumer_id: string | null;
+      payment_method: string | null;
+      tx_hash: string | null;
+      tokens_issued: string | null;
+      juice_spend_id: string | null;
+      offline_nonce: string | null;
+      expires_at: string;
+      completed_at: string | null;
+      created_at: string;
+    }>(
+      `SELECT * FROM payment_sessions
+       WHERE id = $1 OR (device_id = $2 AND offline_nonce = $3)`,
+      [payload.id, payload.deviceId, payload.nonce]
+    );
+    if (rows.length === 0) return null;
+
+    const sessions = rows.map(mapSessionRow);
+    const match = sessions.find((s) =>
+      s.id === payload.id &&
+      s.deviceId === payload.deviceId &&
+      s.offlineNonce === payload.nonce &&
+      roundUsd(s.amountUsd) === roundUsd(payload.amountUsd)
+    );
+
+    return match && sessions.length === 1
+      ? { session: match, result: 'duplicate' as const }
+      : { session: sessions[0], result: 'conflict' as const };
+  };
+
+  const existing = await findExisting();
+  if (existing) return existing;
+
+  try {
+    const session = await createSession({
+      id: payload.id,
+      deviceId: payload.deviceId,
+      amountUsd: payload.amountUsd,
+      lineItems: payload.lineItems ?? undefined,
+      offlineNonce: payload.nonce,
+      createdAt: new Date(payload.createdAt),
+      expiresAt: new Date(payload.expiresAt),
+    });
+    return { session, result: 'created' };
+  } catch (error) {
+    // Lost a race with the consumer claiming (or the terminal syncing) the same session
+    const raced = await findExisting();
+    if (raced) return raced;
+    throw error;
+  }
+}
+
+/**
+ * Claim an offline session from the consumer PWA.
+ * The terminal couldn't reach us when it created the session, so the consumer
+ * brings the signed payload from the QR/NFC link and we record it here.
+ */
+export async function claimOfflineSession(
+  payload: OfflineSessionPayload
+): Promise<PaymentSession> {
+  const invalid = await verifyOfflineSession(payload);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+
+  const { session, result } = await upsertOfflineSession(payload);
+  if (result === 'conflict') {
+    logger.warn('Offline session conflict on claim', {
+      sessionId: payload.id,
+      deviceId: payload.deviceId,
+      existingId: session.id,
+    });
+    throw new Error('Session conflicts with an existing payment session');
+  }
+
+  if (result === 'created') {
+    logger.info('Offline session claimed', { sessionId: session.id, deviceId: session.deviceId });
+  }
+
+  return session;
+}
+
+/**
+ * Reconcile sessions a terminal queued while offline.
+ * Each entry is created if neither the consumer nor an earlier sync recorded it,
+ * expired if its window passed unclaimed, and cancelled if the terminal cancelled it.
+ */
+export async function reconcileOfflineSessions(
+  deviceId: string,
+  entries: OfflineSyncEntry[]
+): Promise<OfflineSyncResult[]> {
+  const results: OfflineSyncResult[] = [];
+
+  for (const { payload, cancelled } of entries) {
+    if (payload.deviceId !== deviceId) {
+      results.push({ id: payload.id, result: 'rejected', error: 'Session belongs to another terminal' });
+      continue;
+    }
+
+    const invalid = await verifyOfflineSession(payload);
+    if (invalid) {
+      results.push({ id: payload.id, result: 'rejected', error: invalid });
+      continue;
+    }
+
+    try {
+      const { session, result } = await upsertOfflineSession(payload);
+      if (result === 'conflict') {
+        results.push({
+          id: payload.id,
+          result,
+          status: session.status,
+          error: 'Session id or nonce already used by a different session',
+        });
+        continue;
+      }
+
+      let status = session.status;
+
+      if (cancelled && status !== 'cancelled') {
+        if (status === 'pending' && (await cancelSession(session.id, deviceId))) {
+          status = 'cancelled';
+        } else {
+          // Consumer paid (or started paying) a session the terminal gave up on
+          results.push({
+            id: payload.id,
+            result: 'conflict',
+            status,
+            error: 'Session was cancelled on the terminal but has already been paid',
+          });
+          await markSessionSynced(session.id);
+          continue;
+        }
+      } else if (status === 'pending' && session.expiresAt.getTime() <= Date.now()) {
+        const expired = await updateSessionStatus(session.id, 'expired');
+        status = expired?.status ?? status;
+      }
+
+      await markSessionSynced(session.id);
+      results.push({ id: payload.id, result, status });
+    } catch (error) {
+      results.push({
+        id: payload.id,
+        result: 'rejected',
+        error: error instanceof Error ? error.message : 'Failed to reconcile session',
+      });
+    }
+  }
+
+  logger.info('Offline sessions reconciled', {
+    deviceId,
+    total: entries.length,
+    created: results.filter((r) => r.result === 'created').length,
+    duplicates: results.filter((r) => r.result === 'duplicate').length,
+    conflicts: results.filter((r) => r.result === 'conflict').length,
+    rejected: results.filter((r) => r.result === 'rejected').length,
+  });
+
+  return results;
+}
+
+async function markSessionSynced(sessionId: string): Promise<void> {
+  await execute(
+    `UPDATE payment_sessions SET synced_at = NOW() WHERE id = $1 AND synced_at IS NULL`,
+    [sessionId]
+  );
 }
 
 // ============================================================================
@@ -707,9 +1151,10 @@ export async function payWithJuice(
       expires_at: string;
       project_id: number;
       chain_id: number;
+      tips_enabled: boolean;
     }>(
       `SELECT ps.id, ps.device_id, ps.amount_usd, ps.status, ps.expires_at,
-              td.project_id, td.chain_id
+              td.project_id, td.chain_id, td.tips_enabled
        FROM payment_sessions ps
        JOIN terminal_devices td ON td.id = ps.device_id
        WHERE ps.id = $1
@@ -730,14 +1175,18 @@ export async function payWithJuice(
       throw new Error('Session has expired');
     }
 
-    const amountUsd = parseFloat(session.amount_usd);
+    const tipUsd = validateTip(params.tipUsd, session.tips_enabled);
+
+    // The tip is paid on top of the session amount in the same spend
+    const amountUsd = roundUsd(parseFloat(session.amount_usd) + tipUsd);
 
     // Mark session as paying
     await client.queryObject(
       `UPDATE payment_sessions
-       SET status = 'paying', consumer_id = $1, payment_method = 'juice', updated_at = NOW()
-       WHERE id = $2`,
-      [params.consumerId, params.sessionId]
+       SET status = 'paying', consumer_id = $1, payment_method = 'juice', tip_usd = $2,
+           updated_at = NOW()
+       WHERE id = $3`,
+      [params.consumerId, tipUsd, params.sessionId]
     );
 
     // Execute the Juice spend (this deducts from balance and queues for execution)
@@ -755,7 +1204,8 @@ export async function payWithJuice(
       // Revert session to pending on spend failure
       await client.queryObject(
         `UPDATE payment_sessions
-         SET status = 'pending', consumer_id = NULL, payment_method = NULL, updated_at = NOW()
+         SET status = 'pending', consumer_id = NULL, payment_method = NULL, tip_usd = 0,
+             updated_at = NOW()
          WHERE id = $1`,
         [params.sessionId]
       );
@@ -792,6 +1242,7 @@ export async function payWithJuice(
       consumerId: params.consumerId,
       spendId,
       amountUsd,
+      tipUsd,
     });
 
     return mapSessionRow(updated[0]);
@@ -835,6 +1286,7 @@ export async function completeSessionFromSpend(
       txHash,
       tokensIssued,
     });
+    await emitSessionEvent('session.completed', row.id);
   }
 
   return row ? mapSessionRow(row) : null;
@@ -876,17 +1328,294 @@ export async function failSessionFromSpend(
       spendId,
       errorMessage,
     });
+    await emitSessionEvent('session.failed', row.id);
   }
 
   return row ? mapSessionRow(row) : null;
 }
 
+// ============================================================================
+// Refunds
+// ============================================================================
+
+/**
+ * Refund part or all of a completed session
+ *
+ * Juice payments are reversed immediately (funded from the merchant's Juice
+ * balance). Wallet payments create a pending refund that the merchant sends
+ * on-chain and then confirms with the transaction hash.
+ */
+export async function refundSession(
+  params: RefundSessionParams
+): Promise<{ session: PaymentSession; refund: SessionRefund }> {
+  const result = await transaction(async (client) => {
+    const { rows: sessions } = await client.queryObject<{
+      id: string;
+      device_id: string;
+      amount_usd: string;
+      tip_usd: string;
+      status: string;
+      payment_method: string | null;
+      payer_address: string | null;
+      juice_spend_id: string | null;
+      merchant_id: string;
+    }>(
+      `SELECT ps.id, ps.device_id, ps.amount_usd, ps.tip_usd, ps.status, ps.payment_method,
+              ps.payer_address, ps.juice_spend_id, td.merchant_id
+       FROM payment_sessions ps
+       JOIN terminal_devices td ON td.id = ps.device_id
+       WHERE ps.id = $1
+       FOR UPDATE OF ps`,
+      [params.sessionId]
+    );
+
+    const session = sessions[0];
+    if (
+      !session ||
+      session.merchant_id !== params.merchantId ||
+      (params.deviceId && session.device_id !== params.deviceId)
+    ) {
+      throw new Error('Session not found');
+    }
+
+    if (!REFUNDABLE_STATUSES.includes(session.status)) {
+      throw new Error(`Session is not refundable: ${session.status}`);
+    }
+
+    // Pending wallet refunds reserve their amount so it can't be refunded twice
+    const { rows: reserved } = await client.queryObject<{ total: string }>(
+      `SELECT COALESCE(SUM(amount_usd), 0) as total
+       FROM payment_session_refunds
+       WHERE session_id = $1 AND status IN ('pending', 'completed')`,
+      [params.sessionId]
+    );
+
+    const paidUsd = parseFloat(session.amount_usd) + parseFloat(session.tip_usd);
+    const refundable = roundUsd(paidUsd - parseFloat(reserved[0].total));
+    if (refundable <= 0) {
+      throw new Error('Session has already been fully refunded');
+    }
+
+    const amountUsd = roundUsd(params.amountUsd ?? refundable);
+    if (amountUsd <= 0 || amountUsd > refundable) {
+      throw new Error(`Refund amount must be between $0.01 and $${refundable.toFixed(2)}`);
+    }
+
+    if (session.payment_method === 'juice') {
+      if (!session.juice_spend_id) {
+        throw new Error('Session has no Juice spend to reverse');
+      }
+
+      const { rows: refunds } = await client.queryObject<RefundRow>(
+        `INSERT INTO payment_session_refunds (
+          session_id, merchant_id, amount_usd, reason, method, status, completed_at
+        ) VALUES ($1, $2, $3, $4, 'juice', 'completed', NOW())
+        RETURNING *`,
+        [params.sessionId, params.merchantId, amountUsd, params.reason || null]
+      );
+
+      const { rows: updated } = await client.queryObject<{
+        id: string;
+        device_id: string;
+        amount_usd: string;
+        token: string | null;
+        token_symbol: string;
+        status: string;
+        consumer_id: string | null;
+        payment_method: string | null;
+        tx_hash: string | null;
+        tokens_issued: string | null;
+        juice_spend_id: string | null;
+        expires_at: string;
+        completed_at: string | null;
+        created_at: string;
+      }>(
+        `UPDATE payment_sessions
+         SET refunded_amount_usd = refunded_amount_usd + $1,
+             status = CASE WHEN refunded_amount_usd + $1 >= amount_usd + tip_usd
+                           THEN 'refunded' ELSE 'partially_refunded' END,
+             updated_at = NOW()
+         WHERE id = $2
+         RETURNING *`,
+        [amountUsd, params.sessionId]
+      );
+
+      // Same transaction: a failed reversal rolls back the refund record
+      await reverseJuiceSpend(client, {
+        spendId: session.juice_spend_id,
+        merchantId: params.merchantId,
+        amount: amountUsd,
+      });
+
+      return { session: mapSessionRow(updated[0]), refund: mapRefundRow(refunds[0]) };
+    }
+
+    if (session.payment_method === 'wallet') {
+      const refundAddress = params.refundAddress || session.payer_address;
+      if (!refundAddress) {
+        throw new Error('Refund address required: payer wallet is unknown');
+      }
+
+      const { rows: refunds } = await client.queryObject<RefundRow>(
+        `INSERT INTO payment_session_refunds (
+          session_id, merchant_id, amount_usd, reason, method, refund_address
+        ) VALUES ($1, $2, $3, $4, 'wallet', $5)
+        RETURNING *`,
+        [params.sessionId, params.merchantId, amountUsd, params.reason || null, refundAddress]
+      );
+
+      const { rows: current } = await client.queryObject<{
+        id: string;
+        device_id: string;
+        amount_usd: string;
+        token: string | null;
+        token_symbol: string;
+        status: string;
+        consumer_id: string | null;
+        payment_method: string | null;
+        tx_hash: string | null;
+        tokens_issued: string | null;
+        juice_spend_id: string | null;
+        expires_at: string;
+        completed_at: string | null;
+        created_at: string;
+      }>(`SELECT * FROM payment_sessions WHERE id = $1`, [params.sessionId]);
+
+      return { session: mapSessionRow(current[0]), refund: mapRefundRow(refunds[0]) };
+    }
+
+    throw new Error(`Refunds are not supported for payment method: ${session.payment_method}`);
+  });
+
+  logger.info('Payment session refund issued', {
+    sessionId: params.sessionId,
+    merchantId: params.merchantId,
+    refundId: result.refund.id,
+    method: result.refund.method,
+    amountUsd: result.refund.amountUsd,
+    status: result.refund.status,
+  });
+
+  if (result.refund.status === 'completed') {
+    broadcastSessionStatus(params.sessionId, result.session.status);
+    await emitSessionEvent('refund.completed', params.sessionId, result.refund);
+  }
+
+  return result;
+}
+
+/**
+ * Confirm a wallet refund (merchant sent the funds on-chain)
+ */
+export async function confirmWalletRefund(
+  refundId: string,
+  sessionId: string,
+  merchantId: string,
+  txHash: string
+): Promise<{ session: PaymentSession; refund: SessionRefund } | null> {
+  const result = await transaction(async (client) => {
+    const { rows: refunds } = await client.queryObject<RefundRow>(
+      `UPDATE payment_session_refunds
+       SET status = 'completed', tx_hash = $1, completed_at = NOW(), updated_at = NOW()
+       WHERE id = $2 AND session_id = $3 AND merchant_id = $4
+       AND method = 'wallet' AND status = 'pending'
+       RETURNING *`,
+      [txHash, refundId, sessionId, merchantId]
+    );
+
+    const refund = refunds[0];
+    if (!refund) return null;
+
+    const { rows: updated } = await client.queryObject<{
+      id: string;
+      device_id: string;
+      amount_usd: string;
+      token: string | null;
+      token_symbol: string;
+      status: string;
+      consumer_id: string | null;
+      payment_method: string | null;
+      tx_hash: string | null;
+      tokens_issued: string | null;
+      juice_spend_id: string | null;
+      expires_at: string;
+      completed_at: string | null;
+      created_at: string;
+    }>(
+      `UPDATE payment_sessions
+       SET refunded_amount_usd = refunded_amount_usd + $1,
+           status = CASE WHEN refunded_amount_usd + $1 >= amount_usd + tip_usd
+                         THEN 'refunded' ELSE 'partially_refunded' END,
+           updated_at = NOW()
+       WHERE id = $2
+       RETURNING *`,
+      [refund.amount_usd, sessionId]
+    );
+
+    return { session: mapSessionRow(updated[0]), refund: mapRefundRow(refund) };
+  });
+
+  if (result) {
+    logger.info('Wallet refund confirmed', { refundId, sessionId, txHash });
+    broadcastSessionStatus(sessionId, result.session.status, { txHash });
+    await emitSessionEvent('refund.completed', sessionId, result.refund);
+  }
+
+  return result;
+}
+
+/**
+ * Mark a pending wallet refund as failed, releasing its reserved amount
+ */
+export async function failWalletRefund(
+  refundId: string,
+  sessionId: string,
+  merchantId: string,
+  errorMessage?: string
+): Promise<SessionRefund | null> {
+  const row = await queryOne<RefundRow>(
+    `UPDATE payment_session_refunds
+     SET status = 'failed', error_message = $1, updated_at = NOW()
+     WHERE id = $2 AND session_id = $3 AND merchant_id = $4
+     AND method = 'wallet' AND status = 'pending'
+     RETURNING *`,
+    [errorMessage || null, refundId, sessionId, merchantId]
+  );
+
+  if (!row) return null;
+
+  const refund = mapRefundRow(row);
+  logger.info('Wallet refund failed', { refundId, sessionId, errorMessage });
+  await emitSessionEvent('refund.failed', sessionId, refund);
+
+  return refund;
+}
+
+/**
+ * Get all refunds for a session
+ */
+export async function getSessionRefunds(sessionId: string): Promise<SessionRefund[]> {
+  const rows = await query<RefundRow>(
+    `SELECT * FROM payment_session_refunds
+     WHERE session_id = $1
+     ORDER BY created_at DESC`,
+    [sessionId]
+  );
+
+  return rows.map(mapRefundRow);
+}
+
+function roundUsd(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
 // ============================================================================
 // Merchant Analytics
 // ============================================================================
 
 /**
  * Get merchant's terminal stats
+ * Refunded sessions still count as completed sales; tips and refunds are reported separately.
  */
 export async function getMerchantStats(merchantId: string): Promise<{
   totalDevices: number;
@@ -896,6 +1625,10 @@ export async function getMerchantStats(merchantId: string): Promise<{
   totalVolumeUsd: number;
   last24hVolumeUsd: number;
   last7dVolumeUsd: number;
+  totalTipsUsd: number;
+  refundedPayments: number;
+  refundedVolumeUsd: number;
+  netVolumeUsd: number;
 }> {
   const row = await queryOne<{
     total_devices: string;
@@ -905,29 +1638,343 @@ export async function getMerchantStats(merchantId: string): Promise<{
     total_volume_usd: string;
     last_24h_volume_usd: string;
     last_7d_volume_usd: string;
+    total_tips_usd: string;
+    refunded_payments: string;
+    refunded_volume_usd: string;
   }>(
     `SELECT
       (SELECT COUNT(*) FROM terminal_devices WHERE merchant_id = $1) as total_devices,
       (SELECT COUNT(*) FROM terminal_devices WHERE merchant_id = $1 AND is_active = TRUE) as active_devices,
       COUNT(ps.id) as total_payments,
-      COUNT(ps.id) FILTER (WHERE ps.status = 'completed') as completed_payments,
-      COALESCE(SUM(ps.amount_usd) FILTER (WHERE ps.status = 'completed'), 0) as total_volume_usd,
-      COALESCE(SUM(ps.amount_usd) FILTER (WHERE ps.status = 'completed' AND ps.completed_at >= NOW() - INTERVAL '24 hours'), 0) as last_24h_volume_usd,
-      COALESCE(SUM(ps.amount_usd) FILTER (WHERE ps.status = 'completed' AND ps.completed_at >= NOW() - INTERVAL '7 days'), 0) as last_7d_volume_usd
+      COUNT(ps.id) FILTER (WHERE ps.status IN ${SETTLED_STATUSES_SQL}) as completed_payments,
+      COALESCE(SUM(ps.amount_usd) FILTER (WHERE ps.status IN ${SETTLED_STATUSES_SQL}), 0) as total_volume_usd,
+      COALESCE(SUM(ps.amount_usd) FILTER (WHERE ps.status IN ${SETTLED_STATUSES_SQL} AND ps.completed_at >= NOW() - INTERVAL '24 hours'), 0) as last_24h_volume_usd,
+      COALESCE(SUM(ps.amount_usd) FILTER (WHERE ps.status IN ${SETTLED_STATUSES_SQL} AND ps.completed_at >= NOW() - INTERVAL '7 days'), 0) as last_7d_volume_usd,
+      COALESCE(SUM(ps.tip_usd) FILTER (WHERE ps.status IN ${SETTLED_STATUSES_SQL}), 0) as total_tips_usd,
+      COUNT(ps.id) FILTER (WHERE ps.refunded_amount_usd > 0) as refunded_payments,
+      COALESCE(SUM(ps.refunded_amount_usd), 0) as refunded_volume_usd
     FROM payment_sessions ps
     JOIN terminal_devices td ON td.id = ps.device_id
     WHERE td.merchant_id = $1`,
     [merchantId]
   );
 
+  const totalVolumeUsd = parseFloat(row?.total_volume_usd ?? '0');
+  const totalTipsUsd = parseFloat(row?.total_tips_usd ?? '0');
+  const refundedVolumeUsd = parseFloat(row?.refunded_volume_usd ?? '0');
+
   return {
     totalDevices: parseInt(row?.total_devices ?? '0'),
     activeDevices: parseInt(row?.active_devices ?? '0'),
     totalPayments: parseInt(row?.total_payments ?? '0'),
     completedPayments: parseInt(row?.completed_payments ?? '0'),
-    totalVolumeUsd: parseFloat(row?.total_volume_usd ?? '0'),
+    totalVolumeUsd,
     last24hVolumeUsd: parseFloat(row?.last_24h_volume_usd ?? '0'),
     last7dVolumeUsd: parseFloat(row?.last_7d_volume_usd ?? '0'),
+    totalTipsUsd,
+    refundedPayments: parseInt(row?.refunded_payments ?? '0'),
+    refundedVolumeUsd,
+    netVolumeUsd: roundUsd(totalVolumeUsd + totalTipsUsd - refundedVolumeUsd),
+  };
+}
+
+// ============================================================================
+// Settlement Reports
+// ============================================================================
+
+// Longest range a single settlement report may cover
+const SETTLEMENT_REPORT_MAX_DAYS = 366;
+
+// Session rows included in a report (the aggregates always cover the full range)
+const SETTLEMENT_REPORT_MAX_SESSIONS = 5000;
+
+export interface SettlementReportParams {
+  from: string; // YYYY-MM-DD, inclusive, in `timezone`
+  to: string; // YYYY-MM-DD, inclusive, in `timezone`
+  timezone: string; // IANA name, e.g. "America/New_York"
+}
+
+export interface SettlementTotals {
+  sessions: number;
+  completed: number;
+  failed: number;
+  expired: number;
+  cancelled: number;
+  open: number; // Still pending or paying
+  grossUsd: number;
+  tipsUsd: number;
+  refunds: number;
+  refundedUsd: number;
+  netUsd: number;
+}
+
+export interface SettlementReport {
+  from: string;
+  to: string;
+  timezone: string;
+  generatedAt: Date;
+  totals: SettlementTotals;
+  byDevice: (SettlementTotals & { deviceId: string; deviceName: string })[];
+  byPaymentMethod: { method: string; payments: number; grossUsd: number; tipsUsd: number }[];
+  byHour: { hour: string; payments: number; grossUsd: number; tipsUsd: number }[];
+  tokensIssued: { projectId: number; chainId: number; payments: number; tokensIssued: string }[];
+  sessions: {
+    id: string;
+    deviceName: string;
+    createdAt: string; // Local time in the report timezone
+    status: PaymentSession['status'];
+    paymentMethod: PaymentSession['paymentMethod'];
+    amountUsd: number;
+    tipUsd: number;
+    refundedAmountUsd: number;
+    tokensIssued: string | null;
+    txHash: string | null;
+  }[];
+  truncated: boolean;
+}
+
+/**
+ * Build an end-of-day (or any date range) settlement report for a merchant.
+ *
+ * Sessions are bucketed by when they were created, in the requested timezone.
+ * Refunds are counted on the day they were issued, so closing a day accounts
+ * for refunds of earlier sales.
+ */
+export async function getSettlementReport(
+  merchantId: string,
+  params: SettlementReportParams
+): Promise<SettlementReport> {
+  const { from, to, timezone } = params;
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    throw new ValidationError(`Unknown timezone: ${timezone}`);
+  }
+
+  const days = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000);
+  if (Number.isNaN(days) || days < 0) {
+    throw new ValidationError('Invalid date range');
+  }
+  if (days >= SETTLEMENT_REPORT_MAX_DAYS) {
+    throw new ValidationError(`Date range cannot exceed ${SETTLEMENT_REPORT_MAX_DAYS} days`);
+  }
+
+  // $2/$3 are local dates, $4 the timezone they're in
+  const inRange = (column: string) =>
+    `${column} >= ($2::date)::timestamp AT TIME ZONE $4
+     AND ${column} < ($3::date + 1)::timestamp AT TIME ZONE $4`;
+  const values = [merchantId, from, to, timezone];
+
+  const [deviceRows, refundRows, methodRows, hourRows, tokenRows, sessionRows] = await Promise.all([
+    query<{
+      device_id: string;
+      device_name: string;
+      sessions: string;
+      completed: string;
+      failed: string;
+      expired: string;
+      cancelled: string;
+      open: string;
+      gross_usd: string;
+      tips_usd: string;
+    }>(
+      `SELECT td.id as device_id,
+              td.name as device_name,
+              COUNT(ps.id) as sessions,
+              COUNT(ps.id) FILTER (WHERE ps.status IN ${SETTLED_STATUSES_SQL}) as completed,
+              COUNT(ps.id) FILTER (WHERE ps.status = 'failed') as failed,
+              COUNT(ps.id) FILTER (WHERE ps.status = 'expired') as expired,
+              COUNT(ps.id) FILTER (WHERE ps.status = 'cancelled') as cancelled,
+              COUNT(ps.id) FILTER (WHERE ps.status IN ('pending', 'paying')) as open,
+              COALESCE(SUM(ps.amount_usd) FILTER (WHERE ps.status IN ${SETTLED_STATUSES_SQL}), 0) as gross_usd,
+              COALESCE(SUM(ps.tip_usd) FILTER (WHERE ps.status IN ${SETTLED_STATUSES_SQL}), 0) as tips_usd
+       FROM terminal_devices td
+       LEFT JOIN payment_sessions ps ON ps.device_id = td.id AND ${inRange('ps.created_at')}
+       WHERE td.merchant_id = $1
+       GROUP BY td.id, td.name
+       ORDER BY td.name`,
+      values
+    ),
+    query<{ device_id: string; refunds: string; refunded_usd: string }>(
+      `SELECT ps.device_id,
+              COUNT(r.id) as refunds,
+              COALESCE(SUM(r.amount_usd), 0) as refunded_usd
+       FROM payment_session_refunds r
+       JOIN payment_sessions ps ON ps.id = r.session_id
+       WHERE r.merchant_id = $1
+         AND r.status = 'completed'
+         AND ${inRange('r.completed_at')}
+       GROUP BY ps.device_id`,
+      values
+    ),
+    query<{ method: string; payments: string; gross_usd: string; tips_usd: string }>(
+      `SELECT COALESCE(ps.payment_method, 'unknown') as method,
+              COUNT(ps.id) as payments,
+              COALESCE(SUM(ps.amount_usd), 0) as gross_usd,
+              COALESCE(SUM(ps.tip_usd), 0) as tips_usd
+       FROM payment_sessions ps
+       JOIN terminal_devices td ON td.id = ps.device_id
+       WHERE td.merchant_id = $1
+         AND ps.status IN ${SETTLED_STATUSES_SQL}
+         AND ${inRange('ps.created_at')}
+       GROUP BY 1
+       ORDER BY gross_usd DESC`,
+      values
+    ),
+    query<{ hour: string; payments: string; gross_usd: string; tips_usd: string }>(
+      `SELECT to_char(date_trunc('hour', ps.created_at AT TIME ZONE $4), 'YYYY-MM-DD HH24:00') as hour,
+              COUNT(ps.id) as payments,
+              COALESCE(SUM(ps.amount_usd), 0) as gross_usd,
+              COALESCE(SUM(ps.tip_usd), 0) as tips_usd
+       FROM payment_sessions ps
+       JOIN terminal_devices td ON td.id = ps.device_id
+       WHERE td.merchant_id = $1
+         AND ps.status IN ${SETTLED_STATUSES_SQL}
+         AND ${inRange('ps.created_at')}
+       GROUP BY 1
+       ORDER BY 1`,
+      values
+    ),
+    query<{ project_id: number; chain_id: number; payments: string; tokens_issued: string }>(
+      `SELECT td.project_id,
+              td.chain_id,
+              COUNT(ps.id) as payments,
+              COALESCE(SUM(ps.tokens_issued::numeric), 0)::text as tokens_issued
+       FROM payment_sessions ps
+       JOIN terminal_devices td ON td.id = ps.device_id
+       WHERE td.merchant_id = $1
+         AND ps.status IN ${SETTLED_STATUSES_SQL}
+         AND ps.tokens_issued ~ '^[0-9]+(\\.[0-9]+)?$'
+         AND ${inRange('ps.created_at')}
+       GROUP BY td.project_id, td.chain_id
+       ORDER BY td.project_id, td.chain_id`,
+      values
+    ),
+    query<{
+      id: string;
+      device_name: string;
+      created_at_local: string;
+      status: string;
+      payment_method: string | null;
+      amount_usd: string;
+      tip_usd: string;
+      refunded_amount_usd: string;
+      tokens_issued: string | null;
+      tx_hash: string | null;
+    }>(
+      `SELECT ps.id,
+              td.name as device_name,
+              to_char(ps.created_at AT TIME ZONE $4, 'YYYY-MM-DD HH24:MI:SS') as created_at_local,
+              ps.status,
+              ps.payment_method,
+              ps.amount_usd,
+              ps.tip_usd,
+              ps.refunded_amount_usd,
+              ps.tokens_issued,
+              ps.tx_hash
+       FROM payment_sessions ps
+       JOIN terminal_devices td ON td.id = ps.device_id
+       WHERE td.merchant_id = $1
+         AND ${inRange('ps.created_at')}
+       ORDER BY ps.created_at
+       LIMIT ${SETTLEMENT_REPORT_MAX_SESSIONS + 1}`,
+      values
+    ),
+  ]);
+
+  const refundsByDevice = new Map(refundRows.map((r) => [r.device_id, r]));
+
+  const byDevice = deviceRows.map((row) => {
+    const refunds = refundsByDevice.get(row.device_id);
+    const grossUsd = parseFloat(row.gross_usd);
+    const tipsUsd = parseFloat(row.tips_usd);
+    const refundedUsd = parseFloat(refunds?.refunded_usd ?? '0');
+
+    return {
+      deviceId: row.device_id,
+      deviceName: row.device_name,
+      sessions: parseInt(row.sessions),
+      completed: parseInt(row.completed),
+      failed: parseInt(row.failed),
+      expired: parseInt(row.expired),
+      cancelled: parseInt(row.cancelled),
+      open: parseInt(row.open),
+      grossUsd,
+      tipsUsd,
+      refunds: parseInt(refunds?.refunds ?? '0'),
+      refundedUsd,
+      netUsd: roundUsd(grossUsd + tipsUsd - refundedUsd),
+    };
+  });
+
+  const totals = byDevice.reduce<SettlementTotals>(
+    (sum, device) => ({
+      sessions: sum.sessions + device.sessions,
+      completed: sum.completed + device.completed,
+      failed: sum.failed + device.failed,
+      expired: sum.expired + device.expired,
+      cancelled: sum.cancelled + device.cancelled,
+      open: sum.open + device.open,
+      grossUsd: roundUsd(sum.grossUsd + device.grossUsd),
+      tipsUsd: roundUsd(sum.tipsUsd + device.tipsUsd),
+      refunds: sum.refunds + device.refunds,
+      refundedUsd: roundUsd(sum.refundedUsd + device.refundedUsd),
+      netUsd: roundUsd(sum.netUsd + device.netUsd),
+    }),
+    {
+      sessions: 0,
+      completed: 0,
+      failed: 0,
+      expired: 0,
+      cancelled: 0,
+      open: 0,
+      grossUsd: 0,
+      tipsUsd: 0,
+      refunds: 0,
+      refundedUsd: 0,
+      netUsd: 0,
+    }
+  );
+
+  return {
+    from,
+    to,
+    timezone,
+    generatedAt: new Date(),
+    totals,
+    byDevice,
+    byPaymentMethod: methodRows.map((row) => ({
+      method: row.method,
+      payments: parseInt(row.payments),
+      grossUsd: parseFloat(row.gross_usd),
+      tipsUsd: parseFloat(row.tips_usd),
+    })),
+    byHour: hourRows.map((row) => ({
+      hour: row.hour,
+      payments: parseInt(row.payments),
+      grossUsd: parseFloat(row.gross_usd),
+      tipsUsd: parseFloat(row.tips_usd),
+    })),
+    tokensIssued: tokenRows.map((row) => ({
+      projectId: row.project_id,
+      chainId: row.chain_id,
+      payments: parseInt(row.payments),
+      tokensIssued: row.tokens_issued,
+    })),
+    sessions: sessionRows.slice(0, SETTLEMENT_REPORT_MAX_SESSIONS).map((row) => ({
+      id: row.id,
+      deviceName: row.device_name,
+      createdAt: row.created_at_local,
+      status: row.status as PaymentSession['status'],
+      paymentMethod: row.payment_method as PaymentSession['paymentMethod'],
+      amountUsd: parseFloat(row.amount_usd),
+      tipUsd: parseFloat(row.tip_usd),
+      refundedAmountUsd: parseFloat(row.refunded_amount_usd),
+      tokensIssued: row.tokens_issued,
+      txHash: row.tx_hash,
+    })),
+    truncated: sessionRows.length > SETTLEMENT_REPORT_MAX_SESSIONS,
   };
 }
 
@@ -975,8 +2022,11 @@ export async function getWalletPaymentParams(
  */
 export async function startWalletPayment(
   sessionId: string,
-  payerAddress: string
+  payerAddress: string,
+  tipUsd = 0
 ): Promise<PaymentSession | null> {
+  const tip = roundUsd(tipUsd);
+
   const row = await queryOne<{
     id: string;
     device_id: string;
@@ -993,17 +2043,21 @@ export async function startWalletPayment(
     completed_at: string | null;
     created_at: string;
   }>(
-    `UPDATE payment_sessions
-     SET status = 'paying', payment_method = 'wallet', updated_at = NOW()
-     WHERE id = $1 AND status = 'pending' AND expires_at > NOW()
-     RETURNING *`,
-    [sessionId]
+    `UPDATE payment_sessions ps
+     SET status = 'paying', payment_method = 'wallet', payer_address = $2, tip_usd = $3,
+         updated_at = NOW()
+     FROM terminal_devices td
+     WHERE ps.id = $1 AND td.id = ps.device_id
+     AND ps.status = 'pending' AND ps.expires_at > NOW()
+     AND ($3 = 0 OR td.tips_enabled)
+     RETURNING ps.*`,
+    [sessionId, payerAddress, tip]
   );
 
   if (row) {
-    logger.info('Wallet payment started', { sessionId, payerAddress });
+    logger.info('Wallet payment started', { sessionId, payerAddress, tipUsd: tip });
     // Broadcast status update to connected WebSocket clients
-    broadcastSessionStatus(sessionId, 'paying');
+    broadcastSessionStatus(sessionId, 'paying', { tipUsd: tip });
   }
 
   return row ? mapSessionRow(row) : null;
@@ -1044,6 +2098,7 @@ export async function confirmWalletPayment(
     logger.info('Wallet payment confirmed', { sessionId, txHash, tokensIssued });
     // Broadcast completion to connected WebSocket clients
     broadcastSessionStatus(sessionId, 'completed', { txHash, tokensIssued });
+    await emitSessionEvent('session.completed', sessionId);
   }
 
   return row ? mapSessionRow(row) : null;
@@ -1083,6 +2138,7 @@ export async function failWalletPayment(
     logger.info('Wallet payment failed', { sessionId, errorMessage });
     // Broadcast failure to connected WebSocket clients
     broadcastSessionStatus(sessionId, 'failed', { error: errorMessage });
+    await emitSessionEvent('session.failed', sessionId);
   }
 
   return row ? mapSessionRow(row) : null;
@@ -1101,6 +2157,7 @@ function mapDeviceRow(row: {
   accepted_tokens: string[];
   api_key_prefix: string;
   is_active: boolean;
+  tips_enabled: boolean;
   last_seen_at: string | null;
   created_at: string;
 }): TerminalDevice {
@@ -1113,11 +2170,44 @@ function mapDeviceRow(row: {
     acceptedTokens: row.accepted_tokens,
     apiKeyPrefix: row.api_key_prefix,
     isActive: row.is_active,
+    tipsEnabled: row.tips_enabled,
     lastSeenAt: row.last_seen_at ? new Date(row.last_seen_at) : null,
     createdAt: new Date(row.created_at),
   };
 }
 
+interface RefundRow {
+  id: string;
+  session_id: string;
+  merchant_id: string;
+  amount_usd: string;
+  reason: string | null;
+  method: string;
+  status: string;
+  refund_address: string | null;
+  tx_hash: string | null;
+  error_message: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+function mapRefundRow(row: RefundRow): SessionRefund {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    merchantId: row.merchant_id,
+    amountUsd: parseFloat(row.amount_usd),
+    reason: row.reason,
+    method: row.method as SessionRefund['method'],
+    status: row.status as SessionRefund['status'],
+    refundAddress: row.refund_address,
+    txHash: row.tx_hash,
+    errorMessage: row.error_message,
+    completedAt: row.completed_at ? new Date(row.completed_at) : null,
+    createdAt: new Date(row.created_at),
+  };
+}
+
 function mapSessionRow(row: {
   id: string;
   device_id: string;
@@ -1127,9 +2217,15 @@ function mapSessionRow(row: {
   status: string;
   consumer_id: string | null;
   payment_method: string | null;
+  payer_address?: string | null;
   tx_hash: string | null;
   tokens_issued: string | null;
   juice_spend_id: string | null;
+  line_items?: SessionLineItem[] | null;
+  tip_usd?: string;
+  refunded_amount_usd?: string;
+  offline_nonce?: string | null;
+  created_offline?: boolean;
   expires_at: string;
   completed_at: string | null;
   created_at: string;
@@ -1143,9 +2239,15 @@ function mapSessionRow(row: {
     status: row.status as PaymentSession['status'],
     consumerId: row.consumer_id,
     paymentMethod: row.payment_method as PaymentSession['paymentMethod'],
+    payerAddress: row.payer_address ?? null,
     txHash: row.tx_hash,
     tokensIssued: row.tokens_issued,
     juiceSpendId: row.juice_spend_id,
+    lineItems: row.line_items ?? null,
+    tipUsd: parseFloat(row.tip_usd ?? '0'),
+    refundedAmountUsd: parseFloat(row.refunded_amount_usd ?? '0'),
+    offlineNonce: row.offline_nonce ?? null,
+    createdOffline: row.created_offline ?? false,
     expiresAt: new Date(row.expires_at),
     completedAt: row.completed_at ? new Date(row.completed_at) : null,
     createdAt: new Date(row.created_at),
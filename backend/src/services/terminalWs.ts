@@ -126,6 +126,7 @@ export function broadcastSessionStatus(
   extra?: {
     txHash?: string
     tokensIssued?: string
+    tipUsd?: number
     error?: string
   }
 ): void {
@@ -8,7 +8,7 @@
  * that persists independently of message history.
  */
 
-import { query, queryOne, execute } from '../db/index.ts';
+import { query, queryOne, execute, type TransactionClient } from '../db/index.ts';
 
 // ============================================================================
 // Types
@@ -322,6 +322,14 @@ export async function extractStateFromResponse(
     }
 
     if (Object.keys(updates).length > 0) {
+      // The response may have been branched away (regenerated or edited over)
+      // while extraction ran; its decisions no longer apply
+      const active = await queryOne<{ id: string }>(
+        'SELECT id FROM multi_chat_messages WHERE id = $1 AND branch_id IS NULL AND deleted_at IS NULL',
+        [messageId]
+      );
+      if (!active) return null;
+
       await updateTransactionState(chatId, updates, messageId);
       return updates;
     }
@@ -353,6 +361,82 @@ function containsDesignPatterns(text: string): boolean {
   return patterns.some(p => p.test(text));
 }
 
+// ============================================================================
+// Branch Checkpoints
+// ============================================================================
+
+/**
+ * Record the state as it was before an AI response, so branching away from
+ * that response can roll back to it
+ */
+export async function saveStateCheckpoint(
+  chatId: string,
+  messageId: string,
+  state: ChatTransactionState
+): Promise<void> {
+  await execute(
+    `INSERT INTO chat_transaction_state_checkpoints (message_id, chat_id, state)
+     VALUES ($1, $2, $3::jsonb)
+     ON CONFLICT (message_id) DO NOTHING`,
+    [messageId, chatId, JSON.stringify(state)]
+  );
+}
+
+/**
+ * Roll state back to before the first active AI response at or after
+ * `fromCreatedAt`. Call inside the branching transaction, before those
+ * messages are parked. Returns the replaced state so the parked branch can
+ * keep it.
+ */
+export async function rollbackStateToBranchPoint(
+  client: TransactionClient,
+  chatId: string,
+  fromCreatedAt: Date
+): Promise<ChatTransactionState | null> {
+  const current = await client.queryObject<{ state: ChatTransactionState }>(
+    'SELECT state FROM chat_transaction_state WHERE chat_id = $1 FOR UPDATE',
+    [chatId]
+  );
+  if (current.rows.length === 0) return null;
+
+  const checkpoint = await client.queryObject<{ state: ChatTransactionState }>(
+    `SELECT c.state
+     FROM chat_transaction_state_checkpoints c
+     JOIN multi_chat_messages m ON m.id = c.message_id
+     WHERE m.chat_id = $1
+       AND m.branch_id IS NULL
+       AND m.created_at >= $2
+     ORDER BY m.created_at ASC
+     LIMIT 1`,
+    [chatId, fromCreatedAt]
+  );
+
+  if (checkpoint.rows.length > 0) {
+    await restoreBranchState(client, chatId, checkpoint.rows[0].state);
+  }
+
+  return current.rows[0].state;
+}
+
+/**
+ * Replace state wholesale with the state saved on a branch
+ */
+export async function restoreBranchState(
+  client: TransactionClient,
+  chatId: string,
+  state: ChatTransactionState
+): Promise<void> {
+  await client.queryObject(
+    `INSERT INTO chat_transaction_state (chat_id, state, schema_version, last_updated_by_message_id, updated_at)
+     VALUES ($1, $2::jsonb, 1, NULL, NOW())
+     ON CONFLICT (chat_id) DO UPDATE SET
+       state = $2::jsonb,
+       last_updated_by_message_id = NULL,
+       updated_at = NOW()`,
+    [chatId, JSON.stringify(state)]
+  );
+}
+
 // ============================================================================
 // Prompt Formatting
 // ============================================================================
@@ -18,6 +18,7 @@ export interface Transaction {
   id: string;
   userId: string | null;
   sessionId: string | null;
+  chatId: string | null;
   txHash: string | null;
   chainId: number;
   fromAddress: string;
@@ -37,6 +38,7 @@ interface DbTransaction {
   id: string;
   user_id: string | null;
   session_id: string | null;
+  chat_id: string | null;
   tx_hash: string | null;
   chain_id: number;
   from_address: string;
@@ -61,6 +63,7 @@ function toTransaction(row: DbTransaction): Transaction {
     id: row.id,
     userId: row.user_id,
     sessionId: row.session_id,
+    chatId: row.chat_id,
     txHash: row.tx_hash,
     chainId: row.chain_id,
     fromAddress: row.from_address,
@@ -84,6 +87,7 @@ function toTransaction(row: DbTransaction): Transaction {
 export interface CreateTransactionParams {
   userId?: string;
   sessionId?: string;
+  chatId?: string;
   chainId: number;
   fromAddress: string;
   toAddress: string;
@@ -96,6 +100,7 @@ export async function createTransaction(params: CreateTransactionParams): Promis
   const {
     userId,
     sessionId,
+    chatId,
     chainId,
     fromAddress,
     toAddress,
@@ -106,14 +111,15 @@ export async function createTransaction(params: CreateTransactionParams): Promis
 
   const result = await query<DbTransaction>(
     `INSERT INTO transactions (
-      user_id, session_id, chain_id, from_address, to_address,
+      user_id, session_id, chat_id, chain_id, from_address, to_address,
       token_address, amount, project_id, status
     )
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'pending')
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'pending')
     RETURNING *`,
     [
       userId || null,
       sessionId || null,
+      chatId || null,
       chainId,
       fromAddress.toLowerCase(),
       toAddress.toLowerCase(),
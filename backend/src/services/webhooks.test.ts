@@ -0,0 +1,299 @@
+import { assertEquals, assert } from 'std/assert/mod.ts';
+import {
+  signWebhookPayload,
+  verifyWebhookSignature,
+  getRetryDelaySeconds,
+  isBlockedAddress,
+  sendWebhook,
+  type WebhookEvent,
+} from './webhooks.ts';
+
+const SECRET = 'whsec_test_secret';
+
+const EVENT: WebhookEvent = {
+  id: '00000000-0000-0000-0000-000000000001',
+  type: 'session.completed',
+  createdAt: '2026-03-01T12:00:00.000Z',
+  data: {
+    session: { id: '00000000-0000-0000-0000-000000000002', amountUsd: 12.5, status: 'completed' },
+  },
+};
+
+// Local HTTP receiver standing in for a merchant endpoint
+function startReceiver(
+  handler: (req: Request, body: string) => Response | Promise<Response>
+): { url: string; received: { headers: Headers; body: string }[]; close: () => Promise<void> } {
+  const received: { headers: Headers; body: string }[] = [];
+  const controller = new AbortController();
+  const server = Deno.serve(
+    { port: 0, hostname: '127.0.0.1', signal: controller.signal, onListen: () => {} },
+    async (req) => {
+      const body = await req.text();
+      received.push({ headers: req.headers, body });
+      return handler(req, body);
+    }
+  );
+
+  return {
+    url: `http://127.0.0.1:${server.addr.port}/hooks`,
+    received,
+    close: async () => {
+      controller.abort();
+      await server.finished;
+    },
+  };
+}
+
+// ============================================================================
+// Signing Tests
+// ============================================================================
+
+Deno.test('webhooks - signatures', async (t) => {
+  const body = JSON.stringify(EVENT);
+  const now = 1_772_366_400;
+
+  await t.step('header includes timestamp and v1 signature', () => {
+    const header = signWebhookPayload(SECRET, body, now);
+    assert(header.startsWith(`t=${now},v1=`));
+    assertEquals(header.split('v1=')[1].length, 64);
+  });
+
+  await t.step('verifies a valid signature', () => {
+    const header = signWebhookPayload(SECRET, body, now);
+    assertEquals(verifyWebhookSignature(SECRET, header, body, now), true);
+  });
+
+  await t.step('rejects a different secret', () => {
+    const header = signWebhookPayload('whsec_other', body, now);
+    assertEquals(verifyWebhookSignature(SECRET, header, body, now), false);
+  });
+
+  await t.step('rejects a tampered body', () => {
+    const header = signWebhookPayload(SECRET, body, now);
+    const tampered = body.replace('12.5', '125');
+    assertEquals(verifyWebhookSignature(SECRET, header, tampered, now), false);
+  });
+
+  await t.step('rejects a stale timestamp', () => {
+    const header = signWebhookPayload(SECRET, body, now - 10 * 60);
+    assertEquals(verifyWebhookSignature(SECRET, header, body, now), false);
+  });
+
+  await t.step('rejects malformed headers', () => {
+    assertEquals(verifyWebhookSignature(SECRET, 'garbage', body, now), false);
+    assertEquals(verifyWebhookSignature(SECRET, `t=${now}`, body, now), false);
+    assertEquals(verifyWebhookSignature(SECRET, `t=${now},v1=abcd`, body, now), false);
+  });
+});
+
+// ============================================================================
+// Retry Backoff Tests
+// ============================================================================
+
+Deno.test('webhooks - getRetryDelaySeconds', async (t) => {
+  await t.step('doubles after each failed attempt', () => {
+    assertEquals(getRetryDelaySeconds(1), 60);
+    assertEquals(getRetryDelaySeconds(2), 120);
+    assertEquals(getRetryDelaySeconds(3), 240);
+    assertEquals(getRetryDelaySeconds(4), 480);
+  });
+
+  await t.step('is capped at 6 hours', () => {
+    assertEquals(getRetryDelaySeconds(20), 6 * 60 * 60);
+  });
+});
+
+// ============================================================================
+// Destination Tests
+// ============================================================================
+
+Deno.test('webhooks - isBlockedAddress', async (t) => {
+  await t.step('allows public addresses', () => {
+    for (const ip of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+      assertEquals(isBlockedAddress(ip), false, ip);
+    }
+  });
+
+  await t.step('blocks private, loopback, link-local and reserved IPv4', () => {
+    for (const ip of [
+      '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '127.0.0.1', '169.254.169.254',
+      '100.64.0.1', '0.0.0.0', '198.18.0.1', '224.0.0.1', '255.255.255.255',
+    ]) {
+      assertEquals(isBlockedAddress(ip), true, ip);
+    }
+    assertEquals(isBlockedAddress('172.32.0.1'), false);
+  });
+
+  await t.step('blocks IPv6 equivalents, including embedded IPv4', () => {
+    for (const ip of [
+      '::', '::1', 'fe80::1', 'fd00::1', 'ff02::1', '2001:db8::1',
+      '::ffff:127.0.0.1', '::ffff:a9fe:a9fe', '64:ff9b::a9fe:a9fe', '2002:0a00:0001::',
+    ]) {
+      assertEquals(isBlockedAddress(ip), true, ip);
+    }
+  });
+
+  await t.step('allows loopback only when asked', () => {
+    assertEquals(isBlockedAddress('127.0.0.1', true), false);
+    assertEquals(isBlockedAddress('::1', true), false);
+    assertEquals(isBlockedAddress('169.254.169.254', true), true);
+    assertEquals(isBlockedAddress('10.0.0.1', true), true);
+  });
+
+  await t.step('blocks anything that is not an IP address', () => {
+    assertEquals(isBlockedAddress('example.com'), true);
+  });
+});
+
+// ============================================================================
+// Delivery Tests (local receiver)
+// ============================================================================
+
+Deno.test('webhooks - sendWebhook', async (t) => {
+  await t.step('posts a signed payload the receiver can verify', async () => {
+    const receiver = startReceiver(() => new Response('ok'));
+    try {
+      const result = await sendWebhook(receiver.url, SECRET, EVENT);
+
+      assertEquals(result.ok, true);
+      assertEquals(result.status, 200);
+      assertEquals(receiver.received.length, 1);
+
+      const { headers, body } = receiver.received[0];
+      assertEquals(headers.get('Content-Type'), 'application/json');
+      assertEquals(headers.get('X-Webhook-Event'), 'session.completed');
+      assertEquals(headers.get('X-Webhook-Id'), EVENT.id);
+      assertEquals(JSON.parse(body), EVENT);
+      assertEquals(verifyWebhookSignature(SECRET, headers.get('X-Webhook-Signature')!, body), true);
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  await t.step('reports non-2xx responses as failures', async () => {
+    const receiver = startReceiver(() => new Response('nope', { status: 503 }));
+    try {
+      const result = await sendWebhook(receiver.url, SECRET, EVENT);
+
+      assertEquals(result.ok, false);
+      assertEquals(result.status, 503);
+      assert(result.error?.includes('503'));
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  await t.step('does not follow redirects that would turn the POST into a GET', async () => {
+    const receiver = startReceiver(() =>
+      new Response(null, { status: 302, headers: { Location: 'http://127.0.0.1:1/elsewhere' } })
+    );
+    try {
+      const result = await sendWebhook(receiver.url, SECRET, EVENT);
+
+      assertEquals(result.ok, false);
+      assertEquals(result.status, 302);
+      assertEquals(receiver.received.length, 1);
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  await t.step('follows 307 redirects to a permitted host', async () => {
+    const target = startReceiver(() => new Response('ok'));
+    const receiver = startReceiver(() =>
+      new Response(null, { status: 307, headers: { Location: target.url } })
+    );
+    try {
+      const result = await sendWebhook(receiver.url, SECRET, EVENT);
+
+      assertEquals(result.ok, true);
+      assertEquals(target.received.length, 1);
+      assertEquals(JSON.parse(target.received[0].body), EVENT);
+    } finally {
+      await receiver.close();
+      await target.close();
+    }
+  });
+
+  await t.step('checks the destination again after a redirect', async () => {
+    const receiver = startReceiver(() =>
+      new Response(null, { status: 307, headers: { Location: 'http://169.254.169.254/latest/meta-data/' } })
+    );
+    try {
+      const result = await sendWebhook(receiver.url, SECRET, EVENT);
+
+      assertEquals(result.ok, false);
+      assertEquals(result.status, null);
+      assert(result.error?.includes('private or reserved address'));
+      assertEquals(receiver.received.length, 1);
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  await t.step('refuses private and metadata addresses without sending', async () => {
+    for (const url of ['http://169.254.169.254/latest/meta-data/', 'http://10.0.0.1/hooks', 'http://[::ffff:192.168.1.1]/hooks']) {
+      const result = await sendWebhook(url, SECRET, EVENT);
+      assertEquals(result.ok, false);
+      assert(result.error?.includes('private or reserved address'), url);
+    }
+  });
+
+  await t.step('sends to the address it checked rather than looking the host up again', async () => {
+    const receiver = startReceiver(() => new Response('ok'));
+    const port = new URL(receiver.url).port;
+    // A rebinding host: public for the check, the metadata service after that
+    const answers = ['127.0.0.1', '169.254.169.254'];
+    const lookups: string[] = [];
+    const resolve = (host: string) => {
+      lookups.push(host);
+      return Promise.resolve([answers.shift()!]);
+    };
+    try {
+      const result = await sendWebhook(`http://rebind.test:${port}/hooks`, SECRET, EVENT, 5_000, resolve);
+
+      assertEquals(result.ok, true);
+      assertEquals(lookups, ['rebind.test']);
+      assertEquals(receiver.received.length, 1);
+      assertEquals(receiver.received[0].headers.get('Host'), `rebind.test:${port}`);
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  await t.step('refuses hosts that resolve to a private address', async () => {
+    const result = await sendWebhook('http://internal.test/hooks', SECRET, EVENT, 5_000, () =>
+      Promise.resolve(['203.0.114.1', '10.0.0.1'])
+    );
+    assertEquals(result.ok, false);
+    assert(result.error?.includes('private or reserved address'));
+  });
+
+  await t.step('times out slow endpoints', async () => {
+    const receiver = startReceiver(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      return new Response('late');
+    });
+    try {
+      const result = await sendWebhook(receiver.url, SECRET, EVENT, 50);
+
+      assertEquals(result.ok, false);
+      assertEquals(result.status, null);
+      assert(result.error?.includes('Timed out'));
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  await t.step('reports connection errors', async () => {
+    const receiver = startReceiver(() => new Response('ok'));
+    const url = receiver.url;
+    await receiver.close();
+
+    const result = await sendWebhook(url, SECRET, EVENT);
+
+    assertEquals(result.ok, false);
+    assertEquals(result.status, null);
+    assert(result.error);
+  });
+});
@@ -0,0 +1,874 @@
+/**
+ * Merchant Webhooks Service
+ *
+ * Outbound notifications of payment session events for merchants
+ * integrating PayTerm with their own POS/ERP systems.
+ *
+ * Flow: Session event → Delivery queued per subscribed endpoint
+ *       → Sent immediately → Failures retried by cron with exponential backoff
+ *
+ * Payloads are signed with the endpoint secret:
+ *   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *
+ * Endpoint hosts are resolved before every request (and every redirect hop),
+ * and private, loopback, link-local and reserved addresses are refused. The
+ * request is then sent to the address that was checked, never to a second
+ * lookup of the host.
+ */
+
+import { query, queryOne, execute } from '../db/index.ts';
+import { logger } from '../utils/logger.ts';
+import { getConfig } from '../utils/config.ts';
+import { randomBytes, createHmac, timingSafeEqual } from 'node:crypto';
+import { Buffer } from 'node:buffer';
+import { isIP } from 'node:net';
+import { lookup } from 'node:dns/promises';
+
+export const WEBHOOK_EVENTS = [
+  'session.completed',
+  'session.failed',
+  'session.expired',
+  'refund.completed',
+  'refund.failed',
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
+
+// Attempts before a delivery is given up on (~17 hours of retries)
+const MAX_DELIVERY_ATTEMPTS = 8;
+
+// Retry delay is BASE * 2^(attempt - 1), capped at MAX
+const RETRY_BASE_SECONDS = 60;
+const RETRY_MAX_SECONDS = 6 * 60 * 60;
+
+// Per-request timeout when calling merchant endpoints
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+// How long a cron run holds a delivery before another run may pick it up
+const DELIVERY_LEASE_SECONDS = 120;
+
+// 307/308 redirects (which keep the POST) followed before giving up
+const MAX_REDIRECTS = 3;
+
+// Status line and headers of an endpoint's response; the body is never read
+const MAX_RESPONSE_HEAD_BYTES = 16 * 1024;
+
+// Signatures older than this are rejected by verifyWebhookSignature
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const MAX_WEBHOOKS_PER_MERCHANT = 10;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MerchantWebhook {
+  id: string;
+  merchantId: string;
+  url: string;
+  description: string | null;
+  events: WebhookEventType[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  payload: WebhookEvent;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  nextAttemptAt: Date;
+  lastAttemptAt: Date | null;
+  responseStatus: number | null;
+  errorMessage: string | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+}
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface CreateWebhookParams {
+  merchantId: string;
+  url: string;
+  events?: WebhookEventType[]; // Defaults to all events
+  description?: string;
+}
+
+// Resolves a hostname to every address it has (node:dns lookup by default)
+export type HostResolver = (host: string) => Promise<string[]>;
+
+export interface DeliveryAttemptResult {
+  ok: boolean;
+  status: number | null;
+  error: string | null;
+}
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Build the X-Webhook-Signature header value for a payload
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verify an X-Webhook-Signature header (what merchants implement on their side)
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  now = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => part.split('=', 2) as [string, string])
+  );
+  const timestamp = parseInt(parts.t);
+  if (!parts.v1 || Number.isNaN(timestamp)) return false;
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).split('v1=')[1], 'hex');
+  const provided = Buffer.from(parts.v1, 'hex');
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Delay before the next attempt, after `attempts` failed attempts
+ */
+export function getRetryDelaySeconds(attempts: number): number {
+  return Math.min(RETRY_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_SECONDS);
+}
+
+// ============================================================================
+// Destination Checks
+// ============================================================================
+
+type CidrRange = [bytes: number[], bits: number];
+
+function parseIp(ip: string): number[] | null {
+  const version = isIP(ip);
+  if (version === 4) return ip.split('.').map(Number);
+  if (version !== 6) return null;
+
+  let address = ip.split('%')[0].toLowerCase(); // Drop any zone id
+  const dotted = address.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    address = address.slice(0, -dotted[0].length) +
+      `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = tail === undefined
+    ? headGroups
+    : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+
+  return groups.flatMap((group) => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+}
+
+function cidr(range: string): CidrRange {
+  const [address, bits] = range.split('/');
+  return [parseIp(address)!, Number(bits)];
+}
+
+function inRange(bytes: number[], [prefix, bits]: CidrRange): boolean {
+  if (bytes.length !== prefix.length) return false;
+  for (let i = 0; i < bits; i++) {
+    const mask = 0x80 >> (i % 8);
+    if ((bytes[i >> 3] & mask) !== (prefix[i >> 3] & mask)) return false;
+  }
+  return true;
+}
+
+// Everything that isn't a public unicast address (RFC 6890 special-purpose registries)
+const BLOCKED_RANGES = [
+  '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16',
+  '172.16.0.0/12', '192.0.0.0/24', '192.0.2.0/24', '192.88.99.0/24', '192.168.0.0/16',
+  '198.18.0.0/15', '198.51.100.0/24', '203.0.113.0/24', '224.0.0.0/4', '240.0.0.0/4',
+  '::/96', '100::/64', '2001::/23', '2001:db8::/32', 'fc00::/7', 'fe80::/10', 'fec0::/10', 'ff00::/8',
+].map(cidr);
+
+const LOOPBACK_RANGES = ['127.0.0.0/8', '::1/128'].map(cidr);
+
+// IPv6 ranges that carry an IPv4 address, checked as that address
+const IPV4_MAPPED = cidr('::ffff:0:0/96');
+const IPV4_NAT64 = cidr('64:ff9b::/96');
+const IPV4_6TO4 = cidr('2002::/16');
+
+/**
+ * Whether a webhook may not be sent to this IP address: private, loopback,
+ * link-local (including cloud metadata at 169.254.169.254), multicast or
+ * otherwise reserved. Loopback can be allowed for local development.
+ */
+export function isBlockedAddress(ip: string, allowLoopback = false): boolean {
+  const bytes = parseIp(ip);
+  if (!bytes) return true;
+
+  if (inRange(bytes, IPV4_MAPPED) || inRange(bytes, IPV4_NAT64)) {
+    return isBlockedAddress(bytes.slice(12).join('.'), allowLoopback);
+  }
+  if (inRange(bytes, IPV4_6TO4)) {
+    return isBlockedAddress(bytes.slice(2, 6).join('.'), allowLoopback);
+  }
+
+  if (allowLoopback && LOOPBACK_RANGES.some((range) => inRange(bytes, range))) return false;
+  return BLOCKED_RANGES.some((range) => inRange(bytes, range));
+}
+
+async function lookupHost(host: string): Promise<string[]> {
+  return (await lookup(host, { all: true })).map((a) => a.address);
+}
+
+/**
+ * Resolve the URL's host and throw unless every address it resolves to is
+ * public. Returns the address to connect to. Done per request, since DNS for
+ * a registered URL can change at any time.
+ */
+async function resolvePublicDestination(url: URL, resolve: HostResolver): Promise<string> {
+  // Local development receivers listen on loopback
+  const allowLoopback = getConfig().env === 'development';
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : await resolve(host);
+  } catch {
+    throw new Error(`Could not resolve ${host}`);
+  }
+
+  if (addresses.length === 0 || addresses.some((address) => isBlockedAddress(address, allowLoopback))) {
+    throw new Error('Webhook URL resolves to a private or reserved address');
+  }
+  return addresses[0];
+}
+
+// ============================================================================
+// Endpoint Management
+// ============================================================================
+
+function validateWebhookUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('Invalid webhook URL');
+  }
+
+  // Plain HTTP is only allowed for local development receivers
+  const allowHttp = getConfig().env === 'development';
+  if (parsed.protocol !== 'https:' && !(allowHttp && parsed.protocol === 'http:')) {
+    throw new Error('Webhook URL must use HTTPS');
+  }
+
+  // Hostnames are checked when delivering; literal addresses can be refused now
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (isIP(host) && isBlockedAddress(host, allowHttp)) {
+    throw new Error('Webhook URL must not point to a private or reserved address');
+  }
+
+  return parsed;
+}
+
+/**
+ * Register a webhook endpoint
+ * Returns the endpoint AND its signing secret (only shown once)
+ */
+export async function createWebhook(
+  params: CreateWebhookParams
+): Promise<{ webhook: MerchantWebhook; secret: string }> {
+  validateWebhookUrl(params.url);
+
+  const existing = await queryOne<{ count: string }>(
+    `SELECT COUNT(*) as count FROM merchant_webhooks WHERE merchant_id = $1`,
+    [params.merchantId]
+  );
+  if (parseInt(existing?.count ?? '0') >= MAX_WEBHOOKS_PER_MERCHANT) {
+    throw new Error(`Maximum of ${MAX_WEBHOOKS_PER_MERCHANT} webhooks per merchant`);
+  }
+
+  const secret = generateSecret();
+  const events = params.events?.length ? params.events : [...WEBHOOK_EVENTS];
+
+  const row = await queryOne<WebhookRow>(
+    `INSERT INTO merchant_webhooks (merchant_id, url, description, secret, events)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [params.merchantId, params.url, params.description || null, secret, events]
+  );
+
+  if (!row) {
+    throw new Error('Failed to create webhook');
+  }
+
+  logger.info('Merchant webhook created', {
+    webhookId: row.id,
+    merchantId: params.merchantId,
+    events,
+  });
+
+  return { webhook: mapWebhookRow(row), secret };
+}
+
+/**
+ * Get all webhook endpoints for a merchant
+ */
+export async function getMerchantWebhooks(merchantId: string): Promise<MerchantWebhook[]> {
+  const rows = await query<WebhookRow>(
+    `SELECT * FROM merchant_webhooks
+     WHERE merchant_id = $1
+     ORDER BY created_at DESC`,
+    [merchantId]
+  );
+
+  return rows.map(mapWebhookRow);
+}
+
+/**
+ * Update a webhook endpoint
+ */
+export async function updateWebhook(
+  webhookId: string,
+  merchantId: string,
+  updates: {
+    url?: string;
+    events?: WebhookEventType[];
+    description?: string;
+    isActive?: boolean;
+  }
+): Promise<MerchantWebhook | null> {
+  const setClauses: string[] = [];
+  const values: unknown[] = [webhookId, merchantId];
+  let paramIndex = 3;
+
+  if (updates.url !== undefined) {
+    validateWebhookUrl(updates.url);
+    setClauses.push(`url = $${paramIndex++}`);
+    values.push(updates.url);
+  }
+  if (updates.events !== undefined) {
+    if (updates.events.length === 0) {
+      throw new Error('At least one event is required');
+    }
+    setClauses.push(`events = $${paramIndex++}`);
+    values.push(updates.events);
+  }
+  if (updates.description !== undefined) {
+    setClauses.push(`description = $${paramIndex++}`);
+    values.push(updates.description || null);
+  }
+  if (updates.isActive !== undefined) {
+    setClauses.push(`is_active = $${paramIndex++}`);
+    values.push(updates.isActive);
+  }
+
+  if (setClauses.length === 0) {
+    const row = await queryOne<WebhookRow>(
+      `SELECT * FROM merchant_webhooks WHERE id = $1 AND merchant_id = $2`,
+      values
+    );
+    return row ? mapWebhookRow(row) : null;
+  }
+
+  const row = await queryOne<WebhookRow>(
+    `UPDATE merchant_webhooks
+     SET ${setClauses.join(', ')}
+     WHERE id = $1 AND merchant_id = $2
+     RETURNING *`,
+    values
+  );
+
+  return row ? mapWebhookRow(row) : null;
+}
+
+/**
+ * Replace a webhook's signing secret
+ */
+export async function rotateWebhookSecret(
+  webhookId: string,
+  merchantId: string
+): Promise<string | null> {
+  const secret = generateSecret();
+  const count = await execute(
+    `UPDATE merchant_webhooks SET secret = $1 WHERE id = $2 AND merchant_id = $3`,
+    [secret, webhookId, merchantId]
+  );
+
+  if (count === 0) return null;
+
+  logger.info('Merchant webhook secret rotated', { webhookId, merchantId });
+  return secret;
+}
+
+/**
+ * Delete a webhook endpoint (and its delivery log)
+ */
+export async function deleteWebhook(webhookId: string, merchantId: string): Promise<boolean> {
+  const count = await execute(
+    `DELETE FROM merchant_webhooks WHERE id = $1 AND merchant_id = $2`,
+    [webhookId, merchantId]
+  );
+  return count > 0;
+}
+
+/**
+ * Delivery log for one of the merchant's endpoints
+ */
+export async function getWebhookDeliveries(
+  webhookId: string,
+  merchantId: string,
+  limit = 50
+): Promise<WebhookDelivery[]> {
+  const rows = await query<DeliveryRow>(
+    `SELECT d.* FROM merchant_webhook_deliveries d
+     JOIN merchant_webhooks w ON w.id = d.webhook_id
+     WHERE d.webhook_id = $1 AND w.merchant_id = $2
+     ORDER BY d.created_at DESC
+     LIMIT $3`,
+    [webhookId, merchantId, limit]
+  );
+
+  return rows.map(mapDeliveryRow);
+}
+
+/**
+ * Queue a failed delivery for another attempt right away
+ */
+export async function retryWebhookDelivery(
+  deliveryId: string,
+  merchantId: string
+): Promise<boolean> {
+  const count = await execute(
+    `UPDATE merchant_webhook_deliveries d
+     SET status = 'pending', next_attempt_at = NOW()
+     FROM merchant_webhooks w
+     WHERE d.id = $1 AND w.id = d.webhook_id AND w.merchant_id = $2
+     AND d.status = 'failed'`,
+    [deliveryId, merchantId]
+  );
+
+  if (count > 0) {
+    deliverNow([deliveryId]);
+  }
+  return count > 0;
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+/**
+ * Queue a payment session event for every subscribed endpoint of the
+ * session's merchant, then attempt delivery in the background.
+ * Never throws: a webhook problem must not fail the payment flow.
+ */
+export async function emitSessionEvent(
+  type: WebhookEventType,
+  sessionId: string,
+  refund?: object
+): Promise<void> {
+  try {
+    const session = await queryOne<{
+      id: string;
+      device_id: string;
+      merchant_id: string;
+      project_id: number;
+      chain_id: number;
+      amount_usd: string;
+      tip_usd: string;
+      refunded_amount_usd: string;
+      token_symbol: string;
+      status: string;
+      payment_method: string | null;
+      tx_hash: string | null;
+      tokens_issued: string | null;
+      line_items: unknown;
+      completed_at: string | null;
+      created_at: string;
+    }>(
+      `SELECT ps.id, ps.device_id, td.merchant_id, td.project_id, td.chain_id,
+              ps.amount_usd, ps.tip_usd, ps.refunded_amount_usd, ps.token_symbol,
+              ps.status, ps.payment_method, ps.tx_hash, ps.tokens_issued,
+              ps.line_items, ps.completed_at, ps.created_at
+       FROM payment_sessions ps
+       JOIN terminal_devices td ON td.id = ps.device_id
+       WHERE ps.id = $1`,
+      [sessionId]
+    );
+    if (!session) return;
+
+    const event: WebhookEvent = {
+      id: crypto.randomUUID(),
+      type,
+      createdAt: new Date().toISOString(),
+      data: {
+        session: {
+          id: session.id,
+          deviceId: session.device_id,
+          projectId: session.project_id,
+          chainId: session.chain_id,
+          amountUsd: parseFloat(session.amount_usd),
+          tipUsd: parseFloat(session.tip_usd),
+          refundedAmountUsd: parseFloat(session.refunded_amount_usd),
+          tokenSymbol: session.token_symbol,
+          status: session.status,
+          paymentMethod: session.payment_method,
+          txHash: session.tx_hash,
+          tokensIssued: session.tokens_issued,
+          lineItems: session.line_items,
+          completedAt: session.completed_at ? new Date(session.completed_at).toISOString() : null,
+          createdAt: new Date(session.created_at).toISOString(),
+        },
+        ...(refund ? { refund } : {}),
+      },
+    };
+
+    const rows = await query<{ id: string }>(
+      `INSERT INTO merchant_webhook_deliveries (webhook_id, event_id, event_type, payload)
+       SELECT id, $1, $2, $3
+       FROM merchant_webhooks
+       WHERE merchant_id = $4 AND is_active = TRUE AND $2 = ANY(events)
+       RETURNING id`,
+      [event.id, type, JSON.stringify(event), session.merchant_id]
+    );
+
+    if (rows.length > 0) {
+      deliverNow(rows.map((r) => r.id));
+    }
+  } catch (error) {
+    logger.error('Failed to queue webhook event', error as Error, { type, sessionId });
+  }
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+async function readResponseHead(conn: Deno.Conn): Promise<{ status: number; location: string | null }> {
+  const buffer = new Uint8Array(MAX_RESPONSE_HEAD_BYTES);
+  let length = 0;
+
+  for (;;) {
+    const text = new TextDecoder().decode(buffer.subarray(0, length));
+    const end = text.indexOf('\r\n\r\n');
+    if (end !== -1) {
+      const [statusLine, ...lines] = text.slice(0, end).split('\r\n');
+      const status = statusLine.match(/^HTTP\/1\.[01] (\d{3})/);
+      if (!status) throw new Error('Endpoint sent an invalid HTTP response');
+
+      const location = lines.find((line) => /^location:/i.test(line));
+      return { status: Number(status[1]), location: location ? location.slice(location.indexOf(':') + 1).trim() : null };
+    }
+
+    if (length === buffer.length) throw new Error('Endpoint response headers are too large');
+    const read = await conn.read(buffer.subarray(length));
+    if (read === null) throw new Error('Endpoint closed the connection without responding');
+    length += read;
+  }
+}
+
+/**
+ * POST over a connection to an address that was already checked. fetch()
+ * would resolve the host again, and a different answer the second time (DNS
+ * rebinding) could send the request to an internal address. The Host header
+ * and TLS server name are still the URL's, so certificates are verified
+ * against the hostname as usual.
+ */
+async function postToAddress(
+  url: URL,
+  address: string,
+  headers: Record<string, string>,
+  body: string,
+  signal: AbortSignal
+): Promise<{ status: number; location: string | null }> {
+  const payload = new TextEncoder().encode(body);
+  const head = new TextEncoder().encode([
+    `POST ${url.pathname}${url.search} HTTP/1.1`,
+    `Host: ${url.host}`,
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    `Content-Length: ${payload.length}`,
+    'Connection: close',
+    '',
+    '',
+  ].join('\r\n'));
+
+  let conn: Deno.Conn | null = null;
+  const close = () => {
+    try {
+      conn?.close();
+    } catch {
+      // Already closed
+    }
+  };
+
+  const exchange = async () => {
+    try {
+      const port = Number(url.port) || (url.protocol === 'https:' ? 443 : 80);
+      conn = await Deno.connect({ hostname: address, port });
+      if (url.protocol === 'https:') {
+        conn = await Deno.startTls(conn as Deno.TcpConn, { hostname: url.hostname });
+      }
+      if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
+
+      for (const bytes of [head, payload]) {
+        for (let offset = 0; offset < bytes.length;) {
+          offset += await conn.write(bytes.subarray(offset));
+        }
+      }
+      return await readResponseHead(conn);
+    } finally {
+      close();
+    }
+  };
+
+  // Connecting can't be cancelled, so stop waiting and drop whatever is open
+  const aborted = new Promise<never>((_, reject) => {
+    signal.addEventListener('abort', () => {
+      close();
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+  return await Promise.race([exchange(), aborted]);
+}
+
+/**
+ * POST a signed event to an endpoint. Only the status code is kept; the
+ * response body is discarded unread.
+ */
+export async function sendWebhook(
+  url: string,
+  secret: string,
+  event: WebhookEvent,
+  timeoutMs = DELIVERY_TIMEOUT_MS,
+  resolve: HostResolver = lookupHost
+): Promise<DeliveryAttemptResult> {
+  const body = JSON.stringify(event);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    let target = url;
+    for (let redirects = 0; ; redirects++) {
+      // Every hop gets the same checks as the registered URL
+      const destination = validateWebhookUrl(target);
+      const address = await resolvePublicDestination(destination, resolve);
+
+      const { status, location } = await postToAddress(destination, address, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'JuicyVision-Webhooks/1.0',
+        'X-Webhook-Id': event.id,
+        'X-Webhook-Event': event.type,
+        'X-Webhook-Signature': signWebhookPayload(secret, body, timestamp),
+      }, body, controller.signal);
+
+      if ((status === 307 || status === 308) && location && redirects < MAX_REDIRECTS) {
+        target = new URL(location, destination).href;
+        continue;
+      }
+
+      const ok = status >= 200 && status < 300;
+      return {
+        ok,
+        status,
+        error: ok ? null : `Endpoint responded with ${status}`,
+      };
+    }
+  } catch (error) {
+    const message = error instanceof Error && error.name === 'AbortError'
+      ? `Timed out after ${timeoutMs}ms`
+      : error instanceof Error ? error.message : 'Request failed';
+    return { ok: false, status: null, error: message };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Lease due deliveries so concurrent runs don't send them twice
+ */
+async function claimDeliveries(
+  ids: string[] | null,
+  limit: number
+): Promise<(DeliveryRow & { url: string; secret: string })[]> {
+  return await query<DeliveryRow & { url: string; secret: string }>(
+    `UPDATE merchant_webhook_deliveries d
+     SET next_attempt_at = NOW() + INTERVAL '${DELIVERY_LEASE_SECONDS} seconds'
+     FROM merchant_webhooks w
+     WHERE w.id = d.webhook_id
+     AND d.id IN (
+       SELECT id FROM merchant_webhook_deliveries
+       WHERE status = 'pending' AND next_attempt_at <= NOW()
+       AND ($1::uuid[] IS NULL OR id = ANY($1::uuid[]))
+       ORDER BY next_attempt_at
+       LIMIT $2
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING d.*, w.url, w.secret`,
+    [ids, limit]
+  );
+}
+
+async function attemptDelivery(
+  delivery: DeliveryRow & { url: string; secret: string }
+): Promise<'delivered' | 'retrying' | 'failed'> {
+  const result = await sendWebhook(delivery.url, delivery.secret, delivery.payload);
+  const attempts = delivery.attempts + 1;
+
+  if (result.ok) {
+    await execute(
+      `UPDATE merchant_webhook_deliveries
+       SET status = 'delivered', attempts = $1, last_attempt_at = NOW(), delivered_at = NOW(),
+           response_status = $2, error_message = NULL
+       WHERE id = $3`,
+      [attempts, result.status, delivery.id]
+    );
+    return 'delivered';
+  }
+
+  const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS;
+  await execute(
+    `UPDATE merchant_webhook_deliveries
+     SET status = $1, attempts = $2, last_attempt_at = NOW(),
+         next_attempt_at = NOW() + make_interval(secs => $3),
+         response_status = $4, error_message = $5
+     WHERE id = $6`,
+    [
+      exhausted ? 'failed' : 'pending',
+      attempts,
+      getRetryDelaySeconds(attempts),
+      result.status,
+      result.error,
+      delivery.id,
+    ]
+  );
+
+  if (exhausted) {
+    logger.warn('Webhook delivery failed permanently', {
+      deliveryId: delivery.id,
+      webhookId: delivery.webhook_id,
+      eventType: delivery.event_type,
+      attempts,
+      error: result.error,
+    });
+  }
+
+  return exhausted ? 'failed' : 'retrying';
+}
+
+// First attempt happens right away, outside the request that triggered the event
+function deliverNow(ids: string[]): void {
+  claimDeliveries(ids, ids.length)
+    .then((deliveries) => Promise.all(deliveries.map(attemptDelivery)))
+    .catch((error) => {
+      logger.error('Immediate webhook delivery failed', error as Error, { deliveryIds: ids });
+    });
+}
+
+/**
+ * Send due deliveries (called by cron)
+ */
+export async function processWebhookDeliveries(limit = 100): Promise<{
+  delivered: number;
+  retrying: number;
+  failed: number;
+}> {
+  const deliveries = await claimDeliveries(null, limit);
+  const results = { delivered: 0, retrying: 0, failed: 0 };
+
+  for (const delivery of deliveries) {
+    results[await attemptDelivery(delivery)]++;
+  }
+
+  if (deliveries.length > 0) {
+    logger.info('Processed webhook deliveries', results);
+  }
+
+  return results;
+}
+
+// ============================================================================
+// Row Mappers
+// ============================================================================
+
+interface WebhookRow {
+  id: string;
+  merchant_id: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: string[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DeliveryRow {
+  id: string;
+  webhook_id: string;
+  event_id: string;
+  event_type: string;
+  payload: WebhookEvent;
+  status: string;
+  attempts: number;
+  next_attempt_at: string;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  error_message: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+function mapWebhookRow(row: WebhookRow): MerchantWebhook {
+  return {
+    id: row.id,
+    merchantId: row.merchant_id,
+    url: row.url,
+    description: row.description,
+    events: row.events as WebhookEventType[],
+    isActive: row.is_active,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function mapDeliveryRow(row: DeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    eventId: row.event_id,
+    eventType: row.event_type as WebhookEventType,
+    payload: row.payload,
+    status: row.status as WebhookDelivery['status'],
+    attempts: row.attempts,
+    nextAttemptAt: new Date(row.next_attempt_at),
+    lastAttemptAt: row.last_attempt_at ? new Date(row.last_attempt_at) : null,
+    responseStatus: row.response_status,
+    errorMessage: row.error_message,
+    deliveredAt: row.delivered_at ? new Date(row.delivered_at) : null,
+    createdAt: new Date(row.created_at),
+  };
+}
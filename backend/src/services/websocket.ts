@@ -34,6 +34,12 @@ export interface WsMessage {
     | 'key_rotation' // Group key rotated
     | 'ai_response' // AI streaming response
     | 'chat_update' // Chat metadata update (title, etc.)
+    | 'message_edited' // Message content edited in place
+    | 'reactions' // Reactions on a message changed
+    | 'branch_changed' // Active conversation branch changed (refetch messages)
+    | 'ai_budget' // AI budget warning or hard stop
+    | 'tool_call' // AI tool step started, awaiting approval, decided or finished
+    | 'citations' // Document passages an AI reply cited
     | 'component_interaction' // Real-time component collaboration
     | 'system_event' // System events (invite created, user joined, etc.)
     | 'error'; // Error message
@@ -246,7 +252,8 @@ export function broadcastChatMessage(
   senderAddress: string,
   isEncrypted: boolean,
   role: 'user' | 'assistant' | 'system' = 'user',
-  attachments?: Array<{ type: string; name: string; mimeType: string; cid: string }>
+  attachments?: Array<{ type: string; name: string; mimeType: string; cid: string }>,
+  replyToId?: string
 ): void {
   broadcastToChat(chatId, {
     type: 'message',
@@ -260,6 +267,7 @@ export function broadcastChatMessage(
       isEncrypted,
       createdAt: new Date().toISOString(),
       ...(attachments && attachments.length > 0 ? { attachments } : {}),
+      ...(replyToId ? { replyToId } : {}),
     },
     sender: senderAddress,
     timestamp: Date.now(),
@@ -376,7 +384,7 @@ export function streamAiToken(
  */
 export function broadcastChatUpdate(
   chatId: string,
-  updates: { autoGeneratedTitle?: string; name?: string; aiEnabled?: boolean }
+  updates: { autoGeneratedTitle?: string; name?: string; aiEnabled?: boolean; aiProvider?: string | null }
 ): void {
   broadcastToChat(chatId, {
     type: 'chat_update',
@@ -386,6 +394,106 @@ export function broadcastChatUpdate(
   });
 }
 
+/**
+ * Broadcast an in-place message edit
+ */
+export function broadcastMessageEdited(
+  chatId: string,
+  messageId: string,
+  content: string,
+  editedAt: Date,
+  editorAddress: string
+): void {
+  broadcastToChat(chatId, {
+    type: 'message_edited',
+    chatId,
+    data: { messageId, content, editedAt: editedAt.toISOString() },
+    sender: editorAddress,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Broadcast the full reaction list for a message after a member adds or removes one
+ */
+export function broadcastReactions(
+  chatId: string,
+  messageId: string,
+  reactions: { emoji: string; count: number; members: string[] }[],
+  actorAddress: string
+): void {
+  broadcastToChat(chatId, {
+    type: 'reactions',
+    chatId,
+    data: { messageId, reactions },
+    sender: actorAddress,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Broadcast that the active branch changed, so clients reload the message list
+ */
+export function broadcastBranchChanged(chatId: string, changedBy: string): void {
+  broadcastToChat(chatId, {
+    type: 'branch_changed',
+    chatId,
+    data: {},
+    sender: changedBy,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Broadcast an AI budget notice. Member budgets carry the member's address
+ * so only that member's client shows the notice.
+ */
+export function broadcastAiBudget(
+  chatId: string,
+  notice: { state: 'warning' | 'exceeded'; message: string; memberAddress: string | null }
+): void {
+  broadcastToChat(chatId, {
+    type: 'ai_budget',
+    chatId,
+    data: notice,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Broadcast the latest state of an AI tool step. messageId is the id the
+ * response is streaming under (see streamAiToken).
+ */
+export function broadcastToolCall(
+  chatId: string,
+  messageId: string,
+  step: object
+): void {
+  broadcastToChat(chatId, {
+    type: 'tool_call',
+    chatId,
+    data: { messageId, step },
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Broadcast the document passages an AI reply cited. messageId is the id
+ * the response streamed under (see streamAiToken).
+ */
+export function broadcastCitations(
+  chatId: string,
+  messageId: string,
+  citations: object[]
+): void {
+  broadcastToChat(chatId, {
+    type: 'citations',
+    chatId,
+    data: { messageId, citations },
+    timestamp: Date.now(),
+  });
+}
+
 /**
  * Broadcast component interaction to chat members (excluding sender's specific socket)
  * Used for real-time collaboration on OptionsPicker and similar components
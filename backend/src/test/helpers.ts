@@ -1,6 +1,7 @@
 // Test helpers and mock utilities for backend testing
 
 import type { User, Session, PrivacyMode } from '../types/index.ts';
+import type { OfflineSessionPayload } from '../services/terminal.ts';
 import { getConfig } from '../utils/config.ts';
 
 /**
@@ -64,6 +65,36 @@ export function mockSession(userId: string, overrides: Partial<Session> = {}): S
   };
 }
 
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes)).map((b) => b.toString(16).padStart(2, '0')).join('');
+
+// Public half of a terminal's offline signing key, as the terminal pairs it
+export async function exportOfflinePublicKey(keyPair: CryptoKeyPair): Promise<string> {
+  return toHex(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+}
+
+// Sign an offline session the way the terminal does (terminal/ui/offline.ts)
+export async function signOfflineSession(
+  privateKey: CryptoKey,
+  unsigned: Omit<OfflineSessionPayload, 'signature'>
+): Promise<OfflineSessionPayload> {
+  const message = JSON.stringify([
+    unsigned.id,
+    unsigned.deviceId,
+    unsigned.amountUsd.toFixed(2),
+    (unsigned.lineItems ?? []).map((item) => [item.name, item.quantity, item.unitPriceUsd]),
+    unsigned.nonce,
+    unsigned.createdAt,
+    unsigned.expiresAt,
+  ]);
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    privateKey,
+    new TextEncoder().encode(message)
+  );
+  return { ...unsigned, signature: toHex(signature) };
+}
+
 // Mock database responses
 export class MockDb {
   private users: Map<string, User> = new Map();
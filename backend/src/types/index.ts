@@ -270,6 +270,8 @@ export interface PaginatedResponse<T> {
 // Environment Config
 // ============================================================================
 
+export type AiProviderName = 'anthropic' | 'moonshot' | 'openai-compatible';
+
 export interface EnvConfig {
   // Server
   port: number;
@@ -295,7 +297,7 @@ export interface EnvConfig {
   stripeWebhookSecret: string;
 
   // AI Provider
-  aiProvider: 'anthropic' | 'moonshot';
+  aiProvider: AiProviderName;
   aiFreeMode: boolean; // Beta: AI is free when true
 
   // Anthropic
@@ -305,6 +307,14 @@ export interface EnvConfig {
   moonshotApiKey: string;
   moonshotModel: string;
 
+  // OpenAI-compatible (self-hosted)
+  openaiCompatibleBaseUrl: string;      // Chat-completions base URL, empty = not configured
+  openaiCompatibleApiKey: string;       // Optional bearer token
+  openaiCompatibleModel: string;
+  openaiCompatibleToolsEnabled: boolean; // Some servers need extra flags for tool calling
+  openaiCompatibleInputCostPer1M: number;  // USD per 1M input tokens, for billing
+  openaiCompatibleOutputCostPer1M: number; // USD per 1M output tokens, for billing
+
   // Reserves wallet (for fiat-to-crypto)
   reservesPrivateKey: string; // Hot wallet for executing payments
 
@@ -321,6 +331,13 @@ export interface EnvConfig {
   // Forge (Hook Development)
   forgeDockerEnabled?: boolean;  // Enable Docker-based forge execution
   semgrepEnabled?: boolean;      // Enable Semgrep security analysis
+  slitherEnabled?: boolean;      // Enable Slither security analysis (Docker)
+  aderynEnabled?: boolean;       // Enable Aderyn security analysis (Docker)
+
+  // Contract Verification (deployed hooks)
+  sourcifyApiUrl: string;
+  etherscanApiUrl: string;       // Etherscan v2 (multichain) or a compatible API
+  etherscanApiKey: string;
 
   // Replicate (Image Generation)
   replicateApiToken?: string;    // Replicate API token for image generation
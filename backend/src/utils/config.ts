@@ -1,4 +1,4 @@
-import type { EnvConfig } from '../types/index.ts';
+import type { AiProviderName, EnvConfig } from '../types/index.ts';
 
 function getEnv(key: string, defaultValue?: string): string {
   const value = Deno.env.get(key);
@@ -26,6 +26,18 @@ function getEnvNumber(key: string, defaultValue?: number): number {
   return num;
 }
 
+function getEnvFloat(key: string, defaultValue: number): number {
+  const value = Deno.env.get(key);
+  if (value === undefined) {
+    return defaultValue;
+  }
+  const num = parseFloat(value);
+  if (isNaN(num)) {
+    throw new Error(`Environment variable ${key} must be a number`);
+  }
+  return num;
+}
+
 export function loadConfig(): EnvConfig {
   return {
     // Server
@@ -52,7 +64,7 @@ export function loadConfig(): EnvConfig {
     stripeWebhookSecret: getEnv('STRIPE_WEBHOOK_SECRET', ''),
 
     // AI Provider
-    aiProvider: getEnv('AI_PROVIDER', 'anthropic') as 'anthropic' | 'moonshot',
+    aiProvider: getEnv('AI_PROVIDER', 'anthropic') as AiProviderName,
     aiFreeMode: getEnv('AI_FREE_MODE', 'true') === 'true', // Beta: AI is free by default
 
     // Anthropic
@@ -62,6 +74,14 @@ export function loadConfig(): EnvConfig {
     moonshotApiKey: getEnv('MOONSHOT_API_KEY', ''),
     moonshotModel: getEnv('MOONSHOT_MODEL', 'moonshot-v1-32k'),
 
+    // OpenAI-compatible (self-hosted vLLM, llama.cpp server, Ollama)
+    openaiCompatibleBaseUrl: getEnv('OPENAI_COMPATIBLE_BASE_URL', ''), // e.g. http://localhost:8000/v1
+    openaiCompatibleApiKey: getEnv('OPENAI_COMPATIBLE_API_KEY', ''),
+    openaiCompatibleModel: getEnv('OPENAI_COMPATIBLE_MODEL', ''),
+    openaiCompatibleToolsEnabled: getEnv('OPENAI_COMPATIBLE_TOOLS', 'true') === 'true',
+    openaiCompatibleInputCostPer1M: getEnvFloat('OPENAI_COMPATIBLE_INPUT_COST_PER_1M', 0), // USD
+    openaiCompatibleOutputCostPer1M: getEnvFloat('OPENAI_COMPATIBLE_OUTPUT_COST_PER_1M', 0), // USD
+
     // Reserves wallet
     reservesPrivateKey: getEnv('RESERVES_PRIVATE_KEY', ''),
 
@@ -78,6 +98,12 @@ export function loadConfig(): EnvConfig {
     // Forge (Hook Development)
     forgeDockerEnabled: getEnv('FORGE_DOCKER_ENABLED', 'false') === 'true',
     semgrepEnabled: getEnv('SEMGREP_ENABLED', 'false') === 'true',
+    slitherEnabled: getEnv('SLITHER_ENABLED', 'false') === 'true',
+    aderynEnabled: getEnv('ADERYN_ENABLED', 'false') === 'true',
+
+    sourcifyApiUrl: getEnv('SOURCIFY_API_URL', 'https://sourcify.dev/server'),
+    etherscanApiUrl: getEnv('ETHERSCAN_API_URL', 'https://api.etherscan.io/v2/api'),
+    etherscanApiKey: getEnv('ETHERSCAN_API_KEY', ''),
 
     // Replicate (Image Generation)
     replicateApiToken: getEnv('REPLICATE_API_TOKEN', ''),
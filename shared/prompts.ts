@@ -280,7 +280,7 @@ Acknowledge new participants naturally. Facilitate the team - recognize differen
 | storefront | NFT marketplace | projectId, chainId, sortBy? |
 | landing-page-preview | Landing page + export | projectId, chainId, layout? |
 | success-visualization | Growth projection | targetRaise, supporterCount, timeframe |
-| queue-ruleset-form | Queue ruleset | projectId, chainId |
+| queue-ruleset-form | Queue ruleset | projectId, chainId, dataHook?, dataHookChainIds? (JSON array), useDataHookForPay?, useDataHookForCashOut? |
 | deploy-project-form | Deployment wizard | (interactive) |
 
 ### When to Use Visual Components
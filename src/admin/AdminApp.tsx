@@ -7,6 +7,7 @@ import DashboardPage from './pages/DashboardPage'
 import ChatsPage from './pages/ChatsPage'
 import QueuedPaymentsPage from './pages/QueuedPaymentsPage'
 import EscalationsPage from './pages/EscalationsPage'
+import ExperimentsPage from './pages/ExperimentsPage'
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -183,6 +184,7 @@ export default function AdminApp() {
               <Route index element={<DashboardPage />} />
               <Route path="chats" element={<ChatsPage />} />
               <Route path="escalations" element={<EscalationsPage />} />
+              <Route path="experiments" element={<ExperimentsPage />} />
               <Route path="queued-payments" element={<QueuedPaymentsPage />} />
               <Route path="*" element={<Navigate to="/" replace />} />
             </Route>
@@ -17,3 +17,11 @@ export {
   type JuiceStats,
   type ProcessSpendResult,
 } from './useAdminJuiceSpends'
+export {
+  useAdminFiatPayments,
+  useOverrideRiskScore,
+  type FiatPayment,
+  type FiatPaymentsResponse,
+  type RiskFactor,
+  type RiskOverrideResult,
+} from './useAdminFiatPayments'
@@ -0,0 +1,130 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useAuthStore } from '../../stores/authStore'
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || ''
+
+export interface RiskFactor {
+  factor: string
+  label: string
+  points: number
+}
+
+export interface FiatPayment {
+  id: string
+  userId: string | null
+  userEmail: string | null
+  projectId: number
+  chainId: number
+  beneficiaryAddress: string
+  amountUsd: number
+  status: 'pending_settlement' | 'settling' | 'settled' | 'disputed' | 'refunded' | 'failed'
+  paidAt: string
+  settlesAt: string
+  settlementDelayDays: number
+  riskScore: number | null
+  modelRiskScore: number | null
+  radarRiskScore: number | null
+  riskFactors: RiskFactor[]
+  riskOverride: {
+    by: string | null
+    at: string
+    reason: string | null
+  } | null
+  txHash: string | null
+  errorMessage: string | null
+}
+
+export interface FiatPaymentsResponse {
+  payments: FiatPayment[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+export interface RiskOverrideResult {
+  riskScore: number
+  settlementDelayDays: number
+  settlesAt: string
+}
+
+async function fetchFiatPayments(
+  token: string,
+  page: number,
+  limit: number,
+  status?: string
+): Promise<FiatPaymentsResponse> {
+  const params = new URLSearchParams({
+    page: page.toString(),
+    limit: limit.toString(),
+  })
+  if (status) {
+    params.set('status', status)
+  }
+
+  const response = await fetch(`${API_BASE_URL}/admin/fiat/pending-payments?${params}`, {
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+  })
+
+  const data = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || 'Failed to fetch fiat payments')
+  }
+
+  return data.data
+}
+
+async function overrideRiskScore(
+  token: string,
+  paymentId: string,
+  riskScore: number,
+  reason: string
+): Promise<RiskOverrideResult> {
+  const response = await fetch(`${API_BASE_URL}/admin/fiat/payments/${paymentId}/risk-override`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ riskScore, reason }),
+  })
+
+  const data = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || 'Failed to override risk score')
+  }
+
+  return data.data
+}
+
+export function useAdminFiatPayments(page = 1, limit = 50, status?: string) {
+  const token = useAuthStore((state) => state.token)
+
+  return useQuery({
+    queryKey: ['admin', 'fiat', 'payments', page, limit, status],
+    queryFn: () => fetchFiatPayments(token!, page, limit, status),
+    enabled: !!token,
+    staleTime: 1000 * 30, // 30 seconds
+    refetchInterval: 1000 * 60, // Auto-refresh every minute
+  })
+}
+
+export function useOverrideRiskScore() {
+  const token = useAuthStore((state) => state.token)
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ paymentId, riskScore, reason }: { paymentId: string; riskScore: number; reason: string }) =>
+      overrideRiskScore(token!, paymentId, riskScore, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'fiat'] })
+    },
+  })
+}
@@ -0,0 +1,392 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useThemeStore } from '../../stores'
+import { useAuthStore } from '../../stores/authStore'
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || ''
+
+type ExperimentStatus = 'draft' | 'running' | 'stopped'
+
+interface PromptVariant {
+  id: string
+  description?: string
+  weight: number
+  modules?: Record<string, string>
+  appendix?: string
+}
+
+interface Experiment {
+  id: string
+  name: string
+  description: string | null
+  variants: PromptVariant[]
+  status: ExperimentStatus
+  createdBy: string | null
+  startedAt: string | null
+  stoppedAt: string | null
+  createdAt: string
+  assignedChats: number
+}
+
+interface VariantReport {
+  variantId: string
+  description: string | null
+  weight: number
+  chats: number
+  responses: number
+  avgContextTokens: number | null
+  feedback: Record<string, number>
+  escalations: number
+  escalatedChats: number
+  transactionsStarted: number
+  transactionsConfirmed: number
+  convertedChats: number
+  positiveFeedbackRate: number | null
+  escalationRate: number | null
+  conversionRate: number | null
+}
+
+const VARIANTS_EXAMPLE = `[
+  { "id": "control", "weight": 1, "description": "Shipped prompt" },
+  {
+    "id": "short-examples",
+    "weight": 1,
+    "description": "Fewer, shorter examples",
+    "modules": { "EXAMPLE_INTERACTIONS": "..." },
+    "appendix": "Optional extra instructions"
+  }
+]`
+
+const FEEDBACK_RATINGS = ['wow', 'great', 'meh', 'bad']
+
+export default function ExperimentsPage() {
+  const { theme } = useThemeStore()
+  const isDark = theme === 'dark'
+  const token = useAuthStore((state) => state.token)
+  const queryClient = useQueryClient()
+
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [showCreate, setShowCreate] = useState(false)
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [variantsJson, setVariantsJson] = useState(VARIANTS_EXAMPLE)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const request = async <T,>(path: string, init?: RequestInit): Promise<T> => {
+    const response = await fetch(`${API_BASE_URL}/admin${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+    })
+    const data = await response.json()
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Request failed')
+    }
+    return data.data as T
+  }
+
+  const { data: experiments, isLoading } = useQuery({
+    queryKey: ['prompt-experiments'],
+    queryFn: () => request<Experiment[]>('/experiments'),
+    enabled: !!token,
+  })
+
+  const { data: report, isLoading: reportLoading } = useQuery({
+    queryKey: ['prompt-experiment-report', selectedId],
+    queryFn: () => request<{ experiment: Experiment; variants: VariantReport[] }>(`/experiments/${selectedId}/report`),
+    enabled: !!token && !!selectedId,
+  })
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['prompt-experiments'] })
+    queryClient.invalidateQueries({ queryKey: ['prompt-experiment-report'] })
+  }
+
+  const createMutation = useMutation({
+    mutationFn: (body: { name: string; description?: string; variants: PromptVariant[] }) =>
+      request<Experiment>('/experiments', { method: 'POST', body: JSON.stringify(body) }),
+    onSuccess: (experiment) => {
+      setShowCreate(false)
+      setName('')
+      setDescription('')
+      setVariantsJson(VARIANTS_EXAMPLE)
+      setSelectedId(experiment.id)
+      refresh()
+    },
+    onError: (err: Error) => setFormError(err.message),
+  })
+
+  const statusMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: 'running' | 'stopped' }) =>
+      request<Experiment>(`/experiments/${id}/status`, { method: 'POST', body: JSON.stringify({ status }) }),
+    onSuccess: refresh,
+    onError: (err: Error) => alert(err.message),
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => request<void>(`/experiments/${id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      setSelectedId(null)
+      refresh()
+    },
+    onError: (err: Error) => alert(err.message),
+  })
+
+  const handleCreate = () => {
+    setFormError(null)
+    let variants: PromptVariant[]
+    try {
+      variants = JSON.parse(variantsJson)
+    } catch {
+      setFormError('Variants must be valid JSON')
+      return
+    }
+    createMutation.mutate({ name: name.trim(), description: description.trim() || undefined, variants })
+  }
+
+  const formatDate = (dateStr: string | null) => {
+    if (!dateStr) return '-'
+    return new Date(dateStr).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const formatRate = (rate: number | null) => (rate === null ? '-' : `${(rate * 100).toFixed(1)}%`)
+
+  const getStatusBadge = (status: ExperimentStatus) => {
+    const colors = {
+      draft: isDark ? 'bg-zinc-700 text-gray-300' : 'bg-gray-100 text-gray-700',
+      running: isDark ? 'bg-green-900/50 text-green-300' : 'bg-green-100 text-green-800',
+      stopped: isDark ? 'bg-blue-900/50 text-blue-300' : 'bg-blue-100 text-blue-800',
+    }
+    return colors[status]
+  }
+
+  const mutedText = isDark ? 'text-gray-400' : 'text-gray-500'
+  const headerCell = `px-4 py-3 text-left text-xs font-medium uppercase ${mutedText}`
+  const bodyCell = `px-4 py-3 text-sm ${isDark ? 'text-gray-200' : 'text-gray-900'}`
+  const inputClass = `w-full px-3 py-2 text-sm rounded-lg border outline-none ${
+    isDark
+      ? 'bg-zinc-800 border-zinc-700 text-white focus:border-juice-cyan'
+      : 'bg-white border-gray-300 text-gray-900 focus:border-teal-500'
+  }`
+  const secondaryButton = `px-3 py-1 text-sm rounded ${
+    isDark ? 'bg-zinc-800 text-gray-300 hover:bg-zinc-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  }`
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className={`text-2xl font-bold ${isDark ? 'text-white' : 'text-gray-900'}`}>
+          Prompt Experiments
+        </h1>
+        <button
+          onClick={() => setShowCreate(!showCreate)}
+          className="px-3 py-1.5 text-sm rounded-lg bg-juice-orange text-juice-dark hover:bg-juice-orange/90"
+        >
+          {showCreate ? 'Cancel' : 'New Experiment'}
+        </button>
+      </div>
+
+      {/* Create form */}
+      {showCreate && (
+        <div className={`p-4 mb-6 rounded-lg space-y-3 ${isDark ? 'bg-zinc-900 border border-zinc-700' : 'bg-white border border-gray-200'}`}>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name, e.g. shorter-examples-2026-10"
+            className={inputClass}
+          />
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="What is being tested and why"
+            className={inputClass}
+          />
+          <div>
+            <div className={`text-xs mb-1 ${mutedText}`}>
+              Variants (JSON). Modules: BASE_PROMPT, DATA_QUERY_CONTEXT, HOOK_DEVELOPER_CONTEXT, TRANSACTION_CONTEXT, EXAMPLE_INTERACTIONS
+            </div>
+            <textarea
+              value={variantsJson}
+              onChange={(e) => setVariantsJson(e.target.value)}
+              rows={12}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          {formError && (
+            <div className="p-3 bg-red-500/10 border border-red-500/30 text-red-400 text-sm">{formError}</div>
+          )}
+          <button
+            onClick={handleCreate}
+            disabled={!name.trim() || createMutation.isPending}
+            className="px-3 py-1.5 text-sm rounded-lg bg-juice-orange text-juice-dark hover:bg-juice-orange/90 disabled:opacity-50"
+          >
+            {createMutation.isPending ? 'Saving...' : 'Save as Draft'}
+          </button>
+        </div>
+      )}
+
+      {/* Experiments table */}
+      <div className={`border rounded-lg overflow-hidden mb-6 ${
+        isDark ? 'bg-zinc-900 border-zinc-700' : 'bg-white border-gray-200'
+      }`}>
+        {isLoading ? (
+          <div className="p-8 text-center">
+            <div className={`text-sm ${mutedText}`}>Loading...</div>
+          </div>
+        ) : !experiments || experiments.length === 0 ? (
+          <div className="p-8 text-center">
+            <div className={`text-sm ${mutedText}`}>No experiments yet</div>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className={isDark ? 'bg-zinc-800' : 'bg-gray-50'}>
+              <tr>
+                <th className={headerCell}>Name</th>
+                <th className={headerCell}>Status</th>
+                <th className={headerCell}>Variants</th>
+                <th className={headerCell}>Chats</th>
+                <th className={headerCell}>Started</th>
+                <th className={headerCell}></th>
+              </tr>
+            </thead>
+            <tbody className={`divide-y ${isDark ? 'divide-zinc-800' : 'divide-gray-100'}`}>
+              {experiments.map((experiment) => (
+                <tr
+                  key={experiment.id}
+                  onClick={() => setSelectedId(experiment.id)}
+                  className={`cursor-pointer transition-colors ${
+                    selectedId === experiment.id
+                      ? isDark ? 'bg-zinc-800' : 'bg-gray-50'
+                      : isDark ? 'hover:bg-zinc-800' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <td className={bodyCell}>
+                    <div className="font-medium">{experiment.name}</div>
+                    {experiment.description && <div className={`text-xs ${mutedText}`}>{experiment.description}</div>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 text-xs rounded-full ${getStatusBadge(experiment.status)}`}>
+                      {experiment.status}
+                    </span>
+                  </td>
+                  <td className={bodyCell}>
+                    {experiment.variants.map(v => `${v.id} (${v.weight})`).join(', ')}
+                  </td>
+                  <td className={bodyCell}>{experiment.assignedChats}</td>
+                  <td className={`px-4 py-3 text-sm ${mutedText}`}>{formatDate(experiment.startedAt)}</td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                    {experiment.status === 'draft' && (
+                      <button
+                        onClick={() => statusMutation.mutate({ id: experiment.id, status: 'running' })}
+                        disabled={statusMutation.isPending}
+                        className={secondaryButton}
+                      >
+                        Start
+                      </button>
+                    )}
+                    {experiment.status === 'running' && (
+                      <button
+                        onClick={() => {
+                          if (confirm(`Stop "${experiment.name}"? Its chats go back to the shipped prompt.`)) {
+                            statusMutation.mutate({ id: experiment.id, status: 'stopped' })
+                          }
+                        }}
+                        disabled={statusMutation.isPending}
+                        className={secondaryButton}
+                      >
+                        Stop
+                      </button>
+                    )}
+                    {experiment.status !== 'running' && (
+                      <button
+                        onClick={() => {
+                          if (confirm(`Delete "${experiment.name}" and its results?`)) {
+                            deleteMutation.mutate(experiment.id)
+                          }
+                        }}
+                        disabled={deleteMutation.isPending}
+                        className={`${secondaryButton} ml-2`}
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Report */}
+      {selectedId && (
+        <div className={`border rounded-lg overflow-hidden ${
+          isDark ? 'bg-zinc-900 border-zinc-700' : 'bg-white border-gray-200'
+        }`}>
+          <div className={`px-4 py-3 border-b ${isDark ? 'border-zinc-800' : 'border-gray-100'}`}>
+            <div className={`font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+              {report?.experiment.name ?? 'Report'}
+            </div>
+            <div className={`text-xs ${mutedText}`}>
+              Outcomes in each variant's chats after they were assigned. Responses count the last 100 per chat.
+            </div>
+          </div>
+          {reportLoading || !report ? (
+            <div className="p-8 text-center">
+              <div className={`text-sm ${mutedText}`}>Loading...</div>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className={isDark ? 'bg-zinc-800' : 'bg-gray-50'}>
+                <tr>
+                  <th className={headerCell}>Variant</th>
+                  <th className={headerCell}>Chats</th>
+                  <th className={headerCell}>Responses</th>
+                  <th className={headerCell}>Avg Context</th>
+                  <th className={headerCell}>Feedback</th>
+                  <th className={headerCell}>Positive</th>
+                  <th className={headerCell}>Escalations</th>
+                  <th className={headerCell}>Confirmed Txs</th>
+                  <th className={headerCell}>Conversion</th>
+                </tr>
+              </thead>
+              <tbody className={`divide-y ${isDark ? 'divide-zinc-800' : 'divide-gray-100'}`}>
+                {report.variants.map((variant) => (
+                  <tr key={variant.variantId}>
+                    <td className={bodyCell}>
+                      <div className="font-medium">{variant.variantId}</div>
+                      {variant.description && <div className={`text-xs ${mutedText}`}>{variant.description}</div>}
+                    </td>
+                    <td className={bodyCell}>{variant.chats}</td>
+                    <td className={bodyCell}>{variant.responses}</td>
+                    <td className={bodyCell}>{variant.avgContextTokens?.toLocaleString() ?? '-'}</td>
+                    <td className={`px-4 py-3 text-xs ${mutedText}`}>
+                      {FEEDBACK_RATINGS.map(rating => `${rating} ${variant.feedback[rating] ?? 0}`).join(' · ')}
+                    </td>
+                    <td className={bodyCell}>{formatRate(variant.positiveFeedbackRate)}</td>
+                    <td className={bodyCell}>
+                      {variant.escalations}
+                      <span className={`ml-1 text-xs ${mutedText}`}>({formatRate(variant.escalationRate)} of responses)</span>
+                    </td>
+                    <td className={bodyCell}>
+                      {variant.transactionsConfirmed}
+                      <span className={`ml-1 text-xs ${mutedText}`}>of {variant.transactionsStarted}</span>
+                    </td>
+                    <td className={bodyCell}>{formatRate(variant.conversionRate)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,7 +4,10 @@ import {
   useAdminJuiceSpends,
   useAdminJuiceStats,
   useProcessSpend,
+  useAdminFiatPayments,
+  useOverrideRiskScore,
   type JuiceSpend,
+  type FiatPayment,
 } from '../hooks'
 
 const CHAIN_NAMES: Record<number, string> = {
@@ -159,6 +162,141 @@ function SpendRow({
   )
 }
 
+function RiskBadge({ score, isDark }: { score: number | null; isDark: boolean }) {
+  if (score === null) {
+    return <span className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>-</span>
+  }
+
+  const color = score <= 20
+    ? isDark ? 'bg-green-500/20 text-green-400' : 'bg-green-100 text-green-700'
+    : score <= 40
+      ? isDark ? 'bg-yellow-500/20 text-yellow-400' : 'bg-yellow-100 text-yellow-700'
+      : score <= 60
+        ? isDark ? 'bg-orange-500/20 text-orange-400' : 'bg-orange-100 text-orange-700'
+        : isDark ? 'bg-red-500/20 text-red-400' : 'bg-red-100 text-red-700'
+
+  return (
+    <span className={`px-2 py-0.5 text-xs font-mono font-medium rounded ${color}`}>
+      {score}
+    </span>
+  )
+}
+
+function FiatPaymentRow({
+  payment,
+  isDark,
+  onOverride,
+  isOverriding,
+}: {
+  payment: FiatPayment
+  isDark: boolean
+  onOverride: () => void
+  isOverriding: boolean
+}) {
+  const [expanded, setExpanded] = useState(false)
+  const paidAt = new Date(payment.paidAt)
+  const settlesAt = new Date(payment.settlesAt)
+  const chainName = CHAIN_NAMES[payment.chainId] || `Chain ${payment.chainId}`
+  const mutedClass = isDark ? 'text-gray-500' : 'text-gray-400'
+
+  return (
+    <>
+      <tr className={isDark ? 'border-zinc-700' : 'border-gray-200'}>
+        <td className={`px-4 py-3 text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+          <div>{paidAt.toLocaleDateString()}</div>
+          <div className="text-xs">{paidAt.toLocaleTimeString()}</div>
+        </td>
+        <td className={`px-4 py-3 text-sm ${isDark ? 'text-white' : 'text-gray-900'}`}>
+          {payment.userEmail || (
+            <span className={mutedClass}>
+              {payment.userId ? `${payment.userId.slice(0, 8)}...` : 'Guest'}
+            </span>
+          )}
+        </td>
+        <td className={`px-4 py-3 text-sm ${isDark ? 'text-white' : 'text-gray-900'}`}>
+          <div>Project #{payment.projectId}</div>
+          <div className={`text-xs ${mutedClass}`}>{chainName}</div>
+        </td>
+        <td className={`px-4 py-3 text-sm font-mono ${isDark ? 'text-white' : 'text-gray-900'}`}>
+          ${payment.amountUsd.toFixed(2)}
+        </td>
+        <td className="px-4 py-3">
+          <button onClick={() => setExpanded(!expanded)} className="flex items-center gap-2">
+            <RiskBadge score={payment.riskScore} isDark={isDark} />
+            {payment.riskOverride && (
+              <span className={`text-xs ${mutedClass}`}>
+                (model {payment.modelRiskScore ?? '-'})
+              </span>
+            )}
+          </button>
+          {payment.radarRiskScore !== null && (
+            <div className={`text-xs mt-1 ${mutedClass}`}>Radar {payment.radarRiskScore}</div>
+          )}
+        </td>
+        <td className={`px-4 py-3 text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+          <div>{payment.settlementDelayDays === 0 ? 'Immediate' : `${payment.settlementDelayDays} days`}</div>
+          <div className="text-xs">{settlesAt.toLocaleDateString()}</div>
+        </td>
+        <td className="px-4 py-3">
+          {payment.status === 'pending_settlement' && (
+            <button
+              onClick={onOverride}
+              disabled={isOverriding}
+              className={`px-3 py-1 text-xs font-medium transition-colors ${
+                isOverriding
+                  ? 'bg-gray-500/50 text-gray-400 cursor-not-allowed'
+                  : isDark
+                    ? 'bg-white/10 hover:bg-white/20 text-white'
+                    : 'bg-gray-200 hover:bg-gray-300 text-gray-900'
+              }`}
+            >
+              {isOverriding ? 'Saving...' : 'Override'}
+            </button>
+          )}
+          {payment.errorMessage && (
+            <span
+              title={payment.errorMessage}
+              className={`text-xs ${isDark ? 'text-red-400' : 'text-red-500'}`}
+            >
+              Error
+            </span>
+          )}
+        </td>
+      </tr>
+      {expanded && (
+        <tr className={isDark ? 'bg-zinc-800/50' : 'bg-gray-50'}>
+          <td colSpan={7} className="px-4 py-3">
+            {payment.riskFactors.length === 0 ? (
+              <div className={`text-xs ${mutedClass}`}>No risk breakdown recorded</div>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {payment.riskFactors.map((factor) => (
+                  <span
+                    key={factor.factor}
+                    className={`px-2 py-0.5 text-xs ${isDark ? 'bg-white/5 text-gray-300' : 'bg-white text-gray-600 border border-gray-200'}`}
+                  >
+                    {factor.label}{' '}
+                    <span className={factor.points > 0 ? 'text-red-400' : 'text-green-400'}>
+                      {factor.points > 0 ? `+${factor.points}` : factor.points}
+                    </span>
+                  </span>
+                ))}
+              </div>
+            )}
+            {payment.riskOverride && (
+              <div className={`text-xs mt-2 ${mutedClass}`}>
+                Overridden by {payment.riskOverride.by || 'admin'} on{' '}
+                {new Date(payment.riskOverride.at).toLocaleString()}
+                {payment.riskOverride.reason && `: ${payment.riskOverride.reason}`}
+              </div>
+            )}
+          </td>
+        </tr>
+      )}
+    </>
+  )
+}
+
 export default function QueuedPaymentsPage() {
   const { theme } = useThemeStore()
   const isDark = theme === 'dark'
@@ -171,6 +309,13 @@ export default function QueuedPaymentsPage() {
   const { data: stats, isLoading: statsLoading } = useAdminJuiceStats()
   const processSpendMutation = useProcessSpend()
 
+  const [fiatPage, setFiatPage] = useState(1)
+  const [fiatStatusFilter, setFiatStatusFilter] = useState<string>('pending_settlement')
+  const [overridingId, setOverridingId] = useState<string | null>(null)
+
+  const { data: fiatData, isLoading: fiatLoading } = useAdminFiatPayments(fiatPage, 50, fiatStatusFilter)
+  const overrideRiskMutation = useOverrideRiskScore()
+
   const handleProcess = async (spendId: string) => {
     setProcessingId(spendId)
     try {
@@ -183,8 +328,38 @@ export default function QueuedPaymentsPage() {
     }
   }
 
+  const handleOverride = async (payment: FiatPayment) => {
+    const input = prompt(
+      'New risk score (0-100). 0-20 settles immediately, 21-40 waits 7 days, 41-60 30 days, 61-80 60 days, 81+ 120 days.',
+      String(payment.riskScore ?? '')
+    )
+    if (input === null) return
+
+    const riskScore = Number(input)
+    if (!Number.isInteger(riskScore) || riskScore < 0 || riskScore > 100) {
+      alert('Risk score must be a whole number from 0 to 100')
+      return
+    }
+
+    const reason = prompt('Reason for override')
+    if (!reason?.trim()) return
+
+    setOverridingId(payment.id)
+    try {
+      await overrideRiskMutation.mutateAsync({ paymentId: payment.id, riskScore, reason: reason.trim() })
+    } catch (error) {
+      console.error('Failed to override risk score:', error)
+      alert(error instanceof Error ? error.message : 'Failed to override risk score')
+    } finally {
+      setOverridingId(null)
+    }
+  }
+
   const spends = spendsData?.spends || []
   const pagination = spendsData?.pagination
+  const fiatPayments = fiatData?.payments || []
+  const fiatPagination = fiatData?.pagination
+  const headerClass = `px-4 py-3 text-left text-xs font-medium uppercase tracking-wide ${isDark ? 'text-gray-400' : 'text-gray-500'}`
 
   return (
     <div className="p-6">
@@ -345,6 +520,115 @@ export default function QueuedPaymentsPage() {
           </>
         )}
       </div>
+
+      {/* Fiat settlements */}
+      <h2 className={`text-lg font-bold mt-10 mb-4 ${isDark ? 'text-white' : 'text-gray-900'}`}>
+        Fiat Settlements
+      </h2>
+
+      <div className="mb-4 flex items-center gap-2">
+        <span className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>Filter:</span>
+        {['pending_settlement', 'settled', 'disputed', 'refunded', 'failed'].map((status) => (
+          <button
+            key={status}
+            onClick={() => {
+              setFiatStatusFilter(status)
+              setFiatPage(1)
+            }}
+            className={`px-3 py-1 text-xs font-medium transition-colors ${
+              fiatStatusFilter === status
+                ? isDark
+                  ? 'bg-white/10 text-white'
+                  : 'bg-gray-200 text-gray-900'
+                : isDark
+                  ? 'text-gray-400 hover:text-white hover:bg-white/5'
+                  : 'text-gray-500 hover:text-gray-900 hover:bg-gray-100'
+            }`}
+          >
+            {status.replace('_', ' ')}
+          </button>
+        ))}
+      </div>
+
+      <div className={`border overflow-hidden ${
+        isDark ? 'bg-zinc-900 border-zinc-700' : 'bg-white border-gray-200'
+      }`}>
+        {fiatLoading ? (
+          <div className="p-8 text-center">
+            <div className="w-8 h-8 border-2 border-juice-orange border-t-transparent rounded-full animate-spin mx-auto" />
+          </div>
+        ) : fiatPayments.length === 0 ? (
+          <div className={`p-8 text-center text-sm ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+            No {fiatStatusFilter.replace('_', ' ')} payments found
+          </div>
+        ) : (
+          <>
+            <table className="w-full">
+              <thead>
+                <tr className={isDark ? 'bg-zinc-800' : 'bg-gray-50'}>
+                  <th className={headerClass}>Paid</th>
+                  <th className={headerClass}>User</th>
+                  <th className={headerClass}>Project</th>
+                  <th className={headerClass}>Amount</th>
+                  <th className={headerClass}>Risk</th>
+                  <th className={headerClass}>Settles</th>
+                  <th className={headerClass}>Actions</th>
+                </tr>
+              </thead>
+              <tbody className={`divide-y ${isDark ? 'divide-zinc-700' : 'divide-gray-200'}`}>
+                {fiatPayments.map((payment) => (
+                  <FiatPaymentRow
+                    key={payment.id}
+                    payment={payment}
+                    isDark={isDark}
+                    onOverride={() => handleOverride(payment)}
+                    isOverriding={overridingId === payment.id}
+                  />
+                ))}
+              </tbody>
+            </table>
+
+            {fiatPagination && fiatPagination.totalPages > 1 && (
+              <div className={`px-4 py-3 flex items-center justify-between border-t ${
+                isDark ? 'border-zinc-700' : 'border-gray-200'
+              }`}>
+                <div className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Showing {(fiatPage - 1) * fiatPagination.limit + 1} to{' '}
+                  {Math.min(fiatPage * fiatPagination.limit, fiatPagination.total)} of {fiatPagination.total}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setFiatPage(fiatPage - 1)}
+                    disabled={fiatPage === 1}
+                    className={`px-3 py-1 text-sm transition-colors ${
+                      fiatPage === 1
+                        ? 'opacity-50 cursor-not-allowed'
+                        : isDark
+                          ? 'text-gray-300 hover:bg-white/5'
+                          : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    Previous
+                  </button>
+                  <button
+                    onClick={() => setFiatPage(fiatPage + 1)}
+                    disabled={fiatPage >= fiatPagination.totalPages}
+                    className={`px-3 py-1 text-sm transition-colors ${
+                      fiatPage >= fiatPagination.totalPages
+                        ? 'opacity-50 cursor-not-allowed'
+                        : isDark
+                          ? 'text-gray-300 hover:bg-white/5'
+                          : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
     </div>
   )
 }
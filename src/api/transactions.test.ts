@@ -34,6 +34,7 @@ describe('transactions API', () => {
     id: 'tx-123',
     userId: 'user-456',
     sessionId: mockSessionId,
+    chatId: null,
     txHash: '0xtxhash123',
     chainId: 42161,
     fromAddress: '0x1234567890123456789012345678901234567890',
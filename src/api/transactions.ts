@@ -28,6 +28,7 @@ export interface Transaction {
   id: string
   userId: string | null
   sessionId: string | null
+  chatId: string | null
   txHash: string | null
   chainId: number
   fromAddress: string
@@ -89,6 +90,7 @@ async function apiRequest<T>(
 // =============================================================================
 
 export interface CreateTransactionParams {
+  chatId?: string  // Chat the payment was started from
   chainId: number
   fromAddress: string
   toAddress: string
@@ -0,0 +1,361 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+import { formatEther, parseEther } from 'viem'
+import { useThemeStore, type ChatMember } from '../../stores'
+import * as chatApi from '../../services/chat'
+import type { AiBudget, AiBudgetPeriod, AiUsage, ToolApproval, ToolPolicyEntry } from '../../services/chat'
+
+interface AiUsageModalProps {
+  isOpen: boolean
+  onClose: () => void
+  chatId: string
+  members: ChatMember[]
+}
+
+type UsagePeriod = AiBudgetPeriod | 'all'
+
+// '' = whole chat, '*' = each member (default), otherwise a member address
+type BudgetTarget = string
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`
+}
+
+function formatCost(wei: string): string {
+  const eth = Number(formatEther(BigInt(wei)))
+  return eth === 0 ? '0' : eth < 0.0001 ? '<0.0001' : eth.toFixed(4)
+}
+
+/**
+ * Where this chat's AI spend went (by model, member and tool), the
+ * daily/monthly budgets that cap it, and who must approve each AI tool.
+ * Founders and admins only.
+ */
+export default function AiUsageModal({ isOpen, onClose, chatId, members }: AiUsageModalProps) {
+  const { theme } = useThemeStore()
+  const { t } = useTranslation()
+  const isDark = theme === 'dark'
+
+  const [period, setPeriod] = useState<UsagePeriod>('monthly')
+  const [usage, setUsage] = useState<AiUsage | null>(null)
+  const [budgets, setBudgets] = useState<AiBudget[]>([])
+  const [tools, setTools] = useState<ToolPolicyEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // New budget form
+  const [target, setTarget] = useState<BudgetTarget>('')
+  const [budgetPeriod, setBudgetPeriod] = useState<AiBudgetPeriod>('daily')
+  const [limitEth, setLimitEth] = useState('')
+  const [warnAt, setWarnAt] = useState('80')
+  const [saving, setSaving] = useState(false)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [usageData, budgetData, toolData] = await Promise.all([
+        chatApi.fetchAiUsage(chatId, period),
+        chatApi.fetchAiBudgets(chatId),
+        chatApi.fetchToolPolicy(chatId),
+      ])
+      setUsage(usageData)
+      setBudgets(budgetData)
+      setTools(toolData)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load AI usage')
+    } finally {
+      setLoading(false)
+    }
+  }, [chatId, period])
+
+  useEffect(() => {
+    if (isOpen) load()
+  }, [isOpen, load])
+
+  if (!isOpen) return null
+
+  const memberName = (address: string | null) => {
+    if (!address) return t('aiUsage.unknownMember', 'Unknown')
+    const member = members.find(m => m.address.toLowerCase() === address.toLowerCase())
+    return member?.displayName || shortAddress(address)
+  }
+
+  const describeTarget = (budget: AiBudget) => {
+    if (budget.scope === 'chat') return t('aiUsage.wholeChat', 'Whole chat')
+    if (!budget.memberAddress) return t('aiUsage.eachMember', 'Each member')
+    return memberName(budget.memberAddress)
+  }
+
+  const handleAddBudget = async (e: React.FormEvent) => {
+    e.preventDefault()
+    let limitWei: bigint
+    try {
+      limitWei = parseEther(limitEth.trim())
+    } catch {
+      setError(t('aiUsage.invalidLimit', 'Enter the limit in ETH, e.g. 0.01'))
+      return
+    }
+
+    setSaving(true)
+    try {
+      await chatApi.setAiBudget(chatId, {
+        scope: target === '' ? 'chat' : 'member',
+        memberAddress: target === '' || target === '*' ? null : target,
+        period: budgetPeriod,
+        limitWei: limitWei.toString(),
+        warnAtPercent: Number(warnAt) || 80,
+      })
+      setLimitEth('')
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save budget')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteBudget = async (budgetId: string) => {
+    try {
+      await chatApi.deleteAiBudget(chatId, budgetId)
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove budget')
+    }
+  }
+
+  const handleToolApproval = async (toolName: string, approval: ToolApproval) => {
+    try {
+      setTools(await chatApi.setToolApproval(chatId, toolName, approval))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update tool approval')
+    }
+  }
+
+  const mutedText = isDark ? 'text-gray-500' : 'text-gray-400'
+  const bodyText = isDark ? 'text-gray-300' : 'text-gray-700'
+  const sectionTitle = `text-xs font-medium uppercase tracking-wide mb-2 ${mutedText}`
+  const inputClass = `px-2 py-1.5 text-sm border focus:outline-none ${
+    isDark
+      ? 'bg-juice-dark-lighter border-white/10 text-white placeholder-gray-500 focus:border-white/30'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400 focus:border-gray-400'
+  }`
+  const periodLabels: Record<UsagePeriod, string> = {
+    daily: t('aiUsage.today', 'Today'),
+    monthly: t('aiUsage.thisMonth', 'This month'),
+    all: t('aiUsage.allTime', 'All time'),
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div
+        className={`relative w-full max-w-lg mx-4 max-h-[85vh] overflow-y-auto shadow-xl border ${
+          isDark ? 'bg-juice-dark border-white/20' : 'bg-white border-gray-200'
+        }`}
+      >
+        {/* Header */}
+        <div className={`flex items-center justify-between px-6 py-4 border-b ${isDark ? 'border-white/10' : 'border-gray-200'}`}>
+          <h2 className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>
+            {t('aiUsage.title', 'AI usage & budgets')}
+          </h2>
+          <button
+            onClick={onClose}
+            className={`p-2 transition-colors ${isDark ? 'hover:bg-white/10 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/30 text-red-500 text-sm">{error}</div>
+          )}
+
+          {/* Period */}
+          <div className="flex gap-2">
+            {(['daily', 'monthly', 'all'] as const).map(p => (
+              <button
+                key={p}
+                onClick={() => setPeriod(p)}
+                className={`px-2 py-0.5 text-xs border transition-colors ${
+                  period === p
+                    ? 'border-juice-orange text-juice-orange'
+                    : isDark ? 'border-white/10 text-gray-400 hover:text-white' : 'border-gray-200 text-gray-500 hover:text-gray-900'
+                }`}
+              >
+                {periodLabels[p]}
+              </button>
+            ))}
+          </div>
+
+          {loading && !usage ? (
+            <p className={`text-sm ${mutedText}`}>{t('ui.loading', 'Loading...')}</p>
+          ) : usage && (
+            <>
+              {/* Totals */}
+              <div className={`text-sm ${bodyText}`}>
+                <span className="font-semibold">{formatCost(usage.totals.costWei)} ETH</span>
+                {' · '}{usage.totals.requests} {t('aiUsage.requests', 'requests')}
+                {' · '}{(usage.totals.inputTokens + usage.totals.outputTokens).toLocaleString()} {t('aiUsage.tokens', 'tokens')}
+              </div>
+
+              {/* By model */}
+              <div>
+                <div className={sectionTitle}>{t('aiUsage.byModel', 'By model')}</div>
+                {usage.byModel.length === 0 ? (
+                  <p className={`text-xs ${mutedText}`}>{t('aiUsage.noUsage', 'No AI usage in this period')}</p>
+                ) : usage.byModel.map(row => (
+                  <div key={row.model} className={`flex justify-between gap-2 text-xs py-1 ${bodyText}`}>
+                    <span className="truncate" title={row.inputPer1M !== undefined ? `$${row.inputPer1M} / $${row.outputPer1M} per 1M tokens` : undefined}>
+                      {row.model}
+                    </span>
+                    <span className={`shrink-0 ${mutedText}`}>
+                      {row.requests} · {row.inputTokens.toLocaleString()} in / {row.outputTokens.toLocaleString()} out · {formatCost(row.costWei)} ETH
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              {/* By member */}
+              {usage.byMember.length > 0 && (
+                <div>
+                  <div className={sectionTitle}>{t('aiUsage.byMember', 'By member')}</div>
+                  {usage.byMember.map(row => (
+                    <div key={row.memberAddress ?? 'unknown'} className={`flex justify-between gap-2 text-xs py-1 ${bodyText}`}>
+                      <span className="truncate">{memberName(row.memberAddress)}</span>
+                      <span className={`shrink-0 ${mutedText}`}>
+                        {row.requests} · {formatCost(row.costWei)} ETH
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* By tool */}
+              {usage.byTool.length > 0 && (
+                <div>
+                  <div className={sectionTitle}>{t('aiUsage.byTool', 'By tool (since last restart)')}</div>
+                  {usage.byTool.map(row => (
+                    <div key={row.tool} className={`flex justify-between gap-2 text-xs py-1 ${bodyText}`}>
+                      <span className="truncate font-mono">{row.tool}</span>
+                      <span className={`shrink-0 ${mutedText}`}>{row.count}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          {/* Budgets */}
+          <div>
+            <div className={sectionTitle}>{t('aiUsage.budgets', 'Budgets')}</div>
+            {budgets.length === 0 && (
+              <p className={`text-xs mb-2 ${mutedText}`}>
+                {t('aiUsage.noBudgets', 'No limits set. Warnings show at the threshold; AI stops at the limit until the period resets (UTC).')}
+              </p>
+            )}
+            {budgets.map(budget => {
+              const statuses = usage?.budgets.filter(s => s.budget.id === budget.id) ?? []
+              const worst = statuses.reduce<typeof statuses[number] | null>(
+                (max, s) => (!max || s.percentUsed > max.percentUsed ? s : max),
+                null
+              )
+              return (
+                <div key={budget.id} className={`py-1.5 text-xs ${bodyText}`}>
+                  <div className="flex justify-between gap-2">
+                    <span>
+                      {describeTarget(budget)} · {budget.period === 'daily' ? t('aiUsage.daily', 'daily') : t('aiUsage.monthly', 'monthly')}{' '}
+                      · {formatCost(budget.limitWei)} ETH
+                      <span className={mutedText}> ({t('aiUsage.warnAt', 'warn at')} {budget.warnAtPercent}%)</span>
+                    </span>
+                    <button onClick={() => handleDeleteBudget(budget.id)} className="text-red-400 hover:text-red-300 transition-colors shrink-0">
+                      {t('ui.remove', 'Remove')}
+                    </button>
+                  </div>
+                  {worst && (
+                    <div className={`mt-1 h-1 ${isDark ? 'bg-white/10' : 'bg-gray-100'}`}>
+                      <div
+                        className={`h-full ${worst.state === 'exceeded' ? 'bg-red-500' : worst.state === 'warning' ? 'bg-orange-400' : 'bg-green-500'}`}
+                        style={{ width: `${Math.min(100, worst.percentUsed)}%` }}
+                        title={`${worst.memberAddress ? `${memberName(worst.memberAddress)}: ` : ''}${worst.percentUsed}%`}
+                      />
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+
+            <form onSubmit={handleAddBudget} className="mt-3 flex flex-wrap items-center gap-2">
+              <select value={target} onChange={(e) => setTarget(e.target.value)} className={inputClass}>
+                <option value="">{t('aiUsage.wholeChat', 'Whole chat')}</option>
+                <option value="*">{t('aiUsage.eachMember', 'Each member')}</option>
+                {members.map(m => (
+                  <option key={m.address} value={m.address}>{m.displayName || shortAddress(m.address)}</option>
+                ))}
+              </select>
+              <select value={budgetPeriod} onChange={(e) => setBudgetPeriod(e.target.value as AiBudgetPeriod)} className={inputClass}>
+                <option value="daily">{t('aiUsage.daily', 'daily')}</option>
+                <option value="monthly">{t('aiUsage.monthly', 'monthly')}</option>
+              </select>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={limitEth}
+                onChange={(e) => setLimitEth(e.target.value)}
+                placeholder={t('aiUsage.limitPlaceholder', 'Limit (ETH)')}
+                className={`${inputClass} w-28`}
+                required
+              />
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={warnAt}
+                onChange={(e) => setWarnAt(e.target.value)}
+                title={t('aiUsage.warnAtTooltip', 'Warn at % of the limit')}
+                className={`${inputClass} w-16`}
+              />
+              <button
+                type="submit"
+                disabled={saving || !limitEth.trim()}
+                className="px-3 py-1.5 text-sm bg-juice-orange text-black font-medium hover:bg-juice-orange/90 transition-colors disabled:opacity-50"
+              >
+                {saving ? '...' : t('aiUsage.setBudget', 'Set')}
+              </button>
+            </form>
+          </div>
+
+          {/* Tool approvals */}
+          {tools.length > 0 && (
+            <div>
+              <div className={sectionTitle}>{t('aiUsage.toolApprovals', 'Tool approvals')}</div>
+              <p className={`text-xs mb-2 ${mutedText}`}>
+                {t('aiUsage.toolApprovalsHelp', 'Who must approve before the AI runs a tool. Tools that pin files or move funds always need approval.')}
+              </p>
+              {tools.map(tool => (
+                <div key={tool.name} className={`py-1 flex items-center justify-between gap-2 text-xs ${bodyText}`}>
+                  <span className="truncate font-mono" title={tool.description}>{tool.name}</span>
+                  <select
+                    value={tool.approval}
+                    onChange={(e) => handleToolApproval(tool.name, e.target.value as ToolApproval)}
+                    className={`${inputClass} text-xs`}
+                  >
+                    {!tool.sideEffects && <option value="none">{t('aiUsage.approvalNone', 'No approval')}</option>}
+                    <option value="requester">{t('aiUsage.approvalRequester', 'Member who asked')}</option>
+                    <option value="admin">{t('aiUsage.approvalAdmin', 'Founder or admin')}</option>
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
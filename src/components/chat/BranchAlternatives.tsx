@@ -0,0 +1,113 @@
+import { useState } from 'react'
+import * as chatApi from '../../services/chat'
+import type { ChatBranch } from '../../services/chat'
+import type { ChatMessage } from '../../stores/chatStore'
+
+interface BranchAlternativesProps {
+  chatId: string
+  alternatives: ChatBranch[]
+  isDark: boolean
+  align?: 'left' | 'right'
+}
+
+const REASON_LABELS: Record<ChatBranch['reason'], string> = {
+  edit: 'Original prompt',
+  regenerate: 'Earlier response',
+  switch: 'Replaced version',
+}
+
+/**
+ * Other versions of the conversation from this message onward. Versions can
+ * be expanded for comparison, kept (making them the active conversation) or
+ * discarded. Keep/discard are handled by ChatContainer.
+ */
+export default function BranchAlternatives({ chatId, alternatives, isDark, align = 'left' }: BranchAlternativesProps) {
+  const [open, setOpen] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [branchMessages, setBranchMessages] = useState<Record<string, ChatMessage[]>>({})
+  const [loadingId, setLoadingId] = useState<string | null>(null)
+
+  if (alternatives.length === 0) return null
+
+  const toggleExpanded = async (branchId: string) => {
+    if (expandedId === branchId) {
+      setExpandedId(null)
+      return
+    }
+    setExpandedId(branchId)
+    if (branchMessages[branchId]) return
+
+    setLoadingId(branchId)
+    try {
+      const messages = await chatApi.fetchBranchMessages(chatId, branchId)
+      setBranchMessages(prev => ({ ...prev, [branchId]: messages }))
+    } catch (err) {
+      console.error('Failed to load branch messages:', err)
+    } finally {
+      setLoadingId(null)
+    }
+  }
+
+  const dispatch = (name: 'juice:switch-branch' | 'juice:discard-branch', branchId: string) => {
+    window.dispatchEvent(new CustomEvent(name, { detail: { branchId } }))
+  }
+
+  const mutedText = isDark ? 'text-gray-500' : 'text-gray-400'
+  const linkButton = `transition-colors ${isDark ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'}`
+
+  return (
+    <div className={`mt-2 text-xs ${align === 'right' ? 'text-right' : 'text-left'}`}>
+      <button onClick={() => setOpen(!open)} className={linkButton}>
+        {open ? 'Hide' : 'Show'} {alternatives.length} other version{alternatives.length === 1 ? '' : 's'}
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2 text-left">
+          {alternatives.map(branch => (
+            <div
+              key={branch.id}
+              className={`p-2 border ${isDark ? 'border-white/10 bg-white/5' : 'border-gray-200 bg-gray-50'}`}
+            >
+              <div className={`flex items-center justify-between gap-2 ${mutedText}`}>
+                <span>
+                  {REASON_LABELS[branch.reason]} · {branch.messageCount} message{branch.messageCount === 1 ? '' : 's'} ·{' '}
+                  {new Date(branch.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                </span>
+                <div className="flex items-center gap-3 shrink-0">
+                  <button onClick={() => toggleExpanded(branch.id)} className={linkButton}>
+                    {expandedId === branch.id ? 'Collapse' : 'Compare'}
+                  </button>
+                  <button onClick={() => dispatch('juice:switch-branch', branch.id)} className="text-green-500 hover:text-green-400 transition-colors">
+                    Keep this
+                  </button>
+                  <button onClick={() => dispatch('juice:discard-branch', branch.id)} className="text-red-400 hover:text-red-300 transition-colors">
+                    Discard
+                  </button>
+                </div>
+              </div>
+
+              {expandedId === branch.id ? (
+                <div className="mt-2 space-y-2">
+                  {loadingId === branch.id ? (
+                    <p className={mutedText}>Loading...</p>
+                  ) : (
+                    branchMessages[branch.id]?.map(message => (
+                      <div key={message.id} className={isDark ? 'text-gray-300' : 'text-gray-700'}>
+                        <span className={message.role === 'assistant' ? 'text-juice-orange' : mutedText}>
+                          {message.role === 'assistant' ? 'AI' : 'Prompt'}:
+                        </span>{' '}
+                        <span className="whitespace-pre-wrap">{message.content}</span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              ) : (
+                <p className={`mt-1 line-clamp-2 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>{branch.preview}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,10 +2,10 @@ import { useState, useCallback, useRef, useEffect, useMemo } from 'react'
 import { createPortal } from 'react-dom'
 import { useTranslation } from 'react-i18next'
 import { useNavigate } from 'react-router-dom'
-import { useChatStore, useSettingsStore, useThemeStore, LANGUAGES, type Message, type Attachment, type ChatMessage, type ChatMember } from '../../stores'
+import { useChatStore, useSettingsStore, useThemeStore, LANGUAGES, type Message, type Attachment, type ChatMessage, type ChatMember, type MessageReaction, type ToolCallStep, type MessageCitation } from '../../stores'
 import { useAuthStore } from '../../stores/authStore'
 import * as chatApi from '../../services/chat'
-import { useChatScroll, usePopoverPositioning, useChatActions } from './hooks'
+import { useChatScroll, usePopoverPositioning, useChatActions, useChatBranches } from './hooks'
 import MessageList from './MessageList'
 import ChatInput from './ChatInput'
 import WelcomeScreen from './WelcomeScreen'
@@ -17,6 +17,9 @@ import WalletInfo, { type JuicyIdentity } from './WalletInfo'
 import { SettingsPanel, PrivacySelector } from '../settings'
 import InviteModal from './InviteModal'
 import SaveModal from './SaveModal'
+import AiUsageModal from './AiUsageModal'
+import ChatExportModal from './ChatExportModal'
+import ChatWatchersModal from './ChatWatchersModal'
 import AuthOptionsModal from './AuthOptionsModal'
 // Migration no longer needed - all chats are on server
 import { useAccount } from 'wagmi'
@@ -26,6 +29,7 @@ import { getSessionId, getCachedPseudoAddress, getSessionPseudoAddress, getCurre
 import { getWalletSession } from '../../services/siwe'
 import { getEmojiFromAddress } from './ParticipantAvatars'
 import { parseMessageContent } from '../../utils/messageParser'
+import { upsertToolStep } from '../../utils/toolCalls'
 
 // getCurrentUserAddress is imported from session.ts - see that file for the
 // priority logic: SIWE wallet > Smart account (managed mode) > Pseudo-address
@@ -128,6 +132,12 @@ export default function ChatContainer({ topOnly, bottomOnly, forceActiveChatId }
     currentUserMember?.role === 'founder' ||
     currentUserMember?.role === 'admin' ||
     currentUserMember?.canInvite === true
+  // Founders/admins manage AI budgets and see the usage breakdown
+  const canManageAiBudgets = isChatMode && (
+    currentUserMember?.role === 'founder' ||
+    currentUserMember?.role === 'admin' ||
+    currentUserMember?.canManageMembers === true
+  )
 
   // AI toggle state
   const [isTogglingAi, setIsTogglingAi] = useState(false)
@@ -213,6 +223,11 @@ export default function ChatContainer({ topOnly, bottomOnly, forceActiveChatId }
   const [showAiPausedPopover, setShowAiPausedPopover] = useState(false)
   const [showOverflowMenu, setShowOverflowMenu] = useState(false)
   const [showHistorySidebar, setShowHistorySidebar] = useState(false)
+  const [showAiUsage, setShowAiUsage] = useState(false)
+  const [showExportModal, setShowExportModal] = useState(false)
+  const [showWatchers, setShowWatchers] = useState(false)
+  // AI budget warning or hard stop announced over WebSocket
+  const [budgetNotice, setBudgetNotice] = useState<{ state: 'warning' | 'exceeded'; message: string } | null>(null)
   const [showOptionsMenu, setShowOptionsMenu] = useState(false)
   // AI controls expanded state - shows "Skip for all" and "Skip for you" toggles
   const [aiControlsExpanded, setAiControlsExpanded] = useState(false)
@@ -355,9 +370,16 @@ export default function ChatContainer({ topOnly, bottomOnly, forceActiveChatId }
         senderName: msg.role === 'user' ? senderName : undefined,
         senderAddress: msg.role === 'user' ? msg.senderAddress : undefined,
         createdAt: msg.createdAt,
+        editedAt: msg.editedAt,
         isStreaming: msg.isStreaming,
         attachments: msg.attachments,
         needsJuicyId: msg.role === 'user' && isCurrentUser ? needsJuicyId : undefined,
+        canEdit: msg.role === 'user' && isCurrentUser && !msg.isEncrypted,
+        replyToId: msg.replyToId,
+        reactions: msg.reactions,
+        replyCount: msg.replyCount,
+        toolCalls: msg.toolCalls,
+        citations: msg.citations,
       } as Message
     })
 
@@ -379,6 +401,9 @@ export default function ChatContainer({ topOnly, bottomOnly, forceActiveChatId }
   // Use display messages for everything
   const messages = displayMessages
 
+  // Inactive conversation branches (only needed where the message list renders)
+  const { branches } = useChatBranches(bottomOnly ? null : activeChatId)
+
   // Check if any message is currently streaming
   const hasStreamingMessage = messages.some(m => m.isStreaming)
 
@@ -549,33 +574,8 @@ export default function ChatContainer({ topOnly, bottomOnly, forceActiveChatId }
   }, [handleSend])
 
   const handleExport = () => {
-    if (messages.length === 0) return
-    const title = activeChat?.name || 'Chat'
-
-    // Convert messages to markdown
-    const date = new Date().toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-    })
-    let md = `# ${title}\n\n`
-    md += `*Exported on ${date}*\n\n---\n\n`
-    for (const msg of messages) {
-      const role = msg.role === 'user' ? '**You**' : '**Juicy**'
-      md += `${role}:\n\n${msg.content}\n\n---\n\n`
-    }
-
-    // Trigger download
-    const filename = `${title.replace(/[^a-z0-9]/gi, '-').toLowerCase()}.md`
-    const blob = new Blob([md], { type: 'text/markdown' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = filename
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
+    if (!activeChatId || messages.length === 0) return
+    setShowExportModal(true)
   }
 
   // Share chat - all chats are now on server, just open invite modal
@@ -1131,6 +1131,62 @@ export default function ChatContainer({ topOnly, bottomOnly, forceActiveChatId }
             useChatStore.getState().updateChat(targetChatId, updates)
             break
           }
+          case 'message_edited': {
+            const { messageId, content, editedAt } = msg.data as { messageId: string; content: string; editedAt: string }
+            useChatStore.getState().updateMessage(targetChatId, messageId, { content, editedAt })
+            break
+          }
+          case 'reactions': {
+            const { messageId, reactions } = msg.data as { messageId: string; reactions: MessageReaction[] }
+            useChatStore.getState().updateMessage(targetChatId, messageId, { reactions })
+            break
+          }
+          case 'tool_call': {
+            // messageId is the streaming id; tools can run before the first token arrives
+            const { messageId, step } = msg.data as { messageId: string; step: ToolCallStep }
+            const chat = useChatStore.getState().chats.find(c => c.id === targetChatId)
+            const existingMsg = chat?.messages?.find(m => m.id === messageId)
+            if (existingMsg) {
+              useChatStore.getState().updateMessage(targetChatId, messageId, {
+                toolCalls: upsertToolStep(existingMsg.toolCalls, step),
+              })
+            } else {
+              addChatMessage(targetChatId, {
+                id: messageId,
+                chatId: targetChatId,
+                senderAddress: '0x0000000000000000000000000000000000000000',
+                role: 'assistant',
+                content: '',
+                isEncrypted: false,
+                createdAt: new Date().toISOString(),
+                isStreaming: true,
+                toolCalls: [step],
+              })
+              useChatStore.getState().setWaitingForAiChatId(null)
+            }
+            break
+          }
+          case 'citations': {
+            const { messageId, citations } = msg.data as { messageId: string; citations: MessageCitation[] }
+            useChatStore.getState().updateMessage(targetChatId, messageId, { citations })
+            break
+          }
+          case 'ai_budget': {
+            // Member budget notices are only for that member
+            const notice = msg.data as { state: 'warning' | 'exceeded'; message: string; memberAddress: string | null }
+            if (!notice.memberAddress || notice.memberAddress.toLowerCase() === getCurrentUserAddress()?.toLowerCase()) {
+              setBudgetNotice({ state: notice.state, message: notice.message })
+            }
+            break
+          }
+          case 'branch_changed':
+            // Messages moved between branches - reload the active conversation
+            chatApi.fetchMessages(targetChatId)
+              .then(msgs => {
+                if (isMounted) setChatMessages(targetChatId, msgs)
+              })
+              .catch(err => console.error('Failed to reload messages after branch change:', err))
+            break
           case 'connection_status': {
             // Handle connection status changes - clean up streaming messages on disconnect/failure
             const statusData = msg.data as { status: string }
@@ -1227,6 +1283,115 @@ export default function ChatContainer({ topOnly, bottomOnly, forceActiveChatId }
     handleSend(message)
   }, [queuedNewChatMessage, setQueuedNewChatMessage, handleSend, topOnly])
 
+  // Listen for edit/regenerate/branch actions from message bubbles
+  // Same instance rule as juice:send-message below, so each action is handled once
+  useEffect(() => {
+    if (topOnly) return
+
+    const getChatId = () => forceActiveChatId || useChatStore.getState().activeChatId
+
+    const reloadConversation = async (chatId: string) => {
+      setChatMessages(chatId, await chatApi.fetchMessages(chatId))
+      window.dispatchEvent(new CustomEvent('juice:branches-changed', { detail: { chatId } }))
+    }
+
+    const handleRegenerate = async (event: CustomEvent<{ messageId: string }>) => {
+      const chatId = getChatId()
+      if (!chatId || !event.detail?.messageId) return
+
+      const chatMessages = useChatStore.getState().chats.find(c => c.id === chatId)?.messages || []
+      const index = chatMessages.findIndex(m => m.id === event.detail.messageId)
+      if (index < 0) return
+      // The AI answers the prompt the old response was answering
+      const prompt = chatMessages.slice(0, index).reverse().find(m => m.role === 'user')?.content
+      if (!prompt) return
+
+      setError(null)
+      setChatMessages(chatId, chatMessages.slice(0, index))
+      setWaitingForAiChatId(chatId)
+      try {
+        await chatApi.invokeAi(chatId, prompt, undefined, false, event.detail.messageId)
+        window.dispatchEvent(new CustomEvent('juice:branches-changed', { detail: { chatId } }))
+      } catch (err) {
+        console.error('Failed to regenerate response:', err)
+        setError(err instanceof Error ? err.message : 'Failed to regenerate response')
+        setWaitingForAiChatId(null)
+        reloadConversation(chatId).catch(() => {})
+      }
+    }
+
+    const handleEdit = async (event: CustomEvent<{ messageId: string; content: string; rerun: boolean }>) => {
+      const chatId = getChatId()
+      if (!chatId || !event.detail?.messageId) return
+      const { messageId, content, rerun } = event.detail
+
+      setError(null)
+      try {
+        if (!rerun) {
+          const edited = await chatApi.editMessage(chatId, messageId, content)
+          useChatStore.getState().updateMessage(chatId, messageId, { content: edited.content, editedAt: edited.editedAt })
+          return
+        }
+
+        const chatMessages = useChatStore.getState().chats.find(c => c.id === chatId)?.messages || []
+        const index = chatMessages.findIndex(m => m.id === messageId)
+        const { message } = await chatApi.branchFromMessage(chatId, messageId, content)
+        setChatMessages(chatId, [...chatMessages.slice(0, Math.max(index, 0)), message])
+        window.dispatchEvent(new CustomEvent('juice:branches-changed', { detail: { chatId } }))
+
+        if (effectiveAiEnabled) {
+          setWaitingForAiChatId(chatId)
+          try {
+            await chatApi.invokeAi(chatId, content)
+          } catch (aiErr) {
+            console.error('Failed to invoke AI:', aiErr)
+            setWaitingForAiChatId(null)
+          }
+        }
+      } catch (err) {
+        console.error('Failed to edit message:', err)
+        setError(err instanceof Error ? err.message : 'Failed to edit message')
+      }
+    }
+
+    const handleSwitchBranch = async (event: CustomEvent<{ branchId: string }>) => {
+      const chatId = getChatId()
+      if (!chatId || !event.detail?.branchId) return
+      setError(null)
+      try {
+        await chatApi.switchBranch(chatId, event.detail.branchId)
+        await reloadConversation(chatId)
+      } catch (err) {
+        console.error('Failed to switch branch:', err)
+        setError(err instanceof Error ? err.message : 'Failed to switch branch')
+      }
+    }
+
+    const handleDiscardBranch = async (event: CustomEvent<{ branchId: string }>) => {
+      const chatId = getChatId()
+      if (!chatId || !event.detail?.branchId) return
+      setError(null)
+      try {
+        await chatApi.discardBranch(chatId, event.detail.branchId)
+        window.dispatchEvent(new CustomEvent('juice:branches-changed', { detail: { chatId } }))
+      } catch (err) {
+        console.error('Failed to discard branch:', err)
+        setError(err instanceof Error ? err.message : 'Failed to discard branch')
+      }
+    }
+
+    window.addEventListener('juice:regenerate-message', handleRegenerate as unknown as EventListener)
+    window.addEventListener('juice:edit-message', handleEdit as unknown as EventListener)
+    window.addEventListener('juice:switch-branch', handleSwitchBranch as unknown as EventListener)
+    window.addEventListener('juice:discard-branch', handleDiscardBranch as unknown as EventListener)
+    return () => {
+      window.removeEventListener('juice:regenerate-message', handleRegenerate as unknown as EventListener)
+      window.removeEventListener('juice:edit-message', handleEdit as unknown as EventListener)
+      window.removeEventListener('juice:switch-branch', handleSwitchBranch as unknown as EventListener)
+      window.removeEventListener('juice:discard-branch', handleDiscardBranch as unknown as EventListener)
+    }
+  }, [topOnly, forceActiveChatId, setChatMessages, setWaitingForAiChatId, effectiveAiEnabled])
+
   // Listen for messages from dynamic components (e.g., recommendation chips)
   // Only listen if we're the instance with the input (bottomOnly or neither specified)
   // This prevents duplicate message handling when split into topOnly/bottomOnly
@@ -1396,6 +1561,23 @@ export default function ChatContainer({ topOnly, bottomOnly, forceActiveChatId }
           </div>
         )}
 
+        {/* AI budget notice */}
+        {budgetNotice && (
+          <div className={`px-4 py-2 text-sm shrink-0 flex justify-between items-center border-b ${
+            budgetNotice.state === 'exceeded'
+              ? 'bg-red-500/20 border-red-500/50 text-red-300'
+              : 'bg-orange-500/10 border-orange-400/40 text-orange-400'
+          }`}>
+            <span>{budgetNotice.message}</span>
+            <button
+              onClick={() => setBudgetNotice(null)}
+              className="opacity-80 hover:opacity-100"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
         {messages.length === 0 && !isWaitingForAi ? (
           <>
             {/* Welcome screen (recommendations) - fills full area, extends behind dock */}
@@ -1726,6 +1908,7 @@ export default function ChatContainer({ topOnly, bottomOnly, forceActiveChatId }
                   showNudgeButton={showContinueButton}
                   onNudge={handleContinue}
                   scrollContainerRef={messagesScrollRef}
+                  branches={branches}
                 />
                 {/* Bottom padding - larger when waiting for AI or streaming to create space for response */}
                 <div className={`transition-all duration-200 ease-out ${(isWaitingForAi || pendingNewChat || hasStreamingMessage) ? "h-[70vh]" : "h-[14.44vh]"}`} />
@@ -1882,6 +2065,32 @@ export default function ChatContainer({ topOnly, bottomOnly, forceActiveChatId }
                                   >
                                     {t('chat.chatHistory', 'Chat history')}
                                   </button>
+                                  {canManageAiBudgets && (
+                                    <button
+                                      onClick={() => {
+                                        setShowAiUsage(true)
+                                        setShowOverflowMenu(false)
+                                      }}
+                                      className={`w-full px-3 py-1.5 text-xs text-left transition-colors ${
+                                        theme === 'dark' ? 'text-gray-300 hover:bg-white/5' : 'text-gray-600 hover:bg-gray-50'
+                                      }`}
+                                    >
+                                      {t('chat.aiUsage', 'AI usage')}
+                                    </button>
+                                  )}
+                                  {isChatMode && (
+                                    <button
+                                      onClick={() => {
+                                        setShowWatchers(true)
+                                        setShowOverflowMenu(false)
+                                      }}
+                                      className={`w-full px-3 py-1.5 text-xs text-left transition-colors ${
+                                        theme === 'dark' ? 'text-gray-300 hover:bg-white/5' : 'text-gray-600 hover:bg-gray-50'
+                                      }`}
+                                    >
+                                      {t('chat.projectReports', 'Project reports')}
+                                    </button>
+                                  )}
                                   {canPauseAi && (
                                     <button
                                       onClick={() => {
@@ -2081,6 +2290,39 @@ export default function ChatContainer({ topOnly, bottomOnly, forceActiveChatId }
             />
           )}
 
+          {/* AI usage & budgets - founders/admins */}
+          {activeChatId && canManageAiBudgets && (
+            <AiUsageModal
+              isOpen={showAiUsage}
+              onClose={() => setShowAiUsage(false)}
+              chatId={activeChatId}
+              members={members}
+            />
+          )}
+
+          {/* Scheduled project reports */}
+          {activeChatId && isChatMode && (
+            <ChatWatchersModal
+              isOpen={showWatchers}
+              onClose={() => setShowWatchers(false)}
+              chatId={activeChatId}
+              currentAddress={currentAddress ?? undefined}
+              canCreate={!!currentUserMember && currentUserMember.canInvokeAi !== false}
+              canManageAll={canManageAiBudgets}
+            />
+          )}
+
+          {/* Export as Markdown / JSON transcript */}
+          {activeChatId && (
+            <ChatExportModal
+              isOpen={showExportModal}
+              onClose={() => setShowExportModal(false)}
+              chatId={activeChatId}
+              messages={chatMessages}
+              currentAddress={currentAddress ?? undefined}
+            />
+          )}
+
           {/* Local Share Modal removed - all chats are now server-synced */}
 
           {/* Save Modal - for wallet-connected users */}
@@ -0,0 +1,132 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useThemeStore } from '../../stores'
+import type { ChatMessage } from '../../stores/chatStore'
+import * as chatApi from '../../services/chat'
+import {
+  chatExportToMarkdown,
+  exportFilename,
+  withDecryptedContent,
+  type ChatExportFormat,
+} from '../../utils/chatExport'
+
+interface ChatExportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  chatId: string
+  messages: ChatMessage[]
+  currentAddress?: string
+}
+
+function downloadFile(content: string, filename: string, type: string) {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Download the chat as readable Markdown or as a JSON transcript that
+ * can be imported into another account (see ConversationHistory).
+ */
+export default function ChatExportModal({ isOpen, onClose, chatId, messages, currentAddress }: ChatExportModalProps) {
+  const { theme } = useThemeStore()
+  const { t } = useTranslation()
+  const isDark = theme === 'dark'
+
+  const [exporting, setExporting] = useState<ChatExportFormat | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!isOpen) return null
+
+  const handleExport = async (format: ChatExportFormat) => {
+    setExporting(format)
+    setError(null)
+    try {
+      const data = withDecryptedContent(await chatApi.exportChat(chatId), messages)
+      if (format === 'markdown') {
+        downloadFile(chatExportToMarkdown(data, currentAddress), exportFilename(data, format), 'text/markdown')
+      } else {
+        downloadFile(JSON.stringify(data, null, 2), exportFilename(data, format), 'application/json')
+      }
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export chat')
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  const options: { format: ChatExportFormat; label: string; description: string }[] = [
+    {
+      format: 'markdown',
+      label: t('chatExport.markdown', 'Markdown'),
+      description: t('chatExport.markdownDescription', 'Readable document with component summaries, for offline records.'),
+    },
+    {
+      format: 'json',
+      label: t('chatExport.json', 'JSON transcript'),
+      description: t('chatExport.jsonDescription', 'Messages and component states. Import it to recreate the chat in another account.'),
+    },
+  ]
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div
+        className={`relative w-full max-w-md mx-4 shadow-xl border ${
+          isDark ? 'bg-juice-dark border-white/20' : 'bg-white border-gray-200'
+        }`}
+      >
+        {/* Header */}
+        <div className={`flex items-center justify-between px-6 py-4 border-b ${isDark ? 'border-white/10' : 'border-gray-200'}`}>
+          <h2 className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>
+            {t('chatExport.title', 'Export chat')}
+          </h2>
+          <button
+            onClick={onClose}
+            className={`p-2 transition-colors ${isDark ? 'hover:bg-white/10 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/30 text-red-500 text-sm">{error}</div>
+          )}
+
+          {options.map(option => (
+            <button
+              key={option.format}
+              onClick={() => handleExport(option.format)}
+              disabled={exporting !== null}
+              className={`w-full text-left px-4 py-3 border transition-colors disabled:opacity-50 ${
+                isDark
+                  ? 'border-white/10 hover:border-white/30 hover:bg-white/5'
+                  : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              <div className={`text-sm font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                {exporting === option.format ? t('chatExport.exporting', 'Exporting...') : option.label}
+              </div>
+              <div className={`text-xs mt-0.5 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                {option.description}
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
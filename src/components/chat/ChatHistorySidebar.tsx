@@ -5,6 +5,7 @@ import { useAccount } from 'wagmi'
 import { useChatStore, useThemeStore } from '../../stores'
 import type { Chat } from '../../stores/chatStore'
 import { fetchMyChats } from '../../services/chat'
+import ChatSearch from './ChatSearch'
 import { fetchProjectsByOwner, clearProjectsByOwnerCache, type Project } from '../../services/bendystraw'
 import { useAuthStore } from '../../stores/authStore'
 import { useManagedWallet } from '../../hooks'
@@ -481,7 +482,7 @@ export default function ChatHistorySidebar({ isOpen, onClose, currentChatId }: C
         <div className="flex-1 overflow-y-auto">
           {/* Chats Tab */}
           {activeTab === 'chats' && (
-            <>
+            <ChatSearch onSelect={handleSelectChat}>
               {isLoading && chats.length === 0 ? (
                 <div className="p-4 text-center">
                   <div className={`text-sm ${theme === 'dark' ? 'text-gray-500' : 'text-gray-400'}`}>
@@ -557,7 +558,7 @@ export default function ChatHistorySidebar({ isOpen, onClose, currentChatId }: C
                   ))}
                 </div>
               )}
-            </>
+            </ChatSearch>
           )}
 
           {/* Projects Tab */}
@@ -0,0 +1,162 @@
+import { useState, useEffect, useMemo, type ReactNode } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useChatStore, useThemeStore } from '../../stores'
+import { searchChats, type ChatSearchResult } from '../../services/chat'
+import { searchLoadedMessages, splitSnippet } from '../../utils/chatSearch'
+
+const SEARCH_DEBOUNCE_MS = 300
+const MIN_QUERY_LENGTH = 2
+
+interface ChatSearchProps {
+  onSelect: (chatId: string) => void
+  // Spacing around the search box, which differs between the sidebar and dashboard
+  className?: string
+  // Rendered while the search box is empty (the regular chat list)
+  children: ReactNode
+}
+
+/**
+ * Search box for message history. Server results cover unencrypted chats;
+ * encrypted chats are matched locally against their decrypted messages.
+ */
+export default function ChatSearch({ onSelect, className = 'px-3 pt-3 pb-1', children }: ChatSearchProps) {
+  const { theme } = useThemeStore()
+  const { t } = useTranslation()
+  const { chats } = useChatStore()
+
+  const [query, setQuery] = useState('')
+  const [serverResults, setServerResults] = useState<ChatSearchResult[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const trimmedQuery = query.trim()
+  const isSearching = trimmedQuery.length >= MIN_QUERY_LENGTH
+
+  // Debounced server search
+  useEffect(() => {
+    if (!isSearching) {
+      setServerResults([])
+      setLoading(false)
+      setError(null)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchChats(trimmedQuery)
+        if (!cancelled) {
+          setServerResults(results)
+          setError(null)
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Search failed')
+        }
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [trimmedQuery, isSearching])
+
+  const results = useMemo(() => {
+    if (!isSearching) return []
+    return [...searchLoadedMessages(chats, trimmedQuery), ...serverResults]
+  }, [isSearching, chats, trimmedQuery, serverResults])
+
+  return (
+    <>
+      <div className={className}>
+        <div className="relative">
+          <svg
+            className={`absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 ${theme === 'dark' ? 'text-gray-500' : 'text-gray-400'}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11A6 6 0 1 1 5 11a6 6 0 0 1 12 0z" />
+          </svg>
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape' && query) {
+                e.stopPropagation()
+                setQuery('')
+              }
+            }}
+            placeholder={t('chat.searchMessages', 'Search messages...')}
+            className={`w-full pl-8 pr-3 py-1.5 text-sm border outline-none ${
+              theme === 'dark'
+                ? 'bg-juice-dark-lighter border-white/10 text-white placeholder-gray-500 focus:border-white/30'
+                : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400 focus:border-gray-400'
+            }`}
+          />
+        </div>
+      </div>
+
+      {!isSearching ? (
+        children
+      ) : (
+        <div className="py-2">
+          {loading && results.length === 0 ? (
+            <div className={`p-4 text-center text-sm ${theme === 'dark' ? 'text-gray-500' : 'text-gray-400'}`}>
+              {t('chat.searching', 'Searching...')}
+            </div>
+          ) : error && results.length === 0 ? (
+            <div className="p-4 text-center text-sm text-red-400">{error}</div>
+          ) : results.length === 0 ? (
+            <div className={`p-4 text-center text-sm ${theme === 'dark' ? 'text-gray-500' : 'text-gray-400'}`}>
+              {t('chat.noSearchResults', 'No messages found')}
+            </div>
+          ) : (
+            results.map((result) => (
+              <button
+                key={`${result.matchType}-${result.messageId}`}
+                onClick={() => onSelect(result.chatId)}
+                className={`w-full px-4 py-2.5 text-left transition-colors ${
+                  theme === 'dark' ? 'hover:bg-white/5' : 'hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`text-xs font-medium truncate ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
+                    {result.chatName || t('chat.untitled', 'Untitled')}
+                  </span>
+                  <span className={`text-[10px] shrink-0 ${theme === 'dark' ? 'text-gray-500' : 'text-gray-400'}`}>
+                    {result.matchType === 'local' && '🔒 '}
+                    {new Date(result.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                  </span>
+                </div>
+                <p className={`mt-0.5 text-xs line-clamp-2 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {result.role === 'assistant' && (
+                    <span className="text-juice-orange">{t('chat.ai', 'AI')}: </span>
+                  )}
+                  {splitSnippet(result.snippet, result.highlights).map((segment, i) =>
+                    segment.highlighted ? (
+                      <mark
+                        key={i}
+                        className={`bg-transparent font-semibold ${theme === 'dark' ? 'text-white' : 'text-gray-900'}`}
+                      >
+                        {segment.text}
+                      </mark>
+                    ) : (
+                      <span key={i}>{segment.text}</span>
+                    )
+                  )}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,291 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useThemeStore } from '../../stores'
+import * as chatApi from '../../services/chat'
+import type { ChatWatcher, ChatWatcherRun, WatcherComponent, WatcherInterval } from '../../services/chat'
+import { CHAINS, ALL_CHAIN_IDS } from '../../constants'
+
+interface ChatWatchersModalProps {
+  isOpen: boolean
+  onClose: () => void
+  chatId: string
+  currentAddress?: string
+  canCreate: boolean // Needs AI permission - reports are billed to the chat
+  canManageAll: boolean // Founders/admins can pause or remove anyone's watcher
+}
+
+/**
+ * Scheduled weekly/monthly project reports the AI posts into this chat.
+ * Each report is billed like an AI response, against the chat's balance and
+ * the creator's AI budgets.
+ */
+export default function ChatWatchersModal({ isOpen, onClose, chatId, currentAddress, canCreate, canManageAll }: ChatWatchersModalProps) {
+  const { theme } = useThemeStore()
+  const { t } = useTranslation()
+  const isDark = theme === 'dark'
+
+  const [watchers, setWatchers] = useState<ChatWatcher[]>([])
+  const [runs, setRuns] = useState<Record<string, ChatWatcherRun[]>>({})
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // New watcher form
+  const [projectId, setProjectId] = useState('')
+  const [chainId, setChainId] = useState<number>(ALL_CHAIN_IDS[0])
+  const [reportInterval, setReportInterval] = useState<WatcherInterval>('weekly')
+  const [component, setComponent] = useState<WatcherComponent>('project-card')
+  const [instructions, setInstructions] = useState('')
+  const [startAt, setStartAt] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      setWatchers(await chatApi.fetchWatchers(chatId))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load watchers')
+    } finally {
+      setLoading(false)
+    }
+  }, [chatId])
+
+  useEffect(() => {
+    if (isOpen) load()
+  }, [isOpen, load])
+
+  if (!isOpen) return null
+
+  const canManage = (watcher: ChatWatcher) =>
+    canManageAll || (!!currentAddress && watcher.createdByAddress.toLowerCase() === currentAddress.toLowerCase())
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const id = Number(projectId.trim())
+    if (!Number.isInteger(id) || id <= 0) {
+      setError(t('watchers.invalidProject', 'Enter a project ID, e.g. 123'))
+      return
+    }
+
+    setSaving(true)
+    try {
+      await chatApi.createWatcher(chatId, {
+        projectId: id,
+        chainId,
+        interval: reportInterval,
+        component,
+        instructions: instructions.trim() || undefined,
+        startAt: startAt ? new Date(startAt).toISOString() : undefined,
+      })
+      setProjectId('')
+      setInstructions('')
+      setStartAt('')
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create watcher')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleTogglePause = async (watcher: ChatWatcher) => {
+    try {
+      await chatApi.setWatcherPaused(chatId, watcher.id, watcher.status === 'active')
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update watcher')
+    }
+  }
+
+  const handleDelete = async (watcherId: string) => {
+    try {
+      await chatApi.deleteWatcher(chatId, watcherId)
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove watcher')
+    }
+  }
+
+  const toggleRuns = async (watcherId: string) => {
+    if (runs[watcherId]) {
+      const rest = { ...runs }
+      delete rest[watcherId]
+      setRuns(rest)
+      return
+    }
+    try {
+      const history = await chatApi.fetchWatcherRuns(chatId, watcherId)
+      setRuns(prev => ({ ...prev, [watcherId]: history }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load report history')
+    }
+  }
+
+  const mutedText = isDark ? 'text-gray-500' : 'text-gray-400'
+  const bodyText = isDark ? 'text-gray-300' : 'text-gray-700'
+  const sectionTitle = `text-xs font-medium uppercase tracking-wide mb-2 ${mutedText}`
+  const inputClass = `px-2 py-1.5 text-sm border focus:outline-none ${
+    isDark
+      ? 'bg-juice-dark-lighter border-white/10 text-white placeholder-gray-500 focus:border-white/30'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400 focus:border-gray-400'
+  }`
+  const intervalLabels: Record<WatcherInterval, string> = {
+    weekly: t('watchers.weekly', 'Weekly'),
+    monthly: t('watchers.monthly', 'Monthly'),
+  }
+  const componentLabels: Record<WatcherComponent, string> = {
+    'project-card': t('watchers.projectCard', 'Project card'),
+    'volume-chart': t('watchers.volumeChart', 'Volume chart'),
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div
+        className={`relative w-full max-w-lg mx-4 max-h-[85vh] overflow-y-auto shadow-xl border ${
+          isDark ? 'bg-juice-dark border-white/20' : 'bg-white border-gray-200'
+        }`}
+      >
+        {/* Header */}
+        <div className={`flex items-center justify-between px-6 py-4 border-b ${isDark ? 'border-white/10' : 'border-gray-200'}`}>
+          <h2 className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>
+            {t('watchers.title', 'Project reports')}
+          </h2>
+          <button
+            onClick={onClose}
+            className={`p-2 transition-colors ${isDark ? 'hover:bg-white/10 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/30 text-red-500 text-sm">{error}</div>
+          )}
+
+          {/* Watchers */}
+          <div>
+            <div className={sectionTitle}>{t('watchers.scheduled', 'Scheduled')}</div>
+            {loading && watchers.length === 0 ? (
+              <p className={`text-sm ${mutedText}`}>{t('ui.loading', 'Loading...')}</p>
+            ) : watchers.length === 0 ? (
+              <p className={`text-xs ${mutedText}`}>
+                {t('watchers.none', 'No reports yet. Juicy can post a summary of a project here every week or month; each report uses AI balance like a normal reply.')}
+              </p>
+            ) : watchers.map(watcher => (
+              <div key={watcher.id} className={`py-2 text-xs ${bodyText}`}>
+                <div className="flex justify-between gap-2">
+                  <span>
+                    #{watcher.projectId} · {CHAINS[watcher.chainId]?.name ?? watcher.chainId}
+                    {' · '}{intervalLabels[watcher.interval]} · {componentLabels[watcher.component]}
+                  </span>
+                  {canManage(watcher) && (
+                    <span className="flex gap-3 shrink-0">
+                      <button
+                        onClick={() => handleTogglePause(watcher)}
+                        className={`transition-colors ${isDark ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'}`}
+                      >
+                        {watcher.status === 'active' ? t('watchers.pause', 'Pause') : t('watchers.resume', 'Resume')}
+                      </button>
+                      <button onClick={() => handleDelete(watcher.id)} className="text-red-400 hover:text-red-300 transition-colors">
+                        {t('ui.remove', 'Remove')}
+                      </button>
+                    </span>
+                  )}
+                </div>
+                <div className={`mt-0.5 ${mutedText}`}>
+                  {watcher.status === 'paused'
+                    ? watcher.pauseReason || t('watchers.paused', 'Paused')
+                    : `${t('watchers.next', 'Next report')} ${new Date(watcher.nextRunAt).toLocaleString()}`}
+                  {' · '}
+                  <button onClick={() => toggleRuns(watcher.id)} className="underline hover:no-underline">
+                    {runs[watcher.id] ? t('watchers.hideHistory', 'Hide history') : t('watchers.history', 'History')}
+                  </button>
+                </div>
+                {watcher.instructions && (
+                  <div className={`mt-0.5 italic ${mutedText}`}>"{watcher.instructions}"</div>
+                )}
+                {runs[watcher.id] && (
+                  <div className={`mt-1 pl-2 border-l ${isDark ? 'border-white/10' : 'border-gray-200'}`}>
+                    {runs[watcher.id].length === 0 ? (
+                      <div className={mutedText}>{t('watchers.noRuns', 'No reports posted yet')}</div>
+                    ) : runs[watcher.id].map(run => (
+                      <div key={run.id} className={run.status === 'failed' ? 'text-red-400' : mutedText}>
+                        {new Date(run.createdAt).toLocaleString()} ·{' '}
+                        {run.status === 'posted'
+                          ? `${t('watchers.posted', 'Posted')} (${((run.inputTokens ?? 0) + (run.outputTokens ?? 0)).toLocaleString()} ${t('aiUsage.tokens', 'tokens')})`
+                          : run.errorMessage || t('watchers.failed', 'Failed')}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* New watcher */}
+          {canCreate && (
+            <form onSubmit={handleCreate} className="space-y-2">
+              <div className={sectionTitle}>{t('watchers.new', 'New report')}</div>
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={projectId}
+                  onChange={(e) => setProjectId(e.target.value)}
+                  placeholder={t('watchers.projectId', 'Project ID')}
+                  className={`${inputClass} w-28`}
+                  required
+                />
+                <select value={chainId} onChange={(e) => setChainId(Number(e.target.value))} className={inputClass}>
+                  {ALL_CHAIN_IDS.map(id => (
+                    <option key={id} value={id}>{CHAINS[id]?.name ?? id}</option>
+                  ))}
+                </select>
+                <select value={reportInterval} onChange={(e) => setReportInterval(e.target.value as WatcherInterval)} className={inputClass}>
+                  <option value="weekly">{intervalLabels.weekly}</option>
+                  <option value="monthly">{intervalLabels.monthly}</option>
+                </select>
+                <select value={component} onChange={(e) => setComponent(e.target.value as WatcherComponent)} className={inputClass}>
+                  <option value="project-card">{componentLabels['project-card']}</option>
+                  <option value="volume-chart">{componentLabels['volume-chart']}</option>
+                </select>
+              </div>
+              <input
+                type="text"
+                value={instructions}
+                onChange={(e) => setInstructions(e.target.value)}
+                maxLength={500}
+                placeholder={t('watchers.instructionsPlaceholder', 'Anything to focus on? (optional)')}
+                className={`${inputClass} w-full`}
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <label className={`text-xs ${mutedText}`}>{t('watchers.firstReport', 'First report')}</label>
+                <input
+                  type="datetime-local"
+                  value={startAt}
+                  onChange={(e) => setStartAt(e.target.value)}
+                  title={t('watchers.startAtTooltip', 'Leave empty to post the first report now; later reports follow at the same time')}
+                  className={inputClass}
+                />
+                <button
+                  type="submit"
+                  disabled={saving || !projectId.trim()}
+                  className="ml-auto px-3 py-1.5 text-sm bg-juice-orange text-black font-medium hover:bg-juice-orange/90 transition-colors disabled:opacity-50"
+                >
+                  {saving ? '...' : t('watchers.create', 'Schedule')}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -6,6 +6,7 @@ import { useAccount } from 'wagmi'
 import { useChatStore, useThemeStore } from '../../stores'
 import type { Chat, ChatFolder, ChatMember } from '../../stores/chatStore'
 import ParticipantAvatars, { getEmojiFromAddress } from './ParticipantAvatars'
+import ChatSearch from './ChatSearch'
 import { getWalletSession } from '../../services/siwe'
 import { getSessionId } from '../../services/session'
 import {
@@ -19,7 +20,9 @@ import {
   deleteFolder as deleteFolderApi,
   pinFolder,
   deleteChat as deleteChatApi,
+  importChat,
 } from '../../services/chat'
+import { parseChatExport } from '../../utils/chatExport'
 import { fetchProjectsByOwner, type Project } from '../../services/bendystraw'
 import { useManagedWallet } from '../../hooks'
 import { resolveIpfsUri } from '../../utils/ipfs'
@@ -408,6 +411,7 @@ export default function ConversationHistory() {
     folders,
     activeChatId,
     setActiveChat,
+    addChat,
     removeChat,
     updateChat,
     updateMember,
@@ -455,6 +459,9 @@ export default function ConversationHistory() {
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set())
   const [folderPopover, setFolderPopover] = useState<{ top: number; left: number; above: boolean } | null>(null)
   const [newFolderName, setNewFolderName] = useState('')
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [importError, setImportError] = useState<string | null>(null)
   const folderPopoverRef = useRef<HTMLDivElement>(null)
   const [cardMenu, setCardMenu] = useState<{ chatId: string; x: number; y: number } | null>(null)
   const [moveSubmenu, setMoveSubmenu] = useState(false)
@@ -747,6 +754,25 @@ export default function ConversationHistory() {
     }
   }
 
+  // Recreate a chat from a JSON transcript exported from another account
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setIsImporting(true)
+    setImportError(null)
+    try {
+      const result = await importChat(parseChatExport(await file.text()))
+      addChat(result.chat)
+      handleSelectChat(result.chat.id)
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Failed to import chat')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
   const openFolderPopover = (e: React.MouseEvent<HTMLButtonElement>) => {
     const rect = e.currentTarget.getBoundingClientRect()
     // If button is in bottom half of page, show popover above it
@@ -1135,17 +1161,41 @@ export default function ConversationHistory() {
             }`}>
               {t('ui.recent', 'Recent')} ({totalChats || chats.length})
             </span>
-            <button
-              onClick={openFolderPopover}
-              className={`text-xs px-2 py-1 border transition-colors ${
-                theme === 'dark'
-                  ? 'border-white/10 text-gray-400 hover:text-white hover:border-white/20'
-                  : 'border-gray-200 text-gray-500 hover:text-gray-700 hover:border-gray-300'
-              }`}
-            >
-              {t('ui.newFolder', 'New folder')}
-            </button>
+            <div className="flex items-center gap-2">
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleImportFile}
+                className="hidden"
+              />
+              <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={isImporting}
+                title={t('ui.importChatTooltip', 'Import a chat from a JSON export')}
+                className={`text-xs px-2 py-1 border transition-colors disabled:opacity-50 ${
+                  theme === 'dark'
+                    ? 'border-white/10 text-gray-400 hover:text-white hover:border-white/20'
+                    : 'border-gray-200 text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                {isImporting ? t('ui.importing', 'Importing...') : t('ui.importChat', 'Import')}
+              </button>
+              <button
+                onClick={openFolderPopover}
+                className={`text-xs px-2 py-1 border transition-colors ${
+                  theme === 'dark'
+                    ? 'border-white/10 text-gray-400 hover:text-white hover:border-white/20'
+                    : 'border-gray-200 text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                {t('ui.newFolder', 'New folder')}
+              </button>
+            </div>
           </div>
+          {importError && (
+            <div className="mb-2 p-2 bg-red-500/10 border border-red-500/30 text-red-500 text-xs">{importError}</div>
+          )}
 
       {/* Folder creation popover - rendered via portal to escape backdrop-blur containing block */}
       {folderPopover && createPortal(
@@ -1200,6 +1250,7 @@ export default function ConversationHistory() {
         document.body
       )}
 
+      <ChatSearch onSelect={handleSelectChat} className="mb-3">
       {/* Grid - folders and chats together */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
         {/* Pinned folders first */}
@@ -1221,6 +1272,7 @@ export default function ConversationHistory() {
               {isLoading ? 'Loading...' : ''}
             </div>
           )}
+      </ChatSearch>
         </>
       )}
 
@@ -15,6 +15,10 @@ import { getEmojiForUser, MemberPopover } from './ParticipantAvatars'
 import { getWalletSession } from '../../services/siwe'
 import { getSessionId, getCachedPseudoAddress } from '../../services/session'
 import { JuicyIdPopover, type AnchorPosition } from './WalletInfo'
+import BranchAlternatives from './BranchAlternatives'
+import ToolCallSteps from './ToolCallSteps'
+import MessageCitations from './MessageCitations'
+import type { ChatBranch } from '../../services/chat'
 
 interface MessageBubbleProps {
   message: Message
@@ -25,6 +29,7 @@ interface MessageBubbleProps {
   onlineMembers?: string[]
   onMemberUpdated?: (member: ChatMember) => void
   userResponse?: string // The user's response to this message (if any), used to show submitted state for interactive components
+  alternatives?: ChatBranch[] // Other versions of the conversation from this message onward
 }
 
 // Download popover component
@@ -209,6 +214,7 @@ export default function MessageBubble({
   onlineMembers,
   onMemberUpdated,
   userResponse,
+  alternatives = [],
 }: MessageBubbleProps) {
   const isUser = message.role === 'user'
   const parsed = parseMessageContent(message.content)
@@ -220,6 +226,8 @@ export default function MessageBubble({
   const [memberPopover, setMemberPopover] = useState<{ rect: DOMRect } | null>(null)
   const [juicyIdPopoverOpen, setJuicyIdPopoverOpen] = useState(false)
   const [juicyIdAnchorPosition, setJuicyIdAnchorPosition] = useState<AnchorPosition | null>(null)
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(message.content)
 
   // Get current user address to check if sender is the current user
   const currentUserAddress = useMemo(() => {
@@ -265,6 +273,28 @@ export default function MessageBubble({
     }))
   }
 
+  // Regenerate: the current response moves to a branch and the AI answers again
+  const handleRegenerate = () => {
+    window.dispatchEvent(new CustomEvent('juice:regenerate-message', {
+      detail: { messageId: message.id }
+    }))
+  }
+
+  // Edit: save in place, or save and re-run (later messages move to a branch)
+  const handleEditSubmit = (rerun: boolean) => {
+    const content = draft.trim()
+    if (!content) return
+    setIsEditing(false)
+    if (content === message.content.trim() && !rerun) return
+    window.dispatchEvent(new CustomEvent('juice:edit-message', {
+      detail: { messageId: message.id, content, rerun }
+    }))
+  }
+
+  const actionButtonClass = `text-xs transition-colors ${
+    isDark ? 'text-gray-500 hover:text-gray-300' : 'text-gray-400 hover:text-gray-600'
+  }`
+
   return (
     <div className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-4`}>
       {isUser ? (
@@ -376,7 +406,39 @@ export default function MessageBubble({
                   })}
                 </div>
               )}
-              {parsed.segments.map((segment, index) => {
+              {isEditing ? (
+                <div className="text-left">
+                  <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape') setIsEditing(false)
+                      if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleEditSubmit(true)
+                    }}
+                    autoFocus
+                    rows={Math.min(10, Math.max(2, draft.split('\n').length))}
+                    className={`w-full min-w-[260px] px-3 py-2 text-sm border outline-none resize-y ${
+                      isDark
+                        ? 'bg-juice-dark-lighter border-white/20 text-white focus:border-white/40'
+                        : 'bg-white border-gray-300 text-gray-900 focus:border-gray-400'
+                    }`}
+                  />
+                  <div className="flex justify-end gap-3 mt-1">
+                    <button onClick={() => setIsEditing(false)} className={actionButtonClass}>
+                      Cancel
+                    </button>
+                    <button onClick={() => handleEditSubmit(false)} className={actionButtonClass}>
+                      Save
+                    </button>
+                    <button
+                      onClick={() => handleEditSubmit(true)}
+                      className="text-xs text-green-500 hover:text-green-400 transition-colors"
+                    >
+                      Save & re-run
+                    </button>
+                  </div>
+                </div>
+              ) : parsed.segments.map((segment, index) => {
                 if (segment.type === 'text') {
                   return (
                     <p key={index} className="whitespace-pre-wrap">{segment.content}</p>
@@ -389,6 +451,25 @@ export default function MessageBubble({
                   )
                 }
               })}
+              {/* Edited marker and edit action */}
+              {!isEditing && (message.editedAt || (message.canEdit && chatId)) && (
+                <div className="flex justify-end items-center gap-3 mt-1">
+                  {message.editedAt && (
+                    <span className={`text-xs ${isDark ? 'text-gray-600' : 'text-gray-400'}`}>edited</span>
+                  )}
+                  {message.canEdit && chatId && (
+                    <button
+                      onClick={() => {
+                        setDraft(message.content)
+                        setIsEditing(true)
+                      }}
+                      className={actionButtonClass}
+                    >
+                      Edit
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
             {/* Sender fruit emoji - clickable to show member info */}
             {senderMember ? (
@@ -429,6 +510,7 @@ export default function MessageBubble({
               />
             )}
           </div>
+          {chatId && <BranchAlternatives chatId={chatId} alternatives={alternatives} isDark={isDark} align="right" />}
         </div>
       ) : (
         /* Assistant message */
@@ -478,6 +560,20 @@ export default function MessageBubble({
             )}
             {/* Message content */}
             <div className="flex-1 min-w-0">
+          {message.toolCalls && message.toolCalls.length > 0 && (
+            <ToolCallSteps
+              chatId={chatId}
+              messageId={message.id}
+              steps={message.toolCalls}
+              currentAddress={currentUserAddress}
+              canManageMembers={
+                currentUserMember?.role === 'founder' ||
+                currentUserMember?.role === 'admin' ||
+                currentUserMember?.canManageMembers === true
+              }
+              isDark={isDark}
+            />
+          )}
           {parsed.segments.map((segment, index) => {
             if (segment.type === 'text') {
               return (
@@ -523,6 +619,11 @@ export default function MessageBubble({
             }
           })}
 
+          {/* Document passages the reply cited */}
+          {message.citations && message.citations.length > 0 && (
+            <MessageCitations citations={message.citations} isDark={isDark} />
+          )}
+
           {/* Streaming indicator with juice-themed verbs */}
           {message.isStreaming && (
             <ThinkingIndicator />
@@ -555,6 +656,16 @@ export default function MessageBubble({
               Try again
             </button>
           )}
+
+          {/* Regenerate - keeps the current response as an alternative branch */}
+          {chatId && !message.isStreaming && (
+            <div className="mt-2">
+              <button onClick={handleRegenerate} className={actionButtonClass}>
+                Regenerate
+              </button>
+            </div>
+          )}
+          {chatId && <BranchAlternatives chatId={chatId} alternatives={alternatives} isDark={isDark} />}
             </div>
           </div>
         </div>
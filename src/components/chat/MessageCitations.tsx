@@ -0,0 +1,45 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { MessageCitation } from '../../stores'
+
+interface MessageCitationsProps {
+  citations: MessageCitation[]
+  isDark: boolean
+}
+
+/**
+ * The uploaded-document passages an AI reply cited as [1], [2]... Each
+ * source opens to the exact passage the AI was given.
+ */
+export default function MessageCitations({ citations, isDark }: MessageCitationsProps) {
+  const { t } = useTranslation()
+  const [openMarker, setOpenMarker] = useState<number | null>(null)
+
+  const mutedText = isDark ? 'text-gray-500' : 'text-gray-400'
+
+  return (
+    <div className={`mt-3 pt-2 border-t text-xs ${isDark ? 'border-white/10' : 'border-gray-200'}`}>
+      <div className={`mb-1 ${mutedText}`}>{t('citations.sources', 'Sources')}</div>
+      {citations.map(citation => (
+        <div key={citation.marker}>
+          <button
+            onClick={() => setOpenMarker(openMarker === citation.marker ? null : citation.marker)}
+            className={`text-left transition-colors ${isDark ? 'text-gray-300 hover:text-white' : 'text-gray-600 hover:text-gray-900'}`}
+          >
+            <span className="font-mono">[{citation.marker}]</span> {citation.sourceName}
+            {citation.heading && <span className={mutedText}> — {citation.heading}</span>}
+          </button>
+          {openMarker === citation.marker && (
+            <blockquote
+              className={`mt-1 mb-2 pl-3 border-l-2 whitespace-pre-wrap ${
+                isDark ? 'border-juice-orange/40 text-gray-400' : 'border-juice-orange/60 text-gray-600'
+              }`}
+            >
+              {citation.content}
+            </blockquote>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
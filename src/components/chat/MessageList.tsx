@@ -1,7 +1,11 @@
-import { useRef, useEffect, useCallback } from 'react'
+import { useRef, useEffect, useCallback, useMemo } from 'react'
 import { Message, useThemeStore } from '../../stores'
 import type { ChatMember } from '../../stores/chatStore'
+import type { ChatBranch } from '../../services/chat'
 import MessageBubble from './MessageBubble'
+import MessageReactions from './MessageReactions'
+import MessageThread from './MessageThread'
+import { groupThreads } from '../../utils/threads'
 import ThinkingIndicator from './ThinkingIndicator'
 
 interface MessageListProps {
@@ -15,6 +19,7 @@ interface MessageListProps {
   showNudgeButton?: boolean
   onNudge?: () => void
   scrollContainerRef?: React.RefObject<HTMLDivElement | null>
+  branches?: ChatBranch[] // Inactive branches, shown as alternatives where they fork
 }
 
 export default function MessageList({
@@ -28,6 +33,7 @@ export default function MessageList({
   showNudgeButton,
   onNudge,
   scrollContainerRef,
+  branches = [],
 }: MessageListProps) {
   const bottomRef = useRef<HTMLDivElement>(null)
   const isNearBottomRef = useRef(true)
@@ -35,6 +41,10 @@ export default function MessageList({
   const { theme } = useThemeStore()
   const isDark = theme === 'dark'
 
+  // Thread replies render under their root instead of in the main flow
+  const { main, repliesByRoot } = useMemo(() => groupThreads(messages), [messages])
+  const canReply = !!currentUserMember && currentUserMember.canSendMessages !== false
+
   // Show ghost card when waiting for response and no message is currently streaming
   const hasStreamingMessage = messages.some(m => m.isStreaming)
   const showGhostCard = isWaitingForResponse && !hasStreamingMessage
@@ -95,17 +105,21 @@ export default function MessageList({
   return (
     <div className="px-2 py-4 sm:px-4">
       <div className="max-w-5xl mx-auto">
-        {messages.map((message, index) => {
+        {main.map((message, index) => {
           // Find last assistant message index
-          const lastAssistantIndex = messages.reduce((acc, m, i) =>
+          const lastAssistantIndex = main.reduce((acc, m, i) =>
             m.role === 'assistant' ? i : acc, -1
           )
 
           // Check if this assistant message has been "responded to"
           // (i.e., there's a user message after it, meaning any interactive components were submitted)
-          const nextMessage = messages[index + 1]
+          const nextMessage = main[index + 1]
           const hasUserResponse = message.role === 'assistant' && nextMessage?.role === 'user'
 
+          // Branches that forked right before this message are its alternatives
+          const forkMessageId = index > 0 ? main[index - 1].id : null
+          const alternatives = branches.filter(b => b.switchable && b.forkMessageId === forkMessageId)
+
           return (
             <div
               key={message.id}
@@ -120,7 +134,30 @@ export default function MessageList({
                 onlineMembers={onlineMembers}
                 onMemberUpdated={onMemberUpdated}
                 userResponse={hasUserResponse ? nextMessage.content : undefined}
+                alternatives={alternatives}
               />
+              {/* Reactions and thread - only for persisted messages */}
+              {chatId && !message.isStreaming && message.id !== 'pending-message' && !message.id.startsWith('optimistic-') && (
+                <div className={`-mt-3 mb-4 ${message.role === 'user' ? 'pr-8 sm:pr-9' : 'px-1 sm:px-4'}`}>
+                  <MessageReactions
+                    chatId={chatId}
+                    messageId={message.id}
+                    reactions={message.reactions}
+                    isDark={isDark}
+                    align={message.role === 'user' ? 'right' : 'left'}
+                    canReact={canReply}
+                  />
+                  <MessageThread
+                    chatId={chatId}
+                    root={message}
+                    loadedReplies={repliesByRoot.get(message.id) ?? []}
+                    members={members}
+                    isDark={isDark}
+                    align={message.role === 'user' ? 'right' : 'left'}
+                    canReply={canReply}
+                  />
+                </div>
+              )}
             </div>
           )
         })}
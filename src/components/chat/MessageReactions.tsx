@@ -0,0 +1,97 @@
+import { useState } from 'react'
+import { useChatStore } from '../../stores'
+import type { MessageReaction } from '../../stores/chatStore'
+import * as chatApi from '../../services/chat'
+import { getCurrentUserAddress } from '../../services/session'
+import { QUICK_REACTIONS, hasReacted } from '../../utils/threads'
+
+interface MessageReactionsProps {
+  chatId: string
+  messageId: string
+  reactions?: MessageReaction[]
+  isDark: boolean
+  align?: 'left' | 'right'
+  canReact?: boolean // Read-only viewers see the chips but can't react
+}
+
+/**
+ * Reaction chips under a message plus a quick-reaction picker. Clicking a
+ * chip toggles the current member's reaction; other members see the change
+ * through the 'reactions' WebSocket event.
+ */
+export default function MessageReactions({ chatId, messageId, reactions = [], isDark, align = 'left', canReact = true }: MessageReactionsProps) {
+  const [pickerOpen, setPickerOpen] = useState(false)
+  const [pending, setPending] = useState(false)
+  const currentAddress = getCurrentUserAddress()
+
+  if (reactions.length === 0 && !canReact) return null
+
+  const toggle = async (emoji: string) => {
+    setPickerOpen(false)
+    if (pending) return
+    setPending(true)
+    try {
+      const updated = hasReacted(reactions, emoji, currentAddress)
+        ? await chatApi.removeReaction(chatId, messageId, emoji)
+        : await chatApi.addReaction(chatId, messageId, emoji)
+      useChatStore.getState().updateMessage(chatId, messageId, { reactions: updated })
+    } catch (err) {
+      console.error('Failed to update reaction:', err)
+    } finally {
+      setPending(false)
+    }
+  }
+
+  const chipClass = (mine: boolean) => `px-1.5 py-0.5 text-xs border transition-colors ${
+    mine
+      ? 'border-juice-orange/60 bg-juice-orange/10'
+      : isDark
+        ? 'border-white/10 hover:border-white/30'
+        : 'border-gray-200 hover:border-gray-300'
+  }`
+
+  return (
+    <div className={`relative flex flex-wrap items-center gap-1 mt-1 ${align === 'right' ? 'justify-end' : 'justify-start'}`}>
+      {reactions.map(reaction => (
+        <button
+          key={reaction.emoji}
+          onClick={() => toggle(reaction.emoji)}
+          disabled={pending || !canReact}
+          className={chipClass(hasReacted(reactions, reaction.emoji, currentAddress))}
+        >
+          {reaction.emoji} <span className={isDark ? 'text-gray-400' : 'text-gray-500'}>{reaction.count}</span>
+        </button>
+      ))}
+      {canReact && (
+        <button
+          onClick={() => setPickerOpen(!pickerOpen)}
+          title="Add reaction"
+          className={`px-1.5 py-0.5 text-xs transition-colors ${
+            isDark ? 'text-gray-500 hover:text-gray-300' : 'text-gray-400 hover:text-gray-600'
+          }`}
+        >
+          +☺
+        </button>
+      )}
+      {pickerOpen && (
+        <div
+          className={`absolute top-full mt-1 z-20 flex gap-1 p-1.5 border shadow-lg ${align === 'right' ? 'right-0' : 'left-0'} ${
+            isDark ? 'bg-juice-dark border-white/20' : 'bg-white border-gray-200'
+          }`}
+        >
+          {QUICK_REACTIONS.map(emoji => (
+            <button
+              key={emoji}
+              onClick={() => toggle(emoji)}
+              className={`px-1 text-base transition-transform hover:scale-125 ${
+                hasReacted(reactions, emoji, currentAddress) ? 'bg-juice-orange/10' : ''
+              }`}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
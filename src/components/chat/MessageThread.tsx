@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react'
+import { useChatStore, type Message } from '../../stores'
+import type { ChatMember, ChatMessage } from '../../stores/chatStore'
+import * as chatApi from '../../services/chat'
+import { truncateAddress } from '../../utils/ens'
+import { mergeReplies } from '../../utils/threads'
+import MessageReactions from './MessageReactions'
+
+interface MessageThreadProps {
+  chatId: string
+  root: Message
+  loadedReplies: Message[] // Replies already in the store (includes live ones)
+  members?: ChatMember[]
+  isDark: boolean
+  align?: 'left' | 'right'
+  canReply: boolean
+}
+
+function toDisplayMessage(msg: ChatMessage, members?: ChatMember[]): Message {
+  const sender = members?.find(m => m.address?.toLowerCase() === msg.senderAddress.toLowerCase())
+  return {
+    id: msg.id,
+    role: msg.role === 'assistant' ? 'assistant' : 'user',
+    content: msg.content,
+    senderName: sender?.displayName,
+    senderAddress: msg.senderAddress,
+    createdAt: msg.createdAt,
+    editedAt: msg.editedAt,
+    replyToId: msg.replyToId,
+    reactions: msg.reactions,
+  }
+}
+
+/**
+ * Reply count and inline thread under a root message. Opening the thread
+ * loads replies older than the current page; replies sent here don't invoke
+ * the AI - threads are for member-to-member discussion.
+ */
+export default function MessageThread({ chatId, root, loadedReplies, members, isDark, align = 'left', canReply }: MessageThreadProps) {
+  const [open, setOpen] = useState(false)
+  const [fetched, setFetched] = useState<Message[]>([])
+  const [loading, setLoading] = useState(false)
+  const [draft, setDraft] = useState('')
+  const [sending, setSending] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    setLoading(true)
+    chatApi.fetchThread(chatId, root.id)
+      .then(thread => {
+        if (!cancelled) setFetched(thread.replies.map(reply => toDisplayMessage(reply, members)))
+      })
+      .catch(err => console.error('Failed to load thread:', err))
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [open, chatId, root.id, members])
+
+  const replies = mergeReplies(fetched, loadedReplies)
+  const replyCount = Math.max(root.replyCount ?? 0, replies.length)
+
+  const handleSend = async () => {
+    const content = draft.trim()
+    if (!content || sending) return
+    setSending(true)
+    try {
+      const saved = await chatApi.sendMessage(chatId, content, root.id)
+      useChatStore.getState().addMessage(chatId, saved)
+      setDraft('')
+    } catch (err) {
+      console.error('Failed to send reply:', err)
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const linkButton = `text-xs transition-colors ${isDark ? 'text-gray-500 hover:text-gray-300' : 'text-gray-400 hover:text-gray-600'}`
+
+  if (!open) {
+    if (replyCount === 0 && !canReply) return null
+    return (
+      <div className={`mt-1 ${align === 'right' ? 'text-right' : 'text-left'}`}>
+        <button onClick={() => setOpen(true)} className={linkButton}>
+          {replyCount > 0 ? `${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}` : 'Reply'}
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`mt-2 pl-3 border-l-2 text-left ${isDark ? 'border-white/10' : 'border-gray-200'}`}>
+      <div className="flex items-center justify-between mb-1">
+        <span className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+          {loading ? 'Loading thread...' : `Thread · ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}`}
+        </span>
+        <button onClick={() => setOpen(false)} className={linkButton}>Hide</button>
+      </div>
+
+      {replies.map(reply => (
+        <div key={reply.id} className="py-1.5">
+          <div className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+            {reply.role === 'assistant' ? 'Juicy' : reply.senderName || truncateAddress(reply.senderAddress || '')}
+          </div>
+          <p className={`text-sm whitespace-pre-wrap ${isDark ? 'text-gray-200' : 'text-gray-800'}`}>{reply.content}</p>
+          <MessageReactions chatId={chatId} messageId={reply.id} reactions={reply.reactions} isDark={isDark} canReact={canReply} />
+        </div>
+      ))}
+
+      {canReply && (
+        <div className="flex gap-2 mt-2">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault()
+                handleSend()
+              }
+              if (e.key === 'Escape') setOpen(false)
+            }}
+            placeholder="Reply in thread..."
+            className={`flex-1 px-2 py-1.5 text-sm border focus:outline-none ${
+              isDark
+                ? 'bg-juice-dark-lighter border-white/10 text-white placeholder-gray-500 focus:border-white/30'
+                : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400 focus:border-gray-400'
+            }`}
+          />
+          <button
+            onClick={handleSend}
+            disabled={sending || !draft.trim()}
+            className="px-3 py-1.5 text-sm bg-juice-orange text-black font-medium hover:bg-juice-orange/90 transition-colors disabled:opacity-50"
+          >
+            {sending ? '...' : 'Reply'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
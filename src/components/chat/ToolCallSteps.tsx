@@ -0,0 +1,145 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useChatStore, type ToolCallStep } from '../../stores'
+import * as chatApi from '../../services/chat'
+import { canDecideStep, formatToolName, formatToolOutput, upsertToolStep } from '../../utils/toolCalls'
+
+interface ToolCallStepsProps {
+  chatId?: string
+  messageId: string
+  steps: ToolCallStep[]
+  currentAddress?: string
+  canManageMembers: boolean
+  isDark: boolean
+}
+
+/**
+ * The tools the AI called while writing a response, one collapsible step
+ * each. Side-effecting tools wait here for the requester's (or a
+ * founder/admin's) approval before they run.
+ */
+export default function ToolCallSteps({ chatId, messageId, steps, currentAddress, canManageMembers, isDark }: ToolCallStepsProps) {
+  const { t } = useTranslation()
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [deciding, setDeciding] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const toggle = (stepId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(stepId)) next.delete(stepId)
+      else next.add(stepId)
+      return next
+    })
+  }
+
+  const handleDecide = async (step: ToolCallStep, approve: boolean) => {
+    if (!chatId) return
+    setDeciding(step.id)
+    try {
+      const decided = await chatApi.decideToolCall(chatId, step.id, approve)
+      // The broadcast also delivers this; apply it now so the buttons go away
+      useChatStore.getState().updateMessage(chatId, messageId, { toolCalls: upsertToolStep(steps, decided) })
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to decide tool call')
+    } finally {
+      setDeciding(null)
+    }
+  }
+
+  const statusLabels: Record<ToolCallStep['status'], string> = {
+    pending: t('toolCalls.pending', 'Waiting for approval'),
+    running: t('toolCalls.running', 'Running'),
+    completed: t('toolCalls.completed', 'Done'),
+    failed: t('toolCalls.failed', 'Failed'),
+    declined: t('toolCalls.declined', 'Declined'),
+    expired: t('toolCalls.expired', 'Approval timed out'),
+  }
+  const statusColors: Record<ToolCallStep['status'], string> = {
+    pending: 'text-juice-orange',
+    running: isDark ? 'text-gray-400' : 'text-gray-500',
+    completed: 'text-green-500',
+    failed: 'text-red-400',
+    declined: 'text-red-400',
+    expired: isDark ? 'text-gray-500' : 'text-gray-400',
+  }
+  const mutedText = isDark ? 'text-gray-500' : 'text-gray-400'
+  const preClass = `mt-1 p-2 text-xs font-mono whitespace-pre-wrap break-all max-h-48 overflow-y-auto ${
+    isDark ? 'bg-white/5 text-gray-300' : 'bg-gray-50 text-gray-700'
+  }`
+
+  return (
+    <div className={`mb-3 border-l-2 pl-3 space-y-1 ${isDark ? 'border-white/10' : 'border-gray-200'}`}>
+      {steps.map(step => {
+        const isOpen = expanded.has(step.id) || step.status === 'pending'
+        const canDecide = canDecideStep(step, currentAddress, canManageMembers)
+        return (
+          <div key={step.id} className="text-xs">
+            <button
+              onClick={() => toggle(step.id)}
+              className={`flex w-full items-center gap-2 text-left transition-colors ${
+                isDark ? 'text-gray-300 hover:text-white' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <svg
+                className={`w-3 h-3 shrink-0 transition-transform ${isOpen ? 'rotate-90' : ''}`}
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+              <span className="font-medium">{formatToolName(step.toolName)}</span>
+              <span className={statusColors[step.status]}>{statusLabels[step.status]}</span>
+            </button>
+
+            {isOpen && (
+              <div className="mt-1 ml-5">
+                <div className={mutedText}>{t('toolCalls.input', 'Input')}</div>
+                <pre className={preClass}>{JSON.stringify(step.input, null, 2)}</pre>
+                {step.output && (
+                  <>
+                    <div className={`mt-2 ${mutedText}`}>{t('toolCalls.output', 'Output')}</div>
+                    <pre className={preClass}>{formatToolOutput(step.output)}</pre>
+                  </>
+                )}
+                {step.error && <div className="mt-2 text-red-400">{step.error}</div>}
+
+                {step.status === 'pending' && (
+                  canDecide ? (
+                    <div className="flex gap-2 mt-2">
+                      <button
+                        onClick={() => handleDecide(step, true)}
+                        disabled={deciding === step.id}
+                        className="px-3 py-1 text-xs bg-juice-orange text-black font-medium hover:bg-juice-orange/90 transition-colors disabled:opacity-50"
+                      >
+                        {t('toolCalls.approve', 'Approve')}
+                      </button>
+                      <button
+                        onClick={() => handleDecide(step, false)}
+                        disabled={deciding === step.id}
+                        className={`px-3 py-1 text-xs border transition-colors disabled:opacity-50 ${
+                          isDark ? 'border-white/20 text-gray-300 hover:bg-white/10' : 'border-gray-300 text-gray-600 hover:bg-gray-100'
+                        }`}
+                      >
+                        {t('toolCalls.decline', 'Decline')}
+                      </button>
+                    </div>
+                  ) : (
+                    <div className={`mt-2 ${mutedText}`}>
+                      {step.approval === 'admin'
+                        ? t('toolCalls.needsAdmin', 'Needs approval from a founder or admin')
+                        : t('toolCalls.needsRequester', 'Needs approval from the member who asked')}
+                    </div>
+                  )
+                )}
+              </div>
+            )}
+          </div>
+        )
+      })}
+      {error && <div className="text-xs text-red-400">{error}</div>}
+    </div>
+  )
+}
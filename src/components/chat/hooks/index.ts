@@ -2,3 +2,4 @@ export { useChatWebSocket } from './useChatWebSocket'
 export { useChatScroll } from './useChatScroll'
 export { usePopoverPositioning } from './usePopoverPositioning'
 export { useChatActions } from './useChatActions'
+export { useChatBranches } from './useChatBranches'
@@ -0,0 +1,48 @@
+/**
+ * Conversation branches hook
+ *
+ * Loads the inactive branches of a chat (alternatives left behind by edited
+ * prompts and regenerated responses) and reloads them whenever the active
+ * branch changes, either over the WebSocket or from a local action.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import * as chatApi from '../../../services/chat'
+import type { ChatBranch } from '../../../services/chat'
+
+export function useChatBranches(chatId: string | null) {
+  const [branches, setBranches] = useState<ChatBranch[]>([])
+
+  const refresh = useCallback(async () => {
+    if (!chatId) {
+      setBranches([])
+      return
+    }
+    try {
+      setBranches(await chatApi.fetchBranches(chatId))
+    } catch (err) {
+      console.error('Failed to load branches:', err)
+    }
+  }, [chatId])
+
+  useEffect(() => {
+    refresh()
+    if (!chatId) return
+
+    const handleLocalChange = (event: CustomEvent<{ chatId: string }>) => {
+      if (event.detail?.chatId === chatId) refresh()
+    }
+    window.addEventListener('juice:branches-changed', handleLocalChange as EventListener)
+
+    const cleanup = chatApi.onWsMessage((msg) => {
+      if (msg.chatId === chatId && msg.type === 'branch_changed') refresh()
+    })
+
+    return () => {
+      window.removeEventListener('juice:branches-changed', handleLocalChange as EventListener)
+      cleanup()
+    }
+  }, [chatId, refresh])
+
+  return { branches, refresh }
+}
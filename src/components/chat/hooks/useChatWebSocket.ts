@@ -195,6 +195,19 @@ export function useChatWebSocket({ chatId, onError }: UseChatWebSocketOptions) {
             useChatStore.getState().updateChat(targetChatId, updates)
             break
           }
+          case 'message_edited': {
+            const { messageId, content, editedAt } = msg.data as { messageId: string; content: string; editedAt: string }
+            useChatStore.getState().updateMessage(targetChatId, messageId, { content, editedAt })
+            break
+          }
+          case 'branch_changed':
+            // Messages moved between branches - reload the active conversation
+            chatApi.fetchMessages(targetChatId)
+              .then(msgs => {
+                if (mountedRef.current) setChatMessages(targetChatId, msgs)
+              })
+              .catch(err => console.error('Failed to reload messages after branch change:', err))
+            break
           case 'member_update': {
             const { address, customEmoji, displayName } = msg.data as { address: string; customEmoji?: string | null; displayName?: string | null }
             // Convert null to undefined for TypeScript compatibility
@@ -45,6 +45,7 @@ const HookProjectEditor = lazy(() => import('./HookProjectEditor'))
 const HookTestRunner = lazy(() => import('./HookTestRunner'))
 const HookSecurityReport = lazy(() => import('./HookSecurityReport'))
 const HookDeployment = lazy(() => import('./HookDeployment'))
+const HookUpgrade = lazy(() => import('./HookUpgrade'))
 
 // Chart components
 const BalanceChart = lazy(() => import('./charts').then(m => ({ default: m.BalanceChart })))
@@ -109,7 +110,14 @@ const COMPONENT_REGISTRY: Record<string, ComponentConfig> = {
   },
   'queue-ruleset-form': {
     component: QueueRulesetForm,
-    mapProps: (p) => ({ projectId: p.projectId, chainId: p.chainId }),
+    mapProps: (p) => ({
+      projectId: p.projectId,
+      chainId: p.chainId,
+      dataHook: p.dataHook,
+      dataHookChainIds: p.dataHookChainIds,
+      useDataHookForPay: p.useDataHookForPay === 'true' || p.useDataHookForPay === true,
+      useDataHookForCashOut: p.useDataHookForCashOut === 'true' || p.useDataHookForCashOut === true,
+    }),
   },
   'create-project-form': {
     component: CreateProjectForm,
@@ -329,6 +337,10 @@ const COMPONENT_REGISTRY: Record<string, ComponentConfig> = {
       constructorArgs: p.constructorArgs,
     }),
   },
+  'hook-upgrade': {
+    component: HookUpgrade,
+    mapProps: (p) => ({ projectId: p.projectId }),
+  },
 }
 
 // =============================================================================
@@ -10,6 +10,19 @@ interface ChainDeployment {
   error?: string
 }
 
+type VerificationStatus = 'pending' | 'verified' | 'partial' | 'failed' | 'skipped'
+
+interface VerifierState {
+  status: VerificationStatus
+  message?: string
+}
+
+// Per chain, as tracked on the hook project by the backend
+interface ChainVerification {
+  sourcify?: VerifierState
+  etherscan?: VerifierState
+}
+
 interface HookDeploymentProps {
   projectId: string
   chainIds?: number[] | string
@@ -27,6 +40,19 @@ const CHAIN_INFO: Record<number, { name: string; explorer: string; slug: string
 
 const DEFAULT_CHAINS = [1, 10, 8453]
 
+const VERIFICATION_POLL_MS = 5000
+
+// Verified on either explorer is enough for the badge; pending while any is still running
+function summarizeVerification(verification?: ChainVerification): { label: string; status: VerificationStatus } | null {
+  if (!verification) return null
+  const states = [verification.sourcify, verification.etherscan].filter((v): v is VerifierState => !!v)
+  if (states.some(v => v.status === 'verified')) return { label: 'Verified', status: 'verified' }
+  if (states.some(v => v.status === 'pending')) return { label: 'Verifying...', status: 'pending' }
+  if (states.some(v => v.status === 'partial')) return { label: 'Partially verified', status: 'partial' }
+  if (states.some(v => v.status === 'failed')) return { label: 'Not verified', status: 'failed' }
+  return null
+}
+
 export default function HookDeployment({
   projectId,
   chainIds: initialChainIds,
@@ -69,6 +95,47 @@ export default function HookDeployment({
   const [securityWarnings, setSecurityWarnings] = useState<string[]>([])
   const [step, setStep] = useState<'select' | 'security' | 'deploy' | 'complete'>('select')
   const [error, setError] = useState<string | null>(null)
+  const [verification, setVerification] = useState<Record<string, ChainVerification>>({})
+
+  const fetchVerification = useCallback(async () => {
+    if (!token) return
+
+    try {
+      const response = await fetch(`/hooks/projects/${projectId}/verification`, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      if (response.ok) {
+        const { data } = await response.json()
+        setVerification(data || {})
+      }
+    } catch {
+      // Keep the last known status; the next poll tries again
+    }
+  }, [token, projectId])
+
+  const retryVerification = useCallback(async (chainId: number) => {
+    if (!token) return
+
+    await fetch(`/hooks/projects/${projectId}/verify`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ chainId }),
+    }).catch(() => {})
+    await fetchVerification()
+  }, [token, projectId, fetchVerification])
+
+  // Poll while any explorer is still verifying
+  const verificationPending = Object.values(verification).some(
+    v => v.sourcify?.status === 'pending' || v.etherscan?.status === 'pending'
+  )
+  useEffect(() => {
+    if (!verificationPending) return
+    const interval = setInterval(fetchVerification, VERIFICATION_POLL_MS)
+    return () => clearInterval(interval)
+  }, [verificationPending, fetchVerification])
 
   // Check security before deployment
   const runSecurityCheck = useCallback(async () => {
@@ -96,6 +163,9 @@ export default function HookDeployment({
 
       if (!data.canDeploy && data.criticalFindings?.length > 0) {
         setError(`Critical security issues found: ${data.criticalFindings.map((f: { title: string }) => f.title).join(', ')}`)
+      } else if (!data.canDeploy) {
+        // Blocked because the hook rules couldn't run; the first warning says why
+        setError(data.warnings?.[0] || 'Security checks could not complete')
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error')
@@ -119,6 +189,9 @@ export default function HookDeployment({
       }))
     )
 
+    // Collected here as well as in state, which this callback can't read back
+    const deployedAddresses: Record<string, string> = {}
+
     // For now, we simulate deployment - in production this would use Relayr
     for (const chainId of selectedChains) {
       setDeployments(prev =>
@@ -134,6 +207,7 @@ export default function HookDeployment({
         // Mock successful deployment
         const mockAddress = `0x${Math.random().toString(16).substring(2, 42).padEnd(40, '0')}`
         const mockTxHash = `0x${Math.random().toString(16).substring(2, 66).padEnd(64, '0')}`
+        deployedAddresses[chainId.toString()] = mockAddress
 
         setDeployments(prev =>
           prev.map(d =>
@@ -155,17 +229,10 @@ export default function HookDeployment({
 
     setIsDeploying(false)
 
-    // Mark project as deployed
-    const deployedAddresses: Record<string, string> = {}
-    for (const d of deployments) {
-      if (d.status === 'deployed' && d.address) {
-        deployedAddresses[d.chainId.toString()] = d.address
-      }
-    }
-
+    // Mark project as deployed, which starts source verification
     if (Object.keys(deployedAddresses).length > 0) {
       try {
-        await fetch(`/hooks/projects/${projectId}/deploy`, {
+        const response = await fetch(`/hooks/projects/${projectId}/deploy`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -173,6 +240,10 @@ export default function HookDeployment({
           },
           body: JSON.stringify({ deployedAddresses }),
         })
+        if (response.ok) {
+          const { data } = await response.json()
+          setVerification(data?.verification || {})
+        }
       } catch {
         // Non-critical error
       }
@@ -367,6 +438,16 @@ export default function HookDeployment({
           <div className="space-y-2">
             {deployments.map(d => {
               const chain = CHAIN_INFO[d.chainId]
+              const chainVerification = verification[d.chainId]
+              const verified = summarizeVerification(chainVerification)
+              const verificationDetails = chainVerification
+                ? (['sourcify', 'etherscan'] as const)
+                    .filter(v => chainVerification[v])
+                    .map(v => `${v === 'sourcify' ? 'Sourcify' : 'Etherscan'}: ${chainVerification[v]!.status}${
+                      chainVerification[v]!.message ? ` (${chainVerification[v]!.message})` : ''
+                    }`)
+                    .join('\n')
+                : undefined
               return (
                 <div
                   key={d.chainId}
@@ -394,12 +475,34 @@ export default function HookDeployment({
                     <span className={`text-sm ${isDark ? 'text-gray-200' : 'text-gray-800'}`}>
                       {chain?.name || `Chain ${d.chainId}`}
                     </span>
+                    {d.status === 'deployed' && verified && (
+                      <span
+                        title={verificationDetails}
+                        className={`px-1.5 py-0.5 text-[10px] font-medium border ${
+                          verified.status === 'verified'
+                            ? 'border-green-500/40 text-green-500'
+                            : verified.status === 'failed'
+                              ? 'border-red-500/40 text-red-400'
+                              : isDark ? 'border-gray-600 text-gray-400' : 'border-gray-300 text-gray-500'
+                        }`}
+                      >
+                        {verified.status === 'verified' && '✓ '}{verified.label}
+                      </span>
+                    )}
+                    {d.status === 'deployed' && verified?.status === 'failed' && (
+                      <button
+                        onClick={() => retryVerification(d.chainId)}
+                        className={`text-[10px] underline ${isDark ? 'text-gray-400 hover:text-gray-300' : 'text-gray-500 hover:text-gray-700'}`}
+                      >
+                        Retry
+                      </button>
+                    )}
                   </div>
 
                   <div className="text-right">
                     {d.status === 'deployed' && d.address && (
                       <a
-                        href={`${chain?.explorer}/address/${d.address}`}
+                        href={`${chain?.explorer}/address/${d.address}${verified?.status === 'verified' ? '#code' : ''}`}
                         target="_blank"
                         rel="noopener noreferrer"
                         className={`text-xs font-mono ${
@@ -3,9 +3,11 @@ import { useThemeStore, useAuthStore } from '../../stores'
 
 type Severity = 'critical' | 'high' | 'medium' | 'low' | 'info'
 
+type AnalysisTool = 'semgrep' | 'slither' | 'aderyn' | 'juicebox' | 'custom'
+
 interface SecurityFinding {
   id: string
-  tool: string
+  tool: AnalysisTool
   ruleId: string
   severity: Severity
   title: string
@@ -17,6 +19,15 @@ interface SecurityFinding {
   code?: string
   fix?: string
   references?: string[]
+  alsoReportedBy?: AnalysisTool[]
+}
+
+interface ToolRun {
+  tool: AnalysisTool
+  status: 'completed' | 'skipped' | 'failed'
+  findingCount: number
+  durationMs?: number
+  error?: string
 }
 
 interface AnalysisSummary {
@@ -60,6 +71,14 @@ const SEVERITY_COLORS: Record<Severity, { bg: string; text: string; border: stri
   },
 }
 
+const TOOL_LABELS: Record<AnalysisTool, string> = {
+  semgrep: 'Semgrep',
+  slither: 'Slither',
+  aderyn: 'Aderyn',
+  juicebox: 'Juicebox rules',
+  custom: 'Solidity rules',
+}
+
 const SEVERITY_ICONS: Record<Severity, string> = {
   critical: '🔴',
   high: '🟠',
@@ -79,9 +98,11 @@ export default function HookSecurityReport({
   const [status, setStatus] = useState<'idle' | 'loading' | 'complete' | 'error'>('idle')
   const [findings, setFindings] = useState<SecurityFinding[]>([])
   const [summary, setSummary] = useState<AnalysisSummary | null>(null)
+  const [toolRuns, setToolRuns] = useState<ToolRun[]>([])
   const [error, setError] = useState<string | null>(null)
   const [expandedFinding, setExpandedFinding] = useState<string | null>(null)
   const [filterSeverity, setFilterSeverity] = useState<Severity | 'all'>('all')
+  const [filterTool, setFilterTool] = useState<AnalysisTool | 'all'>('all')
 
   const runAnalysis = useCallback(async () => {
     if (!token) {
@@ -108,6 +129,7 @@ export default function HookSecurityReport({
       const { data } = await response.json()
       setFindings(data.findings || [])
       setSummary(data.summary || null)
+      setToolRuns(data.toolRuns || [])
       setStatus('complete')
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error')
@@ -122,10 +144,11 @@ export default function HookSecurityReport({
     }
   }, [autoRun, status, runAnalysis])
 
-  // Filter findings
-  const filteredFindings = filterSeverity === 'all'
-    ? findings
-    : findings.filter(f => f.severity === filterSeverity)
+  // Filter findings - a merged finding counts for every tool that reported it
+  const filteredFindings = findings.filter(f =>
+    (filterSeverity === 'all' || f.severity === filterSeverity) &&
+    (filterTool === 'all' || f.tool === filterTool || f.alsoReportedBy?.includes(filterTool))
+  )
 
   // Group by file
   const findingsByFile = filteredFindings.reduce<Record<string, SecurityFinding[]>>(
@@ -224,6 +247,48 @@ export default function HookSecurityReport({
         </div>
       )}
 
+      {/* Tools */}
+      {toolRuns.length > 0 && status === 'complete' && (
+        <div className={`px-3 py-2 border-b flex flex-wrap items-center gap-2 ${
+          isDark ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          {toolRuns.map(run => (
+            <button
+              key={run.tool}
+              onClick={() => setFilterTool(filterTool === run.tool ? 'all' : run.tool)}
+              disabled={run.status !== 'completed'}
+              title={run.error}
+              className={`flex items-center gap-1 text-xs px-2 py-1 transition-colors ${
+                filterTool === run.tool
+                  ? isDark
+                    ? 'bg-purple-900/30 text-purple-300 border border-purple-500/50'
+                    : 'bg-purple-50 text-purple-700 border border-purple-300'
+                  : run.status === 'failed'
+                    ? 'text-red-400 cursor-default'
+                    : run.status === 'skipped'
+                      ? `${isDark ? 'text-gray-600' : 'text-gray-400'} cursor-default`
+                      : isDark
+                        ? 'text-gray-400 hover:text-gray-300'
+                        : 'text-gray-500 hover:text-gray-600'
+              }`}
+            >
+              <span>{TOOL_LABELS[run.tool]}</span>
+              {run.status === 'completed' && <span className="font-medium">{run.findingCount}</span>}
+              {run.status === 'skipped' && <span>(off)</span>}
+              {run.status === 'failed' && <span>(failed)</span>}
+            </button>
+          ))}
+          {filterTool !== 'all' && (
+            <button
+              onClick={() => setFilterTool('all')}
+              className={`text-xs ${isDark ? 'text-gray-500 hover:text-gray-400' : 'text-gray-400 hover:text-gray-500'}`}
+            >
+              All tools
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Error */}
       {error && (
         <div className={`px-3 py-2 text-sm text-red-400 ${
@@ -330,7 +395,10 @@ export default function HookSecurityReport({
                       )}
 
                       <div className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
-                        Rule: {finding.ruleId} • Tool: {finding.tool}
+                        Rule: {finding.ruleId} • Tool: {TOOL_LABELS[finding.tool] ?? finding.tool}
+                        {finding.alsoReportedBy && finding.alsoReportedBy.length > 0 && (
+                          <> • Also reported by: {finding.alsoReportedBy.map(tool => TOOL_LABELS[tool] ?? tool).join(', ')}</>
+                        )}
                       </div>
                     </div>
                   )}
@@ -344,7 +412,8 @@ export default function HookSecurityReport({
       {/* Empty state */}
       {status === 'complete' && filteredFindings.length === 0 && findings.length > 0 && (
         <div className={`px-3 py-8 text-center text-sm ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
-          No {filterSeverity} findings
+          No {filterSeverity === 'all' ? '' : `${filterSeverity} `}findings
+          {filterTool !== 'all' && ` from ${TOOL_LABELS[filterTool]}`}
         </div>
       )}
 
@@ -366,7 +435,12 @@ export default function HookSecurityReport({
       <div className={`px-3 py-1.5 border-t text-xs ${
         isDark ? 'border-gray-700 text-gray-500' : 'border-gray-200 text-gray-400'
       }`}>
-        Powered by custom Juicebox security rules
+        {toolRuns.some(run => run.status === 'completed')
+          ? `Checked with ${toolRuns
+              .filter(run => run.status === 'completed')
+              .map(run => TOOL_LABELS[run.tool])
+              .join(', ')}`
+          : 'Powered by Juicebox hook rules, Semgrep, Slither and Aderyn'}
       </div>
     </div>
   )
@@ -1,5 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { useThemeStore, useAuthStore } from '../../stores'
+import { readSseStream } from '../../utils/sse'
 
 interface TestResult {
   name: string
@@ -10,6 +11,14 @@ interface TestResult {
   error?: string
 }
 
+// Parsed from forge test output as it runs (see backend parseTestProgressLine)
+type TestProgress =
+  | { kind: 'suite_started'; suite: string; testCount: number }
+  | { kind: 'test_finished'; suite?: string; name: string; passed: boolean; gasUsed?: number; error?: string }
+  | { kind: 'suite_finished'; suite?: string; passed: number; failed: number; skipped: number }
+
+type RunStatus = 'idle' | 'running' | 'completed' | 'failed' | 'cancelled'
+
 interface ForkConfig {
   chainId: number
   blockNumber?: number
@@ -45,13 +54,19 @@ export default function HookTestRunner({
       ? JSON.parse(initialForkConfig)
       : initialForkConfig
 
-  const [status, setStatus] = useState<'idle' | 'running' | 'completed' | 'failed'>('idle')
+  const [status, setStatus] = useState<RunStatus>('idle')
   const [output, setOutput] = useState<string>('')
   const [testResults, setTestResults] = useState<TestResult[]>([])
+  const [expectedTests, setExpectedTests] = useState(0)
   const [jobId, setJobId] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [cancelling, setCancelling] = useState(false)
   const [selectedChainId, setSelectedChainId] = useState(forkConfig?.chainId || 1)
   const outputRef = useRef<HTMLDivElement>(null)
+  const streamRef = useRef<AbortController | null>(null)
+
+  // Stop streaming when unmounted
+  useEffect(() => () => streamRef.current?.abort(), [])
 
   // Auto-scroll output
   useEffect(() => {
@@ -73,10 +88,26 @@ export default function HookTestRunner({
       return
     }
 
+    streamRef.current?.abort()
+    const stream = new AbortController()
+    streamRef.current = stream
+
     setStatus('running')
     setOutput('')
     setTestResults([])
+    setExpectedTests(0)
+    setJobId(null)
     setError(null)
+    setCancelling(false)
+
+    // Set by status/done events; anything else when the stream ends means it dropped
+    let finalStatus: RunStatus | null = null
+
+    const finish = (jobStatus: string) => {
+      finalStatus = jobStatus === 'completed' ? 'completed' : jobStatus === 'cancelled' ? 'cancelled' : 'failed'
+      setStatus(finalStatus)
+      setCancelling(false)
+    }
 
     try {
       // Submit test job
@@ -91,6 +122,7 @@ export default function HookTestRunner({
           projectId,
           forkConfig: { chainId: selectedChainId },
         }),
+        signal: stream.signal,
       })
 
       if (!submitResponse.ok) {
@@ -101,50 +133,81 @@ export default function HookTestRunner({
       const { data: job } = await submitResponse.json()
       setJobId(job.id)
 
-      // Stream output via SSE
-      const eventSource = new EventSource(
-        `/hooks/forge/stream/${job.id}?token=${encodeURIComponent(token)}`
-      )
-
-      eventSource.addEventListener('output', (event) => {
-        setOutput(prev => prev + event.data)
+      // Stream output, test progress and status via SSE (fetched, so the token goes in a header)
+      const streamResponse = await fetch(`/hooks/forge/stream/${job.id}`, {
+        headers: { Authorization: `Bearer ${token}` },
+        signal: stream.signal,
       })
 
-      eventSource.addEventListener('status', (event) => {
-        const { status: jobStatus, resultData } = JSON.parse(event.data)
-
-        if (jobStatus === 'completed' || jobStatus === 'failed' || jobStatus === 'timeout') {
-          setStatus(jobStatus === 'completed' ? 'completed' : 'failed')
+      if (!streamResponse.ok) {
+        const data = await streamResponse.json()
+        throw new Error(data.error || 'Failed to stream test output')
+      }
 
-          if (resultData?.testResults) {
-            setTestResults(resultData.testResults)
+      await readSseStream(streamResponse, ({ event, data }) => {
+        if (event === 'output') {
+          setOutput(prev => prev + data)
+        } else if (event === 'test') {
+          const progress: TestProgress = JSON.parse(data)
+          if (progress.kind === 'suite_started') {
+            setExpectedTests(prev => prev + progress.testCount)
+          } else if (progress.kind === 'test_finished') {
+            setTestResults(prev => [
+              ...prev,
+              { name: progress.name, passed: progress.passed, gasUsed: progress.gasUsed, error: progress.error },
+            ])
           }
+        } else if (event === 'status') {
+          const { status: jobStatus, resultData } = JSON.parse(data)
+
+          if (['completed', 'failed', 'timeout', 'cancelled'].includes(jobStatus)) {
+            finish(jobStatus)
+
+            // The parsed final results replace what was collected live
+            if (resultData?.testResults) {
+              setTestResults(resultData.testResults)
+            }
 
-          if (resultData?.errors?.length > 0) {
-            setError(resultData.errors.map((e: { message: string }) => e.message).join('\n'))
+            if (resultData?.errors?.length > 0) {
+              setError(resultData.errors.map((e: { message: string }) => e.message).join('\n'))
+            }
           }
+        } else if (event === 'done') {
+          finish(JSON.parse(data).status)
         }
       })
 
-      eventSource.addEventListener('done', (event) => {
-        const finalJob = JSON.parse(event.data)
-        setStatus(finalJob.status === 'completed' ? 'completed' : 'failed')
-        eventSource.close()
-      })
-
-      eventSource.onerror = () => {
-        eventSource.close()
-        if (status === 'running') {
-          setError('Connection lost')
-          setStatus('failed')
-        }
+      if (!finalStatus) {
+        throw new Error('Connection lost')
       }
     } catch (err) {
+      if (stream.signal.aborted) return
       setError(err instanceof Error ? err.message : 'Unknown error')
       setStatus('failed')
     }
   }, [token, projectId, selectedChainId])
 
+  const cancelTests = useCallback(async () => {
+    if (!jobId || !token) return
+
+    setCancelling(true)
+    try {
+      const response = await fetch(`/hooks/forge/cancel/${jobId}`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      })
+
+      // The stream reports the cancelled status once the job has stopped
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to cancel tests')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel tests')
+      setCancelling(false)
+    }
+  }, [jobId, token])
+
   const passedCount = testResults.filter(t => t.passed).length
   const failedCount = testResults.filter(t => !t.passed).length
   const totalGas = testResults.reduce((sum, t) => sum + (t.gasUsed || 0), 0)
@@ -177,6 +240,12 @@ export default function HookTestRunner({
               Failed
             </span>
           )}
+          {status === 'cancelled' && (
+            <span className={`flex items-center gap-1 text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+              <span className="w-2 h-2 rounded-full bg-gray-500" />
+              Cancelled
+            </span>
+          )}
         </div>
 
         <div className="flex items-center gap-2">
@@ -196,6 +265,22 @@ export default function HookTestRunner({
             ))}
           </select>
 
+          {status === 'running' && jobId && (
+            <button
+              onClick={cancelTests}
+              disabled={cancelling}
+              className={`px-3 py-1.5 text-xs font-medium border transition-colors ${
+                cancelling
+                  ? 'border-gray-500/30 text-gray-500 cursor-not-allowed'
+                  : isDark
+                    ? 'border-gray-600 text-gray-300 hover:border-red-500 hover:text-red-400'
+                    : 'border-gray-300 text-gray-600 hover:border-red-500 hover:text-red-500'
+              }`}
+            >
+              {cancelling ? 'Cancelling...' : 'Cancel'}
+            </button>
+          )}
+
           <button
             onClick={runTests}
             disabled={status === 'running'}
@@ -216,6 +301,11 @@ export default function HookTestRunner({
       {testResults.length > 0 && (
         <div className={`px-3 py-2 border-b ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
           <div className="flex items-center gap-4 text-xs">
+            {status === 'running' && expectedTests > 0 && (
+              <span className={isDark ? 'text-gray-300' : 'text-gray-600'}>
+                {testResults.length}/{expectedTests} tests
+              </span>
+            )}
             <span className="text-green-500">{passedCount} passed</span>
             {failedCount > 0 && <span className="text-red-500">{failedCount} failed</span>}
             <span className={isDark ? 'text-gray-400' : 'text-gray-500'}>
@@ -239,7 +329,10 @@ export default function HookTestRunner({
                 <span className={`text-lg ${test.passed ? 'text-green-500' : 'text-red-500'}`}>
                   {test.passed ? '✓' : '✗'}
                 </span>
-                <span className={`text-sm font-mono ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+                <span
+                  className={`text-sm font-mono ${isDark ? 'text-gray-300' : 'text-gray-700'}`}
+                  title={test.error}
+                >
                   {test.name}
                 </span>
               </div>
@@ -0,0 +1,432 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useThemeStore, useAuthStore } from '../../stores'
+import QueueRulesetForm from './QueueRulesetForm'
+
+type Severity = 'critical' | 'high' | 'medium' | 'low' | 'info'
+
+interface DiffLine {
+  type: 'context' | 'added' | 'removed'
+  content: string
+  oldLine?: number
+  newLine?: number
+}
+
+interface DiffHunk {
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  lines: DiffLine[]
+}
+
+interface FileDiff {
+  path: string
+  status: 'added' | 'removed' | 'modified'
+  additions: number
+  deletions: number
+  hunks: DiffHunk[]
+}
+
+interface UpgradeDiff {
+  deployedFilesHash: string
+  currentFilesHash: string
+  deployedAt: string
+  files: FileDiff[]
+}
+
+interface SecurityFinding {
+  id: string
+  severity: Severity
+  title: string
+  message: string
+  file: string
+  line: number
+}
+
+interface UpgradeSecurityCheck {
+  canUpgrade: boolean
+  criticalFindings: SecurityFinding[]
+  highFindings: SecurityFinding[]
+  otherFindings: SecurityFinding[]
+  existingFindingCount: number
+  warnings: string[]
+}
+
+interface LinkedProject {
+  projectId: number
+  chainId: number
+}
+
+interface RulesetAttachment extends LinkedProject {
+  dataHook: string
+  dataHookChainIds: number[]
+  useDataHookForPay: boolean
+  useDataHookForCashOut: boolean
+}
+
+interface HookUpgradeProps {
+  projectId: string
+}
+
+const CHAIN_NAMES: Record<number, string> = {
+  1: 'Ethereum',
+  10: 'Optimism',
+  8453: 'Base',
+  42161: 'Arbitrum',
+  11155111: 'Sepolia',
+  84532: 'Base Sepolia',
+}
+
+const STATUS_LABELS: Record<FileDiff['status'], { label: string; className: string }> = {
+  added: { label: 'Added', className: 'text-green-400' },
+  removed: { label: 'Removed', className: 'text-red-400' },
+  modified: { label: 'Modified', className: 'text-yellow-400' },
+}
+
+const SEVERITY_ICONS: Record<Severity, string> = {
+  critical: '🔴',
+  high: '🟠',
+  medium: '🟡',
+  low: '🔵',
+  info: '⚪',
+}
+
+export default function HookUpgrade({ projectId }: HookUpgradeProps) {
+  const { theme } = useThemeStore()
+  const token = useAuthStore((s) => s.token)
+  const isDark = theme === 'dark'
+
+  const [diff, setDiff] = useState<UpgradeDiff | null>(null)
+  const [linkedProject, setLinkedProject] = useState<LinkedProject | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedFiles, setExpandedFiles] = useState<Set<string>>(new Set())
+
+  const [checkStatus, setCheckStatus] = useState<'idle' | 'running' | 'complete'>('idle')
+  const [check, setCheck] = useState<UpgradeSecurityCheck | null>(null)
+
+  const [linkProjectId, setLinkProjectId] = useState('')
+  const [linkChainId, setLinkChainId] = useState(1)
+  const [attachment, setAttachment] = useState<RulesetAttachment | null>(null)
+
+  const request = useCallback(async <T,>(path: string, init: RequestInit = {}): Promise<T> => {
+    const response = await fetch(`/hooks/projects/${projectId}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+    })
+    const body = await response.json()
+    if (!response.ok || !body.success) {
+      throw new Error(body.error || 'Request failed')
+    }
+    return body.data as T
+  }, [projectId, token])
+
+  const loadDiff = useCallback(async () => {
+    if (!token) {
+      setError('Authentication required')
+      setLoading(false)
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    try {
+      const [project, upgradeDiff] = await Promise.all([
+        request<{ linkedProject: LinkedProject | null }>(''),
+        request<UpgradeDiff>('/upgrade/diff'),
+      ])
+      setLinkedProject(project.linkedProject)
+      setDiff(upgradeDiff)
+      setExpandedFiles(new Set(upgradeDiff.files.slice(0, 3).map(f => f.path)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load changes')
+    } finally {
+      setLoading(false)
+    }
+  }, [token, request])
+
+  useEffect(() => {
+    loadDiff()
+  }, [loadDiff])
+
+  const runCheck = async () => {
+    setCheckStatus('running')
+    setError(null)
+    try {
+      setCheck(await request<UpgradeSecurityCheck>('/upgrade/check', { method: 'POST' }))
+      setCheckStatus('complete')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Security check failed')
+      setCheckStatus('idle')
+    }
+  }
+
+  const saveLink = async (link: LinkedProject | null) => {
+    setError(null)
+    try {
+      const project = await request<{ linkedProject: LinkedProject | null }>('', {
+        method: 'PATCH',
+        body: JSON.stringify({ linkedProject: link }),
+      })
+      setLinkedProject(project.linkedProject)
+      setAttachment(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to link project')
+    }
+  }
+
+  const prepareAttachment = async () => {
+    setError(null)
+    try {
+      const { props } = await request<{ props: RulesetAttachment }>('/upgrade/ruleset-form')
+      setAttachment(props)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to prepare ruleset')
+    }
+  }
+
+  const toggleFile = (path: string) => {
+    setExpandedFiles(prev => {
+      const next = new Set(prev)
+      if (next.has(path)) next.delete(path)
+      else next.add(path)
+      return next
+    })
+  }
+
+  const hasChanges = !!diff && diff.files.length > 0
+  const newFindings = check
+    ? [...check.criticalFindings, ...check.highFindings, ...check.otherFindings]
+    : []
+
+  const sectionClass = `px-3 py-2 border-b ${isDark ? 'border-gray-700' : 'border-gray-200'}`
+  const mutedText = isDark ? 'text-gray-500' : 'text-gray-400'
+  const buttonClass = (disabled: boolean) => `px-3 py-1.5 text-xs font-medium transition-colors ${
+    disabled
+      ? 'bg-gray-500/30 text-gray-500 cursor-not-allowed'
+      : isDark
+        ? 'bg-purple-600 hover:bg-purple-500 text-white'
+        : 'bg-purple-500 hover:bg-purple-600 text-white'
+  }`
+
+  return (
+    <div className="w-full space-y-3">
+      <div className={`w-full border ${isDark ? 'border-gray-700 bg-gray-900' : 'border-gray-300 bg-white'}`}>
+        {/* Header */}
+        <div className={`flex items-center justify-between px-3 py-2 border-b ${
+          isDark ? 'border-gray-700 bg-gray-800' : 'border-gray-200 bg-gray-100'
+        }`}>
+          <div className="flex items-center gap-3">
+            <span className={`text-sm font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+              Hook Upgrade
+            </span>
+            {diff && (
+              <span className={`text-xs ${mutedText}`}>
+                {hasChanges
+                  ? `${diff.files.length} ${diff.files.length === 1 ? 'file' : 'files'} changed since deployment`
+                  : 'Matches the deployed version'}
+              </span>
+            )}
+          </div>
+          <button
+            onClick={loadDiff}
+            disabled={loading}
+            className={`text-xs ${isDark ? 'text-gray-400 hover:text-gray-300' : 'text-gray-500 hover:text-gray-600'}`}
+          >
+            {loading ? 'Loading...' : 'Refresh'}
+          </button>
+        </div>
+
+        {/* Error */}
+        {error && (
+          <div className={`px-3 py-2 text-sm text-red-400 ${isDark ? 'bg-red-900/20' : 'bg-red-50'}`}>
+            {error}
+          </div>
+        )}
+
+        {/* Diff */}
+        {diff && hasChanges && (
+          <div className="max-h-96 overflow-y-auto">
+            {diff.files.map(file => (
+              <div key={file.path} className={`border-b ${isDark ? 'border-gray-800' : 'border-gray-100'}`}>
+                <button
+                  onClick={() => toggleFile(file.path)}
+                  className={`w-full flex items-center gap-2 px-3 py-1.5 text-xs font-mono text-left ${
+                    isDark ? 'bg-gray-850 text-gray-300 hover:bg-white/5' : 'bg-gray-50 text-gray-600 hover:bg-black/5'
+                  }`}
+                >
+                  <span className="flex-1 truncate">{file.path}</span>
+                  <span className={STATUS_LABELS[file.status].className}>{STATUS_LABELS[file.status].label}</span>
+                  <span className="text-green-400">+{file.additions}</span>
+                  <span className="text-red-400">-{file.deletions}</span>
+                </button>
+
+                {expandedFiles.has(file.path) && file.hunks.map((hunk, i) => (
+                  <div key={i} className="text-xs font-mono">
+                    <div className={`px-3 py-0.5 ${isDark ? 'bg-blue-900/20 text-blue-300' : 'bg-blue-50 text-blue-600'}`}>
+                      @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+                    </div>
+                    {hunk.lines.map((line, j) => (
+                      <div
+                        key={j}
+                        className={`flex whitespace-pre ${
+                          line.type === 'added'
+                            ? isDark ? 'bg-green-900/20 text-green-300' : 'bg-green-50 text-green-700'
+                            : line.type === 'removed'
+                              ? isDark ? 'bg-red-900/20 text-red-300' : 'bg-red-50 text-red-700'
+                              : isDark ? 'text-gray-400' : 'text-gray-600'
+                        }`}
+                      >
+                        <span className={`w-10 shrink-0 text-right pr-2 select-none ${mutedText}`}>
+                          {line.newLine ?? line.oldLine}
+                        </span>
+                        <span className="select-none w-4 shrink-0">
+                          {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+                        </span>
+                        <span>{line.content}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Security check on the changes */}
+        {hasChanges && (
+          <div className={sectionClass}>
+            <div className="flex items-center justify-between">
+              <span className={`text-xs font-medium ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
+                Security check on changes
+              </span>
+              <button onClick={runCheck} disabled={checkStatus === 'running'} className={buttonClass(checkStatus === 'running')}>
+                {checkStatus === 'running' ? 'Checking...' : checkStatus === 'complete' ? 'Check Again' : 'Check Changes'}
+              </button>
+            </div>
+
+            {check && (
+              <div className="mt-2 space-y-1">
+                <div className={`text-xs ${
+                  !check.canUpgrade ? 'text-red-400' : newFindings.length > 0 ? 'text-yellow-400' : 'text-green-400'
+                }`}>
+                  {!check.canUpgrade
+                    ? check.criticalFindings.length > 0
+                      ? 'Critical issues introduced since deployment - fix them before deploying'
+                      : 'Juicebox hook rules did not run - the changes could not be checked'
+                    : newFindings.length > 0
+                      ? `${newFindings.length} new ${newFindings.length === 1 ? 'issue' : 'issues'} since deployment`
+                      : 'No new issues since deployment'}
+                </div>
+                {newFindings.map(finding => (
+                  <div key={finding.id} className={`text-xs ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+                    {SEVERITY_ICONS[finding.severity]} {finding.title}
+                    <span className={`ml-1 ${mutedText}`}>{finding.file}:{finding.line}</span>
+                  </div>
+                ))}
+                {check.existingFindingCount > 0 && (
+                  <div className={`text-xs ${mutedText}`}>
+                    {check.existingFindingCount} more the deployed version already had
+                  </div>
+                )}
+                {check.warnings.map(warning => (
+                  <div key={warning} className={`text-xs ${isDark ? 'text-amber-400' : 'text-amber-600'}`}>
+                    {warning}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Ruleset attachment */}
+        {diff && (
+          <div className={sectionClass}>
+            <div className={`text-xs font-medium mb-2 ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
+              Juicebox project
+            </div>
+
+            {linkedProject ? (
+              <div className="flex items-center justify-between gap-2">
+                <span className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Project #{linkedProject.projectId} on {CHAIN_NAMES[linkedProject.chainId] || `chain ${linkedProject.chainId}`}
+                </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => saveLink(null)}
+                    className={`text-xs ${isDark ? 'text-gray-500 hover:text-gray-400' : 'text-gray-400 hover:text-gray-500'}`}
+                  >
+                    Unlink
+                  </button>
+                  <button onClick={prepareAttachment} className={buttonClass(false)}>
+                    Attach to Ruleset
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min="1"
+                  value={linkProjectId}
+                  onChange={(e) => setLinkProjectId(e.target.value)}
+                  placeholder="Project ID"
+                  className={`w-28 px-2 py-1.5 text-xs outline-none ${
+                    isDark
+                      ? 'bg-juice-dark border border-white/10 text-white placeholder-gray-500'
+                      : 'bg-white border border-gray-200 text-gray-900 placeholder-gray-400'
+                  }`}
+                />
+                <select
+                  value={linkChainId}
+                  onChange={(e) => setLinkChainId(Number(e.target.value))}
+                  className={`px-2 py-1.5 text-xs outline-none ${
+                    isDark ? 'bg-juice-dark border border-white/10 text-white' : 'bg-white border border-gray-200 text-gray-900'
+                  }`}
+                >
+                  {Object.entries(CHAIN_NAMES).map(([id, name]) => (
+                    <option key={id} value={id}>{name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => saveLink({ projectId: Number(linkProjectId), chainId: linkChainId })}
+                  disabled={!(Number(linkProjectId) > 0)}
+                  className={buttonClass(!(Number(linkProjectId) > 0))}
+                >
+                  Link
+                </button>
+              </div>
+            )}
+
+            {linkedProject && hasChanges && (
+              <div className={`mt-2 text-xs ${isDark ? 'text-amber-400' : 'text-amber-600'}`}>
+                The changes above aren't deployed yet. The ruleset will use the deployed hook until you deploy them.
+              </div>
+            )}
+          </div>
+        )}
+
+        {!loading && !diff && !error && (
+          <div className={`px-3 py-8 text-center text-sm ${mutedText}`}>
+            Nothing to compare yet
+          </div>
+        )}
+      </div>
+
+      {attachment && (
+        <QueueRulesetForm
+          key={`${attachment.projectId}:${attachment.chainId}:${attachment.dataHook}`}
+          projectId={String(attachment.projectId)}
+          chainId={String(attachment.chainId)}
+          dataHook={attachment.dataHook}
+          dataHookChainIds={attachment.dataHookChainIds}
+          useDataHookForPay={attachment.useDataHookForPay}
+          useDataHookForCashOut={attachment.useDataHookForCashOut}
+        />
+      )}
+    </div>
+  )
+}
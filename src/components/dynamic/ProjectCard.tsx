@@ -6,7 +6,7 @@ import { fetchProject, fetchConnectedChains, fetchIssuanceRate, fetchSuckerGroup
 import { resolveIpfsUri, fetchIpfsMetadata, type IpfsProjectMetadata } from '../../utils/ipfs'
 import { getProjectDataHook, fetchResolvedNFTTiers, fetchHookFlags, resolveTierUri, type ResolvedNFTTier, type JB721HookFlags } from '../../services/nft'
 import { inlineSvgImages } from '../../utils/ipfs'
-import { useThemeStore, useTransactionStore, type PaymentStage, type TransactionStatus } from '../../stores'
+import { useThemeStore, useTransactionStore, useAuthStore, type PaymentStage, type TransactionStatus } from '../../stores'
 import { VIEM_CHAINS, USDC_ADDRESSES, RPC_ENDPOINTS, CHAINS, type SupportedChainId } from '../../constants'
 import { isUsdcCurrency } from '../../utils/technicalDetails'
 import { useJuiceBalance } from '../../hooks/useJuiceBalance'
@@ -14,6 +14,7 @@ import { useWalletBalances } from '../../hooks/useWalletBalances'
 import { useManagedWallet } from '../../hooks'
 import { useProjectCardPaymentState, type ProjectCardPaymentState } from '../../hooks/useComponentState'
 import BuyJuiceModal from '../juice/BuyJuiceModal'
+import RecurringPaymentModal from '../payment/RecurringPaymentModal'
 
 // Parse HTML/markdown description to clean text with line breaks
 function parseDescription(html: string): string[] {
@@ -334,6 +335,7 @@ export default function ProjectCard({ projectId, chainId: initialChainId = '1',
   const [chainDropdownOpen, setChainDropdownOpen] = useState(false)
   const [tokenDropdownOpen, setTokenDropdownOpen] = useState(false)
   const [showBuyJuiceModal, setShowBuyJuiceModal] = useState(false)
+  const [showRecurringModal, setShowRecurringModal] = useState(false)
   const buyMoreButtonRef = useRef<HTMLButtonElement>(null)
   const amountInputRef = useRef<HTMLInputElement>(null)
   // Connected chains with their project IDs (may differ per chain)
@@ -406,6 +408,9 @@ export default function ProjectCard({ projectId, chainId: initialChainId = '1',
 
   // Managed wallet for deposit address
   const { address: managedAddress } = useManagedWallet()
+  const isSignedIn = useAuthStore((state) => !!state.token)
+  // Recurring payments are server-side, so they need an account and a beneficiary
+  const recurringBeneficiary = isSignedIn ? (managedAddress || address) : undefined
 
   // Funding options popover state (shown when user has zero balance)
   const [showFundingOptions, setShowFundingOptions] = useState(false)
@@ -1407,6 +1412,19 @@ export default function ProjectCard({ projectId, chainId: initialChainId = '1',
                 >
                   {paying ? '...' : persistedPayment?.status === 'completed' ? 'Paid' : persistedPayment?.status === 'in_progress' ? 'Pending...' : 'Pay'}
                 </button>
+                {/* Repeat - set up recurring support (Pay Credits only, replaces chain selector slot) */}
+                {selectedToken === 'PAY_CREDITS' && recurringBeneficiary && (
+                  <div className="absolute top-full right-0 mt-1">
+                    <button
+                      onClick={() => setShowRecurringModal(true)}
+                      className={`text-xs underline ${
+                        isDark ? 'text-gray-400 hover:text-gray-300' : 'text-gray-500 hover:text-gray-600'
+                      }`}
+                    >
+                      Repeat
+                    </button>
+                  </div>
+                )}
                 {/* Chain selector - only show for ETH/USDC, positioned absolutely */}
                 {(selectedToken === 'ETH' || selectedToken === 'USDC') && (
                   <div className="absolute top-full right-0 mt-1">
@@ -1587,6 +1605,19 @@ export default function ProjectCard({ projectId, chainId: initialChainId = '1',
         </div>
 
         {/* Modals (portaled) */}
+        {recurringBeneficiary && (
+          <RecurringPaymentModal
+            isOpen={showRecurringModal}
+            onClose={() => setShowRecurringModal(false)}
+            projectId={parseInt(currentProjectId)}
+            projectName={project.name}
+            chainId={parseInt(selectedChainId)}
+            beneficiaryAddress={recurringBeneficiary}
+            initialAmount={parseFloat(amount) || undefined}
+            memo={memo}
+            payCreditsBalance={juiceBalance?.balance ?? 0}
+          />
+        )}
         <BuyJuiceModal
           isOpen={showBuyJuiceModal}
           onClose={() => setShowBuyJuiceModal(false)}
@@ -2009,6 +2040,19 @@ export default function ProjectCard({ projectId, chainId: initialChainId = '1',
             >
               {paying ? '...' : persistedPayment?.status === 'completed' ? 'Paid' : persistedPayment?.status === 'in_progress' ? 'Pending...' : 'Pay'}
             </button>
+            {/* Repeat - set up recurring support (Pay Credits only, replaces chain selector slot) */}
+            {selectedToken === 'PAY_CREDITS' && recurringBeneficiary && (
+              <div className="absolute top-full right-0 mt-1">
+                <button
+                  onClick={() => setShowRecurringModal(true)}
+                  className={`text-xs underline ${
+                    isDark ? 'text-gray-400 hover:text-gray-300' : 'text-gray-500 hover:text-gray-600'
+                  }`}
+                >
+                  Repeat
+                </button>
+              </div>
+            )}
             {/* Chain selector - only show for ETH/USDC, positioned absolutely */}
             {(selectedToken === 'ETH' || selectedToken === 'USDC') && (
               <div className="absolute top-full right-0 mt-1">
@@ -2178,6 +2222,20 @@ export default function ProjectCard({ projectId, chainId: initialChainId = '1',
 
       </div>
 
+      {recurringBeneficiary && (
+        <RecurringPaymentModal
+          isOpen={showRecurringModal}
+          onClose={() => setShowRecurringModal(false)}
+          projectId={parseInt(currentProjectId)}
+          projectName={project.name}
+          chainId={parseInt(selectedChainId)}
+          beneficiaryAddress={recurringBeneficiary}
+          initialAmount={parseFloat(amount) || undefined}
+          memo={memo}
+          payCreditsBalance={juiceBalance?.balance ?? 0}
+        />
+      )}
+
       {/* BuyJuiceModal for purchasing Pay Credits */}
       <BuyJuiceModal
         isOpen={showBuyJuiceModal}
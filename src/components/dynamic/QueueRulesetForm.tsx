@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { useAccount } from 'wagmi'
 import { formatEther, formatUnits, parseUnits, parseEther } from 'viem'
 import { useThemeStore } from '../../stores'
@@ -23,6 +23,11 @@ interface QueueRulesetFormProps {
   projectId: string
   chainId?: string
   messageId?: string // For persisting state to server (visible to all chat users)
+  // Data hook to set (e.g. a newly deployed hook); defaults to the current ruleset's
+  dataHook?: string
+  dataHookChainIds?: number[] | string // Chains the hook is deployed on (JSON array from chat)
+  useDataHookForPay?: boolean
+  useDataHookForCashOut?: boolean
 }
 
 // Chain info for display
@@ -62,6 +67,11 @@ interface RulesetFormState {
   allowOwnerMinting: boolean
   ownerMustSendPayouts: boolean
 
+  // Data hook
+  dataHook: string
+  useDataHookForPay: boolean
+  useDataHookForCashOut: boolean
+
   // Fund access
   payoutLimitType: 'none' | 'limited' | 'unlimited'
   payoutLimit: string  // In ETH
@@ -107,9 +117,9 @@ function formStateToRulesetConfig(
     ownerMustSendPayouts: state.ownerMustSendPayouts,
     holdFees: false,
     useTotalSurplusForCashOuts: false,
-    useDataHookForPay: false,
-    useDataHookForCashOut: false,
-    dataHook: ZERO_ADDRESS,
+    useDataHookForPay: state.useDataHookForPay,
+    useDataHookForCashOut: state.useDataHookForCashOut,
+    dataHook: state.dataHook || ZERO_ADDRESS,
     metadata: 0,
   }
 
@@ -177,11 +187,19 @@ function formStateToRulesetConfig(
   }
 }
 
-export default function QueueRulesetForm({ projectId, chainId = '1', messageId }: QueueRulesetFormProps) {
+export default function QueueRulesetForm({
+  projectId,
+  chainId = '1',
+  messageId,
+  dataHook,
+  dataHookChainIds: initialDataHookChainIds,
+  useDataHookForPay,
+  useDataHookForCashOut,
+}: QueueRulesetFormProps) {
   const [project, setProject] = useState<Project | null>(null)
   const [loading, setLoading] = useState(true)
   const [showModal, setShowModal] = useState(false)
-  const [showAdvanced, setShowAdvanced] = useState(false)
+  const [showAdvanced, setShowAdvanced] = useState(!!dataHook)
   const { theme } = useThemeStore()
   const isDark = theme === 'dark'
 
@@ -211,6 +229,9 @@ export default function QueueRulesetForm({ projectId, chainId = '1', messageId }
     pausePay: false,
     allowOwnerMinting: true,
     ownerMustSendPayouts: false,
+    dataHook: dataHook || ZERO_ADDRESS,
+    useDataHookForPay: !!useDataHookForPay,
+    useDataHookForCashOut: !!useDataHookForCashOut,
     payoutLimitType: 'none',
     payoutLimit: '0',
     surplusAllowanceType: 'none',
@@ -218,6 +239,20 @@ export default function QueueRulesetForm({ projectId, chainId = '1', messageId }
     memo: '',
   })
 
+  // Parse props (keyed by value so a new array with the same chains doesn't reload)
+  const dataHookChainKey = typeof initialDataHookChainIds === 'string'
+    ? initialDataHookChainIds
+    : initialDataHookChainIds ? JSON.stringify(initialDataHookChainIds) : ''
+  const dataHookChainIds = useMemo((): number[] | null => {
+    if (!dataHookChainKey) return null
+    try {
+      const parsed = JSON.parse(dataHookChainKey)
+      return Array.isArray(parsed) ? parsed.map(Number) : null
+    } catch {
+      return null
+    }
+  }, [dataHookChainKey])
+
   // Get selected chains
   const selectedChains = chainRulesetData.filter(cd => cd.selected)
   const isOmnichain = chainRulesetData.length > 1
@@ -276,7 +311,8 @@ export default function QueueRulesetForm({ projectId, chainId = '1', messageId }
               payoutSplits,
               reservedSplits,
               fundAccessLimits,
-              selected: true, // Select all chains by default
+              // Select all chains by default, or those the new data hook is deployed on
+              selected: !dataHookChainIds || dataHookChainIds.includes(chain.chainId),
             }
           } catch (err) {
             console.error(`Failed to fetch ruleset data for chain ${chain.chainId}:`, err)
@@ -287,7 +323,7 @@ export default function QueueRulesetForm({ projectId, chainId = '1', messageId }
               payoutSplits: [],
               reservedSplits: [],
               fundAccessLimits: null,
-              selected: true,
+              selected: !dataHookChainIds || dataHookChainIds.includes(chain.chainId),
             }
           }
         })
@@ -311,6 +347,12 @@ export default function QueueRulesetForm({ projectId, chainId = '1', messageId }
             cashOutTaxRate: (firstRuleset.cashOutTaxRate / 100).toString(),
             pausePay: firstRuleset.pausePay,
             allowOwnerMinting: firstRuleset.allowOwnerMinting,
+            // Keep the current data hook unless one was passed in
+            ...(dataHook ? {} : {
+              dataHook: firstRuleset.dataHook || ZERO_ADDRESS,
+              useDataHookForPay: !!firstRuleset.useDataHookForPay,
+              useDataHookForCashOut: !!firstRuleset.useDataHookForCashOut,
+            }),
           }))
         }
 
@@ -344,7 +386,7 @@ export default function QueueRulesetForm({ projectId, chainId = '1', messageId }
       }
     }
     load()
-  }, [projectId, chainId])
+  }, [projectId, chainId, dataHook, dataHookChainIds])
 
   const toggleChainSelection = (chainId: number) => {
     if (isLocked) return
@@ -375,7 +417,7 @@ export default function QueueRulesetForm({ projectId, chainId = '1', messageId }
   }, [updatePersistedState])
 
   const handleQueue = () => {
-    if (selectedChains.length === 0 || isLocked) return
+    if (!canQueue) return
 
     if (!isConnected) {
       openWalletPanel()
@@ -401,6 +443,13 @@ export default function QueueRulesetForm({ projectId, chainId = '1', messageId }
     setFormState(prev => ({ ...prev, [key]: value }))
   }
 
+  // Selected chains the data hook isn't deployed on would point at an empty address
+  const chainsWithoutHook = dataHookChainIds && formState.dataHook.toLowerCase() === dataHook?.toLowerCase()
+    ? selectedChains.filter(cd => !dataHookChainIds.includes(cd.chainId))
+    : []
+  const isDataHookValid = /^0x[a-fA-F0-9]{40}$/.test(formState.dataHook)
+  const canQueue = selectedChains.length > 0 && !isLocked && isDataHookValid
+
   // Build ruleset config for modal
   const rulesetConfig = formStateToRulesetConfig(
     formState,
@@ -791,6 +840,54 @@ export default function QueueRulesetForm({ projectId, chainId = '1', messageId }
                 </span>
               </label>
             </div>
+
+            <div className={`text-xs font-medium mt-4 mb-2 ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
+              Data Hook
+            </div>
+            <input
+              type="text"
+              value={formState.dataHook}
+              onChange={(e) => updateFormState('dataHook', e.target.value.trim())}
+              placeholder={ZERO_ADDRESS}
+              className={`w-full px-3 py-2 text-xs font-mono outline-none ${
+                isDark
+                  ? 'bg-juice-dark border border-white/10 text-white placeholder-gray-500'
+                  : 'bg-white border border-gray-200 text-gray-900 placeholder-gray-400'
+              } ${isDataHookValid ? '' : 'border-red-500'}`}
+            />
+            {!isDataHookValid && (
+              <span className="text-[10px] text-red-400">Enter a valid address</span>
+            )}
+            <div className="space-y-2 mt-2">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formState.useDataHookForPay}
+                  onChange={(e) => updateFormState('useDataHookForPay', e.target.checked)}
+                  className="w-4 h-4"
+                />
+                <span className={`text-sm ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
+                  Use for payments
+                </span>
+              </label>
+
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formState.useDataHookForCashOut}
+                  onChange={(e) => updateFormState('useDataHookForCashOut', e.target.checked)}
+                  className="w-4 h-4"
+                />
+                <span className={`text-sm ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
+                  Use for cash outs
+                </span>
+              </label>
+            </div>
+            {chainsWithoutHook.length > 0 && (
+              <div className={`mt-2 text-xs ${isDark ? 'text-amber-400' : 'text-amber-600'}`}>
+                Hook is not deployed on {chainsWithoutHook.map(cd => CHAIN_INFO[cd.chainId]?.name || cd.chainId).join(', ')}
+              </div>
+            )}
           </div>
         )}
 
@@ -881,9 +978,9 @@ export default function QueueRulesetForm({ projectId, chainId = '1', messageId }
         {/* Queue Button */}
         <button
           onClick={handleQueue}
-          disabled={selectedChains.length === 0 || isLocked}
+          disabled={!canQueue}
           className={`w-full py-3 text-sm font-bold transition-colors ${
-            selectedChains.length === 0 || isLocked
+            !canQueue
               ? 'bg-gray-500/50 text-gray-400 cursor-not-allowed'
               : 'bg-purple-500 hover:bg-purple-500/90 text-white'
           }`}
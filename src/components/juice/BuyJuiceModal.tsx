@@ -4,7 +4,7 @@
  * Uses Stripe's Embedded Checkout (recommended approach) to let users
  * purchase Pay Credits with fiat currency.
  *
- * Flat rate: $1.01 per Pay Credit
+ * Flat rate: $1.05 per Pay Credit, charged in the buyer's local currency
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react'
@@ -16,9 +16,10 @@ import {
 } from '@stripe/react-stripe-js'
 import { useTranslation } from 'react-i18next'
 import { useThemeStore, useAuthStore } from '../../stores'
+import { usePayCreditsRate } from '../../hooks/usePayCreditsRate'
+import { PURCHASE_CURRENCIES, type PurchaseCurrency } from '../../utils/currency'
 
 const API_BASE = import.meta.env.VITE_API_URL || ''
-const PAY_CREDITS_RATE = 1.05 // Flat rate: $1.05 per Pay Credit
 
 interface BuyJuiceModalProps {
   isOpen: boolean
@@ -47,6 +48,8 @@ export default function BuyJuiceModal({ isOpen, onClose, onSuccess, anchorRef }:
   const [loading, setLoading] = useState(false)
   const [position, setPosition] = useState<{ top: number; left: number } | null>(null)
   const modalRef = useRef<HTMLDivElement>(null)
+  const { currency, setCurrency, quote, error: rateError, totalFor, format } = usePayCreditsRate(isOpen)
+  const total = totalFor(amount)
 
   // Calculate position relative to anchor element
   useEffect(() => {
@@ -150,7 +153,7 @@ export default function BuyJuiceModal({ isOpen, onClose, onSuccess, anchorRef }:
     }
 
     if (amount < 1 || amount > 10000) {
-      setError('Amount must be between $1 and $10,000')
+      setError('Amount must be between 1 and 10,000 credits')
       return
     }
 
@@ -164,7 +167,7 @@ export default function BuyJuiceModal({ isOpen, onClose, onSuccess, anchorRef }:
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
         },
-        body: JSON.stringify({ amount }),
+        body: JSON.stringify({ amount, currency }),
       })
 
       const data = await res.json()
@@ -180,7 +183,7 @@ export default function BuyJuiceModal({ isOpen, onClose, onSuccess, anchorRef }:
     } finally {
       setLoading(false)
     }
-  }, [amount, token])
+  }, [amount, currency, token])
 
   const handleCheckoutComplete = useCallback(() => {
     setStep('success')
@@ -233,16 +236,35 @@ export default function BuyJuiceModal({ isOpen, onClose, onSuccess, anchorRef }:
           {/* Amount Selection Step */}
           {step === 'amount' && (
             <div className="space-y-4">
-              {/* Flat rate display */}
+              {/* Flat rate display, in the selected currency */}
               <div className={`px-3 py-2 border ${isDark ? 'border-white/10 bg-white/5' : 'border-gray-100 bg-gray-50'}`}>
                 <div className="flex justify-between items-center">
                   <span className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
                     {t('wallet.rate', 'Rate')}
                   </span>
-                  <span className={`text-sm font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                    $1.01 {t('wallet.perPayCredit', 'per Pay Credit')}
-                  </span>
+                  <div className="flex items-center gap-2">
+                    <span className={`text-sm font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                      {quote ? format(quote.localRate) : '…'} {t('wallet.perPayCredit', 'per Pay Credit')}
+                    </span>
+                    <select
+                      value={currency}
+                      onChange={e => setCurrency(e.target.value as PurchaseCurrency)}
+                      aria-label={t('wallet.currency', 'Currency')}
+                      className={`text-xs px-1 py-0.5 border outline-none ${
+                        isDark ? 'bg-juice-dark border-white/10 text-gray-300' : 'bg-white border-gray-200 text-gray-700'
+                      }`}
+                    >
+                      {PURCHASE_CURRENCIES.map(code => (
+                        <option key={code} value={code}>{code}</option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
+                {rateError && (
+                  <p className={`text-[10px] mt-1 ${isDark ? 'text-red-400' : 'text-red-600'}`}>
+                    {t('wallet.rateUnavailable', 'Prices in {{currency}} are unavailable right now. Try USD.', { currency })}
+                  </p>
+                )}
               </div>
 
               {/* Preset credit amounts */}
@@ -301,9 +323,14 @@ export default function BuyJuiceModal({ isOpen, onClose, onSuccess, anchorRef }:
                 <div className="flex justify-between items-center">
                   <span className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>{t('wallet.totalCost', 'Total cost')}</span>
                   <span className={`text-sm font-bold ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                    ${(amount * PAY_CREDITS_RATE).toFixed(2)}
+                    {total !== null ? format(total) : '…'}
                   </span>
                 </div>
+                {currency !== 'USD' && (
+                  <p className={`text-[10px] mt-1 ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+                    {t('wallet.chargedInCurrency', 'Charged in {{currency}} at today\'s exchange rate.', { currency })}
+                  </p>
+                )}
               </div>
 
               {error && (
@@ -315,9 +342,9 @@ export default function BuyJuiceModal({ isOpen, onClose, onSuccess, anchorRef }:
               <div className="flex justify-end">
                 <button
                   onClick={startCheckout}
-                  disabled={loading || !stripePromise || amount < 1}
+                  disabled={loading || !stripePromise || amount < 1 || !quote}
                   className={`px-4 py-2 text-sm font-medium transition-all ${
-                    loading || !stripePromise || amount < 1
+                    loading || !stripePromise || amount < 1 || !quote
                       ? isDark ? 'bg-white/10 text-gray-500 cursor-not-allowed' : 'bg-gray-100 text-gray-400 cursor-not-allowed'
                       : 'bg-green-500 text-black hover:bg-green-600'
                   }`}
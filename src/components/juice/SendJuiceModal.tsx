@@ -0,0 +1,374 @@
+/**
+ * Send Pay Credits Modal
+ *
+ * Send credits to another user (by email, Juicy ID or address), create gift
+ * codes to hand out, or redeem a gift code. Sent credits are held for 24
+ * hours before reaching the recipient and can be cancelled until then.
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { createPortal } from 'react-dom'
+import { useTranslation } from 'react-i18next'
+import { useThemeStore, useAuthStore } from '../../stores'
+
+const API_BASE = import.meta.env.VITE_API_URL || ''
+
+interface SendJuiceModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSuccess?: () => void
+  balance: number
+}
+
+type Tab = 'send' | 'gift' | 'redeem'
+
+interface SentTransfer {
+  id: string
+  direction: 'sent' | 'received'
+  counterparty: string
+  amount: number
+  status: 'held' | 'completed' | 'cancelled'
+  availableAt: string
+}
+
+export default function SendJuiceModal({ isOpen, onClose, onSuccess, balance }: SendJuiceModalProps) {
+  const { theme } = useThemeStore()
+  const { token } = useAuthStore()
+  const { t } = useTranslation()
+  const isDark = theme === 'dark'
+
+  const [tab, setTab] = useState<Tab>('send')
+  const [recipient, setRecipient] = useState('')
+  const [amount, setAmount] = useState('')
+  const [quantity, setQuantity] = useState('1')
+  const [note, setNote] = useState('')
+  const [code, setCode] = useState('')
+  const [createdCodes, setCreatedCodes] = useState<string[]>([])
+  const [transfers, setTransfers] = useState<SentTransfer[]>([])
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const request = useCallback(async (path: string, init?: RequestInit) => {
+    const res = await fetch(`${API_BASE}/juice${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    })
+    const data = await res.json()
+    if (!data.success) {
+      throw new Error(data.error || 'Request failed')
+    }
+    return data.data
+  }, [token])
+
+  const loadTransfers = useCallback(async () => {
+    try {
+      setTransfers(await request('/transfers'))
+    } catch {
+      setTransfers([])
+    }
+  }, [request])
+
+  // Reset state when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setTab('send')
+      setRecipient('')
+      setAmount('')
+      setQuantity('1')
+      setNote('')
+      setCode('')
+      setCreatedCodes([])
+      setMessage(null)
+      setError(null)
+      loadTransfers()
+    }
+  }, [isOpen, loadTransfers])
+
+  const run = async (action: () => Promise<void>) => {
+    setLoading(true)
+    setError(null)
+    setMessage(null)
+    try {
+      await action()
+      onSuccess?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSend = () => run(async () => {
+    const data = await request('/transfer', {
+      method: 'POST',
+      body: JSON.stringify({ recipient: recipient.trim(), amount: parseFloat(amount), note: note || undefined }),
+    })
+    setMessage(t('wallet.transferHeld', 'Sent. Credits arrive {{time}}.', {
+      time: new Date(data.availableAt).toLocaleString(),
+    }))
+    setRecipient('')
+    setAmount('')
+    setNote('')
+    await loadTransfers()
+  })
+
+  const handleCancelTransfer = (id: string) => run(async () => {
+    if (!confirm(t('wallet.cancelTransferConfirm', 'Cancel this transfer and return the credits?'))) return
+    await request(`/transfer/${id}`, { method: 'DELETE' })
+    await loadTransfers()
+  })
+
+  const handleCreateCodes = () => run(async () => {
+    const data = await request('/gift-codes', {
+      method: 'POST',
+      body: JSON.stringify({
+        amount: parseFloat(amount),
+        quantity: parseInt(quantity, 10),
+        note: note || undefined,
+      }),
+    })
+    setCreatedCodes(data.codes.map((c: { code: string }) => c.code))
+  })
+
+  const handleRedeem = () => run(async () => {
+    const data = await request('/gift-codes/redeem', {
+      method: 'POST',
+      body: JSON.stringify({ code: code.trim() }),
+    })
+    setMessage(t('wallet.giftRedeemed', '{{amount}} Pay Credits added to your balance.', { amount: data.amount }))
+    setCode('')
+  })
+
+  if (!isOpen) return null
+
+  const parsedAmount = parseFloat(amount)
+  const parsedQuantity = parseInt(quantity, 10)
+  const amountValid = !isNaN(parsedAmount) && parsedAmount >= 1
+  const giftTotal = amountValid && parsedQuantity > 0 ? parsedAmount * parsedQuantity : 0
+
+  const inputClass = `w-full px-3 py-2 text-sm ${
+    isDark
+      ? 'bg-white/5 border-white/10 text-white placeholder-gray-500'
+      : 'bg-gray-50 border-gray-200 text-gray-900 placeholder-gray-400'
+  } border focus:border-juice-orange outline-none`
+
+  const primaryClass = (disabled: boolean) => `px-4 py-2 text-sm font-medium transition-all ${
+    disabled
+      ? isDark ? 'bg-white/10 text-gray-500 cursor-not-allowed' : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+      : 'bg-green-500 text-black hover:bg-green-600'
+  }`
+
+  const pendingTransfers = transfers.filter(tr => tr.direction === 'sent' && tr.status === 'held')
+
+  const modalContent = (
+    <div className="fixed z-50 inset-0 flex items-center justify-center p-4">
+      <div className="absolute inset-0" onClick={onClose} />
+
+      <div className={`relative w-full max-w-sm border shadow-xl ${
+        isDark ? 'bg-juice-dark border-white/20' : 'bg-white border-gray-200'
+      }`}>
+        {/* Header */}
+        <div className={`px-4 py-3 border-b flex items-center justify-between ${isDark ? 'border-white/10' : 'border-gray-100'}`}>
+          <div className="flex gap-3">
+            {(['send', 'gift', 'redeem'] as const).map(key => (
+              <button
+                key={key}
+                onClick={() => { setTab(key); setError(null); setMessage(null); setCreatedCodes([]) }}
+                className={`text-sm font-medium transition-colors ${
+                  tab === key
+                    ? isDark ? 'text-white' : 'text-gray-900'
+                    : isDark ? 'text-gray-500 hover:text-gray-300' : 'text-gray-400 hover:text-gray-600'
+                }`}
+              >
+                {key === 'send' && t('wallet.send', 'Send')}
+                {key === 'gift' && t('wallet.giftCodes', 'Gift Codes')}
+                {key === 'redeem' && t('wallet.redeem', 'Redeem')}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onClose}
+            className={`p-1 transition-colors ${
+              isDark ? 'text-gray-500 hover:text-white' : 'text-gray-400 hover:text-gray-600'
+            }`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-3">
+          {tab !== 'redeem' && (
+            <p className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+              {t('wallet.availableCredits', 'Available')}: {balance.toLocaleString()} {t('wallet.payCredits', 'Pay Credits')}
+            </p>
+          )}
+
+          {tab === 'send' && (
+            <>
+              <input
+                value={recipient}
+                onChange={e => setRecipient(e.target.value)}
+                placeholder={t('wallet.recipientPlaceholder', 'Email, Juicy ID or 0x address')}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min={1}
+                value={amount}
+                onChange={e => setAmount(e.target.value)}
+                placeholder={t('wallet.credits', 'Credits')}
+                className={`${inputClass} font-mono`}
+              />
+              <input
+                value={note}
+                onChange={e => setNote(e.target.value)}
+                maxLength={280}
+                placeholder={t('wallet.noteOptional', 'Note (optional)')}
+                className={inputClass}
+              />
+              <p className={`text-[10px] ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+                {t('wallet.transferHoldNotice', 'Credits reach the recipient after 24 hours. You can cancel until then.')}
+              </p>
+              <div className="flex justify-end">
+                <button
+                  onClick={handleSend}
+                  disabled={loading || !recipient.trim() || !amountValid || parsedAmount > balance}
+                  className={primaryClass(loading || !recipient.trim() || !amountValid || parsedAmount > balance)}
+                >
+                  {loading ? t('wallet.sending', 'Sending...') : t('wallet.send', 'Send')}
+                </button>
+              </div>
+
+              {pendingTransfers.length > 0 && (
+                <div className={`border-t pt-3 space-y-1 ${isDark ? 'border-white/10' : 'border-gray-100'}`}>
+                  <p className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {t('wallet.pendingTransfers', 'Pending transfers')}
+                  </p>
+                  {pendingTransfers.map(tr => (
+                    <div key={tr.id} className="flex justify-between items-center text-xs">
+                      <span className={`truncate ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+                        {tr.amount} → {tr.counterparty}
+                      </span>
+                      <button
+                        onClick={() => handleCancelTransfer(tr.id)}
+                        className={isDark ? 'text-gray-500 hover:text-red-400' : 'text-gray-400 hover:text-red-500'}
+                      >
+                        {t('wallet.cancel', 'Cancel')}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          {tab === 'gift' && (
+            createdCodes.length > 0 ? (
+              <>
+                <p className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {t('wallet.giftCodesCreated', 'Save these codes now. They won\'t be shown again and can be redeemed after 24 hours.')}
+                </p>
+                <textarea
+                  readOnly
+                  value={createdCodes.join('\n')}
+                  rows={Math.min(createdCodes.length, 8)}
+                  className={`${inputClass} font-mono`}
+                />
+                <div className="flex justify-end">
+                  <button
+                    onClick={() => navigator.clipboard.writeText(createdCodes.join('\n'))}
+                    className={primaryClass(false)}
+                  >
+                    {t('wallet.copyCodes', 'Copy codes')}
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="number"
+                    min={1}
+                    value={amount}
+                    onChange={e => setAmount(e.target.value)}
+                    placeholder={t('wallet.creditsPerCode', 'Credits per code')}
+                    className={`${inputClass} font-mono`}
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={quantity}
+                    onChange={e => setQuantity(e.target.value)}
+                    placeholder={t('wallet.quantity', 'Quantity')}
+                    className={`${inputClass} font-mono`}
+                  />
+                </div>
+                <input
+                  value={note}
+                  onChange={e => setNote(e.target.value)}
+                  maxLength={280}
+                  placeholder={t('wallet.giftNotePlaceholder', 'Note, e.g. event name (optional)')}
+                  className={inputClass}
+                />
+                <div className="flex justify-between items-center">
+                  <span className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {t('wallet.total', 'Total')}: {giftTotal.toLocaleString()}
+                  </span>
+                  <button
+                    onClick={handleCreateCodes}
+                    disabled={loading || giftTotal <= 0 || giftTotal > balance}
+                    className={primaryClass(loading || giftTotal <= 0 || giftTotal > balance)}
+                  >
+                    {loading ? t('wallet.loading', 'Loading...') : t('wallet.createCodes', 'Create codes')}
+                  </button>
+                </div>
+              </>
+            )
+          )}
+
+          {tab === 'redeem' && (
+            <>
+              <input
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                placeholder="XXXX-XXXX-XXXX"
+                className={`${inputClass} font-mono uppercase`}
+              />
+              <div className="flex justify-end">
+                <button
+                  onClick={handleRedeem}
+                  disabled={loading || code.trim().length < 12}
+                  className={primaryClass(loading || code.trim().length < 12)}
+                >
+                  {loading ? t('wallet.loading', 'Loading...') : t('wallet.redeem', 'Redeem')}
+                </button>
+              </div>
+            </>
+          )}
+
+          {message && (
+            <div className={`px-3 py-2 text-xs border ${isDark ? 'bg-green-500/10 border-green-500/20 text-green-400' : 'bg-green-50 border-green-200 text-green-700'}`}>
+              {message}
+            </div>
+          )}
+
+          {error && (
+            <div className={`px-3 py-2 text-xs border ${isDark ? 'bg-red-500/10 border-red-500/20 text-red-400' : 'bg-red-50 border-red-200 text-red-600'}`}>
+              {error}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+
+  return createPortal(modalContent, document.body)
+}
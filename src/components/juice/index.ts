@@ -1,2 +1,3 @@
 export { default as BuyJuiceModal } from './BuyJuiceModal'
 export { default as JuiceBalanceDisplay } from './JuiceBalanceDisplay'
+export { default as SendJuiceModal } from './SendJuiceModal'
@@ -0,0 +1,294 @@
+/**
+ * Recurring Payment Modal
+ *
+ * Set up weekly or monthly support for a project, funded from Pay Credits
+ * or a card subscription (Stripe Embedded Checkout). Existing schedules are
+ * managed from the wallet panel.
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { createPortal } from 'react-dom'
+import { loadStripe } from '@stripe/stripe-js'
+import {
+  EmbeddedCheckoutProvider,
+  EmbeddedCheckout,
+} from '@stripe/react-stripe-js'
+import { useTranslation } from 'react-i18next'
+import { useThemeStore, useAuthStore } from '../../stores'
+
+const API_BASE = import.meta.env.VITE_API_URL || ''
+
+interface RecurringPaymentModalProps {
+  isOpen: boolean
+  onClose: () => void
+  projectId: number
+  projectName?: string
+  chainId: number
+  beneficiaryAddress: string
+  initialAmount?: number
+  memo?: string
+  payCreditsBalance: number
+}
+
+type Step = 'setup' | 'checkout' | 'success'
+type Interval = 'weekly' | 'monthly'
+type FundingSource = 'juice' | 'stripe'
+
+export default function RecurringPaymentModal({
+  isOpen,
+  onClose,
+  projectId,
+  projectName,
+  chainId,
+  beneficiaryAddress,
+  initialAmount,
+  memo,
+  payCreditsBalance,
+}: RecurringPaymentModalProps) {
+  const { theme } = useThemeStore()
+  const { token } = useAuthStore()
+  const { t } = useTranslation()
+  const isDark = theme === 'dark'
+
+  const [step, setStep] = useState<Step>('setup')
+  const [amount, setAmount] = useState('')
+  const [interval, setRecurringInterval] = useState<Interval>('monthly')
+  const [fundingSource, setFundingSource] = useState<FundingSource>('juice')
+  const [clientSecret, setClientSecret] = useState<string | null>(null)
+  const [stripePromise, setStripePromise] = useState<ReturnType<typeof loadStripe> | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  // Reset state when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setStep('setup')
+      setAmount(initialAmount ? String(initialAmount) : '')
+      setRecurringInterval('monthly')
+      setFundingSource('juice')
+      setClientSecret(null)
+      setError(null)
+    }
+  }, [isOpen, initialAmount])
+
+  // Load Stripe only when paying by card
+  useEffect(() => {
+    if (!isOpen || fundingSource !== 'stripe' || stripePromise) return
+
+    fetch(`${API_BASE}/juice/stripe-config`)
+      .then(res => res.json())
+      .then(data => {
+        if (data.success && data.data.publishableKey) {
+          setStripePromise(loadStripe(data.data.publishableKey))
+        } else {
+          setError('Payment system not available')
+        }
+      })
+      .catch(() => {
+        setError('Failed to load payment system')
+      })
+  }, [isOpen, fundingSource, stripePromise])
+
+  const parsedAmount = parseFloat(amount)
+  const amountValid = !isNaN(parsedAmount) && parsedAmount >= 1 && parsedAmount <= 10000
+  const insufficientCredits = fundingSource === 'juice' && amountValid && parsedAmount > payCreditsBalance
+
+  const handleSubmit = useCallback(async () => {
+    if (!token) {
+      setError('Please sign in to set up recurring payments')
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`${API_BASE}/recurring`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          projectId,
+          chainId,
+          beneficiaryAddress,
+          memo: memo || undefined,
+          amount: parsedAmount,
+          interval,
+          fundingSource,
+        }),
+      })
+
+      const data = await res.json()
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to set up recurring payment')
+      }
+
+      if (fundingSource === 'stripe') {
+        setClientSecret(data.data.clientSecret)
+        setStep('checkout')
+      } else {
+        setStep('success')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to set up recurring payment')
+    } finally {
+      setLoading(false)
+    }
+  }, [token, projectId, chainId, beneficiaryAddress, memo, parsedAmount, interval, fundingSource])
+
+  if (!isOpen) return null
+
+  const optionClass = (selected: boolean) => `py-2 px-2 text-sm font-medium transition-all border ${
+    selected
+      ? 'bg-green-500 text-black border-green-500'
+      : isDark
+        ? 'bg-transparent border-white/10 text-gray-300 hover:border-white/30'
+        : 'bg-transparent border-gray-200 text-gray-700 hover:border-gray-400'
+  }`
+
+  const submitDisabled = loading || !amountValid || insufficientCredits || (fundingSource === 'stripe' && !stripePromise)
+
+  const modalContent = (
+    <div className="fixed z-50 inset-0 flex items-center justify-center p-4">
+      <div className="absolute inset-0" onClick={step !== 'checkout' ? onClose : undefined} />
+
+      <div className={`relative w-full max-w-sm border shadow-xl ${
+        isDark ? 'bg-juice-dark border-white/20' : 'bg-white border-gray-200'
+      }`}>
+        {/* Header */}
+        <div className={`px-4 py-3 border-b flex items-center justify-between ${isDark ? 'border-white/10' : 'border-gray-100'}`}>
+          <h2 className={`text-sm font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+            {step === 'success'
+              ? t('recurring.setUp', 'Recurring payment set up')
+              : t('recurring.title', 'Support {{name}} regularly', { name: projectName || `#${projectId}` })}
+          </h2>
+          <button
+            onClick={onClose}
+            className={`p-1 transition-colors ${
+              isDark ? 'text-gray-500 hover:text-white' : 'text-gray-400 hover:text-gray-600'
+            }`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4">
+          {step === 'setup' && (
+            <div className="space-y-4">
+              <div>
+                <label className={`block text-xs mb-1.5 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {t('recurring.amountUsd', 'Amount (USD) per period')}
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={10000}
+                  value={amount}
+                  onChange={e => setAmount(e.target.value)}
+                  placeholder="10"
+                  className={`w-full px-3 py-2 text-sm font-mono ${
+                    isDark
+                      ? 'bg-white/5 border-white/10 text-white placeholder-gray-500'
+                      : 'bg-gray-50 border-gray-200 text-gray-900 placeholder-gray-400'
+                  } border focus:border-juice-orange outline-none`}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <button onClick={() => setRecurringInterval('weekly')} className={optionClass(interval === 'weekly')}>
+                  {t('recurring.weekly', 'Weekly')}
+                </button>
+                <button onClick={() => setRecurringInterval('monthly')} className={optionClass(interval === 'monthly')}>
+                  {t('recurring.monthly', 'Monthly')}
+                </button>
+              </div>
+
+              <div>
+                <label className={`block text-xs mb-1.5 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {t('recurring.fundedBy', 'Funded by')}
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  <button onClick={() => setFundingSource('juice')} className={optionClass(fundingSource === 'juice')}>
+                    {t('wallet.payCredits', 'Pay Credits')}
+                  </button>
+                  <button onClick={() => setFundingSource('stripe')} className={optionClass(fundingSource === 'stripe')}>
+                    {t('recurring.card', 'Card')}
+                  </button>
+                </div>
+                <p className={`text-[10px] mt-1 ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+                  {fundingSource === 'juice'
+                    ? t('recurring.juiceNotice', 'Paid from your Pay Credits balance ({{balance}} available). Pauses after 3 missed payments.', {
+                        balance: payCreditsBalance.toLocaleString(),
+                      })
+                    : t('recurring.cardNotice', 'Your card is charged each period. Pause or cancel anytime from your wallet.')}
+                </p>
+              </div>
+
+              {error && (
+                <div className={`px-3 py-2 text-xs border ${isDark ? 'bg-red-500/10 border-red-500/20 text-red-400' : 'bg-red-50 border-red-200 text-red-600'}`}>
+                  {error}
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handleSubmit}
+                  disabled={submitDisabled}
+                  className={`px-4 py-2 text-sm font-medium transition-all ${
+                    submitDisabled
+                      ? isDark ? 'bg-white/10 text-gray-500 cursor-not-allowed' : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                      : 'bg-green-500 text-black hover:bg-green-600'
+                  }`}
+                >
+                  {loading
+                    ? t('wallet.loading', 'Loading...')
+                    : insufficientCredits
+                      ? t('recurring.insufficientCredits', 'Not enough Pay Credits')
+                      : t('recurring.start', 'Start')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'checkout' && stripePromise && clientSecret && (
+            <div className="min-h-[350px]">
+              <EmbeddedCheckoutProvider
+                stripe={stripePromise}
+                options={{
+                  clientSecret,
+                  onComplete: () => setStep('success'),
+                }}
+              >
+                <EmbeddedCheckout />
+              </EmbeddedCheckoutProvider>
+            </div>
+          )}
+
+          {step === 'success' && (
+            <div className="text-center py-6 space-y-3">
+              <p className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                {t('recurring.successNotice', '${{amount}} {{interval}}. Manage it anytime from your wallet.', {
+                  amount: parsedAmount.toLocaleString(),
+                  interval: interval === 'weekly' ? t('recurring.everyWeek', 'every week') : t('recurring.everyMonth', 'every month'),
+                })}
+              </p>
+              <button
+                onClick={onClose}
+                className="w-full py-2 text-sm font-bold bg-juice-orange text-black hover:bg-juice-orange/90 transition-all"
+              >
+                {t('wallet.done', 'Done')}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+
+  return createPortal(modalContent, document.body)
+}
@@ -10,3 +10,4 @@ export { default as DeployRevnetModal } from './DeployRevnetModal'
 export { default as ManageTiersModal } from './ManageTiersModal'
 export { default as SetSplitsModal } from './SetSplitsModal'
 export { default as SetUriModal } from './SetUriModal'
+export { default as RecurringPaymentModal } from './RecurringPaymentModal'
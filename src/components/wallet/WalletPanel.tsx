@@ -2,11 +2,12 @@ import { useState, useEffect, useCallback, useMemo } from 'react'
 import { createPortal } from 'react-dom'
 import { useTranslation } from 'react-i18next'
 import { useAccount, useConnect, useDisconnect, useSignMessage } from 'wagmi'
-import { createPublicClient, http, formatEther, erc20Abi } from 'viem'
+import { createPublicClient, http, formatEther, parseEther, erc20Abi } from 'viem'
 import { useThemeStore, useAuthStore, useSettingsStore } from '../../stores'
-import { useManagedWallet, useEnsNameResolved, useJuiceBalance } from '../../hooks'
+import { useManagedWallet, useEnsNameResolved, useJuiceBalance, useRecurringPayments, usePayCreditsRate, useSessionPermissions, type RecurringPaymentRun, type SessionPermission } from '../../hooks'
 import { VIEM_CHAINS, USDC_ADDRESSES, RPC_ENDPOINTS, type SupportedChainId } from '../../constants'
-import { CHAINS, ALL_CHAIN_IDS } from '../../constants'
+import { CHAINS, ALL_CHAIN_IDS, JB_CONTRACTS_V5, JB_CONTRACTS_5_1 } from '../../constants'
+import { PURCHASE_CURRENCIES, type PurchaseCurrency } from '../../utils/currency'
 import { hasValidWalletSession, signInWithWallet, clearWalletSession } from '../../services/siwe'
 import { loadStripe } from '@stripe/stripe-js'
 import {
@@ -18,6 +19,7 @@ import { FRUIT_EMOJIS, getEmojiFromAddress } from '../chat/ParticipantAvatars'
 import { getSessionId } from '../../services/session'
 import { getWalletSession } from '../../services/siwe'
 import { AccountLinkingBanner, LinkedAccountsInfo } from './AccountLinkingBanner'
+import SendJuiceModal from '../juice/SendJuiceModal'
 
 export interface AnchorPosition {
   top: number
@@ -1355,6 +1357,414 @@ function PasskeyWalletView({ wallet, onTopUp, onDisconnect }: {
   )
 }
 
+// Recurring payments - expandable list with pause/resume/cancel and per-schedule history
+function RecurringPaymentsSection() {
+  const { theme } = useThemeStore()
+  const { t } = useTranslation()
+  const isDark = theme === 'dark'
+  const { payments, error, pause, resume, cancel, fetchRuns } = useRecurringPayments()
+  const [expanded, setExpanded] = useState(false)
+  const [historyFor, setHistoryFor] = useState<string | null>(null)
+  const [runs, setRuns] = useState<RecurringPaymentRun[]>([])
+
+  const activeCount = payments.filter(p => p.status === 'active').length
+
+  if (payments.length === 0) return null
+
+  const toggleHistory = async (id: string) => {
+    if (historyFor === id) {
+      setHistoryFor(null)
+      return
+    }
+    setHistoryFor(id)
+    setRuns([])
+    try {
+      setRuns(await fetchRuns(id))
+    } catch {
+      setRuns([])
+    }
+  }
+
+  const actionClass = `transition-colors ${isDark ? 'text-gray-500 hover:text-white' : 'text-gray-400 hover:text-gray-900'}`
+
+  return (
+    <div className={`border ${isDark ? 'border-white/10' : 'border-gray-200'}`}>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className={`w-full flex items-center justify-between px-3 py-2 text-xs transition-colors ${
+          isDark ? 'hover:bg-white/5 text-gray-300' : 'hover:bg-gray-50 text-gray-700'
+        }`}
+      >
+        <span>{t('recurring.recurringPayments', 'Recurring payments')}</span>
+        <div className="flex items-center gap-2">
+          <span className={isDark ? 'text-gray-500' : 'text-gray-400'}>{activeCount} {t('recurring.active', 'active')}</span>
+          <svg className={`w-3 h-3 transition-transform ${expanded ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </div>
+      </button>
+
+      {expanded && (
+        <div className={`px-3 pb-3 space-y-2 border-t ${isDark ? 'border-white/10' : 'border-gray-100'}`}>
+          {error && <p className="text-[10px] text-red-400 mt-2">{error}</p>}
+
+          {payments.map(p => (
+            <div key={p.id} className="mt-2 text-xs space-y-1">
+              <div className="flex justify-between items-center">
+                <span className={isDark ? 'text-white' : 'text-gray-900'}>
+                  ${p.amount.toLocaleString()} {p.interval === 'weekly' ? t('recurring.perWeek', '/ week') : t('recurring.perMonth', '/ month')}
+                  {' → '}#{p.projectId}
+                </span>
+                <span className={
+                  p.status === 'active' ? 'text-green-500'
+                    : p.status === 'paused' ? 'text-yellow-500'
+                    : isDark ? 'text-gray-600' : 'text-gray-400'
+                }>
+                  {p.status}
+                </span>
+              </div>
+              <div className={`flex justify-between items-center text-[10px] ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+                <span>
+                  {p.fundingSource === 'juice' ? t('wallet.payCredits', 'Pay Credits') : t('recurring.card', 'Card')}
+                  {p.status === 'active' && p.nextRunAt && ` · ${t('recurring.next', 'next')} ${new Date(p.nextRunAt).toLocaleDateString()}`}
+                </span>
+                <span className="flex gap-2">
+                  <button onClick={() => toggleHistory(p.id)} className={actionClass}>
+                    {t('recurring.history', 'History')}
+                  </button>
+                  {p.status === 'active' && (
+                    <button onClick={() => pause(p.id)} className={actionClass}>{t('recurring.pause', 'Pause')}</button>
+                  )}
+                  {p.status === 'paused' && (
+                    <button onClick={() => resume(p.id)} className={actionClass}>{t('recurring.resume', 'Resume')}</button>
+                  )}
+                  {p.status !== 'cancelled' && (
+                    <button
+                      onClick={() => {
+                        if (confirm(t('recurring.cancelConfirm', 'Cancel this recurring payment?'))) {
+                          cancel(p.id)
+                        }
+                      }}
+                      className={`transition-colors ${isDark ? 'text-gray-500 hover:text-red-400' : 'text-gray-400 hover:text-red-500'}`}
+                    >
+                      {t('wallet.cancel', 'Cancel')}
+                    </button>
+                  )}
+                </span>
+              </div>
+              {p.pauseReason && p.status === 'paused' && (
+                <p className="text-[10px] text-yellow-500">{p.pauseReason}</p>
+              )}
+              {historyFor === p.id && (
+                <div className={`pl-2 border-l space-y-0.5 text-[10px] ${isDark ? 'border-white/10 text-gray-400' : 'border-gray-200 text-gray-500'}`}>
+                  {runs.length === 0 ? (
+                    <p>{t('recurring.noPaymentsYet', 'No payments yet')}</p>
+                  ) : runs.map(run => (
+                    <div key={run.id} className="flex justify-between gap-2">
+                      <span>{new Date(run.createdAt).toLocaleDateString()} · ${run.amount.toLocaleString()}</span>
+                      <span className={run.status === 'failed' ? 'text-red-400 truncate' : 'truncate'} title={run.errorMessage ?? undefined}>
+                        {run.status === 'failed' ? (run.errorMessage || 'failed') : (run.paymentStatus || run.status)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Session permissions - scope what the backend may execute from the managed account
+const JB_PAY_SELECTOR = '0xfef43257' // JBMultiTerminal.pay(uint256,address,uint256,address,uint256,string,bytes)
+const JB_PAY_CALLS = [JB_CONTRACTS_V5.JBMultiTerminal, JB_CONTRACTS_5_1.JBMultiTerminal].map(target => ({
+  target: target.toLowerCase(),
+  selector: JB_PAY_SELECTOR,
+}))
+const PERMISSION_DURATIONS = [1, 7, 30, 90]
+
+function describeAllowedCall(call: SessionPermission['allowedCalls'][number]): string {
+  const isTerminal = JB_PAY_CALLS.some(c => c.target === call.target.toLowerCase())
+  if (isTerminal && call.selector === JB_PAY_SELECTOR) return 'JBMultiTerminal.pay'
+  const target = isTerminal ? 'JBMultiTerminal' : shortenAddress(call.target, 4)
+  return call.selector ? `${target} · ${call.selector}` : `${target} · any function`
+}
+
+function SessionPermissionsSection() {
+  const { theme } = useThemeStore()
+  const { t } = useTranslation()
+  const isDark = theme === 'dark'
+  const { permissions, enforced, error, create, revoke } = useSessionPermissions()
+  const [expanded, setExpanded] = useState(false)
+  const [adding, setAdding] = useState(false)
+  const [scope, setScope] = useState<'juicebox' | 'custom'>('juicebox')
+  const [label, setLabel] = useState('')
+  const [target, setTarget] = useState('')
+  const [signature, setSignature] = useState('')
+  const [dailyLimitEth, setDailyLimitEth] = useState('0.1')
+  const [startsAt, setStartsAt] = useState('')
+  const [durationDays, setDurationDays] = useState(30)
+  const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const now = Date.now()
+  const activeCount = permissions.filter(p => p.active).length
+
+  const getStatus = (p: SessionPermission): string => {
+    if (p.revokedAt) return t('permissions.revoked', 'revoked')
+    if (new Date(p.expiresAt).getTime() <= now) return t('permissions.expired', 'expired')
+    if (new Date(p.startsAt).getTime() > now) return t('permissions.scheduled', 'scheduled')
+    return t('permissions.active', 'active')
+  }
+
+  const resetForm = () => {
+    setAdding(false)
+    setScope('juicebox')
+    setLabel('')
+    setTarget('')
+    setSignature('')
+    setDailyLimitEth('0.1')
+    setStartsAt('')
+    setDurationDays(30)
+    setFormError(null)
+  }
+
+  const handleSave = async () => {
+    setFormError(null)
+
+    let dailyValueLimitWei: bigint
+    try {
+      dailyValueLimitWei = parseEther(dailyLimitEth || '0')
+    } catch {
+      setFormError(t('permissions.invalidLimit', 'Enter a valid ETH amount'))
+      return
+    }
+
+    if (scope === 'custom' && !/^0x[a-fA-F0-9]{40}$/.test(target.trim())) {
+      setFormError(t('permissions.invalidTarget', 'Enter a valid contract address'))
+      return
+    }
+
+    const start = startsAt ? new Date(startsAt) : new Date()
+    const expires = new Date(start.getTime() + durationDays * 24 * 60 * 60 * 1000)
+
+    setSaving(true)
+    try {
+      await create({
+        label: label.trim() || (scope === 'juicebox'
+          ? t('permissions.juiceboxPayments', 'Juicebox payments')
+          : shortenAddress(target.trim(), 4)),
+        allowedCalls: scope === 'juicebox'
+          ? JB_PAY_CALLS
+          : [{ target: target.trim(), selector: signature.trim() || null }],
+        dailyValueLimitWei: dailyValueLimitWei.toString(),
+        startsAt: startsAt ? start.toISOString() : undefined,
+        expiresAt: expires.toISOString(),
+      })
+      resetForm()
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to create permission')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = `w-full px-2 py-1.5 text-xs ${
+    isDark
+      ? 'bg-white/5 border-white/10 text-white placeholder-gray-500'
+      : 'bg-gray-50 border-gray-200 text-gray-900 placeholder-gray-400'
+  } border focus:border-juice-orange outline-none`
+
+  const optionClass = (selected: boolean) => `py-1.5 px-2 text-xs transition-all border ${
+    selected
+      ? 'bg-green-500 text-black border-green-500'
+      : isDark
+        ? 'bg-transparent border-white/10 text-gray-300 hover:border-white/30'
+        : 'bg-transparent border-gray-200 text-gray-700 hover:border-gray-400'
+  }`
+
+  const mutedClass = isDark ? 'text-gray-500' : 'text-gray-400'
+
+  return (
+    <div className={`border ${isDark ? 'border-white/10' : 'border-gray-200'}`}>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className={`w-full flex items-center justify-between px-3 py-2 text-xs transition-colors ${
+          isDark ? 'hover:bg-white/5 text-gray-300' : 'hover:bg-gray-50 text-gray-700'
+        }`}
+      >
+        <span>{t('permissions.title', 'Session permissions')}</span>
+        <div className="flex items-center gap-2">
+          <span className={mutedClass}>
+            {enforced
+              ? `${activeCount} ${t('permissions.active', 'active')}`
+              : t('permissions.unrestricted', 'unrestricted')}
+          </span>
+          <svg className={`w-3 h-3 transition-transform ${expanded ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </div>
+      </button>
+
+      {expanded && (
+        <div className={`px-3 pb-3 space-y-2 border-t ${isDark ? 'border-white/10' : 'border-gray-100'}`}>
+          <p className={`mt-2 text-[10px] ${mutedClass}`}>
+            {enforced
+              ? t('permissions.enforcedNotice', 'Only calls allowed by an active permission can run from this account.')
+              : t('permissions.unrestrictedNotice', 'Juicy can run any transaction from this account. Add a permission to limit it to specific contracts, a daily ETH ceiling and an expiry.')}
+          </p>
+
+          {error && <p className="text-[10px] text-red-400">{error}</p>}
+
+          {permissions.map(p => (
+            <div key={p.id} className="text-xs space-y-0.5">
+              <div className="flex justify-between items-center">
+                <span className={isDark ? 'text-white' : 'text-gray-900'}>{p.label}</span>
+                <span className={p.active ? 'text-green-500' : mutedClass}>{getStatus(p)}</span>
+              </div>
+              <div className={`text-[10px] ${mutedClass}`}>
+                {p.allowedCalls.map(describeAllowedCall).filter((d, i, all) => all.indexOf(d) === i).join(', ')}
+              </div>
+              <div className={`text-[10px] ${mutedClass}`}>
+                {p.dailyTokenLimits.length > 0
+                  ? p.dailyTokenLimits.map(l => `${shortenAddress(l.token, 4)} ${l.spentToday} / ${l.dailyLimit}`).join(', ')
+                  : t('permissions.noTokenLimits', 'No token transfers')}
+              </div>
+              <div className={`flex justify-between items-center text-[10px] ${mutedClass}`}>
+                <span>
+                  {formatEther(BigInt(p.spentTodayWei))} / {formatEther(BigInt(p.dailyValueLimitWei))} ETH {t('permissions.perDay', 'per day')}
+                  {' · '}
+                  {p.chainIds ? p.chainIds.map(id => CHAINS[id]?.shortName ?? id).join(', ') : t('permissions.allChains', 'all chains')}
+                  {' · '}
+                  {new Date(p.startsAt).getTime() > now
+                    ? `${t('permissions.starts', 'starts')} ${new Date(p.startsAt).toLocaleDateString()}`
+                    : `${t('permissions.until', 'until')} ${new Date(p.expiresAt).toLocaleDateString()}`}
+                </span>
+                {!p.revokedAt && new Date(p.expiresAt).getTime() > now && (
+                  <button
+                    onClick={() => {
+                      if (confirm(t('permissions.revokeConfirm', 'Revoke this permission?'))) {
+                        revoke(p.id)
+                      }
+                    }}
+                    className={`transition-colors ${isDark ? 'text-gray-500 hover:text-red-400' : 'text-gray-400 hover:text-red-500'}`}
+                  >
+                    {t('permissions.revoke', 'Revoke')}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {adding ? (
+            <div className={`pt-2 space-y-2 border-t ${isDark ? 'border-white/10' : 'border-gray-100'}`}>
+              <div className="grid grid-cols-2 gap-2">
+                <button onClick={() => setScope('juicebox')} className={optionClass(scope === 'juicebox')}>
+                  {t('permissions.juiceboxPaymentsOnly', 'Juicebox payments only')}
+                </button>
+                <button onClick={() => setScope('custom')} className={optionClass(scope === 'custom')}>
+                  {t('permissions.customContract', 'Custom contract')}
+                </button>
+              </div>
+
+              {scope === 'custom' && (
+                <>
+                  <input
+                    value={target}
+                    onChange={e => setTarget(e.target.value)}
+                    placeholder={t('permissions.contractAddress', 'Contract address (0x...)')}
+                    className={`${inputClass} font-mono`}
+                  />
+                  <input
+                    value={signature}
+                    onChange={e => setSignature(e.target.value)}
+                    placeholder={t('permissions.functionSignature', 'Function, e.g. approve(address,uint256) - blank for any')}
+                    className={`${inputClass} font-mono`}
+                  />
+                </>
+              )}
+
+              <input
+                value={label}
+                onChange={e => setLabel(e.target.value)}
+                placeholder={t('permissions.labelPlaceholder', 'Label (optional)')}
+                maxLength={100}
+                className={inputClass}
+              />
+
+              <div className="grid grid-cols-2 gap-2">
+                <label className={`text-[10px] ${mutedClass}`}>
+                  {t('permissions.dailyLimit', 'Daily ETH limit')}
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={dailyLimitEth}
+                    onChange={e => setDailyLimitEth(e.target.value)}
+                    className={`${inputClass} mt-1 font-mono`}
+                  />
+                </label>
+                <label className={`text-[10px] ${mutedClass}`}>
+                  {t('permissions.duration', 'Valid for')}
+                  <select
+                    value={durationDays}
+                    onChange={e => setDurationDays(Number(e.target.value))}
+                    className={`${inputClass} mt-1`}
+                  >
+                    {PERMISSION_DURATIONS.map(days => (
+                      <option key={days} value={days}>
+                        {t('permissions.days', '{{count}} days', { count: days })}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <label className={`block text-[10px] ${mutedClass}`}>
+                {t('permissions.startsAt', 'Starts (leave blank for now)')}
+                <input
+                  type="datetime-local"
+                  value={startsAt}
+                  onChange={e => setStartsAt(e.target.value)}
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+
+              {formError && <p className="text-[10px] text-red-400">{formError}</p>}
+
+              <div className="flex justify-end gap-3">
+                <button onClick={resetForm} className={`text-xs transition-colors ${isDark ? 'text-gray-500 hover:text-white' : 'text-gray-400 hover:text-gray-900'}`}>
+                  {t('wallet.cancel', 'Cancel')}
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className={`px-3 py-1 text-xs font-medium transition-colors ${
+                    saving
+                      ? isDark ? 'bg-white/10 text-gray-500 cursor-not-allowed' : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                      : 'bg-green-500 text-black hover:bg-green-600'
+                  }`}
+                >
+                  {saving ? t('wallet.loading', 'Loading...') : t('permissions.grant', 'Grant')}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setAdding(true)}
+              className={`text-xs transition-colors ${isDark ? 'text-green-400 hover:text-green-300' : 'text-green-600 hover:text-green-700'}`}
+            >
+              + {t('permissions.add', 'Add permission')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
 // Managed account view
 function ManagedAccountView({ onDisconnect, onTopUp, onSettings, onSetJuicyId }: { onDisconnect: () => void; onTopUp: () => void; onSettings: () => void; onSetJuicyId: () => void }) {
   const { theme } = useThemeStore()
@@ -1362,7 +1772,8 @@ function ManagedAccountView({ onDisconnect, onTopUp, onSettings, onSetJuicyId }:
   const isDark = theme === 'dark'
   const { user, token, passkeys, loadPasskeys, registerPasskey, deletePasskey, isPasskeyAvailable, isLoading } = useAuthStore()
   const { address, balances, loading, error: walletError, refetch: refetchWallet } = useManagedWallet()
-  const { balance: juiceBalance, loading: juiceLoading } = useJuiceBalance()
+  const { balance: juiceBalance, loading: juiceLoading, refetch: refetchJuice } = useJuiceBalance()
+  const [showSendJuice, setShowSendJuice] = useState(false)
   const [copied, setCopied] = useState(false)
   const [showPasskeys, setShowPasskeys] = useState(false)
   const [passkeyError, setPasskeyError] = useState<string | null>(null)
@@ -1556,8 +1967,16 @@ function ManagedAccountView({ onDisconnect, onTopUp, onSettings, onSetJuicyId }:
             {/* Pay Credits - fiat payment balance */}
             <div className="px-3 py-2 flex justify-between items-center text-xs">
               <span className={isDark ? 'text-gray-400' : 'text-gray-500'}>{t('wallet.payCredits', 'Pay Credits')}</span>
-              <span className={isDark ? 'text-white' : 'text-gray-900'}>
-                {juiceLoading ? '...' : (juiceBalance?.balance ?? 0).toLocaleString()}
+              <span className="flex items-center gap-2">
+                <button
+                  onClick={() => setShowSendJuice(true)}
+                  className={`transition-colors ${isDark ? 'text-gray-500 hover:text-white' : 'text-gray-400 hover:text-gray-900'}`}
+                >
+                  {t('wallet.sendOrRedeem', 'Send / Redeem')}
+                </button>
+                <span className={isDark ? 'text-white' : 'text-gray-900'}>
+                  {juiceLoading ? '...' : (juiceBalance?.balance ?? 0).toLocaleString()}
+                </span>
               </span>
             </div>
             {/* USDC - aggregate across all chains */}
@@ -1584,6 +2003,10 @@ function ManagedAccountView({ onDisconnect, onTopUp, onSettings, onSetJuicyId }:
         )}
       </div>
 
+      <RecurringPaymentsSection />
+
+      <SessionPermissionsSection />
+
       {/* Bottom row: Sign Out + Top Up */}
       <div className="flex justify-end items-center gap-3">
         <button
@@ -1605,6 +2028,13 @@ function ManagedAccountView({ onDisconnect, onTopUp, onSettings, onSetJuicyId }:
           {t('wallet.topUp', 'Top Up')}
         </button>
       </div>
+
+      <SendJuiceModal
+        isOpen={showSendJuice}
+        onClose={() => setShowSendJuice(false)}
+        onSuccess={refetchJuice}
+        balance={juiceBalance?.balance ?? 0}
+      />
     </div>
   )
 }
@@ -2713,11 +3143,11 @@ function SettingsView({ onBack }: { onBack: () => void }) {
 // Buy Pay Credits view - inline with back button
 const PRESET_AMOUNTS = [10, 25, 50, 100]
 const API_BASE = import.meta.env.VITE_API_URL || ''
-const PAY_CREDITS_RATE = 1.05 // Flat rate: $1.05 per Pay Credit
 
 function BuyJuiceView({ onBack, onSuccess }: { onBack: () => void; onSuccess?: () => void }) {
   const { theme } = useThemeStore()
   const { token } = useAuthStore()
+  const { t } = useTranslation()
   const isDark = theme === 'dark'
 
   const [step, setStep] = useState<'amount' | 'checkout' | 'success' | 'error'>('amount')
@@ -2727,6 +3157,8 @@ function BuyJuiceView({ onBack, onSuccess }: { onBack: () => void; onSuccess?: (
   const [stripePromise, setStripePromise] = useState<ReturnType<typeof loadStripe> | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
+  const { currency, setCurrency, quote, error: rateError, totalFor, format } = usePayCreditsRate()
+  const total = totalFor(amount)
 
   // Fetch Stripe publishable key on mount
   useEffect(() => {
@@ -2766,7 +3198,7 @@ function BuyJuiceView({ onBack, onSuccess }: { onBack: () => void; onSuccess?: (
     }
 
     if (amount < 1 || amount > 10000) {
-      setError('Amount must be between $1 and $10,000')
+      setError('Amount must be between 1 and 10,000 credits')
       return
     }
 
@@ -2780,7 +3212,7 @@ function BuyJuiceView({ onBack, onSuccess }: { onBack: () => void; onSuccess?: (
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
         },
-        body: JSON.stringify({ amount }),
+        body: JSON.stringify({ amount, currency }),
       })
 
       const data = await res.json()
@@ -2796,7 +3228,7 @@ function BuyJuiceView({ onBack, onSuccess }: { onBack: () => void; onSuccess?: (
     } finally {
       setLoading(false)
     }
-  }, [amount, token])
+  }, [amount, currency, token])
 
   const handleCheckoutComplete = useCallback(() => {
     setStep('success')
@@ -2816,7 +3248,7 @@ function BuyJuiceView({ onBack, onSuccess }: { onBack: () => void; onSuccess?: (
           <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
           </svg>
-          Back
+          {t('wallet.back', 'Back')}
         </button>
       )}
 
@@ -2827,12 +3259,31 @@ function BuyJuiceView({ onBack, onSuccess }: { onBack: () => void; onSuccess?: (
           <div className={`px-3 py-2 border ${isDark ? 'border-white/10 bg-white/5' : 'border-gray-100 bg-gray-50'}`}>
             <div className="flex justify-between items-center">
               <span className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
-                Rate
-              </span>
-              <span className={`text-xs font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                $1.05 per Pay Credit
+                {t('wallet.rate', 'Rate')}
               </span>
+              <div className="flex items-center gap-2">
+                <span className={`text-xs font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                  {quote ? format(quote.localRate) : '…'} {t('wallet.perPayCredit', 'per Pay Credit')}
+                </span>
+                <select
+                  value={currency}
+                  onChange={e => setCurrency(e.target.value as PurchaseCurrency)}
+                  aria-label={t('wallet.currency', 'Currency')}
+                  className={`text-xs px-1 py-0.5 border outline-none ${
+                    isDark ? 'bg-juice-dark border-white/10 text-gray-300' : 'bg-white border-gray-200 text-gray-700'
+                  }`}
+                >
+                  {PURCHASE_CURRENCIES.map(code => (
+                    <option key={code} value={code}>{code}</option>
+                  ))}
+                </select>
+              </div>
             </div>
+            {rateError && (
+              <p className={`text-[10px] mt-1 ${isDark ? 'text-red-400' : 'text-red-600'}`}>
+                {t('wallet.rateUnavailable', 'Prices in {{currency}} are unavailable right now. Try USD.', { currency })}
+              </p>
+            )}
           </div>
 
           {/* Preset credit amounts */}
@@ -2857,7 +3308,7 @@ function BuyJuiceView({ onBack, onSuccess }: { onBack: () => void; onSuccess?: (
           {/* Custom credit amount */}
           <div>
             <label className={`block text-xs mb-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
-              Or enter custom amount
+              {t('wallet.orEnterCustomAmount', 'Or enter custom amount')}
             </label>
             <input
               type="number"
@@ -2866,7 +3317,7 @@ function BuyJuiceView({ onBack, onSuccess }: { onBack: () => void; onSuccess?: (
               step={1}
               value={customAmount}
               onChange={handleCustomAmountChange}
-              placeholder="Credits"
+              placeholder={t('wallet.credits', 'Credits')}
               className={`w-full px-3 py-2 text-xs font-mono ${
                 isDark
                   ? 'bg-white/5 border-white/10 text-white placeholder-gray-500'
@@ -2874,24 +3325,29 @@ function BuyJuiceView({ onBack, onSuccess }: { onBack: () => void; onSuccess?: (
               } border focus:border-juice-orange outline-none`}
             />
             <p className={`text-[10px] mt-1 ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
-              1 - 10,000 credits per purchase
+              {t('wallet.creditsPerPurchase', '1 - 10,000 credits per purchase')}
             </p>
           </div>
 
           {/* Summary */}
           <div className={`px-3 py-2 border ${isDark ? 'border-white/10 bg-white/5' : 'border-gray-100 bg-gray-50'}`}>
             <div className="flex justify-between items-center mb-1">
-              <span className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>You'll receive</span>
+              <span className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>{t('wallet.youllReceive', "You'll receive")}</span>
               <span className={`text-sm font-bold ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                {amount.toLocaleString()} Pay Credits
+                {amount.toLocaleString()} {t('wallet.payCredits', 'Pay Credits')}
               </span>
             </div>
             <div className="flex justify-between items-center">
-              <span className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>Total cost</span>
+              <span className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>{t('wallet.totalCost', 'Total cost')}</span>
               <span className={`text-sm font-bold ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                ${(amount * PAY_CREDITS_RATE).toFixed(2)}
+                {total !== null ? format(total) : '…'}
               </span>
             </div>
+            {currency !== 'USD' && (
+              <p className={`text-[10px] mt-1 ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+                {t('wallet.chargedInCurrency', 'Charged in {{currency}} at today\'s exchange rate.', { currency })}
+              </p>
+            )}
           </div>
 
           {error && (
@@ -2903,9 +3359,9 @@ function BuyJuiceView({ onBack, onSuccess }: { onBack: () => void; onSuccess?: (
           <div className="flex justify-end">
             <button
               onClick={startCheckout}
-              disabled={loading || !stripePromise || amount < 1}
+              disabled={loading || !stripePromise || amount < 1 || !quote}
               className={`px-4 py-2 text-xs font-bold transition-colors ${
-                loading || !stripePromise || amount < 1
+                loading || !stripePromise || amount < 1 || !quote
                   ? isDark ? 'bg-white/10 text-gray-500 cursor-not-allowed' : 'bg-gray-100 text-gray-400 cursor-not-allowed'
                   : 'bg-green-500 text-white hover:bg-green-600'
               }`}
@@ -2915,7 +3371,7 @@ function BuyJuiceView({ onBack, onSuccess }: { onBack: () => void; onSuccess?: (
                   <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin" />
                 </span>
               ) : (
-                'Buy'
+                t('wallet.buy', 'Buy')
               )}
             </button>
           </div>
@@ -2947,17 +3403,17 @@ function BuyJuiceView({ onBack, onSuccess }: { onBack: () => void; onSuccess?: (
           </div>
           <div>
             <p className={`text-xs font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
-              {amount} Pay Credits purchased
+              {amount} {t('wallet.payCredits', 'Pay Credits')} {t('wallet.purchased', 'purchased')}
             </p>
             <p className={`text-[10px] mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
-              Credits available once payment is verified.
+              {t('wallet.creditsAvailableAfterVerification', 'Credits available once payment is verified.')}
             </p>
           </div>
           <button
             onClick={onBack}
             className="w-full py-2 text-xs font-bold bg-green-500 text-white hover:bg-green-600 transition-all"
           >
-            Done
+            {t('wallet.done', 'Done')}
           </button>
         </div>
       )}
@@ -2972,17 +3428,17 @@ function BuyJuiceView({ onBack, onSuccess }: { onBack: () => void; onSuccess?: (
           </div>
           <div>
             <p className={`text-xs font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
-              Payment Failed
+              {t('wallet.paymentFailed', 'Payment Failed')}
             </p>
             <p className={`text-[10px] mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
-              {error || 'Something went wrong. Please try again.'}
+              {error || t('wallet.paymentFailedDescription', 'Something went wrong. Please try again.')}
             </p>
           </div>
           <button
             onClick={() => setStep('amount')}
             className="w-full py-2 text-xs font-bold bg-green-500 text-white hover:bg-green-600 transition-all"
           >
-            Try Again
+            {t('wallet.tryAgain', 'Try Again')}
           </button>
         </div>
       )}
@@ -6,6 +6,9 @@ export { usePaymentForm, type UsePaymentFormOptions, type UsePaymentFormReturn }
 export { useManagedWallet, useIsManagedMode, executeManagedTransaction, type ManagedWalletData, type ManagedWalletBalance } from './useManagedWallet'
 export { useEnsNameResolved } from './useEnsName'
 export { useJuiceBalance, type JuiceBalance } from './useJuiceBalance'
+export { useRecurringPayments, type RecurringPayment, type RecurringPaymentRun } from './useRecurringPayments'
+export { usePayCreditsRate, type PayCreditsRate } from './usePayCreditsRate'
+export { useSessionPermissions, type SessionPermission, type CreateSessionPermissionParams } from './useSessionPermissions'
 export { useIsMobile } from './useIsMobile'
 export { useAccountLinking, type AccountLinkingState, type LinkedAddress } from './useAccountLinking'
 export {
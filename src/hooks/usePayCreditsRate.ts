@@ -0,0 +1,97 @@
+/**
+ * Hook for pricing Pay Credits in the user's local currency
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useAuthStore } from '../stores'
+import {
+  getDefaultCurrency,
+  getPurchaseTotal,
+  formatCurrency,
+  isPurchaseCurrency,
+  type PurchaseCurrency,
+} from '../utils/currency'
+
+const API_BASE = import.meta.env.VITE_API_URL || ''
+const CURRENCY_STORAGE_KEY = 'juicy-purchase-currency'
+
+export interface PayCreditsRate {
+  rate: number // USD per credit
+  currency: PurchaseCurrency
+  fxRate: number // Units of currency per 1 USD
+  localRate: number // Currency per credit
+}
+
+function getInitialCurrency(fallbackLocale: string): PurchaseCurrency {
+  const stored = localStorage.getItem(CURRENCY_STORAGE_KEY)
+  if (stored && isPurchaseCurrency(stored)) return stored
+  return getDefaultCurrency(navigator.language || fallbackLocale)
+}
+
+export function usePayCreditsRate(enabled = true) {
+  const { token } = useAuthStore()
+  const { i18n } = useTranslation()
+  const [currency, setCurrencyState] = useState<PurchaseCurrency>(() => getInitialCurrency(i18n.language))
+  const [quote, setQuote] = useState<PayCreditsRate | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const setCurrency = useCallback((next: PurchaseCurrency) => {
+    localStorage.setItem(CURRENCY_STORAGE_KEY, next)
+    setCurrencyState(next)
+  }, [])
+
+  useEffect(() => {
+    if (!enabled || !token) return
+
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    fetch(`${API_BASE}/juice/rate?currency=${currency}`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    })
+      .then(res => res.json())
+      .then(data => {
+        if (cancelled) return
+        if (!data.success) {
+          throw new Error(data.error || 'Failed to fetch rate')
+        }
+        setQuote(data.data)
+      })
+      .catch(err => {
+        if (cancelled) return
+        setError(err instanceof Error ? err.message : 'Failed to fetch rate')
+        setQuote(null)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, token, currency])
+
+  // Only trust the quote once it matches the selected currency
+  const current = quote?.currency === currency ? quote : null
+
+  const format = useCallback(
+    (amount: number) => formatCurrency(amount, currency, i18n.language),
+    [currency, i18n.language]
+  )
+
+  return {
+    currency,
+    setCurrency,
+    quote: current,
+    loading,
+    error,
+    // null until the rate for the selected currency has loaded
+    totalFor: (credits: number) => current ? getPurchaseTotal(credits, current.rate, current.fxRate) : null,
+    format,
+  }
+}
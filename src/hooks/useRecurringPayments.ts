@@ -0,0 +1,107 @@
+/**
+ * Hook for listing and managing the user's recurring project payments
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuthStore } from '../stores'
+
+const API_BASE = import.meta.env.VITE_API_URL || ''
+
+export interface RecurringPayment {
+  id: string
+  projectId: number
+  chainId: number
+  beneficiaryAddress: string
+  memo: string | null
+  amount: number
+  interval: 'weekly' | 'monthly'
+  fundingSource: 'juice' | 'stripe'
+  status: 'incomplete' | 'active' | 'paused' | 'cancelled'
+  pauseReason: string | null
+  nextRunAt: string | null
+  lastRunAt: string | null
+  createdAt: string
+}
+
+export interface RecurringPaymentRun {
+  id: string
+  amount: number
+  status: 'queued' | 'failed'
+  paymentStatus: string | null
+  txHash: string | null
+  errorMessage: string | null
+  createdAt: string
+}
+
+export function useRecurringPayments() {
+  const { token, isAuthenticated } = useAuthStore()
+  const [payments, setPayments] = useState<RecurringPayment[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const request = useCallback(async (path: string, init?: RequestInit) => {
+    const res = await fetch(`${API_BASE}/recurring${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    })
+
+    const data = await res.json()
+
+    if (!data.success) {
+      throw new Error(data.error || 'Request failed')
+    }
+
+    return data.data
+  }, [token])
+
+  const fetchPayments = useCallback(async () => {
+    if (!isAuthenticated() || !token) {
+      setPayments([])
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      setPayments(await request(''))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch recurring payments')
+    } finally {
+      setLoading(false)
+    }
+  }, [token, isAuthenticated, request])
+
+  useEffect(() => {
+    fetchPayments()
+  }, [fetchPayments])
+
+  const runAction = useCallback(async (path: string, method: 'POST' | 'DELETE') => {
+    setError(null)
+    try {
+      await request(path, { method })
+      await fetchPayments()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed')
+    }
+  }, [request, fetchPayments])
+
+  const fetchRuns = useCallback(
+    (id: string): Promise<RecurringPaymentRun[]> => request(`/${id}/runs`),
+    [request]
+  )
+
+  return {
+    payments,
+    loading,
+    error,
+    refetch: fetchPayments,
+    pause: (id: string) => runAction(`/${id}/pause`, 'POST'),
+    resume: (id: string) => runAction(`/${id}/resume`, 'POST'),
+    cancel: (id: string) => runAction(`/${id}`, 'DELETE'),
+    fetchRuns,
+  }
+}
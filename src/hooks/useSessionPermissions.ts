@@ -0,0 +1,110 @@
+/**
+ * Hook for listing and managing smart account session permissions
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuthStore } from '../stores'
+
+const API_BASE = import.meta.env.VITE_API_URL || ''
+
+export interface SessionPermission {
+  id: string
+  label: string
+  chainIds: number[] | null
+  allowedCalls: { target: string; selector: string | null }[]
+  dailyValueLimitWei: string
+  spentTodayWei: string
+  // ERC-20 moves (transfer, approve, terminal pay) are refused without a limit for the token
+  dailyTokenLimits: { token: string; dailyLimit: string; spentToday: string }[]
+  startsAt: string
+  expiresAt: string
+  revokedAt: string | null
+  active: boolean
+  createdAt: string
+}
+
+export interface CreateSessionPermissionParams {
+  label: string
+  chainIds?: number[]
+  allowedCalls: { target: string; selector?: string | null }[]
+  dailyValueLimitWei: string
+  dailyTokenLimits?: { token: string; dailyLimit: string }[]
+  startsAt?: string
+  expiresAt: string
+}
+
+export function useSessionPermissions() {
+  const { token, isAuthenticated } = useAuthStore()
+  const [permissions, setPermissions] = useState<SessionPermission[]>([])
+  const [enforced, setEnforced] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const request = useCallback(async (path: string, init?: RequestInit) => {
+    const res = await fetch(`${API_BASE}/wallet/permissions${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    })
+
+    const data = await res.json()
+
+    if (!data.success) {
+      throw new Error(data.error || 'Request failed')
+    }
+
+    return data.data
+  }, [token])
+
+  const fetchPermissions = useCallback(async () => {
+    if (!isAuthenticated() || !token) {
+      setPermissions([])
+      setEnforced(false)
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const data = await request('')
+      setPermissions(data.permissions)
+      setEnforced(data.enforced)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch permissions')
+    } finally {
+      setLoading(false)
+    }
+  }, [token, isAuthenticated, request])
+
+  useEffect(() => {
+    fetchPermissions()
+  }, [fetchPermissions])
+
+  const create = useCallback(async (params: CreateSessionPermissionParams) => {
+    await request('', { method: 'POST', body: JSON.stringify(params) })
+    await fetchPermissions()
+  }, [request, fetchPermissions])
+
+  const revoke = useCallback(async (id: string) => {
+    setError(null)
+    try {
+      await request(`/${id}`, { method: 'DELETE' })
+      await fetchPermissions()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke permission')
+    }
+  }, [request, fetchPermissions])
+
+  return {
+    permissions,
+    enforced,
+    loading,
+    error,
+    refetch: fetchPermissions,
+    create,
+    revoke,
+  }
+}
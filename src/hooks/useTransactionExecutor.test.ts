@@ -13,6 +13,9 @@ vi.mock('../stores', () => ({
   useAuthStore: vi.fn(() => ({
     token: mockAuthToken,
   })),
+  useChatStore: {
+    getState: () => ({ activeChatId: null }),
+  },
 }))
 
 // Mock wagmi
@@ -4,7 +4,7 @@ import { getWalletClient } from 'wagmi/actions'
 import { createPublicClient, http, parseEther, parseUnits, encodeFunctionData, encodeAbiParameters, erc20Abi, keccak256, toBytes, concat, type Hex, type Address, type Chain } from 'viem'
 import { ethers } from 'ethers'
 import { mainnet, optimism, base, arbitrum } from 'viem/chains'
-import { useTransactionStore, useAuthStore } from '../stores'
+import { useTransactionStore, useAuthStore, useChatStore } from '../stores'
 import { wagmiConfig } from '../config/wagmi'
 import { USDC_ADDRESSES, type SupportedChainId } from '../constants'
 import { getPaymentTerminal } from '../utils'
@@ -505,6 +505,7 @@ export function useTransactionExecutor() {
     let backendTxId: string | null = null
     try {
       const backendTx = await createTransactionRecord({
+        chatId: useChatStore.getState().activeChatId ?? undefined,
         chainId,
         fromAddress: currentAddress,
         toAddress: terminalAddress,
@@ -9,7 +9,13 @@ import { useState, useEffect, useCallback } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useThemeStore, useAuthStore } from '../../stores'
 import Button from '../../components/ui/Button'
+import WebhooksPanel from './WebhooksPanel'
 import { getChainName } from '../../components/dynamic/charts/utils'
+import {
+  settlementReportToCsv,
+  settlementReportToHtml,
+  type SettlementReport,
+} from '../../utils/settlementReport'
 
 const API_BASE = import.meta.env.VITE_API_URL || ''
 
@@ -21,6 +27,7 @@ interface TerminalDevice {
   acceptedTokens: string[]
   apiKeyPrefix: string
   isActive: boolean
+  tipsEnabled: boolean
   lastSeenAt: string | null
   createdAt: string
 }
@@ -29,9 +36,12 @@ interface PaymentSession {
   id: string
   deviceId: string
   amountUsd: number
+  tokenSymbol: string
   status: string
   paymentMethod: string | null
   txHash: string | null
+  tipUsd: number
+  refundedAmountUsd: number
   createdAt: string
   completedAt: string | null
   merchantId: string
@@ -48,9 +58,19 @@ interface MerchantStats {
   totalVolumeUsd: number
   last24hVolumeUsd: number
   last7dVolumeUsd: number
+  totalTipsUsd: number
+  refundedPayments: number
+  refundedVolumeUsd: number
+  netVolumeUsd: number
 }
 
-type PageView = 'terminals' | 'transactions' | 'new-terminal'
+const REFUNDABLE_STATUSES = ['completed', 'partially_refunded']
+const REFUNDABLE_METHODS = ['juice', 'wallet']
+
+type PageView = 'terminals' | 'transactions' | 'reports' | 'webhooks' | 'new-terminal'
+
+// YYYY-MM-DD in the browser's timezone
+const localDate = (date = new Date()) => date.toLocaleDateString('en-CA')
 
 export default function TerminalsPage() {
   const navigate = useNavigate()
@@ -73,6 +93,13 @@ export default function TerminalsPage() {
   const [newApiKey, setNewApiKey] = useState<string | null>(null)
   const [createLoading, setCreateLoading] = useState(false)
 
+  // Settlement report state
+  const [reportFrom, setReportFrom] = useState(() => localDate())
+  const [reportTo, setReportTo] = useState(() => localDate())
+  const [reportTimezone, setReportTimezone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone)
+  const [report, setReport] = useState<SettlementReport | null>(null)
+  const [reportLoading, setReportLoading] = useState(false)
+
   // Fetch merchant data
   const fetchData = useCallback(async () => {
     if (!token) return
@@ -155,8 +182,11 @@ export default function TerminalsPage() {
     }
   }
 
-  // Toggle terminal active status
-  const toggleTerminalStatus = async (device: TerminalDevice) => {
+  // Update terminal settings (active status, tips)
+  const updateTerminal = async (
+    device: TerminalDevice,
+    updates: Partial<Pick<TerminalDevice, 'isActive' | 'tipsEnabled'>>
+  ) => {
     try {
       const res = await fetch(`${API_BASE}/terminal/devices/${device.id}`, {
         method: 'PATCH',
@@ -164,7 +194,7 @@ export default function TerminalsPage() {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
         },
-        body: JSON.stringify({ isActive: !device.isActive }),
+        body: JSON.stringify(updates),
       })
 
       const data = await res.json()
@@ -217,6 +247,122 @@ export default function TerminalsPage() {
     }
   }
 
+  // Refund a transaction (wallet refunds are sent by the merchant, then confirmed)
+  const refundTransaction = async (tx: PaymentSession) => {
+    const remaining = tx.amountUsd + tx.tipUsd - tx.refundedAmountUsd
+    const input = prompt(`Refund amount (up to ${formatUsd(remaining)}):`, remaining.toFixed(2))
+    if (input === null) return
+
+    const amountUsd = parseFloat(input)
+    if (!(amountUsd > 0) || amountUsd > remaining) {
+      setError(`Refund amount must be between $0.01 and ${formatUsd(remaining)}`)
+      return
+    }
+
+    setError(null)
+
+    try {
+      const res = await fetch(`${API_BASE}/terminal/session/${tx.id}/refund`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ amountUsd }),
+      })
+
+      const data = await res.json()
+
+      if (!data.success) {
+        throw new Error(data.error || 'Refund failed')
+      }
+
+      const refund = data.data.refund
+      if (refund.status === 'pending') {
+        const txHash = prompt(
+          `Send ${formatUsd(refund.amountUsd)} in ${tx.tokenSymbol} to ${refund.refundAddress} on ${getChainName(tx.chainId)}, then paste the transaction hash:`
+        )
+
+        const confirmRes = await fetch(
+          `${API_BASE}/terminal/session/${tx.id}/refund/${refund.id}/${txHash ? 'confirm' : 'fail'}`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${token}`,
+            },
+            body: JSON.stringify(txHash ? { txHash: txHash.trim() } : { errorMessage: 'Cancelled by merchant' }),
+          }
+        )
+
+        const confirmData = await confirmRes.json()
+        if (!confirmData.success) {
+          throw new Error(confirmData.error || 'Failed to confirm refund')
+        }
+      }
+
+      await fetchData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Refund failed')
+    }
+  }
+
+  // Generate settlement report for the selected range
+  const generateReport = async () => {
+    if (!token) return
+
+    setReportLoading(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams({ from: reportFrom, to: reportTo, timezone: reportTimezone })
+      const res = await fetch(`${API_BASE}/terminal/reports/settlement?${params}`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      })
+      const data = await res.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to generate report')
+      }
+      setReport(data.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate report')
+    } finally {
+      setReportLoading(false)
+    }
+  }
+
+  // Download settlement report as CSV
+  const downloadReportCsv = () => {
+    if (!report) return
+
+    const blob = new Blob([settlementReportToCsv(report)], { type: 'text/csv;charset=utf-8;' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = report.from === report.to
+      ? `settlement-${report.from}.csv`
+      : `settlement-${report.from}-to-${report.to}.csv`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  // Open printable settlement report (print or save as PDF)
+  const printReport = () => {
+    if (!report) return
+
+    const win = window.open('', '_blank')
+    if (!win) {
+      setError('Allow pop-ups to print the report')
+      return
+    }
+    win.document.write(settlementReportToHtml(report))
+    win.document.close()
+    win.focus()
+    win.print()
+  }
+
   // Format date
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleString()
@@ -248,6 +394,7 @@ export default function TerminalsPage() {
             {stats && (
               <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
                 {stats.activeDevices} active terminal{stats.activeDevices !== 1 ? 's' : ''} &middot; {formatUsd(stats.totalVolumeUsd)} total volume
+                {stats.totalTipsUsd > 0 && <> &middot; {formatUsd(stats.totalTipsUsd)} tips</>}
               </p>
             )}
           </div>
@@ -260,7 +407,7 @@ export default function TerminalsPage() {
       {/* Stats bar */}
       {stats && (
         <div className={`px-6 py-3 border-b ${isDark ? 'border-white/10' : 'border-gray-200'}`}>
-          <div className="max-w-4xl mx-auto grid grid-cols-4 gap-4">
+          <div className="max-w-4xl mx-auto grid grid-cols-5 gap-4">
             <div>
               <p className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>24h Volume</p>
               <p className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>
@@ -279,6 +426,12 @@ export default function TerminalsPage() {
                 {stats.completedPayments}
               </p>
             </div>
+            <div>
+              <p className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>Refunded</p>
+              <p className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                {formatUsd(stats.refundedVolumeUsd)}
+              </p>
+            </div>
             <div>
               <p className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>Terminals</p>
               <p className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>
@@ -312,6 +465,26 @@ export default function TerminalsPage() {
           >
             Transactions
           </button>
+          <button
+            onClick={() => setView('reports')}
+            className={`py-3 text-sm font-medium border-b-2 transition-colors ${
+              view === 'reports'
+                ? isDark ? 'border-juice-cyan text-white' : 'border-juice-cyan text-gray-900'
+                : isDark ? 'border-transparent text-gray-500 hover:text-gray-300' : 'border-transparent text-gray-400 hover:text-gray-600'
+            }`}
+          >
+            Reports
+          </button>
+          <button
+            onClick={() => setView('webhooks')}
+            className={`py-3 text-sm font-medium border-b-2 transition-colors ${
+              view === 'webhooks'
+                ? isDark ? 'border-juice-cyan text-white' : 'border-juice-cyan text-gray-900'
+                : isDark ? 'border-transparent text-gray-500 hover:text-gray-300' : 'border-transparent text-gray-400 hover:text-gray-600'
+            }`}
+          >
+            Webhooks
+          </button>
         </div>
       </div>
 
@@ -372,10 +545,17 @@ export default function TerminalsPage() {
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => toggleTerminalStatus(device)}
+                          onClick={() => updateTerminal(device, { isActive: !device.isActive })}
                         >
                           {device.isActive ? 'Deactivate' : 'Activate'}
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateTerminal(device, { tipsEnabled: !device.tipsEnabled })}
+                        >
+                          {device.tipsEnabled ? 'Disable Tips' : 'Enable Tips'}
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -437,6 +617,11 @@ export default function TerminalsPage() {
                         <div>
                           <p className={`font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
                             {formatUsd(tx.amountUsd)}
+                            {tx.tipUsd > 0 && (
+                              <span className={`ml-2 text-xs font-normal ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                                + {formatUsd(tx.tipUsd)} tip
+                              </span>
+                            )}
                           </p>
                           <p className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
                             {formatDate(tx.createdAt)}
@@ -448,15 +633,31 @@ export default function TerminalsPage() {
                           tx.status === 'completed' ? 'bg-green-500/20 text-green-400' :
                           tx.status === 'failed' ? 'bg-red-500/20 text-red-400' :
                           tx.status === 'expired' ? isDark ? 'bg-white/10 text-gray-400' : 'bg-gray-100 text-gray-500' :
+                          tx.status === 'refunded' || tx.status === 'partially_refunded' ? 'bg-orange-500/20 text-orange-400' :
                           'bg-yellow-500/20 text-yellow-400'
                         }`}>
-                          {tx.status}
+                          {tx.status.replace('_', ' ')}
                         </span>
                         {tx.paymentMethod && (
                           <p className={`text-xs mt-1 ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
                             via {tx.paymentMethod}
                           </p>
                         )}
+                        {tx.refundedAmountUsd > 0 && (
+                          <p className={`text-xs mt-1 ${isDark ? 'text-orange-400' : 'text-orange-500'}`}>
+                            {formatUsd(tx.refundedAmountUsd)} refunded
+                          </p>
+                        )}
+                        {REFUNDABLE_STATUSES.includes(tx.status) && tx.paymentMethod && REFUNDABLE_METHODS.includes(tx.paymentMethod) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => refundTransaction(tx)}
+                            className="mt-1"
+                          >
+                            Refund
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -465,6 +666,147 @@ export default function TerminalsPage() {
             </div>
           )}
 
+          {/* Settlement Reports */}
+          {view === 'reports' && (
+            <div className="space-y-4">
+              <div className={`p-4 border ${isDark ? 'border-white/10 bg-juice-dark-lighter' : 'border-gray-200 bg-white'}`}>
+                <div className="flex flex-wrap items-end gap-3">
+                  <div>
+                    <label className={`block text-xs mb-1.5 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                      From
+                    </label>
+                    <input
+                      type="date"
+                      value={reportFrom}
+                      max={reportTo}
+                      onChange={(e) => setReportFrom(e.target.value)}
+                      className={`px-3 py-2 text-sm border ${
+                        isDark ? 'bg-white/5 border-white/10 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                      } focus:border-juice-cyan outline-none`}
+                    />
+                  </div>
+                  <div>
+                    <label className={`block text-xs mb-1.5 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                      To
+                    </label>
+                    <input
+                      type="date"
+                      value={reportTo}
+                      min={reportFrom}
+                      onChange={(e) => setReportTo(e.target.value)}
+                      className={`px-3 py-2 text-sm border ${
+                        isDark ? 'bg-white/5 border-white/10 text-white' : 'bg-gray-50 border-gray-200 text-gray-900'
+                      } focus:border-juice-cyan outline-none`}
+                    />
+                  </div>
+                  <div className="flex-1 min-w-[160px]">
+                    <label className={`block text-xs mb-1.5 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                      Timezone
+                    </label>
+                    <input
+                      type="text"
+                      value={reportTimezone}
+                      onChange={(e) => setReportTimezone(e.target.value)}
+                      placeholder="e.g., America/New_York"
+                      className={`w-full px-3 py-2 text-sm border ${
+                        isDark
+                          ? 'bg-white/5 border-white/10 text-white placeholder-gray-500'
+                          : 'bg-gray-50 border-gray-200 text-gray-900 placeholder-gray-400'
+                      } focus:border-juice-cyan outline-none`}
+                    />
+                  </div>
+                  <Button
+                    variant="primary"
+                    onClick={generateReport}
+                    loading={reportLoading}
+                    disabled={!reportFrom || !reportTo || !reportTimezone}
+                  >
+                    Generate
+                  </Button>
+                </div>
+              </div>
+
+              {report && (
+                <div className={`p-4 border space-y-6 ${isDark ? 'border-white/10 bg-juice-dark-lighter' : 'border-gray-200 bg-white'}`}>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h2 className={`font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                        {report.from === report.to ? report.from : `${report.from} to ${report.to}`}
+                      </h2>
+                      <p className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+                        {report.timezone} &middot; Generated {formatDate(report.generatedAt)}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="secondary" size="sm" onClick={downloadReportCsv}>
+                        Download CSV
+                      </Button>
+                      <Button variant="secondary" size="sm" onClick={printReport}>
+                        Print
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-4 gap-4">
+                    {[
+                      { label: 'Gross', value: formatUsd(report.totals.grossUsd) },
+                      { label: 'Tips', value: formatUsd(report.totals.tipsUsd) },
+                      { label: 'Refunded', value: formatUsd(report.totals.refundedUsd) },
+                      { label: 'Net', value: formatUsd(report.totals.netUsd) },
+                    ].map(({ label, value }) => (
+                      <div key={label}>
+                        <p className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>{label}</p>
+                        <p className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>{value}</p>
+                      </div>
+                    ))}
+                  </div>
+
+                  <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {report.totals.completed} completed &middot; {report.totals.failed} failed &middot; {report.totals.expired} expired &middot; {report.totals.cancelled} cancelled
+                    {report.totals.open > 0 && <> &middot; {report.totals.open} still open</>}
+                  </p>
+
+                  <ReportTable
+                    title="By Terminal"
+                    headers={['Terminal', 'Completed', 'Failed', 'Expired', 'Gross', 'Tips', 'Refunded', 'Net']}
+                    rows={report.byDevice.map(d => [
+                      d.deviceName, d.completed, d.failed, d.expired,
+                      formatUsd(d.grossUsd), formatUsd(d.tipsUsd), formatUsd(d.refundedUsd), formatUsd(d.netUsd),
+                    ])}
+                    isDark={isDark}
+                  />
+                  <ReportTable
+                    title="By Payment Method"
+                    headers={['Method', 'Payments', 'Gross', 'Tips']}
+                    rows={report.byPaymentMethod.map(m => [m.method, m.payments, formatUsd(m.grossUsd), formatUsd(m.tipsUsd)])}
+                    isDark={isDark}
+                  />
+                  <ReportTable
+                    title="By Hour"
+                    headers={['Hour', 'Payments', 'Gross', 'Tips']}
+                    rows={report.byHour.map(h => [h.hour, h.payments, formatUsd(h.grossUsd), formatUsd(h.tipsUsd)])}
+                    isDark={isDark}
+                  />
+                  <ReportTable
+                    title="Tokens Issued"
+                    headers={['Project', 'Chain', 'Payments', 'Tokens']}
+                    rows={report.tokensIssued.map(t => [`#${t.projectId}`, getChainName(t.chainId), t.payments, t.tokensIssued])}
+                    isDark={isDark}
+                  />
+
+                  {report.truncated && (
+                    <p className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+                      The CSV lists the first {report.sessions.length} sessions; totals cover the full range.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Webhooks */}
+          {view === 'webhooks' && <WebhooksPanel token={token} isDark={isDark} />}
+
           {/* New Terminal Form */}
           {view === 'new-terminal' && (
             <div className={`max-w-md mx-auto p-6 border ${isDark ? 'border-white/10 bg-juice-dark-lighter' : 'border-gray-200 bg-white'}`}>
@@ -594,3 +936,41 @@ export default function TerminalsPage() {
     </div>
   )
 }
+
+// Simple breakdown table for the settlement report view
+function ReportTable({ title, headers, rows, isDark }: {
+  title: string
+  headers: string[]
+  rows: (string | number)[][]
+  isDark: boolean
+}) {
+  return (
+    <div>
+      <h3 className={`text-sm font-medium mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`}>{title}</h3>
+      {rows.length === 0 ? (
+        <p className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>None</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className={isDark ? 'text-gray-500' : 'text-gray-400'}>
+              {headers.map((header, i) => (
+                <th key={header} className={`py-1 text-xs font-normal ${i === 0 ? 'text-left' : 'text-right'}`}>
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, rowIndex) => (
+              <tr key={rowIndex} className={`border-t ${isDark ? 'border-white/10 text-gray-300' : 'border-gray-100 text-gray-700'}`}>
+                {row.map((cell, i) => (
+                  <td key={i} className={`py-1 ${i === 0 ? 'text-left' : 'text-right'}`}>{cell}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,340 @@
+/**
+ * Merchant Webhooks Panel
+ *
+ * Register endpoints that receive signed payment session events,
+ * and inspect their delivery log.
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import Button from '../../components/ui/Button'
+
+const API_BASE = import.meta.env.VITE_API_URL || ''
+
+const WEBHOOK_EVENTS = [
+  'session.completed',
+  'session.failed',
+  'session.expired',
+  'refund.completed',
+  'refund.failed',
+] as const
+
+interface MerchantWebhook {
+  id: string
+  url: string
+  description: string | null
+  events: string[]
+  isActive: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+interface WebhookDelivery {
+  id: string
+  eventId: string
+  eventType: string
+  status: 'pending' | 'delivered' | 'failed'
+  attempts: number
+  nextAttemptAt: string | null
+  lastAttemptAt: string | null
+  responseStatus: number | null
+  errorMessage: string | null
+  deliveredAt: string | null
+  createdAt: string
+}
+
+interface WebhooksPanelProps {
+  token: string | null
+  isDark: boolean
+}
+
+export default function WebhooksPanel({ token, isDark }: WebhooksPanelProps) {
+  const [webhooks, setWebhooks] = useState<MerchantWebhook[]>([])
+  const [deliveries, setDeliveries] = useState<Record<string, WebhookDelivery[]>>({})
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [newUrl, setNewUrl] = useState('')
+  const [newEvents, setNewEvents] = useState<string[]>([...WEBHOOK_EVENTS])
+  const [creating, setCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const authHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`,
+  }), [token])
+
+  const fetchWebhooks = useCallback(async () => {
+    if (!token) return
+
+    try {
+      const res = await fetch(`${API_BASE}/terminal/webhooks`, { headers: authHeaders() })
+      const data = await res.json()
+      if (data.success) setWebhooks(data.data.webhooks)
+    } catch {
+      setError('Failed to load webhooks')
+    }
+  }, [token, authHeaders])
+
+  useEffect(() => {
+    fetchWebhooks()
+  }, [fetchWebhooks])
+
+  const fetchDeliveries = async (webhookId: string) => {
+    try {
+      const res = await fetch(`${API_BASE}/terminal/webhooks/${webhookId}/deliveries?limit=20`, {
+        headers: authHeaders(),
+      })
+      const data = await res.json()
+      if (data.success) {
+        setDeliveries(prev => ({ ...prev, [webhookId]: data.data.deliveries }))
+      }
+    } catch {
+      setError('Failed to load deliveries')
+    }
+  }
+
+  const toggleDeliveries = (webhookId: string) => {
+    if (expandedId === webhookId) {
+      setExpandedId(null)
+      return
+    }
+    setExpandedId(webhookId)
+    fetchDeliveries(webhookId)
+  }
+
+  const createWebhook = async () => {
+    setCreating(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`${API_BASE}/terminal/webhooks`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ url: newUrl.trim(), events: newEvents }),
+      })
+      const data = await res.json()
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to create webhook')
+      }
+
+      alert(`Signing secret (save it now, it won't be shown again):\n\n${data.data.secret}`)
+      setWebhooks(prev => [data.data.webhook, ...prev])
+      setNewUrl('')
+      setNewEvents([...WEBHOOK_EVENTS])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create webhook')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const toggleActive = async (webhook: MerchantWebhook) => {
+    try {
+      const res = await fetch(`${API_BASE}/terminal/webhooks/${webhook.id}`, {
+        method: 'PATCH',
+        headers: authHeaders(),
+        body: JSON.stringify({ isActive: !webhook.isActive }),
+      })
+      const data = await res.json()
+      if (data.success) {
+        setWebhooks(prev => prev.map(w => w.id === webhook.id ? data.data.webhook : w))
+      }
+    } catch {
+      // Ignore
+    }
+  }
+
+  const rotateSecret = async (webhookId: string) => {
+    if (!confirm('This will invalidate the current signing secret. Continue?')) return
+
+    try {
+      const res = await fetch(`${API_BASE}/terminal/webhooks/${webhookId}/rotate-secret`, {
+        method: 'POST',
+        headers: authHeaders(),
+      })
+      const data = await res.json()
+      if (data.success) {
+        alert(`New signing secret (save it now, it won't be shown again):\n\n${data.data.secret}`)
+      }
+    } catch {
+      // Ignore
+    }
+  }
+
+  const deleteWebhook = async (webhookId: string) => {
+    if (!confirm('Delete this webhook and its delivery log?')) return
+
+    try {
+      const res = await fetch(`${API_BASE}/terminal/webhooks/${webhookId}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      })
+      const data = await res.json()
+      if (data.success) {
+        setWebhooks(prev => prev.filter(w => w.id !== webhookId))
+      }
+    } catch {
+      // Ignore
+    }
+  }
+
+  const retryDelivery = async (webhookId: string, deliveryId: string) => {
+    try {
+      const res = await fetch(`${API_BASE}/terminal/webhooks/deliveries/${deliveryId}/retry`, {
+        method: 'POST',
+        headers: authHeaders(),
+      })
+      const data = await res.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Retry failed')
+      }
+      await fetchDeliveries(webhookId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Retry failed')
+    }
+  }
+
+  const toggleEvent = (event: string) => {
+    setNewEvents(prev => prev.includes(event) ? prev.filter(e => e !== event) : [...prev, event])
+  }
+
+  const cardClass = `p-4 border ${isDark ? 'border-white/10 bg-juice-dark-lighter' : 'border-gray-200 bg-white'}`
+  const mutedClass = isDark ? 'text-gray-500' : 'text-gray-400'
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className={`px-4 py-3 border ${isDark ? 'bg-red-500/10 border-red-500/20 text-red-400' : 'bg-red-50 border-red-200 text-red-600'}`}>
+          {error}
+        </div>
+      )}
+
+      {/* New endpoint */}
+      <div className={cardClass}>
+        <label className={`block text-xs mb-1.5 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+          Endpoint URL
+        </label>
+        <div className="flex gap-3">
+          <input
+            type="url"
+            value={newUrl}
+            onChange={(e) => setNewUrl(e.target.value)}
+            placeholder="https://pos.example.com/juicy-webhooks"
+            className={`flex-1 px-3 py-2 text-sm border ${
+              isDark
+                ? 'bg-white/5 border-white/10 text-white placeholder-gray-500'
+                : 'bg-gray-50 border-gray-200 text-gray-900 placeholder-gray-400'
+            } focus:border-juice-cyan outline-none`}
+          />
+          <Button
+            variant="primary"
+            onClick={createWebhook}
+            loading={creating}
+            disabled={!newUrl.trim() || newEvents.length === 0}
+          >
+            Add Webhook
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-3 mt-3">
+          {WEBHOOK_EVENTS.map(event => (
+            <label key={event} className={`flex items-center gap-1.5 text-xs ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
+              <input
+                type="checkbox"
+                checked={newEvents.includes(event)}
+                onChange={() => toggleEvent(event)}
+              />
+              {event}
+            </label>
+          ))}
+        </div>
+        <p className={`text-xs mt-3 ${mutedClass}`}>
+          Payloads are signed with HMAC-SHA256. Verify the X-Webhook-Signature header
+          (t=timestamp,v1=signature of "timestamp.body") with your signing secret.
+        </p>
+      </div>
+
+      {/* Endpoints */}
+      {webhooks.length === 0 ? (
+        <div className={`text-center py-12 border ${isDark ? 'border-white/10' : 'border-gray-200'}`}>
+          <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+            No webhooks yet.
+          </p>
+        </div>
+      ) : (
+        webhooks.map(webhook => (
+          <div key={webhook.id} className={cardClass}>
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className={`font-mono text-sm truncate ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                    {webhook.url}
+                  </p>
+                  <span className={`px-2 py-0.5 text-xs ${
+                    webhook.isActive
+                      ? 'bg-green-500/20 text-green-400'
+                      : isDark ? 'bg-white/10 text-gray-400' : 'bg-gray-100 text-gray-500'
+                  }`}>
+                    {webhook.isActive ? 'Active' : 'Paused'}
+                  </span>
+                </div>
+                <p className={`text-xs mt-1 ${mutedClass}`}>
+                  {webhook.events.join(', ')}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button variant="ghost" size="sm" onClick={() => toggleDeliveries(webhook.id)}>
+                  {expandedId === webhook.id ? 'Hide Log' : 'Deliveries'}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => toggleActive(webhook)}>
+                  {webhook.isActive ? 'Pause' : 'Resume'}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => rotateSecret(webhook.id)}>
+                  Rotate Secret
+                </Button>
+                <Button variant="danger" size="sm" onClick={() => deleteWebhook(webhook.id)}>
+                  Delete
+                </Button>
+              </div>
+            </div>
+
+            {expandedId === webhook.id && (
+              <div className={`mt-4 border-t pt-3 space-y-2 ${isDark ? 'border-white/10' : 'border-gray-100'}`}>
+                {(deliveries[webhook.id] ?? []).length === 0 ? (
+                  <p className={`text-xs ${mutedClass}`}>No deliveries yet.</p>
+                ) : (
+                  deliveries[webhook.id].map(delivery => (
+                    <div key={delivery.id} className="flex items-center justify-between text-xs">
+                      <div>
+                        <span className={isDark ? 'text-gray-300' : 'text-gray-700'}>{delivery.eventType}</span>
+                        <span className={`ml-2 ${mutedClass}`}>{new Date(delivery.createdAt).toLocaleString()}</span>
+                        {delivery.errorMessage && delivery.status !== 'delivered' && (
+                          <span className="ml-2 text-red-400">{delivery.errorMessage}</span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className={mutedClass}>
+                          {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                        </span>
+                        <span className={`px-2 py-0.5 ${
+                          delivery.status === 'delivered' ? 'bg-green-500/20 text-green-400' :
+                          delivery.status === 'failed' ? 'bg-red-500/20 text-red-400' :
+                          'bg-yellow-500/20 text-yellow-400'
+                        }`}>
+                          {delivery.status}
+                        </span>
+                        {delivery.status === 'failed' && (
+                          <Button variant="ghost" size="sm" onClick={() => retryDelivery(webhook.id, delivery.id)}>
+                            Retry
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
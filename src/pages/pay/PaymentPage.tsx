@@ -6,7 +6,7 @@
  */
 
 import { useState, useEffect, useCallback } from 'react'
-import { useParams, useNavigate } from 'react-router-dom'
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom'
 import { loadStripe } from '@stripe/stripe-js'
 import {
   EmbeddedCheckoutProvider,
@@ -21,13 +21,22 @@ import { getChainName } from '../../components/dynamic/charts/utils'
 const API_BASE = import.meta.env.VITE_API_URL || ''
 
 // Payment session types
+interface LineItem {
+  name: string
+  quantity: number
+  unitPriceUsd: number
+}
+
 interface PaymentSession {
   id: string
   deviceId: string
   amountUsd: number
   token: string | null
   tokenSymbol: string
-  status: 'pending' | 'paying' | 'completed' | 'failed' | 'expired' | 'cancelled'
+  status: 'pending' | 'paying' | 'completed' | 'failed' | 'expired' | 'cancelled' | 'partially_refunded' | 'refunded'
+  lineItems: LineItem[] | null
+  tipUsd: number
+  tipsEnabled: boolean
   merchantId: string
   merchantName: string
   projectId: number
@@ -36,10 +45,23 @@ interface PaymentSession {
   createdAt: string
 }
 
-type PaymentStep = 'loading' | 'ready' | 'auth' | 'checkout' | 'paying' | 'success' | 'error'
+type PaymentStep = 'loading' | 'tip' | 'ready' | 'auth' | 'checkout' | 'paying' | 'success' | 'error'
+
+// Suggested tip percentages shown on the tip step
+const TIP_PERCENTAGES = [0.1, 0.15, 0.2]
+
+const roundUsd = (amount: number) => Math.round(amount * 100) / 100
+
+// Decode the signed session a terminal embeds in the link while it is offline
+function decodeOfflineSession(encoded: string): unknown {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/')
+  return JSON.parse(decodeURIComponent(escape(atob(base64))))
+}
 
 export default function PaymentPage() {
   const { sessionId } = useParams<{ sessionId: string }>()
+  const [searchParams] = useSearchParams()
+  const offlinePayload = searchParams.get('offline')
   const navigate = useNavigate()
   const { theme } = useThemeStore()
   const { token, isAuthenticated, login, user } = useAuthStore()
@@ -65,6 +87,9 @@ export default function PaymentPage() {
   const [stripePromise, setStripePromise] = useState<ReturnType<typeof loadStripe> | null>(null)
   const [clientSecret, setClientSecret] = useState<string | null>(null)
 
+  // Custom tip entry
+  const [customTip, setCustomTip] = useState('')
+
   // Auth state for email login
   const [email, setEmail] = useState('')
   const [code, setCode] = useState('')
@@ -79,7 +104,24 @@ export default function PaymentPage() {
       return
     }
 
-    fetch(`${API_BASE}/terminal/session/${sessionId}`)
+    // Offline terminals couldn't create the session, so record it before loading
+    const claim = offlinePayload
+      ? Promise.resolve()
+          .then(() => fetch(`${API_BASE}/terminal/session/offline`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(decodeOfflineSession(offlinePayload)),
+          }))
+          .then(res => res.json())
+          .then(data => {
+            if (!data.success) {
+              throw new Error(data.error || 'Invalid payment link')
+            }
+          })
+      : Promise.resolve()
+
+    claim
+      .then(() => fetch(`${API_BASE}/terminal/session/${sessionId}`))
       .then(res => res.json())
       .then(data => {
         if (!data.success) {
@@ -89,12 +131,18 @@ export default function PaymentPage() {
         const sess = data.data.session as PaymentSession
 
         // Check session status
-        if (sess.status === 'completed') {
+        if (sess.status === 'completed' || sess.status === 'partially_refunded') {
           setSession(sess)
           setStep('success')
           return
         }
 
+        if (sess.status === 'refunded') {
+          setError('This payment was refunded')
+          setStep('error')
+          return
+        }
+
         if (sess.status === 'expired') {
           setError('This payment session has expired')
           setStep('error')
@@ -121,13 +169,13 @@ export default function PaymentPage() {
         }
 
         setSession(sess)
-        setStep('ready')
+        setStep(sess.tipsEnabled ? 'tip' : 'ready')
       })
       .catch(err => {
         setError(err.message || 'Failed to load payment')
         setStep('error')
       })
-  }, [sessionId])
+  }, [sessionId, offlinePayload])
 
   // Fetch Stripe config
   useEffect(() => {
@@ -250,6 +298,13 @@ export default function PaymentPage() {
     }
   }
 
+  // Choose a tip (recorded with the payment, on top of the session amount)
+  const handleSelectTip = (tipUsd: number) => {
+    setSession(prev => prev ? { ...prev, tipUsd: roundUsd(tipUsd) } : null)
+    setCustomTip('')
+    setStep('ready')
+  }
+
   // Pay with Juice Credits
   const handlePayWithJuice = useCallback(async () => {
     if (!session || !token) {
@@ -267,7 +322,7 @@ export default function PaymentPage() {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
         },
-        body: JSON.stringify({}),
+        body: JSON.stringify({ tipUsd: session.tipUsd }),
       })
 
       const data = await res.json()
@@ -307,7 +362,7 @@ export default function PaymentPage() {
           'Authorization': `Bearer ${token}`,
         },
         body: JSON.stringify({
-          amount: session.amountUsd,
+          amount: roundUsd(session.amountUsd + session.tipUsd),
           // Metadata to link to terminal session
           metadata: {
             terminalSessionId: session.id,
@@ -358,25 +413,35 @@ export default function PaymentPage() {
         throw new Error(paramsData.error || 'Failed to get payment params')
       }
 
-      const { terminalAddress, projectId, amountUsd, tokenAddress } = paramsData.data
+      const { terminalAddress, projectId, tokenAddress } = paramsData.data
 
       // Mark payment as started
-      await fetch(`${API_BASE}/terminal/session/${session.id}/pay/wallet/start`, {
+      const startRes = await fetch(`${API_BASE}/terminal/session/${session.id}/pay/wallet/start`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ payerAddress: walletAddress }),
+        body: JSON.stringify({ payerAddress: walletAddress, tipUsd: session.tipUsd }),
       })
+      const startData = await startRes.json()
 
+      if (!startData.success) {
+        throw new Error(startData.error || 'Failed to start payment')
+      }
+
+      // Pay what the server recorded, not what this page asked for
+      const accepted = startData.data.session as PaymentSession
+      setSession(prev => prev ? { ...prev, status: accepted.status, tipUsd: accepted.tipUsd } : null)
       setStep('paying')
 
       // Calculate payment amount (convert USD to token amount)
       // For ETH, we'd need a price oracle. For now, use a simple estimate
       // This is simplified - in production, use proper price feeds
+      // The tip goes into the same project payment
+      const totalUsd = roundUsd(accepted.amountUsd + accepted.tipUsd)
       const isNativeToken = tokenAddress === '0x000000000000000000000000000000000000EEEe'
       const ethPrice = 2500 // Simplified - should use oracle
       const paymentAmount = isNativeToken
-        ? BigInt(Math.floor((amountUsd / ethPrice) * 1e18))
-        : BigInt(Math.floor(amountUsd * 1e6)) // USDC has 6 decimals
+        ? BigInt(Math.floor((totalUsd / ethPrice) * 1e18))
+        : BigInt(Math.floor(totalUsd * 1e6)) // USDC has 6 decimals
 
       // Build the pay transaction
       // JBMultiTerminal.pay(projectId, token, amount, beneficiary, minReturnedTokens, memo, metadata)
@@ -521,11 +586,16 @@ export default function PaymentPage() {
           </div>
           <h1 className={`text-lg font-semibold mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`}>Payment Complete</h1>
           <p className={`text-2xl font-bold mb-1 ${isDark ? 'text-white' : 'text-gray-900'}`}>
-            ${session.amountUsd.toFixed(2)}
+            ${(session.amountUsd + session.tipUsd).toFixed(2)}
           </p>
-          <p className={`text-sm mb-6 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+          <p className={`text-sm mb-4 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
             Paid to {session.merchantName}
           </p>
+          {(session.lineItems?.length || session.tipUsd > 0) && (
+            <div className={`mb-6 pt-3 border-t text-left ${isDark ? 'border-white/10' : 'border-gray-100'}`}>
+              <ReceiptLines session={session} isDark={isDark} />
+            </div>
+          )}
           <Button variant="primary" onClick={() => window.close()} className="w-full">
             Done
           </Button>
@@ -534,6 +604,67 @@ export default function PaymentPage() {
     )
   }
 
+  // Render tip step
+  if (step === 'tip' && session) {
+    const customTipValue = parseFloat(customTip)
+
+    return (
+      <div className={`min-h-screen flex items-center justify-center p-4 ${isDark ? 'bg-juice-dark' : 'bg-gray-50'}`}>
+        <div className={`w-full max-w-sm p-6 border ${isDark ? 'bg-juice-dark-lighter border-white/10' : 'bg-white border-gray-200'}`}>
+          <h1 className={`text-lg font-semibold mb-1 text-center ${isDark ? 'text-white' : 'text-gray-900'}`}>
+            Add a tip?
+          </h1>
+          <p className={`text-sm mb-6 text-center ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+            ${session.amountUsd.toFixed(2)} at {session.merchantName}
+          </p>
+
+          <div className="grid grid-cols-3 gap-2 mb-3">
+            {TIP_PERCENTAGES.map(pct => (
+              <Button
+                key={pct}
+                variant="secondary"
+                onClick={() => handleSelectTip(session.amountUsd * pct)}
+                className="py-3 flex-col"
+              >
+                <span className="font-semibold">{Math.round(pct * 100)}%</span>
+                <span className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                  ${(session.amountUsd * pct).toFixed(2)}
+                </span>
+              </Button>
+            ))}
+          </div>
+
+          <div className="flex gap-2 mb-3">
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={customTip}
+              onChange={(e) => setCustomTip(e.target.value)}
+              placeholder="Custom amount"
+              className={`flex-1 px-3 py-2 text-sm border ${
+                isDark
+                  ? 'bg-white/5 border-white/10 text-white placeholder-gray-500'
+                  : 'bg-gray-50 border-gray-200 text-gray-900 placeholder-gray-400'
+              } focus:border-juice-cyan outline-none`}
+            />
+            <Button
+              variant="secondary"
+              onClick={() => handleSelectTip(customTipValue)}
+              disabled={!(customTipValue > 0)}
+            >
+              Add
+            </Button>
+          </div>
+
+          <Button variant="ghost" onClick={() => handleSelectTip(0)} className="w-full">
+            No tip
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
   // Render auth step
   if (step === 'auth') {
     return (
@@ -697,11 +828,24 @@ export default function PaymentPage() {
                 Pay {session.merchantName}
               </p>
               <p className={`text-4xl font-bold mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                ${session.amountUsd.toFixed(2)}
+                ${(session.amountUsd + session.tipUsd).toFixed(2)}
               </p>
               <p className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
                 {getChainName(session.chainId)} &middot; Project #{session.projectId}
               </p>
+              {(session.lineItems?.length || session.tipsEnabled) && (
+                <div className={`mt-4 pt-3 border-t text-left ${isDark ? 'border-white/10' : 'border-gray-100'}`}>
+                  <ReceiptLines session={session} isDark={isDark} />
+                  {session.tipsEnabled && (
+                    <button
+                      onClick={() => setStep('tip')}
+                      className={`mt-2 text-xs ${isDark ? 'text-juice-cyan hover:text-white' : 'text-juice-cyan hover:text-gray-700'}`}
+                    >
+                      Change tip
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
 
             {/* Payment options */}
@@ -802,3 +946,31 @@ export default function PaymentPage() {
     </div>
   )
 }
+
+// Itemized breakdown of a session: line items, then subtotal and tip
+function ReceiptLines({ session, isDark }: { session: PaymentSession; isDark: boolean }) {
+  const lineClass = `flex justify-between text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`
+
+  return (
+    <div className="space-y-1">
+      {session.lineItems?.map((item, i) => (
+        <div key={i} className={lineClass}>
+          <span>{item.quantity > 1 ? `${item.quantity} × ` : ''}{item.name}</span>
+          <span>${(item.quantity * item.unitPriceUsd).toFixed(2)}</span>
+        </div>
+      ))}
+      {session.tipUsd > 0 && (
+        <>
+          <div className={lineClass}>
+            <span>Subtotal</span>
+            <span>${session.amountUsd.toFixed(2)}</span>
+          </div>
+          <div className={lineClass}>
+            <span>Tip</span>
+            <span>${session.tipUsd.toFixed(2)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
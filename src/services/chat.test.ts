@@ -243,6 +243,66 @@ describe('chat service', () => {
     })
   })
 
+  describe('searchChats', () => {
+    it('passes query and filters', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ success: true, data: [] }),
+      })
+
+      const { searchChats } = await import('./chat')
+      await searchChats('cash out', { chatId: 'chat-123', limit: 10 })
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/chat/search?q=cash+out&chatId=chat-123&limit=10'),
+        expect.any(Object)
+      )
+    })
+  })
+
+  describe('branchFromMessage', () => {
+    it('posts the edited prompt to the branch endpoint', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({
+          success: true,
+          data: { branchId: 'branch-1', message: { id: 'msg-2', content: 'Edited' } },
+        }),
+      })
+
+      const { branchFromMessage } = await import('./chat')
+      const result = await branchFromMessage('chat-123', 'msg-1', 'Edited')
+
+      expect(result.branchId).toBe('branch-1')
+      expect(result.message.id).toBe('msg-2')
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/chat/chat-123/messages/msg-1/branch'),
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ content: 'Edited' }),
+        })
+      )
+    })
+  })
+
+  describe('switchBranch', () => {
+    it('posts to the switch endpoint', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ success: true, data: { parkedBranchId: 'branch-2' } }),
+      })
+
+      const { switchBranch } = await import('./chat')
+      const result = await switchBranch('chat-123', 'branch-1')
+
+      expect(result.parkedBranchId).toBe('branch-2')
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/chat/chat-123/branches/branch-1/switch'),
+        expect.objectContaining({ method: 'POST' })
+      )
+    })
+  })
+
   describe('sendMessage', () => {
     it('sends message to chat', async () => {
       const mockMessage = { id: 'new-msg', content: 'Hello!' }
@@ -472,6 +532,49 @@ describe('chat service', () => {
         expect(balance).toEqual(mockBalance)
       })
     })
+
+    describe('setAiBudget', () => {
+      it('puts the budget for the chat', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ success: true, data: { id: 'budget-1' } }),
+        })
+
+        const { setAiBudget } = await import('./chat')
+        await setAiBudget('chat-123', {
+          scope: 'member',
+          memberAddress: null,
+          period: 'daily',
+          limitWei: '10000000000000000',
+          warnAtPercent: 75,
+        })
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          expect.stringContaining('/chat/chat-123/ai/budgets'),
+          expect.objectContaining({
+            method: 'PUT',
+            body: JSON.stringify({ scope: 'member', memberAddress: null, period: 'daily', limitWei: '10000000000000000', warnAtPercent: 75 }),
+          })
+        )
+      })
+    })
+
+    describe('fetchAiUsage', () => {
+      it('requests the given period', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ success: true, data: { byModel: [] } }),
+        })
+
+        const { fetchAiUsage } = await import('./chat')
+        await fetchAiUsage('chat-123', 'daily')
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          expect.stringContaining('/chat/chat-123/ai/usage?period=daily'),
+          expect.any(Object)
+        )
+      })
+    })
   })
 
   describe('feedback', () => {
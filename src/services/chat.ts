@@ -15,6 +15,8 @@ import type {
   ChatMember,
   CreateChatParams,
   ChatFolder,
+  MessageReaction,
+  ToolCallStep,
 } from '../stores/chatStore'
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || ''
@@ -339,6 +341,223 @@ export async function deleteMessage(
   })
 }
 
+// ============================================================================
+// Edits & Branches
+// ============================================================================
+
+export interface MessageEdit {
+  id: string
+  messageId: string
+  previousContent: string
+  editedByAddress: string
+  createdAt: string
+}
+
+export interface ChatBranch {
+  id: string
+  chatId: string
+  forkMessageId: string | null // Last message shared with the active conversation
+  reason: 'edit' | 'regenerate' | 'switch'
+  createdByAddress: string
+  createdAt: string
+  messageCount: number
+  preview: string
+  switchable: boolean // False while the fork point is itself on an inactive branch
+}
+
+/**
+ * Edit one of your own prompts in place (previous versions are kept)
+ */
+export async function editMessage(
+  chatId: string,
+  messageId: string,
+  content: string
+): Promise<ChatMessage> {
+  return apiRequest<ChatMessage>(`/chat/${chatId}/messages/${messageId}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ content }),
+  })
+}
+
+export async function fetchMessageEdits(chatId: string, messageId: string): Promise<MessageEdit[]> {
+  return apiRequest<MessageEdit[]>(`/chat/${chatId}/messages/${messageId}/edits`)
+}
+
+/**
+ * Replace a prompt with an edited version, moving the original and everything
+ * after it to a branch. Call invokeAi afterwards to answer the new prompt.
+ */
+export async function branchFromMessage(
+  chatId: string,
+  messageId: string,
+  content: string
+): Promise<{ branchId: string; message: ChatMessage }> {
+  const result = await apiRequest<{ branchId: string; message: ChatMessage }>(
+    `/chat/${chatId}/messages/${messageId}/branch`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ content }),
+    }
+  )
+  return { ...result, message: hydrateAttachmentIds(result.message) }
+}
+
+export async function fetchBranches(chatId: string): Promise<ChatBranch[]> {
+  return apiRequest<ChatBranch[]>(`/chat/${chatId}/branches`)
+}
+
+export async function fetchBranchMessages(chatId: string, branchId: string): Promise<ChatMessage[]> {
+  const messages = await apiRequest<ChatMessage[]>(`/chat/${chatId}/branches/${branchId}/messages`)
+  return messages.map(hydrateAttachmentIds)
+}
+
+/**
+ * Keep a branch: it becomes the active conversation and the messages it
+ * replaces move to a new branch
+ */
+export async function switchBranch(
+  chatId: string,
+  branchId: string
+): Promise<{ parkedBranchId: string | null }> {
+  return apiRequest<{ parkedBranchId: string | null }>(`/chat/${chatId}/branches/${branchId}/switch`, {
+    method: 'POST',
+  })
+}
+
+export async function discardBranch(chatId: string, branchId: string): Promise<void> {
+  await apiRequest<void>(`/chat/${chatId}/branches/${branchId}`, {
+    method: 'DELETE',
+  })
+}
+
+// ============================================================================
+// Threads & Reactions
+// ============================================================================
+
+export interface ChatThread {
+  root: ChatMessage
+  replies: ChatMessage[]
+}
+
+/**
+ * Fetch a thread (root message and all replies). Passing a reply's ID
+ * returns the thread it belongs to.
+ */
+export async function fetchThread(chatId: string, messageId: string): Promise<ChatThread> {
+  const thread = await apiRequest<ChatThread>(`/chat/${chatId}/messages/${messageId}/thread`)
+  return {
+    root: hydrateAttachmentIds(thread.root),
+    replies: thread.replies.map(hydrateAttachmentIds),
+  }
+}
+
+export async function addReaction(chatId: string, messageId: string, emoji: string): Promise<MessageReaction[]> {
+  return apiRequest<MessageReaction[]>(`/chat/${chatId}/messages/${messageId}/reactions`, {
+    method: 'POST',
+    body: JSON.stringify({ emoji }),
+  })
+}
+
+export async function removeReaction(chatId: string, messageId: string, emoji: string): Promise<MessageReaction[]> {
+  return apiRequest<MessageReaction[]>(
+    `/chat/${chatId}/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`,
+    { method: 'DELETE' }
+  )
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+export interface ChatSearchResult {
+  chatId: string
+  chatName: string | null
+  messageId: string
+  role: 'user' | 'assistant' | 'system'
+  senderAddress: string
+  snippet: string
+  highlights: [number, number][] // Offsets into snippet
+  // 'local' = matched client-side in a decrypted encrypted chat
+  matchType: 'text' | 'semantic' | 'both' | 'local'
+  score: number
+  createdAt: string
+}
+
+/**
+ * Search messages across the user's chats (encrypted chats are not indexed
+ * server-side - see searchLoadedMessages for those)
+ */
+export async function searchChats(
+  query: string,
+  options?: { chatId?: string; limit?: number }
+): Promise<ChatSearchResult[]> {
+  const params = new URLSearchParams({ q: query })
+  if (options?.chatId) params.set('chatId', options.chatId)
+  if (options?.limit !== undefined) params.set('limit', String(options.limit))
+
+  return apiRequest<ChatSearchResult[]>(`/chat/search?${params}`)
+}
+
+// ============================================================================
+// Export / Import
+// ============================================================================
+
+export interface ExportedComponentState {
+  status: 'pending' | 'in_progress' | 'completed' | 'failed'
+  [key: string]: unknown
+}
+
+export interface ChatExportMessage {
+  id: string
+  role: 'user' | 'assistant' | 'system'
+  senderAddress: string
+  content: string
+  isEncrypted: boolean
+  createdAt: string
+  editedAt?: string
+  componentStates: Record<string, ExportedComponentState>
+}
+
+export interface ChatExport {
+  format: 'juicy-chat'
+  version: number
+  exportedAt: string
+  chat: {
+    id: string
+    name?: string
+    description?: string
+    founderAddress: string
+    encrypted: boolean
+    createdAt: string
+  }
+  members: { address: string; role: string; displayName?: string }[]
+  messages: ChatExportMessage[]
+}
+
+export interface ChatImportResult {
+  chat: Chat
+  importedCount: number
+  skippedCount: number // Encrypted or empty messages that couldn't be replayed
+}
+
+/**
+ * Fetch a chat as a JSON transcript, including component states.
+ * Encrypted messages come back as ciphertext - see withDecryptedContent.
+ */
+export async function exportChat(chatId: string): Promise<ChatExport> {
+  return apiRequest<ChatExport>(`/chat/${chatId}/export`)
+}
+
+/**
+ * Recreate an exported chat as a new private chat owned by the current user
+ */
+export async function importChat(data: ChatExport): Promise<ChatImportResult> {
+  return apiRequest<ChatImportResult>('/chat/import', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  })
+}
+
 // ============================================================================
 // Members
 // ============================================================================
@@ -492,6 +711,7 @@ export async function invokeAi(
   prompt: string,
   attachments?: Array<{ type: string; name: string; mimeType: string; data: string }>,
   savePrompt?: boolean,
+  regenerateMessageId?: string,
 ): Promise<ChatMessage> {
   // Get user's API key if configured (BYOK - Bring Your Own Key)
   const { claudeApiKey } = useSettingsStore.getState()
@@ -503,6 +723,7 @@ export async function invokeAi(
       attachments,
       apiKey: claudeApiKey || undefined, // Only include if set
       savePrompt: savePrompt || undefined,
+      regenerateMessageId, // Replace this AI response; it moves to a branch
     }),
   })
 }
@@ -518,6 +739,192 @@ export async function toggleAiEnabled(chatId: string, enabled: boolean): Promise
   })
 }
 
+// ============================================================================
+// AI Budgets & Usage
+// ============================================================================
+
+export type AiBudgetPeriod = 'daily' | 'monthly'
+
+export interface AiBudget {
+  id: string
+  chatId: string
+  scope: 'chat' | 'member'
+  memberAddress: string | null // member scope: null = default for every member
+  period: AiBudgetPeriod
+  limitWei: string
+  warnAtPercent: number
+  createdByAddress: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AiBudgetStatus {
+  budget: AiBudget
+  memberAddress: string | null
+  spentWei: string
+  percentUsed: number
+  state: 'ok' | 'warning' | 'exceeded'
+  resetsAt: string
+}
+
+export interface AiUsageTotals {
+  requests: number
+  inputTokens: number
+  outputTokens: number
+  costWei: string
+}
+
+export interface AiUsage {
+  since: string | null
+  totals: AiUsageTotals
+  byModel: Array<AiUsageTotals & { model: string; inputPer1M?: number; outputPer1M?: number }>
+  byMember: Array<AiUsageTotals & { memberAddress: string | null }>
+  byTool: Array<{ tool: string; count: number }>
+  budgets: AiBudgetStatus[]
+}
+
+export async function fetchAiBudgets(chatId: string): Promise<AiBudget[]> {
+  return apiRequest<AiBudget[]>(`/chat/${chatId}/ai/budgets`)
+}
+
+/**
+ * Create or replace the budget for a scope/member/period
+ */
+export async function setAiBudget(
+  chatId: string,
+  budget: {
+    scope: AiBudget['scope']
+    memberAddress?: string | null
+    period: AiBudgetPeriod
+    limitWei: string
+    warnAtPercent?: number
+  }
+): Promise<AiBudget> {
+  return apiRequest<AiBudget>(`/chat/${chatId}/ai/budgets`, {
+    method: 'PUT',
+    body: JSON.stringify(budget),
+  })
+}
+
+export async function deleteAiBudget(chatId: string, budgetId: string): Promise<void> {
+  await apiRequest<void>(`/chat/${chatId}/ai/budgets/${budgetId}`, {
+    method: 'DELETE',
+  })
+}
+
+export async function fetchAiUsage(
+  chatId: string,
+  period: AiBudgetPeriod | 'all' = 'monthly'
+): Promise<AiUsage> {
+  return apiRequest<AiUsage>(`/chat/${chatId}/ai/usage?period=${period}`)
+}
+
+// ============================================================================
+// Watchers (scheduled project reports)
+// ============================================================================
+
+export type WatcherInterval = 'weekly' | 'monthly'
+export type WatcherComponent = 'project-card' | 'volume-chart'
+
+export interface ChatWatcher {
+  id: string
+  chatId: string
+  projectId: number
+  chainId: number
+  interval: WatcherInterval
+  component: WatcherComponent
+  instructions: string | null
+  createdByAddress: string
+  status: 'active' | 'paused'
+  pauseReason: string | null
+  nextRunAt: string
+  lastRunAt: string | null
+  consecutiveFailures: number
+  createdAt: string
+}
+
+export interface ChatWatcherRun {
+  id: string
+  messageId: string | null
+  status: 'posted' | 'failed'
+  errorMessage: string | null
+  inputTokens: number | null
+  outputTokens: number | null
+  createdAt: string
+}
+
+export async function fetchWatchers(chatId: string): Promise<ChatWatcher[]> {
+  return apiRequest<ChatWatcher[]>(`/chat/${chatId}/ai/watchers`)
+}
+
+/**
+ * Schedule a report; the first one posts at startAt (default: within minutes)
+ */
+export async function createWatcher(
+  chatId: string,
+  watcher: {
+    projectId: number
+    chainId: number
+    interval: WatcherInterval
+    component?: WatcherComponent
+    instructions?: string
+    startAt?: string
+  }
+): Promise<ChatWatcher> {
+  return apiRequest<ChatWatcher>(`/chat/${chatId}/ai/watchers`, {
+    method: 'POST',
+    body: JSON.stringify(watcher),
+  })
+}
+
+export async function setWatcherPaused(chatId: string, watcherId: string, paused: boolean): Promise<ChatWatcher> {
+  return apiRequest<ChatWatcher>(`/chat/${chatId}/ai/watchers/${watcherId}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ status: paused ? 'paused' : 'active' }),
+  })
+}
+
+export async function deleteWatcher(chatId: string, watcherId: string): Promise<void> {
+  await apiRequest<void>(`/chat/${chatId}/ai/watchers/${watcherId}`, {
+    method: 'DELETE',
+  })
+}
+
+export async function fetchWatcherRuns(chatId: string, watcherId: string): Promise<ChatWatcherRun[]> {
+  return apiRequest<ChatWatcherRun[]>(`/chat/${chatId}/ai/watchers/${watcherId}/runs`)
+}
+
+// ============================================================================
+// AI Tools (steps and approvals)
+// ============================================================================
+
+export type ToolApproval = ToolCallStep['approval']
+
+export interface ToolPolicyEntry {
+  name: string
+  description: string
+  sideEffects: boolean // Side-effecting tools always need at least the requester's approval
+  approval: ToolApproval
+}
+
+export async function fetchToolPolicy(chatId: string): Promise<ToolPolicyEntry[]> {
+  return apiRequest<ToolPolicyEntry[]>(`/chat/${chatId}/ai/tools`)
+}
+
+export async function setToolApproval(chatId: string, toolName: string, approval: ToolApproval): Promise<ToolPolicyEntry[]> {
+  return apiRequest<ToolPolicyEntry[]>(`/chat/${chatId}/ai/tools/policy`, {
+    method: 'PUT',
+    body: JSON.stringify({ toolName, approval }),
+  })
+}
+
+export async function decideToolCall(chatId: string, callId: string, approve: boolean): Promise<ToolCallStep> {
+  return apiRequest<ToolCallStep>(`/chat/${chatId}/ai/tool-calls/${callId}/decision`, {
+    method: 'POST',
+    body: JSON.stringify({ approve }),
+  })
+}
+
 // ============================================================================
 // Feedback
 // ============================================================================
@@ -549,6 +956,12 @@ export interface WsMessage {
     | 'member_left'
     | 'member_update' // Member profile updates (emoji, etc.)
     | 'chat_update' // Chat metadata updates (title, etc.)
+    | 'message_edited' // Message content edited in place
+    | 'reactions' // Reactions on a message changed
+    | 'branch_changed' // Active conversation branch changed (refetch messages)
+    | 'ai_budget' // AI budget warning or hard stop
+    | 'tool_call' // AI tool step started, awaiting approval, decided or finished
+    | 'citations' // Document passages an AI reply cited
     | 'component_interaction' // Real-time component collaboration
     | 'error'
     | 'connection_status' // Internal status messages
@@ -43,6 +43,39 @@ export function getMemberPermissionLevel(member: ChatMember): ChatPermissionLeve
   return 'view-and-write-and-invite'
 }
 
+export interface MessageReaction {
+  emoji: string
+  count: number
+  members: string[] // Addresses, in the order they reacted
+}
+
+// A tool the AI called while answering (see backend aiToolCalls.ts)
+export interface ToolCallStep {
+  id: string
+  toolUseId: string
+  toolName: string
+  input: Record<string, unknown>
+  approval: 'none' | 'requester' | 'admin' // Who must approve before it runs
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'declined' | 'expired'
+  output?: string
+  error?: string
+  requestedByAddress: string
+  decidedByAddress?: string
+  createdAt: string
+  completedAt?: string
+}
+
+// A document passage an AI reply cited as [marker] (see backend chatKnowledge.ts)
+export interface MessageCitation {
+  marker: number
+  chunkId: string
+  sourceMessageId: string // Message the document was uploaded with
+  sourceName: string
+  chunkIndex: number
+  heading: string | null
+  content: string
+}
+
 export interface ChatMessage {
   id: string
   chatId: string
@@ -51,10 +84,15 @@ export interface ChatMessage {
   role: 'user' | 'assistant' | 'system'
   content: string
   isEncrypted: boolean
-  replyToId?: string
+  replyToId?: string // Thread root this message replies to
   createdAt: string
+  editedAt?: string
   isStreaming?: boolean
   attachments?: Attachment[]
+  reactions?: MessageReaction[]
+  replyCount?: number // Replies in this message's thread (server count at fetch time)
+  toolCalls?: ToolCallStep[]
+  citations?: MessageCitation[]
 }
 
 export interface ChatFolder {
@@ -151,7 +189,7 @@ interface ChatState {
 
   // Message actions
   addMessage: (chatId: string, message: ChatMessage) => void
-  updateMessage: (chatId: string, messageId: string, updates: Partial<Pick<ChatMessage, 'content' | 'isStreaming'>>) => void
+  updateMessage: (chatId: string, messageId: string, updates: Partial<Pick<ChatMessage, 'content' | 'isStreaming' | 'editedAt' | 'reactions' | 'toolCalls' | 'citations'>>) => void
   setMessages: (chatId: string, messages: ChatMessage[]) => void
 
   // Member actions
@@ -478,7 +516,14 @@ export interface Message {
   senderName?: string
   senderAddress?: string
   createdAt?: string
+  editedAt?: string
   needsJuicyId?: boolean // Show "Add your Juicy ID" prompt instead of sender name
+  canEdit?: boolean // Current user's own, unencrypted prompt
+  replyToId?: string
+  reactions?: MessageReaction[]
+  replyCount?: number
+  toolCalls?: ToolCallStep[]
+  citations?: MessageCitation[]
 }
 
 export interface Conversation {
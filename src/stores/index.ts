@@ -5,6 +5,9 @@ export {
   type ChatFolder,
   type ChatMessage,
   type ChatMember,
+  type MessageReaction,
+  type ToolCallStep,
+  type MessageCitation,
   type CreateChatParams,
   // Display types for UI components
   type Message,
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest'
+import {
+  chatExportToMarkdown,
+  describeComponentState,
+  exportFilename,
+  parseChatExport,
+  withDecryptedContent,
+} from './chatExport'
+import type { ChatExport, ChatExportMessage } from '../services/chat'
+import type { ChatMessage } from '../stores/chatStore'
+
+const ALICE = '0x00000000000000000000000000000000000a11ce'
+const BOB = '0x0000000000000000000000000000000000000b0b'
+
+function makeExport(messages: Partial<ChatExportMessage>[]): ChatExport {
+  return {
+    format: 'juicy-chat',
+    version: 1,
+    exportedAt: '2026-03-02T09:00:00.000Z',
+    chat: {
+      id: 'chat-1',
+      name: 'Treasury Planning',
+      founderAddress: ALICE,
+      encrypted: false,
+      createdAt: '2026-03-01T00:00:00.000Z',
+    },
+    members: [
+      { address: ALICE, role: 'founder' },
+      { address: BOB, role: 'member', displayName: 'bob.eth' },
+    ],
+    messages: messages.map((m, i) => ({
+      id: `msg-${i}`,
+      role: 'user',
+      senderAddress: ALICE,
+      content: '',
+      isEncrypted: false,
+      createdAt: `2026-03-01T12:0${i}:00.000Z`,
+      componentStates: {},
+      ...m,
+    })),
+  }
+}
+
+describe('describeComponentState', () => {
+  it('summarizes a completed multi-chain deploy', () => {
+    expect(describeComponentState('transaction-preview', {
+      status: 'completed',
+      txHashes: { 1: '0xaaa', 10: '0xbbb' },
+      projectIds: { 1: 42 },
+    })).toBe('Transaction preview: completed (tx 0xaaa on chain 1, tx 0xbbb on chain 10, project #42 on chain 1)')
+  })
+
+  it('includes the error only for failed states', () => {
+    expect(describeComponentState('project-card-payment', { status: 'failed', error: 'User rejected' }))
+      .toBe('Project card payment: failed (User rejected)')
+    expect(describeComponentState('project-card-payment', { status: 'pending', error: 'stale' }))
+      .toBe('Project card payment: not submitted')
+  })
+})
+
+describe('chatExportToMarkdown', () => {
+  it('replaces component tags with summaries and appends component states', () => {
+    const md = chatExportToMarkdown(makeExport([
+      { content: 'Deploy my project' },
+      {
+        role: 'assistant',
+        senderAddress: '0x0000000000000000000000000000000000000000',
+        content: 'Here you go:\n<juice-component type="cash-out-form" projectId="1" />',
+        componentStates: { 'cash-out-form': { status: 'completed', txHash: '0xfeed' } },
+      },
+      { senderAddress: BOB, content: 'Looks good' },
+    ]), ALICE)
+
+    expect(md).toContain('# Treasury Planning')
+    expect(md).toContain('**You** · 2026-03-01 12:00 UTC')
+    expect(md).toContain('**Juicy** · 2026-03-01 12:01 UTC')
+    expect(md).toContain('Here you go:\n[Cash out form]')
+    expect(md).toContain('> Cash out form: completed (tx 0xfeed)')
+    expect(md).toContain('**bob.eth**')
+    expect(md).not.toContain('<juice-component')
+  })
+
+  it('marks messages that could not be decrypted', () => {
+    const md = chatExportToMarkdown(makeExport([{ content: 'b64==', isEncrypted: true }]))
+    expect(md).toContain('*[Encrypted message]*')
+    expect(md).not.toContain('b64==')
+  })
+})
+
+describe('withDecryptedContent', () => {
+  it('swaps in plaintext for loaded encrypted messages only', () => {
+    const data = makeExport([
+      { content: 'cipher-0', isEncrypted: true },
+      { content: 'cipher-1', isEncrypted: true },
+    ])
+    const loaded = [{ id: 'msg-0', content: 'hello', isEncrypted: true }] as ChatMessage[]
+
+    const merged = withDecryptedContent(data, loaded)
+    expect(merged.messages[0]).toMatchObject({ content: 'hello', isEncrypted: false })
+    expect(merged.messages[1]).toMatchObject({ content: 'cipher-1', isEncrypted: true })
+  })
+})
+
+describe('parseChatExport', () => {
+  it('accepts an export file', () => {
+    const data = makeExport([{ content: 'hi' }])
+    expect(parseChatExport(JSON.stringify(data))).toEqual(data)
+  })
+
+  it('rejects other files with a readable error', () => {
+    expect(() => parseChatExport('not json')).toThrow('File is not valid JSON')
+    expect(() => parseChatExport('{"messages":[]}')).toThrow('File is not a chat export')
+  })
+})
+
+describe('exportFilename', () => {
+  it('slugs the chat name', () => {
+    expect(exportFilename(makeExport([]), 'markdown')).toBe('treasury-planning.md')
+    expect(exportFilename(makeExport([]), 'json')).toBe('treasury-planning.json')
+  })
+})
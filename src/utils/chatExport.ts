@@ -0,0 +1,141 @@
+/**
+ * Client-side helpers for chat export.
+ *
+ * The backend (GET /chat/:chatId/export) returns a JSON transcript with each
+ * message's component states. Encrypted chats come back as ciphertext, so the
+ * plaintext already decrypted in the chat store is swapped in here before the
+ * file is written. Markdown is rendered here too, replacing raw component tags
+ * with the readable summaries from stripComponents.
+ */
+
+import { stripComponents } from './messageParser'
+import { truncateAddress } from './ens'
+import type { ChatMessage } from '../stores/chatStore'
+import type { ChatExport, ExportedComponentState } from '../services/chat'
+
+export type ChatExportFormat = 'markdown' | 'json'
+
+const STATUS_LABELS: Record<ExportedComponentState['status'], string> = {
+  pending: 'not submitted',
+  in_progress: 'in progress',
+  completed: 'completed',
+  failed: 'failed',
+}
+
+/**
+ * Replace ciphertext with the decrypted content loaded in the store
+ */
+export function withDecryptedContent(data: ChatExport, loaded: ChatMessage[]): ChatExport {
+  const plaintext = new Map(loaded.map(m => [m.id, m.content]))
+
+  return {
+    ...data,
+    messages: data.messages.map(message => {
+      if (!message.isEncrypted) return message
+      const content = plaintext.get(message.id)
+      return content === undefined ? message : { ...message, content, isEncrypted: false }
+    }),
+  }
+}
+
+/**
+ * One-line summary of a persisted component state, e.g.
+ * "Transaction preview: completed (tx 0xabc… on chain 1)"
+ */
+export function describeComponentState(key: string, state: ExportedComponentState): string {
+  const label = key.charAt(0).toUpperCase() + key.slice(1).replace(/-/g, ' ')
+  const details: string[] = []
+
+  if (state.txHashes && typeof state.txHashes === 'object') {
+    for (const [chainId, hash] of Object.entries(state.txHashes as Record<string, string>)) {
+      details.push(`tx ${hash} on chain ${chainId}`)
+    }
+  }
+  if (typeof state.txHash === 'string') {
+    details.push(`tx ${state.txHash}`)
+  }
+  if (state.projectIds && typeof state.projectIds === 'object') {
+    for (const [chainId, projectId] of Object.entries(state.projectIds as Record<string, number>)) {
+      details.push(`project #${projectId} on chain ${chainId}`)
+    }
+  }
+  if (state.status === 'failed' && typeof state.error === 'string') {
+    details.push(state.error)
+  }
+
+  const status = STATUS_LABELS[state.status] ?? state.status
+  return details.length > 0 ? `${label}: ${status} (${details.join(', ')})` : `${label}: ${status}`
+}
+
+function senderLabel(
+  message: ChatExport['messages'][number],
+  names: Map<string, string>,
+  currentAddress?: string
+): string {
+  if (message.role === 'assistant') return 'Juicy'
+  if (message.role === 'system') return 'System'
+  const address = message.senderAddress.toLowerCase()
+  if (currentAddress && address === currentAddress.toLowerCase()) return 'You'
+  return names.get(address) || truncateAddress(message.senderAddress)
+}
+
+/**
+ * Render a transcript as Markdown with component summaries instead of raw tags
+ */
+export function chatExportToMarkdown(data: ChatExport, currentAddress?: string): string {
+  const title = data.chat.name || 'Chat'
+  const names = new Map(
+    data.members
+      .filter(m => m.displayName)
+      .map(m => [m.address.toLowerCase(), m.displayName!])
+  )
+  const date = new Date(data.exportedAt).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  })
+
+  let md = `# ${title}\n\n`
+  if (data.chat.description) md += `${data.chat.description}\n\n`
+  md += `*Exported on ${date}*\n\n---\n\n`
+
+  for (const message of data.messages) {
+    const time = new Date(message.createdAt).toISOString().slice(0, 16).replace('T', ' ')
+    md += `**${senderLabel(message, names, currentAddress)}** · ${time} UTC\n\n`
+    md += message.isEncrypted ? '*[Encrypted message]*' : stripComponents(message.content)
+    md += '\n\n'
+
+    const states = Object.entries(message.componentStates)
+    if (states.length > 0) {
+      md += states.map(([key, state]) => `> ${describeComponentState(key, state)}`).join('\n') + '\n\n'
+    }
+
+    md += '---\n\n'
+  }
+
+  return md
+}
+
+/**
+ * Parse an uploaded export file, throwing a readable error if it isn't one
+ */
+export function parseChatExport(text: string): ChatExport {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('File is not valid JSON')
+  }
+
+  const candidate = data as Partial<ChatExport> | null
+  if (!candidate || candidate.format !== 'juicy-chat' || !Array.isArray(candidate.messages) || !candidate.chat) {
+    throw new Error('File is not a chat export')
+  }
+
+  return candidate as ChatExport
+}
+
+export function exportFilename(data: ChatExport, format: ChatExportFormat): string {
+  const slug = (data.chat.name || 'chat').replace(/[^a-z0-9]/gi, '-').toLowerCase()
+  return `${slug}.${format === 'markdown' ? 'md' : 'json'}`
+}
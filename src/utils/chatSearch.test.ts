@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { buildSnippet, splitSnippet, searchLoadedMessages } from './chatSearch'
+import type { Chat, ChatMessage } from '../stores/chatStore'
+
+function makeChat(overrides: Partial<Chat>, messages: Partial<ChatMessage>[]): Chat {
+  return {
+    id: 'chat-1',
+    founderAddress: '0xfounder',
+    name: 'Treasury planning',
+    isPublic: false,
+    isPrivate: false,
+    aiBalanceWei: '0',
+    aiTotalSpentWei: '0',
+    encrypted: true,
+    encryptionVersion: 1,
+    isPinned: false,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    ...overrides,
+    messages: messages.map((m, i) => ({
+      id: `msg-${i}`,
+      chatId: overrides.id ?? 'chat-1',
+      senderAddress: '0xsender',
+      role: 'user',
+      content: '',
+      isEncrypted: true,
+      createdAt: `2026-01-0${i + 1}T00:00:00Z`,
+      ...m,
+    })),
+  }
+}
+
+describe('buildSnippet', () => {
+  it('highlights every occurrence case-insensitively', () => {
+    const { snippet, highlights } = buildSnippet('Payout splits: set the Payout limit first', ['payout'])
+    expect(snippet).toBe('Payout splits: set the Payout limit first')
+    expect(highlights).toEqual([[0, 6], [23, 29]])
+  })
+
+  it('centers long content on the first match', () => {
+    const content = `${'a '.repeat(100)}treasury ${'b '.repeat(100)}`
+    const { snippet, highlights } = buildSnippet(content, ['treasury'], 40)
+    expect(snippet.startsWith('…')).toBe(true)
+    expect(snippet.endsWith('…')).toBe(true)
+    expect(snippet.slice(highlights[0][0], highlights[0][1])).toBe('treasury')
+  })
+})
+
+describe('splitSnippet', () => {
+  it('splits around highlights', () => {
+    expect(splitSnippet('deploy the revnet now', [[11, 17]])).toEqual([
+      { text: 'deploy the ', highlighted: false },
+      { text: 'revnet', highlighted: true },
+      { text: ' now', highlighted: false },
+    ])
+  })
+
+  it('ignores out-of-range highlights', () => {
+    expect(splitSnippet('short', [[2, 40]])).toEqual([{ text: 'short', highlighted: false }])
+  })
+})
+
+describe('searchLoadedMessages', () => {
+  it('matches all terms in decrypted messages of encrypted chats', () => {
+    const chats = [
+      makeChat({}, [
+        { content: 'Set the payout limit to 5 ETH' },
+        { content: 'What about the payout splits?' },
+        { content: 'Reserved rate is 10%' },
+      ]),
+    ]
+
+    const results = searchLoadedMessages(chats, 'payout limit')
+    expect(results.map(r => r.messageId)).toEqual(['msg-0'])
+    expect(results[0].matchType).toBe('local')
+    expect(results[0].chatName).toBe('Treasury planning')
+  })
+
+  it('skips unencrypted chats (searched server-side)', () => {
+    const chats = [makeChat({ encrypted: false }, [{ content: 'payout limit' }])]
+    expect(searchLoadedMessages(chats, 'payout')).toEqual([])
+  })
+
+  it('returns newest matches first', () => {
+    const chats = [makeChat({}, [{ content: 'payout one' }, { content: 'payout two' }])]
+    expect(searchLoadedMessages(chats, 'payout').map(r => r.messageId)).toEqual(['msg-1', 'msg-0'])
+  })
+})
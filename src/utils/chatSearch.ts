@@ -0,0 +1,133 @@
+/**
+ * Client-side helpers for chat search.
+ *
+ * The backend (GET /chat/search) never sees plaintext of encrypted chats, so
+ * those are searched here over messages already loaded and decrypted in the
+ * chat store. Snippets use the same { snippet, highlights } shape as the API.
+ */
+
+import type { Chat } from '../stores/chatStore'
+import type { ChatSearchResult } from '../services/chat'
+
+const SNIPPET_LENGTH = 160
+
+export interface SnippetSegment {
+  text: string
+  highlighted: boolean
+}
+
+/**
+ * Words from a search query, minus websearch operators and excluded terms
+ * (mirrors extractSearchTerms in backend/src/services/chatSearch.ts)
+ */
+export function extractSearchTerms(query: string): string[] {
+  return query
+    .replace(/"/g, ' ')
+    .split(/\s+/)
+    .filter(term => term.length > 0 && !term.startsWith('-') && term.toLowerCase() !== 'or')
+}
+
+/**
+ * Build a snippet around the first matching term with highlight offsets
+ */
+export function buildSnippet(
+  content: string,
+  terms: string[],
+  maxLength = SNIPPET_LENGTH
+): { snippet: string; highlights: [number, number][] } {
+  const text = content.replace(/\s+/g, ' ').trim()
+  const lower = text.toLowerCase()
+  const needles = terms.map(term => term.toLowerCase()).filter(term => term.length > 0)
+
+  const firstMatch = needles
+    .map(needle => lower.indexOf(needle))
+    .filter(index => index >= 0)
+    .sort((a, b) => a - b)[0] ?? 0
+
+  const end = Math.min(text.length, Math.max(0, firstMatch - Math.floor(maxLength / 4)) + maxLength)
+  const start = Math.max(0, end - maxLength)
+
+  const snippet = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`
+
+  const snippetLower = snippet.toLowerCase()
+  const ranges: [number, number][] = []
+  for (const needle of needles) {
+    let index = snippetLower.indexOf(needle)
+    while (index >= 0) {
+      ranges.push([index, index + needle.length])
+      index = snippetLower.indexOf(needle, index + needle.length)
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0] || b[1] - a[1])
+
+  const highlights: [number, number][] = []
+  for (const range of ranges) {
+    const last = highlights[highlights.length - 1]
+    if (!last || range[0] >= last[1]) {
+      highlights.push(range)
+    }
+  }
+
+  return { snippet, highlights }
+}
+
+/**
+ * Split a snippet into plain and highlighted segments for rendering
+ */
+export function splitSnippet(snippet: string, highlights: [number, number][]): SnippetSegment[] {
+  const segments: SnippetSegment[] = []
+  let cursor = 0
+
+  for (const [start, end] of highlights) {
+    if (start < cursor || end > snippet.length) continue
+    if (start > cursor) {
+      segments.push({ text: snippet.slice(cursor, start), highlighted: false })
+    }
+    segments.push({ text: snippet.slice(start, end), highlighted: true })
+    cursor = end
+  }
+
+  if (cursor < snippet.length) {
+    segments.push({ text: snippet.slice(cursor), highlighted: false })
+  }
+
+  return segments
+}
+
+/**
+ * Search messages of encrypted chats that are loaded (and decrypted) locally.
+ * Every term must appear in a message for it to match.
+ */
+export function searchLoadedMessages(chats: Chat[], query: string, limit = 20): ChatSearchResult[] {
+  const terms = extractSearchTerms(query).map(term => term.toLowerCase())
+  if (terms.length === 0) return []
+
+  const results: ChatSearchResult[] = []
+
+  for (const chat of chats) {
+    if (!chat.encrypted || !chat.messages) continue
+
+    for (const message of chat.messages) {
+      if (message.role === 'system' || message.isStreaming) continue
+
+      const content = message.content.toLowerCase()
+      if (!terms.every(term => content.includes(term))) continue
+
+      results.push({
+        chatId: chat.id,
+        chatName: chat.autoGeneratedTitle || chat.name || null,
+        messageId: message.id,
+        role: message.role,
+        senderAddress: message.senderAddress,
+        ...buildSnippet(message.content, terms),
+        matchType: 'local',
+        score: 0,
+        createdAt: message.createdAt,
+      })
+    }
+  }
+
+  return results
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .slice(0, limit)
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { getDefaultCurrency, getPurchaseTotal, formatCurrency, isPurchaseCurrency } from './currency'
+
+describe('getDefaultCurrency', () => {
+  it('maps regional locales to their currency', () => {
+    expect(getDefaultCurrency('pt-BR')).toBe('BRL')
+    expect(getDefaultCurrency('es-MX')).toBe('MXN')
+    expect(getDefaultCurrency('en-GB')).toBe('GBP')
+    expect(getDefaultCurrency('zh-CN')).toBe('CNY')
+  })
+
+  it('uses EUR for eurozone regions', () => {
+    expect(getDefaultCurrency('de-DE')).toBe('EUR')
+    expect(getDefaultCurrency('pt-PT')).toBe('EUR')
+    expect(getDefaultCurrency('es-ES')).toBe('EUR')
+  })
+
+  it('handles script subtags and underscores', () => {
+    expect(getDefaultCurrency('zh-Hans-CN')).toBe('CNY')
+    expect(getDefaultCurrency('pt_BR')).toBe('BRL')
+  })
+
+  it('falls back to the language when there is no region', () => {
+    expect(getDefaultCurrency('pt')).toBe('BRL')
+    expect(getDefaultCurrency('zh')).toBe('CNY')
+    expect(getDefaultCurrency('es')).toBe('USD')
+  })
+
+  it('defaults to USD', () => {
+    expect(getDefaultCurrency(undefined)).toBe('USD')
+    expect(getDefaultCurrency('en-US')).toBe('USD')
+    expect(getDefaultCurrency('ja-JP')).toBe('USD')
+  })
+})
+
+describe('getPurchaseTotal', () => {
+  it('matches the backend rounding', () => {
+    expect(getPurchaseTotal(100, 1.05, 1)).toBe(105)
+    expect(getPurchaseTotal(100, 1.05, 5.4321)).toBe(570.37)
+  })
+})
+
+describe('formatCurrency', () => {
+  it('formats with the currency symbol', () => {
+    expect(formatCurrency(10.5, 'USD', 'en-US')).toBe('$10.50')
+    expect(formatCurrency(10.5, 'EUR', 'en-US')).toBe('€10.50')
+  })
+})
+
+describe('isPurchaseCurrency', () => {
+  it('only accepts supported codes', () => {
+    expect(isPurchaseCurrency('BRL')).toBe(true)
+    expect(isPurchaseCurrency('JPY')).toBe(false)
+  })
+})
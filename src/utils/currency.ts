@@ -0,0 +1,67 @@
+/**
+ * Local currency helpers for Pay Credits purchases.
+ *
+ * Credits are priced in USD; the backend converts to the buyer's
+ * presentment currency at checkout (GET /juice/rate?currency=).
+ */
+
+// Must match PURCHASE_CURRENCIES in backend/src/services/fx.ts
+export const PURCHASE_CURRENCIES = ['USD', 'EUR', 'GBP', 'BRL', 'MXN', 'CNY', 'CAD', 'AUD'] as const
+export type PurchaseCurrency = (typeof PURCHASE_CURRENCIES)[number]
+
+const EUROZONE = new Set([
+  'AT', 'BE', 'CY', 'DE', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR',
+  'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'SI', 'SK',
+])
+
+const REGION_CURRENCY: Record<string, PurchaseCurrency> = {
+  BR: 'BRL',
+  MX: 'MXN',
+  GB: 'GBP',
+  CN: 'CNY',
+  CA: 'CAD',
+  AU: 'AUD',
+}
+
+// Fallback when the locale has no region (e.g. "pt" rather than "pt-BR")
+const LANGUAGE_CURRENCY: Record<string, PurchaseCurrency> = {
+  pt: 'BRL',
+  zh: 'CNY',
+}
+
+export function isPurchaseCurrency(value: string): value is PurchaseCurrency {
+  return (PURCHASE_CURRENCIES as readonly string[]).includes(value)
+}
+
+/**
+ * Pick a purchase currency from a BCP 47 locale like "pt-BR" or "de-DE"
+ */
+export function getDefaultCurrency(locale: string | undefined): PurchaseCurrency {
+  if (!locale) return 'USD'
+
+  const [language, ...rest] = locale.replace('_', '-').split('-')
+  const region = rest.find(part => /^[A-Za-z]{2}$/.test(part))?.toUpperCase()
+
+  if (region) {
+    if (REGION_CURRENCY[region]) return REGION_CURRENCY[region]
+    if (EUROZONE.has(region)) return 'EUR'
+    return 'USD'
+  }
+
+  return LANGUAGE_CURRENCY[language.toLowerCase()] ?? 'USD'
+}
+
+/**
+ * Total charged for a number of credits, rounded the same way as the backend
+ */
+export function getPurchaseTotal(credits: number, creditRate: number, fxRate: number): number {
+  return Math.round(credits * creditRate * fxRate * 100) / 100
+}
+
+export function formatCurrency(amount: number, currency: string, locale?: string): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount)
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`
+  }
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest'
+import {
+  settlementReportToCsv,
+  settlementReportToHtml,
+  type SettlementReport,
+  type SettlementTotals,
+} from './settlementReport'
+
+const totals: SettlementTotals = {
+  sessions: 4,
+  completed: 2,
+  failed: 1,
+  expired: 1,
+  cancelled: 0,
+  open: 0,
+  grossUsd: 30,
+  tipsUsd: 4.5,
+  refunds: 1,
+  refundedUsd: 5,
+  netUsd: 29.5,
+}
+
+const makeReport = (overrides: Partial<SettlementReport> = {}): SettlementReport => ({
+  from: '2026-03-01',
+  to: '2026-03-01',
+  timezone: 'America/New_York',
+  generatedAt: '2026-03-02T05:00:00.000Z',
+  totals,
+  byDevice: [{ ...totals, deviceId: 'device-1', deviceName: 'Front, Counter' }],
+  byPaymentMethod: [
+    { method: 'juice', payments: 1, grossUsd: 10, tipsUsd: 1.5 },
+    { method: 'wallet', payments: 1, grossUsd: 20, tipsUsd: 3 },
+  ],
+  byHour: [{ hour: '2026-03-01 09:00', payments: 2, grossUsd: 30, tipsUsd: 4.5 }],
+  tokensIssued: [{ projectId: 42, chainId: 42161, payments: 2, tokensIssued: '30000000000000000000000' }],
+  sessions: [
+    {
+      id: 'session-1',
+      deviceName: 'Front, Counter',
+      createdAt: '2026-03-01 09:15:00',
+      status: 'completed',
+      paymentMethod: 'juice',
+      amountUsd: 10,
+      tipUsd: 1.5,
+      refundedAmountUsd: 0,
+      tokensIssued: '10000000000000000000000',
+      txHash: '0xabc',
+    },
+    {
+      id: 'session-2',
+      deviceName: 'Front, Counter',
+      createdAt: '2026-03-01 09:40:00',
+      status: 'expired',
+      paymentMethod: null,
+      amountUsd: 7,
+      tipUsd: 0,
+      refundedAmountUsd: 0,
+      tokensIssued: null,
+      txHash: null,
+    },
+  ],
+  truncated: false,
+  ...overrides,
+})
+
+describe('settlementReportToCsv', () => {
+  it('includes the report range and timezone', () => {
+    const csv = settlementReportToCsv(makeReport())
+
+    expect(csv).toContain('From,2026-03-01')
+    expect(csv).toContain('Timezone,America/New_York')
+  })
+
+  it('formats summary totals with two decimals', () => {
+    const lines = settlementReportToCsv(makeReport()).split('\n')
+    const summaryIndex = lines.indexOf('Summary')
+
+    expect(lines[summaryIndex + 2]).toBe('4,2,1,1,0,0,30.00,4.50,1,5.00,29.50')
+  })
+
+  it('quotes cells containing commas', () => {
+    const csv = settlementReportToCsv(makeReport())
+
+    expect(csv).toContain('"Front, Counter",4,2,1,1,0,0,30.00,4.50,1,5.00,29.50')
+  })
+
+  it('escapes embedded quotes', () => {
+    const report = makeReport({
+      byDevice: [{ ...totals, deviceId: 'device-1', deviceName: 'The "Main" Bar' }],
+    })
+
+    expect(settlementReportToCsv(report)).toContain('"The ""Main"" Bar"')
+  })
+
+  it('lists every session with empty cells for missing values', () => {
+    const csv = settlementReportToCsv(makeReport())
+
+    expect(csv).toContain('session-1,2026-03-01 09:15:00,"Front, Counter",completed,juice,10.00,1.50,0.00,10000000000000000000000,0xabc')
+    expect(csv).toContain('session-2,2026-03-01 09:40:00,"Front, Counter",expired,,7.00,0.00,0.00,,')
+  })
+
+  it('includes per-method, per-hour and token breakdowns', () => {
+    const csv = settlementReportToCsv(makeReport())
+
+    expect(csv).toContain('wallet,1,20.00,3.00')
+    expect(csv).toContain('2026-03-01 09:00,2,30.00,4.50')
+    expect(csv).toContain('42,42161,2,30000000000000000000000')
+  })
+
+  it('notes when the session list was truncated', () => {
+    expect(settlementReportToCsv(makeReport())).not.toContain('Only the first')
+    expect(settlementReportToCsv(makeReport({ truncated: true }))).toContain('Only the first 2 sessions are listed')
+  })
+})
+
+describe('settlementReportToHtml', () => {
+  it('titles single-day reports with the date', () => {
+    const html = settlementReportToHtml(makeReport())
+
+    expect(html).toContain('<title>Settlement Report 2026-03-01</title>')
+  })
+
+  it('titles multi-day reports with the range', () => {
+    const html = settlementReportToHtml(makeReport({ to: '2026-03-07' }))
+
+    expect(html).toContain('Settlement Report 2026-03-01 to 2026-03-07')
+  })
+
+  it('escapes terminal and merchant names', () => {
+    const report = makeReport({
+      byDevice: [{ ...totals, deviceId: 'device-1', deviceName: '<script>alert(1)</script>' }],
+    })
+    const html = settlementReportToHtml(report, 'Bob & Co')
+
+    expect(html).not.toContain('<script>')
+    expect(html).toContain('&lt;script&gt;')
+    expect(html).toContain('Bob &amp; Co')
+  })
+
+  it('shows a placeholder for empty breakdowns', () => {
+    const html = settlementReportToHtml(makeReport({ tokensIssued: [] }))
+
+    expect(html).toContain('<p class="empty">None</p>')
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * PayTerm settlement report formatting.
+ *
+ * Turns the report returned by GET /terminal/reports/settlement into a
+ * downloadable CSV and a printable HTML document.
+ */
+
+export interface SettlementTotals {
+  sessions: number
+  completed: number
+  failed: number
+  expired: number
+  cancelled: number
+  open: number
+  grossUsd: number
+  tipsUsd: number
+  refunds: number
+  refundedUsd: number
+  netUsd: number
+}
+
+export interface SettlementReport {
+  from: string
+  to: string
+  timezone: string
+  generatedAt: string
+  totals: SettlementTotals
+  byDevice: (SettlementTotals & { deviceId: string; deviceName: string })[]
+  byPaymentMethod: { method: string; payments: number; grossUsd: number; tipsUsd: number }[]
+  byHour: { hour: string; payments: number; grossUsd: number; tipsUsd: number }[]
+  tokensIssued: { projectId: number; chainId: number; payments: number; tokensIssued: string }[]
+  sessions: {
+    id: string
+    deviceName: string
+    createdAt: string
+    status: string
+    paymentMethod: string | null
+    amountUsd: number
+    tipUsd: number
+    refundedAmountUsd: number
+    tokensIssued: string | null
+    txHash: string | null
+  }[]
+  truncated: boolean
+}
+
+const usd = (amount: number) => amount.toFixed(2)
+
+function csvCell(value: string | number | boolean | null): string {
+  if (value === null) return ''
+  const str = String(value)
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
+}
+
+const csvRow = (cells: (string | number | boolean | null)[]) => cells.map(csvCell).join(',')
+
+/**
+ * CSV with one section per breakdown, separated by blank lines,
+ * followed by every session in the range.
+ */
+export function settlementReportToCsv(report: SettlementReport): string {
+  const { totals } = report
+  const lines = [
+    csvRow(['Settlement Report']),
+    csvRow(['From', report.from]),
+    csvRow(['To', report.to]),
+    csvRow(['Timezone', report.timezone]),
+    csvRow(['Generated', report.generatedAt]),
+    '',
+    csvRow(['Summary']),
+    csvRow(['Sessions', 'Completed', 'Failed', 'Expired', 'Cancelled', 'Open', 'Gross USD', 'Tips USD', 'Refunds', 'Refunded USD', 'Net USD']),
+    csvRow([
+      totals.sessions, totals.completed, totals.failed, totals.expired, totals.cancelled, totals.open,
+      usd(totals.grossUsd), usd(totals.tipsUsd), totals.refunds, usd(totals.refundedUsd), usd(totals.netUsd),
+    ]),
+    '',
+    csvRow(['By Terminal']),
+    csvRow(['Terminal', 'Sessions', 'Completed', 'Failed', 'Expired', 'Cancelled', 'Open', 'Gross USD', 'Tips USD', 'Refunds', 'Refunded USD', 'Net USD']),
+    ...report.byDevice.map(d => csvRow([
+      d.deviceName, d.sessions, d.completed, d.failed, d.expired, d.cancelled, d.open,
+      usd(d.grossUsd), usd(d.tipsUsd), d.refunds, usd(d.refundedUsd), usd(d.netUsd),
+    ])),
+    '',
+    csvRow(['By Payment Method']),
+    csvRow(['Method', 'Payments', 'Gross USD', 'Tips USD']),
+    ...report.byPaymentMethod.map(m => csvRow([m.method, m.payments, usd(m.grossUsd), usd(m.tipsUsd)])),
+    '',
+    csvRow(['By Hour']),
+    csvRow(['Hour', 'Payments', 'Gross USD', 'Tips USD']),
+    ...report.byHour.map(h => csvRow([h.hour, h.payments, usd(h.grossUsd), usd(h.tipsUsd)])),
+    '',
+    csvRow(['Tokens Issued']),
+    csvRow(['Project', 'Chain', 'Payments', 'Tokens Issued']),
+    ...report.tokensIssued.map(t => csvRow([t.projectId, t.chainId, t.payments, t.tokensIssued])),
+    '',
+    csvRow(['Sessions']),
+    csvRow(['ID', 'Created', 'Terminal', 'Status', 'Method', 'Amount USD', 'Tip USD', 'Refunded USD', 'Tokens Issued', 'Tx Hash']),
+    ...report.sessions.map(s => csvRow([
+      s.id, s.createdAt, s.deviceName, s.status, s.paymentMethod,
+      usd(s.amountUsd), usd(s.tipUsd), usd(s.refundedAmountUsd), s.tokensIssued, s.txHash,
+    ])),
+  ]
+
+  if (report.truncated) {
+    lines.push(csvRow([`Only the first ${report.sessions.length} sessions are listed; totals cover the full range`]))
+  }
+
+  return lines.join('\n')
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+function htmlTable(headers: string[], rows: (string | number)[][]): string {
+  if (rows.length === 0) return '<p class="empty">None</p>'
+  const head = headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')
+  const body = rows
+    .map(row => `<tr>${row.map(cell => `<td>${escapeHtml(String(cell))}</td>`).join('')}</tr>`)
+    .join('')
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`
+}
+
+/**
+ * Standalone HTML document for printing or saving as PDF.
+ * Lists the breakdowns only; the per-session ledger is in the CSV.
+ */
+export function settlementReportToHtml(report: SettlementReport, merchantName?: string): string {
+  const { totals } = report
+  const range = report.from === report.to ? report.from : `${report.from} to ${report.to}`
+  const title = `Settlement Report ${range}`
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: -apple-system, system-ui, sans-serif; color: #111; margin: 32px; font-size: 12px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 24px 0 8px; }
+  .meta { color: #555; margin: 0 0 16px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border-bottom: 1px solid #ddd; padding: 4px 8px; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  th { font-weight: 600; }
+  .empty { color: #777; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${merchantName ? `${escapeHtml(merchantName)} &middot; ` : ''}${escapeHtml(report.timezone)} &middot; Generated ${escapeHtml(new Date(report.generatedAt).toLocaleString())}</p>
+<h2>Summary</h2>
+${htmlTable(
+  ['Gross', 'Tips', 'Refunded', 'Net', 'Completed', 'Failed', 'Expired', 'Cancelled', 'Open'],
+  [[
+    `$${usd(totals.grossUsd)}`, `$${usd(totals.tipsUsd)}`, `$${usd(totals.refundedUsd)}`, `$${usd(totals.netUsd)}`,
+    totals.completed, totals.failed, totals.expired, totals.cancelled, totals.open,
+  ]],
+)}
+<h2>By Terminal</h2>
+${htmlTable(
+  ['Terminal', 'Completed', 'Failed', 'Expired', 'Gross', 'Tips', 'Refunded', 'Net'],
+  report.byDevice.map(d => [
+    d.deviceName, d.completed, d.failed, d.expired,
+    `$${usd(d.grossUsd)}`, `$${usd(d.tipsUsd)}`, `$${usd(d.refundedUsd)}`, `$${usd(d.netUsd)}`,
+  ]),
+)}
+<h2>By Payment Method</h2>
+${htmlTable(
+  ['Method', 'Payments', 'Gross', 'Tips'],
+  report.byPaymentMethod.map(m => [m.method, m.payments, `$${usd(m.grossUsd)}`, `$${usd(m.tipsUsd)}`]),
+)}
+<h2>By Hour</h2>
+${htmlTable(
+  ['Hour', 'Payments', 'Gross', 'Tips'],
+  report.byHour.map(h => [h.hour, h.payments, `$${usd(h.grossUsd)}`, `$${usd(h.tipsUsd)}`]),
+)}
+<h2>Tokens Issued</h2>
+${htmlTable(
+  ['Project', 'Chain', 'Payments', 'Tokens'],
+  report.tokensIssued.map(t => [`#${t.projectId}`, t.chainId, t.payments, t.tokensIssued]),
+)}
+</body>
+</html>`
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { createSseParser, readSseStream } from './sse'
+
+describe('createSseParser', () => {
+  it('parses named events', () => {
+    const parse = createSseParser()
+    expect(parse('event: status\ndata: {"status":"running"}\n\n')).toEqual([
+      { event: 'status', data: '{"status":"running"}' },
+    ])
+  })
+
+  it('defaults the event name to message', () => {
+    expect(createSseParser()('data: hi\n\n')).toEqual([{ event: 'message', data: 'hi' }])
+  })
+
+  it('joins multi-line data with newlines', () => {
+    const parse = createSseParser()
+    expect(parse('event: output\ndata: Compiling...\ndata: [PASS] test_Pay() (gas: 1)\n\n')).toEqual([
+      { event: 'output', data: 'Compiling...\n[PASS] test_Pay() (gas: 1)' },
+    ])
+  })
+
+  it('holds events split across chunks', () => {
+    const parse = createSseParser()
+    expect(parse('event: te')).toEqual([])
+    expect(parse('st\ndata: {"kind":')).toEqual([])
+    expect(parse('"suite_started"}\n')).toEqual([])
+    expect(parse('\nevent: ping\ndata: x\n\n')).toEqual([
+      { event: 'test', data: '{"kind":"suite_started"}' },
+      { event: 'ping', data: 'x' },
+    ])
+  })
+
+  it('handles CRLF line endings split between chunks', () => {
+    const parse = createSseParser()
+    expect(parse('data: a\r')).toEqual([])
+    expect(parse('\n\r\n')).toEqual([{ event: 'message', data: 'a' }])
+  })
+
+  it('keeps a single leading space out of values only', () => {
+    expect(createSseParser()('data:  indented\n\n')).toEqual([{ event: 'message', data: ' indented' }])
+  })
+
+  it('skips comments and events without data', () => {
+    expect(createSseParser()(': keep-alive\n\nevent: ping\n\n')).toEqual([])
+  })
+})
+
+describe('readSseStream', () => {
+  it('delivers every event, including an unterminated last one', async () => {
+    const response = new Response('event: output\ndata: a\n\nevent: done\ndata: {}')
+    const events: string[] = []
+    await readSseStream(response, (e) => events.push(`${e.event}:${e.data}`))
+    expect(events).toEqual(['output:a', 'done:{}'])
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * Reading server-sent events from a fetch response.
+ *
+ * EventSource can't send an Authorization header, so authenticated streams
+ * (e.g. /hooks/forge/stream/:id) are fetched normally and their body parsed
+ * here. Only `event:` and `data:` fields are used; ids and retry hints are
+ * ignored since callers don't reconnect.
+ */
+
+export interface SseEvent {
+  event: string
+  data: string
+}
+
+/**
+ * Incremental parser: feed it decoded chunks in order and it returns the
+ * events completed by each one. Events split across chunks are held until
+ * their terminating blank line arrives.
+ */
+export function createSseParser(): (chunk: string) => SseEvent[] {
+  let buffer = ''
+  let event = ''
+  let data: string[] = []
+
+  return (chunk) => {
+    buffer += chunk
+    // A trailing \r may be the first half of \r\n, so hold it back with the partial line
+    const heldBack = buffer.endsWith('\r') ? '\r' : ''
+    const lines = buffer.slice(0, buffer.length - heldBack.length).split(/\r\n|\r|\n/)
+    buffer = (lines.pop() ?? '') + heldBack
+
+    const events: SseEvent[] = []
+    for (const line of lines) {
+      if (line === '') {
+        if (data.length > 0) {
+          events.push({ event: event || 'message', data: data.join('\n') })
+        }
+        event = ''
+        data = []
+        continue
+      }
+      if (line.startsWith(':')) continue
+
+      const colon = line.indexOf(':')
+      const field = colon === -1 ? line : line.slice(0, colon)
+      let value = colon === -1 ? '' : line.slice(colon + 1)
+      if (value.startsWith(' ')) value = value.slice(1)
+
+      if (field === 'event') event = value
+      else if (field === 'data') data.push(value)
+    }
+    return events
+  }
+}
+
+/**
+ * Read a text/event-stream response to the end, calling onEvent for each
+ * event. Resolves when the server closes the stream; rejects if the
+ * connection drops or the request's signal is aborted.
+ */
+export async function readSseStream(
+  response: Response,
+  onEvent: (event: SseEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body')
+  }
+
+  const parse = createSseParser()
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    parse(value).forEach(onEvent)
+  }
+  // Flush an event the server didn't terminate with a blank line
+  parse('\n\n').forEach(onEvent)
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { groupThreads, hasReacted, mergeReplies } from './threads'
+import type { Message } from '../stores/chatStore'
+
+const ALICE = '0x00000000000000000000000000000000000A11CE'
+
+function makeMessage(id: string, overrides: Partial<Message> = {}): Message {
+  return {
+    id,
+    role: 'user',
+    content: id,
+    createdAt: '2026-03-01T12:00:00Z',
+    ...overrides,
+  }
+}
+
+describe('groupThreads', () => {
+  it('moves replies under their loaded root', () => {
+    const messages = [
+      makeMessage('root'),
+      makeMessage('reply-1', { replyToId: 'root' }),
+      makeMessage('next'),
+      makeMessage('reply-2', { replyToId: 'root' }),
+    ]
+
+    const { main, repliesByRoot } = groupThreads(messages)
+    expect(main.map(m => m.id)).toEqual(['root', 'next'])
+    expect(repliesByRoot.get('root')?.map(m => m.id)).toEqual(['reply-1', 'reply-2'])
+  })
+
+  it('keeps replies in the main flow when their root is not loaded', () => {
+    const { main, repliesByRoot } = groupThreads([makeMessage('orphan', { replyToId: 'older-root' })])
+    expect(main.map(m => m.id)).toEqual(['orphan'])
+    expect(repliesByRoot.size).toBe(0)
+  })
+})
+
+describe('hasReacted', () => {
+  const reactions = [{ emoji: '👍', count: 1, members: [ALICE] }]
+
+  it('matches addresses case-insensitively', () => {
+    expect(hasReacted(reactions, '👍', ALICE.toLowerCase())).toBe(true)
+  })
+
+  it('is false for other emoji or no address', () => {
+    expect(hasReacted(reactions, '🚀', ALICE)).toBe(false)
+    expect(hasReacted(reactions, '👍', null)).toBe(false)
+    expect(hasReacted(undefined, '👍', ALICE)).toBe(false)
+  })
+})
+
+describe('mergeReplies', () => {
+  it('dedupes by id, prefers the store copy and sorts oldest first', () => {
+    const fetched = [
+      makeMessage('a', { createdAt: '2026-03-01T12:00:00Z' }),
+      makeMessage('b', { createdAt: '2026-03-01T12:02:00Z', content: 'old' }),
+    ]
+    const loaded = [
+      makeMessage('b', { createdAt: '2026-03-01T12:02:00Z', content: 'edited' }),
+      makeMessage('c', { createdAt: '2026-03-01T12:01:00Z' }),
+    ]
+
+    const merged = mergeReplies(fetched, loaded)
+    expect(merged.map(m => m.id)).toEqual(['a', 'c', 'b'])
+    expect(merged[2].content).toBe('edited')
+  })
+})
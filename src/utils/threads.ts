@@ -0,0 +1,53 @@
+/**
+ * Client-side helpers for threaded replies and reactions.
+ *
+ * Replies point at their thread root (the backend resolves replies-to-replies),
+ * so a loaded page splits into the main conversation plus replies grouped by
+ * root. Replies whose root isn't loaded stay in the main flow so they're
+ * never hidden.
+ */
+
+import type { Message, MessageReaction } from '../stores/chatStore'
+
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '🎉', '🤔', '👀', '🚀']
+
+export interface ThreadedMessages {
+  main: Message[]
+  repliesByRoot: Map<string, Message[]>
+}
+
+export function groupThreads(messages: Message[]): ThreadedMessages {
+  const ids = new Set(messages.map(m => m.id))
+  const main: Message[] = []
+  const repliesByRoot = new Map<string, Message[]>()
+
+  for (const message of messages) {
+    if (message.replyToId && ids.has(message.replyToId)) {
+      const replies = repliesByRoot.get(message.replyToId) ?? []
+      replies.push(message)
+      repliesByRoot.set(message.replyToId, replies)
+    } else {
+      main.push(message)
+    }
+  }
+
+  return { main, repliesByRoot }
+}
+
+export function hasReacted(reactions: MessageReaction[] | undefined, emoji: string, address: string | null | undefined): boolean {
+  if (!address) return false
+  const reaction = reactions?.find(r => r.emoji === emoji)
+  return !!reaction?.members.some(m => m.toLowerCase() === address.toLowerCase())
+}
+
+/**
+ * Merge replies fetched for a thread with ones already in the store
+ * (new replies arrive over WebSocket), oldest first
+ */
+export function mergeReplies(fetched: Message[], loaded: Message[]): Message[] {
+  const byId = new Map<string, Message>()
+  for (const reply of [...fetched, ...loaded]) byId.set(reply.id, reply)
+  return [...byId.values()].sort((a, b) =>
+    new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime()
+  )
+}
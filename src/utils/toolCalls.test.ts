@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { upsertToolStep, canDecideStep, formatToolOutput, formatToolName } from './toolCalls'
+import type { ToolCallStep } from '../stores/chatStore'
+
+const ALICE = '0x00000000000000000000000000000000000A11CE'
+const BOB = '0x0000000000000000000000000000000000000b0b'
+
+function makeStep(id: string, overrides: Partial<ToolCallStep> = {}): ToolCallStep {
+  return {
+    id,
+    toolUseId: `toolu_${id}`,
+    toolName: 'pin_to_ipfs',
+    input: {},
+    approval: 'requester',
+    status: 'pending',
+    requestedByAddress: ALICE.toLowerCase(),
+    createdAt: '2026-03-01T12:00:00Z',
+    ...overrides,
+  }
+}
+
+describe('upsertToolStep', () => {
+  it('appends new steps in arrival order', () => {
+    const steps = upsertToolStep(upsertToolStep(undefined, makeStep('a')), makeStep('b'))
+    expect(steps.map(s => s.id)).toEqual(['a', 'b'])
+  })
+
+  it('replaces a step with its newer snapshot', () => {
+    const steps = upsertToolStep([makeStep('a'), makeStep('b')], makeStep('a', { status: 'completed', output: 'ok' }))
+    expect(steps.map(s => s.id)).toEqual(['a', 'b'])
+    expect(steps[0].status).toBe('completed')
+  })
+})
+
+describe('canDecideStep', () => {
+  it('lets the requester decide requester-approved steps', () => {
+    expect(canDecideStep(makeStep('a'), ALICE, false)).toBe(true)
+    expect(canDecideStep(makeStep('a'), BOB, false)).toBe(false)
+  })
+
+  it('lets founders/admins decide any pending step', () => {
+    expect(canDecideStep(makeStep('a', { approval: 'admin' }), BOB, true)).toBe(true)
+    expect(canDecideStep(makeStep('a', { approval: 'admin' }), ALICE, false)).toBe(false)
+  })
+
+  it('ignores steps that are already decided', () => {
+    expect(canDecideStep(makeStep('a', { status: 'running' }), ALICE, true)).toBe(false)
+  })
+})
+
+describe('formatToolOutput', () => {
+  it('pretty-prints JSON', () => {
+    expect(formatToolOutput('{"cid":"bafy"}')).toBe('{\n  "cid": "bafy"\n}')
+  })
+
+  it('leaves plain text alone', () => {
+    expect(formatToolOutput('Pinned')).toBe('Pinned')
+  })
+})
+
+describe('formatToolName', () => {
+  it('turns snake_case names into labels', () => {
+    expect(formatToolName('execute_bridge_transaction')).toBe('Execute bridge transaction')
+  })
+})
@@ -0,0 +1,44 @@
+/**
+ * Client-side helpers for the AI's tool steps.
+ *
+ * Steps arrive over WebSocket as full snapshots each time their status
+ * changes, so the client replaces a step by id rather than patching it.
+ */
+
+import type { ToolCallStep } from '../stores/chatStore'
+
+export function upsertToolStep(steps: ToolCallStep[] | undefined, step: ToolCallStep): ToolCallStep[] {
+  const existing = steps ?? []
+  const index = existing.findIndex(s => s.id === step.id)
+  if (index === -1) return [...existing, step]
+  const updated = [...existing]
+  updated[index] = step
+  return updated
+}
+
+export function canDecideStep(
+  step: ToolCallStep,
+  address: string | null | undefined,
+  canManageMembers: boolean
+): boolean {
+  if (step.status !== 'pending' || step.approval === 'none') return false
+  if (canManageMembers) return true
+  return step.approval === 'requester' && !!address && step.requestedByAddress.toLowerCase() === address.toLowerCase()
+}
+
+/**
+ * Tool outputs are often JSON strings; pretty-print those, leave anything else as is
+ */
+export function formatToolOutput(output: string): string {
+  try {
+    return JSON.stringify(JSON.parse(output), null, 2)
+  } catch {
+    return output
+  }
+}
+
+// pin_to_ipfs -> Pin to ipfs
+export function formatToolName(name: string): string {
+  const words = name.replace(/_/g, ' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
@@ -15,6 +15,8 @@ const store = new Store({
     apiKey: null,
     apiUrl: 'https://api.juicyvision.app',
     deviceName: 'PayTerm Device',
+    deviceId: null,
+    offlineSigningKey: null,
     kioskMode: false,
   }
 })
@@ -84,6 +86,8 @@ ipcMain.handle('get-settings', () => {
     apiKey: store.get('apiKey'),
     apiUrl: store.get('apiUrl'),
     deviceName: store.get('deviceName'),
+    deviceId: store.get('deviceId'),
+    offlineSigningKey: store.get('offlineSigningKey'),
     kioskMode: store.get('kioskMode'),
   }
 })
@@ -92,6 +96,8 @@ ipcMain.handle('save-settings', (event, settings) => {
   if (settings.apiKey !== undefined) store.set('apiKey', settings.apiKey)
   if (settings.apiUrl !== undefined) store.set('apiUrl', settings.apiUrl)
   if (settings.deviceName !== undefined) store.set('deviceName', settings.deviceName)
+  if (settings.deviceId !== undefined) store.set('deviceId', settings.deviceId)
+  if (settings.offlineSigningKey !== undefined) store.set('offlineSigningKey', settings.offlineSigningKey)
   if (settings.kioskMode !== undefined) store.set('kioskMode', settings.kioskMode)
   return true
 })
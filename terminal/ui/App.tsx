@@ -7,22 +7,35 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import SetupScreen from './screens/Setup'
-import AmountScreen from './screens/Amount'
+import AmountScreen, { type LineItem } from './screens/Amount'
 import WaitingScreen from './screens/Waiting'
 import ResultScreen from './screens/Result'
+import {
+  createOfflineSession,
+  offlinePaymentUrl,
+  enqueueSession,
+  markSessionCancelled,
+  getQueue,
+  syncOfflineQueue,
+  pairSigningKey,
+} from './offline'
 
 // Types
 interface Settings {
   apiKey: string | null
   apiUrl: string
   deviceName: string
+  deviceId?: string | null // Learned from the API, needed to sign offline sessions
+  offlineSigningKey?: JsonWebKey | null // Private key paired with the backend for offline sessions
 }
 
 interface PaymentSession {
   id: string
   amountUsd: number
+  tipUsd: number
   status: 'pending' | 'paying' | 'completed' | 'failed' | 'expired'
   paymentUrl: string
+  offline?: boolean
 }
 
 type Screen = 'setup' | 'amount' | 'waiting' | 'result'
@@ -36,6 +49,8 @@ export default function App() {
   const [session, setSession] = useState<PaymentSession | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [isOnline, setIsOnline] = useState(true)
+  const [queuedCount, setQueuedCount] = useState(() => getQueue().length)
+  const [syncIssues, setSyncIssues] = useState(0)
 
   // Load settings on mount
   useEffect(() => {
@@ -94,23 +109,57 @@ export default function App() {
     }
   }
 
+  // Create a signed session locally when the API can't be reached
+  const createLocalSession = useCallback(async (amountUsd: number, lineItems?: LineItem[]) => {
+    if (!settings?.apiKey || !settings.deviceId || !settings.offlineSigningKey) {
+      setError('Offline payments are available after the terminal has connected once')
+      return
+    }
+
+    const payload = await createOfflineSession(settings.offlineSigningKey, settings.deviceId, amountUsd, lineItems)
+    enqueueSession(payload)
+    setQueuedCount(getQueue().length)
+
+    setSession({
+      id: payload.id,
+      amountUsd: payload.amountUsd,
+      tipUsd: 0,
+      status: 'pending',
+      paymentUrl: offlinePaymentUrl(payload),
+      offline: true,
+    })
+    setScreen('waiting')
+  }, [settings])
+
   // Create payment session
-  const createSession = useCallback(async (amountUsd: number) => {
+  const createSession = useCallback(async (amountUsd: number, lineItems?: LineItem[]) => {
     if (!settings?.apiKey) {
       setError('API key not configured')
       return
     }
 
+    if (!isOnline) {
+      await createLocalSession(amountUsd, lineItems)
+      return
+    }
+
+    let res: Response
     try {
-      const res = await fetch(`${settings.apiUrl}/terminal/session`, {
+      res = await fetch(`${settings.apiUrl}/terminal/session`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'X-Terminal-Key': settings.apiKey,
         },
-        body: JSON.stringify({ amountUsd }),
+        body: JSON.stringify({ amountUsd, lineItems }),
       })
+    } catch {
+      // Network failure: the browser still thinks we're online
+      await createLocalSession(amountUsd, lineItems)
+      return
+    }
 
+    try {
       const data = await res.json()
 
       if (!data.success) {
@@ -120,6 +169,7 @@ export default function App() {
       setSession({
         id: data.data.session.id,
         amountUsd: data.data.session.amountUsd,
+        tipUsd: 0,
         status: 'pending',
         paymentUrl: data.data.paymentUrl,
       })
@@ -127,8 +177,63 @@ export default function App() {
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create session')
     }
+  }, [settings, isOnline, createLocalSession])
+
+  // Look up our device id so offline sessions can be signed
+  useEffect(() => {
+    if (!settings?.apiKey || settings.deviceId || !isOnline) return
+
+    fetch(`${settings.apiUrl}/terminal/device`, {
+      headers: { 'X-Terminal-Key': settings.apiKey },
+    })
+      .then(res => res.json())
+      .then(data => {
+        if (data.success) {
+          saveSettings({ deviceId: data.data.device.id })
+        }
+      })
+      .catch(() => {
+        // Retried on the next settings change or reconnect
+      })
+  }, [settings, isOnline])
+
+  // Pair a signing key for offline sessions
+  useEffect(() => {
+    if (!settings?.apiKey || settings.offlineSigningKey || !isOnline) return
+
+    pairSigningKey(settings.apiUrl, settings.apiKey)
+      .then(offlineSigningKey => saveSettings({ offlineSigningKey }))
+      .catch(err => {
+        // Retried on the next settings change or reconnect
+        console.error('Failed to pair offline signing key:', err)
+      })
+  }, [settings, isOnline])
+
+  // Reconcile sessions created while offline
+  const syncQueue = useCallback(async () => {
+    if (!settings?.apiKey || getQueue().length === 0) return
+
+    try {
+      const results = await syncOfflineQueue(settings.apiUrl, settings.apiKey)
+      const issues = results.filter(r => r.result === 'conflict' || r.result === 'rejected')
+      if (issues.length > 0) {
+        console.warn('Offline sessions need attention:', issues)
+        setSyncIssues(prev => prev + issues.length)
+      }
+    } catch (err) {
+      console.error('Failed to sync offline sessions:', err)
+    }
+    setQueuedCount(getQueue().length)
   }, [settings])
 
+  useEffect(() => {
+    if (!isOnline) return
+
+    syncQueue()
+    const interval = setInterval(syncQueue, 60000)
+    return () => clearInterval(interval)
+  }, [isOnline, syncQueue])
+
   // WebSocket for real-time session status updates
   useEffect(() => {
     if (screen !== 'waiting' || !session || !settings) return
@@ -144,7 +249,8 @@ export default function App() {
           // Consumer has opened the payment page
           console.log('Session claimed by consumer')
         } else if (message.type === 'payment_started') {
-          setSession(prev => prev ? { ...prev, status: 'paying' } : null)
+          const tipUsd = message.data?.tipUsd ?? 0
+          setSession(prev => prev ? { ...prev, status: 'paying', tipUsd } : null)
         } else if (message.type === 'payment_completed') {
           setSession(prev => prev ? { ...prev, status: 'completed' } : null)
           setScreen('result')
@@ -196,7 +302,7 @@ export default function App() {
 
         if (data.success) {
           if (data.data.status === 'completed') {
-            setSession(prev => prev ? { ...prev, status: 'completed' } : null)
+            setSession(prev => prev ? { ...prev, status: 'completed', tipUsd: data.data.tipUsd ?? prev.tipUsd } : null)
             setScreen('result')
           } else if (data.data.status === 'failed') {
             setSession(prev => prev ? { ...prev, status: 'failed' } : null)
@@ -216,6 +322,10 @@ export default function App() {
 
   // Cancel current session
   const cancelSession = useCallback(async () => {
+    if (session?.offline) {
+      // Recorded at the next sync; a no-op if the session already synced
+      markSessionCancelled(session.id)
+    }
     if (session && settings?.apiKey) {
       try {
         await fetch(`${settings.apiUrl}/terminal/session/${session.id}`, {
@@ -237,6 +347,12 @@ export default function App() {
     setScreen('amount')
   }
 
+  // Leave an offline session waiting to sync (the consumer may still pay it)
+  const dismissOfflineSession = () => {
+    setSession(null)
+    setScreen('amount')
+  }
+
   // Check online status
   useEffect(() => {
     const handleOnline = () => setIsOnline(true)
@@ -258,6 +374,20 @@ export default function App() {
       <header className="px-4 py-2 flex items-center justify-between border-b border-white/10">
         <span className="text-xs text-gray-500">PayTerm</span>
         <div className="flex items-center gap-2">
+          {syncIssues > 0 && (
+            <button
+              onClick={() => setSyncIssues(0)}
+              className="text-xs text-red-400"
+              title="Sessions that conflicted during sync. Check the merchant dashboard."
+            >
+              {syncIssues} sync conflict{syncIssues === 1 ? '' : 's'}
+            </button>
+          )}
+          {queuedCount > 0 && (
+            <span className="text-xs text-yellow-400">
+              {queuedCount} queued
+            </span>
+          )}
           <div className={`status-dot ${isOnline ? 'online' : 'offline'}`} />
           <span className="text-xs text-gray-400">
             {isOnline ? 'Online' : 'Offline'}
@@ -271,7 +401,8 @@ export default function App() {
           <SetupScreen
             settings={settings}
             onSave={(s) => {
-              saveSettings(s)
+              // A different key may belong to a different device
+              saveSettings(s.apiKey !== settings?.apiKey ? { ...s, deviceId: null, offlineSigningKey: null } : s)
               if (s.apiKey) setScreen('amount')
             }}
           />
@@ -290,6 +421,7 @@ export default function App() {
           <WaitingScreen
             session={session}
             onCancel={cancelSession}
+            onDismiss={session.offline ? dismissOfflineSession : undefined}
           />
         )}
 
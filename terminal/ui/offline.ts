@@ -0,0 +1,185 @@
+/**
+ * Offline Sessions
+ *
+ * Lets the terminal keep taking payments through short outages.
+ * Sessions are created locally, signed with a per-device P-256 key (only
+ * its public half is sent to the backend) and a random nonce, and embedded
+ * in the payment link so the consumer PWA can claim them. Queued sessions are reconciled with the backend once the
+ * terminal is back online.
+ */
+
+import type { LineItem } from './screens/Amount'
+
+// Must match the backend's session expiry and payment link format
+const SESSION_EXPIRY_MS = 10 * 60 * 1000
+const PAY_URL_BASE = 'https://pay.juicyvision.app/s'
+
+const QUEUE_STORAGE_KEY = 'payterm-offline-queue'
+
+export interface OfflineSessionPayload {
+  id: string
+  deviceId: string
+  amountUsd: number
+  lineItems: LineItem[] | null
+  nonce: string
+  createdAt: number
+  expiresAt: number
+  signature: string
+}
+
+export interface QueuedSession {
+  payload: OfflineSessionPayload
+  cancelled?: boolean
+}
+
+export interface SyncResult {
+  id: string
+  result: 'created' | 'duplicate' | 'conflict' | 'rejected'
+  status?: string
+  error?: string
+}
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+
+// Same canonical form the backend verifies against
+const signedMessage = (p: Omit<OfflineSessionPayload, 'signature'>) =>
+  JSON.stringify([
+    p.id,
+    p.deviceId,
+    p.amountUsd.toFixed(2),
+    (p.lineItems ?? []).map(item => [item.name, item.quantity, item.unitPriceUsd]),
+    p.nonce,
+    p.createdAt,
+    p.expiresAt,
+  ])
+
+const ECDSA_P256 = { name: 'ECDSA', namedCurve: 'P-256' }
+
+async function sign(signingKey: JsonWebKey, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey('jwk', signingKey, ECDSA_P256, false, ['sign'])
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    new TextEncoder().encode(message),
+  )
+  return toHex(signature)
+}
+
+/**
+ * Generate this terminal's signing key and register its public half with the
+ * backend. Returns the private key to keep in the terminal's settings.
+ */
+export async function pairSigningKey(apiUrl: string, apiKey: string): Promise<JsonWebKey> {
+  const keyPair = await crypto.subtle.generateKey(ECDSA_P256, true, ['sign', 'verify'])
+  const publicKey = toHex(await crypto.subtle.exportKey('raw', keyPair.publicKey))
+
+  const res = await fetch(`${apiUrl}/terminal/device/offline-key`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Terminal-Key': apiKey,
+    },
+    body: JSON.stringify({ publicKey }),
+  })
+
+  const data = await res.json()
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to pair signing key')
+  }
+
+  return crypto.subtle.exportKey('jwk', keyPair.privateKey)
+}
+
+/**
+ * Create and sign a session locally
+ */
+export async function createOfflineSession(
+  signingKey: JsonWebKey,
+  deviceId: string,
+  amountUsd: number,
+  lineItems?: LineItem[],
+): Promise<OfflineSessionPayload> {
+  const createdAt = Date.now()
+  const unsigned = {
+    id: crypto.randomUUID(),
+    deviceId,
+    amountUsd: Math.round(amountUsd * 100) / 100,
+    lineItems: lineItems?.length ? lineItems : null,
+    nonce: toHex(crypto.getRandomValues(new Uint8Array(16))),
+    createdAt,
+    expiresAt: createdAt + SESSION_EXPIRY_MS,
+  }
+
+  return { ...unsigned, signature: await sign(signingKey, signedMessage(unsigned)) }
+}
+
+/**
+ * Payment link carrying the signed session, for the QR code and NFC tag
+ */
+export function offlinePaymentUrl(payload: OfflineSessionPayload): string {
+  const encoded = btoa(unescape(encodeURIComponent(JSON.stringify(payload))))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+  return `${PAY_URL_BASE}/${payload.id}?offline=${encoded}`
+}
+
+// ============================================================================
+// Queue
+// ============================================================================
+
+export function getQueue(): QueuedSession[] {
+  try {
+    const saved = localStorage.getItem(QUEUE_STORAGE_KEY)
+    return saved ? JSON.parse(saved) : []
+  } catch {
+    return []
+  }
+}
+
+function saveQueue(queue: QueuedSession[]) {
+  localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue))
+}
+
+export function enqueueSession(payload: OfflineSessionPayload) {
+  saveQueue([...getQueue(), { payload }])
+}
+
+export function markSessionCancelled(id: string) {
+  saveQueue(getQueue().map(q => q.payload.id === id ? { ...q, cancelled: true } : q))
+}
+
+/**
+ * Send queued sessions to the backend for reconciliation.
+ * Every reconciled entry leaves the queue; conflicts and rejections are
+ * returned so the terminal can flag them to the merchant.
+ */
+export async function syncOfflineQueue(apiUrl: string, apiKey: string): Promise<SyncResult[]> {
+  const queue = getQueue()
+  if (queue.length === 0) return []
+
+  const batch = queue.slice(0, 100)
+  const res = await fetch(`${apiUrl}/terminal/session/offline/sync`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Terminal-Key': apiKey,
+    },
+    body: JSON.stringify({ sessions: batch }),
+  })
+
+  const data = await res.json()
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to sync offline sessions')
+  }
+
+  const results = data.data.results as SyncResult[]
+  const reconciled = new Set(results.map(r => r.id))
+  // Re-read in case a session was queued while the request was in flight
+  saveQueue(getQueue().filter(q => !reconciled.has(q.payload.id)))
+
+  return results
+}
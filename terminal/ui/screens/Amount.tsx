@@ -2,14 +2,21 @@
  * Amount Entry Screen
  *
  * Keypad interface for entering payment amount.
+ * Prices can be added as line items to build an itemized charge.
  * Optimized for touch screen on Raspberry Pi.
  */
 
 import { useState, useCallback } from 'react'
 import Keypad from '../components/Keypad'
 
+export interface LineItem {
+  name: string
+  quantity: number
+  unitPriceUsd: number
+}
+
 interface AmountScreenProps {
-  onSubmit: (amount: number) => void
+  onSubmit: (amount: number, lineItems?: LineItem[]) => void
   onSettings: () => void
   error: string | null
   onClearError: () => void
@@ -17,6 +24,7 @@ interface AmountScreenProps {
 
 export default function AmountScreen({ onSubmit, onSettings, error, onClearError }: AmountScreenProps) {
   const [amount, setAmount] = useState('0')
+  const [lineItems, setLineItems] = useState<LineItem[]>([])
 
   const handleKeyPress = useCallback((key: string) => {
     onClearError()
@@ -53,29 +61,82 @@ export default function AmountScreen({ onSubmit, onSettings, error, onClearError
     setAmount(newAmount)
   }, [amount, onClearError])
 
+  // Add the keypad amount as a line item (same price bumps the quantity)
+  const handleAddItem = () => {
+    const unitPriceUsd = parseFloat(amount)
+    if (unitPriceUsd <= 0) return
+
+    setLineItems(prev => {
+      const existing = prev.findIndex(item => item.unitPriceUsd === unitPriceUsd)
+      if (existing >= 0) {
+        return prev.map((item, i) => i === existing ? { ...item, quantity: item.quantity + 1 } : item)
+      }
+      return [...prev, { name: `Item ${prev.length + 1}`, quantity: 1, unitPriceUsd }]
+    })
+    setAmount('0')
+  }
+
+  const handleRemoveItem = (index: number) => {
+    setLineItems(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const itemsTotal = Math.round(
+    lineItems.reduce((sum, item) => sum + item.quantity * item.unitPriceUsd, 0) * 100
+  ) / 100
+
+  // With line items the keypad only enters prices; the charge is their total
+  const chargeAmount = lineItems.length > 0 ? itemsTotal : parseFloat(amount || '0')
+
   const handleSubmit = () => {
-    const numAmount = parseFloat(amount)
-    if (numAmount <= 0) {
+    if (chargeAmount <= 0 || chargeAmount > 9999.99) {
       return
     }
-    onSubmit(numAmount)
+    if (lineItems.length > 0) {
+      onSubmit(chargeAmount, lineItems)
+      setLineItems([])
+      return
+    }
+    onSubmit(chargeAmount)
   }
 
-  const formattedAmount = parseFloat(amount || '0').toLocaleString('en-US', {
+  const formatAmount = (value: number) => value.toLocaleString('en-US', {
     minimumFractionDigits: 0,
     maximumFractionDigits: 2,
   })
 
+  const formattedAmount = formatAmount(parseFloat(amount || '0'))
+
   return (
     <div className="h-full flex flex-col">
       {/* Amount Display */}
       <div className="flex-1 flex flex-col items-center justify-center px-8 py-4">
-        <p className="text-gray-500 text-sm mb-2">Enter Amount</p>
+        <p className="text-gray-500 text-sm mb-2">{lineItems.length > 0 ? 'Enter Item Price' : 'Enter Amount'}</p>
         <div className="amount-display flex items-baseline">
           <span className="text-3xl mr-2">$</span>
           <span>{formattedAmount}</span>
         </div>
 
+        {/* Line items */}
+        {lineItems.length > 0 && (
+          <div className="mt-4 w-full max-w-xs space-y-1">
+            {lineItems.map((item, i) => (
+              <div key={i} className="flex items-center justify-between text-sm text-gray-400">
+                <span>{item.quantity} × ${formatAmount(item.unitPriceUsd)}</span>
+                <div className="flex items-center gap-3">
+                  <span>${formatAmount(item.quantity * item.unitPriceUsd)}</span>
+                  <button
+                    onClick={() => handleRemoveItem(i)}
+                    className="text-gray-500 hover:text-red-400"
+                    aria-label="Remove item"
+                  >
+                    ×
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Error message */}
         {error && (
           <div className="mt-4 px-4 py-2 bg-red-500/20 border border-red-500/30 text-red-400 text-sm">
@@ -101,15 +162,26 @@ export default function AmountScreen({ onSubmit, onSettings, error, onClearError
           </svg>
         </button>
         <button
-          onClick={handleSubmit}
+          onClick={handleAddItem}
           disabled={parseFloat(amount) <= 0}
-          className={`flex-1 py-3 font-semibold text-lg transition-colors ${
+          className={`px-4 py-3 border transition-colors ${
             parseFloat(amount) > 0
+              ? 'bg-white/5 border-white/10 text-white hover:bg-white/10'
+              : 'bg-white/5 border-white/10 text-gray-600 cursor-not-allowed'
+          }`}
+        >
+          + Item
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={chargeAmount <= 0}
+          className={`flex-1 py-3 font-semibold text-lg transition-colors ${
+            chargeAmount > 0
               ? 'bg-juice-cyan text-juice-dark hover:bg-juice-cyan/90'
               : 'bg-white/10 text-gray-500 cursor-not-allowed'
           }`}
         >
-          Charge ${formattedAmount}
+          Charge ${formatAmount(chargeAmount)}
         </button>
       </div>
     </div>
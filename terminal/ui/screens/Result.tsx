@@ -9,6 +9,7 @@ import { useEffect } from 'react'
 interface PaymentSession {
   id: string
   amountUsd: number
+  tipUsd: number
   status: 'pending' | 'paying' | 'completed' | 'failed' | 'expired'
 }
 
@@ -41,9 +42,14 @@ export default function ResultScreen({ session, onNewPayment }: ResultScreenProp
             </svg>
           </div>
           <h1 className="text-3xl font-bold text-white mb-2">Payment Complete</h1>
-          <p className="text-4xl font-bold text-green-400 mb-6">
-            ${session.amountUsd.toFixed(2)}
+          <p className={`text-4xl font-bold text-green-400 ${session.tipUsd > 0 ? 'mb-1' : 'mb-6'}`}>
+            ${(session.amountUsd + session.tipUsd).toFixed(2)}
           </p>
+          {session.tipUsd > 0 && (
+            <p className="text-gray-400 text-sm mb-6">
+              ${session.amountUsd.toFixed(2)} + ${session.tipUsd.toFixed(2)} tip
+            </p>
+          )}
           <p className="text-gray-400 text-sm mb-8">Thank you!</p>
           <button
             onClick={onNewPayment}
@@ -2,6 +2,7 @@
  * Waiting Screen
  *
  * Shows QR code and "Tap to Pay" animation while waiting for payment.
+ * Offline sessions can be left to sync later instead of being cancelled.
  */
 
 import { useState, useEffect } from 'react'
@@ -12,14 +13,16 @@ interface PaymentSession {
   amountUsd: number
   status: string
   paymentUrl: string
+  offline?: boolean
 }
 
 interface WaitingScreenProps {
   session: PaymentSession
   onCancel: () => void
+  onDismiss?: () => void
 }
 
-export default function WaitingScreen({ session, onCancel }: WaitingScreenProps) {
+export default function WaitingScreen({ session, onCancel, onDismiss }: WaitingScreenProps) {
   const [timeLeft, setTimeLeft] = useState(600) // 10 minutes
 
   // Countdown timer
@@ -71,6 +74,13 @@ export default function WaitingScreen({ session, onCancel }: WaitingScreenProps)
         Expires in {formatTime(timeLeft)}
       </div>
 
+      {/* Offline notice */}
+      {session.offline && (
+        <div className="text-xs text-yellow-400 mb-4 text-center">
+          Offline - this payment will be confirmed when the terminal reconnects
+        </div>
+      )}
+
       {/* NFC animation indicator */}
       <div className="flex items-center gap-3 mb-8">
         <div className="relative">
@@ -80,13 +90,23 @@ export default function WaitingScreen({ session, onCancel }: WaitingScreenProps)
         <span className="text-sm text-gray-400">Waiting for payment...</span>
       </div>
 
-      {/* Cancel button */}
-      <button
-        onClick={onCancel}
-        className="px-6 py-2 text-sm text-gray-400 hover:text-white border border-white/10 hover:border-white/20 transition-colors"
-      >
-        Cancel
-      </button>
+      {/* Actions */}
+      <div className="flex gap-3">
+        <button
+          onClick={onCancel}
+          className="px-6 py-2 text-sm text-gray-400 hover:text-white border border-white/10 hover:border-white/20 transition-colors"
+        >
+          Cancel
+        </button>
+        {onDismiss && (
+          <button
+            onClick={onDismiss}
+            className="px-6 py-2 text-sm text-juice-cyan border border-juice-cyan/30 hover:border-juice-cyan/60 transition-colors"
+          >
+            Done
+          </button>
+        )}
+      </div>
     </div>
   )
 }